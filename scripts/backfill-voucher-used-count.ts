@@ -0,0 +1,27 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Seed voucher_campaigns."usedCount" from the vouchers already used, so the
+ * checkout usage limit counts redemptions made before the column existed
+ */
+async function backfillVoucherUsedCount() {
+  try {
+    const updated = await prisma.$executeRaw`
+      UPDATE "voucher_campaigns" c
+      SET "usedCount" = (
+        SELECT count(*) FROM "vouchers" v
+        WHERE v."voucherCampaignId" = c."id" AND v."status" = 'used'
+      )`;
+
+    console.log(`✅ Backfilled usedCount for ${updated} voucher campaigns`);
+  } catch (error) {
+    console.error('❌ Error backfilling voucher usage:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillVoucherUsedCount();
@@ -243,7 +243,11 @@ class InventoryCartDebugger {
       for (const cart of carts) {
         if (cart.items.length === 0) continue;
 
-        console.log(`👤 User: ${cart.user.fullName} (${cart.user.email})`);
+        console.log(
+          cart.user
+            ? `👤 User: ${cart.user.fullName} (${cart.user.email})`
+            : `👤 Guest cart (${cart.guestToken})`,
+        );
         console.log(`🛒 Cart ID: ${cart.id}`);
         console.log(`📦 Items: ${cart.items.length}`);
 
@@ -347,7 +351,9 @@ class InventoryCartDebugger {
         return;
       }
 
-      console.log(`👤 Testing with user: ${cart.user.email}`);
+      console.log(
+        `👤 Testing with ${cart.user ? `user: ${cart.user.email}` : 'a guest cart'}`,
+      );
       console.log(`🛒 Cart has ${cart.items.length} items\n`);
 
       // Simulate the cart service validation logic
@@ -527,7 +533,7 @@ class InventoryCartDebugger {
           console.log(`   Users with this product in cart:`);
           product.cartItems.forEach((item) => {
             console.log(
-              `     - ${item.cart.user.email} (Qty: ${item.quantity})`,
+              `     - ${item.cart.user?.email ?? 'guest'} (Qty: ${item.quantity})`,
             );
           });
         }
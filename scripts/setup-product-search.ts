@@ -0,0 +1,61 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Turns products."searchDocument" / "searchVector" into generated columns so
+ * every write path (admin, KiotViet sync, scripts) keeps the search index
+ * current. Safe to re-run, e.g. after a `prisma db push` recreated them as
+ * plain columns.
+ */
+async function setupProductSearch() {
+  try {
+    console.log('Setting up product search index...');
+
+    await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS unaccent`;
+    await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+
+    // unaccent() is only STABLE, generated columns need an IMMUTABLE wrapper.
+    // đ has no combining mark, so it is folded explicitly like the app does.
+    await prisma.$executeRaw`
+      CREATE OR REPLACE FUNCTION f_unaccent(text) RETURNS text
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+      AS $$ SELECT translate(public.unaccent('public.unaccent', $1), 'đĐ', 'dD') $$`;
+
+    await prisma.$executeRaw`ALTER TABLE "products" DROP COLUMN IF EXISTS "searchDocument"`;
+    await prisma.$executeRaw`ALTER TABLE "products" DROP COLUMN IF EXISTS "searchVector"`;
+
+    await prisma.$executeRaw`
+      ALTER TABLE "products" ADD COLUMN "searchDocument" text
+      GENERATED ALWAYS AS (
+        lower(f_unaccent(
+          "name" || ' ' || "code" || ' ' || coalesce("barCode", '') || ' ' ||
+          coalesce("description", '')
+        ))
+      ) STORED`;
+
+    await prisma.$executeRaw`
+      ALTER TABLE "products" ADD COLUMN "searchVector" tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', lower(f_unaccent("name"))), 'A') ||
+        setweight(to_tsvector('simple', lower(f_unaccent("code" || ' ' || coalesce("barCode", '')))), 'B') ||
+        setweight(to_tsvector('simple', lower(f_unaccent(coalesce("description", '')))), 'C')
+      ) STORED`;
+
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "products_searchDocument_idx"
+      ON "products" USING GIN ("searchDocument" gin_trgm_ops)`;
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "products_searchVector_idx"
+      ON "products" USING GIN ("searchVector")`;
+
+    console.log('Product search index is ready');
+  } catch (error) {
+    console.error('Error setting up product search:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+setupProductSearch();
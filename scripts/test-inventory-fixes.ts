@@ -104,7 +104,9 @@ class InventoryFixesTester {
       }
 
       console.log(
-        `👤 Testing with user: ${cart.user.fullName} (${cart.user.email})`,
+        cart.user
+          ? `👤 Testing with user: ${cart.user.fullName} (${cart.user.email})`
+          : '👤 Testing with a guest cart',
       );
       console.log(`🛒 Cart has ${cart.items.length} items\n`);
 
@@ -10,12 +10,16 @@ import { UpdateAffiliateCommissionDto } from './dto/update-commission.dto';
 import { CalculateCommissionDto } from './dto/calculate-commission.dto';
 import { CommissionQueryDto } from './dto/commission-query.dto';
 import { AffiliateCommissionResponseDto } from './dto/commission-response.dto';
+import { CommissionRatePlansService } from './commission-rate-plans.service';
+import {
+  COMMISSIONABLE_ORDER_INCLUDE,
+  CommissionRateHelper,
+} from './helpers/commission-rate.helper';
+import { WalletLedgerHelper } from '../e-commerce/wallets/wallet-ledger.helper';
 import { CommissionLevel, CommissionStatus } from '@prisma/client';
 import {
-  CategoryGroup,
   OrderStatus,
   CalculationStatus,
-  COMMISSION_RATES,
   CommissionWhereClause,
   CommissionInclude,
   CommissionSummary,
@@ -26,9 +30,7 @@ import {
   UserCommissionResponse,
   PaginatedCommissionResponse,
   CommissionLogData,
-  CommissionCreateData,
   OrderItem,
-  isCategoryGroup,
   isOrderStatus,
 } from './types/commission.types';
 
@@ -36,7 +38,10 @@ import {
 export class AffiliateCommissionService {
   private readonly logger = new Logger(AffiliateCommissionService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private readonly commissionRatePlansService: CommissionRatePlansService,
+  ) {}
 
   async create(
     createDto: CreateAffiliateCommissionDto,
@@ -289,30 +294,7 @@ export class AffiliateCommissionService {
       // Kiểm tra đơn hàng tồn tại và đã hoàn thành
       const order = await this.prisma.order.findUnique({
         where: { id: orderId },
-        include: {
-          orderDetails: {
-            include: {
-              product: {
-                include: {
-                  category: true,
-                },
-              },
-            },
-          },
-          customer: {
-            include: {
-              user: {
-                include: {
-                  referrer: {
-                    include: {
-                      referrer: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
+        include: COMMISSIONABLE_ORDER_INCLUDE,
       });
 
       if (!order) {
@@ -333,87 +315,19 @@ export class AffiliateCommissionService {
         where: { orderId },
       });
 
-      const commissions: CommissionCreateData[] = [];
-      let totalAmount = 0;
-
-      // Tính commission cho từng sản phẩm trong đơn hàng
-      for (const orderDetail of order.orderDetails) {
-        const { product, quantity } = orderDetail;
-        const category = product.category;
-
-        // Xác định tỷ lệ hoa hồng dựa trên nhóm ngành
-        const categoryGroup = isCategoryGroup(category.group)
-          ? category.group
-          : CategoryGroup.A;
-
-        const categoryCommissionRate = COMMISSION_RATES.CATEGORY[categoryGroup];
-        const baseAmount = Number(product.price) * quantity;
-        const totalCommissionAmount = baseAmount * categoryCommissionRate;
-
-        // Tìm orderDetail tương ứng
-        const orderDetailRecord = order.orderDetails.find(
-          (detail) => detail.productId === product.id,
-        );
+      // Dùng bảng tỷ lệ có hiệu lực tại ngày mua hàng của đơn
+      const rateTable = await this.commissionRatePlansService.getRateTableAt(
+        order.purchaseDate,
+      );
 
-        // Tạo commission cho F2 (người mua hàng)
-        if (order.customer.user) {
-          const f2Commission: CommissionCreateData = {
-            orderId,
-            orderDetailId: orderDetailRecord?.id,
-            productId: product.id,
-            beneficiaryId: order.customer.user.id,
-            commissionLevel: CommissionLevel.F2,
-            commissionRate: categoryCommissionRate,
-            baseAmount,
-            quantity,
-            commissionAmount: totalCommissionAmount,
-            categoryId: category.id,
-            status: CommissionStatus.calculated,
-          };
-          commissions.push(f2Commission);
-          totalAmount += totalCommissionAmount;
-
-          // Tạo commission cho F1 (người giới thiệu trực tiếp)
-          if (order.customer.user.referrer) {
-            const f1Rate = COMMISSION_RATES.LEVEL[CommissionLevel.F1];
-            const f1Commission: CommissionCreateData = {
-              orderId,
-              orderDetailId: orderDetailRecord?.id,
-              productId: product.id,
-              beneficiaryId: order.customer.user.referrer.id,
-              commissionLevel: CommissionLevel.F1,
-              commissionRate: f1Rate,
-              baseAmount,
-              quantity,
-              commissionAmount: baseAmount * f1Rate,
-              categoryId: category.id,
-              status: CommissionStatus.calculated,
-            };
-            commissions.push(f1Commission);
-            totalAmount += baseAmount * f1Rate;
-
-            // Tạo commission cho F0 (người giới thiệu gián tiếp)
-            if (order.customer.user.referrer.referrer) {
-              const f0Rate = COMMISSION_RATES.LEVEL[CommissionLevel.F0];
-              const f0Commission: CommissionCreateData = {
-                orderId,
-                orderDetailId: orderDetailRecord?.id,
-                productId: product.id,
-                beneficiaryId: order.customer.user.referrer.referrer.id,
-                commissionLevel: CommissionLevel.F0,
-                commissionRate: f0Rate,
-                baseAmount,
-                quantity,
-                commissionAmount: baseAmount * f0Rate,
-                categoryId: category.id,
-                status: CommissionStatus.calculated,
-              };
-              commissions.push(f0Commission);
-              totalAmount += baseAmount * f0Rate;
-            }
-          }
-        }
-      }
+      const commissions = CommissionRateHelper.buildCommissions(
+        order,
+        rateTable,
+      );
+      const totalAmount = commissions.reduce(
+        (sum, commission) => sum + commission.commissionAmount,
+        0,
+      );
 
       // Lưu tất cả commissions vào database
       if (commissions.length > 0) {
@@ -476,59 +390,35 @@ export class AffiliateCommissionService {
     }
   }
 
+  /**
+   * Credit the commission to the beneficiary's wallet right away instead of
+   * waiting for the order to complete
+   */
   async markAsPaid(
     id: string,
     paidBy: string,
   ): Promise<AffiliateCommissionResponseDto> {
-    const commission = await this.prisma.affiliateCommission.update({
-      where: { id },
-      data: {
-        status: CommissionStatus.paid,
-        paidAt: new Date(),
-        paidBy,
-      },
-      include: {
-        beneficiary: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
-        },
-        product: {
-          select: {
-            id: true,
-            name: true,
-            price: true,
-          },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            group: true,
-          },
-        },
-        order: {
-          select: {
-            id: true,
-            code: true,
-            status: true,
-          },
-        },
-      },
+    await this.prisma.$transaction(async (tx) => {
+      const commission = await tx.affiliateCommission.findUnique({
+        where: { id },
+      });
+
+      if (!commission) {
+        throw new NotFoundException(
+          `Affiliate commission with ID ${id} not found`,
+        );
+      }
+
+      if (commission.status === CommissionStatus.cancelled) {
+        throw new BadRequestException(
+          `Cancelled commission ${id} cannot be paid`,
+        );
+      }
+
+      await WalletLedgerHelper.creditCommission(tx, commission, paidBy);
     });
 
-    return {
-      ...commission,
-      commissionRate: Number(commission.commissionRate),
-      baseAmount: Number(commission.baseAmount),
-      commissionAmount: Number(commission.commissionAmount),
-      product: {
-        ...commission.product,
-        price: Number(commission.product.price),
-      },
-    } as AffiliateCommissionResponseDto;
+    return this.findOne(id);
   }
 
   async getUserCommissions(
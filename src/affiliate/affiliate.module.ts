@@ -1,11 +1,17 @@
 import { Module } from '@nestjs/common';
 import { AffiliateCommissionService } from './affiliate-commission.service';
 import { AffiliateCommissionController } from './affiliate-commission.controller';
+import { CommissionRatePlansService } from './commission-rate-plans.service';
+import { CommissionRatePlansController } from './commission-rate-plans.controller';
 import { PrismaService } from '../common/services/prisma.service';
 
 @Module({
-  controllers: [AffiliateCommissionController],
-  providers: [AffiliateCommissionService, PrismaService],
-  exports: [AffiliateCommissionService],
+  controllers: [AffiliateCommissionController, CommissionRatePlansController],
+  providers: [
+    AffiliateCommissionService,
+    CommissionRatePlansService,
+    PrismaService,
+  ],
+  exports: [AffiliateCommissionService, CommissionRatePlansService],
 })
 export class AffiliateModule {}
@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../common/enums/role.enum';
+import { CurrentUser } from '../users/users.decorator';
+import { JwtPayload } from '../auth/jwt-payload';
+import { CommissionRatePlansService } from './commission-rate-plans.service';
+import { CreateCommissionRatePlanDto } from './dto/create-commission-rate-plan.dto';
+import { UpdateCommissionRatePlanDto } from './dto/update-commission-rate-plan.dto';
+import {
+  CommissionRatePlanQueryDto,
+  CommissionRatePreviewQueryDto,
+} from './dto/commission-rate-plan-query.dto';
+import {
+  CommissionRatePlanResponseDto,
+  CommissionRatePreviewResponseDto,
+  PaginatedCommissionRatePlanResponseDto,
+} from './dto/commission-rate-plan-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Commission Rate Plans')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('commission-rate-plans')
+export class CommissionRatePlansController {
+  constructor(
+    private readonly commissionRatePlansService: CommissionRatePlansService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List commission rate plans' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: PaginatedCommissionRatePlanResponseDto,
+  })
+  findAll(
+    @Query() query: CommissionRatePlanQueryDto,
+  ): Promise<PaginatedCommissionRatePlanResponseDto> {
+    return this.commissionRatePlansService.findAll(query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a commission rate plan' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    type: CommissionRatePlanResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Validity window overlaps another active plan',
+  })
+  create(
+    @Body() dto: CreateCommissionRatePlanDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<CommissionRatePlanResponseDto> {
+    return this.commissionRatePlansService.create(dto, user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a commission rate plan' })
+  @ApiResponse({ status: HttpStatus.OK, type: CommissionRatePlanResponseDto })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Plan not found' })
+  findOne(@Param('id') id: string): Promise<CommissionRatePlanResponseDto> {
+    return this.commissionRatePlansService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a commission rate plan' })
+  @ApiResponse({ status: HttpStatus.OK, type: CommissionRatePlanResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Rates of a plan already used for commissions are locked',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCommissionRatePlanDto,
+  ): Promise<CommissionRatePlanResponseDto> {
+    return this.commissionRatePlansService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an unused commission rate plan' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT })
+  remove(@Param('id') id: string): Promise<void> {
+    return this.commissionRatePlansService.remove(id);
+  }
+
+  @Get(':id/preview')
+  @ApiOperation({
+    summary:
+      'Preview commissions of completed orders under this plan (default: last month)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: CommissionRatePreviewResponseDto,
+  })
+  preview(
+    @Param('id') id: string,
+    @Query() query: CommissionRatePreviewQueryDto,
+  ): Promise<CommissionRatePreviewResponseDto> {
+    return this.commissionRatePlansService.preview(id, query);
+  }
+}
@@ -0,0 +1,366 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import {
+  CommissionRateOverrideDto,
+  CreateCommissionRatePlanDto,
+} from './dto/create-commission-rate-plan.dto';
+import { UpdateCommissionRatePlanDto } from './dto/update-commission-rate-plan.dto';
+import {
+  CommissionRatePlanQueryDto,
+  CommissionRatePreviewQueryDto,
+} from './dto/commission-rate-plan-query.dto';
+import {
+  CommissionRatePlanResponseDto,
+  CommissionRatePreviewOrderDto,
+  CommissionRatePreviewResponseDto,
+  PaginatedCommissionRatePlanResponseDto,
+} from './dto/commission-rate-plan-response.dto';
+import {
+  COMMISSIONABLE_ORDER_INCLUDE,
+  CommissionRateHelper,
+  DEFAULT_RATE_TABLE,
+} from './helpers/commission-rate.helper';
+import { CommissionRateTable } from './types/commission.types';
+
+const PLAN_INCLUDE = {
+  overrides: true,
+  _count: { select: { commissions: true } },
+} satisfies Prisma.CommissionRatePlanInclude;
+
+// Fields that decide commission amounts; locked once a plan has been used
+const RATE_FIELDS = [
+  'validFrom',
+  'groupARate',
+  'groupBRate',
+  'groupCRate',
+  'f0Rate',
+  'f1Rate',
+  'f2Rate',
+  'overrides',
+] as const;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class CommissionRatePlansService {
+  private readonly logger = new Logger(CommissionRatePlansService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    query: CommissionRatePlanQueryDto,
+  ): Promise<PaginatedCommissionRatePlanResponseDto> {
+    const { page = 1, limit = 20, isActive } = query;
+
+    const where: Prisma.CommissionRatePlanWhereInput = {
+      ...(isActive !== undefined && { isActive }),
+    };
+
+    const [plans, total] = await Promise.all([
+      this.prisma.commissionRatePlan.findMany({
+        where,
+        include: PLAN_INCLUDE,
+        orderBy: { validFrom: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.commissionRatePlan.count({ where }),
+    ]);
+
+    return {
+      data: plans.map((plan) => CommissionRatePlanResponseDto.fromPlan(plan)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<CommissionRatePlanResponseDto> {
+    const plan = await this.getPlanOrThrow(id);
+    return CommissionRatePlanResponseDto.fromPlan(plan);
+  }
+
+  async create(
+    dto: CreateCommissionRatePlanDto,
+    createdBy?: string,
+  ): Promise<CommissionRatePlanResponseDto> {
+    const isActive = dto.isActive ?? false;
+    this.validateWindow(dto.validFrom, dto.validTo);
+    this.validateOverrides(dto.overrides ?? []);
+    if (isActive) {
+      await this.assertNoActiveOverlap(dto.validFrom, dto.validTo ?? null);
+    }
+
+    const plan = await this.prisma.commissionRatePlan.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        validFrom: dto.validFrom,
+        validTo: dto.validTo,
+        isActive,
+        groupARate: dto.groupARate,
+        groupBRate: dto.groupBRate,
+        groupCRate: dto.groupCRate,
+        f0Rate: dto.f0Rate,
+        f1Rate: dto.f1Rate,
+        f2Rate: dto.f2Rate,
+        createdBy,
+        overrides: { create: dto.overrides ?? [] },
+      },
+      include: PLAN_INCLUDE,
+    });
+
+    this.logger.log(`Commission rate plan ${plan.id} created`);
+
+    return CommissionRatePlanResponseDto.fromPlan(plan);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateCommissionRatePlanDto,
+  ): Promise<CommissionRatePlanResponseDto> {
+    const plan = await this.getPlanOrThrow(id);
+
+    // Past commissions must stay reproducible from the plan they were
+    // calculated with; rate changes go into a new plan instead
+    if (
+      plan._count.commissions > 0 &&
+      RATE_FIELDS.some((field) => dto[field] !== undefined)
+    ) {
+      throw new BadRequestException(
+        'Bảng tỷ lệ đã được dùng để tính hoa hồng, chỉ có thể đổi tên, mô tả, ngày kết thúc hoặc trạng thái. Hãy tạo bảng tỷ lệ mới',
+      );
+    }
+
+    const validFrom = dto.validFrom ?? plan.validFrom;
+    const validTo = dto.validTo !== undefined ? dto.validTo : plan.validTo;
+    const isActive = dto.isActive ?? plan.isActive;
+
+    this.validateWindow(validFrom, validTo);
+    if (dto.overrides) this.validateOverrides(dto.overrides);
+    if (isActive) {
+      await this.assertNoActiveOverlap(validFrom, validTo ?? null, id);
+    }
+
+    const { overrides, ...data } = dto;
+
+    const updated = await this.prisma.commissionRatePlan.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(overrides && {
+          overrides: { deleteMany: {}, create: overrides },
+        }),
+      },
+      include: PLAN_INCLUDE,
+    });
+
+    this.logger.log(`Commission rate plan ${id} updated`);
+
+    return CommissionRatePlanResponseDto.fromPlan(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    const plan = await this.getPlanOrThrow(id);
+
+    if (plan._count.commissions > 0) {
+      throw new BadRequestException(
+        'Không thể xóa bảng tỷ lệ đã được dùng để tính hoa hồng',
+      );
+    }
+
+    await this.prisma.commissionRatePlan.delete({ where: { id } });
+    this.logger.log(`Commission rate plan ${id} deleted`);
+  }
+
+  /**
+   * Rates in force at the given purchase date; falls back to
+   * COMMISSION_RATES when no active plan covers it
+   */
+  async getRateTableAt(at: Date): Promise<CommissionRateTable> {
+    const plan = await this.prisma.commissionRatePlan.findFirst({
+      where: {
+        isActive: true,
+        validFrom: { lte: at },
+        OR: [{ validTo: null }, { validTo: { gt: at } }],
+      },
+      include: { overrides: true },
+      orderBy: { validFrom: 'desc' },
+    });
+
+    return plan ? CommissionRateHelper.toRateTable(plan) : DEFAULT_RATE_TABLE;
+  }
+
+  /**
+   * Compare the commissions completed orders earned under the rates in force
+   * at their purchase date with what the given plan would pay
+   */
+  async preview(
+    id: string,
+    query: CommissionRatePreviewQueryDto,
+  ): Promise<CommissionRatePreviewResponseDto> {
+    const plan = await this.getPlanOrThrow(id);
+    const proposed = CommissionRateHelper.toRateTable(plan);
+
+    const now = new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const endDate = query.endDate
+      ? new Date(query.endDate)
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+
+    if (startDate >= endDate) {
+      throw new BadRequestException('Ngày bắt đầu phải trước ngày kết thúc');
+    }
+
+    const [orders, activePlans] = await Promise.all([
+      this.prisma.order.findMany({
+        where: {
+          status: OrderStatus.completed,
+          purchaseDate: { gte: startDate, lt: endDate },
+        },
+        include: COMMISSIONABLE_ORDER_INCLUDE,
+        orderBy: { purchaseDate: 'asc' },
+      }),
+      this.prisma.commissionRatePlan.findMany({
+        where: {
+          isActive: true,
+          validFrom: { lt: endDate },
+          OR: [{ validTo: null }, { validTo: { gt: startDate } }],
+        },
+        include: { overrides: true },
+        orderBy: { validFrom: 'desc' },
+      }),
+    ]);
+
+    const tables = activePlans.map((activePlan) => ({
+      plan: activePlan,
+      table: CommissionRateHelper.toRateTable(activePlan),
+    }));
+
+    const total = (amounts: { commissionAmount: number }[]) =>
+      roundAmount(amounts.reduce((sum, c) => sum + c.commissionAmount, 0));
+
+    const previewOrders: CommissionRatePreviewOrderDto[] = orders.map(
+      (order) => {
+        const current =
+          tables.find(({ plan: activePlan }) =>
+            CommissionRateHelper.isInForce(activePlan, order.purchaseDate),
+          )?.table ?? DEFAULT_RATE_TABLE;
+
+        const currentAmount = total(
+          CommissionRateHelper.buildCommissions(order, current),
+        );
+        const proposedAmount = total(
+          CommissionRateHelper.buildCommissions(order, proposed),
+        );
+
+        return {
+          orderId: order.id,
+          code: order.code,
+          purchaseDate: order.purchaseDate,
+          currentPlanId: current.planId,
+          currentAmount,
+          proposedAmount,
+          difference: roundAmount(proposedAmount - currentAmount),
+        };
+      },
+    );
+
+    const currentTotal = roundAmount(
+      previewOrders.reduce((sum, o) => sum + o.currentAmount, 0),
+    );
+    const proposedTotal = roundAmount(
+      previewOrders.reduce((sum, o) => sum + o.proposedAmount, 0),
+    );
+
+    return {
+      planId: plan.id,
+      startDate,
+      endDate,
+      orderCount: previewOrders.length,
+      currentTotal,
+      proposedTotal,
+      difference: roundAmount(proposedTotal - currentTotal),
+      orders: previewOrders,
+    };
+  }
+
+  private async getPlanOrThrow(id: string) {
+    const plan = await this.prisma.commissionRatePlan.findUnique({
+      where: { id },
+      include: PLAN_INCLUDE,
+    });
+
+    if (!plan) {
+      throw new NotFoundException('Bảng tỷ lệ hoa hồng không tồn tại');
+    }
+
+    return plan;
+  }
+
+  private validateWindow(validFrom: Date, validTo?: Date | null) {
+    if (validTo && validTo <= validFrom) {
+      throw new BadRequestException(
+        'Ngày kết thúc hiệu lực phải sau ngày bắt đầu',
+      );
+    }
+  }
+
+  private validateOverrides(overrides: CommissionRateOverrideDto[]) {
+    const seen = new Set<string>();
+
+    for (const override of overrides) {
+      if (!override.productId === !override.categoryId) {
+        throw new BadRequestException(
+          'Mỗi tỷ lệ riêng phải chọn đúng một sản phẩm hoặc một danh mục',
+        );
+      }
+
+      const key = override.productId
+        ? `product:${override.productId}`
+        : `category:${override.categoryId}`;
+      if (seen.has(key)) {
+        throw new BadRequestException(
+          `Tỷ lệ riêng bị trùng cho ${override.productId ? 'sản phẩm' : 'danh mục'} ${override.productId ?? override.categoryId}`,
+        );
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Active plans may not overlap, otherwise the plan for an order's purchase
+   * date would be ambiguous
+   */
+  private async assertNoActiveOverlap(
+    validFrom: Date,
+    validTo: Date | null,
+    excludeId?: string,
+  ) {
+    const activePlans = await this.prisma.commissionRatePlan.findMany({
+      where: {
+        isActive: true,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+      select: { id: true, name: true, validFrom: true, validTo: true },
+    });
+
+    const conflict = activePlans.find((plan) =>
+      CommissionRateHelper.overlaps(plan, { validFrom, validTo }),
+    );
+
+    if (conflict) {
+      throw new BadRequestException(
+        `Thời gian hiệu lực trùng với bảng tỷ lệ "${conflict.name}"`,
+      );
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CommissionRateOverride, CommissionRatePlan } from '@prisma/client';
+
+export class CommissionRateOverrideResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Sản phẩm' })
+  productId: string | null;
+
+  @ApiPropertyOptional({ description: 'Danh mục' })
+  categoryId: string | null;
+
+  @ApiProperty({ description: 'Tỷ lệ hoa hồng' })
+  rate: number;
+}
+
+export class CommissionRatePlanResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Tên bảng tỷ lệ' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description?: string | null;
+
+  @ApiProperty({ description: 'Hiệu lực từ' })
+  validFrom: Date;
+
+  @ApiPropertyOptional({ description: 'Hiệu lực đến (không bao gồm)' })
+  validTo?: Date | null;
+
+  @ApiProperty({ description: 'Đã kích hoạt' })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành A' })
+  groupARate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành B' })
+  groupBRate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành C' })
+  groupCRate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ cấp F0' })
+  f0Rate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ cấp F1' })
+  f1Rate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ cấp F2' })
+  f2Rate: number;
+
+  @ApiProperty({ type: [CommissionRateOverrideResponseDto] })
+  overrides: CommissionRateOverrideResponseDto[];
+
+  @ApiProperty({ description: 'Số hoa hồng đã tính theo bảng này' })
+  commissionCount: number;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Ngày cập nhật' })
+  updatedAt: Date;
+
+  static fromPlan(
+    plan: CommissionRatePlan & {
+      overrides?: CommissionRateOverride[];
+      _count?: { commissions: number };
+    },
+  ): CommissionRatePlanResponseDto {
+    return {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      validFrom: plan.validFrom,
+      validTo: plan.validTo,
+      isActive: plan.isActive,
+      groupARate: Number(plan.groupARate),
+      groupBRate: Number(plan.groupBRate),
+      groupCRate: Number(plan.groupCRate),
+      f0Rate: Number(plan.f0Rate),
+      f1Rate: Number(plan.f1Rate),
+      f2Rate: Number(plan.f2Rate),
+      overrides: (plan.overrides || []).map((override) => ({
+        id: override.id,
+        productId: override.productId,
+        categoryId: override.categoryId,
+        rate: Number(override.rate),
+      })),
+      commissionCount: plan._count?.commissions ?? 0,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt,
+    };
+  }
+}
+
+export class PaginatedCommissionRatePlanResponseDto {
+  @ApiProperty({ type: [CommissionRatePlanResponseDto] })
+  data: CommissionRatePlanResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class CommissionRatePreviewOrderDto {
+  @ApiProperty({ description: 'ID đơn hàng' })
+  orderId: string;
+
+  @ApiProperty({ description: 'Mã đơn hàng' })
+  code: string;
+
+  @ApiProperty({ description: 'Ngày mua' })
+  purchaseDate: Date;
+
+  @ApiPropertyOptional({
+    description: 'Bảng tỷ lệ đang áp dụng (null: tỷ lệ mặc định)',
+  })
+  currentPlanId: string | null;
+
+  @ApiProperty({ description: 'Hoa hồng theo bảng đang áp dụng' })
+  currentAmount: number;
+
+  @ApiProperty({ description: 'Hoa hồng theo bảng xem trước' })
+  proposedAmount: number;
+
+  @ApiProperty({ description: 'Chênh lệch' })
+  difference: number;
+}
+
+export class CommissionRatePreviewResponseDto {
+  @ApiProperty({ description: 'Bảng tỷ lệ xem trước' })
+  planId: string;
+
+  @ApiProperty({ description: 'Từ ngày mua' })
+  startDate: Date;
+
+  @ApiProperty({ description: 'Đến ngày mua (không bao gồm)' })
+  endDate: Date;
+
+  @ApiProperty({ description: 'Số đơn hàng hoàn thành' })
+  orderCount: number;
+
+  @ApiProperty({ description: 'Tổng hoa hồng theo bảng đang áp dụng' })
+  currentTotal: number;
+
+  @ApiProperty({ description: 'Tổng hoa hồng theo bảng xem trước' })
+  proposedTotal: number;
+
+  @ApiProperty({ description: 'Chênh lệch' })
+  difference: number;
+
+  @ApiProperty({ type: [CommissionRatePreviewOrderDto] })
+  orders: CommissionRatePreviewOrderDto[];
+}
@@ -0,0 +1,120 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class CommissionRateOverrideDto {
+  @ApiPropertyOptional({ description: 'Sản phẩm áp dụng tỷ lệ riêng' })
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @ApiPropertyOptional({ description: 'Danh mục áp dụng tỷ lệ riêng' })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @ApiProperty({ description: 'Tỷ lệ hoa hồng (0..1)', example: 0.4 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  rate: number;
+}
+
+export class CreateCommissionRatePlanDto {
+  @ApiProperty({ description: 'Tên bảng tỷ lệ', example: 'Tỷ lệ 2026' })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @IsNotEmpty({ message: 'Tên bảng tỷ lệ không được để trống' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Áp dụng cho đơn mua từ thời điểm này',
+    example: '2026-01-01T00:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  validFrom: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Áp dụng cho đơn mua trước thời điểm này (bỏ trống: không thời hạn)',
+    example: '2027-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  validTo?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Kích hoạt ngay (bảng chưa kích hoạt chỉ dùng để xem trước)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành A', example: 0.2 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  groupARate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành B', example: 0.3 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  groupBRate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ nhóm ngành C', example: 0.5 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  groupCRate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ cấp F0', example: 0.2 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  f0Rate: number;
+
+  @ApiProperty({ description: 'Tỷ lệ cấp F1', example: 0.3 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  f1Rate: number;
+
+  @ApiProperty({
+    description: 'Tỷ lệ cấp F2, nhân với tỷ lệ nhóm ngành',
+    example: 1,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  f2Rate: number;
+
+  @ApiPropertyOptional({
+    type: [CommissionRateOverrideDto],
+    description: 'Tỷ lệ riêng theo sản phẩm hoặc danh mục',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CommissionRateOverrideDto)
+  overrides?: CommissionRateOverrideDto[];
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCommissionRatePlanDto } from './create-commission-rate-plan.dto';
+
+export class UpdateCommissionRatePlanDto extends PartialType(
+  CreateCommissionRatePlanDto,
+) {}
@@ -0,0 +1,175 @@
+import { CommissionLevel } from '@prisma/client';
+import {
+  CommissionRateHelper,
+  CommissionableOrder,
+  DEFAULT_RATE_TABLE,
+} from './commission-rate.helper';
+
+describe('CommissionRateHelper', () => {
+  const plan = (overrides: Record<string, any> = {}) =>
+    ({
+      id: 'plan-1',
+      name: 'Plan 2026',
+      description: null,
+      validFrom: new Date('2026-01-01T00:00:00Z'),
+      validTo: new Date('2026-07-01T00:00:00Z'),
+      isActive: true,
+      groupARate: 0.1,
+      groupBRate: 0.25,
+      groupCRate: 0.4,
+      f0Rate: 0.1,
+      f1Rate: 0.2,
+      f2Rate: 1,
+      createdBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      overrides: [],
+      ...overrides,
+    }) as any;
+
+  const order = (user: CommissionableOrder['customer']['user']) =>
+    ({
+      id: 'order-1',
+      orderDetails: [
+        {
+          id: 'detail-1',
+          quantity: 2,
+          product: {
+            id: 'product-1',
+            price: 100000,
+            category: { id: 'category-1', group: 'c' },
+          },
+        },
+      ],
+      customer: { user },
+    }) as CommissionableOrder;
+
+  describe('resolveCategoryRate', () => {
+    it('prefers product overrides, then category overrides, then the group', () => {
+      const table = CommissionRateHelper.toRateTable(
+        plan({
+          overrides: [
+            { productId: 'product-1', categoryId: null, rate: 0.6 },
+            { productId: null, categoryId: 'category-1', rate: 0.45 },
+          ],
+        }),
+      );
+      const category = { id: 'category-1', group: 'c' };
+
+      expect(
+        CommissionRateHelper.resolveCategoryRate(table, 'product-1', category),
+      ).toBe(0.6);
+      expect(
+        CommissionRateHelper.resolveCategoryRate(table, 'product-2', category),
+      ).toBe(0.45);
+      expect(
+        CommissionRateHelper.resolveCategoryRate(table, 'product-2', {
+          id: 'category-2',
+          group: 'b',
+        }),
+      ).toBe(0.25);
+    });
+
+    it('falls back to group A for unknown groups', () => {
+      expect(
+        CommissionRateHelper.resolveCategoryRate(
+          DEFAULT_RATE_TABLE,
+          'product-1',
+          { id: 'category-1', group: 'x' },
+        ),
+      ).toBe(0.2);
+    });
+  });
+
+  describe('isInForce', () => {
+    it('treats validFrom as inclusive and validTo as exclusive', () => {
+      const window = plan();
+
+      expect(CommissionRateHelper.isInForce(window, window.validFrom)).toBe(
+        true,
+      );
+      expect(CommissionRateHelper.isInForce(window, window.validTo)).toBe(
+        false,
+      );
+      expect(
+        CommissionRateHelper.isInForce(
+          window,
+          new Date('2025-12-31T23:59:59Z'),
+        ),
+      ).toBe(false);
+    });
+
+    it('never ends when validTo is null', () => {
+      expect(
+        CommissionRateHelper.isInForce(
+          plan({ validTo: null }),
+          new Date('2030-01-01T00:00:00Z'),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('overlaps', () => {
+    it('allows back-to-back plans', () => {
+      const next = {
+        validFrom: new Date('2026-07-01T00:00:00Z'),
+        validTo: null,
+      };
+
+      expect(CommissionRateHelper.overlaps(plan(), next)).toBe(false);
+      expect(CommissionRateHelper.overlaps(plan({ validTo: null }), next)).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('buildCommissions', () => {
+    it('keeps the default rates when no plan is in force', () => {
+      const commissions = CommissionRateHelper.buildCommissions(
+        order({
+          id: 'buyer',
+          referrer: { id: 'f1', referrer: { id: 'f0' } },
+        }),
+        DEFAULT_RATE_TABLE,
+      );
+
+      expect(
+        commissions.map((c) => [
+          c.commissionLevel,
+          c.beneficiaryId,
+          c.commissionAmount,
+        ]),
+      ).toEqual([
+        [CommissionLevel.F2, 'buyer', 100000],
+        [CommissionLevel.F1, 'f1', 60000],
+        [CommissionLevel.F0, 'f0', 40000],
+      ]);
+      expect(commissions.every((c) => c.ratePlanId === undefined)).toBe(true);
+    });
+
+    it('applies plan rates and records the plan', () => {
+      const commissions = CommissionRateHelper.buildCommissions(
+        order({ id: 'buyer', referrer: { id: 'f1', referrer: null } }),
+        CommissionRateHelper.toRateTable(plan()),
+      );
+
+      expect(commissions).toHaveLength(2);
+      expect(commissions[0]).toMatchObject({
+        commissionLevel: CommissionLevel.F2,
+        commissionRate: 0.4,
+        commissionAmount: 80000,
+        ratePlanId: 'plan-1',
+      });
+      expect(commissions[1]).toMatchObject({
+        commissionLevel: CommissionLevel.F1,
+        commissionAmount: 40000,
+      });
+    });
+
+    it('pays nothing when the order has no customer user', () => {
+      expect(
+        CommissionRateHelper.buildCommissions(order(null), DEFAULT_RATE_TABLE),
+      ).toEqual([]);
+    });
+  });
+});
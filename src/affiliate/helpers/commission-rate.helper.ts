@@ -0,0 +1,216 @@
+import {
+  CommissionLevel,
+  CommissionRateOverride,
+  CommissionRatePlan,
+  CommissionStatus,
+  Prisma,
+} from '@prisma/client';
+import {
+  CategoryGroup,
+  COMMISSION_RATES,
+  CommissionCreateData,
+  CommissionRateTable,
+  isCategoryGroup,
+} from '../types/commission.types';
+
+type RatePlanWithOverrides = CommissionRatePlan & {
+  overrides: Pick<
+    CommissionRateOverride,
+    'productId' | 'categoryId' | 'rate'
+  >[];
+};
+
+type ValidityWindow = Pick<CommissionRatePlan, 'validFrom' | 'validTo'>;
+
+/**
+ * Order shape needed to split commissions between the buyer (F2) and
+ * their two referrer levels (F1, F0)
+ */
+export interface CommissionableOrder {
+  id: string;
+  orderDetails: Array<{
+    id: string;
+    quantity: number;
+    product: {
+      id: string;
+      price: Prisma.Decimal | number;
+      category: { id: string; group: string };
+    };
+  }>;
+  customer: {
+    user?: {
+      id: string;
+      referrer?: { id: string; referrer?: { id: string } | null } | null;
+    } | null;
+  };
+}
+
+export const COMMISSIONABLE_ORDER_INCLUDE = {
+  orderDetails: {
+    include: {
+      product: {
+        include: {
+          category: true,
+        },
+      },
+    },
+  },
+  customer: {
+    include: {
+      user: {
+        include: {
+          referrer: {
+            include: {
+              referrer: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+export const DEFAULT_RATE_TABLE: CommissionRateTable = {
+  planId: null,
+  category: { ...COMMISSION_RATES.CATEGORY },
+  level: { ...COMMISSION_RATES.LEVEL },
+  productOverrides: {},
+  categoryOverrides: {},
+};
+
+export class CommissionRateHelper {
+  static toRateTable(plan: RatePlanWithOverrides): CommissionRateTable {
+    const productOverrides: Record<string, number> = {};
+    const categoryOverrides: Record<string, number> = {};
+
+    for (const override of plan.overrides) {
+      if (override.productId) {
+        productOverrides[override.productId] = Number(override.rate);
+      } else if (override.categoryId) {
+        categoryOverrides[override.categoryId] = Number(override.rate);
+      }
+    }
+
+    return {
+      planId: plan.id,
+      category: {
+        [CategoryGroup.A]: Number(plan.groupARate),
+        [CategoryGroup.B]: Number(plan.groupBRate),
+        [CategoryGroup.C]: Number(plan.groupCRate),
+      },
+      level: {
+        [CommissionLevel.F0]: Number(plan.f0Rate),
+        [CommissionLevel.F1]: Number(plan.f1Rate),
+        [CommissionLevel.F2]: Number(plan.f2Rate),
+      },
+      productOverrides,
+      categoryOverrides,
+    };
+  }
+
+  /**
+   * Category rate for a product: product override, then category override,
+   * then the category group rate
+   */
+  static resolveCategoryRate(
+    table: CommissionRateTable,
+    productId: string,
+    category: { id: string; group: string },
+  ): number {
+    if (productId in table.productOverrides) {
+      return table.productOverrides[productId];
+    }
+    if (category.id in table.categoryOverrides) {
+      return table.categoryOverrides[category.id];
+    }
+
+    const group = isCategoryGroup(category.group)
+      ? category.group
+      : CategoryGroup.A;
+    return table.category[group];
+  }
+
+  /**
+   * validFrom is inclusive, validTo exclusive; a null validTo never ends
+   */
+  static isInForce(window: ValidityWindow, at: Date): boolean {
+    return (
+      window.validFrom.getTime() <= at.getTime() &&
+      (!window.validTo || at.getTime() < window.validTo.getTime())
+    );
+  }
+
+  static overlaps(a: ValidityWindow, b: ValidityWindow): boolean {
+    const aEnd = a.validTo?.getTime() ?? Infinity;
+    const bEnd = b.validTo?.getTime() ?? Infinity;
+    return a.validFrom.getTime() < bEnd && b.validFrom.getTime() < aEnd;
+  }
+
+  static buildCommissions(
+    order: CommissionableOrder,
+    table: CommissionRateTable,
+  ): CommissionCreateData[] {
+    const commissions: CommissionCreateData[] = [];
+    const user = order.customer.user;
+    if (!user) return commissions;
+
+    const ratePlanId = table.planId ?? undefined;
+
+    for (const orderDetail of order.orderDetails) {
+      const { product, quantity } = orderDetail;
+      const category = product.category;
+
+      const categoryRate = this.resolveCategoryRate(
+        table,
+        product.id,
+        category,
+      );
+      const baseAmount = Number(product.price) * quantity;
+
+      const base = {
+        orderId: order.id,
+        orderDetailId: orderDetail.id,
+        productId: product.id,
+        baseAmount,
+        quantity,
+        categoryId: category.id,
+        status: CommissionStatus.calculated,
+        ratePlanId,
+      };
+
+      // F2 (người mua hàng) nhận hoa hồng theo tỷ lệ nhóm ngành
+      const f2Rate = categoryRate * table.level[CommissionLevel.F2];
+      commissions.push({
+        ...base,
+        beneficiaryId: user.id,
+        commissionLevel: CommissionLevel.F2,
+        commissionRate: f2Rate,
+        commissionAmount: baseAmount * f2Rate,
+      });
+
+      // F1 (người giới thiệu trực tiếp)
+      if (!user.referrer) continue;
+      const f1Rate = table.level[CommissionLevel.F1];
+      commissions.push({
+        ...base,
+        beneficiaryId: user.referrer.id,
+        commissionLevel: CommissionLevel.F1,
+        commissionRate: f1Rate,
+        commissionAmount: baseAmount * f1Rate,
+      });
+
+      // F0 (người giới thiệu gián tiếp)
+      if (!user.referrer.referrer) continue;
+      const f0Rate = table.level[CommissionLevel.F0];
+      commissions.push({
+        ...base,
+        beneficiaryId: user.referrer.referrer.id,
+        commissionLevel: CommissionLevel.F0,
+        commissionRate: f0Rate,
+        commissionAmount: baseAmount * f0Rate,
+      });
+    }
+
+    return commissions;
+  }
+}
@@ -24,7 +24,7 @@ export enum CalculationStatus {
   PARTIAL = 'partial',
 }
 
-// Commission rate constants
+// Fallback rates when no active CommissionRatePlan covers the purchase date
 export const COMMISSION_RATES = {
   CATEGORY: {
     [CategoryGroup.A]: 0.2, // 20%
@@ -208,6 +208,16 @@ export interface CommissionCreateData {
   commissionAmount: number;
   categoryId: string;
   status: CommissionStatus;
+  ratePlanId?: string;
+}
+
+// Rates resolved from a CommissionRatePlan (planId = null: COMMISSION_RATES)
+export interface CommissionRateTable {
+  planId: string | null;
+  category: Record<CategoryGroup, number>;
+  level: Record<CommissionLevel, number>;
+  productOverrides: Record<string, number>;
+  categoryOverrides: Record<string, number>;
 }
 
 // Enhanced query options
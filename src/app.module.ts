@@ -38,11 +38,23 @@ import { PublicProductModule } from './public/products/public-product.module';
 import { PublicBusinessModule } from './public/businesses/public-businesses.module';
 
 import paymentConfig from './common/configs/payment.config';
+import carrierConfig from './common/configs/carrier.config';
 import { ProductsModule } from './e-commerce/products/products.module';
 import { CheckoutModule } from './e-commerce/checkout/checkout.module';
 import { PublicCartModule } from './public/carts/public-cart.module';
 import { PaymentsModule } from './e-commerce/payments/payments.module';
 import { EcommerceAnalyticsModule } from './e-commerce/analytics/analytics.module';
+import { VouchersModule } from './e-commerce/vouchers/vouchers.module';
+import { WalletsModule } from './e-commerce/wallets/wallets.module';
+import { ReturnsModule } from './e-commerce/returns/returns.module';
+import { TransfersModule } from './e-commerce/transfers/transfers.module';
+import { PurchaseOrdersModule } from './e-commerce/purchase-orders/purchase-orders.module';
+import { CashflowsModule } from './e-commerce/cashflows/cashflows.module';
+import { ReviewsModule } from './e-commerce/reviews/reviews.module';
+import { WishlistModule } from './e-commerce/wishlist/wishlist.module';
+import { OrdersModule } from './e-commerce/orders/orders.module';
+import { ShippingModule } from './e-commerce/shipping/shipping.module';
+import { DeliveriesModule } from './e-commerce/deliveries/deliveries.module';
 import { AppController } from './app.controller';
 import { PublicCategoryModule } from './public/categories/public-category.module';
 
@@ -64,6 +76,7 @@ import { PublicCategoryModule } from './public/categories/public-category.module
         redisConfig,
         kiotvietConfig,
         paymentConfig,
+        carrierConfig,
       ],
       envFilePath: ['.env'],
     }),
@@ -87,6 +100,17 @@ import { PublicCategoryModule } from './public/categories/public-category.module
     CheckoutModule,
     PaymentsModule,
     EcommerceAnalyticsModule,
+    VouchersModule,
+    WalletsModule,
+    ReturnsModule,
+    TransfersModule,
+    PurchaseOrdersModule,
+    CashflowsModule,
+    ReviewsModule,
+    WishlistModule,
+    OrdersModule,
+    ShippingModule,
+    DeliveriesModule,
     StatisticsModule,
     BusinessModule,
     CategoriesModule,
@@ -1,6 +1,6 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../common/services/prisma.service';
-import { Attachment } from '@prisma/client';
+import { Attachment, Prisma } from '@prisma/client';
 
 @Injectable()
 export class AttachmentService {
@@ -114,6 +114,27 @@ export class AttachmentService {
     });
   }
 
+  async addReturnOrderPhotos(
+    returnOrderId: string,
+    photos: { fileUrl: string; originalFileName?: string; mimeType?: string }[],
+    prisma: Prisma.TransactionClient = this.prisma,
+  ): Promise<Attachment[]> {
+    return Promise.all(
+      photos.map((photo, index) =>
+        prisma.attachment.create({
+          data: {
+            fileName: `return_${returnOrderId}_${Date.now()}_${index}`,
+            mimeType: photo.mimeType || 'image',
+            fileUrl: photo.fileUrl,
+            originalFileName:
+              photo.originalFileName || `return_photo_${index + 1}`,
+            returnOrder: { connect: { id: returnOrderId } },
+          },
+        }),
+      ),
+    );
+  }
+
   async getUserOldCovers(userId: string): Promise<Attachment[]> {
     try {
       const oldCovers = await this.prisma.attachment.findMany({
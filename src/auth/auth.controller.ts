@@ -2,6 +2,7 @@ import {
   Body,
   Controller,
   Get,
+  Headers,
   HttpCode,
   HttpStatus,
   Post,
@@ -32,6 +33,7 @@ import { ResetPasswordDto } from './dto/reset-password.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { JwtPayload } from './jwt-payload';
 import { UserProfileResponseDto } from '../users/dto/user-profile-response.dto';
+import { PUBLIC_CART_CONSTANTS } from '../public/carts/public-cart.service';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -62,8 +64,11 @@ export class AuthController {
     status: HttpStatus.TOO_MANY_REQUESTS,
     description: 'Too many registration attempts, please try again later',
   })
-  async register(@Body() registerDto: RegisterDto): Promise<string> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers(PUBLIC_CART_CONSTANTS.GUEST_TOKEN_HEADER) cartToken?: string,
+  ): Promise<string> {
+    return this.authService.register(registerDto, cartToken);
   }
 
   @Post('login')
@@ -81,8 +86,11 @@ export class AuthController {
     status: HttpStatus.TOO_MANY_REQUESTS,
     description: 'Too many login attempts, please try again later',
   })
-  async login(@Body() loginDto: LoginDto): Promise<LoginResponseDto> {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers(PUBLIC_CART_CONSTANTS.GUEST_TOKEN_HEADER) cartToken?: string,
+  ): Promise<LoginResponseDto> {
+    return this.authService.login(loginDto, cartToken);
   }
 
   @Post('refresh')
@@ -16,6 +16,7 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { ActivityLogService } from '../activity-logs/activity-log.service';
 import { UserConfigService } from '../users/users-config.service';
 import { AuthGateway } from './auth.gateway';
+import { PublicCartModule } from '../public/carts/public-cart.module';
 
 @Module({
   imports: [
@@ -45,6 +46,7 @@ import { AuthGateway } from './auth.gateway';
     MailModule,
     UserModule,
     NotificationModule,
+    PublicCartModule,
   ],
   providers: [
     UserConfigService,
@@ -40,6 +40,7 @@ import { JwtPayload } from './jwt-payload';
 import { ChangeEmailRequest, ChangePasswordRequest } from './models';
 import { NotificationService } from '../notifications/notification.service';
 import { AuthGateway } from './auth.gateway';
+import { PublicCartService } from '../public/carts/public-cart.service';
 
 @Injectable()
 export class AuthService {
@@ -61,6 +62,7 @@ export class AuthService {
     private readonly configService: ConfigService<AllConfigType>,
     private readonly notificationService: NotificationService,
     private readonly authGateway: AuthGateway,
+    private readonly publicCartService: PublicCartService,
   ) {
     this.jwtSecret = this.configService.getOrThrow('app.jwtSecretKey', {
       infer: true,
@@ -211,7 +213,24 @@ export class AuthService {
     }
   }
 
-  async register(registerDto: RegisterDto): Promise<string> {
+  /**
+   * Carry the visitor's anonymous cart over; a failed merge must not block
+   * the login or registration itself
+   */
+  private async mergeGuestCart(userId: string, cartToken?: string) {
+    if (!cartToken) return;
+
+    try {
+      await this.publicCartService.mergeGuestCart(userId, cartToken);
+    } catch (e) {
+      this.logger.warn(`Guest cart merge skipped for ${userId}: ${e?.message}`);
+    }
+  }
+
+  async register(
+    registerDto: RegisterDto,
+    cartToken?: string,
+  ): Promise<string> {
     await this.checkEmailExists(registerDto.email);
     await this.checkPhoneNumberExists(registerDto.phoneNumber);
     const hashedPassword = await bcrypt.hash(registerDto.password, 10);
@@ -359,6 +378,8 @@ export class AuthService {
         { step: 'user_created' },
       );
 
+      await this.mergeGuestCart(user.id, cartToken);
+
       if (referrerId && referrer) {
         try {
           // Get all referrers (direct and indirect) in one query
@@ -687,7 +708,10 @@ export class AuthService {
     }
   }
 
-  async login(loginDto: LoginDto): Promise<LoginResponseDto> {
+  async login(
+    loginDto: LoginDto,
+    cartToken?: string,
+  ): Promise<LoginResponseDto> {
     try {
       // Validate input
       if (!loginDto.username || !loginDto.password) {
@@ -912,6 +936,8 @@ export class AuthService {
         },
       );
 
+      await this.mergeGuestCart(user.id, cartToken);
+
       // Success case - return LoginResponseDto with tokens and user data
       return LoginResponseDto.success(
         tokens.accessToken,
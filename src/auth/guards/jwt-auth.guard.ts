@@ -49,7 +49,14 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       [context.getHandler(), context.getClass()],
     );
 
-    if (isPublic || isExternalApp) {
+    if (isExternalApp) {
+      return true;
+    }
+
+    if (isPublic) {
+      // Public routes stay open, but a valid token still identifies the
+      // caller so responses can be personalised
+      await this.attachOptionalUser(request);
       return true;
     }
 
@@ -71,58 +78,7 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
 
     try {
-      const keyRead = tokenCacheKey(token);
-      const cachedUser = await this.cacheManager.get(keyRead);
-      if (cachedUser) {
-        request.user = cachedUser;
-        return true;
-      }
-
-      const payload: JwtPayload & { iat: number; exp: number } =
-        await this.jwtService.verifyAsync(token, {
-          secret: this.configService.getOrThrow('app.jwtSecretKey', {
-            infer: true,
-          }),
-        });
-
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (payload.exp && payload.exp < currentTime) {
-        throw new TokenExpiredError(
-          'Token expired',
-          new Date(payload.exp * 1000),
-        );
-      }
-
-      const existUser = await this.prisma.user.findUnique({
-        where: {
-          id: payload.id,
-          deletedAt: null,
-          verificationDate: {
-            not: null,
-          },
-        },
-        select: {
-          id: true,
-          email: true,
-          phoneNumber: true,
-          referenceId: true,
-        },
-      });
-
-      if (!existUser) {
-        throw new UnauthorizedException('User not found');
-      }
-
-      request.user = {
-        ...existUser,
-        accessToken: token,
-        iat: payload.iat,
-        exp: payload.exp,
-      };
-
-      const keyWrite = tokenCacheKey(token);
-      await this.cacheManager.set(keyWrite, request.user, 1000 * 5);
-
+      request.user = await this.resolveUser(token);
       return true;
     } catch (error) {
       if (error instanceof TokenExpiredError) {
@@ -135,6 +91,72 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
   }
 
+  private async attachOptionalUser(request: Request): Promise<void> {
+    const token = this.extractTokenFromHeader(request);
+    if (!token) return;
+
+    try {
+      request.user = await this.resolveUser(token);
+    } catch {
+      // Invalid or expired tokens are treated as anonymous on public routes
+    }
+  }
+
+  private async resolveUser(token: string) {
+    const keyRead = tokenCacheKey(token);
+    const cachedUser = await this.cacheManager.get(keyRead);
+    if (cachedUser) {
+      return cachedUser;
+    }
+
+    const payload: JwtPayload & { iat: number; exp: number } =
+      await this.jwtService.verifyAsync(token, {
+        secret: this.configService.getOrThrow('app.jwtSecretKey', {
+          infer: true,
+        }),
+      });
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    if (payload.exp && payload.exp < currentTime) {
+      throw new TokenExpiredError(
+        'Token expired',
+        new Date(payload.exp * 1000),
+      );
+    }
+
+    const existUser = await this.prisma.user.findUnique({
+      where: {
+        id: payload.id,
+        deletedAt: null,
+        verificationDate: {
+          not: null,
+        },
+      },
+      select: {
+        id: true,
+        email: true,
+        phoneNumber: true,
+        referenceId: true,
+      },
+    });
+
+    if (!existUser) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const user = {
+      ...existUser,
+      accessToken: token,
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+
+    const keyWrite = tokenCacheKey(token);
+    await this.cacheManager.set(keyWrite, user, 1000 * 5);
+
+    return user;
+  }
+
   private extractTokenFromHeader(request: Request): string | undefined {
     const authHeader = request.headers.authorization;
     if (!authHeader) {
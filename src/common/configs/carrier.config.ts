@@ -0,0 +1,37 @@
+import { IsOptional, IsString, IsUrl } from 'class-validator';
+import { CarrierConfigType } from './types/carrier.config.type';
+import { registerAs } from '@nestjs/config';
+import validateConfig from '../utils';
+
+class EnvironmentVariablesValidator {
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  GHN_API_URL: string;
+
+  @IsString()
+  @IsOptional()
+  GHN_TOKEN: string;
+
+  @IsString()
+  @IsOptional()
+  GHN_SHOP_ID: string;
+
+  @IsString()
+  @IsOptional()
+  GHN_WEBHOOK_TOKEN: string;
+}
+
+export default registerAs<CarrierConfigType>('carrier', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    ghn: {
+      apiUrl:
+        process.env.GHN_API_URL ||
+        'https://dev-online-gateway.ghn.vn/shiip/public-api',
+      token: process.env.GHN_TOKEN || '',
+      shopId: process.env.GHN_SHOP_ID || '',
+      webhookToken: process.env.GHN_WEBHOOK_TOKEN || '',
+    },
+  };
+});
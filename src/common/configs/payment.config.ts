@@ -1,4 +1,4 @@
-import { IsNumber, IsString } from 'class-validator';
+import { IsIn, IsInt, IsOptional, IsString } from 'class-validator';
 import { PaymentConfigType } from './types/payment.config.type';
 import { registerAs } from '@nestjs/config';
 import validateConfig from '../utils';
@@ -10,6 +10,18 @@ class EnvironmentVariablesValidator {
   @IsString()
   STRIPE_WEBHOOK_SECRET: string;
 
+  @IsString()
+  @IsOptional()
+  STRIPE_API_HOST: string;
+
+  @IsInt()
+  @IsOptional()
+  STRIPE_API_PORT: number;
+
+  @IsIn(['http', 'https'])
+  @IsOptional()
+  STRIPE_API_PROTOCOL: string;
+
   @IsString()
   VNP_TMN_CODE: string;
 
@@ -25,6 +37,30 @@ class EnvironmentVariablesValidator {
   @IsString()
   VNP_API_URL: string;
 
+  @IsString()
+  @IsOptional()
+  VNP_PAYMENT_URL: string;
+
+  @IsInt()
+  @IsOptional()
+  VNP_EXPIRES_MINUTES: number;
+
+  @IsString()
+  @IsOptional()
+  VIETQR_BANK_BIN: string;
+
+  @IsString()
+  @IsOptional()
+  VIETQR_ACCOUNT_NUMBER: string;
+
+  @IsString()
+  @IsOptional()
+  VIETQR_ACCOUNT_NAME: string;
+
+  @IsInt()
+  @IsOptional()
+  VIETQR_EXPIRES_MINUTES: number;
+
   @IsString()
   DEFAULT_CURRENCY: string;
 }
@@ -36,6 +72,14 @@ export default registerAs<PaymentConfigType>('payment', () => {
     stripe: {
       secretKey: process.env.STRIPE_SECRET_KEY || '',
       webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+      apiHost: process.env.STRIPE_API_HOST,
+      apiPort: process.env.STRIPE_API_PORT
+        ? parseInt(process.env.STRIPE_API_PORT, 10)
+        : undefined,
+      apiProtocol: process.env.STRIPE_API_PROTOCOL as
+        | 'http'
+        | 'https'
+        | undefined,
     },
     vnpay: {
       tmnCode: process.env.VNP_TMN_CODE || '',
@@ -43,6 +87,20 @@ export default registerAs<PaymentConfigType>('payment', () => {
       returnUrl: process.env.VNP_RETURN_URL || '',
       ipnUrl: process.env.VNP_IPN_URL || '',
       apiUrl: process.env.VNP_API_URL || '',
+      paymentUrl:
+        process.env.VNP_PAYMENT_URL ||
+        'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+      expiresMinutes: process.env.VNP_EXPIRES_MINUTES
+        ? parseInt(process.env.VNP_EXPIRES_MINUTES, 10)
+        : 15,
+    },
+    vietqr: {
+      bankBin: process.env.VIETQR_BANK_BIN || '970407',
+      accountNumber: process.env.VIETQR_ACCOUNT_NUMBER || '19028269053022',
+      accountName: process.env.VIETQR_ACCOUNT_NAME || 'NGUYEN MINH TRI',
+      expiresMinutes: process.env.VIETQR_EXPIRES_MINUTES
+        ? parseInt(process.env.VIETQR_EXPIRES_MINUTES, 10)
+        : 15,
     },
 
     defaultCurrency: process.env.DEFAULT_CURRENCY || 'VND',
@@ -0,0 +1,9 @@
+export type CarrierConfigType = {
+  ghn: {
+    apiUrl: string;
+    token: string;
+    shopId: string;
+    // Shared secret GHN sends back on status callbacks
+    webhookToken: string;
+  };
+};
@@ -1,4 +1,5 @@
 import { AppConfig } from './app.config.type';
+import { CarrierConfigType } from './carrier.config.type';
 import { DatabaseConfig } from './database.config.type';
 import { KiotVietConfigType } from './kiotviet.config.type';
 import { PaymentConfigType } from './payment.config.type';
@@ -18,4 +19,5 @@ export type AllConfigType = {
   };
   kiotviet: KiotVietConfigType;
   payment: PaymentConfigType;
+  carrier: CarrierConfigType;
 };
@@ -2,6 +2,10 @@ export type PaymentConfigType = {
   stripe: {
     secretKey: string;
     webhookSecret: string;
+    // Optional API endpoint override (e.g. a local stripe-mock instance)
+    apiHost?: string;
+    apiPort?: number;
+    apiProtocol?: 'http' | 'https';
   };
   vnpay: {
     tmnCode: string;
@@ -9,6 +13,14 @@ export type PaymentConfigType = {
     returnUrl: string;
     ipnUrl: string;
     apiUrl: string;
+    paymentUrl: string;
+    expiresMinutes: number;
+  };
+  vietqr: {
+    bankBin: string;
+    accountNumber: string;
+    accountName: string;
+    expiresMinutes: number;
   };
 
   cron?: {
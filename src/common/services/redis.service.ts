@@ -0,0 +1,136 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { AllConfigType } from '../configs/types/index.type';
+
+// Delete/extend the key only when it still holds our token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+@Injectable()
+export class RedisService implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+
+  // One connection shared by every module that provides RedisService
+  private static client: Redis | null = null;
+  private static references = 0;
+
+  // Used when REDIS_URL is not configured (single instance / local dev)
+  private static readonly localLocks = new Map<
+    string,
+    { token: string; expiresAt: number }
+  >();
+
+  constructor(private readonly configService: ConfigService<AllConfigType>) {
+    const redisUrl = this.configService.get('redis', { infer: true })?.redisUrl;
+
+    if (!RedisService.client && redisUrl) {
+      RedisService.client = new Redis(redisUrl, {
+        maxRetriesPerRequest: 3,
+        lazyConnect: false,
+      });
+      RedisService.client.on('error', (error) =>
+        this.logger.error(`Redis error: ${error.message}`),
+      );
+    } else if (!redisUrl) {
+      this.logger.warn(
+        'REDIS_URL is not set - locks are only held within this process',
+      );
+    }
+
+    RedisService.references++;
+  }
+
+  async onModuleDestroy() {
+    RedisService.references--;
+    if (RedisService.references <= 0 && RedisService.client) {
+      await RedisService.client.quit();
+      RedisService.client = null;
+    }
+  }
+
+  /**
+   * Raw client for other data structures (null without REDIS_URL)
+   */
+  getClient(): Redis | null {
+    return RedisService.client;
+  }
+
+  /**
+   * Try to take a lock; returns the owner token or null when already held
+   */
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const client = RedisService.client;
+
+    if (client) {
+      const result = await client.set(key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK' ? token : null;
+    }
+
+    const current = RedisService.localLocks.get(key);
+    if (current && current.expiresAt > Date.now()) {
+      return null;
+    }
+
+    RedisService.localLocks.set(key, {
+      token,
+      expiresAt: Date.now() + ttlMs,
+    });
+    return token;
+  }
+
+  /**
+   * Push the expiry of a lock we still own
+   */
+  async extendLock(
+    key: string,
+    token: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const client = RedisService.client;
+
+    if (client) {
+      const result = await client.eval(
+        EXTEND_LOCK_SCRIPT,
+        1,
+        key,
+        token,
+        ttlMs,
+      );
+      return result === 1;
+    }
+
+    const current = RedisService.localLocks.get(key);
+    if (current?.token !== token) return false;
+
+    current.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  /**
+   * Release a lock we own; a lock taken over after expiry is left untouched
+   */
+  async releaseLock(key: string, token: string): Promise<void> {
+    const client = RedisService.client;
+
+    if (client) {
+      await client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+      return;
+    }
+
+    if (RedisService.localLocks.get(key)?.token === token) {
+      RedisService.localLocks.delete(key);
+    }
+  }
+}
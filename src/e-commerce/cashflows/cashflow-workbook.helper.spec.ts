@@ -0,0 +1,32 @@
+import { CashflowWorkbookHelper } from './cashflow-workbook.helper';
+
+describe('CashflowWorkbookHelper', () => {
+  it('writes typed cells in Vietnam time and escapes text', () => {
+    const xml = CashflowWorkbookHelper.toSpreadsheetXml([
+      {
+        name: 'Sổ thu chi',
+        header: ['Mã', 'Ngày', 'Nội dung', 'Thu'],
+        rows: [
+          ['PT-1', new Date('2026-10-01T17:30:00Z'), 'A & B <C>', 150000],
+          ['PT-2', null, '', undefined],
+        ],
+      },
+    ]);
+
+    expect(xml).toContain('<Worksheet ss:Name="Sổ thu chi">');
+    expect(xml).toContain(
+      '<Data ss:Type="DateTime">2026-10-02T00:30:00</Data>',
+    );
+    expect(xml).toContain('<Data ss:Type="String">A &amp; B &lt;C&gt;</Data>');
+    expect(xml).toContain('<Data ss:Type="Number">150000</Data>');
+    expect(xml.match(/<Row>/g)).toHaveLength(3);
+  });
+
+  it('keeps sheet names within Excel limits', () => {
+    const xml = CashflowWorkbookHelper.toSpreadsheetXml([
+      { name: 'Báo cáo [tháng 10/2026] theo chi nhánh', header: [], rows: [] },
+    ]);
+
+    expect(xml).toContain('ss:Name="Báo cáo  tháng 10 2026  theo ch"');
+  });
+});
@@ -0,0 +1,73 @@
+const VIETNAM_UTC_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+export type WorkbookCell = string | number | Date | null | undefined;
+
+export interface WorkbookSheet {
+  name: string;
+  header: string[];
+  rows: WorkbookCell[][];
+}
+
+/**
+ * Builds an Excel 2003 XML (SpreadsheetML) workbook. Excel and LibreOffice
+ * open it natively, so accountants get typed numbers and dates and one sheet
+ * per section without pulling in an xlsx library.
+ */
+export class CashflowWorkbookHelper {
+  static toSpreadsheetXml(sheets: WorkbookSheet[]): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?mso-application progid="Excel.Sheet"?>',
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+      '<Styles>',
+      '<Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+      '<Style ss:ID="date"><NumberFormat ss:Format="dd/mm/yyyy hh:mm"/></Style>',
+      '<Style ss:ID="money"><NumberFormat ss:Format="#,##0"/></Style>',
+      '</Styles>',
+    ];
+
+    for (const sheet of sheets) {
+      lines.push(
+        `<Worksheet ss:Name="${this.sheetName(sheet.name)}">`,
+        '<Table>',
+      );
+      lines.push(
+        `<Row>${sheet.header.map((title) => `<Cell ss:StyleID="header"><Data ss:Type="String">${this.escapeXml(title)}</Data></Cell>`).join('')}</Row>`,
+      );
+      for (const row of sheet.rows) {
+        lines.push(`<Row>${row.map((cell) => this.cell(cell)).join('')}</Row>`);
+      }
+      lines.push('</Table>', '</Worksheet>');
+    }
+
+    lines.push('</Workbook>');
+    return lines.join('\n');
+  }
+
+  private static cell(value: WorkbookCell): string {
+    if (value === null || value === undefined) return '<Cell/>';
+    if (typeof value === 'number') {
+      return `<Cell ss:StyleID="money"><Data ss:Type="Number">${value}</Data></Cell>`;
+    }
+    if (value instanceof Date) {
+      // SpreadsheetML dates carry no zone, so write them in Vietnam time
+      const local = new Date(value.getTime() + VIETNAM_UTC_OFFSET_MS);
+      const iso = local.toISOString().slice(0, 19);
+      return `<Cell ss:StyleID="date"><Data ss:Type="DateTime">${iso}</Data></Cell>`;
+    }
+    return `<Cell><Data ss:Type="String">${this.escapeXml(value)}</Data></Cell>`;
+  }
+
+  // Excel rejects sheet names over 31 characters or containing []:*?/\
+  private static sheetName(name: string): string {
+    return this.escapeXml(name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  CashflowStatus,
+  CashflowType,
+  PaymentMethod,
+  PaymentProcessingStatus,
+  RefundStatus,
+} from '@prisma/client';
+import { CashflowHelper } from './cashflow.helper';
+
+describe('CashflowHelper', () => {
+  it('prefixes receipts and payments differently', () => {
+    expect(CashflowHelper.generateCode(CashflowType.in)).toMatch(
+      /^PT-\d+-\d+$/,
+    );
+    expect(CashflowHelper.generateCode(CashflowType.out)).toMatch(
+      /^PC-\d+-\d+$/,
+    );
+  });
+
+  it('computes the balance after each entry from the opening balance', () => {
+    expect(
+      CashflowHelper.runningBalances(
+        [
+          { type: CashflowType.in, amount: 500000 },
+          { type: CashflowType.out, amount: 200000 },
+          { type: CashflowType.in, amount: 50000 },
+        ],
+        100000,
+      ),
+    ).toEqual([600000, 400000, 450000]);
+  });
+
+  it('folds per-type totals into one row per key', () => {
+    const rows = CashflowHelper.summarize(
+      [
+        { key: 'g-1', type: CashflowType.in, amount: 300000, count: 2 },
+        { key: 'g-1', type: CashflowType.out, amount: 100000, count: 1 },
+        { key: null, type: CashflowType.out, amount: 900000, count: 3 },
+      ],
+      (key) => key ?? 'none',
+    );
+
+    expect(rows).toEqual([
+      {
+        key: null,
+        name: 'none',
+        count: 3,
+        totalIn: 0,
+        totalOut: 900000,
+        net: -900000,
+      },
+      {
+        key: 'g-1',
+        name: 'g-1',
+        count: 3,
+        totalIn: 300000,
+        totalOut: 100000,
+        net: 200000,
+      },
+    ]);
+  });
+
+  describe('automatic entries', () => {
+    const order = {
+      code: 'DH-1',
+      warehouseId: 'w-1',
+      customer: { name: 'Nguyễn Văn A', contactNumber: '0900000000' },
+    };
+
+    const buildTx = () => ({
+      payment: { findUnique: jest.fn() },
+      paymentRefund: { findUnique: jest.fn() },
+      cashflowGroup: { upsert: jest.fn().mockResolvedValue({ id: 'grp' }) },
+      cashflow: {
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) => Promise.resolve(data)),
+      },
+    });
+
+    it('books a receipt for a succeeded payment', async () => {
+      const tx = buildTx();
+      const succeededAt = new Date('2026-10-01T03:00:00Z');
+      tx.payment.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        code: 'PAY-1',
+        status: PaymentProcessingStatus.succeeded,
+        method: PaymentMethod.transfer,
+        amount: 250000,
+        succeededAt,
+        cashflow: null,
+        orderPayment: { accountId: 'acc-1', order },
+      });
+
+      await CashflowHelper.recordPaymentReceipt(tx as any, 'pay-1');
+
+      expect(tx.cashflowGroup.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { code: 'SALES_RECEIPT' } }),
+      );
+      expect(tx.cashflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: CashflowType.in,
+          status: CashflowStatus.completed,
+          amount: 250000,
+          method: PaymentMethod.transfer,
+          transDate: succeededAt,
+          accountId: 'acc-1',
+          warehouseId: 'w-1',
+          cashflowGroupId: 'grp',
+          paymentId: 'pay-1',
+          description: 'Thu tiền đơn hàng DH-1',
+        }),
+      });
+    });
+
+    it('skips payments already booked or not collected', async () => {
+      const tx = buildTx();
+      tx.payment.findUnique
+        .mockResolvedValueOnce({
+          status: PaymentProcessingStatus.succeeded,
+          cashflow: { id: 'cf-1' },
+        })
+        .mockResolvedValueOnce({
+          status: PaymentProcessingStatus.pending,
+          cashflow: null,
+        });
+
+      await expect(
+        CashflowHelper.recordPaymentReceipt(tx as any, 'pay-1'),
+      ).resolves.toBeNull();
+      await expect(
+        CashflowHelper.recordPaymentReceipt(tx as any, 'pay-2'),
+      ).resolves.toBeNull();
+      expect(tx.cashflow.create).not.toHaveBeenCalled();
+    });
+
+    it('books a payment-out only once the refund has settled', async () => {
+      const tx = buildTx();
+      const refund = {
+        id: 'ref-1',
+        amount: 80000,
+        processedAt: new Date('2026-10-02T03:00:00Z'),
+        cashflow: null,
+        payment: {
+          code: 'PAY-1',
+          method: PaymentMethod.cash,
+          orderPayment: { accountId: null, order },
+        },
+      };
+      tx.paymentRefund.findUnique
+        .mockResolvedValueOnce({ ...refund, status: RefundStatus.processing })
+        .mockResolvedValueOnce({ ...refund, status: RefundStatus.succeeded });
+
+      await expect(
+        CashflowHelper.recordRefundPayment(tx as any, 'ref-1'),
+      ).resolves.toBeNull();
+      await CashflowHelper.recordRefundPayment(tx as any, 'ref-1');
+
+      expect(tx.cashflow.create).toHaveBeenCalledTimes(1);
+      expect(tx.cashflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: CashflowType.out,
+          amount: 80000,
+          accountId: null,
+          refundId: 'ref-1',
+          description: 'Hoàn tiền đơn hàng DH-1',
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  Cashflow,
+  CashflowPartnerType,
+  CashflowStatus,
+  CashflowType,
+  PaymentMethod,
+  PaymentProcessingStatus,
+  Prisma,
+  RefundStatus,
+} from '@prisma/client';
+
+// Groups the system books automatic entries under; created on first use
+export const SYSTEM_CASHFLOW_GROUPS = {
+  SALES_RECEIPT: {
+    code: 'SALES_RECEIPT',
+    name: 'Thu tiền bán hàng',
+    type: CashflowType.in,
+  },
+  CUSTOMER_REFUND: {
+    code: 'CUSTOMER_REFUND',
+    name: 'Hoàn tiền khách hàng',
+    type: CashflowType.out,
+  },
+} as const;
+
+export const COLLECTED_PAYMENT_STATUSES: PaymentProcessingStatus[] = [
+  PaymentProcessingStatus.succeeded,
+  PaymentProcessingStatus.refunded,
+];
+
+type SystemCashflowGroup =
+  (typeof SYSTEM_CASHFLOW_GROUPS)[keyof typeof SYSTEM_CASHFLOW_GROUPS];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.cash]: 'Tiền mặt',
+  [PaymentMethod.card]: 'Thẻ',
+  [PaymentMethod.wallet]: 'Ví điện tử',
+  [PaymentMethod.transfer]: 'Chuyển khoản',
+  [PaymentMethod.voucher]: 'Voucher',
+  [PaymentMethod.other]: 'Khác',
+};
+
+export interface LedgerEntry {
+  type: CashflowType;
+  amount: Prisma.Decimal | number;
+}
+
+export interface CashflowTotalsRow {
+  key: string | null;
+  type: CashflowType;
+  amount: Prisma.Decimal | number | null;
+  count: number;
+}
+
+export interface CashflowSummaryRow {
+  key: string | null;
+  name: string;
+  count: number;
+  totalIn: number;
+  totalOut: number;
+  net: number;
+}
+
+export class CashflowHelper {
+  /**
+   * PT for receipts (phiếu thu), PC for payments (phiếu chi)
+   */
+  static generateCode(type: CashflowType): string {
+    const prefix = type === CashflowType.in ? 'PT' : 'PC';
+    return `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  static signedAmount(entry: LedgerEntry): number {
+    const amount = Number(entry.amount);
+    return entry.type === CashflowType.in ? amount : -amount;
+  }
+
+  static balance(entries: LedgerEntry[], opening = 0): number {
+    return entries.reduce(
+      (balance, entry) => balance + this.signedAmount(entry),
+      opening,
+    );
+  }
+
+  /**
+   * Balance after each entry, in the order given
+   */
+  static runningBalances(entries: LedgerEntry[], opening = 0): number[] {
+    let balance = opening;
+    return entries.map((entry) => (balance += this.signedAmount(entry)));
+  }
+
+  /**
+   * Fold per-type totals into one row per key, largest turnover first
+   */
+  static summarize(
+    rows: CashflowTotalsRow[],
+    nameOf: (key: string | null) => string,
+  ): CashflowSummaryRow[] {
+    const summary = new Map<string | null, CashflowSummaryRow>();
+
+    for (const row of rows) {
+      const entry = summary.get(row.key) ?? {
+        key: row.key,
+        name: nameOf(row.key),
+        count: 0,
+        totalIn: 0,
+        totalOut: 0,
+        net: 0,
+      };
+      const amount = Number(row.amount ?? 0);
+
+      entry.count += row.count;
+      if (row.type === CashflowType.in) {
+        entry.totalIn += amount;
+      } else {
+        entry.totalOut += amount;
+      }
+      entry.net = entry.totalIn - entry.totalOut;
+      summary.set(row.key, entry);
+    }
+
+    return [...summary.values()].sort(
+      (a, b) => b.totalIn + b.totalOut - (a.totalIn + a.totalOut),
+    );
+  }
+
+  /**
+   * Book the receipt for a succeeded payment. Safe to call more than once:
+   * a payment gets at most one entry.
+   */
+  static async recordPaymentReceipt(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+  ): Promise<Cashflow | null> {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        cashflow: { select: { id: true } },
+        orderPayment: { include: { order: { include: { customer: true } } } },
+      },
+    });
+    // A payment refunded later was still collected first
+    if (
+      !payment ||
+      payment.cashflow ||
+      !COLLECTED_PAYMENT_STATUSES.includes(payment.status)
+    ) {
+      return null;
+    }
+
+    const order = payment.orderPayment?.order;
+    const group = await this.ensureSystemGroup(
+      tx,
+      SYSTEM_CASHFLOW_GROUPS.SALES_RECEIPT,
+    );
+
+    return tx.cashflow.create({
+      data: {
+        code: this.generateCode(CashflowType.in),
+        type: CashflowType.in,
+        status: CashflowStatus.completed,
+        usedForFinancialReporting: true,
+        description: order
+          ? `Thu tiền đơn hàng ${order.code}`
+          : `Thu tiền thanh toán ${payment.code}`,
+        method: payment.method,
+        amount: payment.amount,
+        transDate: payment.succeededAt ?? new Date(),
+        partnerType: CashflowPartnerType.customer,
+        partnerName: order?.customer.name,
+        contactNumber: order?.customer.contactNumber,
+        accountId: payment.orderPayment?.accountId,
+        warehouseId: order?.warehouseId,
+        cashflowGroupId: group.id,
+        paymentId: payment.id,
+      },
+    });
+  }
+
+  /**
+   * Book the payment-out for a settled refund, at most once per refund
+   */
+  static async recordRefundPayment(
+    tx: Prisma.TransactionClient,
+    refundId: string,
+  ): Promise<Cashflow | null> {
+    const refund = await tx.paymentRefund.findUnique({
+      where: { id: refundId },
+      include: {
+        cashflow: { select: { id: true } },
+        payment: {
+          include: {
+            orderPayment: {
+              include: { order: { include: { customer: true } } },
+            },
+          },
+        },
+      },
+    });
+    if (
+      !refund ||
+      refund.cashflow ||
+      refund.status !== RefundStatus.succeeded
+    ) {
+      return null;
+    }
+
+    const order = refund.payment.orderPayment?.order;
+    const group = await this.ensureSystemGroup(
+      tx,
+      SYSTEM_CASHFLOW_GROUPS.CUSTOMER_REFUND,
+    );
+
+    return tx.cashflow.create({
+      data: {
+        code: this.generateCode(CashflowType.out),
+        type: CashflowType.out,
+        status: CashflowStatus.completed,
+        usedForFinancialReporting: true,
+        description: order
+          ? `Hoàn tiền đơn hàng ${order.code}`
+          : `Hoàn tiền thanh toán ${refund.payment.code}`,
+        method: refund.payment.method,
+        amount: refund.amount,
+        transDate: refund.processedAt ?? new Date(),
+        partnerType: CashflowPartnerType.customer,
+        partnerName: order?.customer.name,
+        contactNumber: order?.customer.contactNumber,
+        accountId: refund.payment.orderPayment?.accountId,
+        warehouseId: order?.warehouseId,
+        cashflowGroupId: group.id,
+        refundId: refund.id,
+      },
+    });
+  }
+
+  private static ensureSystemGroup(
+    tx: Prisma.TransactionClient,
+    group: SystemCashflowGroup,
+  ) {
+    return tx.cashflowGroup.upsert({
+      where: { code: group.code },
+      create: { code: group.code, name: group.name, type: group.type },
+      update: {},
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { CashflowsService } from './cashflows.service';
+import { CreateCashflowDto } from './dto/create-cashflow.dto';
+import { UpdateCashflowDto } from './dto/update-cashflow.dto';
+import {
+  CreateCashflowGroupDto,
+  UpdateCashflowGroupDto,
+} from './dto/cashflow-group.dto';
+import {
+  CashflowExportQueryDto,
+  CashflowLedgerQueryDto,
+  CashflowPeriodQueryDto,
+  CashflowQueryDto,
+} from './dto/cashflow-query.dto';
+import {
+  CashflowAccountBalanceDto,
+  CashflowGroupResponseDto,
+  CashflowLedgerResponseDto,
+  CashflowReportResponseDto,
+  CashflowResponseDto,
+  PaginatedCashflowResponseDto,
+} from './dto/cashflow-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Cashflows')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('cashflows')
+export class CashflowsController {
+  constructor(private readonly cashflowsService: CashflowsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a cash receipt or payment' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: CashflowResponseDto })
+  create(
+    @Body() dto: CreateCashflowDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<CashflowResponseDto> {
+    return this.cashflowsService.create(dto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List cash receipts and payments' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedCashflowResponseDto })
+  findAll(
+    @Query() query: CashflowQueryDto,
+  ): Promise<PaginatedCashflowResponseDto> {
+    return this.cashflowsService.findAll(query);
+  }
+
+  @Get('groups')
+  @ApiOperation({ summary: 'List cashflow groups' })
+  @ApiResponse({ status: HttpStatus.OK, type: [CashflowGroupResponseDto] })
+  findGroups(): Promise<CashflowGroupResponseDto[]> {
+    return this.cashflowsService.findGroups();
+  }
+
+  @Post('groups')
+  @ApiOperation({ summary: 'Create a cashflow group' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: CashflowGroupResponseDto })
+  createGroup(
+    @Body() dto: CreateCashflowGroupDto,
+  ): Promise<CashflowGroupResponseDto> {
+    return this.cashflowsService.createGroup(dto);
+  }
+
+  @Patch('groups/:id')
+  @ApiOperation({ summary: 'Update or deactivate a cashflow group' })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowGroupResponseDto })
+  updateGroup(
+    @Param('id') id: string,
+    @Body() dto: UpdateCashflowGroupDto,
+  ): Promise<CashflowGroupResponseDto> {
+    return this.cashflowsService.updateGroup(id, dto);
+  }
+
+  @Get('accounts')
+  @ApiOperation({ summary: 'Balances of the cash fund and shop bank accounts' })
+  @ApiResponse({ status: HttpStatus.OK, type: [CashflowAccountBalanceDto] })
+  getAccountBalances(): Promise<CashflowAccountBalanceDto[]> {
+    return this.cashflowsService.getAccountBalances();
+  }
+
+  @Get('accounts/:accountId/ledger')
+  @ApiOperation({
+    summary: 'Running-balance ledger of an account',
+    description: 'Use "cash" as the account ID for the cash fund',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowLedgerResponseDto })
+  getLedger(
+    @Param('accountId') accountId: string,
+    @Query() query: CashflowLedgerQueryDto,
+  ): Promise<CashflowLedgerResponseDto> {
+    return this.cashflowsService.getLedger(accountId, query);
+  }
+
+  @Get('report')
+  @ApiOperation({
+    summary: 'Period report by group, payment method and warehouse',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowReportResponseDto })
+  getReport(
+    @Query() query: CashflowPeriodQueryDto,
+  ): Promise<CashflowReportResponseDto> {
+    return this.cashflowsService.getReport(query);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Export completed entries as an Excel workbook' })
+  @ApiProduces('application/vnd.ms-excel')
+  @ApiResponse({ status: HttpStatus.OK, description: 'Excel file' })
+  async export(
+    @Query() query: CashflowExportQueryDto,
+  ): Promise<StreamableFile> {
+    const { filename, content } =
+      await this.cashflowsService.exportWorkbook(query);
+
+    return new StreamableFile(Buffer.from(content, 'utf-8'), {
+      type: 'application/vnd.ms-excel; charset=utf-8',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a cash receipt or payment' })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowResponseDto })
+  findOne(@Param('id') id: string): Promise<CashflowResponseDto> {
+    return this.cashflowsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a draft entry' })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowResponseDto })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCashflowDto,
+  ): Promise<CashflowResponseDto> {
+    return this.cashflowsService.update(id, dto);
+  }
+
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a draft entry' })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowResponseDto })
+  complete(@Param('id') id: string): Promise<CashflowResponseDto> {
+    return this.cashflowsService.complete(id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel an entry' })
+  @ApiResponse({ status: HttpStatus.OK, type: CashflowResponseDto })
+  cancel(@Param('id') id: string): Promise<CashflowResponseDto> {
+    return this.cashflowsService.cancel(id);
+  }
+}
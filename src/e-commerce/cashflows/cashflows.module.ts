@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CashflowsController } from './cashflows.controller';
+import { CashflowsService } from './cashflows.service';
+
+@Module({
+  controllers: [CashflowsController],
+  providers: [CashflowsService, PrismaService],
+  exports: [CashflowsService],
+})
+export class CashflowsModule {}
@@ -0,0 +1,724 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  CashflowStatus,
+  CashflowType,
+  PaymentMethod,
+  Prisma,
+  RefundStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreateCashflowDto } from './dto/create-cashflow.dto';
+import { UpdateCashflowDto } from './dto/update-cashflow.dto';
+import {
+  CreateCashflowGroupDto,
+  UpdateCashflowGroupDto,
+} from './dto/cashflow-group.dto';
+import {
+  CashflowExportQueryDto,
+  CashflowLedgerQueryDto,
+  CashflowPeriodQueryDto,
+  CashflowQueryDto,
+} from './dto/cashflow-query.dto';
+import {
+  CashflowAccountBalanceDto,
+  CashflowGroupResponseDto,
+  CashflowLedgerResponseDto,
+  CashflowReportResponseDto,
+  CashflowResponseDto,
+  PaginatedCashflowResponseDto,
+} from './dto/cashflow-response.dto';
+import {
+  COLLECTED_PAYMENT_STATUSES,
+  CashflowHelper,
+  PAYMENT_METHOD_LABELS,
+} from './cashflow.helper';
+import { CashflowWorkbookHelper } from './cashflow-workbook.helper';
+
+// Route key for the cash fund, which has no bank account row
+export const CASH_FUND_ACCOUNT = 'cash';
+const CASH_FUND_NAME = 'Quỹ tiền mặt';
+
+const AUTO_ENTRY_BATCH_SIZE = 100;
+
+const CASHFLOW_INCLUDE = {
+  cashflowGroup: { select: { name: true } },
+  account: { select: { bankName: true, accountNumber: true } },
+  warehouse: { select: { name: true } },
+  partner: { select: { name: true } },
+} satisfies Prisma.CashflowInclude;
+
+@Injectable()
+export class CashflowsService {
+  private readonly logger = new Logger(CashflowsService.name);
+  private syncing = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a manual cash receipt (phiếu thu) or payment (phiếu chi)
+   */
+  async create(
+    dto: CreateCashflowDto,
+    userId: string,
+  ): Promise<CashflowResponseDto> {
+    await this.assertReferences(dto.type, dto);
+
+    const cashflow = await this.prisma.cashflow.create({
+      data: {
+        code: CashflowHelper.generateCode(dto.type),
+        type: dto.type,
+        status: dto.status ?? CashflowStatus.completed,
+        amount: dto.amount,
+        method: dto.method,
+        description: dto.description,
+        transDate: dto.transDate ? new Date(dto.transDate) : new Date(),
+        usedForFinancialReporting: dto.usedForFinancialReporting ?? true,
+        partnerType: dto.partnerType,
+        partnerId: dto.partnerId,
+        partnerName: dto.partnerName,
+        contactNumber: dto.contactNumber,
+        address: dto.address,
+        cashflowGroupId: dto.cashflowGroupId,
+        accountId: dto.accountId,
+        warehouseId: dto.warehouseId,
+        createdById: userId,
+      },
+    });
+
+    this.logger.log(
+      `Cashflow ${cashflow.code} (${cashflow.type} ${dto.amount}) created by ${userId}`,
+    );
+
+    return this.findOne(cashflow.id);
+  }
+
+  async findAll(
+    query: CashflowQueryDto,
+  ): Promise<PaginatedCashflowResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const where = this.buildWhere(query);
+
+    const [cashflows, total] = await Promise.all([
+      this.prisma.cashflow.findMany({
+        where,
+        include: CASHFLOW_INCLUDE,
+        orderBy: [{ transDate: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.cashflow.count({ where }),
+    ]);
+
+    return {
+      data: cashflows.map((cashflow) =>
+        CashflowResponseDto.fromCashflow(cashflow),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<CashflowResponseDto> {
+    const cashflow = await this.prisma.cashflow.findUnique({
+      where: { id },
+      include: CASHFLOW_INCLUDE,
+    });
+    if (!cashflow) {
+      throw new NotFoundException('Phiếu thu/chi không tồn tại');
+    }
+
+    return CashflowResponseDto.fromCashflow(cashflow);
+  }
+
+  /**
+   * Edit a draft entry. Completed entries are corrected by cancelling them
+   * and issuing a new one, so the ledger keeps its history.
+   */
+  async update(
+    id: string,
+    dto: UpdateCashflowDto,
+  ): Promise<CashflowResponseDto> {
+    const cashflow = await this.prisma.cashflow.findUnique({ where: { id } });
+    if (!cashflow) {
+      throw new NotFoundException('Phiếu thu/chi không tồn tại');
+    }
+    if (cashflow.paymentId || cashflow.refundId) {
+      throw new BadRequestException(
+        'Phiếu thu/chi tự động từ thanh toán không thể chỉnh sửa',
+      );
+    }
+
+    await this.assertReferences(dto.type ?? cashflow.type, {
+      ...dto,
+      cashflowGroupId: dto.cashflowGroupId ?? cashflow.cashflowGroupId,
+    });
+
+    const { count } = await this.prisma.cashflow.updateMany({
+      where: { id, status: CashflowStatus.draft },
+      data: {
+        ...dto,
+        transDate: dto.transDate ? new Date(dto.transDate) : undefined,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Chỉ có thể sửa phiếu thu/chi nháp');
+    }
+
+    return this.findOne(id);
+  }
+
+  async complete(id: string): Promise<CashflowResponseDto> {
+    await this.transition(id, [CashflowStatus.draft], {
+      status: CashflowStatus.completed,
+    });
+
+    this.logger.log(`Cashflow ${id} completed`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Void an entry; it stays in the list but no longer counts in balances
+   */
+  async cancel(id: string): Promise<CashflowResponseDto> {
+    await this.transition(
+      id,
+      [CashflowStatus.draft, CashflowStatus.completed],
+      { status: CashflowStatus.cancelled, cancelledAt: new Date() },
+    );
+
+    this.logger.log(`Cashflow ${id} cancelled`);
+
+    return this.findOne(id);
+  }
+
+  async findGroups(): Promise<CashflowGroupResponseDto[]> {
+    const groups = await this.prisma.cashflowGroup.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return groups.map((group) => CashflowGroupResponseDto.fromGroup(group));
+  }
+
+  async createGroup(
+    dto: CreateCashflowGroupDto,
+  ): Promise<CashflowGroupResponseDto> {
+    const group = await this.prisma.cashflowGroup.create({ data: dto });
+
+    return CashflowGroupResponseDto.fromGroup(group);
+  }
+
+  async updateGroup(
+    id: string,
+    dto: UpdateCashflowGroupDto,
+  ): Promise<CashflowGroupResponseDto> {
+    const group = await this.prisma.cashflowGroup.findUnique({
+      where: { id },
+    });
+    if (!group) {
+      throw new NotFoundException('Nhóm thu/chi không tồn tại');
+    }
+    // Automatic entries rely on the system groups keeping their direction
+    if (group.code && dto.type !== undefined && dto.type !== group.type) {
+      throw new BadRequestException(
+        'Không thể đổi loại thu/chi của nhóm hệ thống',
+      );
+    }
+
+    const updated = await this.prisma.cashflowGroup.update({
+      where: { id },
+      data: dto,
+    });
+
+    return CashflowGroupResponseDto.fromGroup(updated);
+  }
+
+  /**
+   * Current balance of the cash fund and of every shop bank account
+   */
+  async getAccountBalances(): Promise<CashflowAccountBalanceDto[]> {
+    const [totals, accounts] = await Promise.all([
+      this.prisma.cashflow.groupBy({
+        by: ['accountId', 'type'],
+        where: { status: CashflowStatus.completed },
+        _sum: { amount: true },
+      }),
+      this.prisma.bankAccount.findMany({
+        where: { userId: null },
+        orderBy: { bankName: 'asc' },
+      }),
+    ]);
+
+    const balanceOf = (accountId: string | null) => {
+      const rows = totals.filter((row) => row.accountId === accountId);
+      const sum = (type: CashflowType) =>
+        Number(rows.find((row) => row.type === type)?._sum.amount ?? 0);
+      const totalIn = sum(CashflowType.in);
+      const totalOut = sum(CashflowType.out);
+
+      return { totalIn, totalOut, balance: totalIn - totalOut };
+    };
+
+    return [
+      { accountId: null, name: CASH_FUND_NAME, ...balanceOf(null) },
+      ...accounts.map((account) => ({
+        accountId: account.id,
+        name: `${account.bankName} - ${account.accountNumber}`,
+        ...balanceOf(account.id),
+      })),
+    ];
+  }
+
+  /**
+   * Completed entries of one account in date order with the balance after
+   * each of them
+   */
+  async getLedger(
+    accountKey: string,
+    query: CashflowLedgerQueryDto,
+  ): Promise<CashflowLedgerResponseDto> {
+    const { page = 1, limit = 50 } = query;
+    const accountId = accountKey === CASH_FUND_ACCOUNT ? null : accountKey;
+
+    if (accountId) {
+      const account = await this.prisma.bankAccount.findFirst({
+        where: { id: accountId, userId: null },
+      });
+      if (!account) {
+        throw new NotFoundException('Tài khoản không tồn tại');
+      }
+    }
+
+    const base: Prisma.CashflowWhereInput = {
+      accountId,
+      status: CashflowStatus.completed,
+    };
+    const where: Prisma.CashflowWhereInput = {
+      ...base,
+      transDate: this.dateRange(query),
+    };
+    const orderBy: Prisma.CashflowOrderByWithRelationInput[] = [
+      { transDate: 'asc' },
+      { id: 'asc' },
+    ];
+    const skip = (page - 1) * limit;
+
+    const [before, inPeriod, previousOnPage, entries, total] =
+      await Promise.all([
+        query.from
+          ? this.prisma.cashflow.findMany({
+              where: { ...base, transDate: { lt: new Date(query.from) } },
+              select: { type: true, amount: true },
+            })
+          : [],
+        this.prisma.cashflow.findMany({
+          where,
+          select: { type: true, amount: true },
+        }),
+        skip > 0
+          ? this.prisma.cashflow.findMany({
+              where,
+              orderBy,
+              take: skip,
+              select: { type: true, amount: true },
+            })
+          : [],
+        this.prisma.cashflow.findMany({
+          where,
+          include: CASHFLOW_INCLUDE,
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        this.prisma.cashflow.count({ where }),
+      ]);
+
+    const openingBalance = CashflowHelper.balance(before);
+    const balances = CashflowHelper.runningBalances(
+      entries,
+      CashflowHelper.balance(previousOnPage, openingBalance),
+    );
+
+    return {
+      accountId,
+      openingBalance,
+      closingBalance: CashflowHelper.balance(inPeriod, openingBalance),
+      data: entries.map((entry, index) => ({
+        ...CashflowResponseDto.fromCashflow(entry),
+        balanceAfter: balances[index],
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Receipts and payments of a period broken down by group, method and
+   * warehouse
+   */
+  async getReport(
+    query: CashflowPeriodQueryDto,
+  ): Promise<CashflowReportResponseDto> {
+    const where: Prisma.CashflowWhereInput = {
+      status: CashflowStatus.completed,
+      transDate: this.dateRange(query),
+      ...(query.warehouseId && { warehouseId: query.warehouseId }),
+    };
+
+    const [byGroup, byMethod, byWarehouse] = await Promise.all([
+      this.prisma.cashflow.groupBy({
+        by: ['cashflowGroupId', 'type'],
+        where,
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.cashflow.groupBy({
+        by: ['method', 'type'],
+        where,
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.cashflow.groupBy({
+        by: ['warehouseId', 'type'],
+        where,
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const [groups, warehouses] = await Promise.all([
+      this.prisma.cashflowGroup.findMany({
+        where: {
+          id: {
+            in: byGroup.flatMap((row) =>
+              row.cashflowGroupId ? [row.cashflowGroupId] : [],
+            ),
+          },
+        },
+        select: { id: true, name: true },
+      }),
+      this.prisma.warehouse.findMany({
+        where: {
+          id: {
+            in: byWarehouse.flatMap((row) =>
+              row.warehouseId ? [row.warehouseId] : [],
+            ),
+          },
+        },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const groupRows = CashflowHelper.summarize(
+      byGroup.map((row) => ({
+        key: row.cashflowGroupId,
+        type: row.type,
+        amount: row._sum.amount,
+        count: row._count._all,
+      })),
+      (key) =>
+        groups.find((group) => group.id === key)?.name ?? 'Chưa phân nhóm',
+    );
+
+    return {
+      from: query.from ? new Date(query.from) : null,
+      to: query.to ? new Date(query.to) : null,
+      totalIn: groupRows.reduce((sum, row) => sum + row.totalIn, 0),
+      totalOut: groupRows.reduce((sum, row) => sum + row.totalOut, 0),
+      net: groupRows.reduce((sum, row) => sum + row.net, 0),
+      byGroup: groupRows,
+      byMethod: CashflowHelper.summarize(
+        byMethod.map((row) => ({
+          key: row.method,
+          type: row.type,
+          amount: row._sum.amount,
+          count: row._count._all,
+        })),
+        (key) => PAYMENT_METHOD_LABELS[key as PaymentMethod] ?? String(key),
+      ),
+      byWarehouse: CashflowHelper.summarize(
+        byWarehouse.map((row) => ({
+          key: row.warehouseId,
+          type: row.type,
+          amount: row._sum.amount,
+          count: row._count._all,
+        })),
+        (key) =>
+          warehouses.find((warehouse) => warehouse.id === key)?.name ??
+          'Không gắn chi nhánh',
+      ),
+    };
+  }
+
+  /**
+   * Excel workbook for the accountant: the completed entries of the period
+   * and the period summary on a second sheet
+   */
+  async exportWorkbook(
+    query: CashflowExportQueryDto,
+  ): Promise<{ filename: string; content: string }> {
+    const [entries, report] = await Promise.all([
+      this.prisma.cashflow.findMany({
+        where: this.buildWhere({ ...query, status: CashflowStatus.completed }),
+        include: CASHFLOW_INCLUDE,
+        orderBy: [{ transDate: 'asc' }, { id: 'asc' }],
+      }),
+      this.getReport(query),
+    ]);
+
+    const rows = entries.map((entry) => {
+      const dto = CashflowResponseDto.fromCashflow(entry);
+      return [
+        dto.code,
+        dto.transDate,
+        dto.type === CashflowType.in ? 'Thu' : 'Chi',
+        dto.cashflowGroupName,
+        dto.description,
+        dto.partnerName,
+        PAYMENT_METHOD_LABELS[dto.method],
+        dto.accountName ?? CASH_FUND_NAME,
+        dto.warehouseName,
+        dto.type === CashflowType.in ? dto.amount : null,
+        dto.type === CashflowType.out ? dto.amount : null,
+      ];
+    });
+
+    const summaryRows = [
+      ['Tổng cộng', '', null, report.totalIn, report.totalOut, report.net],
+      ...(
+        [
+          ['Nhóm', report.byGroup],
+          ['Phương thức', report.byMethod],
+          ['Chi nhánh', report.byWarehouse],
+        ] as const
+      ).flatMap(([section, sectionRows]) =>
+        sectionRows.map((row) => [
+          section,
+          row.name,
+          row.count,
+          row.totalIn,
+          row.totalOut,
+          row.net,
+        ]),
+      ),
+    ];
+
+    const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+    return {
+      filename: `so-thu-chi-${stamp}.xls`,
+      content: CashflowWorkbookHelper.toSpreadsheetXml([
+        {
+          name: 'Sổ thu chi',
+          header: [
+            'Mã phiếu',
+            'Ngày',
+            'Loại',
+            'Nhóm',
+            'Nội dung',
+            'Người nộp/nhận',
+            'Phương thức',
+            'Tài khoản',
+            'Chi nhánh',
+            'Thu',
+            'Chi',
+          ],
+          rows,
+        },
+        {
+          name: 'Tổng hợp',
+          header: ['Theo', 'Tên', 'Số phiếu', 'Thu', 'Chi', 'Chênh lệch'],
+          rows: summaryRows,
+        },
+      ]),
+    };
+  }
+
+  /**
+   * Backfill entries for payments and refunds completed outside the hooked
+   * paths (cash on delivery, gateway callbacks) or before the ledger existed
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async syncAutomaticEntries(): Promise<number> {
+    if (this.syncing) return 0;
+    this.syncing = true;
+
+    let booked = 0;
+    try {
+      const [payments, refunds] = await Promise.all([
+        this.prisma.payment.findMany({
+          where: {
+            status: { in: COLLECTED_PAYMENT_STATUSES },
+            cashflow: { is: null },
+          },
+          select: { id: true },
+          orderBy: { succeededAt: 'asc' },
+          take: AUTO_ENTRY_BATCH_SIZE,
+        }),
+        this.prisma.paymentRefund.findMany({
+          where: { status: RefundStatus.succeeded, cashflow: { is: null } },
+          select: { id: true },
+          orderBy: { processedAt: 'asc' },
+          take: AUTO_ENTRY_BATCH_SIZE,
+        }),
+      ]);
+
+      for (const payment of payments) {
+        booked += await this.bookAutomaticEntry(`payment ${payment.id}`, (tx) =>
+          CashflowHelper.recordPaymentReceipt(tx, payment.id),
+        );
+      }
+      for (const refund of refunds) {
+        booked += await this.bookAutomaticEntry(`refund ${refund.id}`, (tx) =>
+          CashflowHelper.recordRefundPayment(tx, refund.id),
+        );
+      }
+
+      if (booked > 0) {
+        this.logger.log(`Booked ${booked} automatic cashflow entries`);
+      }
+    } finally {
+      this.syncing = false;
+    }
+
+    return booked;
+  }
+
+  private async bookAutomaticEntry(
+    label: string,
+    record: (tx: Prisma.TransactionClient) => Promise<unknown>,
+  ): Promise<number> {
+    try {
+      const cashflow = await this.prisma.$transaction(record);
+      return cashflow ? 1 : 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to book cashflow for ${label}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  private buildWhere(
+    query: CashflowQueryDto | CashflowExportQueryDto,
+  ): Prisma.CashflowWhereInput {
+    const { status, search } = query as CashflowQueryDto;
+
+    return {
+      transDate: this.dateRange(query),
+      ...(status && { status }),
+      ...(query.type && { type: query.type }),
+      ...(query.method && { method: query.method }),
+      ...(query.cashflowGroupId && { cashflowGroupId: query.cashflowGroupId }),
+      ...(query.warehouseId && { warehouseId: query.warehouseId }),
+      ...(query.accountId && {
+        accountId:
+          query.accountId === CASH_FUND_ACCOUNT ? null : query.accountId,
+      }),
+      ...(search && {
+        OR: [
+          { code: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+          { partnerName: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+  }
+
+  private dateRange(query: {
+    from?: string;
+    to?: string;
+  }): Prisma.DateTimeFilter | undefined {
+    if (!query.from && !query.to) return undefined;
+
+    return {
+      ...(query.from && { gte: new Date(query.from) }),
+      ...(query.to && { lte: new Date(query.to) }),
+    };
+  }
+
+  /**
+   * Groups must fit the entry direction and accounts must belong to the shop
+   */
+  private async assertReferences(
+    type: CashflowType,
+    refs: {
+      cashflowGroupId?: string | null;
+      accountId?: string;
+      warehouseId?: string;
+      partnerId?: string;
+    },
+  ): Promise<void> {
+    const [group, account, warehouse, partner] = await Promise.all([
+      refs.cashflowGroupId
+        ? this.prisma.cashflowGroup.findUnique({
+            where: { id: refs.cashflowGroupId },
+          })
+        : null,
+      refs.accountId
+        ? this.prisma.bankAccount.findFirst({
+            where: { id: refs.accountId, userId: null },
+          })
+        : null,
+      refs.warehouseId
+        ? this.prisma.warehouse.findUnique({ where: { id: refs.warehouseId } })
+        : null,
+      refs.partnerId
+        ? this.prisma.business.findUnique({ where: { id: refs.partnerId } })
+        : null,
+    ]);
+
+    if (refs.cashflowGroupId) {
+      if (!group || !group.isActive) {
+        throw new NotFoundException(
+          'Nhóm thu/chi không tồn tại hoặc đã ngừng sử dụng',
+        );
+      }
+      if (group.type && group.type !== type) {
+        throw new BadRequestException(
+          `Nhóm "${group.name}" không dùng cho loại phiếu này`,
+        );
+      }
+    }
+    if (refs.accountId && !account) {
+      throw new NotFoundException('Tài khoản không tồn tại');
+    }
+    if (refs.warehouseId && !warehouse) {
+      throw new NotFoundException('Chi nhánh không tồn tại');
+    }
+    if (refs.partnerId && !partner) {
+      throw new NotFoundException('Đối tác không tồn tại');
+    }
+  }
+
+  private async transition(
+    id: string,
+    from: CashflowStatus[],
+    data: Prisma.CashflowUpdateManyMutationInput,
+  ): Promise<void> {
+    const { count } = await this.prisma.cashflow.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    if (count === 0) {
+      const cashflow = await this.prisma.cashflow.findUnique({
+        where: { id },
+      });
+      if (!cashflow) {
+        throw new NotFoundException('Phiếu thu/chi không tồn tại');
+      }
+      throw new BadRequestException(
+        `Không thể chuyển phiếu thu/chi từ trạng thái ${cashflow.status} sang ${data.status}`,
+      );
+    }
+  }
+}
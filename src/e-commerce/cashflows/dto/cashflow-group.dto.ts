@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { CashflowType } from '@prisma/client';
+
+export class CreateCashflowGroupDto {
+  @ApiProperty({ description: 'Tên nhóm thu/chi', example: 'Chi phí mặt bằng' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: CashflowType,
+    description: 'Chỉ dùng cho phiếu thu hoặc phiếu chi (bỏ trống: cả hai)',
+  })
+  @IsOptional()
+  @IsEnum(CashflowType)
+  type?: CashflowType;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCashflowGroupDto extends PartialType(
+  CreateCashflowGroupDto,
+) {}
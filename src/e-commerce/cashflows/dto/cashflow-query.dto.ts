@@ -0,0 +1,107 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { CashflowStatus, CashflowType, PaymentMethod } from '@prisma/client';
+
+export class CashflowPeriodQueryDto {
+  @ApiPropertyOptional({ description: 'Từ ngày' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Đến ngày' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo chi nhánh' })
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+}
+
+export class CashflowExportQueryDto extends CashflowPeriodQueryDto {
+  @ApiPropertyOptional({ enum: CashflowType })
+  @IsOptional()
+  @IsEnum(CashflowType)
+  type?: CashflowType;
+
+  @ApiPropertyOptional({ enum: PaymentMethod })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
+
+  @ApiPropertyOptional({ description: 'Lọc theo nhóm thu/chi' })
+  @IsOptional()
+  @IsString()
+  cashflowGroupId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Lọc theo tài khoản ("cash": quỹ tiền mặt)',
+  })
+  @IsOptional()
+  @IsString()
+  accountId?: string;
+}
+
+export class CashflowQueryDto extends CashflowExportQueryDto {
+  @ApiPropertyOptional({ enum: CashflowStatus })
+  @IsOptional()
+  @IsEnum(CashflowStatus)
+  status?: CashflowStatus;
+
+  @ApiPropertyOptional({ description: 'Tìm theo mã phiếu hoặc nội dung' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class CashflowLedgerQueryDto {
+  @ApiPropertyOptional({ description: 'Từ ngày' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Đến ngày' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
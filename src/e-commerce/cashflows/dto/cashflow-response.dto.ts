@@ -0,0 +1,260 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  BankAccount,
+  Business,
+  Cashflow,
+  CashflowGroup,
+  CashflowPartnerType,
+  CashflowStatus,
+  CashflowType,
+  PaymentMethod,
+  Warehouse,
+} from '@prisma/client';
+
+export class CashflowGroupResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Mã nhóm hệ thống' })
+  code: string | null;
+
+  @ApiProperty({ description: 'Tên nhóm' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description: string | null;
+
+  @ApiPropertyOptional({ enum: CashflowType })
+  type: CashflowType | null;
+
+  @ApiProperty({ description: 'Đang sử dụng' })
+  isActive: boolean;
+
+  static fromGroup(group: CashflowGroup): CashflowGroupResponseDto {
+    return {
+      id: group.id,
+      code: group.code,
+      name: group.name,
+      description: group.description,
+      type: group.type,
+      isActive: group.isActive,
+    };
+  }
+}
+
+export class CashflowResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã phiếu (PT: thu, PC: chi)' })
+  code: string;
+
+  @ApiProperty({ enum: CashflowType })
+  type: CashflowType;
+
+  @ApiProperty({ enum: CashflowStatus })
+  status: CashflowStatus;
+
+  @ApiProperty({ description: 'Số tiền' })
+  amount: number;
+
+  @ApiProperty({ enum: PaymentMethod })
+  method: PaymentMethod;
+
+  @ApiProperty({ description: 'Ngày giao dịch' })
+  transDate: Date;
+
+  @ApiProperty({ description: 'Nội dung' })
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Nhóm thu/chi' })
+  cashflowGroupId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên nhóm thu/chi' })
+  cashflowGroupName: string | null;
+
+  @ApiPropertyOptional({ description: 'Tài khoản (null: quỹ tiền mặt)' })
+  accountId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên tài khoản' })
+  accountName: string | null;
+
+  @ApiPropertyOptional({ description: 'Chi nhánh' })
+  warehouseId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên chi nhánh' })
+  warehouseName: string | null;
+
+  @ApiProperty({ enum: CashflowPartnerType })
+  partnerType: CashflowPartnerType;
+
+  @ApiPropertyOptional({ description: 'Đối tác' })
+  partnerId: string | null;
+
+  @ApiPropertyOptional({ description: 'Người nộp/nhận' })
+  partnerName: string | null;
+
+  @ApiPropertyOptional({ description: 'Số điện thoại' })
+  contactNumber: string | null;
+
+  @ApiPropertyOptional({ description: 'Địa chỉ' })
+  address: string | null;
+
+  @ApiProperty({ description: 'Hạch toán vào báo cáo kết quả kinh doanh' })
+  usedForFinancialReporting: boolean;
+
+  @ApiPropertyOptional({ description: 'Thanh toán đã sinh phiếu thu' })
+  paymentId: string | null;
+
+  @ApiPropertyOptional({ description: 'Hoàn tiền đã sinh phiếu chi' })
+  refundId: string | null;
+
+  @ApiPropertyOptional({ description: 'Người tạo (null: hệ thống)' })
+  createdById: string | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromCashflow(
+    cashflow: Cashflow & {
+      cashflowGroup?: Pick<CashflowGroup, 'name'> | null;
+      account?: Pick<BankAccount, 'bankName' | 'accountNumber'> | null;
+      warehouse?: Pick<Warehouse, 'name'> | null;
+      partner?: Pick<Business, 'name'> | null;
+    },
+  ): CashflowResponseDto {
+    return {
+      id: cashflow.id,
+      code: cashflow.code,
+      type: cashflow.type,
+      status: cashflow.status,
+      amount: Number(cashflow.amount),
+      method: cashflow.method,
+      transDate: cashflow.transDate,
+      description: cashflow.description,
+      cashflowGroupId: cashflow.cashflowGroupId,
+      cashflowGroupName: cashflow.cashflowGroup?.name ?? null,
+      accountId: cashflow.accountId,
+      accountName: cashflow.account
+        ? `${cashflow.account.bankName} - ${cashflow.account.accountNumber}`
+        : null,
+      warehouseId: cashflow.warehouseId,
+      warehouseName: cashflow.warehouse?.name ?? null,
+      partnerType: cashflow.partnerType,
+      partnerId: cashflow.partnerId,
+      partnerName: cashflow.partnerName ?? cashflow.partner?.name ?? null,
+      contactNumber: cashflow.contactNumber,
+      address: cashflow.address,
+      usedForFinancialReporting: cashflow.usedForFinancialReporting,
+      paymentId: cashflow.paymentId,
+      refundId: cashflow.refundId,
+      createdById: cashflow.createdById,
+      createdAt: cashflow.createdAt,
+    };
+  }
+}
+
+export class PaginatedCashflowResponseDto {
+  @ApiProperty({ type: [CashflowResponseDto] })
+  data: CashflowResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
+
+export class CashflowAccountBalanceDto {
+  @ApiPropertyOptional({ description: 'Tài khoản (null: quỹ tiền mặt)' })
+  accountId: string | null;
+
+  @ApiProperty({ description: 'Tên tài khoản' })
+  name: string;
+
+  @ApiProperty({ description: 'Tổng thu' })
+  totalIn: number;
+
+  @ApiProperty({ description: 'Tổng chi' })
+  totalOut: number;
+
+  @ApiProperty({ description: 'Số dư hiện tại' })
+  balance: number;
+}
+
+export class CashflowLedgerEntryDto extends CashflowResponseDto {
+  @ApiProperty({ description: 'Số dư sau giao dịch' })
+  balanceAfter: number;
+}
+
+export class CashflowLedgerResponseDto {
+  @ApiPropertyOptional({ description: 'Tài khoản (null: quỹ tiền mặt)' })
+  accountId: string | null;
+
+  @ApiProperty({ description: 'Số dư đầu kỳ' })
+  openingBalance: number;
+
+  @ApiProperty({ description: 'Số dư cuối kỳ' })
+  closingBalance: number;
+
+  @ApiProperty({ type: [CashflowLedgerEntryDto] })
+  data: CashflowLedgerEntryDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
+
+export class CashflowReportRowDto {
+  @ApiPropertyOptional({ description: 'Nhóm, phương thức hoặc chi nhánh' })
+  key: string | null;
+
+  @ApiProperty({ description: 'Tên hiển thị' })
+  name: string;
+
+  @ApiProperty({ description: 'Số phiếu' })
+  count: number;
+
+  @ApiProperty({ description: 'Tổng thu' })
+  totalIn: number;
+
+  @ApiProperty({ description: 'Tổng chi' })
+  totalOut: number;
+
+  @ApiProperty({ description: 'Chênh lệch thu - chi' })
+  net: number;
+}
+
+export class CashflowReportResponseDto {
+  @ApiPropertyOptional({ description: 'Từ ngày' })
+  from: Date | null;
+
+  @ApiPropertyOptional({ description: 'Đến ngày' })
+  to: Date | null;
+
+  @ApiProperty({ description: 'Tổng thu' })
+  totalIn: number;
+
+  @ApiProperty({ description: 'Tổng chi' })
+  totalOut: number;
+
+  @ApiProperty({ description: 'Chênh lệch thu - chi' })
+  net: number;
+
+  @ApiProperty({ type: [CashflowReportRowDto] })
+  byGroup: CashflowReportRowDto[];
+
+  @ApiProperty({ type: [CashflowReportRowDto] })
+  byMethod: CashflowReportRowDto[];
+
+  @ApiProperty({ type: [CashflowReportRowDto] })
+  byWarehouse: CashflowReportRowDto[];
+}
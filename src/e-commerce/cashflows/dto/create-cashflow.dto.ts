@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  CashflowPartnerType,
+  CashflowStatus,
+  CashflowType,
+  PaymentMethod,
+} from '@prisma/client';
+
+export class CreateCashflowDto {
+  @ApiProperty({
+    enum: CashflowType,
+    description: 'in: phiếu thu, out: phiếu chi',
+  })
+  @IsEnum(CashflowType)
+  type: CashflowType;
+
+  @ApiProperty({ description: 'Số tiền (VND)', example: 500000 })
+  @IsNumber()
+  @Min(1)
+  amount: number;
+
+  @ApiProperty({ enum: PaymentMethod, example: PaymentMethod.cash })
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @ApiProperty({ description: 'Nội dung thu/chi' })
+  @IsString()
+  @MaxLength(500)
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Ngày giao dịch (mặc định hôm nay)' })
+  @IsOptional()
+  @IsDateString()
+  transDate?: string;
+
+  @ApiPropertyOptional({ description: 'Nhóm thu/chi' })
+  @IsOptional()
+  @IsString()
+  cashflowGroupId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tài khoản ngân hàng của cửa hàng (bỏ trống: quỹ tiền mặt)',
+  })
+  @IsOptional()
+  @IsString()
+  accountId?: string;
+
+  @ApiPropertyOptional({ description: 'Chi nhánh' })
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @ApiProperty({
+    enum: CashflowPartnerType,
+    example: CashflowPartnerType.other,
+  })
+  @IsEnum(CashflowPartnerType)
+  partnerType: CashflowPartnerType;
+
+  @ApiPropertyOptional({ description: 'Đối tác (nhà cung cấp, khách sỉ...)' })
+  @IsOptional()
+  @IsString()
+  partnerId?: string;
+
+  @ApiPropertyOptional({ description: 'Tên người nộp/nhận' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  partnerName?: string;
+
+  @ApiPropertyOptional({ description: 'Số điện thoại' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  contactNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Địa chỉ' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hạch toán vào báo cáo kết quả kinh doanh',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  usedForFinancialReporting?: boolean;
+
+  @ApiPropertyOptional({
+    enum: [CashflowStatus.draft, CashflowStatus.completed],
+    description: 'Lưu tạm hoặc hoàn thành ngay',
+    default: CashflowStatus.completed,
+  })
+  @IsOptional()
+  @IsIn([CashflowStatus.draft, CashflowStatus.completed])
+  status?: CashflowStatus;
+}
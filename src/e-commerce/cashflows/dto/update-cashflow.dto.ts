@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCashflowDto } from './create-cashflow.dto';
+
+export class UpdateCashflowDto extends PartialType(
+  OmitType(CreateCashflowDto, ['status'] as const),
+) {}
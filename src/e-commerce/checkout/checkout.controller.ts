@@ -30,6 +30,10 @@ import {
   CartItemSlim,
 } from './warehouse-pickup.helper';
 import { PublicWarehousePickupListResponseDto } from './dto/public-warehouse-pickup.dto';
+import {
+  ShippingQuoteQueryDto,
+  ShippingQuoteResponseDto,
+} from './dto/shipping-quote.dto';
 
 @ApiBearerAuth()
 @ApiTags('Checkout')
@@ -287,6 +291,41 @@ export class CheckoutController {
     );
   }
 
+  @Get('shipping-quote')
+  @ApiOperation({
+    summary: 'Quote the shipping fee for the cart',
+    description:
+      'Price shipping for the current cart from the configured shipping rules, using the destination, parcel weight, subtotal and source warehouse',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping fee quoted successfully',
+    type: ShippingQuoteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - cart is empty or destination is missing',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async getShippingQuote(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: ShippingQuoteQueryDto,
+  ): Promise<{
+    success: boolean;
+    data: ShippingQuoteResponseDto;
+    message?: string;
+  }> {
+    const quote = await this.checkoutService.getShippingQuote(user, query);
+    return {
+      success: true,
+      data: quote,
+      message: 'Tính phí vận chuyển thành công',
+    };
+  }
+
   private async loadCartItemsSlim(cartId: string): Promise<CartItemSlim[]> {
     const rows = await this.prismaService.cartItem.findMany({
       where: { cartId },
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CheckoutHelper } from './checkout.helper';
 import { PrismaService } from '../../common/services/prisma.service';
 import { BadRequestException } from '@nestjs/common';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
 
 describe('CheckoutHelper', () => {
   let prismaService: PrismaService;
@@ -127,5 +128,83 @@ describe('CheckoutHelper', () => {
       // Warehouse B should be selected as it has better coverage (2/2 products vs 1/2)
       expect(result.id).toBe('warehouse-2');
     });
+    it('should count inbound transfer stock when includeInbound is set', async () => {
+      const mockWarehouses = [
+        {
+          id: 'warehouse-1',
+          name: 'Warehouse A',
+          isActive: true,
+          productInventories: [
+            { productId: 'product-1', onHand: 2, reserved: 2, inTransit: 0 },
+            { productId: 'product-2', onHand: 1, reserved: 1, inTransit: 0 },
+          ],
+        },
+        {
+          id: 'warehouse-2',
+          name: 'Warehouse B',
+          isActive: true,
+          productInventories: [
+            { productId: 'product-1', onHand: 0, reserved: 0, inTransit: 20 },
+            { productId: 'product-2', onHand: 0, reserved: 0, inTransit: 20 },
+          ],
+        },
+      ];
+
+      (prismaService.warehouse.findMany as jest.Mock).mockResolvedValue(
+        mockWarehouses,
+      );
+
+      const result = await CheckoutHelper.selectOptimalWarehouse(
+        prismaService,
+        ['product-1', 'product-2'],
+        { includeInbound: true },
+      );
+
+      const [{ include }] = (prismaService.warehouse.findMany as jest.Mock).mock
+        .calls[0];
+      expect(include.productInventories.where.OR).toEqual([
+        { onHand: { gt: 0 } },
+        { inTransit: { gt: 0 } },
+      ]);
+      // Warehouse A's stock is fully reserved; B has supply on the way
+      expect(result.id).toBe('warehouse-2');
+    });
+  });
+
+  describe('assertCustomerCancellable', () => {
+    it('should allow cancelling an unpaid draft or confirmed order', () => {
+      for (const status of [OrderStatus.draft, OrderStatus.confirmed]) {
+        expect(() =>
+          CheckoutHelper.assertCustomerCancellable({
+            status,
+            paymentStatus: PaymentStatus.processing,
+          }),
+        ).not.toThrow();
+      }
+    });
+
+    it('should reject orders past confirmation', () => {
+      expect(() =>
+        CheckoutHelper.assertCustomerCancellable({
+          status: OrderStatus.delivering,
+          paymentStatus: PaymentStatus.processing,
+        }),
+      ).toThrow('Không thể hủy đơn hàng ở trạng thái này');
+    });
+
+    it('should send paid orders to a return instead of cancelling', () => {
+      expect(() =>
+        CheckoutHelper.assertCustomerCancellable({
+          status: OrderStatus.confirmed,
+          paymentStatus: PaymentStatus.paid,
+        }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        CheckoutHelper.assertCustomerCancellable({
+          status: OrderStatus.draft,
+          paymentStatus: PaymentStatus.paid,
+        }),
+      ).toThrow(/yêu cầu trả hàng/);
+    });
   });
 });
@@ -300,11 +300,13 @@ export class CheckoutHelper {
 
   /**
    * Select optimal warehouse based on product inventories
-   * This method analyzes all warehouses to find the best one for the order
+   * This method analyzes all warehouses to find the best one for the order.
+   * With includeInbound, stock on its way in through transfers counts as supply.
    */
   static async selectOptimalWarehouse(
     tx: any,
     productIds: string[],
+    options: { includeInbound?: boolean } = {},
   ): Promise<any> {
     if (!productIds || productIds.length === 0) {
       // Fallback to default warehouse if no products
@@ -320,12 +322,16 @@ export class CheckoutHelper {
         productInventories: {
           where: {
             productId: { in: productIds },
-            onHand: { gt: 0 }, // Only consider warehouses with stock
+            // Only consider warehouses with stock
+            ...(options.includeInbound
+              ? { OR: [{ onHand: { gt: 0 } }, { inTransit: { gt: 0 } }] }
+              : { onHand: { gt: 0 } }),
           },
           select: {
             productId: true,
             onHand: true,
             reserved: true,
+            inTransit: true,
           },
         },
       },
@@ -342,7 +348,10 @@ export class CheckoutHelper {
     const warehouseScores = warehousesWithInventories.map((warehouse) => {
       const inventoryCount = warehouse.productInventories.length;
       const totalAvailableStock = warehouse.productInventories.reduce(
-        (sum, inv) => sum + (inv.onHand - (inv.reserved || 0)),
+        (sum, inv) =>
+          sum +
+          (inv.onHand - (inv.reserved || 0)) +
+          (options.includeInbound ? inv.inTransit || 0 : 0),
         0,
       );
 
@@ -753,6 +762,28 @@ export class CheckoutHelper {
     });
   }
 
+  /**
+   * Reject a customer cancel the order's status or payment does not allow
+   */
+  static assertCustomerCancellable(order: {
+    status: OrderStatus;
+    paymentStatus: PaymentStatus;
+  }): void {
+    if (
+      order.status !== OrderStatus.draft &&
+      order.status !== OrderStatus.confirmed
+    ) {
+      throw new BadRequestException('Không thể hủy đơn hàng ở trạng thái này');
+    }
+
+    // Paid orders stay open until fulfilment; the money goes back via a return
+    if (order.paymentStatus === PaymentStatus.paid) {
+      throw new BadRequestException(
+        'Đơn hàng đã thanh toán, vui lòng gửi yêu cầu trả hàng để được hoàn tiền thay vì hủy',
+      );
+    }
+  }
+
   /**
    * Handle errors consistently
    */
@@ -5,8 +5,19 @@ import { JwtPayload } from '../../auth/jwt-payload';
 import { PrismaService } from '../../common/services/prisma.service';
 import { PublicCartService } from '../../public/carts/public-cart.service';
 import { PaymentsService } from '../payments/payments.service';
+import { CommissionClawbackHelper } from '../payments/helpers/commission-clawback.helper';
 import { CheckoutHelper } from './checkout.helper';
+import { VoucherHelper } from './voucher.helper';
+import {
+  ShippingFeeHelper,
+  ShippingQuoteInput,
+} from '../shipping/shipping-fee.helper';
+import { DeliveryType } from '../shared/dto/index.dto';
 import { CreateOrderFromCartDto } from './dto/create-order-from-cart.dto';
+import {
+  ShippingQuoteQueryDto,
+  ShippingQuoteResponseDto,
+} from './dto/shipping-quote.dto';
 import {
   OrderResponseDto,
   PublicOrderDetailResponseDto,
@@ -369,46 +380,63 @@ export class CheckoutService {
         throw new BadRequestException('Đơn hàng không tồn tại');
       }
 
-      if (order.status !== 'draft' && order.status !== 'confirmed') {
-        throw new BadRequestException(
-          'Không thể hủy đơn hàng ở trạng thái này',
+      CheckoutHelper.assertCustomerCancellable(order);
+
+      const updatedOrder = await this.prisma.$transaction(async (tx) => {
+        await VoucherHelper.releaseVouchersForOrder(orderId, tx);
+        await CommissionClawbackHelper.reverseForOrder(
+          tx,
+          orderId,
+          'Order cancelled by customer',
+          user.id,
         );
-      }
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId,
+            fromStatus: order.status,
+            toStatus: 'cancelled',
+            note: reason
+              ? `Hủy bởi khách hàng: ${reason}`
+              : 'Hủy bởi khách hàng',
+            changedById: user.id,
+          },
+        });
 
-      const updatedOrder = await this.prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'cancelled',
-          adminNote: reason
-            ? `Hủy bởi khách hàng: ${reason}`
-            : 'Hủy bởi khách hàng',
-        },
-        include: {
-          customer: {
-            include: {
-              user: true,
-              customerGroup: true,
-            },
+        return tx.order.update({
+          where: { id: orderId },
+          data: {
+            status: 'cancelled',
+            adminNote: reason
+              ? `Hủy bởi khách hàng: ${reason}`
+              : 'Hủy bởi khách hàng',
           },
-          orderDetails: {
-            include: {
-              product: {
-                include: {
-                  category: true,
-                  business: true,
-                  images: {
-                    take: 1,
-                    orderBy: { sortOrder: 'asc' },
+          include: {
+            customer: {
+              include: {
+                user: true,
+                customerGroup: true,
+              },
+            },
+            orderDetails: {
+              include: {
+                product: {
+                  include: {
+                    category: true,
+                    business: true,
+                    images: {
+                      take: 1,
+                      orderBy: { sortOrder: 'asc' },
+                    },
                   },
                 },
               },
             },
+            payments: true,
+            orderDelivery: true,
+            warehouse: true,
+            saleChannel: true,
           },
-          payments: true,
-          orderDelivery: true,
-          warehouse: true,
-          saleChannel: true,
-        },
+        });
       });
 
       this.logger.log(`Order ${orderId} cancelled by user ${user.id}`);
@@ -420,6 +448,63 @@ export class CheckoutService {
     }
   }
 
+  /**
+   * Quote the shipping fee of the user's cart before placing the order
+   */
+  async getShippingQuote(
+    user: JwtPayload,
+    query: ShippingQuoteQueryDto,
+  ): Promise<ShippingQuoteResponseDto> {
+    const cartItems = await this.getUserCartItems(user.id);
+    if (cartItems.length === 0) {
+      throw new BadRequestException('Giỏ hàng trống');
+    }
+
+    const productIds = cartItems.map((item) => item.product.id);
+    const warehouseId =
+      query.warehouseId ??
+      (await CheckoutHelper.selectOptimalWarehouse(this.prisma, productIds)).id;
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, isActive: true, allowsSale: true },
+      select: {
+        id: true,
+        price: true,
+        weight: true,
+        dimensions: true,
+        freeShipping: true,
+      },
+    });
+    // Lines whose product is no longer on sale are left out, as checkout
+    // will reject them anyway
+    const items = cartItems.flatMap((item) => {
+      const product = products.find((p) => p.id === item.product.id);
+      return product
+        ? [
+            {
+              quantity: item.quantity,
+              lineTotal: Number(product.price) * item.quantity,
+              product,
+            },
+          ]
+        : [];
+    });
+
+    const input = this.buildShippingQuoteInput(
+      items,
+      query.deliveryType,
+      { province: query.province, district: query.district },
+      warehouseId,
+    );
+    const quote = await ShippingFeeHelper.quote(this.prisma, input);
+
+    return ShippingQuoteResponseDto.fromQuote(
+      quote,
+      input.subtotal,
+      warehouseId,
+    );
+  }
+
   /**
    * Validate idempotency key
    */
@@ -454,7 +539,7 @@ export class CheckoutService {
   private async getUserCartItems(
     userId: string,
   ): Promise<CartItemResponseDto[]> {
-    const cart = await this.publicCartService.getCart(userId);
+    const cart = await this.publicCartService.getCart({ userId });
     return cart?.items || [];
   }
 
@@ -528,10 +613,40 @@ export class CheckoutService {
       // Validate stock availability
       this.validateStockAvailability(itemsWithInventory);
 
+      // Get or create customer
+      const customer = await CheckoutHelper.getOrCreateCustomer(user, tx);
+
+      const subtotal = itemsWithInventory.reduce(
+        (sum, item) => sum + item.lineTotal,
+        0,
+      );
+
+      // Validate voucher codes against the cart
+      const redemption = await VoucherHelper.resolveVouchers(tx, {
+        codes: createOrderDto.voucherCodes,
+        userId: user.id,
+        customerId: customer.id,
+        warehouseId,
+        items: itemsWithInventory,
+        subtotal,
+      });
+
+      // Price shipping from the configured rules
+      const shippingQuote = await ShippingFeeHelper.quote(
+        tx,
+        this.buildShippingQuoteInput(
+          itemsWithInventory,
+          createOrderDto.deliveryType,
+          createOrderDto.shippingAddress,
+          warehouseId,
+        ),
+      );
+
       // Compute totals (server-side)
       const totals = this.computeOrderTotals(
         itemsWithInventory,
-        createOrderDto,
+        shippingQuote.fee,
+        redemption.discount,
       );
 
       // Generate order code
@@ -545,9 +660,6 @@ export class CheckoutService {
             )
           : null;
 
-      // Get or create customer
-      const customer = await CheckoutHelper.getOrCreateCustomer(user, tx);
-
       console.log('Creating order with data:', {
         code: orderCode,
         warehouseId,
@@ -594,11 +706,15 @@ export class CheckoutService {
               code: `DEL-${orderCode}`,
               type: createOrderDto.deliveryType,
               price: totals.shippingFee,
+              weight: shippingQuote.parcel.chargeableWeight || null,
               receiver: createOrderDto.receiver.fullName,
               contactNumber: createOrderDto.receiver.phone,
               address: createOrderDto.shippingAddress
                 ? `${createOrderDto.shippingAddress.addressLine1}, ${createOrderDto.shippingAddress.ward}, ${createOrderDto.shippingAddress.district}, ${createOrderDto.shippingAddress.province}`
                 : '',
+              province: createOrderDto.shippingAddress?.province,
+              district: createOrderDto.shippingAddress?.district,
+              ward: createOrderDto.shippingAddress?.ward,
             },
           },
           // Order details
@@ -646,6 +762,9 @@ export class CheckoutService {
         },
       });
 
+      // Redeem vouchers
+      await VoucherHelper.markVouchersUsed(tx, redemption.vouchers, order.id);
+
       // Reserve inventory
       await this.reserveInventory(itemsWithInventory, tx);
 
@@ -694,6 +813,9 @@ export class CheckoutService {
         businessId: true,
         isActive: true,
         allowsSale: true,
+        weight: true,
+        dimensions: true,
+        freeShipping: true,
         category: {
           select: {
             id: true,
@@ -836,19 +958,51 @@ export class CheckoutService {
     }
   }
 
+  /**
+   * Shipping quote input for the cart lines; free-shipping thresholds are
+   * measured against the subtotal before vouchers
+   */
+  private buildShippingQuoteInput(
+    items: Array<{
+      quantity: number;
+      lineTotal: number;
+      product: Pick<
+        ProductWithDetails,
+        'weight' | 'dimensions' | 'freeShipping'
+      >;
+    }>,
+    deliveryType: DeliveryType,
+    address: { province?: string; district?: string } | undefined,
+    warehouseId: string,
+  ): ShippingQuoteInput {
+    return {
+      deliveryType,
+      province: address?.province,
+      district: address?.district,
+      warehouseId,
+      subtotal: items.reduce((sum, item) => sum + item.lineTotal, 0),
+      items: items.map((item) => ({
+        quantity: item.quantity,
+        weight: item.product.weight,
+        dimensions: item.product.dimensions,
+        freeShipping: item.product.freeShipping,
+      })),
+    };
+  }
+
   /**
    * Compute order totals
    */
   private computeOrderTotals(
     itemsWithInventory: CartItemWithInventory[],
-    createOrderDto: CreateOrderFromCartDto,
+    shippingFee: number,
+    voucherDiscount = 0,
   ): OrderTotals {
     const subtotal = itemsWithInventory.reduce(
       (sum, item) => sum + item.lineTotal,
       0,
     );
-    const shippingFee = createOrderDto.deliveryType === 1 ? 30000 : 0; // Fixed shipping fee for ShipCOD
-    const discount = 0; // TODO: Apply voucher codes
+    const discount = Math.min(voucherDiscount, subtotal);
     const total = subtotal + shippingFee - discount;
 
     return { subtotal, shippingFee, discount, total };
@@ -0,0 +1,103 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { DeliveryType } from '../../shared/dto/index.dto';
+import { ShippingQuote } from '../../shipping/shipping-fee.helper';
+
+export class ShippingQuoteQueryDto {
+  @ApiProperty({
+    description: 'Phương thức giao hàng',
+    enum: DeliveryType,
+    example: DeliveryType.ShipCOD,
+  })
+  @Transform(({ value }) => parseInt(value))
+  @IsEnum(DeliveryType)
+  deliveryType: DeliveryType;
+
+  @ApiPropertyOptional({
+    description: 'Tỉnh/Thành phố nhận hàng (bắt buộc khi chọn giao hàng COD)',
+    example: 'Hà Nội',
+  })
+  @ValidateIf((o) => o.deliveryType === DeliveryType.ShipCOD)
+  @IsNotEmpty({ message: 'Tỉnh/Thành phố không được để trống' })
+  @IsString()
+  province?: string;
+
+  @ApiPropertyOptional({
+    description: 'Quận/Huyện nhận hàng',
+    example: 'Cầu Giấy',
+  })
+  @IsOptional()
+  @IsString()
+  district?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ID kho hàng (nếu không cung cấp, hệ thống sẽ tự động chọn kho tối ưu)',
+  })
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+}
+
+export class ShippingQuoteResponseDto {
+  @ApiProperty({ description: 'Phí vận chuyển (VND)' })
+  fee: number;
+
+  @ApiProperty({ description: 'Được miễn phí vận chuyển' })
+  freeShipping: boolean;
+
+  @ApiProperty({
+    description: 'Căn cứ tính phí',
+    enum: ['pickup', 'free_shipping_products', 'threshold', 'rule', 'default'],
+  })
+  reason: ShippingQuote['reason'];
+
+  @ApiPropertyOptional({ description: 'Quy tắc phí vận chuyển được áp dụng' })
+  ruleName: string | null;
+
+  @ApiProperty({ description: 'Kho xuất hàng' })
+  warehouseId: string;
+
+  @ApiProperty({ description: 'Tạm tính giỏ hàng' })
+  subtotal: number;
+
+  @ApiProperty({ description: 'Khối lượng thực (kg)' })
+  weight: number;
+
+  @ApiProperty({ description: 'Khối lượng tính phí (kg)' })
+  chargeableWeight: number;
+
+  @ApiPropertyOptional({ description: 'Ngưỡng miễn phí vận chuyển' })
+  freeShippingThreshold: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Số tiền cần mua thêm để được miễn phí vận chuyển',
+  })
+  remainingForFreeShipping: number | null;
+
+  static fromQuote(
+    quote: ShippingQuote,
+    subtotal: number,
+    warehouseId: string,
+  ): ShippingQuoteResponseDto {
+    return {
+      fee: quote.fee,
+      freeShipping: quote.freeShipping,
+      reason: quote.reason,
+      ruleName: quote.ruleName,
+      warehouseId,
+      subtotal,
+      weight: quote.parcel.weight,
+      chargeableWeight: quote.parcel.chargeableWeight,
+      freeShippingThreshold: quote.freeShippingThreshold,
+      remainingForFreeShipping: quote.remainingForFreeShipping,
+    };
+  }
+}
@@ -102,6 +102,9 @@ export interface ProductWithDetails {
   businessId: string;
   isActive: boolean;
   allowsSale: boolean;
+  weight: number | null;
+  dimensions: string | null;
+  freeShipping: boolean;
   category: {
     id: string;
     name: string;
@@ -154,6 +157,20 @@ export interface OrderTotals {
   total: number;
 }
 
+// Voucher applied to an order
+export interface AppliedVoucher {
+  id: string;
+  code: string;
+  voucherCampaignId: string;
+  discount: number;
+}
+
+// Voucher redemption result type
+export interface VoucherRedemption {
+  vouchers: AppliedVoucher[];
+  discount: number;
+}
+
 // Order with full relations type
 export interface OrderWithRelations {
   id: string;
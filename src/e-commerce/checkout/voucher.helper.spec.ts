@@ -0,0 +1,310 @@
+import { BadRequestException } from '@nestjs/common';
+import { VoucherPartnerType, VoucherStatus } from '@prisma/client';
+import { VoucherHelper, VoucherRedemptionInput } from './voucher.helper';
+import {
+  CartItemWithInventory,
+  PrismaTransaction,
+} from './types/checkout.types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const buildVoucher = (overrides: Record<string, any> = {}) => {
+  const { voucherCampaign, ...rest } = overrides;
+  return {
+    id: 'voucher-1',
+    code: 'SALE10',
+    status: VoucherStatus.released,
+    discount: 0,
+    discountRatio: 0,
+    releaseDate: new Date(Date.now() - DAY),
+    expireDate: new Date(Date.now() + DAY),
+    partnerType: VoucherPartnerType.customer,
+    partnerId: 'customer-1',
+    ...rest,
+    voucherCampaign: {
+      id: 'campaign-1',
+      isActive: true,
+      startDate: new Date(Date.now() - DAY),
+      endDate: new Date(Date.now() + DAY),
+      quantity: 10,
+      usedCount: 0,
+      discount: 0,
+      discountRatio: 10,
+      useVoucherCombineInvoice: false,
+      isGlobal: false,
+      forAllCusGroup: false,
+      forAllUser: false,
+      prereqCategoryIds: [],
+      prereqProductIds: [],
+      prereqPrice: 0,
+      warehouses: [],
+      users: [],
+      customerGroups: [],
+      ...voucherCampaign,
+    },
+  };
+};
+
+const input = (
+  overrides: Partial<VoucherRedemptionInput> = {},
+): VoucherRedemptionInput => ({
+  codes: ['SALE10'],
+  userId: 'user-1',
+  customerId: 'customer-1',
+  warehouseId: 'warehouse-1',
+  items: [
+    {
+      product: { id: 'product-1', category: { id: 'category-1' } },
+    } as unknown as CartItemWithInventory,
+  ],
+  subtotal: 200000,
+  ...overrides,
+});
+
+describe('VoucherHelper', () => {
+  let tx: any;
+
+  const mockVouchers = (...vouchers: any[]) =>
+    tx.voucher.findMany.mockResolvedValue(vouchers);
+
+  beforeEach(() => {
+    tx = {
+      voucher: {
+        findMany: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      voucherCampaign: {
+        fields: { quantity: 'quantity' },
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      customer: {
+        findUnique: jest.fn().mockResolvedValue({ customerGroupId: null }),
+      },
+    };
+  });
+
+  describe('resolveVouchers', () => {
+    it('should return no discount without codes', async () => {
+      const result = await VoucherHelper.resolveVouchers(
+        tx as PrismaTransaction,
+        input({ codes: [] }),
+      );
+
+      expect(result).toEqual({ vouchers: [], discount: 0 });
+      expect(tx.voucher.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should apply a percentage discount from the campaign', async () => {
+      mockVouchers(buildVoucher());
+
+      const result = await VoucherHelper.resolveVouchers(
+        tx as PrismaTransaction,
+        input(),
+      );
+
+      expect(result.discount).toBe(20000);
+      expect(result.vouchers[0]).toMatchObject({
+        id: 'voucher-1',
+        code: 'SALE10',
+        discount: 20000,
+      });
+    });
+
+    it('should cap a fixed discount at the subtotal', async () => {
+      mockVouchers(buildVoucher({ discount: 500000 }));
+
+      const result = await VoucherHelper.resolveVouchers(
+        tx as PrismaTransaction,
+        input(),
+      );
+
+      expect(result.discount).toBe(200000);
+    });
+
+    it('should reject unknown codes', async () => {
+      mockVouchers();
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('Mã voucher không tồn tại: SALE10');
+    });
+
+    it('should reject vouchers that were already used', async () => {
+      mockVouchers(buildVoucher({ status: VoucherStatus.used }));
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject expired vouchers', async () => {
+      mockVouchers(buildVoucher({ expireDate: new Date(Date.now() - 1000) }));
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject campaigns without remaining quantity', async () => {
+      mockVouchers(
+        buildVoucher({ voucherCampaign: { quantity: 3, usedCount: 3 } }),
+      );
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('hết lượt sử dụng');
+    });
+
+    it('should enforce minimum order value and product prerequisites', async () => {
+      mockVouchers(buildVoucher({ voucherCampaign: { prereqPrice: 300000 } }));
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('tối thiểu');
+
+      mockVouchers(
+        buildVoucher({ voucherCampaign: { prereqProductIds: ['product-9'] } }),
+      );
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('không có sản phẩm áp dụng');
+
+      mockVouchers(
+        buildVoucher({
+          voucherCampaign: { prereqCategoryIds: ['category-1'] },
+        }),
+      );
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).resolves.toMatchObject({ discount: 20000 });
+    });
+
+    it('should reject vouchers outside the warehouse scope', async () => {
+      mockVouchers(
+        buildVoucher({ voucherCampaign: { warehouses: [{ id: 'other' }] } }),
+      );
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('không áp dụng cho kho hàng này');
+    });
+
+    it('should limit campaigns to their customer groups', async () => {
+      mockVouchers(
+        buildVoucher({ voucherCampaign: { customerGroups: [{ id: 'vip' }] } }),
+      );
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('nhóm khách hàng');
+
+      tx.customer.findUnique.mockResolvedValue({ customerGroupId: 'vip' });
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).resolves.toMatchObject({ discount: 20000 });
+    });
+
+    it('should ignore customer groups when the campaign is for all groups', async () => {
+      mockVouchers(
+        buildVoucher({
+          voucherCampaign: {
+            forAllCusGroup: true,
+            customerGroups: [{ id: 'vip' }],
+          },
+        }),
+      );
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).resolves.toMatchObject({ discount: 20000 });
+      expect(tx.customer.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject vouchers issued to another customer', async () => {
+      mockVouchers(buildVoucher({ partnerId: 'customer-2' }));
+
+      await expect(
+        VoucherHelper.resolveVouchers(tx as PrismaTransaction, input()),
+      ).rejects.toThrow('không được phép sử dụng');
+    });
+
+    it('should not combine vouchers unless every campaign allows it', async () => {
+      mockVouchers(
+        buildVoucher(),
+        buildVoucher({ id: 'voucher-2', code: 'SALE20' }),
+      );
+
+      await expect(
+        VoucherHelper.resolveVouchers(
+          tx as PrismaTransaction,
+          input({ codes: ['SALE10', 'SALE20'] }),
+        ),
+      ).rejects.toThrow('không thể sử dụng cùng nhau');
+    });
+  });
+
+  describe('markVouchersUsed', () => {
+    const applied = [
+      {
+        id: 'voucher-1',
+        code: 'SALE10',
+        voucherCampaignId: 'campaign-1',
+        discount: 20000,
+      },
+    ];
+
+    it('should claim campaign usage only while below the quantity', async () => {
+      await VoucherHelper.markVouchersUsed(
+        tx as PrismaTransaction,
+        applied,
+        'order-1',
+      );
+
+      expect(tx.voucherCampaign.updateMany).toHaveBeenCalledWith({
+        where: { id: 'campaign-1', usedCount: { lt: 'quantity' } },
+        data: { usedCount: { increment: 1 } },
+      });
+    });
+
+    it('should fail when concurrent checkouts used up the campaign', async () => {
+      tx.voucherCampaign.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        VoucherHelper.markVouchersUsed(
+          tx as PrismaTransaction,
+          applied,
+          'order-1',
+        ),
+      ).rejects.toThrow('hết lượt sử dụng');
+    });
+
+    it('should fail when a voucher was redeemed concurrently', async () => {
+      tx.voucher.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        VoucherHelper.markVouchersUsed(
+          tx as PrismaTransaction,
+          [
+            {
+              id: 'voucher-1',
+              code: 'SALE10',
+              voucherCampaignId: 'campaign-1',
+              discount: 20000,
+            },
+          ],
+          'order-1',
+        ),
+      ).rejects.toThrow('Mã voucher SALE10 đã được sử dụng');
+
+      expect(tx.voucher.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'voucher-1',
+          status: VoucherStatus.released,
+          orderId: null,
+        },
+        data: expect.objectContaining({
+          status: VoucherStatus.used,
+          orderId: 'order-1',
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { VoucherPartnerType, VoucherStatus } from '@prisma/client';
+import {
+  AppliedVoucher,
+  CartItemWithInventory,
+  PrismaTransaction,
+  VoucherRedemption,
+} from './types/checkout.types';
+
+export interface VoucherRedemptionInput {
+  codes: string[];
+  userId: string;
+  customerId: string;
+  warehouseId: string;
+  items: CartItemWithInventory[];
+  subtotal: number;
+}
+
+const VOUCHER_INCLUDE = {
+  voucherCampaign: {
+    include: {
+      warehouses: { select: { id: true } },
+      users: { select: { id: true } },
+      customerGroups: { select: { id: true } },
+    },
+  },
+} as const;
+
+export class VoucherHelper {
+  private static readonly logger = new Logger(VoucherHelper.name);
+
+  /**
+   * Validate voucher codes for an order and compute the discount
+   */
+  static async resolveVouchers(
+    tx: PrismaTransaction,
+    input: VoucherRedemptionInput,
+  ): Promise<VoucherRedemption> {
+    const codes = [
+      ...new Set(
+        (input.codes || []).map((code) => code.trim()).filter(Boolean),
+      ),
+    ];
+
+    if (codes.length === 0) {
+      return { vouchers: [], discount: 0 };
+    }
+
+    const vouchers = await tx.voucher.findMany({
+      where: { code: { in: codes } },
+      include: VOUCHER_INCLUDE,
+    });
+
+    const missing = codes.filter(
+      (code) => !vouchers.some((voucher) => voucher.code === code),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Mã voucher không tồn tại: ${missing.join(', ')}`,
+      );
+    }
+
+    if (
+      vouchers.length > 1 &&
+      vouchers.some((v) => !v.voucherCampaign.useVoucherCombineInvoice)
+    ) {
+      throw new BadRequestException(
+        'Các mã voucher này không thể sử dụng cùng nhau',
+      );
+    }
+
+    // Only looked up when a campaign is limited to some customer groups
+    const customer = vouchers.some(
+      (v) =>
+        !v.voucherCampaign.forAllCusGroup &&
+        v.voucherCampaign.customerGroups.length > 0,
+    )
+      ? await tx.customer.findUnique({
+          where: { id: input.customerId },
+          select: { customerGroupId: true },
+        })
+      : null;
+
+    const now = new Date();
+    const applied: AppliedVoucher[] = [];
+    let remaining = input.subtotal;
+
+    for (const voucher of vouchers) {
+      const campaign = voucher.voucherCampaign;
+
+      if (voucher.status !== VoucherStatus.released) {
+        throw new BadRequestException(
+          `Mã voucher ${voucher.code} không còn hiệu lực`,
+        );
+      }
+
+      if (
+        !campaign.isActive ||
+        now < campaign.startDate ||
+        now > campaign.endDate ||
+        now < voucher.releaseDate ||
+        now > voucher.expireDate
+      ) {
+        throw new BadRequestException(
+          `Mã voucher ${voucher.code} đã hết hạn hoặc chưa đến thời gian sử dụng`,
+        );
+      }
+
+      // Early answer only: markVouchersUsed claims the usage atomically
+      if (campaign.usedCount >= campaign.quantity) {
+        throw new BadRequestException(
+          `Chương trình của mã voucher ${voucher.code} đã hết lượt sử dụng`,
+        );
+      }
+
+      this.assertPrerequisites(voucher.code, campaign, input);
+      this.assertScope(voucher, input, customer?.customerGroupId ?? null);
+
+      const discount = Math.min(
+        this.computeDiscount(voucher, input.subtotal),
+        remaining,
+      );
+      remaining -= discount;
+
+      applied.push({
+        id: voucher.id,
+        code: voucher.code,
+        voucherCampaignId: campaign.id,
+        discount,
+      });
+    }
+
+    return {
+      vouchers: applied,
+      discount: applied.reduce((sum, voucher) => sum + voucher.discount, 0),
+    };
+  }
+
+  /**
+   * Mark vouchers as used by an order.
+   * The status guard makes the update atomic against concurrent checkouts,
+   * and the campaign usage is only claimed while usedCount < quantity.
+   */
+  static async markVouchersUsed(
+    tx: PrismaTransaction,
+    vouchers: AppliedVoucher[],
+    orderId: string,
+  ): Promise<void> {
+    const usedDate = new Date();
+
+    for (const voucher of vouchers) {
+      const result = await tx.voucher.updateMany({
+        where: {
+          id: voucher.id,
+          status: VoucherStatus.released,
+          orderId: null,
+        },
+        data: {
+          status: VoucherStatus.used,
+          usedDate,
+          orderId,
+          appliedDiscount: voucher.discount,
+        },
+      });
+
+      if (result.count !== 1) {
+        throw new BadRequestException(
+          `Mã voucher ${voucher.code} đã được sử dụng`,
+        );
+      }
+
+      const claimed = await tx.voucherCampaign.updateMany({
+        where: {
+          id: voucher.voucherCampaignId,
+          usedCount: { lt: tx.voucherCampaign.fields.quantity },
+        },
+        data: { usedCount: { increment: 1 } },
+      });
+
+      if (claimed.count !== 1) {
+        throw new BadRequestException(
+          `Chương trình của mã voucher ${voucher.code} đã hết lượt sử dụng`,
+        );
+      }
+    }
+
+    this.logger.debug(
+      `Marked ${vouchers.length} voucher(s) as used for order ${orderId}`,
+    );
+  }
+
+  /**
+   * Release vouchers when the order is cancelled or its payment fails
+   */
+  static async releaseVouchersForOrder(
+    orderId: string,
+    tx: PrismaTransaction,
+  ): Promise<void> {
+    const used = await tx.voucher.findMany({
+      where: { orderId, status: VoucherStatus.used },
+      select: { id: true, voucherCampaignId: true },
+    });
+    if (used.length === 0) return;
+
+    const result = await tx.voucher.updateMany({
+      where: {
+        id: { in: used.map((voucher) => voucher.id) },
+        status: VoucherStatus.used,
+      },
+      data: {
+        status: VoucherStatus.released,
+        usedDate: null,
+        orderId: null,
+        appliedDiscount: null,
+      },
+    });
+
+    // Give the campaign usage back
+    for (const voucher of used) {
+      await tx.voucherCampaign.updateMany({
+        where: { id: voucher.voucherCampaignId, usedCount: { gt: 0 } },
+        data: { usedCount: { decrement: 1 } },
+      });
+    }
+
+    if (result.count > 0) {
+      this.logger.debug(
+        `Released ${result.count} voucher(s) for order ${orderId}`,
+      );
+    }
+  }
+
+  private static assertPrerequisites(
+    code: string,
+    campaign: {
+      prereqPrice: unknown;
+      prereqProductIds: string[];
+      prereqCategoryIds: string[];
+    },
+    input: VoucherRedemptionInput,
+  ): void {
+    const prereqPrice = Number(campaign.prereqPrice ?? 0);
+    if (input.subtotal < prereqPrice) {
+      throw new BadRequestException(
+        `Đơn hàng cần tối thiểu ${prereqPrice.toLocaleString('vi-VN')}đ để sử dụng mã voucher ${code}`,
+      );
+    }
+
+    const hasProductRule = campaign.prereqProductIds.length > 0;
+    const hasCategoryRule = campaign.prereqCategoryIds.length > 0;
+    if (!hasProductRule && !hasCategoryRule) return;
+
+    const matches = input.items.some(
+      (item) =>
+        campaign.prereqProductIds.includes(item.product.id) ||
+        campaign.prereqCategoryIds.includes(item.product.category?.id),
+    );
+
+    if (!matches) {
+      throw new BadRequestException(
+        `Giỏ hàng không có sản phẩm áp dụng mã voucher ${code}`,
+      );
+    }
+  }
+
+  private static assertScope(
+    voucher: {
+      code: string;
+      partnerType: VoucherPartnerType | null;
+      partnerId: string | null;
+      voucherCampaign: {
+        isGlobal: boolean;
+        forAllCusGroup: boolean;
+        forAllUser: boolean;
+        warehouses: { id: string }[];
+        users: { id: string }[];
+        customerGroups: { id: string }[];
+      };
+    },
+    input: VoucherRedemptionInput,
+    customerGroupId: string | null,
+  ): void {
+    const campaign = voucher.voucherCampaign;
+
+    if (
+      !campaign.isGlobal &&
+      campaign.warehouses.length > 0 &&
+      !campaign.warehouses.some((w) => w.id === input.warehouseId)
+    ) {
+      throw new BadRequestException(
+        `Mã voucher ${voucher.code} không áp dụng cho kho hàng này`,
+      );
+    }
+
+    if (
+      !campaign.forAllCusGroup &&
+      campaign.customerGroups.length > 0 &&
+      !campaign.customerGroups.some((g) => g.id === customerGroupId)
+    ) {
+      throw new BadRequestException(
+        `Mã voucher ${voucher.code} không áp dụng cho nhóm khách hàng của bạn`,
+      );
+    }
+
+    if (campaign.forAllUser) return;
+
+    const ownedByOther =
+      (voucher.partnerType === VoucherPartnerType.customer &&
+        voucher.partnerId !== input.customerId) ||
+      (voucher.partnerType === VoucherPartnerType.user &&
+        voucher.partnerId !== input.userId);
+    const notInCampaign =
+      campaign.users.length > 0 &&
+      !campaign.users.some((u) => u.id === input.userId);
+
+    if (ownedByOther || notInCampaign) {
+      throw new BadRequestException(
+        `Bạn không được phép sử dụng mã voucher ${voucher.code}`,
+      );
+    }
+  }
+
+  /**
+   * Voucher values override the campaign; discountRatio is a percentage
+   */
+  private static computeDiscount(
+    voucher: {
+      discount: unknown;
+      discountRatio: unknown;
+      voucherCampaign: { discount: unknown; discountRatio: unknown };
+    },
+    subtotal: number,
+  ): number {
+    const amount =
+      Number(voucher.discount) || Number(voucher.voucherCampaign.discount);
+    if (amount > 0) return amount;
+
+    const ratio =
+      Number(voucher.discountRatio) ||
+      Number(voucher.voucherCampaign.discountRatio);
+    return Math.round((subtotal * ratio) / 100);
+  }
+}
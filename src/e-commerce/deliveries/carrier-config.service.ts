@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AllConfigType } from '../../common/configs/types/index.type';
+
+@Injectable()
+export class CarrierConfigService {
+  constructor(private configService: ConfigService<AllConfigType>) {}
+
+  get GHN(): AllConfigType['carrier']['ghn'] {
+    const ghn =
+      this.configService.get<AllConfigType['carrier']>('carrier')?.ghn;
+
+    return {
+      apiUrl:
+        ghn?.apiUrl || 'https://dev-online-gateway.ghn.vn/shiip/public-api',
+      token: ghn?.token || '',
+      shopId: ghn?.shopId || '',
+      webhookToken: ghn?.webhookToken || '',
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { DeliveryCarrier } from '@prisma/client';
+import { CARRIER_ADAPTERS } from '../deliveries.constants';
+import { CarrierAdapter } from '../types/carrier-adapter.types';
+
+/**
+ * Lookup of carrier adapters keyed by DeliveryCarrier
+ */
+@Injectable()
+export class CarrierRegistry {
+  private readonly logger = new Logger(CarrierRegistry.name);
+  private readonly adapters = new Map<DeliveryCarrier, CarrierAdapter>();
+
+  constructor(@Inject(CARRIER_ADAPTERS) adapters: CarrierAdapter[]) {
+    for (const adapter of adapters) {
+      if (this.adapters.has(adapter.carrier)) {
+        throw new Error(`Duplicate carrier adapter for ${adapter.carrier}`);
+      }
+
+      this.adapters.set(adapter.carrier, adapter);
+    }
+
+    this.logger.log(
+      `Registered carriers: ${[...this.adapters.keys()].join(', ')}`,
+    );
+  }
+
+  /**
+   * Get the adapter for a carrier
+   */
+  get(carrier: DeliveryCarrier): CarrierAdapter {
+    const adapter = this.adapters.get(carrier);
+
+    if (!adapter) {
+      throw new BadRequestException(
+        `Đơn vị vận chuyển ${carrier} chưa được hỗ trợ`,
+      );
+    }
+
+    return adapter;
+  }
+
+  list(): DeliveryCarrier[] {
+    return [...this.adapters.keys()];
+  }
+}
@@ -0,0 +1,272 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { DeliveryStatus } from '@prisma/client';
+import axios from 'axios';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { GhnCarrier } from './ghn.carrier';
+import { CarrierConfigService } from '../carrier-config.service';
+import { CarrierShipmentContext } from '../types/carrier-adapter.types';
+
+const WEBHOOK_TOKEN = 'ghn-callback-secret';
+
+type MockRequest = {
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+};
+
+/**
+ * Minimal local stand-in for the GHN public API
+ */
+function startGhnMock(): Promise<{
+  server: Server;
+  port: number;
+  requests: MockRequest[];
+}> {
+  const requests: MockRequest[] = [];
+
+  const respond = (res: ServerResponse, status: number, payload: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(payload));
+  };
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      requests.push({ url: req.url, headers: req.headers, body });
+
+      switch (req.url) {
+        case '/shiip/public-api/v2/shipping-order/fee':
+          return respond(res, 200, {
+            code: 200,
+            message: 'Success',
+            data: { total: 36300 },
+          });
+        case '/shiip/public-api/v2/shipping-order/create':
+          if (!body.to_district_name) {
+            return respond(res, 400, {
+              code: 400,
+              message: 'Thiếu thông tin quận huyện',
+              data: null,
+            });
+          }
+          return respond(res, 200, {
+            code: 200,
+            message: 'Success',
+            data: {
+              order_code: 'GHN8X2K9',
+              total_fee: 36300,
+              expected_delivery_time: '2026-10-21T16:59:59Z',
+            },
+          });
+        case '/shiip/public-api/v2/shipping-order/detail':
+          return respond(res, 200, {
+            code: 200,
+            message: 'Success',
+            data: {
+              order_code: body.order_code,
+              status: 'delivering',
+              cod_amount: 480000,
+              log: [
+                {
+                  status: 'ready_to_pick',
+                  updated_date: '2026-10-18T08:00:00Z',
+                },
+                { status: 'picked', updated_date: '2026-10-18T10:00:00Z' },
+                { status: 'delivering', updated_date: '2026-10-19T08:00:00Z' },
+              ],
+            },
+          });
+        case '/shiip/public-api/v2/switch-status/cancel':
+          return respond(res, 200, {
+            code: 200,
+            message: 'Success',
+            data: body.order_codes.map((code: string) => ({
+              order_code: code,
+              result: false,
+              message: 'Đơn hàng đã lấy, không thể hủy',
+            })),
+          });
+        case '/shiip/public-api/v2/a5/gen-token':
+          return respond(res, 200, {
+            code: 200,
+            message: 'Success',
+            data: { token: 'print-token-1' },
+          });
+        default:
+          return respond(res, 404, { code: 404, message: 'Not found' });
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        requests,
+      });
+    });
+  });
+}
+
+describe('GhnCarrier', () => {
+  let carrier: GhnCarrier;
+  let mock: Awaited<ReturnType<typeof startGhnMock>>;
+
+  beforeAll(async () => {
+    mock = await startGhnMock();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mock.server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    mock.requests.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GhnCarrier,
+        { provide: HttpService, useValue: new HttpService(axios.create()) },
+        {
+          provide: CarrierConfigService,
+          useValue: {
+            GHN: {
+              apiUrl: `http://127.0.0.1:${mock.port}/shiip/public-api`,
+              token: 'ghn-token',
+              shopId: '885',
+              webhookToken: WEBHOOK_TOKEN,
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    carrier = module.get<GhnCarrier>(GhnCarrier);
+  });
+
+  const shipment = (
+    overrides: Partial<CarrierShipmentContext> = {},
+  ): CarrierShipmentContext => ({
+    orderCode: 'HN-261018-001',
+    from: {
+      name: 'Kho Cầu Giấy',
+      phone: '0900000000',
+      address: '1 Trần Thái Tông',
+      district: 'Cầu Giấy',
+      province: 'Hà Nội',
+    },
+    to: {
+      name: 'Nguyễn Văn A',
+      phone: '0911111111',
+      address: '12 Lê Lợi',
+      ward: 'Bến Nghé',
+      district: 'Quận 1',
+      province: 'Hồ Chí Minh',
+    },
+    parcel: { weight: 1.25, length: 20, width: 15, height: 10 },
+    codAmount: 480000,
+    insuranceValue: 450000,
+    items: [{ name: 'Bình giữ nhiệt', quantity: 2, price: 225000 }],
+    ...overrides,
+  });
+
+  it('books a shipment with GHN units and credentials', async () => {
+    const result = await carrier.createShipment(shipment());
+
+    expect(result).toMatchObject({
+      carrierOrderCode: 'GHN8X2K9',
+      fee: 36300,
+      expectedDeliveryAt: new Date('2026-10-21T16:59:59Z'),
+    });
+
+    const [request] = mock.requests;
+    expect(request.headers.token).toBe('ghn-token');
+    expect(request.headers.shopid).toBe('885');
+    expect(request.body).toMatchObject({
+      client_order_code: 'HN-261018-001',
+      to_district_name: 'Quận 1',
+      weight: 1250,
+      cod_amount: 480000,
+      payment_type_id: 1,
+    });
+  });
+
+  it('surfaces GHN error messages', async () => {
+    const context = shipment();
+    context.to.district = '';
+
+    await expect(carrier.createShipment(context)).rejects.toThrow(
+      'GHN: Thiếu thông tin quận huyện',
+    );
+  });
+
+  it('quotes a fee', async () => {
+    await expect(carrier.quote(shipment())).resolves.toEqual({ fee: 36300 });
+  });
+
+  it('maps tracking history onto delivery statuses', async () => {
+    const tracking = await carrier.track('GHN8X2K9');
+
+    expect(tracking.status).toBe(DeliveryStatus.in_transit);
+    expect(tracking.codAmount).toBe(480000);
+    expect(tracking.events.map((event) => event.status)).toEqual([
+      DeliveryStatus.booked,
+      DeliveryStatus.picked_up,
+      DeliveryStatus.in_transit,
+    ]);
+  });
+
+  it('reports shipments GHN refuses to cancel', async () => {
+    await expect(carrier.cancelShipment('GHN8X2K9')).rejects.toThrow(
+      'Đơn hàng đã lấy, không thể hủy',
+    );
+  });
+
+  it('builds the A5 label URL from a print token', async () => {
+    await expect(carrier.getLabelUrl('GHN8X2K9')).resolves.toBe(
+      `http://127.0.0.1:${mock.port}/a5/public-api/printA5?token=print-token-1`,
+    );
+  });
+
+  describe('parseWebhook', () => {
+    const body = {
+      OrderCode: 'GHN8X2K9',
+      Status: 'delivered',
+      Type: 'switch_status',
+      CODAmount: 480000,
+      Time: '2026-10-20T09:30:00.000Z',
+    };
+
+    it('rejects callbacks without the shared token', () => {
+      expect(() =>
+        carrier.parseWebhook({
+          headers: {},
+          query: { token: 'wrong' },
+          body,
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('maps a delivery callback with the collected COD', () => {
+      expect(
+        carrier.parseWebhook({
+          headers: {},
+          query: { token: WEBHOOK_TOKEN },
+          body,
+        }),
+      ).toMatchObject({
+        carrierOrderCode: 'GHN8X2K9',
+        status: DeliveryStatus.delivered,
+        codAmount: 480000,
+        occurredAt: new Date('2026-10-20T09:30:00.000Z'),
+      });
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { DeliveryCarrier, DeliveryStatus } from '@prisma/client';
+import { timingSafeEqual } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { CarrierConfigService } from '../carrier-config.service';
+import {
+  CarrierAdapter,
+  CarrierQuoteContext,
+  CarrierQuoteResult,
+  CarrierShipmentContext,
+  CarrierShipmentResult,
+  CarrierTrackingResult,
+  CarrierWebhookEvent,
+  CarrierWebhookInput,
+} from '../types/carrier-adapter.types';
+
+// GHN order statuses grouped onto ours
+export const GHN_STATUS_MAP: Record<string, DeliveryStatus> = {
+  ready_to_pick: DeliveryStatus.booked,
+  picking: DeliveryStatus.booked,
+  money_collect_picking: DeliveryStatus.booked,
+  picked: DeliveryStatus.picked_up,
+  storing: DeliveryStatus.in_transit,
+  transporting: DeliveryStatus.in_transit,
+  sorting: DeliveryStatus.in_transit,
+  delivering: DeliveryStatus.in_transit,
+  money_collect_delivering: DeliveryStatus.in_transit,
+  delivered: DeliveryStatus.delivered,
+  delivery_fail: DeliveryStatus.failed,
+  waiting_to_return: DeliveryStatus.returning,
+  return: DeliveryStatus.returning,
+  return_transporting: DeliveryStatus.returning,
+  return_sorting: DeliveryStatus.returning,
+  returning: DeliveryStatus.returning,
+  return_fail: DeliveryStatus.returning,
+  returned: DeliveryStatus.returned,
+  cancel: DeliveryStatus.cancelled,
+  exception: DeliveryStatus.exception,
+  damage: DeliveryStatus.exception,
+  lost: DeliveryStatus.exception,
+};
+
+// Standard (road) delivery
+const GHN_SERVICE_TYPE_STANDARD = 2;
+// Shop pays the carrier; the buyer's shipping fee is already in the COD total
+const GHN_PAYMENT_TYPE_SHOP = 1;
+// Receiver may inspect but not try on the goods
+const GHN_REQUIRED_NOTE = 'CHOXEMHANGKHONGTHU';
+
+interface GhnResponse<T> {
+  code: number;
+  message: string;
+  data: T;
+}
+
+@Injectable()
+export class GhnCarrier implements CarrierAdapter {
+  readonly carrier = DeliveryCarrier.ghn;
+
+  private readonly logger = new Logger(GhnCarrier.name);
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly carrierConfig: CarrierConfigService,
+  ) {}
+
+  async quote(context: CarrierQuoteContext): Promise<CarrierQuoteResult> {
+    const data = await this.request<{ total: number }>(
+      '/v2/shipping-order/fee',
+      {
+        service_type_id: GHN_SERVICE_TYPE_STANDARD,
+        ...this.addressPayload(context),
+        ...this.parcelPayload(context),
+      },
+    );
+
+    return { fee: data.total };
+  }
+
+  async createShipment(
+    context: CarrierShipmentContext,
+  ): Promise<CarrierShipmentResult> {
+    const data = await this.request<{
+      order_code: string;
+      total_fee: number;
+      expected_delivery_time?: string;
+    }>('/v2/shipping-order/create', {
+      client_order_code: context.orderCode,
+      service_type_id: GHN_SERVICE_TYPE_STANDARD,
+      payment_type_id: GHN_PAYMENT_TYPE_SHOP,
+      required_note: GHN_REQUIRED_NOTE,
+      note: context.note,
+      ...this.addressPayload(context),
+      ...this.parcelPayload(context),
+      items: context.items.map((item) => ({
+        name: item.name,
+        code: item.code ?? undefined,
+        quantity: item.quantity,
+        price: Math.round(item.price),
+      })),
+    });
+
+    this.logger.log(
+      `GHN shipment ${data.order_code} created for order ${context.orderCode}`,
+    );
+
+    return {
+      carrierOrderCode: data.order_code,
+      fee: data.total_fee,
+      expectedDeliveryAt: data.expected_delivery_time
+        ? new Date(data.expected_delivery_time)
+        : undefined,
+      raw: data,
+    };
+  }
+
+  async cancelShipment(carrierOrderCode: string): Promise<void> {
+    const data = await this.request<
+      { order_code: string; result: boolean; message: string }[]
+    >('/v2/switch-status/cancel', { order_codes: [carrierOrderCode] });
+
+    const result = data.find((row) => row.order_code === carrierOrderCode);
+    if (!result?.result) {
+      throw new BadRequestException(
+        `GHN không hủy được vận đơn ${carrierOrderCode}: ${result?.message ?? 'không rõ lý do'}`,
+      );
+    }
+  }
+
+  async track(carrierOrderCode: string): Promise<CarrierTrackingResult> {
+    const data = await this.request<{
+      order_code: string;
+      status: string;
+      cod_amount?: number;
+      leadtime?: string;
+      log?: { status: string; updated_date: string }[];
+    }>('/v2/shipping-order/detail', { order_code: carrierOrderCode });
+
+    return {
+      carrierOrderCode: data.order_code,
+      carrierStatus: data.status,
+      status: this.mapStatus(data.status),
+      codAmount: data.cod_amount,
+      expectedDeliveryAt: data.leadtime ? new Date(data.leadtime) : undefined,
+      events: (data.log ?? []).map((entry) => ({
+        carrierStatus: entry.status,
+        status: this.mapStatus(entry.status),
+        occurredAt: new Date(entry.updated_date),
+      })),
+    };
+  }
+
+  /**
+   * A5 print page for the shipment; GHN issues a short-lived print token
+   */
+  async getLabelUrl(carrierOrderCode: string): Promise<string> {
+    const data = await this.request<{ token: string }>('/v2/a5/gen-token', {
+      order_codes: [carrierOrderCode],
+    });
+
+    const url = new URL(
+      '/a5/public-api/printA5',
+      this.carrierConfig.GHN.apiUrl,
+    );
+    url.searchParams.set('token', data.token);
+
+    return url.toString();
+  }
+
+  /**
+   * GHN callbacks are unsigned, so the callback URL carries a shared token
+   */
+  parseWebhook(input: CarrierWebhookInput): CarrierWebhookEvent {
+    const expected = this.carrierConfig.GHN.webhookToken;
+    if (!expected) {
+      throw new BadRequestException('GHN_WEBHOOK_TOKEN not configured');
+    }
+
+    const token = String(input.query?.token ?? '');
+    if (
+      token.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(token), Buffer.from(expected))
+    ) {
+      throw new BadRequestException('Invalid webhook token');
+    }
+
+    const body = input.body ?? {};
+    if (!body.OrderCode || !body.Status) {
+      throw new BadRequestException('Missing OrderCode or Status');
+    }
+
+    const occurredAt = body.Time ? new Date(body.Time) : new Date();
+    const carrierStatus = String(body.Status);
+
+    return {
+      carrierOrderCode: body.OrderCode,
+      carrierStatus,
+      status: this.mapStatus(carrierStatus),
+      occurredAt,
+      description: body.Description || body.Reason || undefined,
+      codAmount:
+        body.CODAmount !== undefined ? Number(body.CODAmount) : undefined,
+      raw: body,
+    };
+  }
+
+  private mapStatus(carrierStatus: string): DeliveryStatus {
+    const status = GHN_STATUS_MAP[carrierStatus];
+    if (!status) {
+      this.logger.warn(`Unknown GHN status ${carrierStatus}`);
+      return DeliveryStatus.exception;
+    }
+
+    return status;
+  }
+
+  private addressPayload(context: CarrierQuoteContext) {
+    const { from, to } = context;
+
+    return {
+      from_name: from.name,
+      from_phone: from.phone,
+      from_address: from.address,
+      from_ward_name: from.ward ?? undefined,
+      from_district_name: from.district,
+      from_province_name: from.province,
+      to_name: to.name,
+      to_phone: to.phone,
+      to_address: to.address,
+      to_ward_name: to.ward ?? undefined,
+      to_district_name: to.district,
+      to_province_name: to.province,
+    };
+  }
+
+  /**
+   * GHN takes grams and whole centimetres
+   */
+  private parcelPayload(context: CarrierQuoteContext) {
+    const { parcel } = context;
+
+    return {
+      weight: Math.max(Math.round(parcel.weight * 1000), 1),
+      length: Math.ceil(parcel.length ?? 1),
+      width: Math.ceil(parcel.width ?? 1),
+      height: Math.ceil(parcel.height ?? 1),
+      cod_amount: Math.round(context.codAmount),
+      insurance_value: Math.round(context.insuranceValue),
+    };
+  }
+
+  private async request<T>(path: string, body: Record<string, any>) {
+    const config = this.carrierConfig.GHN;
+    if (!config.token) {
+      throw new BadRequestException('GHN is not configured');
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<GhnResponse<T>>(`${config.apiUrl}${path}`, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            Token: config.token,
+            ...(config.shopId && { ShopId: config.shopId }),
+          },
+        }),
+      );
+
+      if (response.data.code !== 200) {
+        throw new Error(response.data.message);
+      }
+
+      return response.data.data;
+    } catch (error) {
+      const message = error.response?.data?.message ?? error.message;
+      this.logger.error(`GHN request ${path} failed: ${message}`);
+      throw new BadRequestException(`GHN: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { DeliveriesService } from './deliveries.service';
+import { BookShipmentDto } from './dto/book-shipment.dto';
+import { UpdatePartnerDeliveryDto } from './dto/partner-delivery.dto';
+import {
+  CarrierQuoteResponseDto,
+  PartnerDeliveryResponseDto,
+  ShipmentLabelResponseDto,
+  ShipmentResponseDto,
+} from './dto/shipment-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Deliveries')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('admin/deliveries')
+export class DeliveriesAdminController {
+  constructor(private readonly deliveriesService: DeliveriesService) {}
+
+  @Get('partners')
+  @ApiOperation({ summary: 'List delivery partners and their integrations' })
+  @ApiResponse({ status: HttpStatus.OK, type: [PartnerDeliveryResponseDto] })
+  findPartners(): Promise<PartnerDeliveryResponseDto[]> {
+    return this.deliveriesService.findPartners();
+  }
+
+  @Patch('partners/:id')
+  @ApiOperation({ summary: 'Link a delivery partner to a carrier API' })
+  @ApiResponse({ status: HttpStatus.OK, type: PartnerDeliveryResponseDto })
+  updatePartner(
+    @Param('id') id: string,
+    @Body() dto: UpdatePartnerDeliveryDto,
+  ): Promise<PartnerDeliveryResponseDto> {
+    return this.deliveriesService.updatePartner(id, dto);
+  }
+
+  @Get('orders/:orderId')
+  @ApiOperation({ summary: 'Get the shipment and tracking log of an order' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShipmentResponseDto })
+  findByOrder(@Param('orderId') orderId: string): Promise<ShipmentResponseDto> {
+    return this.deliveriesService.findByOrder(orderId);
+  }
+
+  @Get('orders/:orderId/quotes')
+  @ApiOperation({ summary: 'Quote an order with every integrated carrier' })
+  @ApiResponse({ status: HttpStatus.OK, type: [CarrierQuoteResponseDto] })
+  quote(@Param('orderId') orderId: string): Promise<CarrierQuoteResponseDto[]> {
+    return this.deliveriesService.quote(orderId);
+  }
+
+  @Post('orders/:orderId/book')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Book a shipment with a carrier' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShipmentResponseDto })
+  book(
+    @Param('orderId') orderId: string,
+    @Body() dto: BookShipmentDto,
+  ): Promise<ShipmentResponseDto> {
+    return this.deliveriesService.book(orderId, dto);
+  }
+
+  @Post('orders/:orderId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel the shipment at the carrier' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShipmentResponseDto })
+  cancel(@Param('orderId') orderId: string): Promise<ShipmentResponseDto> {
+    return this.deliveriesService.cancel(orderId);
+  }
+
+  @Post('orders/:orderId/track')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sync the shipment status from the carrier' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShipmentResponseDto })
+  track(@Param('orderId') orderId: string): Promise<ShipmentResponseDto> {
+    return this.deliveriesService.track(orderId);
+  }
+
+  @Get('orders/:orderId/label')
+  @ApiOperation({ summary: 'Get the printable shipping label URL' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShipmentLabelResponseDto })
+  label(@Param('orderId') orderId: string): Promise<ShipmentLabelResponseDto> {
+    return this.deliveriesService.label(orderId);
+  }
+}
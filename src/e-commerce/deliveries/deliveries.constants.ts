@@ -0,0 +1,2 @@
+// Injection token for the list of CarrierAdapter implementations
+export const CARRIER_ADAPTERS = 'CARRIER_ADAPTERS';
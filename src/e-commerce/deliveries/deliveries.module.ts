@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { PrismaService } from '../../common/services/prisma.service';
+import { OrdersModule } from '../orders/orders.module';
+import { CarrierConfigService } from './carrier-config.service';
+import { CarrierRegistry } from './carriers/carrier.registry';
+import { GhnCarrier } from './carriers/ghn.carrier';
+import { CARRIER_ADAPTERS } from './deliveries.constants';
+import { DeliveriesAdminController } from './deliveries-admin.controller';
+import { DeliveriesService } from './deliveries.service';
+import { DeliveryWebhooksController } from './delivery-webhooks.controller';
+import { CarrierAdapter } from './types/carrier-adapter.types';
+
+@Module({
+  imports: [HttpModule, OrdersModule],
+  controllers: [DeliveriesAdminController, DeliveryWebhooksController],
+  providers: [
+    CarrierConfigService,
+    GhnCarrier,
+    // New carriers: implement CarrierAdapter and add them here
+    {
+      provide: CARRIER_ADAPTERS,
+      useFactory: (...adapters: CarrierAdapter[]) => adapters,
+      inject: [GhnCarrier],
+    },
+    CarrierRegistry,
+    DeliveriesService,
+    PrismaService,
+  ],
+  exports: [DeliveriesService],
+})
+export class DeliveriesModule {}
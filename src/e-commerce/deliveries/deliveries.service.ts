@@ -0,0 +1,626 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DeliveryCarrier,
+  DeliveryStatus,
+  OrderStatus,
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { DeliveryType } from '../shared/dto/index.dto';
+import { CheckoutHelper } from '../checkout/checkout.helper';
+import { CashflowHelper } from '../cashflows/cashflow.helper';
+import { ShippingFeeHelper } from '../shipping/shipping-fee.helper';
+import { OrdersService } from '../orders/orders.service';
+import { CarrierRegistry } from './carriers/carrier.registry';
+import {
+  DeliveryStatusHelper,
+  FINAL_DELIVERY_STATUSES,
+} from './delivery-status.helper';
+import { BookShipmentDto } from './dto/book-shipment.dto';
+import { UpdatePartnerDeliveryDto } from './dto/partner-delivery.dto';
+import {
+  CarrierQuoteResponseDto,
+  PartnerDeliveryResponseDto,
+  ShipmentLabelResponseDto,
+  ShipmentResponseDto,
+} from './dto/shipment-response.dto';
+import {
+  CarrierQuoteContext,
+  CarrierShipmentItem,
+  CarrierTrackingEvent,
+  CarrierWebhookInput,
+} from './types/carrier-adapter.types';
+
+type PrismaTx = Prisma.TransactionClient;
+
+export type DeliveryEventOutcome =
+  | 'processed'
+  | 'stale'
+  | 'duplicate'
+  | 'not_found';
+
+const DELIVERY_INCLUDE = {
+  partnerDelivery: true,
+  trackingEvents: { orderBy: { occurredAt: 'asc' } },
+} satisfies Prisma.OrderDeliveryInclude;
+
+const SHIPMENT_ORDER_INCLUDE = {
+  orderDelivery: { include: DELIVERY_INCLUDE },
+  warehouse: { include: { address: true } },
+  orderDetails: {
+    include: {
+      product: {
+        select: { name: true, code: true, weight: true, dimensions: true },
+      },
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+type ShipmentOrder = Prisma.OrderGetPayload<{
+  include: typeof SHIPMENT_ORDER_INCLUDE;
+}>;
+
+@Injectable()
+export class DeliveriesService {
+  private readonly logger = new Logger(DeliveriesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly carrierRegistry: CarrierRegistry,
+    private readonly ordersService: OrdersService,
+  ) {}
+
+  async findPartners(): Promise<PartnerDeliveryResponseDto[]> {
+    const partners = await this.prisma.partnerDelivery.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return partners.map(PartnerDeliveryResponseDto.fromPartner);
+  }
+
+  async updatePartner(
+    id: string,
+    dto: UpdatePartnerDeliveryDto,
+  ): Promise<PartnerDeliveryResponseDto> {
+    const partner = await this.prisma.partnerDelivery.findUnique({
+      where: { id },
+    });
+    if (!partner) {
+      throw new NotFoundException('Đối tác vận chuyển không tồn tại');
+    }
+    if (dto.carrier) {
+      // Fail now rather than at the first booking
+      this.carrierRegistry.get(dto.carrier);
+    }
+
+    const updated = await this.prisma.partnerDelivery.update({
+      where: { id },
+      data: { carrier: dto.carrier, isActive: dto.isActive },
+    });
+
+    return PartnerDeliveryResponseDto.fromPartner(updated);
+  }
+
+  async findByOrder(orderId: string): Promise<ShipmentResponseDto> {
+    const delivery = await this.prisma.orderDelivery.findUnique({
+      where: { orderId },
+      include: DELIVERY_INCLUDE,
+    });
+    if (!delivery) {
+      throw new NotFoundException('Đơn hàng không có thông tin giao hàng');
+    }
+
+    return ShipmentResponseDto.fromDelivery(delivery);
+  }
+
+  /**
+   * Price the order with every active integrated carrier. A carrier that
+   * fails to quote is reported rather than failing the whole list.
+   */
+  async quote(orderId: string): Promise<CarrierQuoteResponseDto[]> {
+    const order = await this.findOrder(orderId);
+    const context = this.buildContext(order);
+
+    const partners = await this.prisma.partnerDelivery.findMany({
+      where: { isActive: true, carrier: { not: null } },
+      orderBy: { name: 'asc' },
+    });
+
+    return Promise.all(
+      partners.map(async (partner) => {
+        const carrier = partner.carrier as DeliveryCarrier;
+        const base = {
+          partnerDeliveryId: partner.id,
+          partnerName: partner.name,
+          carrier,
+        };
+
+        try {
+          const quote = await this.carrierRegistry.get(carrier).quote(context);
+
+          return {
+            ...base,
+            fee: quote.fee,
+            expectedDeliveryAt: quote.expectedDeliveryAt ?? null,
+            error: null,
+          };
+        } catch (error) {
+          return {
+            ...base,
+            fee: null,
+            expectedDeliveryAt: null,
+            error: error.message,
+          };
+        }
+      }),
+    );
+  }
+
+  async book(
+    orderId: string,
+    dto: BookShipmentDto,
+  ): Promise<ShipmentResponseDto> {
+    const order = await this.findOrder(orderId);
+    const context = this.buildContext(order);
+    const delivery = order.orderDelivery!;
+
+    if (order.status !== OrderStatus.confirmed) {
+      throw new BadRequestException(
+        'Chỉ tạo vận đơn cho đơn hàng đã xác nhận và chưa giao',
+      );
+    }
+    if (
+      delivery.carrierOrderCode &&
+      delivery.status !== DeliveryStatus.cancelled
+    ) {
+      throw new BadRequestException(
+        `Đơn hàng đã có vận đơn ${delivery.carrierOrderCode}`,
+      );
+    }
+
+    const partner = await this.prisma.partnerDelivery.findUnique({
+      where: { id: dto.partnerDeliveryId },
+    });
+    if (!partner || !partner.isActive) {
+      throw new NotFoundException('Đối tác vận chuyển không tồn tại');
+    }
+    if (!partner.carrier) {
+      throw new BadRequestException(
+        `Đối tác ${partner.name} chưa tích hợp API, hãy giao thủ công`,
+      );
+    }
+
+    const items: CarrierShipmentItem[] = order.orderDetails.map((detail) => ({
+      name: detail.product.name,
+      code: detail.product.code,
+      quantity: detail.quantity,
+      price: Number(detail.price),
+    }));
+
+    const shipment = await this.carrierRegistry
+      .get(partner.carrier)
+      .createShipment({
+        ...context,
+        orderCode: order.code,
+        items,
+        note: dto.note,
+      });
+
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.orderDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          partnerDeliveryId: partner.id,
+          carrierOrderCode: shipment.carrierOrderCode,
+          status: DeliveryStatus.booked,
+          carrierStatus: null,
+          bookedAt: now,
+          lastEventAt: null,
+          expectedDeliveryAt: shipment.expectedDeliveryAt ?? null,
+          codAmount: context.codAmount,
+          codCollected: null,
+          codReconciledAt: null,
+          codMismatch: false,
+        },
+      }),
+      this.prisma.order.update({
+        where: { id: orderId },
+        data: {
+          trackingNumber: shipment.carrierOrderCode,
+          estimatedDelivery: shipment.expectedDeliveryAt,
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Order ${order.code} booked with ${partner.carrier} as ${shipment.carrierOrderCode}, carrier fee ${shipment.fee}`,
+    );
+
+    return this.findByOrder(orderId);
+  }
+
+  async cancel(orderId: string): Promise<ShipmentResponseDto> {
+    const { delivery, carrier } = await this.findShipment(orderId);
+    if (FINAL_DELIVERY_STATUSES.includes(delivery.status)) {
+      throw new BadRequestException('Vận đơn đã kết thúc, không thể hủy');
+    }
+
+    await this.carrierRegistry
+      .get(carrier)
+      .cancelShipment(delivery.carrierOrderCode);
+
+    await this.prisma.$transaction([
+      this.prisma.orderDelivery.update({
+        where: { id: delivery.id },
+        data: { status: DeliveryStatus.cancelled, lastEventAt: new Date() },
+      }),
+      this.prisma.order.update({
+        where: { id: orderId },
+        data: { trackingNumber: null, estimatedDelivery: null },
+      }),
+    ]);
+
+    this.logger.log(`Shipment ${delivery.carrierOrderCode} cancelled`);
+
+    return this.findByOrder(orderId);
+  }
+
+  /**
+   * Pull the carrier's history and apply anything the webhooks missed
+   */
+  async track(orderId: string): Promise<ShipmentResponseDto> {
+    const { delivery, carrier } = await this.findShipment(orderId);
+
+    const tracking = await this.carrierRegistry
+      .get(carrier)
+      .track(delivery.carrierOrderCode);
+
+    for (const event of tracking.events) {
+      await this.applyEvent(carrier, delivery.carrierOrderCode, event);
+    }
+
+    if (tracking.expectedDeliveryAt) {
+      await this.prisma.orderDelivery.update({
+        where: { id: delivery.id },
+        data: { expectedDeliveryAt: tracking.expectedDeliveryAt },
+      });
+    }
+
+    return this.findByOrder(orderId);
+  }
+
+  async label(orderId: string): Promise<ShipmentLabelResponseDto> {
+    const { delivery, carrier } = await this.findShipment(orderId);
+
+    const url = await this.carrierRegistry
+      .get(carrier)
+      .getLabelUrl(delivery.carrierOrderCode);
+
+    return { url };
+  }
+
+  async handleWebhook(
+    carrier: DeliveryCarrier,
+    input: CarrierWebhookInput,
+  ): Promise<{
+    outcome: DeliveryEventOutcome;
+    carrierOrderCode: string;
+    status: DeliveryStatus;
+  }> {
+    const event = this.carrierRegistry.get(carrier).parseWebhook(input);
+
+    const outcome = await this.applyEvent(
+      carrier,
+      event.carrierOrderCode,
+      event,
+    );
+
+    return {
+      outcome,
+      carrierOrderCode: event.carrierOrderCode,
+      status: event.status,
+    };
+  }
+
+  /**
+   * Record a carrier status change once, move the shipment if it is the
+   * newest one, settle COD on delivery and then advance the order
+   */
+  private async applyEvent(
+    carrier: DeliveryCarrier,
+    carrierOrderCode: string,
+    event: CarrierTrackingEvent & {
+      codAmount?: number;
+      raw?: Record<string, any>;
+    },
+  ): Promise<DeliveryEventOutcome> {
+    const eventKey = DeliveryStatusHelper.eventKey(
+      carrier,
+      carrierOrderCode,
+      event.carrierStatus,
+      event.occurredAt,
+    );
+
+    let result: { outcome: DeliveryEventOutcome; orderId?: string };
+    try {
+      result = await this.prisma.$transaction(async (tx) => {
+        const delivery = await tx.orderDelivery.findUnique({
+          where: { carrierOrderCode },
+          include: { partnerDelivery: true },
+        });
+        if (!delivery || delivery.partnerDelivery?.carrier !== carrier) {
+          this.logger.warn(`No ${carrier} shipment ${carrierOrderCode}`);
+          return { outcome: 'not_found' };
+        }
+
+        const seen = await tx.deliveryTrackingEvent.findUnique({
+          where: { eventKey },
+          select: { id: true },
+        });
+        if (seen) {
+          return { outcome: 'duplicate' };
+        }
+
+        await tx.deliveryTrackingEvent.create({
+          data: {
+            eventKey,
+            carrierStatus: event.carrierStatus,
+            status: event.status,
+            description: event.description,
+            codAmount: event.codAmount,
+            occurredAt: event.occurredAt,
+            raw: event.raw,
+            orderDeliveryId: delivery.id,
+          },
+        });
+
+        // Logged for history, but an older event must not roll status back
+        if (
+          !DeliveryStatusHelper.isNewer(event.occurredAt, delivery.lastEventAt)
+        ) {
+          return { outcome: 'stale' };
+        }
+
+        await tx.orderDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: event.status,
+            carrierStatus: event.carrierStatus,
+            lastEventAt: event.occurredAt,
+          },
+        });
+
+        if (
+          event.status === DeliveryStatus.delivered &&
+          event.codAmount !== undefined &&
+          !delivery.codReconciledAt
+        ) {
+          await this.reconcileCod(tx, delivery, event.codAmount);
+        }
+
+        return { outcome: 'processed', orderId: delivery.orderId };
+      });
+    } catch (error) {
+      // A concurrent redelivery of the same event won the insert
+      if (error.code === 'P2002') {
+        return 'duplicate';
+      }
+      throw error;
+    }
+
+    if (result.orderId) {
+      await this.advanceOrder(result.orderId, event.status, event.occurredAt);
+    }
+
+    return result.outcome;
+  }
+
+  /**
+   * Match the cash the carrier collected against the order's COD payment.
+   * A match settles the payment as if it had been paid online; a mismatch
+   * is flagged for finance and the payment stays open.
+   */
+  private async reconcileCod(
+    tx: PrismaTx,
+    delivery: { id: string; orderId: string; carrierOrderCode: string | null },
+    collected: number,
+  ): Promise<void> {
+    const orderPayment = await tx.orderPayment.findFirst({
+      where: {
+        orderId: delivery.orderId,
+        method: PaymentMethod.cash,
+        status: PaymentStatus.processing,
+      },
+      include: { payment: true },
+    });
+    const expected = orderPayment ? Number(orderPayment.amount) : 0;
+
+    if (!DeliveryStatusHelper.codMatches(expected, collected)) {
+      await tx.orderDelivery.update({
+        where: { id: delivery.id },
+        data: { codCollected: collected, codMismatch: true },
+      });
+      this.logger.warn(
+        `COD mismatch on ${delivery.carrierOrderCode}: expected ${expected}, carrier collected ${collected}`,
+      );
+      return;
+    }
+
+    const now = new Date();
+    await tx.orderDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        codCollected: collected,
+        codMismatch: false,
+        codReconciledAt: now,
+      },
+    });
+
+    // Prepaid orders ship with no COD, so there is nothing to settle
+    if (!orderPayment) return;
+
+    await tx.orderPayment.update({
+      where: { id: orderPayment.id },
+      data: { status: PaymentStatus.paid },
+    });
+    await tx.order.update({
+      where: { id: delivery.orderId },
+      data: { paymentStatus: PaymentStatus.paid, paidAt: now },
+    });
+
+    const payment = orderPayment.payment;
+    if (payment && payment.status !== PaymentProcessingStatus.succeeded) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentProcessingStatus.succeeded,
+          succeededAt: now,
+          providerRef: delivery.carrierOrderCode,
+        },
+      });
+      await CashflowHelper.recordPaymentReceipt(tx, payment.id);
+    }
+
+    await CheckoutHelper.commitInventoryOnPaymentSuccess(delivery.orderId, tx);
+
+    this.logger.log(
+      `COD ${collected} reconciled for order ${delivery.orderId} via ${delivery.carrierOrderCode}`,
+    );
+  }
+
+  /**
+   * Run the order transitions a shipment status implies. A transition the
+   * order no longer allows is logged and left for the back office.
+   */
+  private async advanceOrder(
+    orderId: string,
+    deliveryStatus: DeliveryStatus,
+    occurredAt: Date,
+  ): Promise<void> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true, paymentStatus: true },
+    });
+    if (!order) return;
+
+    for (const transition of DeliveryStatusHelper.orderTransitions(
+      deliveryStatus,
+      order,
+    )) {
+      try {
+        await this.ordersService.transition(
+          orderId,
+          transition,
+          {
+            note: 'Cập nhật tự động từ đơn vị vận chuyển',
+            ...(transition === 'deliver' && {
+              deliveredAt: occurredAt.toISOString(),
+            }),
+          },
+          null,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Order ${orderId} could not ${transition} after carrier ${deliveryStatus}: ${error.message}`,
+        );
+        return;
+      }
+    }
+  }
+
+  private async findOrder(orderId: string): Promise<ShipmentOrder> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: SHIPMENT_ORDER_INCLUDE,
+    });
+    if (!order) {
+      throw new NotFoundException('Đơn hàng không tồn tại');
+    }
+
+    return order;
+  }
+
+  private async findShipment(orderId: string) {
+    const delivery = await this.prisma.orderDelivery.findUnique({
+      where: { orderId },
+      include: { partnerDelivery: true },
+    });
+    if (!delivery?.carrierOrderCode || !delivery.partnerDelivery?.carrier) {
+      throw new BadRequestException('Đơn hàng chưa có vận đơn');
+    }
+
+    return {
+      delivery: { ...delivery, carrierOrderCode: delivery.carrierOrderCode },
+      carrier: delivery.partnerDelivery.carrier,
+    };
+  }
+
+  private buildContext(order: ShipmentOrder): CarrierQuoteContext {
+    const delivery = order.orderDelivery;
+    if (!delivery || delivery.type !== DeliveryType.ShipCOD) {
+      throw new BadRequestException(
+        'Đơn hàng nhận tại kho, không cần đơn vị vận chuyển',
+      );
+    }
+    if (!delivery.province || !delivery.district) {
+      throw new BadRequestException(
+        'Địa chỉ nhận hàng thiếu tỉnh/thành phố hoặc quận/huyện',
+      );
+    }
+
+    const origin = order.warehouse.address;
+    if (!origin?.district) {
+      throw new BadRequestException(
+        `Kho ${order.warehouse.name} chưa có địa chỉ lấy hàng đầy đủ`,
+      );
+    }
+
+    const parcel = ShippingFeeHelper.parcel(
+      order.orderDetails.map((detail) => ({
+        quantity: detail.quantity,
+        weight: detail.product.weight,
+        dimensions: detail.product.dimensions,
+      })),
+    );
+
+    return {
+      from: {
+        name: order.warehouse.name,
+        phone: origin.phone,
+        address: origin.street,
+        ward: origin.ward,
+        district: origin.district,
+        province: origin.state || origin.city,
+      },
+      to: {
+        name: delivery.receiver,
+        phone: delivery.contactNumber,
+        address: delivery.address,
+        ward: delivery.ward,
+        district: delivery.district,
+        province: delivery.province,
+      },
+      parcel: {
+        weight: delivery.weight ?? parcel.chargeableWeight,
+        length: delivery.length,
+        width: delivery.width,
+        height: delivery.height,
+      },
+      // Unpaid COD orders are collected by the carrier in full
+      codAmount:
+        order.usingCod && order.paymentStatus !== PaymentStatus.paid
+          ? Number(order.total)
+          : 0,
+      insuranceValue: Number(order.subtotal),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  DeliveryCarrier,
+  DeliveryStatus,
+  OrderStatus,
+  PaymentStatus,
+} from '@prisma/client';
+import { DeliveryStatusHelper } from './delivery-status.helper';
+
+describe('DeliveryStatusHelper', () => {
+  describe('orderTransitions', () => {
+    const order = (
+      status: OrderStatus,
+      paymentStatus: PaymentStatus = PaymentStatus.processing,
+    ) => ({ status, paymentStatus });
+
+    it('ships a confirmed order once the carrier picks it up', () => {
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.picked_up,
+          order(OrderStatus.confirmed),
+        ),
+      ).toEqual(['ship']);
+    });
+
+    it('leaves orders alone while the shipment is only booked', () => {
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.booked,
+          order(OrderStatus.confirmed),
+        ),
+      ).toEqual([]);
+    });
+
+    it('catches up on missed steps when the delivery arrives first', () => {
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.delivered,
+          order(OrderStatus.confirmed),
+        ),
+      ).toEqual(['ship', 'deliver']);
+    });
+
+    it('completes a delivered order only once it is paid', () => {
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.delivered,
+          order(OrderStatus.delivering, PaymentStatus.paid),
+        ),
+      ).toEqual(['deliver', 'complete']);
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.delivered,
+          order(OrderStatus.shipped, PaymentStatus.paid),
+        ),
+      ).toEqual(['complete']);
+    });
+
+    it('never moves cancelled or completed orders', () => {
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.delivered,
+          order(OrderStatus.cancelled),
+        ),
+      ).toEqual([]);
+      expect(
+        DeliveryStatusHelper.orderTransitions(
+          DeliveryStatus.in_transit,
+          order(OrderStatus.completed, PaymentStatus.paid),
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('isNewer', () => {
+    it('accepts the first event and anything not older than the last', () => {
+      const last = new Date('2026-10-19T08:00:00Z');
+
+      expect(DeliveryStatusHelper.isNewer(last, null)).toBe(true);
+      expect(DeliveryStatusHelper.isNewer(last, last)).toBe(true);
+      expect(
+        DeliveryStatusHelper.isNewer(new Date('2026-10-18T10:00:00Z'), last),
+      ).toBe(false);
+    });
+  });
+
+  describe('codMatches', () => {
+    it('tolerates sub-dong rounding only', () => {
+      expect(DeliveryStatusHelper.codMatches(480000, 480000.4)).toBe(true);
+      expect(DeliveryStatusHelper.codMatches(480000, 470000)).toBe(false);
+    });
+  });
+
+  it('builds the same event key for webhook and tracking sources', () => {
+    expect(
+      DeliveryStatusHelper.eventKey(
+        DeliveryCarrier.ghn,
+        'GHN8X2K9',
+        'delivered',
+        new Date('2026-10-20T09:30:00Z'),
+      ),
+    ).toBe('ghn:GHN8X2K9:delivered:2026-10-20T09:30:00.000Z');
+  });
+});
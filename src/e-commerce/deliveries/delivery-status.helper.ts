@@ -0,0 +1,88 @@
+import {
+  DeliveryCarrier,
+  DeliveryStatus,
+  OrderStatus,
+  PaymentStatus,
+} from '@prisma/client';
+import {
+  ORDER_TRANSITIONS,
+  OrderTransition,
+  OrderTransitionRule,
+} from '../orders/order-fulfilment.helper';
+
+// Statuses meaning the parcel has left the warehouse with the carrier
+const IN_CARRIER_HANDS: DeliveryStatus[] = [
+  DeliveryStatus.picked_up,
+  DeliveryStatus.in_transit,
+  DeliveryStatus.failed,
+  DeliveryStatus.delivered,
+];
+
+// Shipments that can no longer change at the carrier
+export const FINAL_DELIVERY_STATUSES: DeliveryStatus[] = [
+  DeliveryStatus.delivered,
+  DeliveryStatus.returned,
+  DeliveryStatus.cancelled,
+];
+
+// VND amounts are whole numbers; anything under 1đ is rounding
+const COD_TOLERANCE = 1;
+
+export class DeliveryStatusHelper {
+  /**
+   * Same key for a status change whether it arrives by webhook or tracking
+   * sync, so each one is stored once
+   */
+  static eventKey(
+    carrier: DeliveryCarrier,
+    carrierOrderCode: string,
+    carrierStatus: string,
+    occurredAt: Date,
+  ): string {
+    return `${carrier}:${carrierOrderCode}:${carrierStatus}:${occurredAt.toISOString()}`;
+  }
+
+  /**
+   * Carriers retry and reorder callbacks; only the newest one sets the status
+   */
+  static isNewer(occurredAt: Date, lastEventAt: Date | null): boolean {
+    return !lastEventAt || occurredAt.getTime() >= lastEventAt.getTime();
+  }
+
+  static codMatches(expected: number, collected: number): boolean {
+    return Math.abs(expected - collected) < COD_TOLERANCE;
+  }
+
+  /**
+   * Order transitions a shipment status implies, in the order they must run.
+   * Delivering is reached once the carrier has the parcel, shipped once it
+   * is delivered, and completed only when the order has also been paid.
+   */
+  static orderTransitions(
+    deliveryStatus: DeliveryStatus,
+    order: { status: OrderStatus; paymentStatus: PaymentStatus },
+  ): OrderTransition[] {
+    const steps: OrderTransition[] = [];
+    let status = order.status;
+
+    const advance = (transition: OrderTransition) => {
+      const rule: OrderTransitionRule = ORDER_TRANSITIONS[transition];
+      if (!rule.from.includes(status)) return;
+
+      steps.push(transition);
+      status = rule.to;
+    };
+
+    if (IN_CARRIER_HANDS.includes(deliveryStatus)) {
+      advance('ship');
+    }
+    if (deliveryStatus === DeliveryStatus.delivered) {
+      advance('deliver');
+      if (order.paymentStatus === PaymentStatus.paid) {
+        advance('complete');
+      }
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeliveryCarrier } from '@prisma/client';
+import { Public } from '../../common/decorators/public.decorator';
+import { DeliveriesService } from './deliveries.service';
+
+@ApiTags('Delivery Webhooks')
+@Controller('deliveries/webhooks')
+export class DeliveryWebhooksController {
+  private readonly logger = new Logger(DeliveryWebhooksController.name);
+
+  constructor(private readonly deliveriesService: DeliveriesService) {}
+
+  @Public()
+  @Post(':carrier')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Carrier status webhook',
+    description:
+      'Handle shipment status callbacks; redeliveries and out-of-order events are recorded without moving the shipment back',
+  })
+  @ApiResponse({ status: 200, description: 'Webhook processed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - unknown carrier, invalid token or payload',
+  })
+  async handleWebhook(
+    @Param('carrier', new ParseEnumPipe(DeliveryCarrier))
+    carrier: DeliveryCarrier,
+    @Body() body: any,
+    @Query() query: Record<string, string>,
+    @Headers() headers: Record<string, string>,
+  ) {
+    const result = await this.deliveriesService.handleWebhook(carrier, {
+      headers,
+      query,
+      body,
+    });
+
+    this.logger.log(
+      `${carrier} webhook for ${result.carrierOrderCode} (${result.status}) ${result.outcome}`,
+    );
+
+    // Unknown shipments are acknowledged too, a retry would not find them
+    return { success: true, ...result };
+  }
+}
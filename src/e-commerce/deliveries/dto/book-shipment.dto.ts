@@ -0,0 +1,15 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class BookShipmentDto {
+  @ApiProperty({ description: 'Đối tác vận chuyển có tích hợp API' })
+  @IsString()
+  @IsNotEmpty()
+  partnerDeliveryId: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú cho đơn vị vận chuyển' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
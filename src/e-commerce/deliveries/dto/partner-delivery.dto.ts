@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryCarrier } from '@prisma/client';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+
+export class UpdatePartnerDeliveryDto {
+  @ApiPropertyOptional({
+    enum: DeliveryCarrier,
+    nullable: true,
+    description: 'Tích hợp API đơn vị vận chuyển (null: giao thủ công)',
+  })
+  @IsOptional()
+  @IsEnum(DeliveryCarrier)
+  carrier?: DeliveryCarrier | null;
+
+  @ApiPropertyOptional({ description: 'Đang sử dụng' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,162 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  DeliveryCarrier,
+  DeliveryStatus,
+  DeliveryTrackingEvent,
+  OrderDelivery,
+  PartnerDelivery,
+} from '@prisma/client';
+
+export class PartnerDeliveryResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã đối tác' })
+  code: string;
+
+  @ApiProperty({ description: 'Tên đối tác' })
+  name: string;
+
+  @ApiPropertyOptional({ enum: DeliveryCarrier, description: 'Tích hợp API' })
+  carrier: DeliveryCarrier | null;
+
+  @ApiProperty({ description: 'Đang sử dụng' })
+  isActive: boolean;
+
+  static fromPartner(partner: PartnerDelivery): PartnerDeliveryResponseDto {
+    return {
+      id: partner.id,
+      code: partner.code,
+      name: partner.name,
+      carrier: partner.carrier,
+      isActive: partner.isActive,
+    };
+  }
+}
+
+export class DeliveryTrackingEventDto {
+  @ApiProperty({ description: 'Trạng thái gốc từ đơn vị vận chuyển' })
+  carrierStatus: string;
+
+  @ApiProperty({ enum: DeliveryStatus, description: 'Trạng thái chuẩn hóa' })
+  status: DeliveryStatus;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description: string | null;
+
+  @ApiPropertyOptional({ description: 'Tiền thu hộ kèm sự kiện' })
+  codAmount: number | null;
+
+  @ApiProperty({ description: 'Thời điểm phát sinh' })
+  occurredAt: Date;
+
+  static fromEvent(event: DeliveryTrackingEvent): DeliveryTrackingEventDto {
+    return {
+      carrierStatus: event.carrierStatus,
+      status: event.status,
+      description: event.description,
+      codAmount: event.codAmount !== null ? Number(event.codAmount) : null,
+      occurredAt: event.occurredAt,
+    };
+  }
+}
+
+export class ShipmentResponseDto {
+  @ApiProperty({ description: 'ID đơn hàng' })
+  orderId: string;
+
+  @ApiPropertyOptional({ description: 'Đối tác vận chuyển' })
+  partnerDeliveryId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên đối tác vận chuyển' })
+  partnerName: string | null;
+
+  @ApiPropertyOptional({ enum: DeliveryCarrier })
+  carrier: DeliveryCarrier | null;
+
+  @ApiPropertyOptional({ description: 'Mã vận đơn' })
+  carrierOrderCode: string | null;
+
+  @ApiProperty({ enum: DeliveryStatus, description: 'Trạng thái vận đơn' })
+  status: DeliveryStatus;
+
+  @ApiPropertyOptional({ description: 'Trạng thái gốc từ đơn vị vận chuyển' })
+  carrierStatus: string | null;
+
+  @ApiPropertyOptional({ description: 'Phí vận chuyển' })
+  fee: number | null;
+
+  @ApiPropertyOptional({ description: 'Thời gian giao dự kiến' })
+  expectedDeliveryAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm tạo vận đơn' })
+  bookedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Tiền thu hộ yêu cầu' })
+  codAmount: number | null;
+
+  @ApiPropertyOptional({ description: 'Tiền thu hộ đã thu' })
+  codCollected: number | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm đối soát thu hộ' })
+  codReconciledAt: Date | null;
+
+  @ApiProperty({ description: 'Tiền thu hộ lệch so với thanh toán' })
+  codMismatch: boolean;
+
+  @ApiProperty({ type: [DeliveryTrackingEventDto] })
+  events: DeliveryTrackingEventDto[];
+
+  static fromDelivery(
+    delivery: OrderDelivery & {
+      partnerDelivery: PartnerDelivery | null;
+      trackingEvents: DeliveryTrackingEvent[];
+    },
+  ): ShipmentResponseDto {
+    const amount = (value: OrderDelivery['price']) =>
+      value !== null ? Number(value) : null;
+
+    return {
+      orderId: delivery.orderId,
+      partnerDeliveryId: delivery.partnerDeliveryId,
+      partnerName: delivery.partnerDelivery?.name ?? null,
+      carrier: delivery.partnerDelivery?.carrier ?? null,
+      carrierOrderCode: delivery.carrierOrderCode,
+      status: delivery.status,
+      carrierStatus: delivery.carrierStatus,
+      fee: amount(delivery.price),
+      expectedDeliveryAt: delivery.expectedDeliveryAt,
+      bookedAt: delivery.bookedAt,
+      codAmount: amount(delivery.codAmount),
+      codCollected: amount(delivery.codCollected),
+      codReconciledAt: delivery.codReconciledAt,
+      codMismatch: delivery.codMismatch,
+      events: delivery.trackingEvents.map(DeliveryTrackingEventDto.fromEvent),
+    };
+  }
+}
+
+export class CarrierQuoteResponseDto {
+  @ApiProperty({ description: 'Đối tác vận chuyển' })
+  partnerDeliveryId: string;
+
+  @ApiProperty({ description: 'Tên đối tác vận chuyển' })
+  partnerName: string;
+
+  @ApiProperty({ enum: DeliveryCarrier })
+  carrier: DeliveryCarrier;
+
+  @ApiPropertyOptional({ description: 'Phí vận chuyển' })
+  fee: number | null;
+
+  @ApiPropertyOptional({ description: 'Thời gian giao dự kiến' })
+  expectedDeliveryAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Lỗi báo giá từ đơn vị vận chuyển' })
+  error: string | null;
+}
+
+export class ShipmentLabelResponseDto {
+  @ApiProperty({ description: 'Đường dẫn in nhãn vận đơn' })
+  url: string;
+}
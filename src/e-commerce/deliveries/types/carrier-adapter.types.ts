@@ -0,0 +1,103 @@
+import { DeliveryCarrier, DeliveryStatus } from '@prisma/client';
+
+// Sender or receiver of a parcel, with names as the carrier expects them
+export interface CarrierAddress {
+  name: string;
+  phone: string;
+  address: string;
+  ward?: string | null;
+  district: string;
+  province: string;
+}
+
+// Parcel size: kg and cm
+export interface CarrierParcel {
+  weight: number;
+  length?: number | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+// Everything a carrier needs to price a parcel
+export interface CarrierQuoteContext {
+  from: CarrierAddress;
+  to: CarrierAddress;
+  parcel: CarrierParcel;
+  codAmount: number; // Cash the carrier collects from the receiver
+  insuranceValue: number; // Declared goods value
+}
+
+export interface CarrierQuoteResult {
+  fee: number;
+  expectedDeliveryAt?: Date;
+}
+
+export interface CarrierShipmentItem {
+  name: string;
+  code?: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface CarrierShipmentContext extends CarrierQuoteContext {
+  orderCode: string; // Our order code, echoed back by the carrier
+  items: CarrierShipmentItem[];
+  note?: string;
+}
+
+export interface CarrierShipmentResult {
+  carrierOrderCode: string;
+  fee: number;
+  expectedDeliveryAt?: Date;
+  raw: Record<string, any>;
+}
+
+// One status change as reported by the carrier
+export interface CarrierTrackingEvent {
+  carrierStatus: string;
+  status: DeliveryStatus;
+  occurredAt: Date;
+  description?: string;
+}
+
+export interface CarrierTrackingResult {
+  carrierOrderCode: string;
+  carrierStatus: string;
+  status: DeliveryStatus;
+  codAmount?: number;
+  expectedDeliveryAt?: Date;
+  events: CarrierTrackingEvent[]; // Oldest first
+}
+
+// Inbound carrier callback as received by the webhook controller
+export interface CarrierWebhookInput {
+  headers: Record<string, any>;
+  query?: Record<string, any>;
+  body: any;
+}
+
+// Carrier callback mapped onto our delivery model
+export interface CarrierWebhookEvent extends CarrierTrackingEvent {
+  carrierOrderCode: string;
+  codAmount?: number; // Cash collected, on delivery callbacks
+  raw: Record<string, any>;
+}
+
+/**
+ * Contract every carrier integration implements.
+ *
+ * Adapters only talk to their carrier API; delivery, order and payment side
+ * effects stay in DeliveriesService.
+ */
+export interface CarrierAdapter {
+  readonly carrier: DeliveryCarrier;
+
+  quote(context: CarrierQuoteContext): Promise<CarrierQuoteResult>;
+  createShipment(
+    context: CarrierShipmentContext,
+  ): Promise<CarrierShipmentResult>;
+  cancelShipment(carrierOrderCode: string): Promise<void>;
+  track(carrierOrderCode: string): Promise<CarrierTrackingResult>;
+  getLabelUrl(carrierOrderCode: string): Promise<string>;
+  parseWebhook(input: CarrierWebhookInput): CarrierWebhookEvent;
+}
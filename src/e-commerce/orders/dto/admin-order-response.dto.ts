@@ -0,0 +1,245 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  Customer,
+  Order,
+  OrderDelivery,
+  OrderDetail,
+  OrderStatus,
+  OrderStatusHistory,
+  PaymentStatus,
+  Product,
+  User,
+  Warehouse,
+} from '@prisma/client';
+
+export class AdminOrderItemDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiPropertyOptional({ description: 'Tên sản phẩm' })
+  productName: string | null;
+
+  @ApiPropertyOptional({ description: 'Mã sản phẩm' })
+  productCode: string | null;
+
+  @ApiProperty({ description: 'Số lượng' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Đơn giá' })
+  price: number;
+
+  @ApiProperty({ description: 'Giảm giá' })
+  discount: number;
+}
+
+export class OrderStatusHistoryDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ enum: OrderStatus, description: 'Trạng thái trước' })
+  fromStatus: OrderStatus;
+
+  @ApiProperty({ enum: OrderStatus, description: 'Trạng thái sau' })
+  toStatus: OrderStatus;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  note: string | null;
+
+  @ApiPropertyOptional({ description: 'Người thực hiện' })
+  changedById: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên người thực hiện' })
+  changedByName: string | null;
+
+  @ApiProperty({ description: 'Thời điểm' })
+  createdAt: Date;
+
+  static fromHistory(
+    history: OrderStatusHistory & {
+      changedBy?: Pick<User, 'fullName'> | null;
+    },
+  ): OrderStatusHistoryDto {
+    return {
+      id: history.id,
+      fromStatus: history.fromStatus,
+      toStatus: history.toStatus,
+      note: history.note,
+      changedById: history.changedById,
+      changedByName: history.changedBy?.fullName ?? null,
+      createdAt: history.createdAt,
+    };
+  }
+}
+
+export class AdminOrderResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã đơn hàng' })
+  code: string;
+
+  @ApiProperty({ enum: OrderStatus, description: 'Trạng thái' })
+  status: OrderStatus;
+
+  @ApiProperty({ enum: PaymentStatus, description: 'Trạng thái thanh toán' })
+  paymentStatus: PaymentStatus;
+
+  @ApiProperty({ description: 'Thanh toán khi nhận hàng' })
+  usingCod: boolean;
+
+  @ApiProperty({ description: 'Khách hàng' })
+  customerId: string;
+
+  @ApiPropertyOptional({ description: 'Tên khách hàng' })
+  customerName: string | null;
+
+  @ApiPropertyOptional({ description: 'Số điện thoại khách hàng' })
+  customerPhone: string | null;
+
+  @ApiProperty({ description: 'Kho xuất hàng' })
+  warehouseId: string;
+
+  @ApiPropertyOptional({ description: 'Tên kho' })
+  warehouseName: string | null;
+
+  @ApiProperty({ description: 'Tạm tính' })
+  subtotal: number;
+
+  @ApiProperty({ description: 'Phí vận chuyển' })
+  shippingFee: number;
+
+  @ApiProperty({ description: 'Giảm giá' })
+  discount: number;
+
+  @ApiProperty({ description: 'Tổng tiền' })
+  total: number;
+
+  @ApiPropertyOptional({ description: 'Người nhận' })
+  receiver: string | null;
+
+  @ApiPropertyOptional({ description: 'Số điện thoại người nhận' })
+  receiverPhone: string | null;
+
+  @ApiPropertyOptional({ description: 'Địa chỉ giao hàng' })
+  address: string | null;
+
+  @ApiPropertyOptional({ description: 'Mã vận đơn' })
+  trackingNumber: string | null;
+
+  @ApiPropertyOptional({ description: 'Ngày giao dự kiến' })
+  estimatedDelivery: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày đóng gói' })
+  packedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày giao thực tế' })
+  deliveredAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày thanh toán' })
+  paidAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày hoàn thành' })
+  completedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày hủy' })
+  cancelledAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ghi chú của khách hàng' })
+  customerNote: string | null;
+
+  @ApiPropertyOptional({ description: 'Ghi chú nội bộ' })
+  adminNote: string | null;
+
+  @ApiProperty({ description: 'Ngày đặt hàng' })
+  purchaseDate: Date;
+
+  @ApiPropertyOptional({ type: [AdminOrderItemDto] })
+  items?: AdminOrderItemDto[];
+
+  @ApiPropertyOptional({ type: [OrderStatusHistoryDto] })
+  history?: OrderStatusHistoryDto[];
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Ngày cập nhật' })
+  updatedAt: Date;
+
+  static fromOrder(
+    order: Order & {
+      customer?: Pick<Customer, 'name' | 'contactNumber'> | null;
+      warehouse?: Pick<Warehouse, 'name'> | null;
+      orderDelivery?: Pick<
+        OrderDelivery,
+        'receiver' | 'contactNumber' | 'address'
+      > | null;
+      orderDetails?: (OrderDetail & {
+        product?: Pick<Product, 'name' | 'code'> | null;
+      })[];
+      statusHistories?: (OrderStatusHistory & {
+        changedBy?: Pick<User, 'fullName'> | null;
+      })[];
+    },
+  ): AdminOrderResponseDto {
+    return {
+      id: order.id,
+      code: order.code,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      usingCod: order.usingCod,
+      customerId: order.customerId,
+      customerName: order.customer?.name ?? null,
+      customerPhone: order.customer?.contactNumber ?? null,
+      warehouseId: order.warehouseId,
+      warehouseName: order.warehouse?.name ?? null,
+      subtotal: Number(order.subtotal),
+      shippingFee: Number(order.shippingFee),
+      discount: Number(order.discount),
+      total: Number(order.total),
+      receiver: order.orderDelivery?.receiver ?? null,
+      receiverPhone: order.orderDelivery?.contactNumber ?? null,
+      address: order.orderDelivery?.address ?? null,
+      trackingNumber: order.trackingNumber,
+      estimatedDelivery: order.estimatedDelivery,
+      packedAt: order.packedAt,
+      deliveredAt: order.deliveredAt,
+      paidAt: order.paidAt,
+      completedAt: order.completedAt,
+      cancelledAt: order.cancelledAt,
+      customerNote: order.customerNote,
+      adminNote: order.adminNote,
+      purchaseDate: order.purchaseDate,
+      items: order.orderDetails?.map((detail) => ({
+        id: detail.id,
+        productId: detail.productId,
+        productName: detail.product?.name ?? null,
+        productCode: detail.product?.code ?? null,
+        quantity: detail.quantity,
+        price: Number(detail.price),
+        discount: Number(detail.discount),
+      })),
+      history: order.statusHistories?.map((history) =>
+        OrderStatusHistoryDto.fromHistory(history),
+      ),
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+    };
+  }
+}
+
+export class PaginatedAdminOrderResponseDto {
+  @ApiProperty({ type: [AdminOrderResponseDto] })
+  data: AdminOrderResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
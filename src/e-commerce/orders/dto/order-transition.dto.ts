@@ -0,0 +1,46 @@
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class OrderTransitionDto {
+  @ApiPropertyOptional({ description: 'Ghi chú lưu vào lịch sử đơn hàng' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class ShipOrderDto extends OrderTransitionDto {
+  @ApiPropertyOptional({ description: 'Mã vận đơn' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  trackingNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Ngày giao hàng dự kiến' })
+  @IsOptional()
+  @IsDateString()
+  estimatedDelivery?: string;
+}
+
+export class DeliverOrderDto extends OrderTransitionDto {
+  @ApiPropertyOptional({
+    description: 'Thời điểm giao hàng thực tế (mặc định: bây giờ)',
+  })
+  @IsOptional()
+  @IsDateString()
+  deliveredAt?: string;
+}
+
+export class CancelOrderDto {
+  @ApiProperty({ description: 'Lý do hủy đơn' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,123 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
+import {
+  FulfilmentOrder,
+  OrderFulfilmentHelper,
+} from './order-fulfilment.helper';
+
+describe('OrderFulfilmentHelper', () => {
+  const now = new Date('2026-10-18T10:00:00Z');
+
+  const order = (overrides: Partial<FulfilmentOrder> = {}) => ({
+    status: OrderStatus.confirmed,
+    paymentStatus: PaymentStatus.paid,
+    usingCod: false,
+    packedAt: null,
+    ...overrides,
+  });
+
+  describe('assertTransition', () => {
+    it('only moves orders forward from the allowed statuses', () => {
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({ status: OrderStatus.draft }),
+          'confirm',
+        ),
+      ).not.toThrow();
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({ status: OrderStatus.draft }),
+          'ship',
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({ status: OrderStatus.completed }),
+          'cancel',
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('ships unpaid orders only when they are cash on delivery', () => {
+      const unpaid = { paymentStatus: PaymentStatus.processing };
+
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(order(unpaid), 'ship'),
+      ).toThrow('chỉ đơn COD mới được giao trước');
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({ ...unpaid, usingCod: true }),
+          'ship',
+        ),
+      ).not.toThrow();
+    });
+
+    it('completes only paid orders', () => {
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({
+            status: OrderStatus.shipped,
+            paymentStatus: PaymentStatus.processing,
+            usingCod: true,
+          }),
+          'complete',
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('sends paid orders to the refund flow instead of cancelling', () => {
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(order(), 'cancel'),
+      ).toThrow('hãy tạo yêu cầu hoàn tiền');
+    });
+
+    it('packs an order once', () => {
+      expect(() =>
+        OrderFulfilmentHelper.assertTransition(
+          order({ packedAt: now }),
+          'pack',
+        ),
+      ).toThrow('Đơn hàng đã được đóng gói');
+    });
+  });
+
+  describe('transitionData', () => {
+    it('stamps tracking details when shipping', () => {
+      expect(
+        OrderFulfilmentHelper.transitionData(
+          'ship',
+          { trackingNumber: 'GHN123', estimatedDelivery: '2026-10-21' },
+          { packedAt: null },
+          now,
+        ),
+      ).toEqual({
+        status: OrderStatus.delivering,
+        packedAt: now,
+        trackingNumber: 'GHN123',
+        estimatedDelivery: new Date('2026-10-21'),
+      });
+    });
+
+    it('keeps the status when packing', () => {
+      expect(
+        OrderFulfilmentHelper.transitionData(
+          'pack',
+          {},
+          { packedAt: null },
+          now,
+        ),
+      ).toEqual({ status: OrderStatus.confirmed, packedAt: now });
+    });
+
+    it('defaults the delivery time to now', () => {
+      expect(
+        OrderFulfilmentHelper.transitionData(
+          'deliver',
+          {},
+          { packedAt: now },
+          now,
+        ),
+      ).toEqual({ status: OrderStatus.shipped, deliveredAt: now });
+    });
+  });
+});
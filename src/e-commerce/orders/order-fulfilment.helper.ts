@@ -0,0 +1,192 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  NotificationAction,
+  OrderStatus,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+
+export interface OrderTransitionRule {
+  from: OrderStatus[];
+  to: OrderStatus;
+  action: NotificationAction;
+}
+
+// Back-office steps an order goes through. Packing is a step inside
+// `confirmed`, so it keeps the status and only stamps packedAt.
+export const ORDER_TRANSITIONS = {
+  confirm: {
+    from: [OrderStatus.draft],
+    to: OrderStatus.confirmed,
+    action: NotificationAction.order_confirmed,
+  },
+  pack: {
+    from: [OrderStatus.confirmed],
+    to: OrderStatus.confirmed,
+    action: NotificationAction.order_packed,
+  },
+  ship: {
+    from: [OrderStatus.confirmed],
+    to: OrderStatus.delivering,
+    action: NotificationAction.order_shipped,
+  },
+  deliver: {
+    from: [OrderStatus.delivering],
+    to: OrderStatus.shipped,
+    action: NotificationAction.order_delivered,
+  },
+  complete: {
+    from: [OrderStatus.shipped],
+    to: OrderStatus.completed,
+    action: NotificationAction.order_completed,
+  },
+  cancel: {
+    from: [OrderStatus.draft, OrderStatus.confirmed],
+    to: OrderStatus.cancelled,
+    action: NotificationAction.order_cancelled,
+  },
+} satisfies Record<string, OrderTransitionRule>;
+
+export type OrderTransition = keyof typeof ORDER_TRANSITIONS;
+
+export interface FulfilmentOrder {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  usingCod: boolean;
+  packedAt: Date | null;
+}
+
+export interface OrderTransitionInput {
+  trackingNumber?: string;
+  estimatedDelivery?: string;
+  deliveredAt?: string;
+}
+
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Phiếu tạm',
+  confirmed: 'Đã xác nhận',
+  delivering: 'Đang giao hàng',
+  shipped: 'Đã giao hàng',
+  completed: 'Hoàn thành',
+  cancelled: 'Đã hủy',
+  refunded: 'Đã hoàn tiền',
+};
+
+export class OrderFulfilmentHelper {
+  static statusLabel(status: OrderStatus): string {
+    return ORDER_STATUS_LABELS[status] ?? status;
+  }
+
+  /**
+   * Reject transitions the order's status or payment does not allow
+   */
+  static assertTransition(
+    order: FulfilmentOrder,
+    transition: OrderTransition,
+  ): void {
+    const rule: OrderTransitionRule = ORDER_TRANSITIONS[transition];
+    if (!rule.from.includes(order.status)) {
+      throw new BadRequestException(
+        `Không thể chuyển đơn hàng từ trạng thái ${this.statusLabel(order.status)} sang ${this.statusLabel(rule.to)}`,
+      );
+    }
+
+    const paid = order.paymentStatus === PaymentStatus.paid;
+
+    switch (transition) {
+      case 'pack':
+        if (order.packedAt) {
+          throw new BadRequestException('Đơn hàng đã được đóng gói');
+        }
+        break;
+      case 'ship':
+        if (!paid && !order.usingCod) {
+          throw new BadRequestException(
+            'Đơn hàng chưa thanh toán, chỉ đơn COD mới được giao trước',
+          );
+        }
+        break;
+      case 'complete':
+        if (!paid) {
+          throw new BadRequestException(
+            'Đơn hàng chưa được thanh toán, hãy xác nhận thu tiền trước khi hoàn thành',
+          );
+        }
+        break;
+      case 'cancel':
+        // Paid orders are cancelled through a refund so the money goes back
+        if (paid) {
+          throw new BadRequestException(
+            'Đơn hàng đã thanh toán, hãy tạo yêu cầu hoàn tiền thay vì hủy',
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Fields a transition writes on the order besides the status
+   */
+  static transitionData(
+    transition: OrderTransition,
+    input: OrderTransitionInput,
+    order: Pick<FulfilmentOrder, 'packedAt'>,
+    now: Date,
+  ): Prisma.OrderUpdateManyMutationInput {
+    const data: Prisma.OrderUpdateManyMutationInput = {
+      status: ORDER_TRANSITIONS[transition].to,
+    };
+
+    switch (transition) {
+      case 'pack':
+        data.packedAt = now;
+        break;
+      case 'ship':
+        // Shipping an order that skipped the packing step packs it implicitly
+        if (!order.packedAt) data.packedAt = now;
+        if (input.trackingNumber) data.trackingNumber = input.trackingNumber;
+        if (input.estimatedDelivery) {
+          data.estimatedDelivery = new Date(input.estimatedDelivery);
+        }
+        break;
+      case 'deliver':
+        data.deliveredAt = input.deliveredAt
+          ? new Date(input.deliveredAt)
+          : now;
+        break;
+      case 'complete':
+        data.completedAt = now;
+        break;
+      case 'cancel':
+        data.cancelledAt = now;
+        break;
+    }
+
+    return data;
+  }
+
+  static customerMessage(
+    transition: OrderTransition,
+    order: { code: string; trackingNumber?: string | null },
+    note?: string,
+  ): string {
+    switch (transition) {
+      case 'confirm':
+        return `Đơn hàng ${order.code} đã được xác nhận`;
+      case 'pack':
+        return `Đơn hàng ${order.code} đã được đóng gói và chờ giao cho đơn vị vận chuyển`;
+      case 'ship':
+        return order.trackingNumber
+          ? `Đơn hàng ${order.code} đang được giao, mã vận đơn ${order.trackingNumber}`
+          : `Đơn hàng ${order.code} đang được giao`;
+      case 'deliver':
+        return `Đơn hàng ${order.code} đã được giao thành công`;
+      case 'complete':
+        return `Đơn hàng ${order.code} đã hoàn thành, cảm ơn bạn đã mua sắm`;
+      case 'cancel':
+        return note
+          ? `Đơn hàng ${order.code} đã bị hủy: ${note}`
+          : `Đơn hàng ${order.code} đã bị hủy`;
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { OrdersService } from './orders.service';
+import { AdminOrderQueryDto } from './dto/admin-order-query.dto';
+import {
+  CancelOrderDto,
+  DeliverOrderDto,
+  OrderTransitionDto,
+  ShipOrderDto,
+} from './dto/order-transition.dto';
+import {
+  AdminOrderResponseDto,
+  PaginatedAdminOrderResponseDto,
+} from './dto/admin-order-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('admin/orders')
+export class OrdersAdminController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List orders by status, warehouse, payment status and date',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedAdminOrderResponseDto })
+  findAll(
+    @Query() query: AdminOrderQueryDto,
+  ): Promise<PaginatedAdminOrderResponseDto> {
+    return this.ordersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an order with its items and status history' })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  findOne(@Param('id') id: string): Promise<AdminOrderResponseDto> {
+    return this.ordersService.findOne(id);
+  }
+
+  @Post(':id/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a draft order' })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  confirm(
+    @Param('id') id: string,
+    @Body() dto: OrderTransitionDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(id, 'confirm', dto, user.id);
+  }
+
+  @Post(':id/pack')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a confirmed order as packed' })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  pack(
+    @Param('id') id: string,
+    @Body() dto: OrderTransitionDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(id, 'pack', dto, user.id);
+  }
+
+  @Post(':id/ship')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Hand an order to the carrier',
+    description: 'Unpaid orders can only ship when they are cash on delivery.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  ship(
+    @Param('id') id: string,
+    @Body() dto: ShipOrderDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(id, 'ship', dto, user.id);
+  }
+
+  @Post(':id/deliver')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Record that the buyer received the order' })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  deliver(
+    @Param('id') id: string,
+    @Body() dto: DeliverOrderDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(id, 'deliver', dto, user.id);
+  }
+
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a delivered and paid order' })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  complete(
+    @Param('id') id: string,
+    @Body() dto: OrderTransitionDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(id, 'complete', dto, user.id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel an unpaid order and release its stock',
+    description: 'Paid orders must be refunded instead.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: AdminOrderResponseDto })
+  cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelOrderDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<AdminOrderResponseDto> {
+    return this.ordersService.transition(
+      id,
+      'cancel',
+      { note: dto.reason },
+      user.id,
+    );
+  }
+}
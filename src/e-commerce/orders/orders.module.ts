@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { PaymentsModule } from '../payments/payments.module';
+import { NotificationModule } from '../../notifications/notification.module';
+import { OrdersAdminController } from './orders-admin.controller';
+import { OrdersService } from './orders.service';
+
+@Module({
+  imports: [PaymentsModule, NotificationModule],
+  controllers: [OrdersAdminController],
+  providers: [OrdersService, PrismaService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { NotificationHelperService } from '../../notifications/notification-helper.service';
+import { PaymentsGateway } from '../payments/payments.gateway';
+import { CommissionClawbackHelper } from '../payments/helpers/commission-clawback.helper';
+import { CheckoutHelper } from '../checkout/checkout.helper';
+import { VoucherHelper } from '../checkout/voucher.helper';
+import { AdminOrderQueryDto } from './dto/admin-order-query.dto';
+import {
+  AdminOrderResponseDto,
+  PaginatedAdminOrderResponseDto,
+} from './dto/admin-order-response.dto';
+import {
+  ORDER_TRANSITIONS,
+  OrderFulfilmentHelper,
+  OrderTransition,
+  OrderTransitionInput,
+} from './order-fulfilment.helper';
+
+const ORDER_LIST_INCLUDE = {
+  customer: { select: { name: true, contactNumber: true } },
+  warehouse: { select: { name: true } },
+  orderDelivery: {
+    select: { receiver: true, contactNumber: true, address: true },
+  },
+} satisfies Prisma.OrderInclude;
+
+const ORDER_DETAIL_INCLUDE = {
+  ...ORDER_LIST_INCLUDE,
+  orderDetails: {
+    include: { product: { select: { name: true, code: true } } },
+  },
+  statusHistories: {
+    include: { changedBy: { select: { fullName: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.OrderInclude;
+
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationHelper: NotificationHelperService,
+    private readonly paymentsGateway: PaymentsGateway,
+  ) {}
+
+  async findAll(
+    query: AdminOrderQueryDto,
+  ): Promise<PaginatedAdminOrderResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const where = this.buildWhere(query);
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        include: ORDER_LIST_INCLUDE,
+        orderBy: { purchaseDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      data: orders.map((order) => AdminOrderResponseDto.fromOrder(order)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<AdminOrderResponseDto> {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: ORDER_DETAIL_INCLUDE,
+    });
+    if (!order) {
+      throw new NotFoundException('Đơn hàng không tồn tại');
+    }
+
+    return AdminOrderResponseDto.fromOrder(order);
+  }
+
+  /**
+   * Move an order one step through fulfilment, record it in the status
+   * history and tell the buyer over websocket and notifications
+   */
+  async transition(
+    id: string,
+    transition: OrderTransition,
+    input: OrderTransitionInput & { note?: string },
+    adminId: string | null, // null when driven by a carrier update
+  ): Promise<AdminOrderResponseDto> {
+    const rule = ORDER_TRANSITIONS[transition];
+
+    const order = await this.prisma.$transaction(async (tx) => {
+      const current = await tx.order.findUnique({ where: { id } });
+      if (!current) {
+        throw new NotFoundException('Đơn hàng không tồn tại');
+      }
+      OrderFulfilmentHelper.assertTransition(current, transition);
+
+      // Guard on the status and payment we checked so a concurrent change
+      // (payment callback, buyer cancel) makes this a no-op instead
+      const { count } = await tx.order.updateMany({
+        where: {
+          id,
+          status: current.status,
+          paymentStatus: current.paymentStatus,
+          ...(transition === 'pack' && { packedAt: null }),
+        },
+        data: OrderFulfilmentHelper.transitionData(
+          transition,
+          input,
+          current,
+          new Date(),
+        ),
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Đơn hàng vừa được cập nhật bởi thao tác khác, vui lòng tải lại',
+        );
+      }
+
+      if (transition === 'cancel') {
+        // Unpaid orders still hold their checkout reservations
+        await CheckoutHelper.restoreInventoryOnPaymentFailure(id, tx);
+        await VoucherHelper.releaseVouchersForOrder(id, tx);
+        await CommissionClawbackHelper.reverseForOrder(
+          tx,
+          id,
+          'Order cancelled by admin',
+          adminId ?? undefined,
+        );
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: id,
+          fromStatus: current.status,
+          toStatus: rule.to,
+          note: input.note,
+          changedById: adminId,
+        },
+      });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: { customer: { select: { userId: true } } },
+      });
+    });
+
+    this.logger.log(
+      `Order ${order.code} ${transition}: -> ${order.status} by ${adminId ?? 'carrier'}`,
+    );
+
+    await this.publish(order, transition, input.note);
+
+    return this.findOne(id);
+  }
+
+  private async publish(
+    order: {
+      id: string;
+      code: string;
+      status: OrderStatus;
+      trackingNumber: string | null;
+      customer: { userId: string | null };
+    },
+    transition: OrderTransition,
+    note?: string,
+  ): Promise<void> {
+    const userId = order.customer.userId;
+    const message = OrderFulfilmentHelper.customerMessage(
+      transition,
+      order,
+      note,
+    );
+
+    try {
+      this.paymentsGateway.emitOrderStatusUpdate(
+        order.id,
+        userId,
+        order.status,
+        message,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to emit status of order ${order.id}: ${error.message}`,
+      );
+    }
+
+    if (!userId) return;
+
+    try {
+      await this.notificationHelper.createOrderNotification(
+        userId,
+        order.id,
+        ORDER_TRANSITIONS[transition].action,
+        message,
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to notify order ${order.id}: ${error.message}`);
+    }
+  }
+
+  private buildWhere(query: AdminOrderQueryDto): Prisma.OrderWhereInput {
+    const { search } = query;
+
+    return {
+      ...(query.status && { status: query.status }),
+      ...(query.paymentStatus && { paymentStatus: query.paymentStatus }),
+      ...(query.warehouseId && { warehouseId: query.warehouseId }),
+      ...((query.from || query.to) && {
+        purchaseDate: {
+          ...(query.from && { gte: new Date(query.from) }),
+          ...(query.to && { lte: new Date(query.to) }),
+        },
+      }),
+      ...(search && {
+        OR: [
+          { code: { contains: search, mode: 'insensitive' } },
+          { trackingNumber: { contains: search, mode: 'insensitive' } },
+          { customer: { name: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { AffiliateQueueService } from './affiliate-queue.service';
+
+@ApiBearerAuth()
+@ApiTags('Affiliate Queue')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('payments/affiliate-queue')
+export class AffiliateQueueController {
+  constructor(private readonly affiliateQueue: AffiliateQueueService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Pending, processing and dead-lettered job counts' })
+  getStats() {
+    return this.affiliateQueue.getQueueStats();
+  }
+
+  @Get('dead-letters')
+  @ApiOperation({ summary: 'List jobs that used up their retries' })
+  getDeadLetters(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.affiliateQueue.getDeadLetters(
+      Math.max(1, page),
+      Math.min(100, Math.max(1, limit)),
+    );
+  }
+
+  @Post('dead-letters/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replay every dead-lettered job' })
+  async replayDeadLetters() {
+    return { replayed: await this.affiliateQueue.replayDeadLetters() };
+  }
+
+  @Get('jobs/:jobId')
+  @ApiOperation({ summary: 'Get a job (e.g. order_completed:<orderId>)' })
+  getJob(@Param('jobId') jobId: string) {
+    return this.affiliateQueue.getJob(jobId);
+  }
+
+  @Post('jobs/:jobId/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replay a dead-lettered job' })
+  replayJob(@Param('jobId') jobId: string) {
+    return this.affiliateQueue.replayJob(jobId);
+  }
+}
@@ -0,0 +1,187 @@
+import { NotFoundException } from '@nestjs/common';
+import { RedisService } from '../../common/services/redis.service';
+import { AffiliateQueueService } from './affiliate-queue.service';
+import { AffiliateQueueStore } from './affiliate-queue.store';
+
+describe('AffiliateQueueService', () => {
+  let service: AffiliateQueueService;
+  let processOrderCompleted: jest.SpyInstance;
+  let drain: () => Promise<void>;
+
+  const failFiveTimes = async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await drain();
+      // Backoff is 2s, 4s, 8s, 16s
+      jest.advanceTimersByTime(2000 * Math.pow(2, attempt - 1));
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    // Without REDIS_URL the store keeps jobs in memory
+    const store = new AffiliateQueueStore(
+      new RedisService({ get: () => undefined } as any),
+    );
+    service = new AffiliateQueueService({} as any, store, {} as any);
+    processOrderCompleted = jest
+      .spyOn(service as any, 'processOrderCompleted')
+      .mockResolvedValue(undefined);
+
+    // Enqueue and replay kick the worker; tests drive it explicitly instead
+    drain = service.processDueJobs.bind(service);
+    jest.spyOn(service, 'processDueJobs').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should queue an order only once', async () => {
+    await expect(service.enqueueOrderCompleted('order-1')).resolves.toBe(true);
+    await expect(service.enqueueOrderCompleted('order-1')).resolves.toBe(false);
+    await expect(service.getQueueStats()).resolves.toEqual({
+      pending: 1,
+      processing: 0,
+      dead: 0,
+    });
+  });
+
+  it('should keep completed jobs so the order is not queued again', async () => {
+    await service.enqueueOrderCompleted('order-1');
+
+    await drain();
+
+    expect(processOrderCompleted).toHaveBeenCalledWith('order-1');
+    await expect(service.getJob('order_completed:order-1')).resolves.toEqual(
+      expect.objectContaining({ status: 'completed', attempts: 1 }),
+    );
+    await expect(service.enqueueOrderCompleted('order-1')).resolves.toBe(false);
+  });
+
+  it('should not retry before the backoff delay', async () => {
+    processOrderCompleted.mockRejectedValueOnce(new Error('timeout'));
+    await service.enqueueOrderCompleted('order-2');
+
+    await drain();
+    await drain();
+    expect(processOrderCompleted).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2000);
+    await drain();
+    expect(processOrderCompleted).toHaveBeenCalledTimes(2);
+  });
+
+  it('should dead-letter a job after its last attempt', async () => {
+    processOrderCompleted.mockRejectedValue(new Error('db down'));
+    await service.enqueueOrderCompleted('order-3');
+
+    await failFiveTimes();
+
+    expect(processOrderCompleted).toHaveBeenCalledTimes(5);
+    const { jobs, pagination } = await service.getDeadLetters(1, 20);
+    expect(pagination.total).toBe(1);
+    expect(jobs[0]).toMatchObject({
+      id: 'order_completed:order-3',
+      status: 'dead',
+      attempts: 5,
+      lastError: 'db down',
+    });
+  });
+
+  it('should replay dead-lettered jobs with fresh attempts', async () => {
+    processOrderCompleted.mockRejectedValue(new Error('db down'));
+    await service.enqueueOrderCompleted('order-4');
+    await failFiveTimes();
+
+    processOrderCompleted.mockResolvedValue(undefined);
+    await service.replayJob('order_completed:order-4');
+    await drain();
+
+    await expect(service.getJob('order_completed:order-4')).resolves.toEqual(
+      expect.objectContaining({ status: 'completed', attempts: 1 }),
+    );
+    await expect(service.replayJob('order_completed:order-4')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should pay commissions at the rates in force on the purchase date', async () => {
+    const purchaseDate = new Date('2026-03-15T08:00:00Z');
+    const tx = {
+      affiliateCommissionLog: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      order: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'order-5',
+          status: 'confirmed',
+          purchaseDate,
+          orderDetails: [
+            {
+              id: 'detail-1',
+              productId: 'product-1',
+              quantity: 2,
+              product: {
+                id: 'product-1',
+                name: 'Cà phê',
+                price: 100_000,
+                category: { id: 'cat-1', group: 'b' },
+              },
+            },
+          ],
+          customer: {
+            userId: 'user-f2',
+            user: { id: 'user-f2', referrer: { id: 'user-f1' } },
+          },
+        }),
+        update: jest.fn(),
+      },
+      affiliateCommission: {
+        create: jest.fn(({ data }) => ({ id: data.beneficiaryId, ...data })),
+      },
+      commissionSummary: { create: jest.fn() },
+      cartItem: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+    const ratePlans = {
+      getRateTableAt: jest.fn().mockResolvedValue({
+        planId: 'plan-1',
+        category: { a: 0.2, b: 0.4, c: 0.5 },
+        level: { F0: 0.1, F1: 0.2, F2: 1 },
+        productOverrides: {},
+        categoryOverrides: {},
+      }),
+    };
+    const worker = new AffiliateQueueService(
+      { $transaction: (fn: any) => fn(tx) } as any,
+      {} as any,
+      ratePlans as any,
+    );
+    jest
+      .spyOn(worker as any, 'createInvoiceFromOrder')
+      .mockResolvedValue(undefined);
+
+    await (worker as any).processOrderCompleted('order-5');
+
+    expect(ratePlans.getRateTableAt).toHaveBeenCalledWith(purchaseDate);
+    expect(
+      tx.affiliateCommission.create.mock.calls.map(([{ data }]) => [
+        data.commissionLevel,
+        data.commissionAmount,
+        data.ratePlanId,
+      ]),
+    ).toEqual([
+      ['F2', 80_000, 'plan-1'],
+      ['F1', 40_000, 'plan-1'],
+    ]);
+    expect(tx.commissionSummary.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        totalAmount: 200_000,
+        commissionPaid: 120_000,
+        remainingAmount: 20_000,
+        categoryGroupRate: 0.4,
+      }),
+    });
+  });
+});
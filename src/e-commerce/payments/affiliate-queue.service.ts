@@ -1,90 +1,207 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../common/services/prisma.service';
 import {
   CommissionLevel,
-  CommissionStatus,
-  CategoryGroup,
   InvoiceStatus,
   PaymentStatus,
   PaymentMethod,
+  OrderStatus,
 } from '@prisma/client';
+import {
+  AffiliateJob,
+  AffiliateJobType,
+  AffiliateQueueCounts,
+  AffiliateQueueStore,
+} from './affiliate-queue.store';
+import { CommissionRatePlansService } from '../../affiliate/commission-rate-plans.service';
+import {
+  COMMISSIONABLE_ORDER_INCLUDE,
+  CommissionRateHelper,
+} from '../../affiliate/helpers/commission-rate.helper';
+import { CommissionRateTable } from '../../affiliate/types/commission.types';
 
-enum AffiliateJobType {
-  ORDER_COMPLETED = 'order_completed',
-}
-
-enum CommissionRate {
-  PLATFORM_CUT = 0.1, // 10% platform cut from total price
-  CUSTOMER_SHARE = 0.5, // 50% for customer (F2)
-  DEPTH1_SHARE = 0.3, // 30% for depth 1 (F1)
-  DEPTH2_SHARE = 0.2, // 20% for depth 2 (F0)
-}
-
-interface AffiliateJob {
-  id: string;
-  type: AffiliateJobType;
-  payload: {
-    orderId: string;
-  };
-  createdAt: Date;
-  retryCount: number;
-  maxRetries: number;
-}
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000; // 2s, 4s, 8s, 16s
+const BATCH_SIZE = 10;
+const LEASE_MS = 5 * 60 * 1000;
+const COMPLETED_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
 
 @Injectable()
 export class AffiliateQueueService {
   private readonly logger = new Logger(AffiliateQueueService.name);
-  private readonly queue: AffiliateJob[] = [];
-  private readonly processing = new Set<string>();
-  private readonly batchSize = 10;
-  private readonly processingInterval = 1000;
-
-  constructor(private readonly prisma: PrismaService) {
-    this.startProcessing();
-  }
-
-  async enqueueOrderCompleted(orderId: string): Promise<void> {
+  private draining = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly store: AffiliateQueueStore,
+    private readonly commissionRatePlansService: CommissionRatePlansService,
+  ) {}
+
+  /**
+   * Queue commission and invoice creation for a paid order.
+   * Returns false when the order was already queued.
+   */
+  async enqueueOrderCompleted(orderId: string): Promise<boolean> {
     const job: AffiliateJob = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      id: `${AffiliateJobType.ORDER_COMPLETED}:${orderId}`,
       type: AffiliateJobType.ORDER_COMPLETED,
       payload: { orderId },
-      createdAt: new Date(),
-      retryCount: 0,
-      maxRetries: 3,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: MAX_ATTEMPTS,
+      createdAt: new Date().toISOString(),
     };
-    this.queue.push(job);
+
+    const added = await this.store.add(job, Date.now());
+    if (!added) {
+      this.logger.log(`Affiliate job for order ${orderId} is already queued`);
+      return false;
+    }
+
     this.logger.log(`Enqueued affiliate job: order_completed for ${orderId}`);
+    setImmediate(() => void this.processDueJobs());
+    return true;
   }
 
-  private startProcessing(): void {
-    setInterval(async () => {
-      if (this.queue.length === 0) return;
-      const batch = this.queue.splice(0, this.batchSize);
-      for (const job of batch) {
-        if (this.processing.has(job.id)) continue;
-        this.processing.add(job.id);
-        this.processJob(job).finally(() => this.processing.delete(job.id));
+  /**
+   * Claims due jobs; leases let another instance pick up jobs of a worker
+   * that died mid-job
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async processDueJobs(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      const requeued = await this.store.requeueStalled(Date.now());
+      if (requeued > 0) {
+        this.logger.warn(`Requeued ${requeued} stalled affiliate jobs`);
       }
-    }, this.processingInterval);
+
+      let batch: AffiliateJob[];
+      do {
+        const now = Date.now();
+        batch = await this.store.claimDue(now, BATCH_SIZE, now + LEASE_MS);
+        for (const job of batch) {
+          await this.processJob(job);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      this.logger.error(
+        `Affiliate queue processing failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  async getQueueStats(): Promise<AffiliateQueueCounts> {
+    return this.store.counts();
+  }
+
+  async getDeadLetters(page: number, limit: number) {
+    const { jobs, total } = await this.store.listDead(
+      (page - 1) * limit,
+      limit,
+    );
+
+    return {
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getJob(jobId: string): Promise<AffiliateJob> {
+    const job = await this.store.get(jobId);
+    if (!job) {
+      throw new NotFoundException('Không tìm thấy job hoa hồng');
+    }
+    return job;
+  }
+
+  /**
+   * Run a dead-lettered job again with a fresh set of attempts
+   */
+  async replayJob(jobId: string): Promise<AffiliateJob> {
+    const job = await this.getJob(jobId);
+    const revived: AffiliateJob = {
+      ...job,
+      status: 'pending',
+      attempts: 0,
+      failedAt: undefined,
+    };
+
+    if (!(await this.store.revive(revived, Date.now()))) {
+      throw new NotFoundException('Job không nằm trong danh sách lỗi');
+    }
+
+    this.logger.log(`Replaying affiliate job ${jobId}`);
+    setImmediate(() => void this.processDueJobs());
+    return revived;
+  }
+
+  async replayDeadLetters(): Promise<number> {
+    const ids = await this.store.listDeadIds();
+    let replayed = 0;
+
+    for (const id of ids) {
+      const job = await this.store.get(id);
+      if (!job) continue;
+
+      const revived = await this.store.revive(
+        { ...job, status: 'pending', attempts: 0, failedAt: undefined },
+        Date.now(),
+      );
+      if (revived) replayed++;
+    }
+
+    if (replayed > 0) setImmediate(() => void this.processDueJobs());
+    return replayed;
   }
 
   private async processJob(job: AffiliateJob): Promise<void> {
+    job.attempts++;
+    job.status = 'processing';
+
     try {
       if (job.type === AffiliateJobType.ORDER_COMPLETED) {
         await this.processOrderCompleted(job.payload.orderId);
       }
+
+      await this.store.complete(
+        {
+          ...job,
+          status: 'completed',
+          lastError: undefined,
+          completedAt: new Date().toISOString(),
+        },
+        COMPLETED_JOB_TTL_SECONDS,
+      );
     } catch (error) {
+      job.lastError = (error as Error).message;
       this.logger.error(
-        `Failed affiliate job ${job.id}: ${(error as Error).message}`,
+        `Failed affiliate job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}): ${job.lastError}`,
       );
-      if (job.retryCount < job.maxRetries) {
-        job.retryCount++;
-        job.createdAt = new Date();
-        setTimeout(
-          () => this.queue.push(job),
-          Math.pow(2, job.retryCount) * 1000,
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.store.deadLetter(
+          { ...job, status: 'dead', failedAt: new Date().toISOString() },
+          Date.now(),
         );
+        return;
       }
+
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+      await this.store.reschedule(
+        { ...job, status: 'pending' },
+        Date.now() + delay,
+      );
     }
   }
 
@@ -94,27 +211,34 @@ export class AffiliateQueueService {
     // Wrap entire operation in a transaction to ensure data consistency
     // This ensures atomicity - either all operations succeed or all are rolled back
     await this.prisma.$transaction(async (tx) => {
-      // Get order details with products and categories
+      // A replayed or re-queued job must not pay commissions twice
+      const alreadyProcessed = await tx.affiliateCommissionLog.findFirst({
+        where: { orderId, calculationStatus: 'completed' },
+        select: { id: true },
+      });
+      if (alreadyProcessed) {
+        this.logger.log(`Affiliate commissions for order ${orderId} exist`);
+        return;
+      }
+
       const order = await tx.order.findUnique({
         where: { id: orderId },
-        include: {
-          orderDetails: {
-            include: {
-              product: {
-                include: {
-                  category: true,
-                },
-              },
-            },
-          },
-          customer: true,
-        },
+        include: COMMISSIONABLE_ORDER_INCLUDE,
       });
 
       if (!order) {
         throw new Error(`Order ${orderId} not found`);
       }
 
+      // A refund or cancellation settled before the job ran; nothing to pay
+      if (
+        order.status === OrderStatus.cancelled ||
+        order.status === OrderStatus.refunded
+      ) {
+        this.logger.warn(`Order ${orderId} is ${order.status}, skipping`);
+        return;
+      }
+
       if (!order.orderDetails || order.orderDetails.length === 0) {
         this.logger.warn(`Order ${orderId} has no products`);
         return;
@@ -127,157 +251,22 @@ export class AffiliateQueueService {
         return;
       }
 
-      // Get customer's referenceId to query closure table
-      const customerUser = await tx.user.findUnique({
-        where: { id: customerUserId },
-        select: { referenceId: true },
-      });
-
-      if (!customerUser) {
-        this.logger.warn(`Customer user ${customerUserId} not found`);
-        return;
-      }
-
-      // Get referral hierarchy (depth 1 and 2) using referenceId
-      const referralHierarchy = await tx.userReferralClosure.findMany({
-        where: {
-          descendantId: customerUser.referenceId, // Use referenceId here
-          depth: { in: [1, 2] },
-        },
-        select: {
-          ancestorId: true, // This returns referenceId of ancestors
-          depth: true,
-        },
-      });
-
-      // Group by depth
-      const depth1Referrals = referralHierarchy.filter((r) => r.depth === 1);
-      const depth2Referrals = referralHierarchy.filter((r) => r.depth === 2);
-
-      // Convert referenceIds to userIds for commission creation
-      const depth1ReferenceIds = depth1Referrals.map((r) => r.ancestorId);
-      const depth2ReferenceIds = depth2Referrals.map((r) => r.ancestorId);
-
-      // Get actual user IDs from reference IDs
-      const [depth1Users, depth2Users] = await Promise.all([
-        depth1ReferenceIds.length > 0
-          ? tx.user.findMany({
-              where: { referenceId: { in: depth1ReferenceIds } },
-              select: { id: true, referenceId: true },
-            })
-          : [],
-        depth2ReferenceIds.length > 0
-          ? tx.user.findMany({
-              where: { referenceId: { in: depth2ReferenceIds } },
-              select: { id: true, referenceId: true },
-            })
-          : [],
-      ]);
-
       // Only create commissions if there are referrers
-      if (depth1Users.length === 0 && depth2Users.length === 0) {
+      if (!order.customer.user?.referrer) {
         this.logger.log(
           `No referrers found for order ${orderId}, skipping commission creation`,
         );
         return;
       }
 
-      // Process each order detail (product)
-      const commissionPromises = order.orderDetails.map(async (orderDetail) => {
-        const product = orderDetail.product;
-        const category = product.category;
-
-        if (!category) {
-          this.logger.warn(`Product ${product.id} has no category`);
-          return;
-        }
-
-        // Get category group commission rate (e.g., Group C = 50%)
-        const categoryGroupRate = this.getCategoryGroupRate(category.group);
-
-        // Calculate base amount for this product
-        const baseAmount = Number(orderDetail.quantity) * Number(product.price);
-
-        // Platform cut = 10% of total price
-        const platformCut = baseAmount * CommissionRate.PLATFORM_CUT;
-
-        // Commission pool = categoryGroupRate * baseAmount (e.g., 50% of product price)
-        const commissionPool = baseAmount * categoryGroupRate;
-
-        // Available commission = commission pool - platform cut (e.g., 50% - 10% = 40%)
-        const availableCommission = commissionPool - platformCut;
-
-        // Calculate commission amounts from available commission
-        const customerCommission =
-          availableCommission * CommissionRate.CUSTOMER_SHARE;
-        const depth1Commission =
-          availableCommission * CommissionRate.DEPTH1_SHARE;
-        const depth2Commission =
-          availableCommission * CommissionRate.DEPTH2_SHARE;
-
-        // Create commission records
-        const commissionRecords: any[] = [];
-
-        // F2 - Customer (50% of available commission)
-        const customerRecord = {
-          orderId,
-          orderDetailId: orderDetail.id, // Link to OrderDetail
-          productId: product.id,
-          beneficiaryId: customerUserId,
-          commissionLevel: CommissionLevel.F2,
-          commissionRate: CommissionRate.CUSTOMER_SHARE,
-          baseAmount: availableCommission,
-          quantity: orderDetail.quantity,
-          commissionAmount: customerCommission,
-          categoryId: category.id,
-          status: CommissionStatus.calculated,
-        };
-        commissionRecords.push(customerRecord);
-
-        // F1 - Depth 1 referrals (30% of available commission)
-        for (const user of depth1Users) {
-          const f1Record = {
-            orderId,
-            orderDetailId: orderDetail.id, // Link to OrderDetail
-            productId: product.id,
-            beneficiaryId: user.id, // Use actual user ID
-            commissionLevel: CommissionLevel.F1,
-            commissionRate: CommissionRate.DEPTH1_SHARE,
-            baseAmount: availableCommission,
-            quantity: orderDetail.quantity,
-            commissionAmount: depth1Commission,
-            categoryId: category.id,
-            status: CommissionStatus.calculated,
-          };
-          commissionRecords.push(f1Record);
-        }
-
-        // F0 - Depth 2 referrals (20% of available commission)
-        for (const user of depth2Users) {
-          const f0Record = {
-            orderId,
-            orderDetailId: orderDetail.id, // Link to OrderDetail
-            productId: product.id,
-            beneficiaryId: user.id, // Use actual user ID
-            commissionLevel: CommissionLevel.F0,
-            commissionRate: CommissionRate.DEPTH2_SHARE,
-            baseAmount: availableCommission,
-            quantity: orderDetail.quantity,
-            commissionAmount: depth2Commission,
-            categoryId: category.id,
-            status: CommissionStatus.calculated,
-          };
-          commissionRecords.push(f0Record);
-        }
-
-        return commissionRecords;
-      });
-
-      // Wait for all commission calculations
-      const allCommissions = await Promise.all(commissionPromises);
-      const flatCommissions = allCommissions
-        .flat()
-        .filter((comm): comm is any => comm !== undefined);
+      // Rates in force at the purchase date, same as AffiliateCommissionService
+      const rateTable = await this.commissionRatePlansService.getRateTableAt(
+        order.purchaseDate,
+      );
+      const flatCommissions = CommissionRateHelper.buildCommissions(
+        order,
+        rateTable,
+      );
 
       if (flatCommissions.length === 0) {
         this.logger.warn(`No commissions to create for order ${orderId}`);
@@ -294,7 +283,12 @@ export class AffiliateQueueService {
       );
 
       // Create Commission Summaries for each order detail
-      await this.createCommissionSummaries(order, createdCommissions, tx);
+      await this.createCommissionSummaries(
+        order,
+        createdCommissions,
+        rateTable,
+        tx,
+      );
 
       // Create commission log
       const totalCommissionAmount = flatCommissions.reduce(
@@ -483,6 +477,7 @@ export class AffiliateQueueService {
   private async createCommissionSummaries(
     order: any,
     createdCommissions: any[],
+    rateTable: CommissionRateTable,
     tx: any,
   ): Promise<void> {
     // Group commissions by productId (order detail)
@@ -506,19 +501,22 @@ export class AffiliateQueueService {
       const quantity = Number(orderDetail.quantity) || 0;
       const totalAmount = productPrice * quantity;
 
-      // Get category group rate
-      const categoryGroupRate = this.getCategoryGroupRate(
-        orderDetail.product.category.group,
+      // Category rate after product and category overrides
+      const categoryGroupRate = CommissionRateHelper.resolveCategoryRate(
+        rateTable,
+        orderDetail.product.id,
+        orderDetail.product.category,
       );
 
-      // Calculate platform cut (10% of total)
-      const platformCut = totalAmount * CommissionRate.PLATFORM_CUT;
-
-      // Calculate commission pool
-      const commissionPool = totalAmount * categoryGroupRate;
+      // Commission pool: what F2, F1 and F0 earn when the whole chain exists
+      const commissionPool =
+        totalAmount *
+        (categoryGroupRate * rateTable.level[CommissionLevel.F2] +
+          rateTable.level[CommissionLevel.F1] +
+          rateTable.level[CommissionLevel.F0]);
 
-      // Calculate available commission after platform cut
-      const availableCommission = commissionPool - platformCut;
+      // The platform keeps what is not set aside for commissions
+      const platformCut = totalAmount - commissionPool;
 
       // Calculate total commission paid
       const commissionPaid = productCommissions.reduce(
@@ -527,7 +525,7 @@ export class AffiliateQueueService {
       );
 
       // Calculate remaining amount (money not distributed due to missing referrers)
-      const remainingAmount = availableCommission - commissionPaid;
+      const remainingAmount = commissionPool - commissionPaid;
 
       // Find commissions by level
       const f2Commission = productCommissions.find(
@@ -561,17 +559,4 @@ export class AffiliateQueueService {
       );
     }
   }
-
-  private getCategoryGroupRate(group: CategoryGroup): number {
-    switch (group) {
-      case CategoryGroup.a:
-        return 0.2; // 20%
-      case CategoryGroup.b:
-        return 0.3; // 30%
-      case CategoryGroup.c:
-        return 0.5; // 50%
-      default:
-        return 0.5; // Default to 50%
-    }
-  }
 }
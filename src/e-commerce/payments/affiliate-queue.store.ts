@@ -0,0 +1,350 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../common/services/redis.service';
+
+export enum AffiliateJobType {
+  ORDER_COMPLETED = 'order_completed',
+}
+
+export type AffiliateJobStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'dead';
+
+export interface AffiliateJob {
+  id: string; // `${type}:${orderId}`, so an order is only queued once
+  type: AffiliateJobType;
+  payload: {
+    orderId: string;
+  };
+  status: AffiliateJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  lastError?: string;
+  failedAt?: string;
+  completedAt?: string;
+}
+
+export interface AffiliateQueueCounts {
+  pending: number;
+  processing: number;
+  dead: number;
+}
+
+const KEY_PREFIX = 'affiliate:queue';
+const PENDING_KEY = `${KEY_PREFIX}:pending`; // zset: jobId -> run at (ms)
+const PROCESSING_KEY = `${KEY_PREFIX}:processing`; // zset: jobId -> lease expiry (ms)
+const DEAD_KEY = `${KEY_PREFIX}:dead`; // zset: jobId -> failed at (ms)
+const jobKey = (jobId: string) => `${KEY_PREFIX}:job:${jobId}`;
+
+// Store the job only if it is new, and schedule it in the same step
+const ADD_SCRIPT = `
+if redis.call("set", KEYS[1], ARGV[1], "NX") then
+  redis.call("zadd", KEYS[2], ARGV[2], ARGV[3])
+  return 1
+end
+return 0`;
+
+// Move due jobs from pending to processing with a lease
+const CLAIM_SCRIPT = `
+local ids = redis.call("zrangebyscore", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, ARGV[2])
+for _, id in ipairs(ids) do
+  redis.call("zrem", KEYS[1], id)
+  redis.call("zadd", KEYS[2], ARGV[3], id)
+end
+return ids`;
+
+// Jobs whose lease ran out (worker died mid-job) go back to pending
+const REQUEUE_STALLED_SCRIPT = `
+local ids = redis.call("zrangebyscore", KEYS[1], "-inf", ARGV[1])
+for _, id in ipairs(ids) do
+  redis.call("zrem", KEYS[1], id)
+  redis.call("zadd", KEYS[2], ARGV[1], id)
+end
+return #ids`;
+
+/**
+ * Persistence for AffiliateQueueService. Jobs live in Redis so they survive
+ * restarts and are shared by every API instance; without REDIS_URL they are
+ * kept in memory (single instance / local dev).
+ */
+@Injectable()
+export class AffiliateQueueStore {
+  private readonly local = {
+    jobs: new Map<string, { job: AffiliateJob; expiresAt?: number }>(),
+    pending: new Map<string, number>(),
+    processing: new Map<string, number>(),
+    dead: new Map<string, number>(),
+  };
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Queue a new job; returns false when a job with the same id exists
+   */
+  async add(job: AffiliateJob, runAt: number): Promise<boolean> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const result = await client.eval(
+        ADD_SCRIPT,
+        2,
+        jobKey(job.id),
+        PENDING_KEY,
+        JSON.stringify(job),
+        runAt,
+        job.id,
+      );
+      return result === 1;
+    }
+
+    if (this.getLocalJob(job.id)) return false;
+
+    this.local.jobs.set(job.id, { job: { ...job } });
+    this.local.pending.set(job.id, runAt);
+    return true;
+  }
+
+  /**
+   * Lease up to `limit` due jobs until `leaseUntil`
+   */
+  async claimDue(
+    now: number,
+    limit: number,
+    leaseUntil: number,
+  ): Promise<AffiliateJob[]> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const ids = (await client.eval(
+        CLAIM_SCRIPT,
+        2,
+        PENDING_KEY,
+        PROCESSING_KEY,
+        now,
+        limit,
+        leaseUntil,
+      )) as string[];
+      return this.getMany(ids);
+    }
+
+    const ids = [...this.local.pending.entries()]
+      .filter(([, runAt]) => runAt <= now)
+      .sort(([, a], [, b]) => a - b)
+      .slice(0, limit)
+      .map(([id]) => id);
+
+    for (const id of ids) {
+      this.local.pending.delete(id);
+      this.local.processing.set(id, leaseUntil);
+    }
+
+    return this.getMany(ids);
+  }
+
+  async requeueStalled(now: number): Promise<number> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      return (await client.eval(
+        REQUEUE_STALLED_SCRIPT,
+        2,
+        PROCESSING_KEY,
+        PENDING_KEY,
+        now,
+      )) as number;
+    }
+
+    let count = 0;
+    for (const [id, leaseUntil] of this.local.processing) {
+      if (leaseUntil > now) continue;
+      this.local.processing.delete(id);
+      this.local.pending.set(id, now);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Put a leased job back in pending to run at `runAt`
+   */
+  async reschedule(job: AffiliateJob, runAt: number): Promise<void> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      await client
+        .multi()
+        .set(jobKey(job.id), JSON.stringify(job))
+        .zrem(PROCESSING_KEY, job.id)
+        .zadd(PENDING_KEY, runAt, job.id)
+        .exec();
+      return;
+    }
+
+    this.local.jobs.set(job.id, { job: { ...job } });
+    this.local.processing.delete(job.id);
+    this.local.pending.set(job.id, runAt);
+  }
+
+  /**
+   * Finished jobs are kept for `ttlSeconds` so the order is not queued again
+   */
+  async complete(job: AffiliateJob, ttlSeconds: number): Promise<void> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      await client
+        .multi()
+        .set(jobKey(job.id), JSON.stringify(job), 'EX', ttlSeconds)
+        .zrem(PROCESSING_KEY, job.id)
+        .exec();
+      return;
+    }
+
+    this.local.jobs.set(job.id, {
+      job: { ...job },
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    this.local.processing.delete(job.id);
+  }
+
+  async deadLetter(job: AffiliateJob, failedAt: number): Promise<void> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      await client
+        .multi()
+        .set(jobKey(job.id), JSON.stringify(job))
+        .zrem(PROCESSING_KEY, job.id)
+        .zadd(DEAD_KEY, failedAt, job.id)
+        .exec();
+      return;
+    }
+
+    this.local.jobs.set(job.id, { job: { ...job } });
+    this.local.processing.delete(job.id);
+    this.local.dead.set(job.id, failedAt);
+  }
+
+  /**
+   * Dead-lettered jobs, most recent failure first
+   */
+  async listDead(
+    offset: number,
+    limit: number,
+  ): Promise<{ jobs: AffiliateJob[]; total: number }> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const [ids, total] = await Promise.all([
+        client.zrevrange(DEAD_KEY, offset, offset + limit - 1),
+        client.zcard(DEAD_KEY),
+      ]);
+      return { jobs: await this.getMany(ids), total };
+    }
+
+    const ids = [...this.local.dead.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(offset, offset + limit)
+      .map(([id]) => id);
+
+    return { jobs: await this.getMany(ids), total: this.local.dead.size };
+  }
+
+  async listDeadIds(): Promise<string[]> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      return client.zrange(DEAD_KEY, 0, -1);
+    }
+
+    return [...this.local.dead.keys()];
+  }
+
+  /**
+   * Move a dead-lettered job back to pending; false if it is not dead-lettered
+   */
+  async revive(job: AffiliateJob, runAt: number): Promise<boolean> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const removed = await client.zrem(DEAD_KEY, job.id);
+      if (removed === 0) return false;
+
+      await client
+        .multi()
+        .set(jobKey(job.id), JSON.stringify(job))
+        .zadd(PENDING_KEY, runAt, job.id)
+        .exec();
+      return true;
+    }
+
+    if (!this.local.dead.delete(job.id)) return false;
+
+    this.local.jobs.set(job.id, { job: { ...job } });
+    this.local.pending.set(job.id, runAt);
+    return true;
+  }
+
+  async get(jobId: string): Promise<AffiliateJob | null> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const raw = await client.get(jobKey(jobId));
+      return raw ? (JSON.parse(raw) as AffiliateJob) : null;
+    }
+
+    const job = this.getLocalJob(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async counts(): Promise<AffiliateQueueCounts> {
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const [pending, processing, dead] = await Promise.all([
+        client.zcard(PENDING_KEY),
+        client.zcard(PROCESSING_KEY),
+        client.zcard(DEAD_KEY),
+      ]);
+      return { pending, processing, dead };
+    }
+
+    return {
+      pending: this.local.pending.size,
+      processing: this.local.processing.size,
+      dead: this.local.dead.size,
+    };
+  }
+
+  private async getMany(ids: string[]): Promise<AffiliateJob[]> {
+    if (ids.length === 0) return [];
+
+    const client = this.redisService.getClient();
+
+    if (client) {
+      const raws = await client.mget(ids.map(jobKey));
+      return raws
+        .filter((raw): raw is string => !!raw)
+        .map((raw) => JSON.parse(raw) as AffiliateJob);
+    }
+
+    return ids
+      .map((id) => this.getLocalJob(id))
+      .filter((job): job is AffiliateJob => !!job)
+      .map((job) => ({ ...job }));
+  }
+
+  private getLocalJob(jobId: string): AffiliateJob | null {
+    const entry = this.local.jobs.get(jobId);
+    if (!entry) return null;
+
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.local.jobs.delete(jobId);
+      return null;
+    }
+
+    return entry.job;
+  }
+}
@@ -56,8 +56,20 @@ export class InitiatePaymentDto {
   @IsString()
   idempotencyKey?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Mã ngân hàng VNPay (ví dụ: NCB, VNPAYQR) - chỉ dùng cho VNPay',
+    example: 'NCB',
+  })
+  @IsOptional()
+  @IsString()
+  bankCode?: string;
+
   // Internal field for user context (set by controller)
   userId?: string;
+
+  // Internal field for the client IP (set by controller, required by VNPay)
+  clientIp?: string;
 }
 
 // Manual Verify Payment DTO for development/backoffice
@@ -267,7 +279,7 @@ export class PaymentResponseDto {
   @ApiProperty({
     description: 'Payment provider',
     example: 'vietqr',
-    enum: ['vietqr', 'stripe', 'cash'],
+    enum: ['vietqr', 'stripe', 'vnpay', 'cash'],
   })
   provider: string;
 
@@ -304,11 +316,11 @@ export class PaymentResponseDto {
   })
   currency: string;
 
-  @ApiProperty({
-    description: 'Payment expiration time',
+  @ApiPropertyOptional({
+    description: 'Payment expiration time (not set for cash on delivery)',
     example: '2024-01-01T12:02:00.000Z',
   })
-  expiresAt: Date;
+  expiresAt?: Date;
 
   @ApiProperty({
     description: 'QR content for payment (URL or EMV data)',
@@ -323,6 +335,19 @@ export class PaymentResponseDto {
   })
   qrImageDataUrl?: string;
 
+  @ApiPropertyOptional({
+    description: 'Stripe PaymentIntent client secret (card payments only)',
+    example: 'pi_3Nxxxxxxxx_secret_xxxxxxxx',
+  })
+  clientSecret?: string;
+
+  @ApiPropertyOptional({
+    description: 'Gateway redirect URL (VNPay)',
+    example:
+      'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html?vnp_Amount=...',
+  })
+  checkoutUrl?: string;
+
   @ApiProperty({
     description: 'URL for polling payment status',
     example: '/payments/pay_123456789/status',
@@ -0,0 +1,168 @@
+import { CommissionStatus } from '@prisma/client';
+import {
+  COMMISSION_CLAWBACK_STATUS,
+  CommissionClawbackHelper,
+} from './commission-clawback.helper';
+
+describe('CommissionClawbackHelper', () => {
+  const commission = (overrides: Record<string, any> = {}) => ({
+    id: 'commission-1',
+    orderId: 'order-1',
+    orderDetailId: 'detail-1',
+    productId: 'product-1',
+    beneficiaryId: 'user-1',
+    commissionLevel: 'F1',
+    commissionRate: 0.3,
+    baseAmount: 40000,
+    quantity: 2,
+    commissionAmount: 12000,
+    categoryId: 'category-1',
+    status: CommissionStatus.calculated,
+    notes: null,
+    adjustments: [],
+    ...overrides,
+  });
+
+  let tx: any;
+
+  beforeEach(() => {
+    tx = {
+      orderDetail: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'detail-1', quantity: 2 },
+          { id: 'detail-2', quantity: 4 },
+        ]),
+      },
+      affiliateCommission: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+      affiliateCommissionLog: { create: jest.fn() },
+    };
+  });
+
+  const refundInput = (overrides: Record<string, any> = {}) => ({
+    orderId: 'order-1',
+    amount: 50000,
+    refundableAmount: 200000,
+    isFullRefund: false,
+    items: [],
+    previousItems: [],
+    reason: 'Refund RF-1',
+    processedBy: 'admin-1',
+    ...overrides,
+  });
+
+  describe('allocateRefund', () => {
+    const details = [
+      { id: 'detail-1', quantity: 2 },
+      { id: 'detail-2', quantity: 4 },
+    ];
+
+    it('should spread an amount-only refund over every line', () => {
+      const shares = CommissionClawbackHelper.allocateRefund(
+        details,
+        refundInput(),
+      );
+
+      expect(shares.lines.get('detail-1')).toBe(0.25);
+      expect(shares.lines.get('detail-2')).toBe(0.25);
+      expect(shares.unlinked).toBe(0.25);
+    });
+
+    it('should measure itemized refunds against the quantity left', () => {
+      const shares = CommissionClawbackHelper.allocateRefund(
+        details,
+        refundInput({
+          items: [{ orderDetailId: 'detail-2', quantity: 1 }],
+          previousItems: [{ orderDetailId: 'detail-2', quantity: 2 }],
+        }),
+      );
+
+      expect(shares.lines.get('detail-2')).toBe(0.5);
+      expect(shares.lines.has('detail-1')).toBe(false);
+      expect(shares.unlinked).toBe(0);
+    });
+  });
+
+  it('should read items from stringified request metadata', () => {
+    expect(
+      CommissionClawbackHelper.readRefundItems(
+        JSON.stringify({ items: [{ orderDetailId: 'detail-1', quantity: 1 }] }),
+      ),
+    ).toEqual([{ orderDetailId: 'detail-1', quantity: 1 }]);
+    expect(CommissionClawbackHelper.readRefundItems(null)).toEqual([]);
+  });
+
+  it('should cancel unpaid commissions on a full refund', async () => {
+    tx.affiliateCommission.findMany.mockResolvedValue([commission()]);
+
+    const result = await CommissionClawbackHelper.reverseForRefund(
+      tx,
+      refundInput({ isFullRefund: true }),
+    );
+
+    expect(tx.affiliateCommission.update).toHaveBeenCalledWith({
+      where: { id: 'commission-1' },
+      data: {
+        status: CommissionStatus.cancelled,
+        notes: 'Clawback 100%: Refund RF-1',
+      },
+    });
+    expect(result).toEqual(
+      expect.objectContaining({ cancelled: 1, totalReversed: 12000 }),
+    );
+    expect(tx.affiliateCommissionLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: 'order-1',
+        totalCommissionAmount: -12000,
+        commissionCount: 1,
+        calculationStatus: COMMISSION_CLAWBACK_STATUS,
+        processedBy: 'admin-1',
+      }),
+    });
+  });
+
+  it('should reduce unpaid commissions on a partial refund', async () => {
+    tx.affiliateCommission.findMany.mockResolvedValue([commission()]);
+
+    await CommissionClawbackHelper.reverseForRefund(tx, refundInput());
+
+    expect(tx.affiliateCommission.update).toHaveBeenCalledWith({
+      where: { id: 'commission-1' },
+      data: expect.objectContaining({ commissionAmount: 9000 }),
+    });
+  });
+
+  it('should book a negative adjustment for the outstanding paid amount', async () => {
+    tx.affiliateCommission.findMany.mockResolvedValue([
+      commission({
+        status: CommissionStatus.paid,
+        adjustments: [{ commissionAmount: -2000 }],
+      }),
+    ]);
+
+    const result = await CommissionClawbackHelper.reverseForOrder(
+      tx,
+      'order-1',
+      'Order cancelled',
+    );
+
+    expect(tx.affiliateCommission.update).not.toHaveBeenCalled();
+    expect(tx.affiliateCommission.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        commissionAmount: -10000,
+        adjustmentOfId: 'commission-1',
+        status: CommissionStatus.calculated,
+      }),
+    });
+    expect(result.adjusted).toBe(1);
+  });
+
+  it('should not log when no commission was touched', async () => {
+    await CommissionClawbackHelper.reverseForOrder(tx, 'order-1', 'Cancelled');
+
+    expect(tx.affiliateCommissionLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,255 @@
+import { Logger } from '@nestjs/common';
+import { CommissionStatus, Prisma } from '@prisma/client';
+import { RefundItemDto } from '../dto/refund.dto';
+
+export const COMMISSION_CLAWBACK_STATUS = 'clawback';
+
+/**
+ * Share (0..1) of each order line whose commissions must be reversed.
+ * `unlinked` applies to commissions that were not recorded per OrderDetail.
+ */
+export interface CommissionReversalShares {
+  lines: Map<string, number>;
+  unlinked: number;
+}
+
+export interface RefundClawbackInput {
+  orderId: string;
+  amount: number;
+  // Amount that was still refundable before this refund settled
+  refundableAmount: number;
+  isFullRefund: boolean;
+  items: RefundItemDto[];
+  previousItems: RefundItemDto[];
+  reason: string;
+  processedBy?: string;
+}
+
+export interface CommissionClawbackResult {
+  cancelled: number;
+  reduced: number;
+  adjusted: number;
+  totalReversed: number;
+}
+
+const CLAWBACK_COMMISSION_INCLUDE = {
+  adjustments: { select: { commissionAmount: true } },
+} satisfies Prisma.AffiliateCommissionInclude;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export class CommissionClawbackHelper {
+  private static readonly logger = new Logger(CommissionClawbackHelper.name);
+
+  /**
+   * Reverse commissions for the share of the order covered by a settled refund
+   */
+  static async reverseForRefund(
+    tx: Prisma.TransactionClient,
+    input: RefundClawbackInput,
+  ): Promise<CommissionClawbackResult> {
+    const orderDetails = await tx.orderDetail.findMany({
+      where: { orderId: input.orderId },
+      select: { id: true, quantity: true },
+    });
+
+    const shares = this.allocateRefund(orderDetails, input);
+
+    return this.reverseCommissions(tx, input.orderId, shares, {
+      reason: input.reason,
+      processedBy: input.processedBy,
+    });
+  }
+
+  /**
+   * Reverse every commission of an order that is cancelled
+   */
+  static async reverseForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    reason: string,
+    processedBy?: string,
+  ): Promise<CommissionClawbackResult> {
+    return this.reverseCommissions(
+      tx,
+      orderId,
+      { lines: new Map(), unlinked: 1 },
+      { reason, processedBy },
+    );
+  }
+
+  /**
+   * Work out which share of each order line a refund covers.
+   * Itemized refunds are measured against the quantity not refunded yet,
+   * amount-only refunds against the amount that was still refundable.
+   */
+  static allocateRefund(
+    orderDetails: { id: string; quantity: number }[],
+    input: Pick<
+      RefundClawbackInput,
+      'amount' | 'refundableAmount' | 'isFullRefund' | 'items' | 'previousItems'
+    >,
+  ): CommissionReversalShares {
+    if (input.isFullRefund) {
+      return { lines: new Map(), unlinked: 1 };
+    }
+
+    if (input.items.length > 0) {
+      const lines = new Map<string, number>();
+
+      for (const detail of orderDetails) {
+        const refundedNow = this.sumQuantity(input.items, detail.id);
+        if (refundedNow <= 0) continue;
+
+        const remaining =
+          detail.quantity - this.sumQuantity(input.previousItems, detail.id);
+        lines.set(
+          detail.id,
+          remaining > 0 ? Math.min(1, refundedNow / remaining) : 0,
+        );
+      }
+
+      return { lines, unlinked: 0 };
+    }
+
+    const ratio =
+      input.refundableAmount > 0
+        ? Math.min(1, input.amount / input.refundableAmount)
+        : 1;
+
+    return {
+      lines: new Map(orderDetails.map((detail) => [detail.id, ratio])),
+      unlinked: ratio,
+    };
+  }
+
+  /**
+   * Read the itemized refund lines stored in a refund's request metadata
+   */
+  static readRefundItems(requestMeta: Prisma.JsonValue): RefundItemDto[] {
+    try {
+      const meta =
+        typeof requestMeta === 'string' ? JSON.parse(requestMeta) : requestMeta;
+      return Array.isArray(meta?.items) ? meta.items : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Cancel or reduce unpaid commissions and book negative adjustments for
+   * paid ones, then record the clawback in the commission log
+   */
+  static async reverseCommissions(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    shares: CommissionReversalShares,
+    options: { reason: string; processedBy?: string },
+  ): Promise<CommissionClawbackResult> {
+    const result: CommissionClawbackResult = {
+      cancelled: 0,
+      reduced: 0,
+      adjusted: 0,
+      totalReversed: 0,
+    };
+
+    const commissions = await tx.affiliateCommission.findMany({
+      where: {
+        orderId,
+        adjustmentOfId: null,
+        status: { not: CommissionStatus.cancelled },
+      },
+      include: CLAWBACK_COMMISSION_INCLUDE,
+    });
+
+    for (const commission of commissions) {
+      const share = commission.orderDetailId
+        ? (shares.lines.get(commission.orderDetailId) ?? shares.unlinked)
+        : shares.unlinked;
+      if (share <= 0) continue;
+
+      const note = `Clawback ${roundAmount(share * 100)}%: ${options.reason}`;
+      const notes = commission.notes ? `${commission.notes}\n${note}` : note;
+      const amount = Number(commission.commissionAmount);
+
+      if (commission.status !== CommissionStatus.paid) {
+        if (share >= 1) {
+          await tx.affiliateCommission.update({
+            where: { id: commission.id },
+            data: { status: CommissionStatus.cancelled, notes },
+          });
+          result.cancelled++;
+          result.totalReversed += amount;
+        } else {
+          const reversed = roundAmount(amount * share);
+          await tx.affiliateCommission.update({
+            where: { id: commission.id },
+            data: { commissionAmount: roundAmount(amount - reversed), notes },
+          });
+          result.reduced++;
+          result.totalReversed += reversed;
+        }
+        continue;
+      }
+
+      // Paid commissions stay untouched; what is still owed is netted out
+      const outstanding = commission.adjustments.reduce(
+        (sum, adjustment) => sum + Number(adjustment.commissionAmount),
+        amount,
+      );
+      const reversed = roundAmount(outstanding * Math.min(1, share));
+      if (reversed <= 0) continue;
+
+      await tx.affiliateCommission.create({
+        data: {
+          orderId,
+          orderDetailId: commission.orderDetailId,
+          productId: commission.productId,
+          beneficiaryId: commission.beneficiaryId,
+          commissionLevel: commission.commissionLevel,
+          commissionRate: commission.commissionRate,
+          baseAmount: commission.baseAmount,
+          quantity: 0,
+          commissionAmount: -reversed,
+          categoryId: commission.categoryId,
+          status: CommissionStatus.calculated,
+          adjustmentOfId: commission.id,
+          notes: note,
+        },
+      });
+      result.adjusted++;
+      result.totalReversed += reversed;
+    }
+
+    const changed = result.cancelled + result.reduced + result.adjusted;
+    if (changed === 0) {
+      return result;
+    }
+
+    result.totalReversed = roundAmount(result.totalReversed);
+
+    await tx.affiliateCommissionLog.create({
+      data: {
+        orderId,
+        totalCommissionAmount: -result.totalReversed,
+        commissionCount: changed,
+        calculationStatus: COMMISSION_CLAWBACK_STATUS,
+        processedBy: options.processedBy,
+        notes: `Commission clawback for order ${orderId}: ${options.reason}`,
+      },
+    });
+
+    this.logger.log(
+      `Reversed ${result.totalReversed} commission for order ${orderId} ` +
+        `(cancelled ${result.cancelled}, reduced ${result.reduced}, adjusted ${result.adjusted})`,
+    );
+
+    return result;
+  }
+
+  private static sumQuantity(items: RefundItemDto[], orderDetailId: string) {
+    return items
+      .filter((item) => item.orderDetailId === orderDetailId)
+      .reduce((sum, item) => sum + Number(item.quantity), 0);
+  }
+}
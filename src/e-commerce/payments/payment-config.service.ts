@@ -24,4 +24,62 @@ export class PaymentConfigService {
     return this.configService.get<AllConfigType['payment']>('payment')?.webhook
       ?.secret;
   }
+
+  get STRIPE_SECRET_KEY(): string {
+    return (
+      this.configService.get<AllConfigType['payment']>('payment')?.stripe
+        ?.secretKey || ''
+    );
+  }
+
+  get STRIPE_WEBHOOK_SECRET(): string {
+    return (
+      this.configService.get<AllConfigType['payment']>('payment')?.stripe
+        ?.webhookSecret || ''
+    );
+  }
+
+  get STRIPE_API_OVERRIDES(): {
+    host?: string;
+    port?: number;
+    protocol?: 'http' | 'https';
+  } {
+    const stripe =
+      this.configService.get<AllConfigType['payment']>('payment')?.stripe;
+
+    return {
+      host: stripe?.apiHost,
+      port: stripe?.apiPort,
+      protocol: stripe?.apiProtocol,
+    };
+  }
+
+  get VNPAY(): AllConfigType['payment']['vnpay'] {
+    const vnpay =
+      this.configService.get<AllConfigType['payment']>('payment')?.vnpay;
+
+    return {
+      tmnCode: vnpay?.tmnCode || '',
+      hashSecret: vnpay?.hashSecret || '',
+      returnUrl: vnpay?.returnUrl || '',
+      ipnUrl: vnpay?.ipnUrl || '',
+      apiUrl: vnpay?.apiUrl || '',
+      paymentUrl:
+        vnpay?.paymentUrl ||
+        'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+      expiresMinutes: vnpay?.expiresMinutes || 15,
+    };
+  }
+
+  get VIETQR(): AllConfigType['payment']['vietqr'] {
+    const vietqr =
+      this.configService.get<AllConfigType['payment']>('payment')?.vietqr;
+
+    return {
+      bankBin: vietqr?.bankBin || '970407',
+      accountNumber: vietqr?.accountNumber || '19028269053022',
+      accountName: vietqr?.accountName || 'NGUYEN MINH TRI',
+      expiresMinutes: vietqr?.expiresMinutes || 15,
+    };
+  }
 }
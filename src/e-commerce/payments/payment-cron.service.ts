@@ -77,15 +77,22 @@ export class PaymentCronService {
             },
           });
 
-          // Restore inventory
+          // Restore inventory and release redeemed vouchers
           if (payment.orderPayment?.orderId) {
             const { CheckoutHelper } = await import(
               '../checkout/checkout.helper'
             );
+            const { VoucherHelper } = await import(
+              '../checkout/voucher.helper'
+            );
             await CheckoutHelper.restoreInventoryOnPaymentFailure(
               payment.orderPayment.orderId,
               tx,
             );
+            await VoucherHelper.releaseVouchersForOrder(
+              payment.orderPayment.orderId,
+              tx,
+            );
           }
         });
 
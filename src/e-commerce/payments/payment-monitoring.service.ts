@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../common/services/prisma.service';
 import { PaymentEventsService } from './payment-events.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
 import { PaymentProcessingStatus } from '@prisma/client';
 
 @Injectable()
@@ -11,6 +12,7 @@ export class PaymentMonitoringService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly paymentEvents: PaymentEventsService,
+    private readonly providerRegistry: PaymentProviderRegistry,
   ) {}
 
   /**
@@ -90,6 +92,9 @@ export class PaymentMonitoringService {
               order: true,
             },
           },
+          attempts: {
+            orderBy: { createdAt: 'desc' },
+          },
         },
       });
 
@@ -100,6 +105,13 @@ export class PaymentMonitoringService {
         this.logger.warn(`Marking expired payment ${payment.id} as failed`);
 
         try {
+          // Close the gateway transaction first: a retryable attempt (e.g. a
+          // declined card) could otherwise still be paid after the order is
+          // cancelled
+          await this.providerRegistry
+            .get(payment.provider)
+            .cancelPayment(payment);
+
           // Update payment status to failed
           await this.prisma.payment.update({
             where: { id: payment.id },
@@ -133,12 +145,14 @@ export class PaymentMonitoringService {
             data: { status: 'cancelled' },
           });
 
-          // Restore product inventory
+          // Restore product inventory and release redeemed vouchers
           const { CheckoutHelper } = await import(
             '../checkout/checkout.helper'
           );
+          const { VoucherHelper } = await import('../checkout/voucher.helper');
           await this.prisma.$transaction(async (tx) => {
             await CheckoutHelper.restoreInventoryOnPaymentFailure(orderId, tx);
+            await VoucherHelper.releaseVouchersForOrder(orderId, tx);
           });
 
           // Emit payment failure event via WebSocket
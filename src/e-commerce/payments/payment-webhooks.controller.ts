@@ -1,17 +1,22 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   Param,
+  Query,
   Headers,
   Logger,
-  BadRequestException,
   HttpCode,
   HttpStatus,
+  Req,
+  RawBodyRequest,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { PaymentProvider } from '@prisma/client';
+import { Public } from '../../common/decorators/public.decorator';
 import { PaymentsService } from './payments.service';
-import { WebhookSignatureHelper } from './helpers/webhook-signature.helper';
 import {
   VietQRWebhookDto,
   PaymentVerificationRequestDto,
@@ -22,10 +27,7 @@ import {
 export class PaymentWebhooksController {
   private readonly logger = new Logger(PaymentWebhooksController.name);
 
-  constructor(
-    private readonly paymentsService: PaymentsService,
-    private readonly webhookSignatureHelper: WebhookSignatureHelper,
-  ) {}
+  constructor(private readonly paymentsService: PaymentsService) {}
 
   @Post('vietqr/:paymentId')
   @HttpCode(HttpStatus.OK)
@@ -53,81 +55,21 @@ export class PaymentWebhooksController {
     try {
       this.logger.log(`VietQR webhook received for payment ${paymentId}`);
       this.logger.debug('Webhook body:', body);
-      this.logger.debug('Webhook headers:', headers);
 
-      // Validate webhook signature
-      const payload = JSON.stringify(body);
-      const isValidSignature = this.webhookSignatureHelper.verifyVietQRWebhook(
-        payload,
-        headers,
+      // Late or repeated transfers are answered without changing the payment
+      const result = await this.paymentsService.handleProviderWebhook(
+        PaymentProvider.vietqr,
+        { body, headers },
+        paymentId,
       );
 
-      if (!isValidSignature) {
-        this.logger.warn(`Invalid webhook signature for payment ${paymentId}`);
-        throw new BadRequestException('Invalid webhook signature');
-      }
-
-      // Validate required fields
-      if (!body.reference || !body.amount || !body.transactionId) {
-        throw new BadRequestException('Missing required webhook fields');
-      }
-
-      // Check if payment is already cancelled and expired (late webhook)
-      const payment = await this.paymentsService['prisma'].payment.findUnique({
-        where: { id: paymentId },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      });
-
-      if (payment) {
-        if (
-          payment.status === 'cancelled' &&
-          payment.expiresAt &&
-          new Date() > payment.expiresAt
-        ) {
-          this.logger.log(
-            `Payment ${paymentId} is cancelled and expired, ignoring late webhook`,
-          );
-          // Return 200 to prevent webhook retries (no-op)
-          return {
-            success: true,
-            message: 'Payment already cancelled and expired, webhook ignored',
-            paymentStatus: payment.status,
-            paymentId: payment.id,
-            orderId: payment.orderPayment?.orderId,
-          };
-        }
-
-        if (payment.status === 'succeeded') {
-          this.logger.log(
-            `Payment ${paymentId} already succeeded, webhook ignored (idempotent)`,
-          );
-          // Return 200 to prevent webhook retries (idempotent)
-          return {
-            success: true,
-            message: 'Payment already succeeded, webhook ignored',
-            paymentStatus: payment.status,
-            paymentId: payment.id,
-            orderId: payment.orderPayment?.orderId,
-          };
-        }
-      }
-
-      // Process payment verification using integrated webhook handling
-      const result = await this.paymentsService.handleVietQRWebhook(body);
-
       this.logger.log(
-        `VietQR webhook processed successfully for payment ${paymentId}`,
+        `VietQR webhook for payment ${paymentId} ${result.outcome}: ${result.message}`,
       );
 
       return {
         success: true,
-        message: 'Webhook processed successfully',
+        message: result.message,
         paymentStatus: result.status,
         paymentId: result.paymentId,
         orderId: result.orderId,
@@ -168,95 +110,19 @@ export class PaymentWebhooksController {
         `VietQR webhook received with reference ${body.reference}`,
       );
       this.logger.debug('Webhook body:', body);
-      this.logger.debug('Webhook headers:', headers);
 
-      // Validate webhook signature
-      const payload = JSON.stringify(body);
-      const isValidSignature = this.webhookSignatureHelper.verifyVietQRWebhook(
-        payload,
-        headers,
+      const result = await this.paymentsService.handleProviderWebhook(
+        PaymentProvider.vietqr,
+        { body, headers },
       );
 
-      if (!isValidSignature) {
-        this.logger.warn(
-          `Invalid webhook signature for reference ${body.reference}`,
-        );
-        throw new BadRequestException('Invalid webhook signature');
-      }
-
-      // Validate required fields
-      if (!body.reference || !body.amount || !body.transactionId) {
-        throw new BadRequestException('Missing required webhook fields');
-      }
-
-      // Find payment by reference (order code)
-      const payment = await this.paymentsService['prisma'].payment.findFirst({
-        where: {
-          orderPayment: {
-            order: {
-              code: body.reference.replace('ACTA ', ''), // Remove "ACTA " prefix
-            },
-          },
-          provider: 'vietqr',
-          status: 'pending',
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      });
-
-      if (!payment) {
-        this.logger.warn(`Payment not found for reference ${body.reference}`);
-        throw new BadRequestException('Payment not found for reference');
-      }
-
-      // Check if payment is already cancelled and expired (late webhook)
-      if (
-        payment.status === 'cancelled' &&
-        payment.expiresAt &&
-        new Date() > payment.expiresAt
-      ) {
-        this.logger.log(
-          `Payment ${payment.id} is cancelled and expired, ignoring late webhook`,
-        );
-        // Return 200 to prevent webhook retries (no-op)
-        return {
-          success: true,
-          message: 'Payment already cancelled and expired, webhook ignored',
-          paymentStatus: payment.status,
-          paymentId: payment.id,
-          orderId: payment.orderPayment?.orderId,
-        };
-      }
-
-      if (payment.status === 'succeeded') {
-        this.logger.log(
-          `Payment ${payment.id} already succeeded, webhook ignored (idempotent)`,
-        );
-        // Return 200 to prevent webhook retries (idempotent)
-        return {
-          success: true,
-          message: 'Payment already succeeded, webhook ignored',
-          paymentStatus: payment.status,
-          paymentId: payment.id,
-          orderId: payment.orderPayment?.orderId,
-        };
-      }
-
-      // Process payment verification using integrated webhook handling
-      const result = await this.paymentsService.handleVietQRWebhook(body);
-
       this.logger.log(
-        `VietQR webhook processed successfully for payment ${payment.id}`,
+        `VietQR webhook for payment ${result.paymentId} ${result.outcome}: ${result.message}`,
       );
 
       return {
         success: true,
-        message: 'Webhook processed successfully',
+        message: result.message,
         paymentStatus: result.status,
         paymentId: result.paymentId,
         orderId: result.orderId,
@@ -273,38 +139,93 @@ export class PaymentWebhooksController {
     }
   }
 
-  @Post('stripe/:paymentId')
+  @Public()
+  @Get('vnpay/ipn')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'VNPay IPN',
+    description:
+      'Handle VNPay server-to-server notifications (secure hash validated, answers with RspCode)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'VNPay acknowledgement ({ RspCode, Message })',
+  })
+  async handleVnpayIpn(@Query() query: Record<string, string>) {
+    this.logger.log(`VNPay IPN received for txnRef ${query.vnp_TxnRef}`);
+
+    // VNPay reads the RspCode body, so this always answers 200
+    const response = await this.paymentsService.handleVnpayIpn(query);
+
+    this.logger.log(
+      `VNPay IPN for txnRef ${query.vnp_TxnRef} answered ${response.RspCode}`,
+    );
+
+    return response;
+  }
+
+  @Public()
+  @Get('vnpay/return')
+  @ApiOperation({
+    summary: 'VNPay return URL',
+    description:
+      'Verify the VNPay redirect query and report the current payment status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment status retrieved successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid checksum or unknown transaction',
+  })
+  async handleVnpayReturn(@Query() query: Record<string, string>) {
+    return this.paymentsService.handleVnpayReturn(query);
+  }
+
+  @Public()
+  @Post('stripe')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Stripe payment webhook',
-    description: 'Handle Stripe payment callbacks',
+    description:
+      'Handle Stripe PaymentIntent and refund events with Stripe-Signature validation; the payment is resolved from the intent id or metadata',
   })
   @ApiResponse({
     status: 200,
     description: 'Webhook processed successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid signature or payload',
+  })
   async handleStripeWebhook(
-    @Param('paymentId') paymentId: string,
-    @Body() body: any,
-    @Headers() headers: any,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers() headers: Record<string, string>,
   ) {
+    this.logger.log('Stripe webhook received');
+
     try {
-      this.logger.log(`Stripe webhook received for payment ${paymentId}`);
-      this.logger.debug('Webhook body:', body);
-      this.logger.debug('Webhook headers:', headers);
+      const result = await this.paymentsService.handleProviderWebhook(
+        PaymentProvider.stripe,
+        { rawBody: req.rawBody, headers },
+      );
 
-      // In a real implementation, you would:
-      // 1. Verify the webhook signature using Stripe's SDK
-      // 2. Parse the payment status from the webhook
-      // 3. Update the payment status accordingly
+      this.logger.log(
+        `Stripe webhook for payment ${result.paymentId} ${result.outcome}: ${result.message}`,
+      );
 
-      // For now, we'll just return a placeholder response
       return {
         success: true,
-        message: 'Stripe webhook received (not implemented yet)',
-        paymentId,
+        message: result.message,
+        paymentStatus: result.status,
+        paymentId: result.paymentId,
+        orderId: result.orderId,
       };
     } catch (error) {
       this.logger.error(`Error processing Stripe webhook: ${error.message}`);
+
+      // Non-2xx makes Stripe retry the delivery later
       throw error;
     }
   }
@@ -39,3 +39,6 @@ export const PAYMENT_ROOMS = {
   PAYMENT_MONITORING: (paymentId: string) => `payment_monitoring_${paymentId}`,
   ADMIN_PAYMENTS: 'admin_payments',
 } as const;
+
+// Injection token for the list of PaymentProviderAdapter implementations
+export const PAYMENT_PROVIDER_ADAPTERS = 'PAYMENT_PROVIDER_ADAPTERS';
@@ -6,6 +6,7 @@ import {
   Get,
   UseGuards,
   Logger,
+  Req,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -14,6 +15,8 @@ import {
   ApiTags,
   ApiParam,
 } from '@nestjs/swagger';
+import { Request } from 'express';
+import * as requestIp from 'request-ip';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../users/users.decorator';
 import { JwtPayload } from '../../auth/jwt-payload';
@@ -63,10 +66,16 @@ export class PaymentsController {
   async createPayment(
     @CurrentUser() user: JwtPayload,
     @Body() request: InitiatePaymentDto,
+    @Req() req: Request,
   ): Promise<PaymentResponseDto> {
     console.log(request);
     // Add userId to request for idempotency check
-    const requestWithUser = { ...request, userId: user.id };
+    const requestWithUser = {
+      ...request,
+      userId: user.id,
+      clientIp:
+        requestIp.getClientIp(req as unknown as requestIp.Request) ?? undefined,
+    };
     return this.paymentsService.createPayment(requestWithUser);
   }
 
@@ -135,6 +144,31 @@ export class PaymentsController {
     return this.paymentsService.getPaymentStatus(paymentId);
   }
 
+  @Post(':paymentId/sync')
+  @ApiOperation({
+    summary: 'Sync payment status',
+    description:
+      'Ask the payment gateway for the result of a pending payment and apply it',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment status synchronised',
+    type: PaymentCompletionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - payment not found or gateway error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async syncPaymentStatus(
+    @Param('paymentId') paymentId: string,
+  ): Promise<PaymentCompletionResponseDto> {
+    return this.paymentsService.syncPaymentStatus(paymentId);
+  }
+
   @Post(':paymentId/complete')
   @ApiOperation({
     summary: 'Complete payment',
@@ -13,7 +13,7 @@ import { PrismaService } from '../../common/services/prisma.service';
 import { PaymentsService } from './payments.service';
 import { PaymentEventsService } from './payment-events.service';
 import { PAYMENT_WEBSOCKET_EVENTS, PAYMENT_ROOMS } from './payments.constants';
-import { PaymentProcessingStatus, PaymentStatus } from '@prisma/client';
+import { OrderStatus, PaymentProcessingStatus } from '@prisma/client';
 
 @WebSocketGateway({
   cors: {
@@ -735,4 +735,33 @@ export class PaymentsGateway implements OnGatewayInit, OnModuleInit {
         message: 'User cancelled payment',
       });
   }
+
+  /**
+   * Emit an order status change to the buyer and to back-office screens
+   */
+  emitOrderStatusUpdate(
+    orderId: string,
+    userId: string | null,
+    status: OrderStatus,
+    message: string,
+  ) {
+    const payload = {
+      orderId,
+      status,
+      message,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.server
+      .to(PAYMENT_ROOMS.ORDER_PAYMENTS(orderId))
+      .emit(PAYMENT_WEBSOCKET_EVENTS.ORDER_STATUS_UPDATED, payload);
+    if (userId) {
+      this.server
+        .to(PAYMENT_ROOMS.USER_PAYMENTS(userId))
+        .emit(PAYMENT_WEBSOCKET_EVENTS.ORDER_STATUS_UPDATED, payload);
+    }
+    this.server
+      .to(PAYMENT_ROOMS.ADMIN_PAYMENTS)
+      .emit(PAYMENT_WEBSOCKET_EVENTS.ORDER_STATUS_UPDATED, payload);
+  }
 }
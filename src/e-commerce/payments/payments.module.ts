@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
 import { ScheduleModule } from '@nestjs/schedule';
 import { PaymentsController } from './payments.controller';
 import { PaymentWebhooksController } from './payment-webhooks.controller';
@@ -6,35 +7,66 @@ import { PaymentsService } from './payments.service';
 import { PaymentCronService } from './payment-cron.service';
 import { PaymentConfigService } from './payment-config.service';
 import { CashProvider } from './providers/cash.provider';
+import { StripeProvider } from './providers/stripe.provider';
+import { VnpayProvider } from './providers/vnpay.provider';
+import { VietQRProvider } from './providers/vietqr.provider';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { PAYMENT_PROVIDER_ADAPTERS } from './payments.constants';
+import { PaymentProviderAdapter } from './types/payment-provider.types';
 import { PrismaService } from '../../common/services/prisma.service';
 import { RefundsService } from './refunds.service';
+import { RefundsController } from './refunds.controller';
 import { WebhookSignatureHelper } from './helpers/webhook-signature.helper';
 import { PaymentsExternalController } from './payments-external.controller';
 import { AffiliateQueueService } from './affiliate-queue.service';
+import { AffiliateQueueStore } from './affiliate-queue.store';
+import { AffiliateQueueController } from './affiliate-queue.controller';
+import { RedisService } from '../../common/services/redis.service';
 import { PaymentsGateway } from './payments.gateway';
 import { PaymentMonitoringService } from './payment-monitoring.service';
 import { PaymentEventsService } from './payment-events.service';
+import { AffiliateModule } from '../../affiliate/affiliate.module';
 
 @Module({
-  imports: [ScheduleModule.forRoot()],
+  imports: [ScheduleModule.forRoot(), HttpModule, AffiliateModule],
   controllers: [
     PaymentsController,
     PaymentWebhooksController,
     PaymentsExternalController,
+    RefundsController,
+    AffiliateQueueController,
   ],
   providers: [
     PaymentsService,
     PaymentCronService,
     PaymentConfigService,
     CashProvider,
+    StripeProvider,
+    VnpayProvider,
+    VietQRProvider,
+    // New gateways: implement PaymentProviderAdapter and add them here
+    {
+      provide: PAYMENT_PROVIDER_ADAPTERS,
+      useFactory: (...adapters: PaymentProviderAdapter[]) => adapters,
+      inject: [VietQRProvider, CashProvider, StripeProvider, VnpayProvider],
+    },
+    PaymentProviderRegistry,
     PrismaService,
     RefundsService,
     WebhookSignatureHelper,
     AffiliateQueueService,
+    AffiliateQueueStore,
+    RedisService,
     PaymentsGateway,
     PaymentMonitoringService,
     PaymentEventsService,
   ],
-  exports: [PaymentsService, CashProvider, RefundsService, PaymentsGateway],
+  exports: [
+    PaymentsService,
+    CashProvider,
+    PaymentProviderRegistry,
+    RefundsService,
+    PaymentsGateway,
+  ],
 })
 export class PaymentsModule {}
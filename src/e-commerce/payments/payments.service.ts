@@ -8,44 +8,38 @@ import {
   Prisma,
 } from '@prisma/client';
 import { PrismaService } from '../../common/services/prisma.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
 import {
-  CashProvider,
-  CashPaymentRequest,
-  CashPaymentResponse,
-} from './providers/cash.provider';
+  VnpayIpnResponse,
+  VNPAY_IPN_RESPONSES,
+} from './providers/vnpay.provider';
 import {
-  PaymentRequest,
-  PaymentResponse,
   PaymentCompletionResponse,
-  PaymentWithOrderPayment,
-  PendingPayment,
+  PaymentWebhookResult,
 } from './types/payment.types';
+import {
+  PaymentGatewayStatus,
+  PaymentWebhookEvent,
+  PaymentWebhookInput,
+  PaymentWithAttempts,
+  PaymentWithOrder,
+} from './types/payment-provider.types';
 import {
   InitiatePaymentDto,
   PaymentResponseDto,
   PaymentStatusResponseDto,
   PaymentVerificationRequestDto,
-  VietQRWebhookDto,
 } from './dto/payment-response.dto';
 import { PaymentEventsService } from './payment-events.service';
+import { CashflowHelper } from '../cashflows/cashflow.helper';
 
 @Injectable()
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
 
-  // VietQR configuration - should come from environment variables
-  private readonly BANK_BIN = process.env.VIETQR_BANK_BIN || '970407'; // Example: Vietcombank
-  private readonly ACCOUNT_NUMBER =
-    process.env.VIETQR_ACCOUNT_NUMBER || '19028269053022';
-  private readonly ACCOUNT_NAME =
-    process.env.VIETQR_ACCOUNT_NAME || 'NGUYEN MINH TRI';
-  private readonly QR_EXPIRES_MINUTES = process.env.VIETQR_EXPIRES_MINUTES
-    ? parseInt(process.env.VIETQR_EXPIRES_MINUTES)
-    : 15; // Default 15 minutes for real-world scenarios
-
   constructor(
     private readonly prisma: PrismaService,
-    private readonly cashProvider: CashProvider,
+    private readonly providerRegistry: PaymentProviderRegistry,
     private readonly paymentEvents: PaymentEventsService,
   ) {}
 
@@ -55,17 +49,23 @@ export class PaymentsService {
   async createPayment(
     request: InitiatePaymentDto,
   ): Promise<PaymentResponseDto> {
-    const { orderId, paymentId, method, provider, idempotencyKey } = request;
+    const { orderId, method, idempotencyKey } = request;
+
+    // Cash on delivery never goes through a gateway
+    const provider =
+      method === PaymentMethod.cash ? PaymentProvider.cash : request.provider;
 
     try {
       this.logger.log(
         `Creating payment for order ${orderId} with provider ${provider}`,
       );
 
+      const adapter = this.providerRegistry.get(provider);
+
       // Validate method/provider combination
-      if (method === 'transfer' && provider !== 'vietqr') {
+      if (!adapter.supportedMethods.includes(method)) {
         throw new BadRequestException(
-          'Phương thức chuyển khoản chỉ hỗ trợ VietQR',
+          `Nhà cung cấp ${provider} không hỗ trợ phương thức thanh toán ${method}`,
         );
       }
 
@@ -103,7 +103,13 @@ export class PaymentsService {
         include: {
           order: {
             include: {
-              customer: true,
+              customer: {
+                include: {
+                  user: {
+                    select: { email: true },
+                  },
+                },
+              },
             },
           },
         },
@@ -121,19 +127,26 @@ export class PaymentsService {
         throw new BadRequestException('Order is not in a payable state');
       }
 
+      // Cross-check/overwrite amount from orderPayment.amount (never trust client)
+      const orderTotal = Number(orderPayment.amount || 0);
+      if (orderTotal <= 0) {
+        throw new BadRequestException('Order total is invalid');
+      }
+
       // Check if a Payment record already exists for this OrderPayment
-      let payment = await this.prisma.payment.findFirst({
-        where: {
-          orderPaymentId: orderPayment.id,
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
+      let payment: PaymentWithOrder | null =
+        await this.prisma.payment.findFirst({
+          where: {
+            orderPaymentId: orderPayment.id,
+          },
+          include: {
+            orderPayment: {
+              include: {
+                order: true,
+              },
             },
           },
-        },
-      });
+        });
 
       // If no Payment record exists, create one
       if (!payment) {
@@ -160,551 +173,660 @@ export class PaymentsService {
         });
       }
 
-      // Cross-check/overwrite amount from orderPayment.amount (never trust client)
-      const orderTotal = Number(orderPayment.amount || 0);
-      if (orderTotal <= 0) {
-        throw new BadRequestException('Order total is invalid');
-      }
-
-      // Route to appropriate provider
-      switch (provider) {
-        case PaymentProvider.vietqr:
-          return await this.handleVietQRPayment(request, orderTotal);
-        case PaymentProvider.stripe:
-          return await this.handleStripePayment(request, orderTotal);
-        default:
-          // For cash payments or other methods, use cash provider
-          return await this.handleCashPayment(request, orderTotal);
-      }
-    } catch (error) {
-      this.logger.error(`Payment creation failed: ${error.message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * Handle VietQR webhook from bank
-   */
-  async handleVietQRWebhook(
-    webhookData: VietQRWebhookDto,
-  ): Promise<PaymentCompletionResponse> {
-    try {
-      this.logger.log(
-        `Processing VietQR webhook: ${JSON.stringify(webhookData)}`,
-      );
-
-      // Parse reference to get order code and payment ID
-      const referenceInfo = this.parseVietQRReference(webhookData.reference);
-
-      if (!referenceInfo.orderCode) {
-        throw new BadRequestException('Invalid reference format in webhook');
-      }
+      // The order's Payment row may have been created for another provider
+      if (payment.provider !== provider) {
+        if (payment.status !== PaymentProcessingStatus.created) {
+          throw new BadRequestException(
+            'Đơn hàng đang có giao dịch thanh toán khác đang được xử lý',
+          );
+        }
 
-      // Find payment by order code
-      const payment = await this.prisma.payment.findFirst({
-        where: {
-          orderPayment: {
-            order: {
-              code: referenceInfo.orderCode,
-            },
-          },
-          provider: 'vietqr',
-          status: PaymentProcessingStatus.pending,
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
+        payment = await this.prisma.payment.update({
+          where: { id: payment.id },
+          data: { provider, method },
+          include: {
+            orderPayment: {
+              include: {
+                order: true,
+              },
             },
           },
-        },
-      });
-
-      if (!payment) {
-        throw new BadRequestException(
-          `Payment not found for order ${referenceInfo.orderCode}`,
-        );
+        });
       }
 
-      // Verify amount matches
-      if (webhookData.amount !== Number(payment.amount)) {
-        this.logger.warn(
-          `Amount mismatch: expected ${payment.amount}, got ${webhookData.amount}`,
-        );
-        throw new BadRequestException(
-          'Payment amount does not match order total',
-        );
+      if (
+        payment.status === PaymentProcessingStatus.pending &&
+        payment.expiresAt &&
+        new Date() > payment.expiresAt
+      ) {
+        await this.handlePaymentExpiration(payment.id, orderId);
+        throw new BadRequestException('Payment has expired');
       }
 
-      // Emit webhook received event via WebSocket
-      if (payment.orderPayment?.orderId) {
-        this.paymentEvents.emitWebhookReceived(
-          payment.id,
-          payment.orderPayment.orderId,
-          webhookData,
-        );
-      }
+      const result = await adapter.createPayment({
+        payment,
+        orderId,
+        orderCode: orderPayment.order.code,
+        method: payment.method,
+        amount: orderTotal,
+        currency: payment.currency,
+        customerEmail: orderPayment.order.customer?.user?.email ?? undefined,
+        idempotencyKey,
+        clientIp: request.clientIp,
+        bankCode: request.bankCode,
+      });
 
-      // Process payment completion
-      if (!payment.orderPayment) {
-        throw new BadRequestException(
-          'Payment is not associated with an order',
-        );
+      if (idempotencyKey && payment.idempotencyKey !== idempotencyKey) {
+        await this.prisma.payment.update({
+          where: { id: payment.id },
+          data: { idempotencyKey },
+        });
       }
 
-      const result = await this.completePaymentTransaction(
+      // Emit payment created event via WebSocket
+      this.paymentEvents.emitPaymentStatusUpdate(
         payment.id,
-        payment.orderPayment.orderId,
-        webhookData.transactionId,
-        webhookData,
+        orderId,
+        result.status,
+        result.message,
+        result.expiresAt,
       );
 
-      // Emit webhook processed event via WebSocket
-      if (payment.orderPayment?.orderId) {
-        this.paymentEvents.emitWebhookProcessed(
-          payment.id,
-          payment.orderPayment.orderId,
-          result,
-        );
-      }
-
-      return result;
+      return {
+        success: true,
+        paymentId: payment.id,
+        orderId,
+        orderCode: orderPayment.order.code,
+        provider,
+        method: payment.method,
+        status: result.status,
+        amount: orderTotal,
+        currency: payment.currency,
+        expiresAt: result.expiresAt,
+        qrContent: result.qrContent || '',
+        qrImageDataUrl: undefined, // Will be generated by frontend if needed
+        clientSecret: result.clientSecret,
+        checkoutUrl: result.checkoutUrl,
+        pollingUrl: `/payments/${payment.id}/status`,
+        message: result.message,
+      };
     } catch (error) {
-      this.logger.error(`VietQR webhook processing failed: ${error.message}`);
+      this.logger.error(`Payment creation failed: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * Parse VietQR reference to extract order code
+   * Handle a gateway webhook: verify it with the provider adapter and apply it
    */
-  private parseVietQRReference(reference: string): {
-    orderCode?: string;
-    paymentId?: string;
-  } {
-    // Expected format: "ACTA {orderCode}" or "ACTA {orderCode} | pay:{paymentId}"
-    if (reference.startsWith('ACTA ')) {
-      const parts = reference.split(' | pay:');
-      const orderCode = parts[0].replace('ACTA ', '');
-      const paymentId = parts[1];
+  async handleProviderWebhook(
+    provider: PaymentProvider,
+    input: PaymentWebhookInput,
+    paymentId?: string,
+  ): Promise<PaymentWebhookResult> {
+    const event = this.providerRegistry.get(provider).parseWebhook(input);
+
+    this.logger.log(
+      `Processing ${provider} webhook ${event.eventId || event.type}${paymentId ? ` for payment ${paymentId}` : ''}`,
+    );
 
-      return {
-        orderCode,
-        paymentId,
-      };
+    const result = await this.applyWebhookEvent(provider, event, paymentId);
+
+    if (
+      result.outcome === 'not_found' ||
+      result.outcome === 'amount_mismatch'
+    ) {
+      throw new BadRequestException(result.message);
     }
 
-    return {};
+    return result;
   }
 
   /**
-   * Verify payment - Step 3: Verify & Complete
+   * Apply a verified gateway event to its payment (idempotent)
    */
-  async verifyPayment(
-    request: PaymentVerificationRequestDto,
-  ): Promise<PaymentCompletionResponse> {
-    const { paymentId, provider, amount, currency, providerRef, rawPayload } =
-      request;
+  async applyWebhookEvent(
+    provider: PaymentProvider,
+    event: PaymentWebhookEvent,
+    paymentId?: string,
+  ): Promise<PaymentWebhookResult> {
+    const { payment, attempt } = await this.findWebhookTarget(
+      provider,
+      event,
+      paymentId,
+    );
 
-    try {
-      this.logger.log(
-        `Verifying payment ${paymentId} with provider ${provider}`,
-      );
+    if (!payment || !payment.orderPayment) {
+      return {
+        success: false,
+        paymentId: paymentId || '',
+        orderId: '',
+        status: PaymentProcessingStatus.failed,
+        outcome: 'not_found',
+        message: 'Payment not found',
+      };
+    }
 
-      // Load Payment with orderPayment.order
-      const payment = await this.prisma.payment.findFirst({
-        where: {
-          id: paymentId,
-          orderPayment: {
-            isNot: null,
-          },
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      });
+    const orderId = payment.orderPayment.orderId;
+    const ignored = (message: string): PaymentWebhookResult => ({
+      success: true,
+      paymentId: payment.id,
+      orderId,
+      status: payment.status,
+      outcome: 'ignored',
+      message,
+    });
 
-      if (!payment) {
-        throw new BadRequestException('Payment not found');
-      }
+    if (!event.status) {
+      return ignored(`${provider} event ${event.type} ignored`);
+    }
 
-      const order = payment.orderPayment?.order;
-      if (!order) {
-        throw new BadRequestException('Order not found for payment');
-      }
+    // The customer may still finish an earlier attempt (an older VNPay URL or
+    // intent); its success settles the payment, its failure leaves it pending
+    const earlierAttempt =
+      !!event.providerRef && payment.providerRef !== event.providerRef;
 
-      // If status is already succeeded, return success (idempotent)
+    this.paymentEvents.emitWebhookReceived(payment.id, orderId, {
+      provider,
+      eventId: event.eventId,
+      type: event.type,
+    });
+
+    let result: PaymentWebhookResult;
+
+    if (event.amountRefunded !== undefined) {
+      result = await this.recordGatewayRefund(payment, provider, event);
+    } else if (event.status === PaymentProcessingStatus.succeeded) {
       if (payment.status === PaymentProcessingStatus.succeeded) {
-        this.logger.log(
-          `Payment ${paymentId} already succeeded, returning success`,
-        );
         return {
           success: true,
-          paymentId,
-          orderId: order.id,
-          status: PaymentProcessingStatus.succeeded,
+          paymentId: payment.id,
+          orderId,
+          status: payment.status,
+          outcome: 'duplicate',
           message: 'Payment already completed successfully',
         };
       }
 
-      // If status is not pending, reject
       if (payment.status !== PaymentProcessingStatus.pending) {
-        throw new BadRequestException(
-          `Payment is not in pending state. Current status: ${payment.status}`,
+        this.logger.warn(
+          `${provider} reported success but payment ${payment.id} is ${payment.status}`,
         );
-      }
-
-      // Check if payment has expired
-      if (payment.expiresAt && new Date() > payment.expiresAt) {
-        this.logger.warn(`Payment ${paymentId} has expired, marking as failed`);
-
-        // Mark as failed and restore inventory
-        await this.handlePaymentExpiration(paymentId, order.id);
-
         return {
           success: false,
-          paymentId,
-          orderId: order.id,
-          status: PaymentProcessingStatus.failed,
-          message: 'Payment has expired',
+          paymentId: payment.id,
+          orderId,
+          status: payment.status,
+          outcome: 'duplicate',
+          message: `Payment is not in pending state. Current status: ${payment.status}`,
         };
       }
 
-      // Validate amount and currency
-      const orderTotal = Number(payment.orderPayment?.amount || 0);
-      if (amount && amount !== orderTotal) {
+      const expectedAmount = Number(attempt?.amount ?? payment.amount);
+      if (event.amount !== expectedAmount) {
         this.logger.warn(
-          `Amount mismatch: expected ${orderTotal}, got ${amount}`,
-        );
-        throw new BadRequestException(
-          'Payment amount does not match order total',
+          `${provider} amount mismatch for payment ${payment.id}: expected ${expectedAmount}, got ${event.amount}`,
         );
+        return {
+          success: false,
+          paymentId: payment.id,
+          orderId,
+          status: payment.status,
+          outcome: 'amount_mismatch',
+          message: 'Payment amount does not match order total',
+        };
       }
 
-      if (currency && currency !== 'VND') {
-        throw new BadRequestException('Payment currency must be VND');
+      await this.updateWebhookAttempt(attempt?.id, event);
+      const completion = await this.completePaymentTransaction(
+        payment.id,
+        orderId,
+        event.transactionId || event.providerRef,
+        { provider, eventId: event.eventId, type: event.type },
+      );
+      result = { ...completion, outcome: 'processed' };
+    } else if (
+      event.status === PaymentProcessingStatus.failed ||
+      event.status === PaymentProcessingStatus.cancelled
+    ) {
+      if (payment.status !== PaymentProcessingStatus.pending) {
+        return {
+          ...ignored(`Payment already ${payment.status}, webhook ignored`),
+          outcome: 'duplicate',
+        };
       }
 
-      // Process payment completion in a single transaction
-      return await this.completePaymentTransaction(
-        paymentId,
-        order.id,
-        providerRef,
-        rawPayload,
+      await this.updateWebhookAttempt(attempt?.id, event);
+
+      // Only record the declined try; the order is released on cancel/expiry
+      if (event.retryable || earlierAttempt) {
+        result = {
+          success: false,
+          paymentId: payment.id,
+          orderId,
+          status: payment.status,
+          outcome: 'processed',
+          message: event.failureReason || `Payment attempt ${event.status}`,
+        };
+        this.paymentEvents.emitWebhookProcessed(payment.id, orderId, result);
+        return result;
+      }
+
+      await this.handlePaymentFailure(
+        payment.id,
+        orderId,
+        event.status,
+        event.type,
+        event.failureReason || `${provider} payment ${event.status}`,
       );
-    } catch (error) {
-      this.logger.error(`Payment verification failed: ${error.message}`);
-      throw error;
+      result = {
+        success: false,
+        paymentId: payment.id,
+        orderId,
+        status: event.status,
+        outcome: 'processed',
+        message: event.failureReason || `Payment ${event.status}`,
+      };
+    } else {
+      return ignored(`${provider} event ${event.type} ignored`);
     }
+
+    this.paymentEvents.emitWebhookProcessed(payment.id, orderId, result);
+
+    return result;
   }
 
   /**
-   * Complete payment transaction in a single database transaction
+   * Locate the payment (and attempt) a gateway event refers to
    */
-  private async completePaymentTransaction(
-    paymentId: string,
-    orderId: string,
-    providerRef?: string,
-    rawPayload?: any,
-  ): Promise<PaymentCompletionResponse> {
-    return await this.prisma.$transaction(async (tx) => {
-      // Update Payment
-      const updatedPayment = await tx.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentProcessingStatus.succeeded,
-          succeededAt: new Date(),
-          providerRef,
-          responseMeta: {
-            rawPayload,
-            verifiedAt: new Date().toISOString(),
-            verificationMethod: 'webhook',
-          },
+  private async findWebhookTarget(
+    provider: PaymentProvider,
+    event: PaymentWebhookEvent,
+    paymentId?: string,
+  ) {
+    const include = {
+      orderPayment: {
+        include: {
+          order: true,
         },
-      });
+      },
+    };
 
-      // Update Order
-      const updatedOrder = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'completed',
-          paidAt: new Date(),
-          completedAt: new Date(),
+    if (event.providerRef) {
+      const attempt = await this.prisma.paymentAttempt.findFirst({
+        where: {
+          providerRef: event.providerRef,
+          payment: { provider },
+        },
+        include: {
+          payment: { include },
         },
       });
 
-      // Update OrderPayment
-      await tx.orderPayment.updateMany({
-        where: {
-          orderId: orderId,
-          payment: {
-            id: paymentId,
-          },
-        },
-        data: {
-          status: PaymentStatus.paid,
-        },
-      });
+      if (attempt && (!paymentId || attempt.paymentId === paymentId)) {
+        return { payment: attempt.payment, attempt };
+      }
 
-      // Commit inventory
-      const { CheckoutHelper } = await import('../checkout/checkout.helper');
-      await CheckoutHelper.commitInventoryOnPaymentSuccess(orderId, tx);
+      // Stripe posts every event to one endpoint; fall back to the intent metadata
+      if (!event.paymentId || attempt) {
+        return { payment: null, attempt: null };
+      }
+    }
 
-      this.logger.log(
-        `Payment ${paymentId} completed successfully for order ${orderId}`,
-      );
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        provider,
+        ...(paymentId || event.paymentId
+          ? { id: paymentId || event.paymentId }
+          : {
+              orderPayment: {
+                order: {
+                  code: event.orderCode,
+                },
+              },
+            }),
+      },
+      include,
+    });
 
-      // Emit payment success event via WebSocket
-      this.paymentEvents.emitPaymentSuccess(
-        paymentId,
-        orderId,
-        Number(updatedPayment.amount),
-      );
+    return { payment, attempt: null };
+  }
 
-      return {
-        success: true,
-        paymentId,
-        orderId,
-        status: PaymentProcessingStatus.succeeded,
-        message: 'Payment completed successfully',
-      };
+  /**
+   * Mirror the outcome of a gateway event onto the matching PaymentAttempt
+   */
+  private async updateWebhookAttempt(
+    attemptId: string | undefined,
+    event: PaymentWebhookEvent,
+  ): Promise<void> {
+    if (!attemptId || !event.status) {
+      return;
+    }
+
+    await this.prisma.paymentAttempt.update({
+      where: { id: attemptId },
+      data: {
+        status: event.status,
+        responseMeta: event.raw,
+      },
     });
   }
 
   /**
-   * Handle payment expiration
+   * Store a final gateway query result on the current attempt, as a webhook
+   * would have (e.g. the VNPay pay date its refund API requires)
    */
-  private async handlePaymentExpiration(
-    paymentId: string,
-    orderId: string,
+  private async updateSyncedAttempt(
+    payment: PaymentWithAttempts,
+    gatewayStatus: PaymentGatewayStatus,
   ): Promise<void> {
-    try {
-      // Update payment status to failed
-      await this.prisma.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentProcessingStatus.failed,
-          failedAt: new Date(),
-          responseMeta: {
-            expiredAt: new Date().toISOString(),
-            reason: 'payment_timeout',
-          },
+    const attempt = payment.attempts.find(
+      (a) => a.providerRef === payment.providerRef,
+    );
+    if (
+      !attempt ||
+      !gatewayStatus.raw ||
+      gatewayStatus.status === PaymentProcessingStatus.pending
+    ) {
+      return;
+    }
+
+    await this.prisma.paymentAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        status: gatewayStatus.status,
+        responseMeta: gatewayStatus.raw,
+      },
+    });
+  }
+
+  /**
+   * Record a refund issued on the gateway (dashboard or API) against the payment
+   */
+  private async recordGatewayRefund(
+    payment: PaymentWithOrder,
+    provider: PaymentProvider,
+    event: PaymentWebhookEvent,
+  ): Promise<PaymentWebhookResult> {
+    const orderId = payment.orderPayment?.orderId || '';
+    const source = `${provider}_webhook`;
+
+    // Gateways retry deliveries - the event id makes this idempotent
+    if (event.eventId) {
+      const existing = await this.prisma.paymentTransaction.findFirst({
+        where: {
+          paymentId: payment.id,
+          type: TransactionType.refund,
+          providerRef: event.eventId,
         },
       });
 
-      // Update order payment status
-      await this.prisma.orderPayment.updateMany({
+      if (existing) {
+        return {
+          success: true,
+          paymentId: payment.id,
+          orderId,
+          status: payment.status,
+          outcome: 'duplicate',
+          message: 'Refund already recorded',
+        };
+      }
+    }
+
+    // The gateway reports the running total; only record what we do not know of
+    const [refunds, recorded] = await Promise.all([
+      this.prisma.paymentRefund.aggregate({
         where: {
-          orderId: orderId,
-          payment: {
-            id: paymentId,
-          },
+          paymentId: payment.id,
+          status: { in: ['processing', 'succeeded'] },
         },
-        data: {
-          status: PaymentStatus.failed,
+        _sum: { amount: true },
+      }),
+      this.prisma.paymentTransaction.aggregate({
+        where: {
+          paymentId: payment.id,
+          type: TransactionType.refund,
+          meta: { path: ['source'], equals: source },
         },
-      });
+        _sum: { amount: true },
+      }),
+    ]);
+    const knownAmount =
+      Number(refunds._sum.amount || 0) + Number(recorded._sum.amount || 0);
+    const newAmount = (event.amountRefunded || 0) - knownAmount;
+    const isFullRefund = event.status === PaymentProcessingStatus.refunded;
+
+    await this.prisma.$transaction(async (tx) => {
+      if (newAmount > 0) {
+        await tx.paymentTransaction.create({
+          data: {
+            paymentId: payment.id,
+            type: TransactionType.refund,
+            amount: new Prisma.Decimal(newAmount),
+            currency: payment.currency,
+            providerRef: event.eventId,
+            meta: {
+              source,
+              providerRef: event.providerRef,
+              amountRefunded: event.amountRefunded,
+              isFullRefund,
+            },
+          },
+        });
+      }
 
-      // Update order status to cancelled
-      await this.prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'cancelled' },
-      });
+      if (isFullRefund) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentProcessingStatus.refunded,
+            refundedAt: new Date(),
+          },
+        });
 
-      // Restore product inventory
-      const { CheckoutHelper } = await import('../checkout/checkout.helper');
-      await this.prisma.$transaction(async (tx) => {
-        await CheckoutHelper.restoreInventoryOnPaymentFailure(orderId, tx);
-      });
+        await tx.orderPayment.updateMany({
+          where: {
+            payment: {
+              id: payment.id,
+            },
+          },
+          data: {
+            status: PaymentStatus.refunded,
+          },
+        });
+      }
+    });
 
-      // Emit payment failure event via WebSocket
-      this.paymentEvents.emitPaymentFailure(
-        paymentId,
-        orderId,
-        'Payment expired',
-      );
+    this.logger.log(
+      `${provider} refund recorded for payment ${payment.id} (full refund: ${isFullRefund})`,
+    );
 
-      this.logger.log(
-        `Payment ${paymentId} expired and inventory restored for order ${orderId}`,
-      );
+    return {
+      success: true,
+      paymentId: payment.id,
+      orderId,
+      status: isFullRefund
+        ? PaymentProcessingStatus.refunded
+        : PaymentProcessingStatus.succeeded,
+      outcome: 'processed',
+      message: 'Refund recorded',
+    };
+  }
+
+  /**
+   * Handle VNPay IPN (server-to-server result notification)
+   */
+  async handleVnpayIpn(query: Record<string, any>): Promise<VnpayIpnResponse> {
+    let event: PaymentWebhookEvent;
+    try {
+      event = this.providerRegistry
+        .get(PaymentProvider.vnpay)
+        .parseWebhook({ headers: {}, query });
+    } catch {
+      this.logger.warn(`Invalid VNPay IPN checksum for ${query.vnp_TxnRef}`);
+      return VNPAY_IPN_RESPONSES.INVALID_CHECKSUM;
+    }
+
+    try {
+      // VNPay retries IPN until it gets a response - transitions apply once
+      const result = await this.applyWebhookEvent(PaymentProvider.vnpay, event);
+
+      switch (result.outcome) {
+        case 'processed':
+          return VNPAY_IPN_RESPONSES.SUCCESS;
+        case 'not_found':
+          return VNPAY_IPN_RESPONSES.ORDER_NOT_FOUND;
+        case 'amount_mismatch':
+          return VNPAY_IPN_RESPONSES.INVALID_AMOUNT;
+        default:
+          return VNPAY_IPN_RESPONSES.ALREADY_CONFIRMED;
+      }
     } catch (error) {
-      this.logger.error(`Error handling payment expiration: ${error.message}`);
+      this.logger.error(`VNPay IPN processing failed: ${error.message}`);
+      return VNPAY_IPN_RESPONSES.UNKNOWN_ERROR;
     }
   }
 
   /**
-   * Handle VietQR payment
+   * Handle VNPay return URL (browser redirect) - read-only, IPN settles
    */
-  private async handleVietQRPayment(
-    request: InitiatePaymentDto,
-    orderTotal: number,
-  ): Promise<PaymentResponseDto> {
-    const { orderId, paymentId, idempotencyKey } = request;
-
-    // Check for existing pending VietQR payment (idempotency)
-    const existingPendingPayment = await this.prisma.payment.findFirst({
+  async handleVnpayReturn(
+    query: Record<string, any>,
+  ): Promise<PaymentStatusResponseDto & { verified: boolean }> {
+    const event = this.providerRegistry
+      .get(PaymentProvider.vnpay)
+      .parseWebhook({ headers: {}, query });
+
+    const attempt = await this.prisma.paymentAttempt.findFirst({
       where: {
-        orderPayment: {
-          orderId: orderId,
-        },
-        provider: 'vietqr',
-        status: PaymentProcessingStatus.pending,
-        expiresAt: {
-          gt: new Date(), // Not expired
-        },
-      },
-      include: {
-        orderPayment: {
-          include: {
-            order: true,
-          },
+        providerRef: event.providerRef,
+        payment: {
+          provider: PaymentProvider.vnpay,
         },
       },
     });
 
-    if (existingPendingPayment) {
-      this.logger.log(
-        `Returning existing pending VietQR payment for order ${orderId}`,
-      );
-      return this.mapPaymentToResponseDto(existingPendingPayment);
+    if (!attempt) {
+      throw new BadRequestException('Payment not found');
     }
 
-    // Check for expired pending payment (race condition handling)
-    const expiredPendingPayment = await this.prisma.payment.findFirst({
-      where: {
-        orderPayment: {
-          orderId: orderId,
-        },
-        provider: 'vietqr',
-        status: PaymentProcessingStatus.pending,
-        expiresAt: {
-          lt: new Date(), // Expired
+    const status = await this.getPaymentStatus(attempt.paymentId);
+
+    return {
+      ...status,
+      verified: true,
+      // IPN may land after the redirect; report what VNPay told the browser
+      message:
+        status.status === PaymentProcessingStatus.pending
+          ? `VNPay result ${event.status}, awaiting confirmation`
+          : status.message,
+    };
+  }
+
+  /**
+   * Ask the gateway for the payment result and apply it (missed webhooks)
+   */
+  async syncPaymentStatus(
+    paymentId: string,
+  ): Promise<PaymentCompletionResponse> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        orderPayment: true,
+        attempts: {
+          orderBy: { createdAt: 'desc' },
         },
       },
     });
 
-    if (expiredPendingPayment) {
-      this.logger.log(
-        `Found expired pending payment ${expiredPendingPayment.id} for order ${orderId}, cancelling it first`,
-      );
-
-      // Cancel the expired payment
-      await this.prisma.payment.update({
-        where: { id: expiredPendingPayment.id },
-        data: {
-          status: PaymentProcessingStatus.cancelled,
-          cancelledAt: new Date(),
-          responseMeta: {
-            ...((expiredPendingPayment.responseMeta as any) || {}),
-            cancelledByRetry: true,
-            cancelledAt: new Date().toISOString(),
-            reason: 'expired_pending_replaced_by_retry',
-          },
-        },
-      });
+    if (!payment || !payment.orderPayment) {
+      throw new BadRequestException('Payment not found');
+    }
 
-      // Update order payment status
-      await this.prisma.orderPayment.updateMany({
-        where: {
-          orderId: orderId,
-          payment: {
-            id: expiredPendingPayment.id,
-          },
-        },
-        data: {
-          status: PaymentStatus.canceled,
-        },
-      });
+    const orderId = payment.orderPayment.orderId;
 
-      // Restore inventory for the expired payment
-      const { CheckoutHelper } = await import('../checkout/checkout.helper');
-      await this.prisma.$transaction(async (tx) => {
-        await CheckoutHelper.restoreInventoryOnPaymentFailure(orderId, tx);
-      });
+    if (payment.status !== PaymentProcessingStatus.pending) {
+      return {
+        success: payment.status === PaymentProcessingStatus.succeeded,
+        paymentId,
+        orderId,
+        status: payment.status,
+        message: `Payment already ${payment.status}`,
+      };
     }
 
-    // Check for cancelled/expired payments to support retry
-    const lastCancelledPayment = await this.prisma.payment.findFirst({
-      where: {
-        orderPayment: {
-          orderId: orderId,
-        },
-        provider: 'vietqr',
-        status: {
-          in: [
-            PaymentProcessingStatus.cancelled,
-            PaymentProcessingStatus.failed,
-          ],
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    const gatewayStatus = await this.providerRegistry
+      .get(payment.provider)
+      .verifyPayment(payment);
 
-    if (lastCancelledPayment) {
-      this.logger.log(
-        `Found previous cancelled/failed payment ${lastCancelledPayment.id} for order ${orderId}, allowing retry`,
-      );
+    await this.updateSyncedAttempt(payment, gatewayStatus);
+
+    switch (gatewayStatus.status) {
+      case PaymentProcessingStatus.succeeded:
+        if (
+          gatewayStatus.amount !== undefined &&
+          gatewayStatus.amount !== Number(payment.amount)
+        ) {
+          throw new BadRequestException(
+            'Payment amount does not match order total',
+          );
+        }
+
+        return await this.completePaymentTransaction(
+          paymentId,
+          orderId,
+          gatewayStatus.providerRef,
+          { source: 'gateway_sync', provider: payment.provider },
+        );
+
+      case PaymentProcessingStatus.failed:
+      case PaymentProcessingStatus.cancelled:
+        await this.handlePaymentFailure(
+          paymentId,
+          orderId,
+          gatewayStatus.status,
+          'gateway_sync',
+          gatewayStatus.message || `Payment ${gatewayStatus.status}`,
+        );
+        return {
+          success: false,
+          paymentId,
+          orderId,
+          status: gatewayStatus.status,
+          message: gatewayStatus.message || `Payment ${gatewayStatus.status}`,
+        };
+
+      default:
+        return {
+          success: false,
+          paymentId,
+          orderId,
+          status: payment.status,
+          message: 'Payment pending - please complete payment',
+        };
     }
+  }
 
-    // Find existing payment or create new one
-    let payment = await this.prisma.payment.findFirst({
-      where: {
-        orderPayment: {
-          orderId: orderId,
-        },
-        provider: 'vietqr',
-        status: PaymentProcessingStatus.created,
-      },
-      include: {
-        orderPayment: {
-          include: {
-            order: true,
-          },
-        },
-      },
-    });
+  /**
+   * Verify payment - Step 3: Verify & Complete
+   */
+  async verifyPayment(
+    request: PaymentVerificationRequestDto,
+  ): Promise<PaymentCompletionResponse> {
+    const { paymentId, provider, amount, currency, providerRef, rawPayload } =
+      request;
 
-    // If no payment exists, create one
-    if (!payment) {
+    try {
       this.logger.log(
-        `No existing payment found for order ${orderId}, creating new one`,
+        `Verifying payment ${paymentId} with provider ${provider}`,
       );
 
-      // Find the OrderPayment record
-      const orderPayment = await this.prisma.orderPayment.findFirst({
+      // Load Payment with orderPayment.order
+      const payment = await this.prisma.payment.findFirst({
         where: {
-          orderId: orderId,
-        },
-        include: {
-          order: true,
-        },
-      });
-
-      if (!orderPayment) {
-        throw new BadRequestException(
-          'OrderPayment not found for order. Please ensure the order was created successfully.',
-        );
-      }
-
-      // Create a new payment
-      payment = await this.prisma.payment.create({
-        data: {
-          code: `PAY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          provider: 'vietqr',
-          method: 'transfer',
-          amount: orderTotal,
-          currency: 'VND',
-          status: PaymentProcessingStatus.created,
-          orderPaymentId: orderPayment.id,
-          requestMeta: {
-            createdForNewOrder: true,
-            createdAt: new Date().toISOString(),
+          id: paymentId,
+          orderPayment: {
+            isNot: null,
           },
         },
         include: {
@@ -716,166 +838,241 @@ export class PaymentsService {
         },
       });
 
-      this.logger.log(`Created new payment ${payment.id} for order ${orderId}`);
-    }
+      if (!payment) {
+        throw new BadRequestException('Payment not found');
+      }
 
-    if (!payment) {
-      throw new BadRequestException(
-        'Payment not found or not in valid state for processing',
+      const order = payment.orderPayment?.order;
+      if (!order) {
+        throw new BadRequestException('Order not found for payment');
+      }
+
+      // If status is already succeeded, return success (idempotent)
+      if (payment.status === PaymentProcessingStatus.succeeded) {
+        this.logger.log(
+          `Payment ${paymentId} already succeeded, returning success`,
+        );
+        return {
+          success: true,
+          paymentId,
+          orderId: order.id,
+          status: PaymentProcessingStatus.succeeded,
+          message: 'Payment already completed successfully',
+        };
+      }
+
+      // If status is not pending, reject
+      if (payment.status !== PaymentProcessingStatus.pending) {
+        throw new BadRequestException(
+          `Payment is not in pending state. Current status: ${payment.status}`,
+        );
+      }
+
+      // Check if payment has expired
+      if (payment.expiresAt && new Date() > payment.expiresAt) {
+        this.logger.warn(`Payment ${paymentId} has expired, marking as failed`);
+
+        // Mark as failed and restore inventory
+        await this.handlePaymentExpiration(paymentId, order.id);
+
+        return {
+          success: false,
+          paymentId,
+          orderId: order.id,
+          status: PaymentProcessingStatus.failed,
+          message: 'Payment has expired',
+        };
+      }
+
+      // Validate amount and currency
+      const orderTotal = Number(payment.orderPayment?.amount || 0);
+      if (amount && amount !== orderTotal) {
+        this.logger.warn(
+          `Amount mismatch: expected ${orderTotal}, got ${amount}`,
+        );
+        throw new BadRequestException(
+          'Payment amount does not match order total',
+        );
+      }
+
+      if (currency && currency !== 'VND') {
+        throw new BadRequestException('Payment currency must be VND');
+      }
+
+      // Process payment completion in a single transaction
+      return await this.completePaymentTransaction(
+        paymentId,
+        order.id,
+        providerRef,
+        rawPayload,
       );
+    } catch (error) {
+      this.logger.error(`Payment verification failed: ${error.message}`);
+      throw error;
     }
+  }
 
-    // Compute expiration time
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + this.QR_EXPIRES_MINUTES);
+  /**
+   * Complete payment transaction in a single database transaction
+   */
+  private async completePaymentTransaction(
+    paymentId: string,
+    orderId: string,
+    providerRef?: string,
+    rawPayload?: any,
+  ): Promise<PaymentCompletionResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Update Payment
+      const updatedPayment = await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentProcessingStatus.succeeded,
+          succeededAt: new Date(),
+          providerRef,
+          responseMeta: {
+            rawPayload,
+            verifiedAt: new Date().toISOString(),
+            verificationMethod: 'webhook',
+          },
+        },
+      });
 
-    // Generate VietQR content
-    const qrContent = this.generateVietQRContent(
-      orderTotal,
-      payment.orderPayment?.order?.code || orderId,
-    );
+      // Mark the order paid; its status is left to the admin state machine,
+      // which moves it on through fulfilment
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          paymentStatus: PaymentStatus.paid,
+          paidAt: new Date(),
+        },
+      });
 
-    // Update payment status to pending
-    await this.prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: PaymentProcessingStatus.pending,
-        expiresAt,
-        requestMeta: {
-          ...((payment.requestMeta as any) || {}),
-          amount: orderTotal,
-          description: `Thanh toan don hang ${payment.orderPayment?.order?.code || orderId}`,
-          orderCode: payment.orderPayment?.order?.code,
-          bankBin: this.BANK_BIN,
-          accountNumber: this.ACCOUNT_NUMBER,
-          accountName: this.ACCOUNT_NAME,
-          updatedAt: new Date().toISOString(),
+      // Update OrderPayment
+      await tx.orderPayment.updateMany({
+        where: {
+          orderId: orderId,
+          payment: {
+            id: paymentId,
+          },
         },
-        responseMeta: {
-          qrContent,
-          generatedAt: new Date().toISOString(),
+        data: {
+          status: PaymentStatus.paid,
         },
-      },
-    });
-
-    // Update payment with idempotency key if provided
-    if (idempotencyKey) {
-      await this.prisma.payment.update({
-        where: { id: payment.id },
-        data: { idempotencyKey },
       });
-    }
 
-    // Emit payment created event via WebSocket
-    this.paymentEvents.emitPaymentStatusUpdate(
-      payment.id,
-      orderId,
-      PaymentProcessingStatus.pending,
-      `VietQR payment created successfully. Please scan QR code to complete payment within ${this.QR_EXPIRES_MINUTES} minutes.`,
-      expiresAt,
-    );
-
-    return {
-      success: true,
-      paymentId: payment.id,
-      orderId,
-      orderCode: payment.orderPayment?.order?.code || '',
-      provider: 'vietqr',
-      method: 'transfer',
-      status: PaymentProcessingStatus.pending,
-      amount: orderTotal,
-      currency: 'VND',
-      expiresAt,
-      qrContent,
-      qrImageDataUrl: undefined, // Will be generated by frontend if needed
-      pollingUrl: `/payments/${payment.id}/status`,
-      message: `VietQR payment created successfully. Please scan QR code to complete payment within ${this.QR_EXPIRES_MINUTES} minutes.`,
-    };
-  }
+      // Commit inventory
+      const { CheckoutHelper } = await import('../checkout/checkout.helper');
+      await CheckoutHelper.commitInventoryOnPaymentSuccess(orderId, tx);
 
-  /**
-   * Generate VietQR content (URL)
-   */
-  private generateVietQRContent(amount: number, orderCode: string): string {
-    // VietQR format: https://img.vietqr.io/image/{bankCode}-{accountNo}-qr_only.png?amount={amount}&addInfo={description}&accountName={accountName}
-    const addInfo = encodeURIComponent(`ACTA ${orderCode}`);
-    const accountName = encodeURIComponent(this.ACCOUNT_NAME);
+      // Queue the paid order for KiotViet
+      const { KiotVietOrderSyncHelper } = await import(
+        '../../integrations/kiotviet/services/kiotviet-syncing/orders/kiotviet-order-sync.helper'
+      );
+      await KiotVietOrderSyncHelper.queueOrderPush(orderId, tx);
 
-    return `https://img.vietqr.io/image/${this.BANK_BIN}-${this.ACCOUNT_NUMBER}-qr_only.png?amount=${amount}&addInfo=${addInfo}&accountName=${accountName}`;
-  }
+      // Book the receipt in the cashflow ledger
+      await CashflowHelper.recordPaymentReceipt(tx, paymentId);
 
-  /**
-   * Simulate bank verification (replace with real bank API call)
-   */
-  private async simulateBankVerification(paymentId: string): Promise<boolean> {
-    // In a real implementation, you would call the bank's API to verify payment
-    // For now, we'll simulate verification with a random success rate
-    // In production, this should be replaced with actual bank API integration
+      this.logger.log(
+        `Payment ${paymentId} completed successfully for order ${orderId}`,
+      );
 
-    // Simulate API call delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+      // Emit payment success event via WebSocket
+      this.paymentEvents.emitPaymentSuccess(
+        paymentId,
+        orderId,
+        Number(updatedPayment.amount),
+      );
 
-    // For demo purposes, return true 80% of the time
-    return Math.random() > 0.2;
+      return {
+        success: true,
+        paymentId,
+        orderId,
+        status: PaymentProcessingStatus.succeeded,
+        message: 'Payment completed successfully',
+      };
+    });
   }
 
   /**
-   * Handle Stripe payment (placeholder for future implementation)
+   * Handle payment expiration
    */
-  private async handleStripePayment(
-    request: InitiatePaymentDto,
-    orderTotal: number,
-  ): Promise<PaymentResponseDto> {
-    throw new BadRequestException('Stripe payment not implemented yet');
+  private async handlePaymentExpiration(
+    paymentId: string,
+    orderId: string,
+  ): Promise<void> {
+    await this.handlePaymentFailure(
+      paymentId,
+      orderId,
+      PaymentProcessingStatus.failed,
+      'payment_timeout',
+      'Payment expired',
+    );
   }
 
   /**
-   * Handle cash payment
+   * Mark payment as failed/cancelled, cancel the order and restore inventory
    */
-  private async handleCashPayment(
-    request: InitiatePaymentDto,
-    orderTotal: number,
-  ): Promise<PaymentResponseDto> {
-    const { orderId, paymentId } = request;
+  private async handlePaymentFailure(
+    paymentId: string,
+    orderId: string,
+    status: PaymentProcessingStatus,
+    reasonCode: string,
+    reason: string,
+  ): Promise<void> {
+    try {
+      // Update payment status
+      await this.prisma.payment.update({
+        where: { id: paymentId },
+        data: {
+          status,
+          ...(status === PaymentProcessingStatus.cancelled
+            ? { cancelledAt: new Date() }
+            : { failedAt: new Date() }),
+          responseMeta: {
+            failedAt: new Date().toISOString(),
+            reason: reasonCode,
+            message: reason,
+          },
+        },
+      });
 
-    const payment = await this.prisma.payment.findFirst({
-      where: {
-        id: paymentId,
-        orderPayment: {
+      // Update order payment status
+      await this.prisma.orderPayment.updateMany({
+        where: {
           orderId: orderId,
-        },
-      },
-      include: {
-        orderPayment: {
-          include: {
-            order: true,
+          payment: {
+            id: paymentId,
           },
         },
-      },
-    });
+        data: {
+          status: PaymentStatus.failed,
+        },
+      });
 
-    if (!payment) {
-      throw new BadRequestException('Payment not found');
-    }
+      // Update order status to cancelled
+      await this.prisma.order.update({
+        where: { id: orderId },
+        data: { status: 'cancelled' },
+      });
 
-    // For cash payments, we might handle differently
-    // For now, return a basic response
-    return {
-      success: true,
-      paymentId: payment.id,
-      orderId: payment.orderPayment?.order?.id || '',
-      orderCode: payment.orderPayment?.order?.code || '',
-      provider: 'cash',
-      method: 'cash',
-      status: PaymentProcessingStatus.pending,
-      amount: orderTotal,
-      currency: 'VND',
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours for cash
-      qrContent: '',
-      pollingUrl: `/payments/${paymentId}/status`,
-      message:
-        'Cash payment initiated. Please complete payment at pickup location.',
-    };
+      // Restore product inventory and release redeemed vouchers
+      const { CheckoutHelper } = await import('../checkout/checkout.helper');
+      const { VoucherHelper } = await import('../checkout/voucher.helper');
+      await this.prisma.$transaction(async (tx) => {
+        await CheckoutHelper.restoreInventoryOnPaymentFailure(orderId, tx);
+        await VoucherHelper.releaseVouchersForOrder(orderId, tx);
+      });
+
+      // Emit payment failure event via WebSocket
+      this.paymentEvents.emitPaymentFailure(paymentId, orderId, reason);
+
+      this.logger.log(
+        `Payment ${paymentId} ${status} (${reasonCode}) and inventory restored for order ${orderId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Error handling payment failure: ${error.message}`);
+    }
   }
 
   /**
@@ -965,227 +1162,13 @@ export class PaymentsService {
       expiresAt: payment.expiresAt || new Date(),
       qrContent: payment.responseMeta?.qrContent || '',
       qrImageDataUrl: payment.responseMeta?.qrImageDataUrl,
+      clientSecret: payment.clientSecret || undefined,
+      checkoutUrl: payment.checkoutUrl || undefined,
       pollingUrl: `/payments/${payment.id}/status`,
       message: 'Payment retrieved successfully',
     };
   }
 
-  /**
-   * Legacy method for backward compatibility
-   */
-  async createPaymentLegacy(request: PaymentRequest): Promise<PaymentResponse> {
-    const { orderId, paymentId, amount, provider, method, description } =
-      request;
-
-    try {
-      this.logger.log(
-        `Creating payment for order ${orderId} with provider ${provider}`,
-      );
-
-      // Verify payment exists and is in valid state
-      const payment = (await this.prisma.payment.findFirst({
-        where: {
-          id: paymentId,
-          orderPayment: {
-            orderId: orderId,
-          },
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      })) as PaymentWithOrderPayment | null;
-
-      if (!payment) {
-        throw new BadRequestException('Payment not found');
-      }
-
-      if (payment.status !== PaymentProcessingStatus.created) {
-        throw new BadRequestException(
-          'Payment is not in valid state for processing',
-        );
-      }
-
-      // Route to appropriate provider
-      switch (provider) {
-        case PaymentProvider.vietqr:
-          return await this.handleVietQRPaymentLegacy(request);
-        case PaymentProvider.stripe:
-          return await this.handleStripePaymentLegacy(request);
-        default:
-          // For cash payments or other methods, use cash provider
-          return await this.handleCashPaymentLegacy(request);
-      }
-    } catch (error) {
-      this.logger.error(`Payment creation failed: ${error.message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * Legacy VietQR payment handler - now integrated into main service
-   */
-  private async handleVietQRPaymentLegacy(
-    request: PaymentRequest,
-  ): Promise<PaymentResponse> {
-    const { orderId, paymentId, amount, description } = request;
-
-    // Use the integrated VietQR functionality
-    const payment = await this.prisma.payment.findFirst({
-      where: {
-        id: paymentId,
-        orderPayment: {
-          orderId: orderId,
-        },
-      },
-      include: {
-        orderPayment: {
-          include: {
-            order: true,
-          },
-        },
-      },
-    });
-
-    if (!payment) {
-      throw new BadRequestException('Payment not found');
-    }
-
-    // Generate VietQR content
-    const qrContent = this.generateVietQRContent(
-      amount,
-      payment.orderPayment?.order?.code || orderId,
-    );
-
-    // Compute expiration time
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + this.QR_EXPIRES_MINUTES);
-
-    return {
-      success: true,
-      paymentId: payment.id,
-      provider: 'vietqr',
-      method: 'transfer',
-      status: PaymentProcessingStatus.pending,
-      amount: amount,
-      message: `VietQR payment created successfully. Please scan QR code to complete payment within ${this.QR_EXPIRES_MINUTES} minutes.`,
-      qrCode: undefined, // Will be generated by frontend if needed
-      qrData: qrContent,
-      expiresAt,
-    };
-  }
-
-  /**
-   * Legacy Stripe payment handler
-   */
-  private async handleStripePaymentLegacy(
-    request: PaymentRequest,
-  ): Promise<PaymentResponse> {
-    throw new BadRequestException('Stripe payment not implemented yet');
-  }
-
-  /**
-   * Legacy cash payment handler
-   */
-  private async handleCashPaymentLegacy(
-    request: PaymentRequest,
-  ): Promise<PaymentResponse> {
-    const { orderId, paymentId, amount, description } = request;
-
-    const cashRequest: CashPaymentRequest = {
-      orderId,
-      paymentId,
-      amount,
-      description,
-    };
-
-    const cashResponse = await this.cashProvider.createPayment(cashRequest);
-
-    return {
-      success: true,
-      paymentId: cashResponse.paymentId,
-      provider: 'cash',
-      method: 'cash',
-      status: PaymentProcessingStatus.pending,
-      amount: cashResponse.amount,
-      message: cashResponse.message,
-    };
-  }
-
-  /**
-   * Legacy verify payment method
-   */
-  async verifyPaymentLegacy(
-    paymentId: string,
-  ): Promise<PaymentCompletionResponse> {
-    try {
-      const payment = await this.prisma.payment.findUnique({
-        where: { id: paymentId },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      });
-
-      if (!payment) {
-        throw new BadRequestException('Payment not found');
-      }
-
-      // Route to appropriate provider for verification
-      switch (payment.provider) {
-        case PaymentProvider.vietqr:
-          // Use integrated verification logic
-          if (!payment.orderPayment) {
-            throw new BadRequestException(
-              'Payment is not associated with an order',
-            );
-          }
-
-          // For VietQR, we'll use the integrated verification
-          // In a real scenario, this would call the bank's API
-          const isVerified = await this.simulateBankVerification(paymentId);
-
-          if (isVerified) {
-            // Create verification request
-            const verificationRequest: PaymentVerificationRequestDto = {
-              paymentId,
-              provider: 'vietqr',
-              amount: Number(payment.amount),
-              currency: payment.currency,
-              providerRef: `legacy_verify_${Date.now()}`,
-              rawPayload: {
-                verificationMethod: 'legacy_verification',
-                verifiedAt: new Date().toISOString(),
-              },
-            };
-
-            return await this.verifyPayment(verificationRequest);
-          }
-
-          return {
-            success: false,
-            paymentId: payment.id,
-            orderId: payment.orderPayment.orderId,
-            status: payment.status,
-            message: 'Payment verification pending',
-          };
-        default:
-          throw new BadRequestException(
-            `Verification not supported for provider: ${payment.provider}`,
-          );
-      }
-    } catch (error) {
-      this.logger.error(`Payment verification failed: ${error.message}`);
-      throw error;
-    }
-  }
-
   /**
    * Complete payment
    */
@@ -1214,34 +1197,44 @@ export class PaymentsService {
         throw new BadRequestException('Payment not found');
       }
 
-      // Update payment status to succeeded
-      await this.prisma.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentProcessingStatus.succeeded,
-          succeededAt: new Date(),
-        },
-      });
+      await this.prisma.$transaction(async (tx) => {
+        // Update payment status to succeeded
+        await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentProcessingStatus.succeeded,
+            succeededAt: new Date(),
+          },
+        });
 
-      // Update order payment status
-      await this.prisma.orderPayment.updateMany({
-        where: {
-          orderId: orderId,
-          payment: {
-            id: paymentId,
+        // Update order payment status
+        await tx.orderPayment.updateMany({
+          where: {
+            orderId: orderId,
+            payment: {
+              id: paymentId,
+            },
           },
-        },
-        data: {
-          status: PaymentStatus.paid,
-        },
-      });
+          data: {
+            status: PaymentStatus.paid,
+          },
+        });
 
-      // Update order status to confirmed
-      await this.prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'confirmed' },
+        // Update order status to confirmed
+        await tx.order.update({
+          where: { id: orderId },
+          data: { status: 'confirmed' },
+        });
+
+        // Book the receipt in the cashflow ledger
+        await CashflowHelper.recordPaymentReceipt(tx, paymentId);
       });
 
+      const { KiotVietOrderSyncHelper } = await import(
+        '../../integrations/kiotviet/services/kiotviet-syncing/orders/kiotviet-order-sync.helper'
+      );
+      await KiotVietOrderSyncHelper.queueOrderPush(orderId, this.prisma);
+
       return {
         success: true,
         paymentId,
@@ -1270,12 +1263,24 @@ export class PaymentsService {
             orderId: orderId,
           },
         },
+        include: {
+          attempts: {
+            orderBy: { createdAt: 'desc' },
+          },
+        },
       });
 
       if (!payment) {
         throw new BadRequestException('Payment not found');
       }
 
+      // Close the open gateway transaction first so it cannot be paid later
+      if (payment.status === PaymentProcessingStatus.pending) {
+        await this.providerRegistry
+          .get(payment.provider)
+          .cancelPayment(payment);
+      }
+
       // Update payment status to cancelled
       await this.prisma.payment.update({
         where: { id: paymentId },
@@ -1298,10 +1303,14 @@ export class PaymentsService {
         },
       });
 
-      // Update order status to cancelled
-      await this.prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'cancelled' },
+      // Update order status to cancelled and release redeemed vouchers
+      const { VoucherHelper } = await import('../checkout/voucher.helper');
+      await this.prisma.$transaction(async (tx) => {
+        await tx.order.update({
+          where: { id: orderId },
+          data: { status: 'cancelled' },
+        });
+        await VoucherHelper.releaseVouchersForOrder(orderId, tx);
       });
 
       return {
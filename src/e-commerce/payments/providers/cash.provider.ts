@@ -1,37 +1,30 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { PaymentProcessingStatus, PaymentStatus } from '@prisma/client';
+import {
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentProvider,
+  PaymentStatus,
+} from '@prisma/client';
 import { PrismaService } from '../../../common/services/prisma.service';
 import {
-  PaymentWithOrderPayment,
   PaymentCompletionResult,
   PaymentStatusResult,
 } from '../types/payment.types';
-
-export interface CashPaymentRequest {
-  orderId: string;
-  paymentId: string;
-  amount: number;
-  description?: string;
-}
-
-export interface CashPaymentResponse {
-  success: boolean;
-  paymentId: string;
-  amount: number;
-  description: string;
-  message: string;
-  status: PaymentProcessingStatus;
-}
-
-export interface CashPaymentCompletion {
-  success: boolean;
-  paymentId: string;
-  status: PaymentProcessingStatus;
-  message: string;
-}
+import {
+  PaymentCreateContext,
+  PaymentCreateResult,
+  PaymentGatewayStatus,
+  PaymentProviderAdapter,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  PaymentWithAttempts,
+} from '../types/payment-provider.types';
 
 @Injectable()
-export class CashProvider {
+export class CashProvider implements PaymentProviderAdapter {
+  readonly provider = PaymentProvider.cash;
+  readonly supportedMethods: PaymentMethod[] = [PaymentMethod.cash];
+
   private readonly logger = new Logger(CashProvider.name);
 
   constructor(private readonly prisma: PrismaService) {}
@@ -40,30 +33,17 @@ export class CashProvider {
    * Create cash payment (COD - Cash on Delivery)
    */
   async createPayment(
-    request: CashPaymentRequest,
-  ): Promise<CashPaymentResponse> {
-    const { orderId, paymentId, amount, description } = request;
+    context: PaymentCreateContext,
+  ): Promise<PaymentCreateResult> {
+    const { payment, orderId, orderCode, amount } = context;
 
     try {
-      // Verify payment exists and is in valid state
-      const payment = (await this.prisma.payment.findFirst({
-        where: {
-          id: paymentId,
-          orderPayment: {
-            orderId: orderId,
-          },
-        },
-        include: {
-          orderPayment: {
-            include: {
-              order: true,
-            },
-          },
-        },
-      })) as PaymentWithOrderPayment | null;
-
-      if (!payment) {
-        throw new BadRequestException('Payment not found');
+      if (payment.status === PaymentProcessingStatus.pending) {
+        return {
+          status: PaymentProcessingStatus.pending,
+          message:
+            'Cash payment (COD) already created. Payment will be collected upon delivery.',
+        };
       }
 
       if (payment.status !== PaymentProcessingStatus.created) {
@@ -72,15 +52,15 @@ export class CashProvider {
         );
       }
 
-      // For cash payments, we immediately mark as pending since it's COD
+      // COD is collected on delivery, so it must not be swept by the expiry cron
       await this.prisma.payment.update({
-        where: { id: paymentId },
+        where: { id: payment.id },
         data: {
           status: PaymentProcessingStatus.pending,
+          expiresAt: null,
           requestMeta: {
             amount,
-            description:
-              description || `Thanh toan tien mat don hang ${orderId}`,
+            description: `Thanh toan tien mat don hang ${orderCode}`,
             paymentType: 'cod',
             createdAt: new Date().toISOString(),
           },
@@ -92,7 +72,7 @@ export class CashProvider {
         where: {
           orderId: orderId,
           payment: {
-            id: paymentId,
+            id: payment.id,
           },
         },
         data: {
@@ -109,18 +89,20 @@ export class CashProvider {
         },
       });
 
+      // COD orders are pushed to KiotViet once confirmed, before payment
+      const { KiotVietOrderSyncHelper } = await import(
+        '../../../integrations/kiotviet/services/kiotviet-syncing/orders/kiotviet-order-sync.helper'
+      );
+      await KiotVietOrderSyncHelper.queueOrderPush(orderId, this.prisma);
+
       this.logger.log(
-        `Cash payment (COD) created for order ${orderId}, payment ${paymentId}`,
+        `Cash payment (COD) created for order ${orderId}, payment ${payment.id}`,
       );
 
       return {
-        success: true,
-        paymentId,
-        amount,
-        description: description || `Thanh toan tien mat don hang ${orderId}`,
+        status: PaymentProcessingStatus.pending,
         message:
           'Cash payment (COD) created successfully. Payment will be collected upon delivery.',
-        status: PaymentProcessingStatus.pending,
       };
     } catch (error) {
       this.logger.error(`Cash payment creation failed: ${error.message}`);
@@ -214,88 +196,32 @@ export class CashProvider {
   }
 
   /**
-   * Cancel cash payment (called when order is cancelled)
+   * Nothing to verify remotely - COD is confirmed on collection
    */
-  async cancelPayment(
-    paymentId: string,
-    orderId: string,
-  ): Promise<PaymentCompletionResult> {
-    try {
-      const payment = (await this.prisma.payment.findUnique({
-        where: { id: paymentId },
-      })) as PaymentWithOrderPayment | null;
-
-      if (!payment) {
-        throw new BadRequestException('Payment not found');
-      }
-
-      // Mark payment as cancelled
-      await this.prisma.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentProcessingStatus.cancelled,
-          cancelledAt: new Date(),
-          responseMeta: {
-            cancelledAt: new Date().toISOString(),
-            reason: 'order_cancelled',
-          },
-        },
-      });
-
-      // Update order payment status to cancelled
-      await this.prisma.orderPayment.updateMany({
-        where: {
-          orderId: orderId,
-          payment: {
-            id: paymentId,
-          },
-        },
-        data: {
-          status: PaymentStatus.canceled,
-        },
-      });
-
-      // Update order status to cancelled
-      await this.prisma.order.update({
-        where: { id: orderId },
-        data: { status: 'cancelled' },
-      });
-
-      // Restore product inventory
-      await this.restoreProductInventory(orderId);
-
-      this.logger.log(
-        `Cash payment cancelled for order ${orderId}, payment ${paymentId}`,
-      );
-
-      return {
-        success: true,
-        paymentId,
-        status: PaymentProcessingStatus.cancelled,
-        message: 'Cash payment cancelled successfully',
-      };
-    } catch (error) {
-      this.logger.error(`Cash payment cancellation failed: ${error.message}`);
-      throw error;
-    }
+  async verifyPayment(
+    payment: PaymentWithAttempts,
+  ): Promise<PaymentGatewayStatus> {
+    return {
+      status: payment.status,
+      amount: Number(payment.amount),
+    };
   }
 
   /**
-   * Restore product inventory when payment is cancelled
+   * Nothing to cancel remotely - order and inventory are handled by PaymentsService
    */
-  private async restoreProductInventory(orderId: string): Promise<void> {
-    try {
-      // Use the CheckoutHelper method for consistent inventory management
-      const { CheckoutHelper } = await import('../../checkout/checkout.helper');
+  async cancelPayment(): Promise<void> {
+    return;
+  }
 
-      await this.prisma.$transaction(async (tx) => {
-        await CheckoutHelper.restoreInventoryOnPaymentFailure(orderId, tx);
-      });
+  async refund(): Promise<PaymentRefundResult> {
+    throw new BadRequestException(
+      'Cash refunds must be paid out manually and settled',
+    );
+  }
 
-      this.logger.log(`Product inventory restored for order ${orderId}`);
-    } catch (error) {
-      this.logger.error(`Error restoring product inventory: ${error.message}`);
-    }
+  parseWebhook(): PaymentWebhookEvent {
+    throw new BadRequestException('Cash payments do not receive webhooks');
   }
 
   /**
@@ -0,0 +1,53 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentMethod, PaymentProvider } from '@prisma/client';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { PaymentProviderAdapter } from '../types/payment-provider.types';
+
+const adapter = (
+  provider: PaymentProvider,
+  supportedMethods: PaymentMethod[],
+): PaymentProviderAdapter => ({
+  provider,
+  supportedMethods,
+  createPayment: jest.fn(),
+  verifyPayment: jest.fn(),
+  cancelPayment: jest.fn(),
+  refund: jest.fn(),
+  parseWebhook: jest.fn(),
+});
+
+describe('PaymentProviderRegistry', () => {
+  it('should resolve adapters by provider', () => {
+    const stripe = adapter(PaymentProvider.stripe, [PaymentMethod.card]);
+    const vietqr = adapter(PaymentProvider.vietqr, [PaymentMethod.transfer]);
+    const registry = new PaymentProviderRegistry([stripe, vietqr]);
+
+    expect(registry.get(PaymentProvider.stripe)).toBe(stripe);
+    expect(registry.get(PaymentProvider.vietqr)).toBe(vietqr);
+    expect(registry.list()).toEqual([
+      PaymentProvider.stripe,
+      PaymentProvider.vietqr,
+    ]);
+  });
+
+  it('should reject providers without an adapter', () => {
+    const registry = new PaymentProviderRegistry([
+      adapter(PaymentProvider.stripe, [PaymentMethod.card]),
+    ]);
+
+    expect(registry.has(PaymentProvider.vnpay)).toBe(false);
+    expect(() => registry.get(PaymentProvider.vnpay)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should refuse two adapters for the same provider', () => {
+    expect(
+      () =>
+        new PaymentProviderRegistry([
+          adapter(PaymentProvider.cash, [PaymentMethod.cash]),
+          adapter(PaymentProvider.cash, [PaymentMethod.cash]),
+        ]),
+    ).toThrow('Duplicate payment provider adapter for cash');
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import { PaymentProvider } from '@prisma/client';
+import { PAYMENT_PROVIDER_ADAPTERS } from '../payments.constants';
+import { PaymentProviderAdapter } from '../types/payment-provider.types';
+
+/**
+ * Lookup of payment gateway adapters keyed by PaymentProvider
+ */
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly logger = new Logger(PaymentProviderRegistry.name);
+  private readonly adapters = new Map<
+    PaymentProvider,
+    PaymentProviderAdapter
+  >();
+
+  constructor(
+    @Inject(PAYMENT_PROVIDER_ADAPTERS)
+    adapters: PaymentProviderAdapter[],
+  ) {
+    for (const adapter of adapters) {
+      if (this.adapters.has(adapter.provider)) {
+        throw new Error(
+          `Duplicate payment provider adapter for ${adapter.provider}`,
+        );
+      }
+
+      this.adapters.set(adapter.provider, adapter);
+    }
+
+    this.logger.log(
+      `Registered payment providers: ${[...this.adapters.keys()].join(', ')}`,
+    );
+  }
+
+  /**
+   * Get the adapter for a provider
+   */
+  get(provider: PaymentProvider): PaymentProviderAdapter {
+    const adapter = this.adapters.get(provider);
+
+    if (!adapter) {
+      throw new BadRequestException(
+        `Nhà cung cấp thanh toán ${provider} chưa được hỗ trợ`,
+      );
+    }
+
+    return adapter;
+  }
+
+  has(provider: PaymentProvider): boolean {
+    return this.adapters.has(provider);
+  }
+
+  list(): PaymentProvider[] {
+    return [...this.adapters.keys()];
+  }
+}
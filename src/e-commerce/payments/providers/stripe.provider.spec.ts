@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentMethod, PaymentProcessingStatus } from '@prisma/client';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import Stripe from 'stripe';
+import { StripeProvider } from './stripe.provider';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { PaymentConfigService } from '../payment-config.service';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+/**
+ * Minimal local stand-in for the Stripe API (PaymentIntents only)
+ */
+function startStripeMock(): Promise<{
+  server: Server;
+  port: number;
+  requests: { method?: string; url?: string; body: string }[];
+}> {
+  const requests: { method?: string; url?: string; body: string }[] = [];
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, body });
+      const params = new URLSearchParams(body);
+
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'POST' && req.url === '/v1/payment_intents') {
+        res.end(
+          JSON.stringify({
+            id: 'pi_test_123',
+            object: 'payment_intent',
+            amount: Number(params.get('amount')),
+            currency: params.get('currency'),
+            description: params.get('description'),
+            status: 'requires_payment_method',
+            client_secret: 'pi_test_123_secret_abc',
+            livemode: false,
+          }),
+        );
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        requests,
+      });
+    });
+  });
+}
+
+describe('StripeProvider', () => {
+  let provider: StripeProvider;
+  let prisma: any;
+  let mock: Awaited<ReturnType<typeof startStripeMock>>;
+
+  beforeAll(async () => {
+    mock = await startStripeMock();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mock.server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    mock.requests.length = 0;
+
+    prisma = {
+      payment: {
+        update: jest.fn(),
+      },
+      paymentAttempt: {
+        create: jest.fn(),
+      },
+      $transaction: jest.fn((callback) => callback(prisma)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StripeProvider,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: PaymentConfigService,
+          useValue: {
+            STRIPE_SECRET_KEY: 'sk_test_123',
+            STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+            STRIPE_API_OVERRIDES: {
+              host: '127.0.0.1',
+              port: mock.port,
+              protocol: 'http',
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    provider = module.get<StripeProvider>(StripeProvider);
+  });
+
+  const signedPayload = (event: Record<string, unknown>) => {
+    const payload = JSON.stringify(event);
+    const signature = Stripe.webhooks.generateTestHeaderString({
+      payload,
+      secret: WEBHOOK_SECRET,
+    });
+    return { payload, signature };
+  };
+
+  const parse = (payload: string, signature: string) =>
+    provider.parseWebhook({
+      rawBody: payload,
+      headers: { 'stripe-signature': signature },
+    });
+
+  const createContext = (payment: Record<string, unknown>) => ({
+    payment: payment as any,
+    orderId: 'order-1',
+    orderCode: 'HN-250827-023',
+    method: PaymentMethod.card,
+    amount: 480000,
+    currency: 'VND',
+  });
+
+  describe('createPayment', () => {
+    it('should create a payment intent and record the attempt', async () => {
+      const result = await provider.createPayment(
+        createContext({
+          id: 'pay-1',
+          status: PaymentProcessingStatus.created,
+          updatedAt: new Date('2025-01-01T00:00:00Z'),
+          requestMeta: null,
+        }),
+      );
+
+      expect(result.clientSecret).toBe('pi_test_123_secret_abc');
+      expect(result.status).toBe(PaymentProcessingStatus.pending);
+
+      // VND is zero-decimal: amount goes to Stripe unscaled
+      const params = new URLSearchParams(mock.requests[0].body);
+      expect(params.get('amount')).toBe('480000');
+      expect(params.get('currency')).toBe('vnd');
+      expect(params.get('metadata[paymentId]')).toBe('pay-1');
+
+      expect(prisma.paymentAttempt.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            paymentId: 'pay-1',
+            providerRef: 'pi_test_123',
+            status: PaymentProcessingStatus.pending,
+          }),
+        }),
+      );
+      expect(prisma.payment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            providerRef: 'pi_test_123',
+            clientSecret: 'pi_test_123_secret_abc',
+          }),
+        }),
+      );
+    });
+
+    it('should reject payments that are already finalised', async () => {
+      await expect(
+        provider.createPayment(
+          createContext({
+            id: 'pay-1',
+            status: PaymentProcessingStatus.succeeded,
+          }),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mock.requests).toHaveLength(0);
+    });
+  });
+
+  describe('parseWebhook', () => {
+    it('should map payment_intent.succeeded to succeeded', () => {
+      const { payload, signature } = signedPayload({
+        id: 'evt_1',
+        object: 'event',
+        type: 'payment_intent.succeeded',
+        data: {
+          object: {
+            id: 'pi_test_123',
+            object: 'payment_intent',
+            amount: 480000,
+            amount_received: 480000,
+            currency: 'vnd',
+            metadata: { orderId: 'order-1', paymentId: 'pay-1' },
+          },
+        },
+      });
+
+      const event = parse(payload, signature);
+
+      expect(event.paymentId).toBe('pay-1');
+      expect(event.providerRef).toBe('pi_test_123');
+      expect(event.status).toBe(PaymentProcessingStatus.succeeded);
+      expect(event.amount).toBe(480000);
+    });
+
+    it('should map payment_intent.payment_failed to a retryable failure', () => {
+      const { payload, signature } = signedPayload({
+        id: 'evt_failed',
+        object: 'event',
+        type: 'payment_intent.payment_failed',
+        data: {
+          object: {
+            id: 'pi_test_123',
+            object: 'payment_intent',
+            amount: 480000,
+            currency: 'vnd',
+            status: 'requires_payment_method',
+            last_payment_error: { message: 'Your card was declined.' },
+          },
+        },
+      });
+
+      const event = parse(payload, signature);
+
+      expect(event.status).toBe(PaymentProcessingStatus.failed);
+      expect(event.retryable).toBe(true);
+      expect(event.failureReason).toBe('Your card was declined.');
+    });
+
+    it('should map payment_intent.canceled to a final cancellation', () => {
+      const { payload, signature } = signedPayload({
+        id: 'evt_canceled',
+        object: 'event',
+        type: 'payment_intent.canceled',
+        data: { object: { id: 'pi_test_123', object: 'payment_intent' } },
+      });
+
+      const event = parse(payload, signature);
+
+      expect(event.status).toBe(PaymentProcessingStatus.cancelled);
+      expect(event.retryable).toBeUndefined();
+    });
+
+    it('should map partial and full charge.refunded events', () => {
+      const refundEvent = (amountRefunded: number) =>
+        signedPayload({
+          id: `evt_refund_${amountRefunded}`,
+          object: 'event',
+          type: 'charge.refunded',
+          data: {
+            object: {
+              id: 'ch_1',
+              object: 'charge',
+              amount: 1000,
+              amount_refunded: amountRefunded,
+              currency: 'usd',
+              payment_intent: 'pi_test_123',
+            },
+          },
+        });
+
+      const partial = refundEvent(400);
+      const full = refundEvent(1000);
+
+      const partialEvent = parse(partial.payload, partial.signature);
+      const fullEvent = parse(full.payload, full.signature);
+
+      expect(partialEvent.status).toBe(PaymentProcessingStatus.succeeded);
+      expect(partialEvent.amountRefunded).toBe(4);
+      expect(fullEvent.status).toBe(PaymentProcessingStatus.refunded);
+      expect(fullEvent.providerRef).toBe('pi_test_123');
+    });
+
+    it('should reject an invalid signature', () => {
+      const { payload } = signedPayload({
+        id: 'evt_2',
+        object: 'event',
+        type: 'payment_intent.succeeded',
+        data: { object: { id: 'pi_test_123' } },
+      });
+
+      expect(() => parse(payload, 't=1,v1=invalid')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
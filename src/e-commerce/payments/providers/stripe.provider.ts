@@ -0,0 +1,422 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentProvider,
+} from '@prisma/client';
+import Stripe from 'stripe';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { PaymentConfigService } from '../payment-config.service';
+import {
+  PaymentCreateContext,
+  PaymentCreateResult,
+  PaymentGatewayStatus,
+  PaymentProviderAdapter,
+  PaymentRefundContext,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  PaymentWebhookInput,
+  PaymentWithAttempts,
+} from '../types/payment-provider.types';
+
+// Stripe expects amounts in the smallest currency unit, except for these
+const ZERO_DECIMAL_CURRENCIES = ['vnd', 'jpy', 'krw'];
+
+// Card checkouts get the same window as a VietQR transfer
+const INTENT_EXPIRES_MINUTES = 15;
+
+@Injectable()
+export class StripeProvider implements PaymentProviderAdapter {
+  readonly provider = PaymentProvider.stripe;
+  readonly supportedMethods: PaymentMethod[] = [PaymentMethod.card];
+
+  private readonly logger = new Logger(StripeProvider.name);
+  private stripeClient?: Stripe;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentConfig: PaymentConfigService,
+  ) {}
+
+  /**
+   * Lazily build the Stripe client so the app boots without Stripe credentials
+   */
+  private get stripe(): Stripe {
+    if (!this.stripeClient) {
+      const secretKey = this.paymentConfig.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        throw new BadRequestException('Stripe is not configured');
+      }
+
+      const { host, port, protocol } = this.paymentConfig.STRIPE_API_OVERRIDES;
+      this.stripeClient = new Stripe(secretKey, {
+        host,
+        port,
+        protocol,
+        maxNetworkRetries: 2,
+        appInfo: { name: 'acta-e-commerce' },
+      });
+    }
+
+    return this.stripeClient;
+  }
+
+  /**
+   * Create (or reuse) a PaymentIntent for the payment and record the attempt
+   */
+  async createPayment(
+    context: PaymentCreateContext,
+  ): Promise<PaymentCreateResult> {
+    const { payment, orderId, orderCode, amount, currency } = context;
+    const paymentId = payment.id;
+
+    try {
+      if (
+        payment.status !== PaymentProcessingStatus.created &&
+        payment.status !== PaymentProcessingStatus.pending
+      ) {
+        throw new BadRequestException(
+          'Payment is not in valid state for processing',
+        );
+      }
+
+      const expiresAt =
+        payment.expiresAt ||
+        new Date(Date.now() + INTENT_EXPIRES_MINUTES * 60 * 1000);
+
+      // Reuse the open intent if the client asks again (page reload, retry)
+      if (
+        payment.status === PaymentProcessingStatus.pending &&
+        payment.providerRef?.startsWith('pi_') &&
+        payment.clientSecret
+      ) {
+        const existingIntent = await this.stripe.paymentIntents.retrieve(
+          payment.providerRef,
+        );
+
+        if (
+          existingIntent.status !== 'canceled' &&
+          existingIntent.status !== 'succeeded' &&
+          existingIntent.amount === this.toStripeAmount(amount, currency)
+        ) {
+          return {
+            status: PaymentProcessingStatus.pending,
+            expiresAt,
+            clientSecret: payment.clientSecret,
+            message: 'Stripe payment intent already created',
+          };
+        }
+      }
+
+      const intent = await this.stripe.paymentIntents.create(
+        {
+          amount: this.toStripeAmount(amount, currency),
+          currency: currency.toLowerCase(),
+          description: `Thanh toan don hang ${orderCode}`,
+          receipt_email: context.customerEmail,
+          automatic_payment_methods: { enabled: true },
+          metadata: {
+            orderId,
+            paymentId,
+          },
+        },
+        {
+          idempotencyKey:
+            context.idempotencyKey ||
+            `${paymentId}-${payment.updatedAt.getTime()}`,
+        },
+      );
+
+      if (!intent.client_secret) {
+        throw new BadRequestException(
+          'Stripe did not return a client secret for the payment intent',
+        );
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.paymentAttempt.create({
+          data: {
+            paymentId,
+            providerRef: intent.id,
+            status: PaymentProcessingStatus.pending,
+            amount,
+            currency,
+            requestMeta: {
+              amount: intent.amount,
+              currency: intent.currency,
+              description: intent.description,
+            },
+            responseMeta: {
+              paymentIntentId: intent.id,
+              status: intent.status,
+              livemode: intent.livemode,
+            },
+          },
+        });
+
+        await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentProcessingStatus.pending,
+            providerRef: intent.id,
+            clientSecret: intent.client_secret,
+            expiresAt,
+            requestMeta: {
+              ...((payment.requestMeta as any) || {}),
+              amount,
+              currency,
+              description: intent.description,
+              updatedAt: new Date().toISOString(),
+            },
+            responseMeta: {
+              paymentIntentId: intent.id,
+              intentStatus: intent.status,
+              generatedAt: new Date().toISOString(),
+            },
+          },
+        });
+      });
+
+      this.logger.log(
+        `Stripe payment intent ${intent.id} created for order ${orderId}, payment ${paymentId}`,
+      );
+
+      return {
+        status: PaymentProcessingStatus.pending,
+        expiresAt,
+        clientSecret: intent.client_secret,
+        message: 'Stripe payment created. Please complete card payment.',
+      };
+    } catch (error) {
+      this.logger.error(`Stripe payment creation failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the PaymentIntent status back from Stripe
+   */
+  async verifyPayment(
+    payment: PaymentWithAttempts,
+  ): Promise<PaymentGatewayStatus> {
+    if (!payment.providerRef?.startsWith('pi_')) {
+      return { status: payment.status };
+    }
+
+    const intent = await this.stripe.paymentIntents.retrieve(
+      payment.providerRef,
+    );
+
+    // A declined card leaves the intent in requires_payment_method: the
+    // customer can retry it, so it stays pending until succeeded or canceled
+    let status: PaymentProcessingStatus = PaymentProcessingStatus.pending;
+    if (intent.status === 'succeeded') {
+      status = PaymentProcessingStatus.succeeded;
+    } else if (intent.status === 'canceled') {
+      status = PaymentProcessingStatus.cancelled;
+    }
+
+    return {
+      status,
+      providerRef: intent.id,
+      amount: this.fromStripeAmount(intent.amount_received, intent.currency),
+      message: intent.last_payment_error?.message,
+    };
+  }
+
+  /**
+   * Cancel the PaymentIntent behind a payment (no-op when already final)
+   */
+  async cancelPayment(payment: PaymentWithAttempts): Promise<void> {
+    const paymentIntentId = payment.providerRef;
+    if (!paymentIntentId?.startsWith('pi_')) {
+      return;
+    }
+
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+
+      if (intent.status === 'canceled' || intent.status === 'succeeded') {
+        return;
+      }
+
+      await this.stripe.paymentIntents.cancel(paymentIntentId);
+      this.logger.log(`Stripe payment intent ${paymentIntentId} cancelled`);
+    } catch (error) {
+      this.logger.error(`Stripe payment cancellation failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund (part of) the PaymentIntent
+   */
+  async refund(context: PaymentRefundContext): Promise<PaymentRefundResult> {
+    const { payment, refundId, amount } = context;
+
+    if (!payment.providerRef?.startsWith('pi_')) {
+      throw new BadRequestException(
+        `No Stripe payment intent found for payment ${payment.id}`,
+      );
+    }
+
+    try {
+      const refund = await this.stripe.refunds.create(
+        {
+          payment_intent: payment.providerRef,
+          amount: this.toStripeAmount(amount, payment.currency),
+          metadata: {
+            paymentId: payment.id,
+            refundId,
+            reference: context.reference,
+          },
+        },
+        { idempotencyKey: `refund-${refundId}` },
+      );
+
+      // Card refunds usually stay pending for a while; Stripe does not reverse them
+      const success =
+        refund.status === 'succeeded' || refund.status === 'pending';
+
+      this.logger.log(
+        `Stripe refund ${refund.id} for payment ${payment.id} is ${refund.status}`,
+      );
+
+      return {
+        success,
+        providerRef: refund.id,
+        message: success ? 'Refund accepted' : 'Refund failed',
+        raw: {
+          refundId: refund.id,
+          status: refund.status,
+          failureReason: refund.failure_reason,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Stripe refund request failed: ${error.message}`);
+      throw new BadRequestException('Stripe refund request failed');
+    }
+  }
+
+  /**
+   * Verify the Stripe-Signature header and map the event onto our statuses
+   */
+  parseWebhook(input: PaymentWebhookInput): PaymentWebhookEvent {
+    const { rawBody } = input;
+    const signature = input.headers['stripe-signature'];
+    const webhookSecret = this.paymentConfig.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      throw new BadRequestException('STRIPE_WEBHOOK_SECRET not configured');
+    }
+
+    if (!signature) {
+      throw new BadRequestException('Missing Stripe-Signature header');
+    }
+
+    // Signature is computed over the exact bytes Stripe sent
+    if (!rawBody) {
+      throw new BadRequestException('Raw request body is not available');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(
+        rawBody,
+        signature,
+        webhookSecret,
+      );
+    } catch (error) {
+      this.logger.warn(`Invalid Stripe webhook signature: ${error.message}`);
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    const raw = event as unknown as Record<string, any>;
+
+    switch (event.type) {
+      case 'payment_intent.succeeded': {
+        const intent = event.data.object;
+        return {
+          eventId: event.id,
+          type: event.type,
+          paymentId: intent.metadata?.paymentId,
+          providerRef: intent.id,
+          status: PaymentProcessingStatus.succeeded,
+          amount: this.fromStripeAmount(
+            intent.amount_received,
+            intent.currency,
+          ),
+          raw,
+        };
+      }
+      case 'payment_intent.payment_failed': {
+        const intent = event.data.object;
+        return {
+          eventId: event.id,
+          type: event.type,
+          paymentId: intent.metadata?.paymentId,
+          providerRef: intent.id,
+          status: PaymentProcessingStatus.failed,
+          amount: this.fromStripeAmount(intent.amount, intent.currency),
+          failureReason:
+            intent.last_payment_error?.message || 'Card payment failed',
+          // The intent can still be confirmed with another card
+          retryable: true,
+          raw,
+        };
+      }
+      case 'payment_intent.canceled': {
+        const intent = event.data.object;
+        return {
+          eventId: event.id,
+          type: event.type,
+          paymentId: intent.metadata?.paymentId,
+          providerRef: intent.id,
+          status: PaymentProcessingStatus.cancelled,
+          raw,
+        };
+      }
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        const amount = this.fromStripeAmount(charge.amount, charge.currency);
+        const amountRefunded = this.fromStripeAmount(
+          charge.amount_refunded,
+          charge.currency,
+        );
+        return {
+          eventId: event.id,
+          type: event.type,
+          providerRef:
+            typeof charge.payment_intent === 'string'
+              ? charge.payment_intent
+              : charge.payment_intent?.id,
+          // Partial refunds keep the payment succeeded
+          status:
+            amountRefunded >= amount
+              ? PaymentProcessingStatus.refunded
+              : PaymentProcessingStatus.succeeded,
+          amount,
+          amountRefunded,
+          raw,
+        };
+      }
+      default:
+        return {
+          eventId: event.id,
+          type: event.type,
+          raw,
+        };
+    }
+  }
+
+  private toStripeAmount(amount: number, currency: string): number {
+    return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase())
+      ? Math.round(amount)
+      : Math.round(amount * 100);
+  }
+
+  private fromStripeAmount(amount: number, currency: string): number {
+    return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase())
+      ? amount
+      : amount / 100;
+  }
+}
@@ -0,0 +1,195 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentProvider,
+} from '@prisma/client';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { PaymentConfigService } from '../payment-config.service';
+import { WebhookSignatureHelper } from '../helpers/webhook-signature.helper';
+import {
+  PaymentCreateContext,
+  PaymentCreateResult,
+  PaymentGatewayStatus,
+  PaymentProviderAdapter,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  PaymentWebhookInput,
+  PaymentWithAttempts,
+} from '../types/payment-provider.types';
+
+const REFERENCE_PREFIX = 'ACTA ';
+
+@Injectable()
+export class VietQRProvider implements PaymentProviderAdapter {
+  readonly provider = PaymentProvider.vietqr;
+  readonly supportedMethods: PaymentMethod[] = [PaymentMethod.transfer];
+
+  private readonly logger = new Logger(VietQRProvider.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentConfig: PaymentConfigService,
+    private readonly webhookSignatureHelper: WebhookSignatureHelper,
+  ) {}
+
+  /**
+   * Generate the bank transfer QR for the payment
+   */
+  async createPayment(
+    context: PaymentCreateContext,
+  ): Promise<PaymentCreateResult> {
+    const { payment, orderId, orderCode, amount } = context;
+    const config = this.paymentConfig.VIETQR;
+    const responseMeta = (payment.responseMeta as any) || {};
+
+    // The QR is still valid - hand the same one back (page reload, retry)
+    if (
+      payment.status === PaymentProcessingStatus.pending &&
+      payment.expiresAt &&
+      payment.expiresAt > new Date() &&
+      responseMeta.qrContent
+    ) {
+      this.logger.log(
+        `Returning existing pending VietQR payment for order ${orderId}`,
+      );
+
+      return {
+        status: PaymentProcessingStatus.pending,
+        expiresAt: payment.expiresAt,
+        qrContent: responseMeta.qrContent,
+        message: `VietQR payment created successfully. Please scan QR code to complete payment within ${config.expiresMinutes} minutes.`,
+      };
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + config.expiresMinutes);
+
+    const qrContent = this.generateQRContent(amount, orderCode);
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentProcessingStatus.pending,
+        expiresAt,
+        requestMeta: {
+          ...((payment.requestMeta as any) || {}),
+          amount,
+          description: `Thanh toan don hang ${orderCode}`,
+          orderCode,
+          bankBin: config.bankBin,
+          accountNumber: config.accountNumber,
+          accountName: config.accountName,
+          updatedAt: new Date().toISOString(),
+        },
+        responseMeta: {
+          qrContent,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    this.logger.log(
+      `VietQR payment created for order ${orderId}, payment ${payment.id}`,
+    );
+
+    return {
+      status: PaymentProcessingStatus.pending,
+      expiresAt,
+      qrContent,
+      message: `VietQR payment created successfully. Please scan QR code to complete payment within ${config.expiresMinutes} minutes.`,
+    };
+  }
+
+  /**
+   * Bank transfers are only confirmed by webhook, so report what we know
+   */
+  async verifyPayment(
+    payment: PaymentWithAttempts,
+  ): Promise<PaymentGatewayStatus> {
+    return {
+      status: payment.status,
+      providerRef: payment.providerRef || undefined,
+      amount: Number(payment.amount),
+    };
+  }
+
+  /**
+   * Nothing to cancel on the bank side - the QR simply expires
+   */
+  async cancelPayment(): Promise<void> {
+    return;
+  }
+
+  async refund(): Promise<PaymentRefundResult> {
+    throw new BadRequestException(
+      'VietQR refunds must be transferred manually and settled',
+    );
+  }
+
+  /**
+   * Verify the bank webhook signature and map the transfer onto a payment
+   */
+  parseWebhook(input: PaymentWebhookInput): PaymentWebhookEvent {
+    const body = input.body || {};
+
+    const isValidSignature = this.webhookSignatureHelper.verifyVietQRWebhook(
+      JSON.stringify(body),
+      input.headers,
+    );
+
+    if (!isValidSignature) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    if (!body.reference || !body.amount || !body.transactionId) {
+      throw new BadRequestException('Missing required webhook fields');
+    }
+
+    const { orderCode, paymentId } = this.parseReference(body.reference);
+    if (!orderCode) {
+      throw new BadRequestException('Invalid reference format in webhook');
+    }
+
+    return {
+      type: 'vietqr.transfer',
+      paymentId,
+      orderCode,
+      transactionId: String(body.transactionId),
+      status: PaymentProcessingStatus.succeeded,
+      amount: Number(body.amount),
+      raw: body,
+    };
+  }
+
+  /**
+   * Generate VietQR content (URL)
+   */
+  private generateQRContent(amount: number, orderCode: string): string {
+    const { bankBin, accountNumber, accountName } = this.paymentConfig.VIETQR;
+
+    // VietQR format: https://img.vietqr.io/image/{bankCode}-{accountNo}-qr_only.png?amount={amount}&addInfo={description}&accountName={accountName}
+    const addInfo = encodeURIComponent(`${REFERENCE_PREFIX}${orderCode}`);
+
+    return `https://img.vietqr.io/image/${bankBin}-${accountNumber}-qr_only.png?amount=${amount}&addInfo=${addInfo}&accountName=${encodeURIComponent(accountName)}`;
+  }
+
+  /**
+   * Expected format: "ACTA {orderCode}" or "ACTA {orderCode} | pay:{paymentId}"
+   */
+  private parseReference(reference: string): {
+    orderCode?: string;
+    paymentId?: string;
+  } {
+    if (!reference.startsWith(REFERENCE_PREFIX)) {
+      return {};
+    }
+
+    const [code, paymentId] = reference.split(' | pay:');
+
+    return {
+      orderCode: code.replace(REFERENCE_PREFIX, ''),
+      paymentId,
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpService } from '@nestjs/axios';
+import { PaymentMethod, PaymentProcessingStatus } from '@prisma/client';
+import { of } from 'rxjs';
+import { VnpayProvider } from './vnpay.provider';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { PaymentConfigService } from '../payment-config.service';
+
+describe('VnpayProvider', () => {
+  let provider: VnpayProvider;
+  let prisma: any;
+  let httpService: { post: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      payment: { update: jest.fn() },
+      paymentAttempt: { create: jest.fn() },
+      $transaction: jest.fn((callback) => callback(prisma)),
+    };
+    httpService = { post: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VnpayProvider,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HttpService, useValue: httpService },
+        {
+          provide: PaymentConfigService,
+          useValue: {
+            VNPAY: {
+              tmnCode: 'ACTATEST',
+              hashSecret: 'SECRETKEY123',
+              returnUrl: 'https://acta.test/payments/vnpay/return',
+              ipnUrl: 'https://api.acta.test/payments/webhooks/vnpay/ipn',
+              apiUrl:
+                'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction',
+              paymentUrl: 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+              expiresMinutes: 15,
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    provider = module.get<VnpayProvider>(VnpayProvider);
+  });
+
+  const createQuery = async () => {
+    const result = await provider.createPayment({
+      payment: { id: 'pay-1', status: PaymentProcessingStatus.created } as any,
+      orderId: 'order-1',
+      orderCode: 'HN-250827-023',
+      method: PaymentMethod.card,
+      amount: 480000,
+      currency: 'VND',
+      clientIp: '127.0.0.1',
+    });
+
+    return {
+      result,
+      query: Object.fromEntries(new URL(result.checkoutUrl!).searchParams),
+    };
+  };
+
+  it('should build a signed payment URL and record the attempt', async () => {
+    const { result, query } = await createQuery();
+
+    expect(query.vnp_Amount).toBe('48000000');
+    expect(query.vnp_TmnCode).toBe('ACTATEST');
+    expect(query.vnp_TxnRef).toMatch(/^HN250827023\d+$/);
+    expect(provider.verifySecureHash(query)).toBe(true);
+
+    expect(prisma.paymentAttempt.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          providerRef: query.vnp_TxnRef,
+          checkoutUrl: result.checkoutUrl,
+        }),
+      }),
+    );
+  });
+
+  it('should reject a tampered query', async () => {
+    const { query } = await createQuery();
+
+    expect(provider.verifySecureHash({ ...query, vnp_Amount: '100' })).toBe(
+      false,
+    );
+    expect(
+      provider.verifySecureHash({ ...query, vnp_SecureHash: undefined }),
+    ).toBe(false);
+  });
+
+  it('should map VNPay response codes onto payment statuses', () => {
+    const base = { vnp_TxnRef: 'HN1', vnp_Amount: '48000000' };
+
+    expect(
+      provider.parseCallback({
+        ...base,
+        vnp_ResponseCode: '00',
+        vnp_TransactionStatus: '00',
+      }),
+    ).toEqual(
+      expect.objectContaining({
+        amount: 480000,
+        status: PaymentProcessingStatus.succeeded,
+      }),
+    );
+    expect(
+      provider.parseCallback({ ...base, vnp_ResponseCode: '24' }).status,
+    ).toBe(PaymentProcessingStatus.cancelled);
+    expect(
+      provider.parseCallback({ ...base, vnp_ResponseCode: '51' }).status,
+    ).toBe(PaymentProcessingStatus.failed);
+  });
+
+  it('should return the querydr response so the pay date can be stored', async () => {
+    const queryResponse = {
+      vnp_ResponseCode: '00',
+      vnp_Message: 'QueryDR Success',
+      vnp_TxnRef: 'HN1',
+      vnp_Amount: '48000000',
+      vnp_TransactionNo: '13999999',
+      vnp_TransactionStatus: '00',
+      vnp_PayDate: '20250827101500',
+    };
+    httpService.post.mockReturnValue(of({ data: queryResponse }));
+
+    const status = await provider.verifyPayment({
+      id: 'pay-1',
+      status: PaymentProcessingStatus.pending,
+      providerRef: 'HN1',
+      attempts: [
+        {
+          providerRef: 'HN1',
+          status: PaymentProcessingStatus.pending,
+          requestMeta: { vnp_CreateDate: '20250827100000' },
+        },
+      ],
+    } as any);
+
+    expect(httpService.post.mock.calls[0][1].vnp_Command).toBe('querydr');
+    expect(status).toEqual(
+      expect.objectContaining({
+        status: PaymentProcessingStatus.succeeded,
+        amount: 480000,
+        raw: expect.objectContaining({ vnp_PayDate: '20250827101500' }),
+      }),
+    );
+  });
+
+  it('should sign refund requests and report the gateway result', async () => {
+    httpService.post.mockReturnValue(
+      of({
+        data: {
+          vnp_ResponseCode: '00',
+          vnp_Message: 'Refund success',
+          vnp_TransactionNo: '14000001',
+        },
+      }),
+    );
+
+    const response = await provider.refund({
+      payment: {
+        id: 'pay-1',
+        attempts: [
+          {
+            providerRef: 'HN1',
+            status: PaymentProcessingStatus.succeeded,
+            responseMeta: {
+              vnp_TransactionNo: '13999999',
+              vnp_PayDate: '20250827101500',
+            },
+          },
+        ],
+      } as any,
+      refundId: 'refund-1',
+      reference: 'REF-1',
+      amount: 100000,
+      isFullRefund: false,
+      requestedBy: 'admin-1',
+      ipAddr: '127.0.0.1',
+    });
+
+    const payload = httpService.post.mock.calls[0][1];
+    expect(payload.vnp_TransactionType).toBe('03');
+    expect(payload.vnp_Amount).toBe('10000000');
+    expect(payload.vnp_TransactionDate).toBe('20250827101500');
+    expect(payload.vnp_SecureHash).toMatch(/^[0-9a-f]{128}$/);
+    expect(response).toEqual(
+      expect.objectContaining({ success: true, providerRef: '14000001' }),
+    );
+  });
+});
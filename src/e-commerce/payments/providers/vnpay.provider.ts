@@ -0,0 +1,488 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import {
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentProvider,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { PaymentConfigService } from '../payment-config.service';
+import {
+  PaymentCreateContext,
+  PaymentCreateResult,
+  PaymentGatewayStatus,
+  PaymentProviderAdapter,
+  PaymentRefundContext,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  PaymentWebhookInput,
+  PaymentWithAttempts,
+} from '../types/payment-provider.types';
+
+const VNP_VERSION = '2.1.0';
+
+// VNPay response codes we react to (see VNPay merchant docs)
+export const VNPAY_RESPONSE_CODES = {
+  SUCCESS: '00',
+  CUSTOMER_CANCELLED: '24',
+} as const;
+
+// Acknowledgement codes VNPay expects back from the IPN endpoint
+export const VNPAY_IPN_RESPONSES = {
+  SUCCESS: { RspCode: '00', Message: 'Confirm Success' },
+  ORDER_NOT_FOUND: { RspCode: '01', Message: 'Order not found' },
+  ALREADY_CONFIRMED: { RspCode: '02', Message: 'Order already confirmed' },
+  INVALID_AMOUNT: { RspCode: '04', Message: 'Invalid amount' },
+  INVALID_CHECKSUM: { RspCode: '97', Message: 'Invalid Checksum' },
+  UNKNOWN_ERROR: { RspCode: '99', Message: 'Unknown error' },
+} as const;
+
+export type VnpayIpnResponse =
+  (typeof VNPAY_IPN_RESPONSES)[keyof typeof VNPAY_IPN_RESPONSES];
+
+export interface VnpayCallbackResult {
+  txnRef: string;
+  transactionNo?: string;
+  amount: number;
+  responseCode: string;
+  transactionStatus?: string;
+  payDate?: string;
+  status: PaymentProcessingStatus;
+}
+
+@Injectable()
+export class VnpayProvider implements PaymentProviderAdapter {
+  readonly provider = PaymentProvider.vnpay;
+  readonly supportedMethods: PaymentMethod[] = [
+    PaymentMethod.card,
+    PaymentMethod.wallet,
+  ];
+
+  private readonly logger = new Logger(VnpayProvider.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly httpService: HttpService,
+    private readonly paymentConfig: PaymentConfigService,
+  ) {}
+
+  /**
+   * Build a signed VNPay payment URL and record the attempt
+   */
+  async createPayment(
+    context: PaymentCreateContext,
+  ): Promise<PaymentCreateResult> {
+    const { payment, orderId, orderCode, amount } = context;
+    const config = this.paymentConfig.VNPAY;
+
+    if (!config.tmnCode || !config.hashSecret) {
+      throw new BadRequestException('VNPay is not configured');
+    }
+
+    if (
+      payment.status !== PaymentProcessingStatus.created &&
+      payment.status !== PaymentProcessingStatus.pending
+    ) {
+      throw new BadRequestException(
+        'Payment is not in valid state for processing',
+      );
+    }
+
+    try {
+      const expiresAt = new Date();
+      expiresAt.setMinutes(expiresAt.getMinutes() + config.expiresMinutes);
+
+      // VNPay rejects a reused vnp_TxnRef, so every attempt gets its own
+      const txnRef = this.buildTxnRef(orderCode);
+      const description = `Thanh toan don hang ${orderCode}`;
+
+      const params: Record<string, string> = {
+        vnp_Version: VNP_VERSION,
+        vnp_Command: 'pay',
+        vnp_TmnCode: config.tmnCode,
+        vnp_Amount: String(Math.round(amount * 100)),
+        vnp_CurrCode: 'VND',
+        vnp_TxnRef: txnRef,
+        vnp_OrderInfo: description,
+        vnp_OrderType: 'other',
+        vnp_Locale: 'vn',
+        vnp_ReturnUrl: config.returnUrl,
+        vnp_IpAddr: context.clientIp || '127.0.0.1',
+        vnp_CreateDate: this.formatDate(new Date()),
+        vnp_ExpireDate: this.formatDate(expiresAt),
+      };
+
+      if (context.bankCode) {
+        params.vnp_BankCode = context.bankCode;
+      }
+
+      const signData = this.buildSignData(params);
+      const secureHash = this.sign(signData);
+      const checkoutUrl = `${config.paymentUrl}?${signData}&vnp_SecureHash=${secureHash}`;
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.paymentAttempt.create({
+          data: {
+            paymentId: payment.id,
+            providerRef: txnRef,
+            status: PaymentProcessingStatus.pending,
+            amount,
+            currency: 'VND',
+            checkoutUrl,
+            requestMeta: params,
+          },
+        });
+
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentProcessingStatus.pending,
+            providerRef: txnRef,
+            checkoutUrl,
+            expiresAt,
+            requestMeta: {
+              amount,
+              description,
+              orderCode,
+              txnRef,
+              updatedAt: new Date().toISOString(),
+            },
+          },
+        });
+      });
+
+      this.logger.log(
+        `VNPay payment URL created for order ${orderId}, payment ${payment.id}, txnRef ${txnRef}`,
+      );
+
+      return {
+        status: PaymentProcessingStatus.pending,
+        expiresAt,
+        checkoutUrl,
+        message: `VNPay payment created. Please complete payment within ${config.expiresMinutes} minutes.`,
+      };
+    } catch (error) {
+      this.logger.error(`VNPay payment creation failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask VNPay for the result of the latest attempt (querydr)
+   */
+  async verifyPayment(
+    payment: PaymentWithAttempts,
+  ): Promise<PaymentGatewayStatus> {
+    const config = this.paymentConfig.VNPAY;
+    const attempt = payment.attempts.find(
+      (a) => a.providerRef === payment.providerRef,
+    );
+    const createDate = (attempt?.requestMeta as Record<string, any>)
+      ?.vnp_CreateDate;
+
+    if (!attempt?.providerRef || !createDate) {
+      return { status: payment.status };
+    }
+
+    if (!config.apiUrl || !config.tmnCode || !config.hashSecret) {
+      throw new BadRequestException('VNPay query API is not configured');
+    }
+
+    const payload: Record<string, string> = {
+      vnp_RequestId: crypto.randomBytes(16).toString('hex'),
+      vnp_Version: VNP_VERSION,
+      vnp_Command: 'querydr',
+      vnp_TmnCode: config.tmnCode,
+      vnp_TxnRef: attempt.providerRef,
+      vnp_OrderInfo: `Truy van giao dich ${attempt.providerRef}`,
+      vnp_TransactionDate: createDate,
+      vnp_CreateDate: this.formatDate(new Date()),
+      vnp_IpAddr: '127.0.0.1',
+    };
+
+    // Query checksum is a pipe-joined list in this exact order
+    payload.vnp_SecureHash = this.sign(
+      [
+        payload.vnp_RequestId,
+        payload.vnp_Version,
+        payload.vnp_Command,
+        payload.vnp_TmnCode,
+        payload.vnp_TxnRef,
+        payload.vnp_TransactionDate,
+        payload.vnp_CreateDate,
+        payload.vnp_IpAddr,
+        payload.vnp_OrderInfo,
+      ].join('|'),
+    );
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(config.apiUrl, payload, {
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      );
+
+      const data = response.data || {};
+      if (data.vnp_ResponseCode !== VNPAY_RESPONSE_CODES.SUCCESS) {
+        this.logger.warn(
+          `VNPay query for txnRef ${attempt.providerRef} responded ${data.vnp_ResponseCode}`,
+        );
+        return { status: payment.status, message: data.vnp_Message };
+      }
+
+      // Transaction still being processed on VNPay's side
+      if (data.vnp_TransactionStatus === '01') {
+        return {
+          status: PaymentProcessingStatus.pending,
+          providerRef: attempt.providerRef,
+        };
+      }
+
+      const callback = this.parseCallback({
+        ...data,
+        vnp_ResponseCode: data.vnp_TransactionStatus,
+      });
+
+      // Kept on the attempt: refunds need vnp_PayDate and vnp_TransactionNo
+      return {
+        status: callback.status,
+        providerRef: callback.transactionNo || attempt.providerRef,
+        amount: callback.amount,
+        message: data.vnp_Message,
+        raw: data,
+      };
+    } catch (error) {
+      this.logger.error(`VNPay query request failed: ${error.message}`);
+      throw new BadRequestException('VNPay query request failed');
+    }
+  }
+
+  /**
+   * VNPay has no cancel API - an unpaid URL simply expires
+   */
+  async cancelPayment(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Verify vnp_SecureHash on a return URL or IPN query
+   */
+  verifySecureHash(query: Record<string, any>): boolean {
+    const receivedHash = query.vnp_SecureHash;
+    if (!receivedHash || typeof receivedHash !== 'string') {
+      return false;
+    }
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(query)) {
+      if (
+        key.startsWith('vnp_') &&
+        key !== 'vnp_SecureHash' &&
+        key !== 'vnp_SecureHashType'
+      ) {
+        params[key] = String(value);
+      }
+    }
+
+    const expectedHash = this.sign(this.buildSignData(params));
+
+    try {
+      return crypto.timingSafeEqual(
+        Buffer.from(receivedHash.toLowerCase()),
+        Buffer.from(expectedHash),
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Map a (verified) return/IPN query onto our payment status
+   */
+  parseCallback(query: Record<string, any>): VnpayCallbackResult {
+    const responseCode = String(query.vnp_ResponseCode || '');
+    const transactionStatus =
+      query.vnp_TransactionStatus !== undefined
+        ? String(query.vnp_TransactionStatus)
+        : undefined;
+
+    let status: PaymentProcessingStatus = PaymentProcessingStatus.failed;
+    if (
+      responseCode === VNPAY_RESPONSE_CODES.SUCCESS &&
+      (transactionStatus === undefined ||
+        transactionStatus === VNPAY_RESPONSE_CODES.SUCCESS)
+    ) {
+      status = PaymentProcessingStatus.succeeded;
+    } else if (responseCode === VNPAY_RESPONSE_CODES.CUSTOMER_CANCELLED) {
+      status = PaymentProcessingStatus.cancelled;
+    }
+
+    return {
+      txnRef: String(query.vnp_TxnRef || ''),
+      transactionNo: query.vnp_TransactionNo
+        ? String(query.vnp_TransactionNo)
+        : undefined,
+      // vnp_Amount is sent multiplied by 100
+      amount: Number(query.vnp_Amount || 0) / 100,
+      responseCode,
+      transactionStatus,
+      payDate: query.vnp_PayDate ? String(query.vnp_PayDate) : undefined,
+      status,
+    };
+  }
+
+  /**
+   * Verify and map an IPN or return URL query
+   */
+  parseWebhook(input: PaymentWebhookInput): PaymentWebhookEvent {
+    const query = input.query || {};
+
+    if (!this.verifySecureHash(query)) {
+      throw new BadRequestException('Invalid VNPay checksum');
+    }
+
+    const callback = this.parseCallback(query);
+
+    return {
+      type: `vnpay.${callback.responseCode}`,
+      providerRef: callback.txnRef,
+      transactionId: callback.transactionNo,
+      status: callback.status,
+      amount: callback.amount,
+      failureReason:
+        callback.status === PaymentProcessingStatus.succeeded
+          ? undefined
+          : `VNPay payment ${callback.status} (code ${callback.responseCode})`,
+      raw: query,
+    };
+  }
+
+  /**
+   * Call VNPay's merchant refund API for the settled attempt
+   */
+  async refund(context: PaymentRefundContext): Promise<PaymentRefundResult> {
+    const { payment } = context;
+    const config = this.paymentConfig.VNPAY;
+
+    if (!config.apiUrl || !config.tmnCode || !config.hashSecret) {
+      throw new BadRequestException('VNPay refund API is not configured');
+    }
+
+    const attempt = payment.attempts.find(
+      (a) => a.status === PaymentProcessingStatus.succeeded,
+    );
+    const paidQuery = (attempt?.responseMeta as Record<string, any>) || {};
+    if (!attempt?.providerRef || !paidQuery.vnp_PayDate) {
+      throw new BadRequestException(
+        `No settled VNPay transaction found for payment ${payment.id}`,
+      );
+    }
+
+    const payload: Record<string, string> = {
+      vnp_RequestId: crypto.randomBytes(16).toString('hex'),
+      vnp_Version: VNP_VERSION,
+      vnp_Command: 'refund',
+      vnp_TmnCode: config.tmnCode,
+      // 02: full refund, 03: partial refund
+      vnp_TransactionType: context.isFullRefund ? '02' : '03',
+      vnp_TxnRef: attempt.providerRef,
+      vnp_Amount: String(Math.round(context.amount * 100)),
+      vnp_TransactionNo: paidQuery.vnp_TransactionNo || '',
+      vnp_TransactionDate: paidQuery.vnp_PayDate,
+      vnp_CreateBy: context.requestedBy,
+      vnp_CreateDate: this.formatDate(new Date()),
+      vnp_IpAddr: context.ipAddr,
+      vnp_OrderInfo: `Hoan tien ${context.reference}`,
+    };
+
+    // Refund checksum is a pipe-joined list in this exact order
+    payload.vnp_SecureHash = this.sign(
+      [
+        payload.vnp_RequestId,
+        payload.vnp_Version,
+        payload.vnp_Command,
+        payload.vnp_TmnCode,
+        payload.vnp_TransactionType,
+        payload.vnp_TxnRef,
+        payload.vnp_Amount,
+        payload.vnp_TransactionNo,
+        payload.vnp_TransactionDate,
+        payload.vnp_CreateBy,
+        payload.vnp_CreateDate,
+        payload.vnp_IpAddr,
+        payload.vnp_OrderInfo,
+      ].join('|'),
+    );
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(config.apiUrl, payload, {
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      );
+
+      const data = response.data || {};
+      const success = data.vnp_ResponseCode === VNPAY_RESPONSE_CODES.SUCCESS;
+
+      this.logger.log(
+        `VNPay refund for txnRef ${attempt.providerRef} responded ${data.vnp_ResponseCode}`,
+      );
+
+      return {
+        success,
+        providerRef: data.vnp_TransactionNo || data.vnp_ResponseId,
+        message:
+          data.vnp_Message || (success ? 'Refund accepted' : 'Refund failed'),
+        raw: data,
+      };
+    } catch (error) {
+      this.logger.error(`VNPay refund request failed: ${error.message}`);
+      throw new BadRequestException('VNPay refund request failed');
+    }
+  }
+
+  /**
+   * Sorted, form-encoded query string VNPay signs over
+   */
+  private buildSignData(params: Record<string, string>): string {
+    return Object.keys(params)
+      .sort()
+      .filter((key) => params[key] !== undefined && params[key] !== '')
+      .map(
+        (key) =>
+          `${encodeURIComponent(key)}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`,
+      )
+      .join('&');
+  }
+
+  private sign(data: string): string {
+    return crypto
+      .createHmac('sha512', this.paymentConfig.VNPAY.hashSecret)
+      .update(Buffer.from(data, 'utf-8'))
+      .digest('hex');
+  }
+
+  private buildTxnRef(orderCode: string): string {
+    const safeCode = orderCode.replace(/[^A-Za-z0-9]/g, '');
+    return `${safeCode}${Date.now()}`;
+  }
+
+  /**
+   * VNPay timestamps are yyyyMMddHHmmss in Vietnam time (GMT+7)
+   */
+  private formatDate(date: Date): string {
+    const local = new Date(date.getTime() + 7 * 60 * 60 * 1000);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return (
+      local.getUTCFullYear().toString() +
+      pad(local.getUTCMonth() + 1) +
+      pad(local.getUTCDate()) +
+      pad(local.getUTCHours()) +
+      pad(local.getUTCMinutes()) +
+      pad(local.getUTCSeconds())
+    );
+  }
+}
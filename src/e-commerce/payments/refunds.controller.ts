@@ -16,6 +16,11 @@ import {
   ApiBearerAuth,
   ApiParam,
 } from '@nestjs/swagger';
+import * as requestIp from 'request-ip';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
 import { RefundsService } from './refunds.service';
 import {
   CreateRefundDto,
@@ -149,6 +154,41 @@ export class RefundsController {
     );
   }
 
+  @Post(':refundId/process')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Process refund through payment gateway',
+    description:
+      'Send an approved refund to the payment gateway (Stripe, VNPay) and settle it on success (role: admin)',
+  })
+  @ApiParam({
+    name: 'refundId',
+    description: 'Refund ID',
+    example: 'refund_1234567890abcdef',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund processed (succeeded or failed at the gateway)',
+    type: RefundResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - refund not approved or provider does not support refunds',
+  })
+  async processGatewayRefund(
+    @Param('refundId') refundId: string,
+    @Request() req: any,
+  ): Promise<RefundResponseDto> {
+    this.logger.log(`Processing gateway refund ${refundId}`);
+    return await this.refundsService.processGatewayRefund(
+      refundId,
+      req.user?.id || 'system',
+      requestIp.getClientIp(req) || '127.0.0.1',
+    );
+  }
+
   @Post(':refundId/cancel')
   @ApiOperation({
     summary: 'Cancel refund request',
@@ -20,12 +20,18 @@ import {
   OrderStatus,
   PaymentStatus,
 } from '@prisma/client';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { CommissionClawbackHelper } from './helpers/commission-clawback.helper';
+import { CashflowHelper } from '../cashflows/cashflow.helper';
 
 @Injectable()
 export class RefundsService {
   private readonly logger = new Logger(RefundsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+  ) {}
 
   /**
    * Create a refund request
@@ -318,6 +324,28 @@ export class RefundsService {
 
       const isFullRefund = totalRefundedAmount >= originalAmount;
 
+      // Reverse affiliate commissions for the refunded share of the order,
+      // once per refund even when the settlement is re-submitted
+      const refundOrderId = refund.payment.orderPayment?.orderId;
+      if (refundOrderId && refund.status !== RefundStatus.succeeded) {
+        await CommissionClawbackHelper.reverseForRefund(tx, {
+          orderId: refundOrderId,
+          amount: Number(refund.amount),
+          refundableAmount:
+            originalAmount - totalRefundedAmount + Number(refund.amount),
+          isFullRefund,
+          items: CommissionClawbackHelper.readRefundItems(refund.requestMeta),
+          previousItems: refund.payment.refunds.flatMap((previous) =>
+            CommissionClawbackHelper.readRefundItems(previous.requestMeta),
+          ),
+          reason: `Refund ${refund.reference || refundId}`,
+          processedBy: userId === 'system' ? undefined : userId,
+        });
+      }
+
+      // Book the payment-out in the cashflow ledger
+      await CashflowHelper.recordRefundPayment(tx, refundId);
+
       // Update payment status if full refund
       if (isFullRefund) {
         await tx.payment.update({
@@ -398,6 +426,108 @@ export class RefundsService {
     });
   }
 
+  /**
+   * Send an approved refund to the payment gateway and settle it on success
+   */
+  async processGatewayRefund(
+    refundId: string,
+    userId: string,
+    ipAddr: string,
+  ): Promise<RefundResponseDto> {
+    this.logger.log(`Processing gateway refund ${refundId} by user ${userId}`);
+
+    const refund = await this.prisma.paymentRefund.findUnique({
+      where: { id: refundId },
+      include: {
+        payment: {
+          include: {
+            orderPayment: true,
+            attempts: {
+              orderBy: { createdAt: 'desc' },
+            },
+            refunds: {
+              where: {
+                status: RefundStatus.succeeded,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!refund) {
+      throw new BadRequestException(`Refund ${refundId} not found`);
+    }
+
+    if (refund.status !== RefundStatus.approved) {
+      throw new BadRequestException(
+        `Refund ${refundId} is not in approved status (current: ${refund.status})`,
+      );
+    }
+
+    const adapter = this.providerRegistry.get(refund.payment.provider);
+
+    const originalAmount = Number(refund.payment.amount);
+    const refundedAmount = refund.payment.refunds.reduce(
+      (sum, r) => sum + Number(r.amount),
+      0,
+    );
+    const isFullRefund =
+      refundedAmount === 0 && Number(refund.amount) >= originalAmount;
+
+    await this.prisma.paymentRefund.update({
+      where: { id: refundId },
+      data: { status: RefundStatus.processing },
+    });
+
+    const gatewayResponse = await adapter
+      .refund({
+        payment: refund.payment,
+        refundId,
+        reference: refund.reference || refund.id,
+        amount: Number(refund.amount),
+        isFullRefund,
+        requestedBy: userId,
+        ipAddr,
+      })
+      .catch((error) => {
+        this.logger.error(
+          `${adapter.provider} refund ${refundId} request error: ${error.message}`,
+        );
+        return null;
+      });
+
+    if (!gatewayResponse || !gatewayResponse.success) {
+      const failedRefund = await this.prisma.paymentRefund.update({
+        where: { id: refundId },
+        data: {
+          status: RefundStatus.failed,
+          responseMeta: {
+            ...((refund.responseMeta as any) || {}),
+            gateway: adapter.provider,
+            gatewayResponse: gatewayResponse?.raw ?? null,
+            failedAt: new Date().toISOString(),
+          },
+        },
+      });
+
+      this.logger.warn(
+        `${adapter.provider} refund ${refundId} failed: ${gatewayResponse?.message || 'request error'}`,
+      );
+
+      return this.mapRefundToResponseDto(
+        failedRefund,
+        refund.payment.orderPayment?.orderId,
+      );
+    }
+
+    return await this.settleRefund(
+      refundId,
+      { providerRef: gatewayResponse.providerRef || refundId },
+      userId,
+    );
+  }
+
   /**
    * Get refundable amount for a payment
    */
@@ -0,0 +1,122 @@
+import {
+  Prisma,
+  PaymentMethod,
+  PaymentProcessingStatus,
+  PaymentProvider,
+} from '@prisma/client';
+
+// Payment as loaded for checkout (with its order)
+export type PaymentWithOrder = Prisma.PaymentGetPayload<{
+  include: {
+    orderPayment: {
+      include: {
+        order: true;
+      };
+    };
+  };
+}>;
+
+// Payment with its gateway attempts (newest first)
+export type PaymentWithAttempts = Prisma.PaymentGetPayload<{
+  include: {
+    attempts: true;
+  };
+}>;
+
+// Everything an adapter needs to start a payment
+export interface PaymentCreateContext {
+  payment: PaymentWithOrder;
+  orderId: string;
+  orderCode: string;
+  method: PaymentMethod;
+  amount: number;
+  currency: string;
+  customerEmail?: string;
+  idempotencyKey?: string;
+  clientIp?: string;
+  bankCode?: string;
+}
+
+// Provider-specific part of the initiate payment response
+export interface PaymentCreateResult {
+  status: PaymentProcessingStatus;
+  expiresAt?: Date;
+  message: string;
+  qrContent?: string;
+  clientSecret?: string;
+  checkoutUrl?: string;
+}
+
+// Payment status as reported by the gateway
+export interface PaymentGatewayStatus {
+  status: PaymentProcessingStatus;
+  providerRef?: string;
+  amount?: number;
+  message?: string;
+  raw?: Record<string, any>; // Gateway response, stored on the attempt like a webhook payload
+}
+
+export interface PaymentRefundContext {
+  payment: PaymentWithAttempts;
+  refundId: string;
+  reference: string;
+  amount: number;
+  isFullRefund: boolean;
+  requestedBy: string;
+  ipAddr: string;
+}
+
+export interface PaymentRefundResult {
+  success: boolean;
+  providerRef?: string;
+  message: string;
+  raw?: Record<string, any>;
+}
+
+// Inbound gateway notification as received by the webhook controller
+export interface PaymentWebhookInput {
+  rawBody?: Buffer | string;
+  headers: Record<string, any>;
+  body?: any;
+  query?: Record<string, any>;
+}
+
+// Gateway notification mapped onto our payment model
+export interface PaymentWebhookEvent {
+  eventId?: string; // Gateway event id, used to dedupe refund events
+  type: string;
+  paymentId?: string;
+  providerRef?: string; // Attempt reference (PaymentIntent id, VNPay txnRef)
+  orderCode?: string;
+  transactionId?: string; // Settled transaction reference stored on success
+  status?: PaymentProcessingStatus; // Undefined for events we do not act on
+  amount?: number;
+  amountRefunded?: number;
+  failureReason?: string;
+  retryable?: boolean; // Failed try the customer can repeat on the same attempt; the payment stays pending
+  raw: Record<string, any>;
+}
+
+export type PaymentWebhookOutcome =
+  | 'processed'
+  | 'duplicate'
+  | 'ignored'
+  | 'not_found'
+  | 'amount_mismatch';
+
+/**
+ * Contract every payment gateway implements.
+ *
+ * Adapters only talk to their gateway and record attempts; order, inventory
+ * and event side effects stay in PaymentsService.
+ */
+export interface PaymentProviderAdapter {
+  readonly provider: PaymentProvider;
+  readonly supportedMethods: PaymentMethod[];
+
+  createPayment(context: PaymentCreateContext): Promise<PaymentCreateResult>;
+  verifyPayment(payment: PaymentWithAttempts): Promise<PaymentGatewayStatus>;
+  cancelPayment(payment: PaymentWithAttempts): Promise<void>;
+  refund(context: PaymentRefundContext): Promise<PaymentRefundResult>;
+  parseWebhook(input: PaymentWebhookInput): PaymentWebhookEvent;
+}
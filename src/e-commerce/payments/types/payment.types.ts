@@ -1,4 +1,5 @@
 import { Prisma, PaymentProcessingStatus } from '@prisma/client';
+import { PaymentWebhookOutcome } from './payment-provider.types';
 
 // Payment with order payment type
 export interface PaymentWithOrderPayment {
@@ -44,36 +45,6 @@ export interface PaymentStatusResult {
   expiresAt?: Date;
 }
 
-// Payment request type
-export interface PaymentRequest {
-  orderId: string;
-  paymentId: string;
-  amount: number;
-  provider: string;
-  method: string;
-  description?: string;
-}
-
-// Extended payment request type with user context
-export interface PaymentRequestWithUser extends PaymentRequest {
-  userId: string;
-}
-
-// Payment response type
-export interface PaymentResponse {
-  success: boolean;
-  paymentId: string;
-  provider: string;
-  method: string;
-  status: PaymentProcessingStatus;
-  amount: number;
-  message: string;
-  qrCode?: string;
-  qrData?: string;
-  redirectUrl?: string;
-  expiresAt?: Date;
-}
-
 // Payment completion response type
 export interface PaymentCompletionResponse {
   success: boolean;
@@ -83,6 +54,11 @@ export interface PaymentCompletionResponse {
   message: string;
 }
 
+// Result of applying a gateway webhook event
+export interface PaymentWebhookResult extends PaymentCompletionResponse {
+  outcome: PaymentWebhookOutcome;
+}
+
 // Pending payment type
 export interface PendingPayment {
   id: string;
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class PurchaseOrderItemDto {
+  @ApiProperty({ description: 'Sản phẩm' })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({ description: 'Số lượng đặt', example: 50, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ description: 'Đơn giá nhập (VND)', example: 120000 })
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @ApiPropertyOptional({ description: 'Giảm giá cả dòng (VND)', example: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discount?: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @ApiProperty({ description: 'Nhà cung cấp' })
+  @IsString()
+  @IsNotEmpty()
+  businessId: string;
+
+  @ApiProperty({ description: 'Kho nhận hàng' })
+  @IsString()
+  @IsNotEmpty()
+  warehouseId: string;
+
+  @ApiProperty({ type: [PurchaseOrderItemDto] })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'Phải có ít nhất một sản phẩm' })
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items: PurchaseOrderItemDto[];
+
+  @ApiPropertyOptional({ description: 'Giảm giá trên đơn (VND)', example: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discount?: number;
+
+  @ApiPropertyOptional({ description: 'Ngày mua (mặc định hôm nay)' })
+  @IsOptional()
+  @IsDateString()
+  purchaseDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hạn thanh toán (mặc định 30 ngày sau ngày mua)',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+}
@@ -0,0 +1,58 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { PurchaseOrderStatus } from '@prisma/client';
+
+export class PurchaseOrderQueryDto {
+  @ApiPropertyOptional({ enum: PurchaseOrderStatus })
+  @IsOptional()
+  @IsEnum(PurchaseOrderStatus)
+  status?: PurchaseOrderStatus;
+
+  @ApiPropertyOptional({ description: 'Lọc theo nhà cung cấp' })
+  @IsOptional()
+  @IsString()
+  businessId?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo kho' })
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class PayablesAgingQueryDto {
+  @ApiPropertyOptional({
+    description: 'Tính tuổi nợ tại ngày (mặc định hôm nay)',
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo nhà cung cấp' })
+  @IsOptional()
+  @IsString()
+  businessId?: string;
+}
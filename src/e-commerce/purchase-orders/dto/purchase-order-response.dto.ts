@@ -0,0 +1,225 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  OrderBusiness,
+  PaymentMethod,
+  PurchaseOrder,
+  PurchaseOrderDetail,
+  PurchaseOrderPayment,
+  PurchaseOrderStatus,
+} from '@prisma/client';
+import { AgingBucket } from '../purchase-order.helper';
+
+export class PurchaseOrderDetailResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiPropertyOptional({ description: 'Tên sản phẩm' })
+  productName: string | null;
+
+  @ApiProperty({ description: 'Số lượng đặt' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Số lượng đã nhận' })
+  receivedQuantity: number;
+
+  @ApiProperty({ description: 'Đơn giá' })
+  price: number;
+
+  @ApiProperty({ description: 'Giảm giá' })
+  discount: number;
+}
+
+export class SupplierPaymentResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã phiếu chi' })
+  code: string;
+
+  @ApiProperty({ description: 'Số tiền' })
+  amount: number;
+
+  @ApiProperty({ enum: PaymentMethod })
+  method: PaymentMethod;
+
+  @ApiProperty({ description: 'Ngày thanh toán' })
+  transDate: Date;
+
+  @ApiProperty({ description: 'Nguồn tiền' })
+  bankAccount: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  description: string | null;
+
+  static fromPayment(
+    payment: PurchaseOrderPayment,
+  ): SupplierPaymentResponseDto {
+    return {
+      id: payment.id,
+      code: payment.code,
+      amount: Number(payment.amount),
+      method: payment.method,
+      transDate: payment.transDate,
+      bankAccount: payment.bankAccount,
+      description: payment.description,
+    };
+  }
+}
+
+export class PurchaseOrderResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã phiếu nhập' })
+  code: string;
+
+  @ApiProperty({ enum: PurchaseOrderStatus, description: 'Trạng thái' })
+  status: PurchaseOrderStatus;
+
+  @ApiProperty({ description: 'Nhà cung cấp' })
+  businessId: string;
+
+  @ApiPropertyOptional({ description: 'Tên nhà cung cấp' })
+  businessName: string | null;
+
+  @ApiProperty({ description: 'Kho nhận' })
+  warehouseId: string;
+
+  @ApiProperty({ description: 'Ngày mua' })
+  purchaseDate: Date;
+
+  @ApiPropertyOptional({ description: 'Hạn thanh toán' })
+  dueDate: Date | null;
+
+  @ApiProperty({ description: 'Giảm giá trên đơn' })
+  discount: number;
+
+  @ApiProperty({ description: 'Tổng tiền phải trả' })
+  total: number;
+
+  @ApiProperty({ description: 'Giá trị hàng đã nhận' })
+  receivedAmount: number;
+
+  @ApiProperty({ description: 'Đã thanh toán' })
+  paidAmount: number;
+
+  @ApiProperty({ description: 'Còn nợ nhà cung cấp (âm: trả trước)' })
+  supplierDebt: number;
+
+  @ApiProperty({ description: 'Nợ cũ của nhà cung cấp khi lập đơn' })
+  supplierOldDebt: number;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description: string | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm nhận đủ hàng' })
+  receivedAt: Date | null;
+
+  @ApiProperty({ type: [PurchaseOrderDetailResponseDto] })
+  details: PurchaseOrderDetailResponseDto[];
+
+  @ApiProperty({ type: [SupplierPaymentResponseDto] })
+  payments: SupplierPaymentResponseDto[];
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromPurchaseOrder(
+    purchaseOrder: PurchaseOrder & {
+      business?: { name: string } | null;
+      orderBusiness?: OrderBusiness | null;
+      purchaseOrderDetails: (PurchaseOrderDetail & {
+        product?: { name: string } | null;
+      })[];
+      payments?: PurchaseOrderPayment[];
+    },
+  ): PurchaseOrderResponseDto {
+    return {
+      id: purchaseOrder.id,
+      code: purchaseOrder.code,
+      status: purchaseOrder.status,
+      businessId: purchaseOrder.businessId,
+      businessName: purchaseOrder.business?.name ?? null,
+      warehouseId: purchaseOrder.warehouseId,
+      purchaseDate: purchaseOrder.purchaseDate,
+      dueDate: purchaseOrder.dueDate,
+      discount: Number(purchaseOrder.discount),
+      total: Number(purchaseOrder.total),
+      receivedAmount: Number(purchaseOrder.receivedAmount),
+      paidAmount: Number(purchaseOrder.orderBusiness?.paidAmount ?? 0),
+      supplierDebt: Number(purchaseOrder.orderBusiness?.supplierDebt ?? 0),
+      supplierOldDebt: Number(
+        purchaseOrder.orderBusiness?.supplierOldDebt ?? 0,
+      ),
+      description: purchaseOrder.description,
+      receivedAt: purchaseOrder.receivedAt,
+      details: purchaseOrder.purchaseOrderDetails.map((detail) => ({
+        id: detail.id,
+        productId: detail.productId,
+        productName: detail.product?.name ?? null,
+        quantity: detail.quantity,
+        receivedQuantity: detail.receivedQuantity,
+        price: Number(detail.price),
+        discount: Number(detail.discount),
+      })),
+      payments: (purchaseOrder.payments ?? []).map((payment) =>
+        SupplierPaymentResponseDto.fromPayment(payment),
+      ),
+      createdAt: purchaseOrder.createdAt,
+    };
+  }
+}
+
+export class PaginatedPurchaseOrderResponseDto {
+  @ApiProperty({ type: [PurchaseOrderResponseDto] })
+  data: PurchaseOrderResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class SupplierAgingRowDto {
+  @ApiProperty({ description: 'Nhà cung cấp' })
+  businessId: string;
+
+  @ApiProperty({ description: 'Tên nhà cung cấp' })
+  businessName: string;
+
+  @ApiProperty({
+    description: 'Nợ theo nhóm số ngày quá hạn',
+    example: { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+  })
+  buckets: Record<AgingBucket, number>;
+
+  @ApiProperty({ description: 'Tổng nợ' })
+  total: number;
+
+  @ApiProperty({ description: 'Số đơn còn nợ' })
+  openOrders: number;
+}
+
+export class PayablesAgingResponseDto {
+  @ApiProperty({ description: 'Ngày tính tuổi nợ' })
+  asOf: Date;
+
+  @ApiProperty({ type: [SupplierAgingRowDto] })
+  suppliers: SupplierAgingRowDto[];
+
+  @ApiProperty({
+    description: 'Tổng theo nhóm',
+    example: { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+  })
+  totals: Record<AgingBucket, number>;
+
+  @ApiProperty({ description: 'Tổng nợ phải trả' })
+  total: number;
+}
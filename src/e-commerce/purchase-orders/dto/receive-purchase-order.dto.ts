@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ReceivePurchaseItemDto {
+  @ApiProperty({ description: 'Dòng đơn nhập hàng' })
+  @IsString()
+  @IsNotEmpty()
+  detailId: string;
+
+  @ApiProperty({ description: 'Số lượng nhận lần này', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ReceivePurchaseOrderDto {
+  @ApiPropertyOptional({
+    type: [ReceivePurchaseItemDto],
+    description: 'Bỏ trống để nhận toàn bộ số lượng còn lại',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivePurchaseItemDto)
+  items?: ReceivePurchaseItemDto[];
+}
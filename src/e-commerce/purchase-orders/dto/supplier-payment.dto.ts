@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaymentMethod } from '@prisma/client';
+
+export class CreateSupplierPaymentDto {
+  @ApiProperty({ description: 'Số tiền trả (VND)', example: 1000000 })
+  @IsNumber()
+  @Min(1)
+  amount: number;
+
+  @ApiProperty({ enum: PaymentMethod, example: PaymentMethod.transfer })
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @ApiPropertyOptional({ description: 'Tài khoản của cửa hàng dùng để trả' })
+  @IsOptional()
+  @IsString()
+  bankAccountId?: string;
+
+  @ApiPropertyOptional({ description: 'Ngày thanh toán (mặc định hôm nay)' })
+  @IsOptional()
+  @IsDateString()
+  transDate?: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { PurchaseOrderHelper } from './purchase-order.helper';
+
+describe('PurchaseOrderHelper', () => {
+  it('totals lines net of line and order discounts', () => {
+    expect(
+      PurchaseOrderHelper.totals(
+        [
+          { quantity: 10, price: 50000, discount: 20000 },
+          { quantity: 2, price: 100000, discount: 0 },
+        ],
+        30000,
+      ),
+    ).toEqual({ subtotal: 680000, total: 650000 });
+  });
+
+  it('spreads line and order discounts into the unit cost', () => {
+    expect(
+      PurchaseOrderHelper.unitCost(
+        { quantity: 10, price: 50000, discount: 20000 },
+        0.1,
+      ),
+    ).toBe(43200);
+  });
+
+  describe('weightedAverageCost', () => {
+    it('blends existing stock with the receipt', () => {
+      expect(
+        PurchaseOrderHelper.weightedAverageCost(10, 40000, 30, 48000),
+      ).toBe(46000);
+    });
+
+    it('uses the receipt cost when nothing is on hand', () => {
+      expect(PurchaseOrderHelper.weightedAverageCost(-2, 40000, 5, 48000)).toBe(
+        48000,
+      );
+    });
+  });
+
+  describe('buildReceipt', () => {
+    const details = [
+      {
+        id: 'd-1',
+        productId: 'p-1',
+        quantity: 10,
+        receivedQuantity: 4,
+        price: 1000,
+        discount: 0,
+      },
+      {
+        id: 'd-2',
+        productId: 'p-2',
+        quantity: 5,
+        receivedQuantity: 5,
+        price: 1000,
+        discount: 0,
+      },
+    ];
+
+    it('receives everything outstanding by default', () => {
+      expect(PurchaseOrderHelper.buildReceipt(details)).toEqual([
+        { detail: details[0], quantity: 6 },
+      ]);
+    });
+
+    it('refuses to receive more than was ordered', () => {
+      expect(() =>
+        PurchaseOrderHelper.buildReceipt(details, [
+          { detailId: 'd-1', quantity: 7 },
+        ]),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  it('buckets debt by days past due', () => {
+    const dueDate = new Date('2025-01-01T00:00:00Z');
+
+    expect(
+      PurchaseOrderHelper.agingBucket(
+        dueDate,
+        new Date('2024-12-20T00:00:00Z'),
+      ),
+    ).toBe('current');
+    expect(
+      PurchaseOrderHelper.agingBucket(
+        dueDate,
+        new Date('2025-01-31T00:00:00Z'),
+      ),
+    ).toBe('1-30');
+    expect(
+      PurchaseOrderHelper.agingBucket(
+        dueDate,
+        new Date('2025-04-15T00:00:00Z'),
+      ),
+    ).toBe('90+');
+  });
+});
@@ -0,0 +1,145 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+// Hạn thanh toán mặc định cho nhà cung cấp kể từ ngày nhập
+export const SUPPLIER_PAYMENT_TERM_DAYS = 30;
+
+export const AGING_BUCKETS = [
+  'current',
+  '1-30',
+  '31-60',
+  '61-90',
+  '90+',
+] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Amount = Prisma.Decimal | number;
+
+export interface PurchaseLine {
+  quantity: number;
+  price: Amount;
+  discount: Amount;
+}
+
+export interface ReceivableDetail extends PurchaseLine {
+  id: string;
+  productId: string;
+  receivedQuantity: number;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export class PurchaseOrderHelper {
+  static generateCode(prefix: 'PN' | 'DHN' | 'TTN'): string {
+    return `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  static lineTotal(line: PurchaseLine): number {
+    return roundAmount(
+      Number(line.price) * line.quantity - Number(line.discount),
+    );
+  }
+
+  static totals(
+    lines: PurchaseLine[],
+    discount = 0,
+  ): { subtotal: number; total: number } {
+    const subtotal = roundAmount(
+      lines.reduce((sum, line) => sum + this.lineTotal(line), 0),
+    );
+    if (discount > subtotal) {
+      throw new BadRequestException('Giảm giá vượt quá tổng tiền hàng');
+    }
+
+    return { subtotal, total: roundAmount(subtotal - discount) };
+  }
+
+  /**
+   * Landed unit cost: line price less its per-unit discount and its share of
+   * the order discount
+   */
+  static unitCost(line: PurchaseLine, orderDiscountRatio = 0): number {
+    if (line.quantity <= 0) return 0;
+    return roundAmount(
+      (this.lineTotal(line) / line.quantity) * (1 - orderDiscountRatio),
+    );
+  }
+
+  /**
+   * Weighted-average cost after receiving; stock at or below zero carries no
+   * weight so the new cost is the receipt cost
+   */
+  static weightedAverageCost(
+    onHand: number,
+    currentCost: number,
+    receivedQuantity: number,
+    unitCost: number,
+  ): number {
+    if (onHand <= 0) return unitCost;
+    return roundAmount(
+      (onHand * currentCost + receivedQuantity * unitCost) /
+        (onHand + receivedQuantity),
+    );
+  }
+
+  /**
+   * Quantities to receive per line: the requested ones, or everything still
+   * outstanding when no lines are given
+   */
+  static buildReceipt<T extends ReceivableDetail>(
+    details: T[],
+    items?: { detailId: string; quantity: number }[],
+  ): { detail: T; quantity: number }[] {
+    if (!items?.length) {
+      return details
+        .filter((detail) => detail.receivedQuantity < detail.quantity)
+        .map((detail) => ({
+          detail,
+          quantity: detail.quantity - detail.receivedQuantity,
+        }));
+    }
+
+    const requested = new Map<string, number>();
+    for (const item of items) {
+      requested.set(
+        item.detailId,
+        (requested.get(item.detailId) ?? 0) + item.quantity,
+      );
+    }
+
+    return [...requested].map(([detailId, quantity]) => {
+      const detail = details.find((d) => d.id === detailId);
+      if (!detail) {
+        throw new BadRequestException(
+          `Dòng ${detailId} không thuộc đơn nhập hàng`,
+        );
+      }
+
+      const remaining = detail.quantity - detail.receivedQuantity;
+      if (quantity > remaining) {
+        throw new BadRequestException(
+          `Sản phẩm ${detail.productId} chỉ còn ${remaining} chưa nhận`,
+        );
+      }
+
+      return { detail, quantity };
+    });
+  }
+
+  static dueDate(purchaseDate: Date, termDays = SUPPLIER_PAYMENT_TERM_DAYS) {
+    return new Date(purchaseDate.getTime() + termDays * DAY_MS);
+  }
+
+  static agingBucket(dueDate: Date, asOf: Date): AgingBucket {
+    const overdueDays = Math.floor(
+      (asOf.getTime() - dueDate.getTime()) / DAY_MS,
+    );
+    if (overdueDays <= 0) return 'current';
+    if (overdueDays <= 30) return '1-30';
+    if (overdueDays <= 60) return '31-60';
+    if (overdueDays <= 90) return '61-90';
+    return '90+';
+  }
+}
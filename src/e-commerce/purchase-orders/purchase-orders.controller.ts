@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { CreatePurchaseOrderDto } from './dto/create-purchase-order.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { CreateSupplierPaymentDto } from './dto/supplier-payment.dto';
+import {
+  PayablesAgingQueryDto,
+  PurchaseOrderQueryDto,
+} from './dto/purchase-order-query.dto';
+import {
+  PaginatedPurchaseOrderResponseDto,
+  PayablesAgingResponseDto,
+  PurchaseOrderResponseDto,
+} from './dto/purchase-order-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Purchase Orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('purchase-orders')
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a purchase order against a supplier' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: PurchaseOrderResponseDto })
+  create(
+    @Body() dto: CreatePurchaseOrderDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.create(dto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List purchase orders' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: PaginatedPurchaseOrderResponseDto,
+  })
+  findAll(
+    @Query() query: PurchaseOrderQueryDto,
+  ): Promise<PaginatedPurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.findAll(query);
+  }
+
+  @Get('payables/aging')
+  @ApiOperation({ summary: 'Supplier payables aging report' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayablesAgingResponseDto })
+  getPayablesAging(
+    @Query() query: PayablesAgingQueryDto,
+  ): Promise<PayablesAgingResponseDto> {
+    return this.purchaseOrdersService.getPayablesAging(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a purchase order' })
+  @ApiResponse({ status: HttpStatus.OK, type: PurchaseOrderResponseDto })
+  findOne(@Param('id') id: string): Promise<PurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.findOne(id);
+  }
+
+  @Post(':id/receive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive goods partially or fully into the warehouse',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: PurchaseOrderResponseDto })
+  receive(
+    @Param('id') id: string,
+    @Body() dto: ReceivePurchaseOrderDto,
+  ): Promise<PurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.receive(id, dto);
+  }
+
+  @Post(':id/payments')
+  @ApiOperation({ summary: 'Record a payment to the supplier' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: PurchaseOrderResponseDto })
+  recordPayment(
+    @Param('id') id: string,
+    @Body() dto: CreateSupplierPaymentDto,
+  ): Promise<PurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.recordPayment(id, dto);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a purchase order with nothing received' })
+  @ApiResponse({ status: HttpStatus.OK, type: PurchaseOrderResponseDto })
+  cancel(@Param('id') id: string): Promise<PurchaseOrderResponseDto> {
+    return this.purchaseOrdersService.cancel(id);
+  }
+}
@@ -0,0 +1,512 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  OrderBusinessStatus,
+  PaymentStatus,
+  Prisma,
+  PurchaseOrderStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreatePurchaseOrderDto } from './dto/create-purchase-order.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { CreateSupplierPaymentDto } from './dto/supplier-payment.dto';
+import {
+  PayablesAgingQueryDto,
+  PurchaseOrderQueryDto,
+} from './dto/purchase-order-query.dto';
+import {
+  PaginatedPurchaseOrderResponseDto,
+  PayablesAgingResponseDto,
+  PurchaseOrderResponseDto,
+  SupplierAgingRowDto,
+} from './dto/purchase-order-response.dto';
+import {
+  AGING_BUCKETS,
+  AgingBucket,
+  PurchaseOrderHelper,
+} from './purchase-order.helper';
+
+const PURCHASE_ORDER_INCLUDE = {
+  business: { select: { name: true } },
+  orderBusiness: true,
+  purchaseOrderDetails: { include: { product: { select: { name: true } } } },
+  payments: { orderBy: { transDate: 'asc' } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+// Orders whose received goods count towards supplier debt
+const PAYABLE_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.partial,
+  PurchaseOrderStatus.completed,
+];
+
+const emptyBuckets = (): Record<AgingBucket, number> =>
+  Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket, 0])) as Record<
+    AgingBucket,
+    number
+  >;
+
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a purchase order and its supplier order, which carries the debt
+   */
+  async create(
+    dto: CreatePurchaseOrderDto,
+    userId: string,
+  ): Promise<PurchaseOrderResponseDto> {
+    const [business, warehouse, user] = await Promise.all([
+      this.prisma.business.findFirst({
+        where: { id: dto.businessId, isActive: true },
+      }),
+      this.prisma.warehouse.findFirst({
+        where: { id: dto.warehouseId, isActive: true },
+      }),
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { fullName: true },
+      }),
+    ]);
+    if (!business) {
+      throw new NotFoundException('Nhà cung cấp không tồn tại');
+    }
+    if (!warehouse) {
+      throw new NotFoundException('Kho hàng không tồn tại');
+    }
+
+    const productIds = [...new Set(dto.items.map((item) => item.productId))];
+    const products = await this.prisma.product.count({
+      where: { id: { in: productIds } },
+    });
+    if (products !== productIds.length) {
+      throw new BadRequestException('Có sản phẩm không tồn tại');
+    }
+
+    const lines = dto.items.map((item) => ({
+      ...item,
+      discount: item.discount ?? 0,
+    }));
+    const discount = dto.discount ?? 0;
+    const { subtotal, total } = PurchaseOrderHelper.totals(lines, discount);
+    const purchaseDate = dto.purchaseDate
+      ? new Date(dto.purchaseDate)
+      : new Date();
+
+    const purchaseOrder = await this.prisma.$transaction(async (tx) => {
+      const oldDebt = await this.getSupplierDebt(tx, business.id);
+
+      const orderBusiness = await tx.orderBusiness.create({
+        data: {
+          code: PurchaseOrderHelper.generateCode('DHN'),
+          status: OrderBusinessStatus.confirmed,
+          orderDate: purchaseDate,
+          description: dto.description,
+          discount,
+          discountRatio: subtotal > 0 ? discount / subtotal : 0,
+          supplierOldDebt: oldDebt,
+          businessId: business.id,
+          warehouseId: warehouse.id,
+          createdById: userId,
+        },
+      });
+
+      return tx.purchaseOrder.create({
+        data: {
+          code: PurchaseOrderHelper.generateCode('PN'),
+          status: PurchaseOrderStatus.draft,
+          description: dto.description,
+          purchaseDate,
+          dueDate: dto.dueDate
+            ? new Date(dto.dueDate)
+            : PurchaseOrderHelper.dueDate(purchaseDate),
+          discount,
+          discountRatio: subtotal > 0 ? discount / subtotal : 0,
+          total,
+          warehouseId: warehouse.id,
+          businessId: business.id,
+          orderBusinessId: orderBusiness.id,
+          purchaseById: userId,
+          purchaseName: user.fullName,
+          purchaseOrderDetails: {
+            create: lines.map((line) => ({
+              productId: line.productId,
+              quantity: line.quantity,
+              price: line.price,
+              discount: line.discount,
+            })),
+          },
+        },
+      });
+    });
+
+    this.logger.log(
+      `Purchase order ${purchaseOrder.code} created for supplier ${business.id}`,
+    );
+
+    return this.findOne(purchaseOrder.id);
+  }
+
+  async findAll(
+    query: PurchaseOrderQueryDto,
+  ): Promise<PaginatedPurchaseOrderResponseDto> {
+    const { page = 1, limit = 20, status, businessId, warehouseId } = query;
+
+    const where: Prisma.PurchaseOrderWhereInput = {
+      ...(status && { status }),
+      ...(businessId && { businessId }),
+      ...(warehouseId && { warehouseId }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      this.prisma.purchaseOrder.findMany({
+        where,
+        include: PURCHASE_ORDER_INCLUDE,
+        orderBy: { purchaseDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      data: purchaseOrders.map((purchaseOrder) =>
+        PurchaseOrderResponseDto.fromPurchaseOrder(purchaseOrder),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<PurchaseOrderResponseDto> {
+    const purchaseOrder = await this.prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+    if (!purchaseOrder) {
+      throw new NotFoundException('Đơn nhập hàng không tồn tại');
+    }
+
+    return PurchaseOrderResponseDto.fromPurchaseOrder(purchaseOrder);
+  }
+
+  /**
+   * Receive goods (partially or fully): stock and weighted-average cost go up
+   * at the warehouse and the received value becomes supplier debt
+   */
+  async receive(
+    id: string,
+    dto: ReceivePurchaseOrderDto,
+  ): Promise<PurchaseOrderResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      const purchaseOrder = await tx.purchaseOrder.findUnique({
+        where: { id },
+        include: { purchaseOrderDetails: true },
+      });
+      if (!purchaseOrder) {
+        throw new NotFoundException('Đơn nhập hàng không tồn tại');
+      }
+      if (
+        purchaseOrder.status !== PurchaseOrderStatus.draft &&
+        purchaseOrder.status !== PurchaseOrderStatus.partial
+      ) {
+        throw new BadRequestException(
+          `Không thể nhập hàng cho đơn ở trạng thái ${purchaseOrder.status}`,
+        );
+      }
+
+      const receipt = PurchaseOrderHelper.buildReceipt(
+        purchaseOrder.purchaseOrderDetails,
+        dto.items,
+      );
+      if (receipt.length === 0) {
+        throw new BadRequestException('Đơn nhập hàng đã nhận đủ');
+      }
+
+      let receivedValue = 0;
+      for (const { detail, quantity } of receipt) {
+        // Guard against a concurrent receipt of the same line
+        const { count } = await tx.purchaseOrderDetail.updateMany({
+          where: {
+            id: detail.id,
+            receivedQuantity: { lte: detail.quantity - quantity },
+          },
+          data: { receivedQuantity: { increment: quantity } },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            `Sản phẩm ${detail.productId} đã được nhận bởi thao tác khác`,
+          );
+        }
+
+        const unitCost = PurchaseOrderHelper.unitCost(
+          detail,
+          purchaseOrder.discountRatio,
+        );
+        await this.addStock(
+          tx,
+          purchaseOrder.warehouseId,
+          detail.productId,
+          quantity,
+          unitCost,
+        );
+        receivedValue += unitCost * quantity;
+      }
+      receivedValue = Math.round(receivedValue * 100) / 100;
+
+      const outstanding = await tx.purchaseOrderDetail.count({
+        where: {
+          purchaseOrderId: id,
+          receivedQuantity: {
+            lt: tx.purchaseOrderDetail.fields.quantity,
+          },
+        },
+      });
+      const completed = outstanding === 0;
+
+      await tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          status: completed
+            ? PurchaseOrderStatus.completed
+            : PurchaseOrderStatus.partial,
+          receivedAmount: { increment: receivedValue },
+          ...(completed && { receivedAt: new Date() }),
+        },
+      });
+
+      if (purchaseOrder.orderBusinessId) {
+        await tx.orderBusiness.update({
+          where: { id: purchaseOrder.orderBusinessId },
+          data: {
+            supplierDebt: { increment: receivedValue },
+            ...(completed && { status: OrderBusinessStatus.completed }),
+          },
+        });
+      }
+
+      this.logger.log(
+        `Received ${receipt.length} lines worth ${receivedValue} on purchase order ${purchaseOrder.code}`,
+      );
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Record a payment to the supplier against this order's debt
+   */
+  async recordPayment(
+    id: string,
+    dto: CreateSupplierPaymentDto,
+  ): Promise<PurchaseOrderResponseDto> {
+    const bankAccount = dto.bankAccountId
+      ? await this.prisma.bankAccount.findFirst({
+          where: { id: dto.bankAccountId, userId: null },
+        })
+      : null;
+    if (dto.bankAccountId && !bankAccount) {
+      throw new NotFoundException('Tài khoản ngân hàng không tồn tại');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const purchaseOrder = await tx.purchaseOrder.findUnique({
+        where: { id },
+        include: { orderBusiness: true },
+      });
+      if (!purchaseOrder?.orderBusiness) {
+        throw new NotFoundException('Đơn nhập hàng không tồn tại');
+      }
+      if (purchaseOrder.status === PurchaseOrderStatus.cancelled) {
+        throw new BadRequestException('Đơn nhập hàng đã bị hủy');
+      }
+
+      // Prepaying is allowed, but never beyond what the order is worth
+      const { count } = await tx.orderBusiness.updateMany({
+        where: {
+          id: purchaseOrder.orderBusiness.id,
+          paidAmount: { lte: Number(purchaseOrder.total) - dto.amount },
+        },
+        data: {
+          paidAmount: { increment: dto.amount },
+          supplierDebt: { decrement: dto.amount },
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          'Số tiền thanh toán vượt quá giá trị đơn nhập hàng',
+        );
+      }
+
+      await tx.purchaseOrderPayment.create({
+        data: {
+          code: PurchaseOrderHelper.generateCode('TTN'),
+          amount: dto.amount,
+          method: dto.method,
+          status: PaymentStatus.paid,
+          transDate: dto.transDate ? new Date(dto.transDate) : new Date(),
+          bankAccount: bankAccount
+            ? `${bankAccount.bankName} - ${bankAccount.accountNumber}`
+            : 'Tiền mặt',
+          accountId: bankAccount?.id,
+          description: dto.description,
+          purchaseOrderId: id,
+        },
+      });
+    });
+
+    this.logger.log(
+      `Supplier payment of ${dto.amount} on purchase order ${id}`,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Only orders with nothing received or paid can be cancelled
+   */
+  async cancel(id: string): Promise<PurchaseOrderResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      const purchaseOrder = await tx.purchaseOrder.findUnique({
+        where: { id },
+        include: { orderBusiness: true },
+      });
+      if (!purchaseOrder) {
+        throw new NotFoundException('Đơn nhập hàng không tồn tại');
+      }
+      if (Number(purchaseOrder.orderBusiness?.paidAmount ?? 0) > 0) {
+        throw new BadRequestException('Đơn nhập hàng đã có thanh toán');
+      }
+
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id, status: PurchaseOrderStatus.draft },
+        data: { status: PurchaseOrderStatus.cancelled },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          `Không thể hủy đơn nhập hàng ở trạng thái ${purchaseOrder.status}`,
+        );
+      }
+
+      if (purchaseOrder.orderBusinessId) {
+        await tx.orderBusiness.update({
+          where: { id: purchaseOrder.orderBusinessId },
+          data: { status: OrderBusinessStatus.cancelled },
+        });
+      }
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Outstanding supplier debt grouped by days past each order's due date
+   */
+  async getPayablesAging(
+    query: PayablesAgingQueryDto,
+  ): Promise<PayablesAgingResponseDto> {
+    const asOf = query.asOf ? new Date(query.asOf) : new Date();
+
+    const purchaseOrders = await this.prisma.purchaseOrder.findMany({
+      where: {
+        status: { in: PAYABLE_STATUSES },
+        purchaseDate: { lte: asOf },
+        orderBusiness: { supplierDebt: { gt: 0 } },
+        ...(query.businessId && { businessId: query.businessId }),
+      },
+      include: {
+        business: { select: { name: true } },
+        orderBusiness: { select: { supplierDebt: true } },
+      },
+    });
+
+    const rows = new Map<string, SupplierAgingRowDto>();
+    const totals = emptyBuckets();
+
+    for (const purchaseOrder of purchaseOrders) {
+      const debt = Number(purchaseOrder.orderBusiness?.supplierDebt ?? 0);
+      const bucket = PurchaseOrderHelper.agingBucket(
+        purchaseOrder.dueDate ??
+          PurchaseOrderHelper.dueDate(purchaseOrder.purchaseDate),
+        asOf,
+      );
+
+      const row = rows.get(purchaseOrder.businessId) ?? {
+        businessId: purchaseOrder.businessId,
+        businessName: purchaseOrder.business.name,
+        buckets: emptyBuckets(),
+        total: 0,
+        openOrders: 0,
+      };
+      row.buckets[bucket] += debt;
+      row.total += debt;
+      row.openOrders++;
+      rows.set(purchaseOrder.businessId, row);
+
+      totals[bucket] += debt;
+    }
+
+    const suppliers = [...rows.values()].sort((a, b) => b.total - a.total);
+
+    return {
+      asOf,
+      suppliers,
+      totals,
+      total: suppliers.reduce((sum, row) => sum + row.total, 0),
+    };
+  }
+
+  private async getSupplierDebt(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+  ): Promise<number> {
+    const { _sum } = await tx.orderBusiness.aggregate({
+      where: {
+        businessId,
+        status: { not: OrderBusinessStatus.cancelled },
+      },
+      _sum: { supplierDebt: true },
+    });
+
+    return Number(_sum.supplierDebt ?? 0);
+  }
+
+  private async addStock(
+    tx: Prisma.TransactionClient,
+    warehouseId: string,
+    productId: string,
+    quantity: number,
+    unitCost: number,
+  ) {
+    const inventory = await tx.productInventory.findUnique({
+      where: { warehouseId_productId: { warehouseId, productId } },
+    });
+
+    if (!inventory) {
+      await tx.productInventory.create({
+        data: { warehouseId, productId, onHand: quantity, cost: unitCost },
+      });
+      return;
+    }
+
+    await tx.productInventory.update({
+      where: { id: inventory.id },
+      data: {
+        onHand: { increment: quantity },
+        cost: PurchaseOrderHelper.weightedAverageCost(
+          inventory.onHand,
+          Number(inventory.cost),
+          quantity,
+          unitCost,
+        ),
+      },
+    });
+  }
+}
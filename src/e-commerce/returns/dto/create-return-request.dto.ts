@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ReturnItemDto {
+  @ApiProperty({ description: 'Dòng đơn hàng cần trả' })
+  @IsString()
+  @IsNotEmpty()
+  orderDetailId: string;
+
+  @ApiProperty({ description: 'Số lượng trả', example: 1, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ description: 'Ghi chú cho sản phẩm' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class ReturnPhotoDto {
+  @ApiProperty({ description: 'URL ảnh đã tải lên qua /upload' })
+  @IsUrl()
+  fileUrl: string;
+
+  @ApiPropertyOptional({ description: 'Tên file gốc' })
+  @IsOptional()
+  @IsString()
+  originalFileName?: string;
+
+  @ApiPropertyOptional({ description: 'MIME type', example: 'image/jpeg' })
+  @IsOptional()
+  @IsString()
+  mimeType?: string;
+}
+
+export class CreateReturnRequestDto {
+  @ApiProperty({ description: 'Đơn hàng cần trả' })
+  @IsString()
+  @IsNotEmpty()
+  orderId: string;
+
+  @ApiProperty({ description: 'Lý do trả hàng' })
+  @IsString()
+  @IsNotEmpty({ message: 'Lý do không được để trống' })
+  @MaxLength(1000)
+  reason: string;
+
+  @ApiProperty({ type: [ReturnItemDto] })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'Phải chọn ít nhất một sản phẩm' })
+  @ValidateNested({ each: true })
+  @Type(() => ReturnItemDto)
+  items: ReturnItemDto[];
+
+  @ApiPropertyOptional({ type: [ReturnPhotoDto], description: 'Tối đa 6 ảnh' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => ReturnPhotoDto)
+  photos?: ReturnPhotoDto[];
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ReturnOrderStatus } from '@prisma/client';
+
+export class ReturnOrderQueryDto {
+  @ApiPropertyOptional({ enum: ReturnOrderStatus })
+  @IsOptional()
+  @IsEnum(ReturnOrderStatus)
+  status?: ReturnOrderStatus;
+
+  @ApiPropertyOptional({ description: 'Lọc theo đơn hàng' })
+  @IsOptional()
+  @IsString()
+  orderId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
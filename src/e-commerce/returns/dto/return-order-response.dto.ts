@@ -0,0 +1,157 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  Attachment,
+  PaymentRefund,
+  RefundStatus,
+  ReturnOrder,
+  ReturnOrderDetail,
+  ReturnOrderStatus,
+} from '@prisma/client';
+import { ReturnOrderHelper } from '../return-order.helper';
+
+export class ReturnOrderItemDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Dòng đơn hàng' })
+  orderDetailId: string | null;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiPropertyOptional({ description: 'Tên sản phẩm' })
+  productName: string | null;
+
+  @ApiProperty({ description: 'Số lượng' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Đơn giá' })
+  price: number;
+
+  @ApiProperty({ description: 'Giảm giá phân bổ' })
+  discount: number;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  note: string | null;
+}
+
+export class ReturnOrderPhotoDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'URL ảnh' })
+  fileUrl: string;
+}
+
+export class ReturnOrderResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã yêu cầu trả hàng' })
+  code: string;
+
+  @ApiProperty({ enum: ReturnOrderStatus, description: 'Trạng thái' })
+  status: ReturnOrderStatus;
+
+  @ApiPropertyOptional({ description: 'Đơn hàng' })
+  orderId: string | null;
+
+  @ApiProperty({ description: 'Tên khách hàng' })
+  customerName: string;
+
+  @ApiPropertyOptional({ description: 'Lý do trả hàng' })
+  reason: string | null;
+
+  @ApiPropertyOptional({ description: 'Lý do từ chối' })
+  rejectionReason: string | null;
+
+  @ApiProperty({ description: 'Phí trả hàng' })
+  returnFee: number;
+
+  @ApiProperty({ description: 'Số tiền hoàn dự kiến' })
+  refundAmount: number;
+
+  @ApiPropertyOptional({ description: 'Yêu cầu hoàn tiền' })
+  refundId: string | null;
+
+  @ApiPropertyOptional({
+    enum: RefundStatus,
+    description: 'Trạng thái hoàn tiền',
+  })
+  refundStatus: RefundStatus | null;
+
+  @ApiProperty({ type: [ReturnOrderItemDto] })
+  items: ReturnOrderItemDto[];
+
+  @ApiProperty({ type: [ReturnOrderPhotoDto] })
+  photos: ReturnOrderPhotoDto[];
+
+  @ApiPropertyOptional({ description: 'Thời điểm duyệt/từ chối' })
+  reviewedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm nhận hàng trả' })
+  receivedAt: Date | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromReturnOrder(
+    returnOrder: ReturnOrder & {
+      returnDetails: (ReturnOrderDetail & {
+        product?: { name: string } | null;
+      })[];
+      photos?: Attachment[];
+      refund?: PaymentRefund | null;
+    },
+  ): ReturnOrderResponseDto {
+    const items = returnOrder.returnDetails.map((detail) => ({
+      id: detail.id,
+      orderDetailId: detail.orderDetailId,
+      productId: detail.productId,
+      productName: detail.product?.name ?? null,
+      quantity: detail.quantity,
+      price: Number(detail.price),
+      discount: Number(detail.discount),
+      note: detail.note,
+    }));
+
+    return {
+      id: returnOrder.id,
+      code: returnOrder.code,
+      status: returnOrder.status,
+      orderId: returnOrder.orderId,
+      customerName: returnOrder.customerName,
+      reason: returnOrder.reason,
+      rejectionReason: returnOrder.rejectionReason,
+      returnFee: Number(returnOrder.returnFee ?? 0),
+      refundAmount: ReturnOrderHelper.refundAmount(
+        returnOrder.returnDetails,
+        returnOrder.returnFee,
+      ),
+      refundId: returnOrder.refundId,
+      refundStatus: returnOrder.refund?.status ?? null,
+      items,
+      photos: (returnOrder.photos ?? []).map((photo) => ({
+        id: photo.id,
+        fileUrl: photo.fileUrl,
+      })),
+      reviewedAt: returnOrder.reviewedAt,
+      receivedAt: returnOrder.receivedAt,
+      createdAt: returnOrder.createdAt,
+    };
+  }
+}
+
+export class PaginatedReturnOrderResponseDto {
+  @ApiProperty({ type: [ReturnOrderResponseDto] })
+  data: ReturnOrderResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
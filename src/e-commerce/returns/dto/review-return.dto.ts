@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ApproveReturnDto {
+  @ApiPropertyOptional({
+    description: 'Phí trả hàng trừ vào số tiền hoàn (VND)',
+    example: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  returnFee?: number;
+}
+
+export class RejectReturnDto {
+  @ApiProperty({ description: 'Lý do từ chối' })
+  @IsString()
+  @IsNotEmpty({ message: 'Lý do không được để trống' })
+  @MaxLength(1000)
+  reason: string;
+}
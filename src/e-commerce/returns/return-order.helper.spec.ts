@@ -0,0 +1,123 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus } from '@prisma/client';
+import { RETURN_WINDOW_DAYS, ReturnOrderHelper } from './return-order.helper';
+
+describe('ReturnOrderHelper', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date('2025-06-15T00:00:00Z');
+
+  describe('assertReturnable', () => {
+    const order = (overrides: Record<string, any> = {}) => ({
+      status: OrderStatus.completed,
+      deliveredAt: new Date(now.getTime() - 2 * DAY_MS),
+      completedAt: null,
+      purchaseDate: new Date(now.getTime() - 5 * DAY_MS),
+      ...overrides,
+    });
+
+    it('accepts delivered orders inside the return window', () => {
+      expect(() =>
+        ReturnOrderHelper.assertReturnable(order(), now),
+      ).not.toThrow();
+    });
+
+    it('rejects orders that have not been delivered', () => {
+      expect(() =>
+        ReturnOrderHelper.assertReturnable(
+          order({ status: OrderStatus.delivering }),
+          now,
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('rejects orders delivered before the window', () => {
+      expect(() =>
+        ReturnOrderHelper.assertReturnable(
+          order({
+            deliveredAt: new Date(
+              now.getTime() - (RETURN_WINDOW_DAYS + 1) * DAY_MS,
+            ),
+          }),
+          now,
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildReturnLines', () => {
+    const details = [
+      {
+        id: 'od-1',
+        productId: 'p-1',
+        soldById: 'b-1',
+        quantity: 3,
+        price: 100000,
+        discount: 30000,
+      },
+    ];
+
+    it('merges repeated items for the same order line', () => {
+      const lines = ReturnOrderHelper.buildReturnLines(details, new Map(), [
+        { orderDetailId: 'od-1', quantity: 1 },
+        { orderDetailId: 'od-1', quantity: 1, note: 'Bể' },
+      ]);
+
+      expect(lines).toEqual([
+        { orderDetail: details[0], quantity: 2, note: 'Bể' },
+      ]);
+    });
+
+    it('caps quantities at what has not been returned yet', () => {
+      expect(() =>
+        ReturnOrderHelper.buildReturnLines(details, new Map([['od-1', 2]]), [
+          { orderDetailId: 'od-1', quantity: 2 },
+        ]),
+      ).toThrow(BadRequestException);
+    });
+
+    it('rejects lines from another order', () => {
+      expect(() =>
+        ReturnOrderHelper.buildReturnLines(details, new Map(), [
+          { orderDetailId: 'od-9', quantity: 1 },
+        ]),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('refundAmount', () => {
+    it('refunds the returned quantity net of its discount share and fee', () => {
+      const discount = ReturnOrderHelper.proratedDiscount(
+        { quantity: 3, price: 100000, discount: 30000 },
+        2,
+      );
+
+      expect(discount).toBe(20000);
+      expect(
+        ReturnOrderHelper.refundAmount(
+          [{ price: 100000, quantity: 2, discount }],
+          15000,
+        ),
+      ).toBe(165000);
+    });
+
+    it('spreads the order discount over the lines by their value', () => {
+      const line = { quantity: 3, price: 100000, discount: 30000 };
+
+      expect(
+        ReturnOrderHelper.proratedDiscount(line, 2, {
+          discount: 30000,
+          orderDetails: [line, { quantity: 1, price: 30000, discount: 0 }],
+        }),
+      ).toBe(38000);
+    });
+
+    it('never goes below zero', () => {
+      expect(
+        ReturnOrderHelper.refundAmount(
+          [{ price: 10000, quantity: 1, discount: 0 }],
+          20000,
+        ),
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus, Prisma } from '@prisma/client';
+
+// Số ngày khách được yêu cầu trả hàng kể từ khi nhận hàng
+export const RETURN_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETURNABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.shipped,
+  OrderStatus.completed,
+];
+
+export interface ReturnableOrderDetail {
+  id: string;
+  productId: string;
+  soldById: string;
+  quantity: number;
+  price: Prisma.Decimal | number;
+  discount: Prisma.Decimal | number;
+}
+
+export interface ReturnLine {
+  orderDetail: ReturnableOrderDetail;
+  quantity: number;
+  note?: string;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export class ReturnOrderHelper {
+  static generateReturnCode(): string {
+    return `RT-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  /**
+   * Delivered orders can be returned until the window after delivery closes
+   */
+  static assertReturnable(
+    order: {
+      status: OrderStatus;
+      deliveredAt: Date | null;
+      completedAt: Date | null;
+      purchaseDate: Date;
+    },
+    now = new Date(),
+  ): void {
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        'Chỉ có thể yêu cầu trả hàng cho đơn đã giao',
+      );
+    }
+
+    const deliveredAt =
+      order.deliveredAt ?? order.completedAt ?? order.purchaseDate;
+    if (now.getTime() - deliveredAt.getTime() > RETURN_WINDOW_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Đã quá ${RETURN_WINDOW_DAYS} ngày kể từ khi nhận hàng`,
+      );
+    }
+  }
+
+  /**
+   * Match requested items to order lines, capping each line at what has not
+   * been returned or requested for return yet
+   */
+  static buildReturnLines(
+    orderDetails: ReturnableOrderDetail[],
+    alreadyReturned: Map<string, number>,
+    items: { orderDetailId: string; quantity: number; note?: string }[],
+  ): ReturnLine[] {
+    const requested = new Map<string, { quantity: number; note?: string }>();
+    for (const item of items) {
+      const current = requested.get(item.orderDetailId);
+      requested.set(item.orderDetailId, {
+        quantity: (current?.quantity ?? 0) + item.quantity,
+        note: item.note ?? current?.note,
+      });
+    }
+
+    const lines: ReturnLine[] = [];
+    for (const [orderDetailId, item] of requested) {
+      const orderDetail = orderDetails.find((d) => d.id === orderDetailId);
+      if (!orderDetail) {
+        throw new BadRequestException(
+          `Sản phẩm ${orderDetailId} không thuộc đơn hàng`,
+        );
+      }
+
+      const remaining =
+        orderDetail.quantity - (alreadyReturned.get(orderDetailId) ?? 0);
+      if (item.quantity > remaining) {
+        throw new BadRequestException(
+          `Chỉ còn ${Math.max(0, remaining)} sản phẩm ${orderDetail.productId} có thể trả`,
+        );
+      }
+
+      lines.push({ orderDetail, quantity: item.quantity, note: item.note });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Share of the discounts that belongs to the returned quantity: the line's
+   * own discount plus the order-level (voucher) discount, which is spread
+   * over the lines by their value after line discounts
+   */
+  static proratedDiscount(
+    orderDetail: Pick<ReturnableOrderDetail, 'quantity' | 'price' | 'discount'>,
+    quantity: number,
+    order?: {
+      discount: Prisma.Decimal | number;
+      orderDetails: Pick<
+        ReturnableOrderDetail,
+        'quantity' | 'price' | 'discount'
+      >[];
+    },
+  ): number {
+    if (orderDetail.quantity <= 0) return 0;
+
+    const lineValue = (detail: typeof orderDetail) =>
+      Number(detail.price) * detail.quantity - Number(detail.discount);
+
+    let lineDiscount = Number(orderDetail.discount);
+
+    const orderValue =
+      order?.orderDetails.reduce((sum, detail) => sum + lineValue(detail), 0) ??
+      0;
+    if (order && orderValue > 0) {
+      lineDiscount +=
+        (Number(order.discount) * lineValue(orderDetail)) / orderValue;
+    }
+
+    return roundAmount((lineDiscount / orderDetail.quantity) * quantity);
+  }
+
+  static refundAmount(
+    details: {
+      price: Prisma.Decimal | number;
+      quantity: number;
+      discount: Prisma.Decimal | number;
+    }[],
+    returnFee: Prisma.Decimal | number | null = 0,
+  ): number {
+    const total = details.reduce(
+      (sum, detail) =>
+        sum + Number(detail.price) * detail.quantity - Number(detail.discount),
+      0,
+    );
+    return Math.max(0, roundAmount(total - Number(returnFee ?? 0)));
+  }
+}
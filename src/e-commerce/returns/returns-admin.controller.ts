@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { ReturnsService } from './returns.service';
+import { ReturnOrderQueryDto } from './dto/return-order-query.dto';
+import { ApproveReturnDto, RejectReturnDto } from './dto/review-return.dto';
+import {
+  PaginatedReturnOrderResponseDto,
+  ReturnOrderResponseDto,
+} from './dto/return-order-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Returns')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('admin/returns')
+export class ReturnsAdminController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List customer return requests' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedReturnOrderResponseDto })
+  findAll(
+    @Query() query: ReturnOrderQueryDto,
+  ): Promise<PaginatedReturnOrderResponseDto> {
+    return this.returnsService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a return request' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  findOne(@Param('id') id: string): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.findOne(id);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a return request' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  approve(
+    @Param('id') id: string,
+    @Body() dto: ApproveReturnDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.approve(id, dto, user.id);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a return request' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  reject(
+    @Param('id') id: string,
+    @Body() dto: RejectReturnDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.reject(id, dto.reason, user.id);
+  }
+
+  @Post(':id/receive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Mark returned goods as received, restock and request the refund',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  receive(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.receive(id, user.id);
+  }
+
+  @Post(':id/refund')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Retry the refund of a received return' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  refund(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.createRefund(id, user.id);
+  }
+}
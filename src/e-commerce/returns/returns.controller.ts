@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { ReturnsService } from './returns.service';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { ReturnOrderQueryDto } from './dto/return-order-query.dto';
+import {
+  PaginatedReturnOrderResponseDto,
+  ReturnOrderResponseDto,
+} from './dto/return-order-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Returns')
+@UseGuards(JwtAuthGuard)
+@Controller('e-commerce/returns')
+export class ReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Request a return for items of a delivered order',
+    description:
+      'Photos must be uploaded through POST /upload first; pass the returned URLs.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: ReturnOrderResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Order not delivered, return window closed or quantity too high',
+  })
+  create(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: CreateReturnRequestDto,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.create(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my return requests' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedReturnOrderResponseDto })
+  findMine(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: ReturnOrderQueryDto,
+  ): Promise<PaginatedReturnOrderResponseDto> {
+    return this.returnsService.findMine(user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get one of my return requests' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  findOne(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.findMineById(user.id, id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a return request that is still pending' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReturnOrderResponseDto })
+  cancel(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<ReturnOrderResponseDto> {
+    return this.returnsService.cancel(user.id, id);
+  }
+}
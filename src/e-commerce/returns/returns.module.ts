@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { PaymentsModule } from '../payments/payments.module';
+import { AttachmentModule } from '../../attachments/attachment.module';
+import { NotificationModule } from '../../notifications/notification.module';
+import { ReturnsController } from './returns.controller';
+import { ReturnsAdminController } from './returns-admin.controller';
+import { ReturnsService } from './returns.service';
+
+@Module({
+  imports: [PaymentsModule, AttachmentModule, NotificationModule],
+  controllers: [ReturnsController, ReturnsAdminController],
+  providers: [ReturnsService, PrismaService],
+  exports: [ReturnsService],
+})
+export class ReturnsModule {}
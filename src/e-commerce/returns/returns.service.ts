@@ -0,0 +1,488 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  NotificationAction,
+  PaymentProcessingStatus,
+  PaymentProvider,
+  Prisma,
+  ReturnOrderStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { AttachmentService } from '../../attachments/attachment.service';
+import { NotificationHelperService } from '../../notifications/notification-helper.service';
+import { RefundsService } from '../payments/refunds.service';
+import { CreateReturnRequestDto } from './dto/create-return-request.dto';
+import { ReturnOrderQueryDto } from './dto/return-order-query.dto';
+import { ApproveReturnDto } from './dto/review-return.dto';
+import {
+  PaginatedReturnOrderResponseDto,
+  ReturnOrderResponseDto,
+} from './dto/return-order-response.dto';
+import { ReturnOrderHelper } from './return-order.helper';
+
+const RETURN_ORDER_INCLUDE = {
+  returnDetails: { include: { product: { select: { name: true } } } },
+  photos: true,
+  refund: true,
+} satisfies Prisma.ReturnOrderInclude;
+
+// Requests in these states still hold their quantities against the order
+const ACTIVE_RETURN_STATUSES: ReturnOrderStatus[] = [
+  ReturnOrderStatus.requested,
+  ReturnOrderStatus.approved,
+  ReturnOrderStatus.returned,
+];
+
+@Injectable()
+export class ReturnsService {
+  private readonly logger = new Logger(ReturnsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly attachmentService: AttachmentService,
+    private readonly notificationHelper: NotificationHelperService,
+    private readonly refundsService: RefundsService,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateReturnRequestDto,
+  ): Promise<ReturnOrderResponseDto> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: dto.orderId },
+      include: { customer: true, orderDetails: true },
+    });
+    if (!order || order.customer.userId !== userId) {
+      throw new NotFoundException('Đơn hàng không tồn tại');
+    }
+    ReturnOrderHelper.assertReturnable(order);
+
+    const returnOrder = await this.prisma.$transaction(async (tx) => {
+      const returned = await tx.returnOrderDetail.groupBy({
+        by: ['orderDetailId'],
+        where: {
+          returnOrder: {
+            orderId: order.id,
+            status: { in: ACTIVE_RETURN_STATUSES },
+          },
+        },
+        _sum: { quantity: true },
+      });
+      const alreadyReturned = new Map<string, number>();
+      for (const row of returned) {
+        if (row.orderDetailId) {
+          alreadyReturned.set(row.orderDetailId, row._sum.quantity ?? 0);
+        }
+      }
+
+      const lines = ReturnOrderHelper.buildReturnLines(
+        order.orderDetails,
+        alreadyReturned,
+        dto.items,
+      );
+
+      const created = await tx.returnOrder.create({
+        data: {
+          code: ReturnOrderHelper.generateReturnCode(),
+          returnDate: new Date(),
+          status: ReturnOrderStatus.requested,
+          reason: dto.reason,
+          orderId: order.id,
+          requestedById: userId,
+          customerId: order.customerId,
+          customerName: order.customer.name ?? '',
+          warehouseId: order.warehouseId,
+          soldById: lines[0].orderDetail.soldById,
+          returnDetails: {
+            create: lines.map((line) => ({
+              productId: line.orderDetail.productId,
+              orderDetailId: line.orderDetail.id,
+              quantity: line.quantity,
+              price: line.orderDetail.price,
+              discount: ReturnOrderHelper.proratedDiscount(
+                line.orderDetail,
+                line.quantity,
+                order,
+              ),
+              note: line.note,
+            })),
+          },
+        },
+      });
+
+      if (dto.photos?.length) {
+        await this.attachmentService.addReturnOrderPhotos(
+          created.id,
+          dto.photos,
+          tx,
+        );
+      }
+
+      return created;
+    });
+
+    this.logger.log(
+      `Return ${returnOrder.code} requested for order ${order.id} by ${userId}`,
+    );
+    await this.notify(
+      returnOrder.id,
+      NotificationAction.created,
+      `Yêu cầu trả hàng ${returnOrder.code} đã được gửi và đang chờ duyệt`,
+    );
+
+    return this.findOne(returnOrder.id);
+  }
+
+  async findMine(
+    userId: string,
+    query: ReturnOrderQueryDto,
+  ): Promise<PaginatedReturnOrderResponseDto> {
+    return this.paginate({ requestedById: userId }, query);
+  }
+
+  async findMineById(
+    userId: string,
+    id: string,
+  ): Promise<ReturnOrderResponseDto> {
+    await this.getOwned(userId, id);
+    return this.findOne(id);
+  }
+
+  async cancel(userId: string, id: string): Promise<ReturnOrderResponseDto> {
+    await this.getOwned(userId, id);
+    await this.transition(id, [ReturnOrderStatus.requested], {
+      status: ReturnOrderStatus.cancelled,
+    });
+
+    return this.findOne(id);
+  }
+
+  async findAll(
+    query: ReturnOrderQueryDto,
+  ): Promise<PaginatedReturnOrderResponseDto> {
+    return this.paginate({ orderId: { not: null } }, query);
+  }
+
+  async findOne(id: string): Promise<ReturnOrderResponseDto> {
+    const returnOrder = await this.prisma.returnOrder.findUnique({
+      where: { id },
+      include: RETURN_ORDER_INCLUDE,
+    });
+    if (!returnOrder) {
+      throw new NotFoundException('Yêu cầu trả hàng không tồn tại');
+    }
+
+    return ReturnOrderResponseDto.fromReturnOrder(returnOrder);
+  }
+
+  async approve(
+    id: string,
+    dto: ApproveReturnDto,
+    adminId: string,
+  ): Promise<ReturnOrderResponseDto> {
+    const returnOrder = await this.transition(
+      id,
+      [ReturnOrderStatus.requested],
+      {
+        status: ReturnOrderStatus.approved,
+        returnFee: dto.returnFee ?? 0,
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+      },
+    );
+
+    await this.notify(
+      id,
+      NotificationAction.approved,
+      `Yêu cầu trả hàng ${returnOrder.code} đã được duyệt, vui lòng gửi hàng về cửa hàng`,
+    );
+
+    return this.findOne(id);
+  }
+
+  async reject(
+    id: string,
+    reason: string,
+    adminId: string,
+  ): Promise<ReturnOrderResponseDto> {
+    const returnOrder = await this.transition(
+      id,
+      [ReturnOrderStatus.requested],
+      {
+        status: ReturnOrderStatus.rejected,
+        rejectionReason: reason,
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+      },
+    );
+
+    await this.notify(
+      id,
+      NotificationAction.rejected,
+      `Yêu cầu trả hàng ${returnOrder.code} bị từ chối: ${reason}`,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Goods arrived at the warehouse: put them back on hand and start the refund
+   */
+  async receive(id: string, adminId: string): Promise<ReturnOrderResponseDto> {
+    const returnOrder = await this.prisma.$transaction(async (tx) => {
+      const received = await this.transition(
+        id,
+        [ReturnOrderStatus.approved],
+        {
+          status: ReturnOrderStatus.returned,
+          receivedById: adminId,
+          receivedAt: new Date(),
+        },
+        tx,
+      );
+
+      const details = await tx.returnOrderDetail.findMany({
+        where: { returnOrderId: id },
+      });
+
+      for (const detail of details) {
+        await tx.productInventory.upsert({
+          where: {
+            warehouseId_productId: {
+              warehouseId: received.warehouseId!,
+              productId: detail.productId,
+            },
+          },
+          update: { onHand: { increment: detail.quantity } },
+          create: {
+            warehouseId: received.warehouseId!,
+            productId: detail.productId,
+            onHand: detail.quantity,
+            cost: 0,
+          },
+        });
+      }
+
+      return received;
+    });
+
+    this.logger.log(`Return ${returnOrder.code} received by ${adminId}`);
+    await this.notify(
+      id,
+      NotificationAction.updated,
+      `Cửa hàng đã nhận hàng trả của yêu cầu ${returnOrder.code}`,
+    );
+
+    try {
+      await this.createRefund(id, adminId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to create refund for return ${returnOrder.code}: ${error.message}`,
+      );
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Request a refund for a received return against the order's payment.
+   * Also used to retry when the first attempt failed.
+   */
+  async createRefund(
+    id: string,
+    adminId: string,
+  ): Promise<ReturnOrderResponseDto> {
+    const returnOrder = await this.prisma.returnOrder.findUnique({
+      where: { id },
+      include: { returnDetails: true },
+    });
+    if (!returnOrder) {
+      throw new NotFoundException('Yêu cầu trả hàng không tồn tại');
+    }
+    if (returnOrder.status !== ReturnOrderStatus.returned) {
+      throw new BadRequestException('Chỉ hoàn tiền sau khi đã nhận hàng trả');
+    }
+    if (returnOrder.refundId) {
+      throw new BadRequestException('Yêu cầu trả hàng đã được hoàn tiền');
+    }
+
+    const amount = ReturnOrderHelper.refundAmount(
+      returnOrder.returnDetails,
+      returnOrder.returnFee,
+    );
+    if (amount <= 0) {
+      return this.findOne(id);
+    }
+
+    const payment = await this.getRefundablePayment(returnOrder.orderId!);
+
+    // Cash refunds are paid out by staff and settled manually
+    const isCash = payment.provider === PaymentProvider.cash;
+    const refund = await this.refundsService.createRefund(
+      {
+        paymentId: payment.id,
+        amount,
+        reason: isCash
+          ? `Trả hàng ${returnOrder.code} (hoàn tiền mặt)`
+          : `Trả hàng ${returnOrder.code}`,
+        items: returnOrder.returnDetails
+          .filter((detail) => detail.orderDetailId)
+          .map((detail) => ({
+            orderDetailId: detail.orderDetailId!,
+            quantity: detail.quantity,
+          })),
+      },
+      adminId,
+    );
+
+    await this.prisma.returnOrder.update({
+      where: { id },
+      data: { refundId: refund.refundId },
+    });
+
+    await this.notify(
+      id,
+      NotificationAction.updated,
+      `Đã tạo yêu cầu hoàn ${amount.toLocaleString('vi-VN')}đ cho đơn trả ${returnOrder.code}`,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * The order's succeeded payment to refund against. A COD payment counts
+   * only once its collection is recorded (carrier reconciliation or a manual
+   * completion), so the refund never pays out cash the books have not seen.
+   */
+  private async getRefundablePayment(orderId: string) {
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        orderPayment: { orderId },
+        status: {
+          in: [
+            PaymentProcessingStatus.succeeded,
+            PaymentProcessingStatus.pending,
+          ],
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const succeeded = payments.find(
+      (payment) => payment.status === PaymentProcessingStatus.succeeded,
+    );
+    if (succeeded) return succeeded;
+
+    if (payments.some((payment) => payment.provider === PaymentProvider.cash)) {
+      throw new BadRequestException(
+        'Khoản thu COD của đơn hàng chưa được ghi nhận, vui lòng đối soát tiền thu hộ trước khi hoàn tiền',
+      );
+    }
+
+    throw new BadRequestException(
+      'Đơn hàng không có khoản thanh toán nào để hoàn tiền',
+    );
+  }
+
+  private async paginate(
+    where: Prisma.ReturnOrderWhereInput,
+    query: ReturnOrderQueryDto,
+  ): Promise<PaginatedReturnOrderResponseDto> {
+    const { page = 1, limit = 20, status, orderId } = query;
+    const filters: Prisma.ReturnOrderWhereInput = {
+      AND: [where, { ...(status && { status }), ...(orderId && { orderId }) }],
+    };
+
+    const [returnOrders, total] = await Promise.all([
+      this.prisma.returnOrder.findMany({
+        where: filters,
+        include: RETURN_ORDER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.returnOrder.count({ where: filters }),
+    ]);
+
+    return {
+      data: returnOrders.map((returnOrder) =>
+        ReturnOrderResponseDto.fromReturnOrder(returnOrder),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  private async getOwned(userId: string, id: string) {
+    const returnOrder = await this.prisma.returnOrder.findUnique({
+      where: { id },
+    });
+    if (!returnOrder) {
+      throw new NotFoundException('Yêu cầu trả hàng không tồn tại');
+    }
+    if (returnOrder.requestedById !== userId) {
+      throw new ForbiddenException('Bạn không có quyền với yêu cầu này');
+    }
+
+    return returnOrder;
+  }
+
+  /**
+   * Move a return to a new status only from the expected ones, so staff
+   * acting at once cannot both restock it
+   */
+  private async transition(
+    id: string,
+    from: ReturnOrderStatus[],
+    data: Prisma.ReturnOrderUncheckedUpdateManyInput,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { count } = await tx.returnOrder.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    if (count === 0) {
+      const returnOrder = await tx.returnOrder.findUnique({ where: { id } });
+      if (!returnOrder) {
+        throw new NotFoundException('Yêu cầu trả hàng không tồn tại');
+      }
+      throw new BadRequestException(
+        `Không thể chuyển yêu cầu trả hàng từ trạng thái ${returnOrder.status} sang ${data.status}`,
+      );
+    }
+
+    return tx.returnOrder.findUniqueOrThrow({ where: { id } });
+  }
+
+  private async notify(
+    returnOrderId: string,
+    action: NotificationAction,
+    message: string,
+  ) {
+    const returnOrder = await this.prisma.returnOrder.findUnique({
+      where: { id: returnOrderId },
+      select: { requestedById: true },
+    });
+    if (!returnOrder?.requestedById) return;
+
+    try {
+      await this.notificationHelper.createReturnOrderNotification(
+        returnOrder.requestedById,
+        returnOrderId,
+        action,
+        message,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify return ${returnOrderId}: ${error.message}`,
+      );
+    }
+  }
+}
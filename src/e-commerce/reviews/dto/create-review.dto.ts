@@ -0,0 +1,58 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { REVIEW_MAX_IMAGES } from '../review.helper';
+
+export class CreateReviewDto {
+  @ApiProperty({ description: 'Sản phẩm được đánh giá' })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({ description: 'Số sao', minimum: 1, maximum: 5, example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiPropertyOptional({ description: 'Tiêu đề' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @ApiProperty({ description: 'Nội dung đánh giá' })
+  @IsString()
+  @IsNotEmpty({ message: 'Nội dung đánh giá không được để trống' })
+  @MaxLength(2000)
+  content: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: `URL ảnh đã tải lên qua /upload (tối đa ${REVIEW_MAX_IMAGES} ảnh)`,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(REVIEW_MAX_IMAGES)
+  @IsUrl({}, { each: true })
+  images?: string[];
+}
+
+export class UpdateReviewDto extends PartialType(
+  OmitType(CreateReviewDto, ['productId'] as const),
+) {}
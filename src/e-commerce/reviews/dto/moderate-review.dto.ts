@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class RejectReviewDto {
+  @ApiProperty({ description: 'Lý do từ chối hoặc ẩn đánh giá' })
+  @IsString()
+  @IsNotEmpty({ message: 'Lý do không được để trống' })
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,107 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Product, Review, ReviewStatus, User } from '@prisma/client';
+
+export class ReviewResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiPropertyOptional({ description: 'Tên sản phẩm' })
+  productName: string | null;
+
+  @ApiPropertyOptional({ description: 'Người đánh giá' })
+  userId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên người đánh giá' })
+  userName: string | null;
+
+  @ApiPropertyOptional({ description: 'Đơn hàng xác minh đã mua' })
+  orderId: string | null;
+
+  @ApiProperty({ description: 'Số sao (1-5)' })
+  rating: number;
+
+  @ApiPropertyOptional({ description: 'Tiêu đề' })
+  title: string | null;
+
+  @ApiProperty({ description: 'Nội dung' })
+  content: string;
+
+  @ApiProperty({ type: [String], description: 'Ảnh đính kèm' })
+  images: string[];
+
+  @ApiProperty({ description: 'Đã xác minh mua hàng' })
+  isVerified: boolean;
+
+  @ApiProperty({ description: 'Số lượt đánh dấu hữu ích' })
+  helpfulCount: number;
+
+  @ApiProperty({ enum: ReviewStatus, description: 'Trạng thái kiểm duyệt' })
+  status: ReviewStatus;
+
+  @ApiPropertyOptional({ description: 'Lý do từ chối/ẩn' })
+  rejectReason: string | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm kiểm duyệt' })
+  moderatedAt: Date | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Ngày cập nhật' })
+  updatedAt: Date;
+
+  static fromReview(
+    review: Review & {
+      product?: Pick<Product, 'name'> | null;
+      user?: Pick<User, 'fullName'> | null;
+    },
+  ): ReviewResponseDto {
+    return {
+      id: review.id,
+      productId: review.productId,
+      productName: review.product?.name ?? null,
+      userId: review.userId,
+      userName: review.user?.fullName ?? null,
+      orderId: review.orderId,
+      rating: review.rating,
+      title: review.title,
+      content: review.content,
+      images: review.images,
+      isVerified: review.isVerified,
+      helpfulCount: review.isHelpful,
+      status: review.status,
+      rejectReason: review.rejectReason,
+      moderatedAt: review.moderatedAt,
+      createdAt: review.createdAt,
+      updatedAt: review.updatedAt,
+    };
+  }
+}
+
+export class PaginatedReviewResponseDto {
+  @ApiProperty({ type: [ReviewResponseDto] })
+  data: ReviewResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
+
+export class ReviewHelpfulResponseDto {
+  @ApiProperty({ description: 'Đánh giá' })
+  reviewId: string;
+
+  @ApiProperty({ description: 'Số lượt đánh dấu hữu ích' })
+  helpfulCount: number;
+
+  @ApiProperty({ description: 'Người dùng hiện tại đã đánh dấu' })
+  voted: boolean;
+}
@@ -0,0 +1,79 @@
+import { OrderStatus, ReviewStatus } from '@prisma/client';
+import { ReviewHelper } from './review.helper';
+
+describe('ReviewHelper', () => {
+  describe('summarize', () => {
+    it('builds the average and the star distribution', () => {
+      expect(
+        ReviewHelper.summarize([
+          { rating: 5, count: 3 },
+          { rating: 4, count: 1 },
+          { rating: 1, count: 1 },
+        ]),
+      ).toEqual({
+        average: 4,
+        count: 5,
+        distribution: { 1: 1, 2: 0, 3: 0, 4: 1, 5: 3 },
+      });
+    });
+
+    it('rounds the average to one decimal and ignores invalid stars', () => {
+      const summary = ReviewHelper.summarize([
+        { rating: 5, count: 2 },
+        { rating: 4, count: 1 },
+        { rating: 0, count: 7 },
+      ]);
+
+      expect(summary.average).toBe(4.7);
+      expect(summary.count).toBe(3);
+    });
+
+    it('returns zeros for a product without reviews', () => {
+      expect(ReviewHelper.summarize([])).toEqual({
+        average: 0,
+        count: 0,
+        distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+      });
+    });
+  });
+
+  it('stores the approved-review average on the product', async () => {
+    const tx = {
+      review: {
+        groupBy: jest.fn().mockResolvedValue([
+          { rating: 5, _count: { _all: 1 } },
+          { rating: 3, _count: { _all: 1 } },
+        ]),
+      },
+      product: { update: jest.fn() },
+    };
+
+    await ReviewHelper.refreshProductRating(tx as any, 'p-1');
+
+    expect(tx.review.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { productId: 'p-1', status: ReviewStatus.approved },
+      }),
+    );
+    expect(tx.product.update).toHaveBeenCalledWith({
+      where: { id: 'p-1' },
+      data: { ratingAverage: 4, ratingCount: 2 },
+    });
+  });
+
+  it('looks for the product in completed orders of the buyer', async () => {
+    const tx = { order: { findFirst: jest.fn().mockResolvedValue(null) } };
+
+    await ReviewHelper.findPurchase(tx as any, 'u-1', 'p-1');
+
+    expect(tx.order.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: OrderStatus.completed,
+          customer: { userId: 'u-1' },
+          orderDetails: { some: { productId: 'p-1' } },
+        },
+      }),
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { OrderStatus, Prisma, ReviewStatus } from '@prisma/client';
+
+export const REVIEW_MAX_IMAGES = 6;
+
+export type StarDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  distribution: StarDistribution;
+}
+
+export class ReviewHelper {
+  /**
+   * Count per star from grouped ratings; stars outside 1..5 are ignored
+   */
+  static summarize(groups: { rating: number; count: number }[]): RatingSummary {
+    const distribution: StarDistribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let count = 0;
+    let sum = 0;
+
+    for (const group of groups) {
+      if (!(group.rating in distribution)) continue;
+      distribution[group.rating as keyof StarDistribution] += group.count;
+      count += group.count;
+      sum += group.rating * group.count;
+    }
+
+    return {
+      average: count > 0 ? Math.round((sum / count) * 10) / 10 : 0,
+      count,
+      distribution,
+    };
+  }
+
+  static async ratingSummary(
+    tx: Prisma.TransactionClient,
+    productId: string,
+  ): Promise<RatingSummary> {
+    const groups = await tx.review.groupBy({
+      by: ['rating'],
+      where: { productId, status: ReviewStatus.approved },
+      _count: { _all: true },
+    });
+
+    return this.summarize(
+      groups.map((group) => ({
+        rating: group.rating,
+        count: group._count._all,
+      })),
+    );
+  }
+
+  /**
+   * Keep the product's denormalised average and count in step with its
+   * approved reviews, so listings can sort by rating
+   */
+  static async refreshProductRating(
+    tx: Prisma.TransactionClient,
+    productId: string,
+  ): Promise<RatingSummary> {
+    const summary = await this.ratingSummary(tx, productId);
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { ratingAverage: summary.average, ratingCount: summary.count },
+    });
+
+    return summary;
+  }
+
+  /**
+   * Latest completed order of the user that contains the product
+   */
+  static findPurchase(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    productId: string,
+  ) {
+    return tx.order.findFirst({
+      where: {
+        status: OrderStatus.completed,
+        customer: { userId },
+        orderDetails: { some: { productId } },
+      },
+      select: { id: true, code: true },
+      orderBy: { completedAt: 'desc' },
+    });
+  }
+}
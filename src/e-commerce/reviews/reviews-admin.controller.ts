@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { ReviewsService } from './reviews.service';
+import { ReviewQueryDto } from './dto/review-query.dto';
+import { RejectReviewDto } from './dto/moderate-review.dto';
+import {
+  PaginatedReviewResponseDto,
+  ReviewResponseDto,
+} from './dto/review-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Reviews')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('admin/reviews')
+export class ReviewsAdminController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Review moderation queue',
+    description: 'Pending reviews are listed first, oldest first',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedReviewResponseDto })
+  findAll(@Query() query: ReviewQueryDto): Promise<PaginatedReviewResponseDto> {
+    return this.reviewsService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a review' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewResponseDto })
+  findOne(@Param('id') id: string): Promise<ReviewResponseDto> {
+    return this.reviewsService.findOne(id);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Publish a review' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewResponseDto })
+  approve(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReviewResponseDto> {
+    return this.reviewsService.approve(id, user.id);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a pending review' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewResponseDto })
+  reject(
+    @Param('id') id: string,
+    @Body() dto: RejectReviewDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReviewResponseDto> {
+    return this.reviewsService.reject(id, dto.reason, user.id);
+  }
+
+  @Post(':id/hide')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Hide a published review' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewResponseDto })
+  hide(
+    @Param('id') id: string,
+    @Body() dto: RejectReviewDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<ReviewResponseDto> {
+    return this.reviewsService.hide(id, dto.reason, user.id);
+  }
+}
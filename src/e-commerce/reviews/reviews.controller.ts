@@ -0,0 +1,109 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { ReviewsService } from './reviews.service';
+import { CreateReviewDto, UpdateReviewDto } from './dto/create-review.dto';
+import { ReviewQueryDto } from './dto/review-query.dto';
+import {
+  PaginatedReviewResponseDto,
+  ReviewHelpfulResponseDto,
+  ReviewResponseDto,
+} from './dto/review-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Reviews')
+@UseGuards(JwtAuthGuard)
+@Controller('e-commerce/reviews')
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Review a product from a completed order',
+    description:
+      'Images must be uploaded through POST /upload first; pass the returned URLs. The review is published after moderation.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: ReviewResponseDto })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'The product is not in any completed order of the buyer',
+  })
+  create(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: CreateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    return this.reviewsService.create(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my reviews' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedReviewResponseDto })
+  findMine(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: ReviewQueryDto,
+  ): Promise<PaginatedReviewResponseDto> {
+    return this.reviewsService.findMine(user.id, query);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit my review; it goes back to moderation' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewResponseDto })
+  update(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+    @Body() dto: UpdateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    return this.reviewsService.update(user.id, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete my review' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT })
+  remove(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.reviewsService.remove(user.id, id);
+  }
+
+  @Post(':id/helpful')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a published review as helpful' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewHelpfulResponseDto })
+  voteHelpful(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<ReviewHelpfulResponseDto> {
+    return this.reviewsService.voteHelpful(user.id, id);
+  }
+
+  @Delete(':id/helpful')
+  @ApiOperation({ summary: 'Withdraw my helpful vote' })
+  @ApiResponse({ status: HttpStatus.OK, type: ReviewHelpfulResponseDto })
+  removeHelpfulVote(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<ReviewHelpfulResponseDto> {
+    return this.reviewsService.removeHelpfulVote(user.id, id);
+  }
+}
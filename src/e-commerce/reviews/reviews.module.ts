@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsAdminController } from './reviews-admin.controller';
+import { ReviewsService } from './reviews.service';
+
+@Module({
+  controllers: [ReviewsController, ReviewsAdminController],
+  providers: [ReviewsService, PrismaService],
+  exports: [ReviewsService],
+})
+export class ReviewsModule {}
@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreateReviewDto, UpdateReviewDto } from './dto/create-review.dto';
+import { ReviewQueryDto } from './dto/review-query.dto';
+import {
+  PaginatedReviewResponseDto,
+  ReviewHelpfulResponseDto,
+  ReviewResponseDto,
+} from './dto/review-response.dto';
+import { ReviewHelper } from './review.helper';
+
+const REVIEW_INCLUDE = {
+  product: { select: { name: true } },
+  user: { select: { fullName: true } },
+} satisfies Prisma.ReviewInclude;
+
+@Injectable()
+export class ReviewsService {
+  private readonly logger = new Logger(ReviewsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Review a product bought in a completed order. The review waits for
+   * moderation before it shows on the product page.
+   */
+  async create(
+    userId: string,
+    dto: CreateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: dto.productId, isActive: true },
+      select: { id: true },
+    });
+    if (!product) {
+      throw new NotFoundException('Sản phẩm không tồn tại');
+    }
+
+    const existing = await this.prisma.review.findUnique({
+      where: { userId_productId: { userId, productId: dto.productId } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        'Bạn đã đánh giá sản phẩm này, hãy sửa đánh giá cũ',
+      );
+    }
+
+    const purchase = await ReviewHelper.findPurchase(
+      this.prisma,
+      userId,
+      dto.productId,
+    );
+    if (!purchase) {
+      throw new ForbiddenException(
+        'Chỉ có thể đánh giá sản phẩm trong đơn hàng đã hoàn thành',
+      );
+    }
+
+    const review = await this.prisma.review.create({
+      data: {
+        productId: dto.productId,
+        userId,
+        orderId: purchase.id,
+        rating: dto.rating,
+        title: dto.title,
+        content: dto.content,
+        images: dto.images ?? [],
+        isVerified: true,
+        status: ReviewStatus.pending,
+      },
+    });
+
+    this.logger.log(
+      `Review ${review.id} (${dto.rating}★) created for product ${dto.productId} by ${userId}`,
+    );
+
+    return this.findOne(review.id);
+  }
+
+  async findMine(
+    userId: string,
+    query: ReviewQueryDto,
+  ): Promise<PaginatedReviewResponseDto> {
+    return this.paginate({ ...this.buildWhere(query), userId }, query);
+  }
+
+  /**
+   * Editing sends the review back to the moderation queue
+   */
+  async update(
+    userId: string,
+    id: string,
+    dto: UpdateReviewDto,
+  ): Promise<ReviewResponseDto> {
+    const review = await this.getOwnReview(userId, id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.review.update({
+        where: { id },
+        data: {
+          ...dto,
+          status: ReviewStatus.pending,
+          moderatedById: null,
+          moderatedAt: null,
+          rejectReason: null,
+        },
+      });
+
+      if (review.status === ReviewStatus.approved) {
+        await ReviewHelper.refreshProductRating(tx, review.productId);
+      }
+    });
+
+    return this.findOne(id);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const review = await this.getOwnReview(userId, id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.review.delete({ where: { id } });
+
+      if (review.status === ReviewStatus.approved) {
+        await ReviewHelper.refreshProductRating(tx, review.productId);
+      }
+    });
+
+    this.logger.log(`Review ${id} deleted by ${userId}`);
+  }
+
+  /**
+   * Mark a published review as helpful, once per user
+   */
+  async voteHelpful(
+    userId: string,
+    id: string,
+  ): Promise<ReviewHelpfulResponseDto> {
+    const review = await this.prisma.review.findFirst({
+      where: { id, status: ReviewStatus.approved },
+    });
+    if (!review) {
+      throw new NotFoundException('Đánh giá không tồn tại');
+    }
+    if (review.userId === userId) {
+      throw new BadRequestException(
+        'Không thể đánh dấu hữu ích cho đánh giá của chính bạn',
+      );
+    }
+
+    try {
+      const updated = await this.prisma.$transaction(async (tx) => {
+        await tx.reviewHelpfulVote.create({ data: { reviewId: id, userId } });
+
+        return tx.review.update({
+          where: { id },
+          data: { isHelpful: { increment: 1 } },
+        });
+      });
+
+      return { reviewId: id, helpfulCount: updated.isHelpful, voted: true };
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new BadRequestException(
+          'Bạn đã đánh dấu hữu ích cho đánh giá này',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async removeHelpfulVote(
+    userId: string,
+    id: string,
+  ): Promise<ReviewHelpfulResponseDto> {
+    const review = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.reviewHelpfulVote.deleteMany({
+        where: { reviewId: id, userId },
+      });
+
+      if (count === 0) {
+        return tx.review.findUnique({ where: { id } });
+      }
+
+      return tx.review.update({
+        where: { id },
+        data: { isHelpful: { decrement: count } },
+      });
+    });
+    if (!review) {
+      throw new NotFoundException('Đánh giá không tồn tại');
+    }
+
+    return { reviewId: id, helpfulCount: review.isHelpful, voted: false };
+  }
+
+  /**
+   * Moderation queue; pending reviews come first, oldest first
+   */
+  async findAll(query: ReviewQueryDto): Promise<PaginatedReviewResponseDto> {
+    return this.paginate(this.buildWhere(query), query, [
+      { status: 'asc' },
+      { createdAt: 'asc' },
+    ]);
+  }
+
+  async findOne(id: string): Promise<ReviewResponseDto> {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+      include: REVIEW_INCLUDE,
+    });
+    if (!review) {
+      throw new NotFoundException('Đánh giá không tồn tại');
+    }
+
+    return ReviewResponseDto.fromReview(review);
+  }
+
+  async approve(id: string, adminId: string): Promise<ReviewResponseDto> {
+    await this.moderate(
+      id,
+      [ReviewStatus.pending, ReviewStatus.rejected, ReviewStatus.hidden],
+      { status: ReviewStatus.approved, rejectReason: null },
+      adminId,
+    );
+
+    return this.findOne(id);
+  }
+
+  async reject(
+    id: string,
+    reason: string,
+    adminId: string,
+  ): Promise<ReviewResponseDto> {
+    await this.moderate(
+      id,
+      [ReviewStatus.pending],
+      { status: ReviewStatus.rejected, rejectReason: reason },
+      adminId,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Take down a review that was already published
+   */
+  async hide(
+    id: string,
+    reason: string,
+    adminId: string,
+  ): Promise<ReviewResponseDto> {
+    await this.moderate(
+      id,
+      [ReviewStatus.approved],
+      { status: ReviewStatus.hidden, rejectReason: reason },
+      adminId,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Move a review between moderation states and refresh the product rating,
+   * which only counts approved reviews
+   */
+  private async moderate(
+    id: string,
+    from: ReviewStatus[],
+    data: { status: ReviewStatus; rejectReason: string | null },
+    adminId: string,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.review.updateMany({
+        where: { id, status: { in: from } },
+        data: { ...data, moderatedById: adminId, moderatedAt: new Date() },
+      });
+
+      const review = await tx.review.findUnique({ where: { id } });
+      if (!review) {
+        throw new NotFoundException('Đánh giá không tồn tại');
+      }
+      if (count === 0) {
+        throw new BadRequestException(
+          `Không thể chuyển đánh giá từ trạng thái ${review.status} sang ${data.status}`,
+        );
+      }
+
+      await ReviewHelper.refreshProductRating(tx, review.productId);
+    });
+
+    this.logger.log(`Review ${id} ${data.status} by ${adminId}`);
+  }
+
+  private async getOwnReview(userId: string, id: string) {
+    const review = await this.prisma.review.findFirst({
+      where: { id, userId },
+    });
+    if (!review) {
+      throw new NotFoundException('Đánh giá không tồn tại');
+    }
+
+    return review;
+  }
+
+  private buildWhere(query: ReviewQueryDto): Prisma.ReviewWhereInput {
+    return {
+      ...(query.status && { status: query.status }),
+      ...(query.productId && { productId: query.productId }),
+      ...(query.rating && { rating: query.rating }),
+    };
+  }
+
+  private async paginate(
+    where: Prisma.ReviewWhereInput,
+    query: ReviewQueryDto,
+    orderBy: Prisma.ReviewOrderByWithRelationInput[] = [{ createdAt: 'desc' }],
+  ): Promise<PaginatedReviewResponseDto> {
+    const { page = 1, limit = 20 } = query;
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        include: REVIEW_INCLUDE,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.review.count({ where }),
+    ]);
+
+    return {
+      data: reviews.map((review) => ReviewResponseDto.fromReview(review)),
+      total,
+      page,
+      limit,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ShippingRule, Warehouse } from '@prisma/client';
+
+export class ShippingRuleResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Tên quy tắc' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description: string | null;
+
+  @ApiProperty({ description: 'Thứ tự xét' })
+  priority: number;
+
+  @ApiProperty({ description: 'Đang áp dụng' })
+  isActive: boolean;
+
+  @ApiProperty({ type: [String], description: 'Tỉnh/Thành phố nhận hàng' })
+  provinces: string[];
+
+  @ApiProperty({ type: [String], description: 'Quận/Huyện nhận hàng' })
+  districts: string[];
+
+  @ApiPropertyOptional({ description: 'Kho xuất hàng' })
+  warehouseId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên kho xuất hàng' })
+  warehouseName: string | null;
+
+  @ApiPropertyOptional({ description: 'Khối lượng tối thiểu (kg)' })
+  minWeight: number | null;
+
+  @ApiPropertyOptional({ description: 'Khối lượng tối đa (kg)' })
+  maxWeight: number | null;
+
+  @ApiPropertyOptional({ description: 'Tạm tính tối thiểu' })
+  minSubtotal: number | null;
+
+  @ApiPropertyOptional({ description: 'Tạm tính tối đa' })
+  maxSubtotal: number | null;
+
+  @ApiProperty({ description: 'Phí cơ bản' })
+  baseFee: number;
+
+  @ApiProperty({ description: 'Khối lượng gồm trong phí cơ bản (kg)' })
+  baseWeight: number;
+
+  @ApiProperty({ description: 'Phí mỗi kg vượt' })
+  feePerExtraKg: number;
+
+  @ApiPropertyOptional({ description: 'Ngưỡng miễn phí vận chuyển' })
+  freeShippingThreshold: number | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Ngày cập nhật' })
+  updatedAt: Date;
+
+  static fromRule(
+    rule: ShippingRule & { warehouse?: Pick<Warehouse, 'name'> | null },
+  ): ShippingRuleResponseDto {
+    const toNumber = (value: { toString(): string } | null) =>
+      value === null ? null : Number(value);
+
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      provinces: rule.provinces,
+      districts: rule.districts,
+      warehouseId: rule.warehouseId,
+      warehouseName: rule.warehouse?.name ?? null,
+      minWeight: rule.minWeight,
+      maxWeight: rule.maxWeight,
+      minSubtotal: toNumber(rule.minSubtotal),
+      maxSubtotal: toNumber(rule.maxSubtotal),
+      baseFee: Number(rule.baseFee),
+      baseWeight: rule.baseWeight,
+      feePerExtraKg: Number(rule.feePerExtraKg),
+      freeShippingThreshold: toNumber(rule.freeShippingThreshold),
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateShippingRuleDto {
+  @ApiProperty({ description: 'Tên quy tắc', example: 'Nội thành Hà Nội' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Thứ tự xét, số nhỏ được xét trước',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Tỉnh/Thành phố nhận hàng (bỏ trống: mọi tỉnh)',
+    example: ['Hà Nội'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  provinces?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Quận/Huyện nhận hàng (bỏ trống: mọi quận huyện)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  districts?: string[];
+
+  @ApiPropertyOptional({ description: 'Kho xuất hàng (bỏ trống: mọi kho)' })
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @ApiPropertyOptional({ description: 'Khối lượng tính phí tối thiểu (kg)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minWeight?: number;
+
+  @ApiPropertyOptional({ description: 'Khối lượng tính phí tối đa (kg)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxWeight?: number;
+
+  @ApiPropertyOptional({ description: 'Tạm tính tối thiểu (VND)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minSubtotal?: number;
+
+  @ApiPropertyOptional({ description: 'Tạm tính tối đa (VND)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxSubtotal?: number;
+
+  @ApiProperty({ description: 'Phí cho phần khối lượng đầu', example: 20000 })
+  @IsNumber()
+  @Min(0)
+  baseFee: number;
+
+  @ApiPropertyOptional({
+    description: 'Khối lượng đã gồm trong phí cơ bản (kg)',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  baseWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Phí cho mỗi kg vượt, làm tròn lên',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  feePerExtraKg?: number;
+
+  @ApiPropertyOptional({
+    description: 'Miễn phí vận chuyển khi tạm tính đạt ngưỡng này (VND)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeShippingThreshold?: number;
+}
+
+export class UpdateShippingRuleDto extends PartialType(CreateShippingRuleDto) {}
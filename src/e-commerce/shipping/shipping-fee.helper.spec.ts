@@ -0,0 +1,152 @@
+import { Prisma } from '@prisma/client';
+import { DeliveryType } from '../shared/dto/index.dto';
+import {
+  DEFAULT_SHIPPING_FEE,
+  ShippingFeeHelper,
+  ShippingQuoteInput,
+} from './shipping-fee.helper';
+
+describe('ShippingFeeHelper', () => {
+  const rule = (
+    overrides: Partial<Parameters<typeof ShippingFeeHelper.matches>[0]> = {},
+  ) => ({
+    id: 'rule-1',
+    name: 'Nội thành Hà Nội',
+    provinces: ['Thành phố Hà Nội'],
+    districts: [],
+    warehouseId: null,
+    minWeight: null,
+    maxWeight: null,
+    minSubtotal: null,
+    maxSubtotal: null,
+    baseFee: new Prisma.Decimal(20000),
+    baseWeight: 2,
+    feePerExtraKg: new Prisma.Decimal(5000),
+    freeShippingThreshold: new Prisma.Decimal(500000),
+    ...overrides,
+  });
+
+  const input = (
+    overrides: Partial<ShippingQuoteInput> = {},
+  ): ShippingQuoteInput => ({
+    deliveryType: DeliveryType.ShipCOD,
+    province: 'Hà Nội',
+    district: 'Quận Cầu Giấy',
+    warehouseId: 'wh-1',
+    subtotal: 200000,
+    items: [{ quantity: 2, weight: 1.2, dimensions: '20x15x10' }],
+    ...overrides,
+  });
+
+  describe('normalizePlace', () => {
+    it('ignores diacritics, case and administrative prefixes', () => {
+      expect(ShippingFeeHelper.normalizePlace('TP. Hồ Chí Minh')).toBe(
+        'ho chi minh',
+      );
+      expect(ShippingFeeHelper.normalizePlace('Thành phố Đà Nẵng')).toBe(
+        'da nang',
+      );
+      expect(ShippingFeeHelper.normalizePlace('quận  Cầu Giấy')).toBe(
+        'cau giay',
+      );
+    });
+  });
+
+  describe('parcel', () => {
+    it('charges the larger of actual and volumetric weight', () => {
+      expect(
+        ShippingFeeHelper.parcel([
+          { quantity: 1, weight: 0.5, dimensions: '40x30x20' },
+        ]),
+      ).toEqual({ weight: 0.5, volumetricWeight: 4, chargeableWeight: 4 });
+    });
+
+    it('skips dimensions it cannot read', () => {
+      expect(
+        ShippingFeeHelper.parcel([
+          { quantity: 3, weight: 1, dimensions: 'khổ lớn' },
+        ]).chargeableWeight,
+      ).toBe(3);
+    });
+  });
+
+  describe('calculate', () => {
+    it('adds a fee for each started kilogram over the base weight', () => {
+      const quote = ShippingFeeHelper.calculate([rule()], input());
+
+      expect(quote.fee).toBe(25000);
+      expect(quote.reason).toBe('rule');
+      expect(quote.remainingForFreeShipping).toBe(300000);
+    });
+
+    it('ships free once the subtotal reaches the threshold', () => {
+      const quote = ShippingFeeHelper.calculate(
+        [rule()],
+        input({ subtotal: 500000 }),
+      );
+
+      expect(quote).toMatchObject({ fee: 0, reason: 'threshold' });
+    });
+
+    it('takes the first matching rule in priority order', () => {
+      const quote = ShippingFeeHelper.calculate(
+        [
+          rule({ id: 'other-warehouse', warehouseId: 'wh-2' }),
+          rule({ id: 'heavy', minWeight: 10 }),
+          rule({
+            id: 'fallback',
+            provinces: [],
+            baseFee: new Prisma.Decimal(40000),
+          }),
+        ],
+        input(),
+      );
+
+      expect(quote.ruleId).toBe('fallback');
+      expect(quote.fee).toBe(45000);
+    });
+
+    it('falls back to the default fee when no rule matches', () => {
+      const quote = ShippingFeeHelper.calculate(
+        [rule()],
+        input({ province: 'Hồ Chí Minh' }),
+      );
+
+      expect(quote).toMatchObject({
+        fee: DEFAULT_SHIPPING_FEE,
+        reason: 'default',
+      });
+    });
+
+    it('charges nothing for pickup or free-shipping products', () => {
+      expect(
+        ShippingFeeHelper.calculate(
+          [rule()],
+          input({ deliveryType: DeliveryType.PickupAtWarehouse }),
+        ).fee,
+      ).toBe(0);
+      expect(
+        ShippingFeeHelper.calculate(
+          [rule()],
+          input({ items: [{ quantity: 1, weight: 3, freeShipping: true }] }),
+        ).reason,
+      ).toBe('free_shipping_products');
+    });
+  });
+
+  describe('quote', () => {
+    it('loads active rules in priority order', async () => {
+      const tx = {
+        shippingRule: { findMany: jest.fn().mockResolvedValue([rule()]) },
+      } as unknown as Prisma.TransactionClient;
+
+      const quote = await ShippingFeeHelper.quote(tx, input());
+
+      expect(tx.shippingRule.findMany).toHaveBeenCalledWith({
+        where: { isActive: true },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      });
+      expect(quote.ruleId).toBe('rule-1');
+    });
+  });
+});
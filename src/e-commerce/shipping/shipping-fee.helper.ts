@@ -0,0 +1,241 @@
+import { Prisma, ShippingRule } from '@prisma/client';
+import { DeliveryType } from '../shared/dto/index.dto';
+
+type PrismaTx = Prisma.TransactionClient;
+
+// Fee when no shipping rule matches, the flat rate used before rules existed
+export const DEFAULT_SHIPPING_FEE = 30000;
+// Carriers in Vietnam bill the larger of actual and L×W×H(cm)/6000 kg
+export const VOLUMETRIC_DIVISOR = 6000;
+
+export interface ShippingParcelItem {
+  quantity: number;
+  weight?: number | null; // kg per unit
+  dimensions?: string | null; // "LxWxH" cm per unit
+  freeShipping?: boolean;
+}
+
+export interface ShippingParcel {
+  weight: number;
+  volumetricWeight: number;
+  chargeableWeight: number;
+}
+
+export interface ShippingQuoteInput {
+  deliveryType: DeliveryType;
+  province?: string | null;
+  district?: string | null;
+  warehouseId: string;
+  subtotal: number;
+  items: ShippingParcelItem[];
+}
+
+export interface ShippingQuote {
+  fee: number;
+  freeShipping: boolean;
+  reason:
+    | 'pickup'
+    | 'free_shipping_products'
+    | 'threshold'
+    | 'rule'
+    | 'default';
+  ruleId: string | null;
+  ruleName: string | null;
+  parcel: ShippingParcel;
+  freeShippingThreshold: number | null;
+  // How much more the buyer must add to reach the rule's free-shipping threshold
+  remainingForFreeShipping: number | null;
+}
+
+type RuleLike = Pick<
+  ShippingRule,
+  | 'id'
+  | 'name'
+  | 'provinces'
+  | 'districts'
+  | 'warehouseId'
+  | 'minWeight'
+  | 'maxWeight'
+  | 'minSubtotal'
+  | 'maxSubtotal'
+  | 'baseFee'
+  | 'baseWeight'
+  | 'feePerExtraKg'
+  | 'freeShippingThreshold'
+>;
+
+const roundWeight = (value: number) => Math.round(value * 1000) / 1000;
+
+export class ShippingFeeHelper {
+  /**
+   * Lowercase, strip diacritics and administrative prefixes so "TP. Hồ Chí
+   * Minh" and "ho chi minh" name the same place
+   */
+  static normalizePlace(value?: string | null): string {
+    if (!value) return '';
+
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/gi, 'd')
+      .toLowerCase()
+      .replace(/^(thanh pho|tp\.?|tinh|quan|huyen|thi xa|tx\.?)\s+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Volume in cm³ from a "LxWxH" string, or 0 when it cannot be read
+   */
+  static parseVolume(dimensions?: string | null): number {
+    if (!dimensions) return 0;
+
+    const sides = dimensions
+      .toLowerCase()
+      .split(/[x×*]/)
+      .map((side) => parseFloat(side.replace(',', '.')));
+    if (sides.length !== 3 || sides.some((side) => !(side > 0))) return 0;
+
+    return sides[0] * sides[1] * sides[2];
+  }
+
+  static parcel(items: ShippingParcelItem[]): ShippingParcel {
+    let weight = 0;
+    let volume = 0;
+    for (const item of items) {
+      weight += (item.weight ?? 0) * item.quantity;
+      volume += this.parseVolume(item.dimensions) * item.quantity;
+    }
+
+    const volumetricWeight = volume / VOLUMETRIC_DIVISOR;
+
+    return {
+      weight: roundWeight(weight),
+      volumetricWeight: roundWeight(volumetricWeight),
+      chargeableWeight: roundWeight(Math.max(weight, volumetricWeight)),
+    };
+  }
+
+  static matches(
+    rule: RuleLike,
+    input: ShippingQuoteInput,
+    parcel: ShippingParcel,
+  ): boolean {
+    const province = this.normalizePlace(input.province);
+    const district = this.normalizePlace(input.district);
+
+    if (
+      rule.provinces.length > 0 &&
+      !rule.provinces.some((name) => this.normalizePlace(name) === province)
+    ) {
+      return false;
+    }
+    if (
+      rule.districts.length > 0 &&
+      !rule.districts.some((name) => this.normalizePlace(name) === district)
+    ) {
+      return false;
+    }
+    if (rule.warehouseId && rule.warehouseId !== input.warehouseId) {
+      return false;
+    }
+
+    const weight = parcel.chargeableWeight;
+    if (rule.minWeight !== null && weight < rule.minWeight) return false;
+    if (rule.maxWeight !== null && weight > rule.maxWeight) return false;
+    if (
+      rule.minSubtotal !== null &&
+      input.subtotal < Number(rule.minSubtotal)
+    ) {
+      return false;
+    }
+    if (
+      rule.maxSubtotal !== null &&
+      input.subtotal > Number(rule.maxSubtotal)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Price a parcel against rules already sorted by priority
+   */
+  static calculate(
+    rules: RuleLike[],
+    input: ShippingQuoteInput,
+  ): ShippingQuote {
+    const parcel = this.parcel(input.items);
+    const quote = (
+      fee: number,
+      reason: ShippingQuote['reason'],
+      rule: RuleLike | null = null,
+    ): ShippingQuote => {
+      const threshold =
+        rule?.freeShippingThreshold != null
+          ? Number(rule.freeShippingThreshold)
+          : null;
+
+      return {
+        fee,
+        freeShipping: fee === 0,
+        reason,
+        ruleId: rule?.id ?? null,
+        ruleName: rule?.name ?? null,
+        parcel,
+        freeShippingThreshold: threshold,
+        remainingForFreeShipping:
+          threshold !== null && fee > 0
+            ? Math.max(threshold - input.subtotal, 0)
+            : null,
+      };
+    };
+
+    if (input.deliveryType === DeliveryType.PickupAtWarehouse) {
+      return quote(0, 'pickup');
+    }
+    if (
+      input.items.length > 0 &&
+      input.items.every((item) => item.freeShipping)
+    ) {
+      return quote(0, 'free_shipping_products');
+    }
+
+    const rule = rules.find((candidate) =>
+      this.matches(candidate, input, parcel),
+    );
+    if (!rule) {
+      return quote(DEFAULT_SHIPPING_FEE, 'default');
+    }
+
+    if (
+      rule.freeShippingThreshold !== null &&
+      input.subtotal >= Number(rule.freeShippingThreshold)
+    ) {
+      return quote(0, 'threshold', rule);
+    }
+
+    const extraKg = Math.ceil(
+      Math.max(parcel.chargeableWeight - rule.baseWeight, 0),
+    );
+    const fee = Number(rule.baseFee) + extraKg * Number(rule.feePerExtraKg);
+
+    return quote(fee, 'rule', rule);
+  }
+
+  static async quote(
+    tx: PrismaTx,
+    input: ShippingQuoteInput,
+  ): Promise<ShippingQuote> {
+    const rules =
+      input.deliveryType === DeliveryType.PickupAtWarehouse
+        ? []
+        : await tx.shippingRule.findMany({
+            where: { isActive: true },
+            orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+          });
+
+    return this.calculate(rules, input);
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { ShippingRulesService } from './shipping-rules.service';
+import {
+  CreateShippingRuleDto,
+  UpdateShippingRuleDto,
+} from './dto/shipping-rule.dto';
+import { ShippingRuleResponseDto } from './dto/shipping-rule-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Shipping Rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('admin/shipping-rules')
+export class ShippingRulesController {
+  constructor(private readonly shippingRulesService: ShippingRulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List shipping rules in evaluation order' })
+  @ApiResponse({ status: HttpStatus.OK, type: [ShippingRuleResponseDto] })
+  findAll(): Promise<ShippingRuleResponseDto[]> {
+    return this.shippingRulesService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a shipping rule' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShippingRuleResponseDto })
+  findOne(@Param('id') id: string): Promise<ShippingRuleResponseDto> {
+    return this.shippingRulesService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a shipping rule' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: ShippingRuleResponseDto })
+  create(@Body() dto: CreateShippingRuleDto): Promise<ShippingRuleResponseDto> {
+    return this.shippingRulesService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update or deactivate a shipping rule' })
+  @ApiResponse({ status: HttpStatus.OK, type: ShippingRuleResponseDto })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateShippingRuleDto,
+  ): Promise<ShippingRuleResponseDto> {
+    return this.shippingRulesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a shipping rule' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT })
+  remove(@Param('id') id: string): Promise<void> {
+    return this.shippingRulesService.remove(id);
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  CreateShippingRuleDto,
+  UpdateShippingRuleDto,
+} from './dto/shipping-rule.dto';
+import { ShippingRuleResponseDto } from './dto/shipping-rule-response.dto';
+
+const SHIPPING_RULE_INCLUDE = {
+  warehouse: { select: { name: true } },
+} satisfies Prisma.ShippingRuleInclude;
+
+@Injectable()
+export class ShippingRulesService {
+  private readonly logger = new Logger(ShippingRulesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Rules in the order checkout evaluates them
+   */
+  async findAll(): Promise<ShippingRuleResponseDto[]> {
+    const rules = await this.prisma.shippingRule.findMany({
+      include: SHIPPING_RULE_INCLUDE,
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.map((rule) => ShippingRuleResponseDto.fromRule(rule));
+  }
+
+  async findOne(id: string): Promise<ShippingRuleResponseDto> {
+    const rule = await this.prisma.shippingRule.findUnique({
+      where: { id },
+      include: SHIPPING_RULE_INCLUDE,
+    });
+    if (!rule) {
+      throw new NotFoundException('Quy tắc phí vận chuyển không tồn tại');
+    }
+
+    return ShippingRuleResponseDto.fromRule(rule);
+  }
+
+  async create(dto: CreateShippingRuleDto): Promise<ShippingRuleResponseDto> {
+    await this.assertRule(dto);
+
+    const rule = await this.prisma.shippingRule.create({
+      data: dto,
+      include: SHIPPING_RULE_INCLUDE,
+    });
+
+    this.logger.log(`Shipping rule ${rule.id} created: ${rule.name}`);
+
+    return ShippingRuleResponseDto.fromRule(rule);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateShippingRuleDto,
+  ): Promise<ShippingRuleResponseDto> {
+    const rule = await this.prisma.shippingRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException('Quy tắc phí vận chuyển không tồn tại');
+    }
+
+    // Check ranges against the values the rule will end up with
+    await this.assertRule({
+      warehouseId: dto.warehouseId,
+      minWeight: dto.minWeight ?? rule.minWeight ?? undefined,
+      maxWeight: dto.maxWeight ?? rule.maxWeight ?? undefined,
+      minSubtotal:
+        dto.minSubtotal ??
+        (rule.minSubtotal === null ? undefined : Number(rule.minSubtotal)),
+      maxSubtotal:
+        dto.maxSubtotal ??
+        (rule.maxSubtotal === null ? undefined : Number(rule.maxSubtotal)),
+    });
+
+    const updated = await this.prisma.shippingRule.update({
+      where: { id },
+      data: dto,
+      include: SHIPPING_RULE_INCLUDE,
+    });
+
+    return ShippingRuleResponseDto.fromRule(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    const { count } = await this.prisma.shippingRule.deleteMany({
+      where: { id },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Quy tắc phí vận chuyển không tồn tại');
+    }
+
+    this.logger.log(`Shipping rule ${id} deleted`);
+  }
+
+  private async assertRule(
+    dto: Pick<
+      CreateShippingRuleDto,
+      'warehouseId' | 'minWeight' | 'maxWeight' | 'minSubtotal' | 'maxSubtotal'
+    >,
+  ): Promise<void> {
+    if (
+      dto.minWeight !== undefined &&
+      dto.maxWeight !== undefined &&
+      dto.minWeight > dto.maxWeight
+    ) {
+      throw new BadRequestException(
+        'Khối lượng tối thiểu không được lớn hơn khối lượng tối đa',
+      );
+    }
+    if (
+      dto.minSubtotal !== undefined &&
+      dto.maxSubtotal !== undefined &&
+      dto.minSubtotal > dto.maxSubtotal
+    ) {
+      throw new BadRequestException(
+        'Tạm tính tối thiểu không được lớn hơn tạm tính tối đa',
+      );
+    }
+
+    if (dto.warehouseId) {
+      const warehouse = await this.prisma.warehouse.findUnique({
+        where: { id: dto.warehouseId },
+      });
+      if (!warehouse) {
+        throw new NotFoundException('Chi nhánh không tồn tại');
+      }
+    }
+  }
+}
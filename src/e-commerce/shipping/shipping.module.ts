@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { ShippingRulesController } from './shipping-rules.controller';
+import { ShippingRulesService } from './shipping-rules.service';
+
+@Module({
+  controllers: [ShippingRulesController],
+  providers: [ShippingRulesService, PrismaService],
+  exports: [ShippingRulesService],
+})
+export class ShippingModule {}
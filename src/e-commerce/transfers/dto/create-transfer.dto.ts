@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class TransferItemDto {
+  @ApiProperty({ description: 'Sản phẩm' })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiProperty({ description: 'Số lượng chuyển', example: 10, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateTransferDto {
+  @ApiProperty({ description: 'Kho gửi' })
+  @IsString()
+  @IsNotEmpty()
+  fromWarehouseId: string;
+
+  @ApiProperty({ description: 'Kho nhận' })
+  @IsString()
+  @IsNotEmpty()
+  toWarehouseId: string;
+
+  @ApiProperty({ type: [TransferItemDto] })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'Phải chọn ít nhất một sản phẩm' })
+  @ValidateNested({ each: true })
+  @Type(() => TransferItemDto)
+  items: TransferItemDto[];
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú của kho gửi' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  noteBySource?: string;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ReceivedItemDto {
+  @ApiProperty({ description: 'Dòng chi tiết chuyển kho' })
+  @IsString()
+  @IsNotEmpty()
+  detailId: string;
+
+  @ApiProperty({ description: 'Số lượng thực nhận', example: 9, minimum: 0 })
+  @IsInt()
+  @Min(0)
+  receivedQuantity: number;
+
+  @ApiPropertyOptional({ description: 'Ghi chú chênh lệch' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class ReceiveTransferDto {
+  @ApiPropertyOptional({
+    type: [ReceivedItemDto],
+    description: 'Dòng không khai báo được xem là nhận đủ',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedItemDto)
+  items?: ReceivedItemDto[];
+
+  @ApiPropertyOptional({ description: 'Ghi chú của kho nhận' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  noteByDestination?: string;
+}
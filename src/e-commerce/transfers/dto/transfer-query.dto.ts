@@ -0,0 +1,43 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { TransferStatus } from '@prisma/client';
+
+export class TransferQueryDto {
+  @ApiPropertyOptional({ enum: TransferStatus })
+  @IsOptional()
+  @IsEnum(TransferStatus)
+  status?: TransferStatus;
+
+  @ApiPropertyOptional({ description: 'Lọc theo kho gửi' })
+  @IsOptional()
+  @IsString()
+  fromWarehouseId?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo kho nhận' })
+  @IsOptional()
+  @IsString()
+  toWarehouseId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
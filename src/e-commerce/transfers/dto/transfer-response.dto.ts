@@ -0,0 +1,135 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transfer, TransferDetail, TransferStatus } from '@prisma/client';
+
+export class TransferDetailResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiPropertyOptional({ description: 'Tên sản phẩm' })
+  productName: string | null;
+
+  @ApiProperty({ description: 'Số lượng chuyển' })
+  transferredQuantity: number;
+
+  @ApiPropertyOptional({ description: 'Số lượng thực nhận' })
+  receivedQuantity: number | null;
+
+  @ApiPropertyOptional({ description: 'Chênh lệch (âm khi thiếu)' })
+  variance: number | null;
+
+  @ApiPropertyOptional({ description: 'Ghi chú chênh lệch' })
+  varianceNote: string | null;
+
+  @ApiProperty({ description: 'Giá vốn' })
+  price: number;
+
+  @ApiProperty({ description: 'Giá trị chuyển' })
+  totalTransfer: number;
+
+  @ApiProperty({ description: 'Giá trị nhận' })
+  totalReceive: number;
+}
+
+export class TransferResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã phiếu chuyển' })
+  code: string;
+
+  @ApiProperty({ enum: TransferStatus, description: 'Trạng thái' })
+  status: TransferStatus;
+
+  @ApiPropertyOptional({ description: 'Kho gửi' })
+  fromWarehouseId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên kho gửi' })
+  fromWarehouseName: string | null;
+
+  @ApiPropertyOptional({ description: 'Kho nhận' })
+  toWarehouseId: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên kho nhận' })
+  toWarehouseName: string | null;
+
+  @ApiProperty({ description: 'Mô tả' })
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú của kho gửi' })
+  noteBySource: string | null;
+
+  @ApiPropertyOptional({ description: 'Ghi chú của kho nhận' })
+  noteByDestination: string | null;
+
+  @ApiProperty({ description: 'Ngày tạo phiếu' })
+  transferDate: Date;
+
+  @ApiPropertyOptional({ description: 'Thời điểm xuất kho' })
+  dispatchedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Ngày nhận hàng' })
+  receivedDate: Date | null;
+
+  @ApiProperty({ description: 'Tổng chênh lệch số lượng' })
+  totalVariance: number;
+
+  @ApiProperty({ type: [TransferDetailResponseDto] })
+  details: TransferDetailResponseDto[];
+
+  static fromTransfer(
+    transfer: Transfer & {
+      fromWarehouse?: { name: string } | null;
+      toWarehouse?: { name: string } | null;
+      details: (TransferDetail & { product?: { name: string } | null })[];
+    },
+  ): TransferResponseDto {
+    return {
+      id: transfer.id,
+      code: transfer.code,
+      status: transfer.status,
+      fromWarehouseId: transfer.fromWarehouseId,
+      fromWarehouseName: transfer.fromWarehouse?.name ?? null,
+      toWarehouseId: transfer.toWarehouseId,
+      toWarehouseName: transfer.toWarehouse?.name ?? null,
+      description: transfer.description,
+      noteBySource: transfer.noteBySource,
+      noteByDestination: transfer.noteByDestination,
+      transferDate: transfer.transferDate,
+      dispatchedAt: transfer.dispatchedAt,
+      receivedDate: transfer.receivedDate,
+      totalVariance: transfer.details.reduce(
+        (sum, detail) => sum + (detail.variance ?? 0),
+        0,
+      ),
+      details: transfer.details.map((detail) => ({
+        id: detail.id,
+        productId: detail.productId,
+        productName: detail.product?.name ?? null,
+        transferredQuantity: detail.transferredQuantity,
+        receivedQuantity: detail.receivedQuantity,
+        variance: detail.variance,
+        varianceNote: detail.varianceNote,
+        price: Number(detail.price),
+        totalTransfer: Number(detail.totalTransfer),
+        totalReceive: Number(detail.totalReceive),
+      })),
+    };
+  }
+}
+
+export class PaginatedTransferResponseDto {
+  @ApiProperty({ type: [TransferResponseDto] })
+  data: TransferResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
@@ -0,0 +1,128 @@
+import { BadRequestException } from '@nestjs/common';
+import { TransferStockHelper } from './transfer-stock.helper';
+
+describe('TransferStockHelper', () => {
+  let tx: any;
+
+  beforeEach(() => {
+    tx = {
+      productInventory: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        upsert: jest.fn(),
+      },
+    };
+  });
+
+  it('merges repeated products', () => {
+    expect(
+      TransferStockHelper.mergeLines([
+        { productId: 'p-1', quantity: 2 },
+        { productId: 'p-2', quantity: 1 },
+        { productId: 'p-1', quantity: 3 },
+      ]),
+    ).toEqual([
+      { productId: 'p-1', quantity: 5 },
+      { productId: 'p-2', quantity: 1 },
+    ]);
+  });
+
+  describe('reserve', () => {
+    it('reserves available stock and returns unit costs', async () => {
+      tx.productInventory.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        onHand: 10,
+        reserved: 3,
+        actualReserved: 3,
+        cost: 25000,
+      });
+
+      const costs = await TransferStockHelper.reserve(tx, 'wh-a', [
+        { productId: 'p-1', quantity: 7 },
+      ]);
+
+      expect(costs.get('p-1')).toBe(25000);
+      expect(tx.productInventory.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'inv-1',
+          onHand: { gte: 10 },
+          reserved: { lte: 3 },
+          actualReserved: { lte: 3 },
+        },
+        data: { reserved: { increment: 7 } },
+      });
+    });
+
+    it('refuses to reserve more than is available', async () => {
+      tx.productInventory.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        onHand: 10,
+        reserved: 3,
+        actualReserved: 5,
+        cost: 25000,
+      });
+
+      await expect(
+        TransferStockHelper.reserve(tx, 'wh-a', [
+          { productId: 'p-1', quantity: 6 },
+        ]),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(tx.productInventory.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses when the stock was taken after it was read', async () => {
+      tx.productInventory.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        onHand: 10,
+        reserved: 3,
+        actualReserved: 3,
+        cost: 25000,
+      });
+      tx.productInventory.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        TransferStockHelper.reserve(tx, 'wh-a', [
+          { productId: 'p-1', quantity: 7 },
+        ]),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  it('moves dispatched stock out of the source and into transit', async () => {
+    await TransferStockHelper.dispatch(tx, 'wh-a', 'wh-b', [
+      { productId: 'p-1', quantity: 4, cost: 25000 },
+    ]);
+
+    expect(tx.productInventory.update).toHaveBeenCalledWith({
+      where: {
+        warehouseId_productId: { warehouseId: 'wh-a', productId: 'p-1' },
+      },
+      data: { onHand: { decrement: 4 }, reserved: { decrement: 4 } },
+    });
+    expect(tx.productInventory.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { inTransit: { increment: 4 } },
+        create: expect.objectContaining({
+          warehouseId: 'wh-b',
+          inTransit: 4,
+          cost: 25000,
+        }),
+      }),
+    );
+  });
+
+  it('books only the received quantity and records the shortage', async () => {
+    const line = { productId: 'p-1', quantity: 4, receivedQuantity: 3 };
+
+    await TransferStockHelper.receive(tx, 'wh-b', [line]);
+
+    expect(tx.productInventory.update).toHaveBeenCalledWith({
+      where: {
+        warehouseId_productId: { warehouseId: 'wh-b', productId: 'p-1' },
+      },
+      data: { onHand: { increment: 3 }, inTransit: { decrement: 4 } },
+    });
+    expect(TransferStockHelper.variance(line)).toBe(-1);
+  });
+});
@@ -0,0 +1,178 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+export interface TransferLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface ReceivedLine extends TransferLine {
+  receivedQuantity: number;
+}
+
+/**
+ * Stock movements of an inter-warehouse transfer. Every method expects to run
+ * inside the caller's transaction.
+ *
+ * draft      – reserved at the source
+ * delivering – left the source (onHand, reserved) and inTransit at the destination
+ * completed  – inTransit cleared, received quantity added to destination onHand
+ */
+export class TransferStockHelper {
+  static generateTransferCode(): string {
+    return `TRF-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  /**
+   * Merge repeated products so each one is reserved and moved once
+   */
+  static mergeLines(lines: TransferLine[]): TransferLine[] {
+    const merged = new Map<string, number>();
+    for (const line of lines) {
+      merged.set(
+        line.productId,
+        (merged.get(line.productId) ?? 0) + line.quantity,
+      );
+    }
+    return [...merged].map(([productId, quantity]) => ({
+      productId,
+      quantity,
+    }));
+  }
+
+  /**
+   * Reserve stock at the source and return the unit cost of each product
+   */
+  static async reserve(
+    tx: Prisma.TransactionClient,
+    warehouseId: string,
+    lines: TransferLine[],
+  ): Promise<Map<string, number>> {
+    const costs = new Map<string, number>();
+
+    for (const line of lines) {
+      const inventory = await tx.productInventory.findUnique({
+        where: {
+          warehouseId_productId: { warehouseId, productId: line.productId },
+        },
+      });
+      const available = inventory
+        ? inventory.onHand -
+          Math.max(inventory.reserved, inventory.actualReserved)
+        : 0;
+      if (!inventory || available < line.quantity) {
+        throw new BadRequestException(
+          `Sản phẩm ${line.productId} chỉ còn ${Math.max(0, available)} trong kho gửi`,
+        );
+      }
+
+      // Only reserve if nothing took the stock since it was read: reserved
+      // stays at most onHand - quantity while onHand has not dropped
+      const maxReserved = inventory.onHand - line.quantity;
+      const { count } = await tx.productInventory.updateMany({
+        where: {
+          id: inventory.id,
+          onHand: { gte: inventory.onHand },
+          reserved: { lte: maxReserved },
+          actualReserved: { lte: maxReserved },
+        },
+        data: { reserved: { increment: line.quantity } },
+      });
+      if (count !== 1) {
+        throw new BadRequestException(
+          `Sản phẩm ${line.productId} không còn đủ tồn trong kho gửi`,
+        );
+      }
+      costs.set(line.productId, Number(inventory.cost));
+    }
+
+    return costs;
+  }
+
+  static async release(
+    tx: Prisma.TransactionClient,
+    warehouseId: string,
+    lines: TransferLine[],
+  ): Promise<void> {
+    for (const line of lines) {
+      await tx.productInventory.update({
+        where: {
+          warehouseId_productId: { warehouseId, productId: line.productId },
+        },
+        data: { reserved: { decrement: line.quantity } },
+      });
+    }
+  }
+
+  /**
+   * Take the reserved stock out of the source and put it in transit
+   */
+  static async dispatch(
+    tx: Prisma.TransactionClient,
+    fromWarehouseId: string,
+    toWarehouseId: string,
+    lines: (TransferLine & { cost: number })[],
+  ): Promise<void> {
+    for (const line of lines) {
+      await tx.productInventory.update({
+        where: {
+          warehouseId_productId: {
+            warehouseId: fromWarehouseId,
+            productId: line.productId,
+          },
+        },
+        data: {
+          onHand: { decrement: line.quantity },
+          reserved: { decrement: line.quantity },
+        },
+      });
+
+      await tx.productInventory.upsert({
+        where: {
+          warehouseId_productId: {
+            warehouseId: toWarehouseId,
+            productId: line.productId,
+          },
+        },
+        update: { inTransit: { increment: line.quantity } },
+        create: {
+          warehouseId: toWarehouseId,
+          productId: line.productId,
+          cost: line.cost,
+          inTransit: line.quantity,
+        },
+      });
+    }
+  }
+
+  /**
+   * Clear the in-transit quantity and add what actually arrived to onHand
+   */
+  static async receive(
+    tx: Prisma.TransactionClient,
+    toWarehouseId: string,
+    lines: ReceivedLine[],
+  ): Promise<void> {
+    for (const line of lines) {
+      await tx.productInventory.update({
+        where: {
+          warehouseId_productId: {
+            warehouseId: toWarehouseId,
+            productId: line.productId,
+          },
+        },
+        data: {
+          onHand: { increment: line.receivedQuantity },
+          inTransit: { decrement: line.quantity },
+        },
+      });
+    }
+  }
+
+  /**
+   * Received minus transferred; negative when goods went missing
+   */
+  static variance(line: ReceivedLine): number {
+    return line.receivedQuantity - line.quantity;
+  }
+}
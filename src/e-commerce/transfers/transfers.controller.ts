@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { TransfersService } from './transfers.service';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { ReceiveTransferDto } from './dto/receive-transfer.dto';
+import { TransferQueryDto } from './dto/transfer-query.dto';
+import {
+  PaginatedTransferResponseDto,
+  TransferResponseDto,
+} from './dto/transfer-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Transfers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('transfers')
+export class TransfersController {
+  constructor(private readonly transfersService: TransfersService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a transfer between warehouses and reserve source stock',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: TransferResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Not enough available stock at the source warehouse',
+  })
+  create(
+    @Body() dto: CreateTransferDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<TransferResponseDto> {
+    return this.transfersService.create(dto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List warehouse transfers' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedTransferResponseDto })
+  findAll(
+    @Query() query: TransferQueryDto,
+  ): Promise<PaginatedTransferResponseDto> {
+    return this.transfersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a warehouse transfer' })
+  @ApiResponse({ status: HttpStatus.OK, type: TransferResponseDto })
+  findOne(@Param('id') id: string): Promise<TransferResponseDto> {
+    return this.transfersService.findOne(id);
+  }
+
+  @Post(':id/dispatch')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Ship a draft transfer (stock goes in transit)' })
+  @ApiResponse({ status: HttpStatus.OK, type: TransferResponseDto })
+  dispatch(@Param('id') id: string): Promise<TransferResponseDto> {
+    return this.transfersService.dispatch(id);
+  }
+
+  @Post(':id/receive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive a transfer at the destination and record variances',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: TransferResponseDto })
+  receive(
+    @Param('id') id: string,
+    @Body() dto: ReceiveTransferDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<TransferResponseDto> {
+    return this.transfersService.receive(id, dto, user.id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a draft transfer and release its stock' })
+  @ApiResponse({ status: HttpStatus.OK, type: TransferResponseDto })
+  cancel(@Param('id') id: string): Promise<TransferResponseDto> {
+    return this.transfersService.cancel(id);
+  }
+}
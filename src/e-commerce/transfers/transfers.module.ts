@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { TransfersController } from './transfers.controller';
+import { TransfersService } from './transfers.service';
+
+@Module({
+  controllers: [TransfersController],
+  providers: [TransfersService, PrismaService],
+  exports: [TransfersService],
+})
+export class TransfersModule {}
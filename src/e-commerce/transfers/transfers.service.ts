@@ -0,0 +1,310 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, TransferStatus } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { ReceiveTransferDto } from './dto/receive-transfer.dto';
+import { TransferQueryDto } from './dto/transfer-query.dto';
+import {
+  PaginatedTransferResponseDto,
+  TransferResponseDto,
+} from './dto/transfer-response.dto';
+import { TransferStockHelper } from './transfer-stock.helper';
+
+const TRANSFER_INCLUDE = {
+  fromWarehouse: { select: { name: true } },
+  toWarehouse: { select: { name: true } },
+  details: { include: { product: { select: { name: true } } } },
+} satisfies Prisma.TransferInclude;
+
+@Injectable()
+export class TransfersService {
+  private readonly logger = new Logger(TransfersService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a draft transfer and reserve its stock at the source warehouse
+   */
+  async create(
+    dto: CreateTransferDto,
+    userId: string,
+  ): Promise<TransferResponseDto> {
+    if (dto.fromWarehouseId === dto.toWarehouseId) {
+      throw new BadRequestException('Kho gửi và kho nhận phải khác nhau');
+    }
+
+    const warehouses = await this.prisma.warehouse.count({
+      where: {
+        id: { in: [dto.fromWarehouseId, dto.toWarehouseId] },
+        isActive: true,
+      },
+    });
+    if (warehouses !== 2) {
+      throw new NotFoundException(
+        'Kho hàng không tồn tại hoặc đã ngừng hoạt động',
+      );
+    }
+
+    const lines = TransferStockHelper.mergeLines(dto.items);
+
+    const transfer = await this.prisma.$transaction(async (tx) => {
+      const costs = await TransferStockHelper.reserve(
+        tx,
+        dto.fromWarehouseId,
+        lines,
+      );
+
+      return tx.transfer.create({
+        data: {
+          code: TransferStockHelper.generateTransferCode(),
+          status: TransferStatus.draft,
+          description: dto.description ?? '',
+          noteBySource: dto.noteBySource,
+          transferDate: new Date(),
+          fromWarehouseId: dto.fromWarehouseId,
+          toWarehouseId: dto.toWarehouseId,
+          createdById: userId,
+          details: {
+            create: lines.map((line) => {
+              const price = costs.get(line.productId) ?? 0;
+              return {
+                productId: line.productId,
+                transferredQuantity: line.quantity,
+                price,
+                totalTransfer: price * line.quantity,
+                totalReceive: 0,
+              };
+            }),
+          },
+        },
+      });
+    });
+
+    this.logger.log(
+      `Transfer ${transfer.code} created from ${dto.fromWarehouseId} to ${dto.toWarehouseId}`,
+    );
+
+    return this.findOne(transfer.id);
+  }
+
+  async findAll(
+    query: TransferQueryDto,
+  ): Promise<PaginatedTransferResponseDto> {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      fromWarehouseId,
+      toWarehouseId,
+    } = query;
+
+    const where: Prisma.TransferWhereInput = {
+      ...(status && { status }),
+      ...(fromWarehouseId && { fromWarehouseId }),
+      ...(toWarehouseId && { toWarehouseId }),
+    };
+
+    const [transfers, total] = await Promise.all([
+      this.prisma.transfer.findMany({
+        where,
+        include: TRANSFER_INCLUDE,
+        orderBy: { transferDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.transfer.count({ where }),
+    ]);
+
+    return {
+      data: transfers.map((transfer) =>
+        TransferResponseDto.fromTransfer(transfer),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<TransferResponseDto> {
+    const transfer = await this.prisma.transfer.findUnique({
+      where: { id },
+      include: TRANSFER_INCLUDE,
+    });
+    if (!transfer) {
+      throw new NotFoundException('Phiếu chuyển kho không tồn tại');
+    }
+
+    return TransferResponseDto.fromTransfer(transfer);
+  }
+
+  /**
+   * Goods leave the source warehouse and are in transit to the destination
+   */
+  async dispatch(id: string): Promise<TransferResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      const transfer = await this.transition(tx, id, [TransferStatus.draft], {
+        status: TransferStatus.delivering,
+        dispatchedAt: new Date(),
+      });
+
+      await TransferStockHelper.dispatch(
+        tx,
+        transfer.fromWarehouseId!,
+        transfer.toWarehouseId!,
+        transfer.details.map((detail) => ({
+          productId: detail.productId,
+          quantity: detail.transferredQuantity,
+          cost: Number(detail.price),
+        })),
+      );
+    });
+
+    this.logger.log(`Transfer ${id} dispatched`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Book the goods into the destination and record any shortage or surplus
+   */
+  async receive(
+    id: string,
+    dto: ReceiveTransferDto,
+    userId: string,
+  ): Promise<TransferResponseDto> {
+    const received = new Map(
+      (dto.items ?? []).map((item) => [item.detailId, item]),
+    );
+
+    await this.prisma.$transaction(async (tx) => {
+      const transfer = await this.transition(
+        tx,
+        id,
+        [TransferStatus.delivering],
+        {
+          status: TransferStatus.completed,
+          receivedDate: new Date(),
+          receivedById: userId,
+          noteByDestination: dto.noteByDestination,
+        },
+      );
+
+      const unknown = [...received.keys()].filter(
+        (detailId) =>
+          !transfer.details.some((detail) => detail.id === detailId),
+      );
+      if (unknown.length > 0) {
+        throw new BadRequestException(
+          `Dòng chuyển kho không thuộc phiếu: ${unknown.join(', ')}`,
+        );
+      }
+
+      const lines = transfer.details.map((detail) => ({
+        detail,
+        productId: detail.productId,
+        quantity: detail.transferredQuantity,
+        receivedQuantity:
+          received.get(detail.id)?.receivedQuantity ??
+          detail.transferredQuantity,
+      }));
+
+      await TransferStockHelper.receive(tx, transfer.toWarehouseId!, lines);
+
+      for (const line of lines) {
+        await tx.transferDetail.update({
+          where: { id: line.detail.id },
+          data: {
+            receivedQuantity: line.receivedQuantity,
+            variance: TransferStockHelper.variance(line),
+            varianceNote: received.get(line.detail.id)?.note,
+            totalReceive: Number(line.detail.price) * line.receivedQuantity,
+          },
+        });
+      }
+
+      const variances = lines.filter(
+        (line) => TransferStockHelper.variance(line) !== 0,
+      );
+      if (variances.length > 0) {
+        this.logger.warn(
+          `Transfer ${transfer.code} received with variance on ${variances.length} products`,
+        );
+      }
+    });
+
+    this.logger.log(`Transfer ${id} received by ${userId}`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Cancel a draft transfer and release its reservation at the source
+   */
+  async cancel(id: string): Promise<TransferResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      const transfer = await this.transition(tx, id, [TransferStatus.draft], {
+        status: TransferStatus.cancelled,
+      });
+
+      await TransferStockHelper.release(
+        tx,
+        transfer.fromWarehouseId!,
+        transfer.details.map((detail) => ({
+          productId: detail.productId,
+          quantity: detail.transferredQuantity,
+        })),
+      );
+    });
+
+    this.logger.log(`Transfer ${id} cancelled`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Move a transfer to a new status only from the expected ones, so stock is
+   * never moved twice for the same step. KiotViet transfers have no ACTA
+   * warehouses and stay read-only here.
+   */
+  private async transition(
+    tx: Prisma.TransactionClient,
+    id: string,
+    from: TransferStatus[],
+    data: Prisma.TransferUncheckedUpdateManyInput,
+  ) {
+    const { count } = await tx.transfer.updateMany({
+      where: {
+        id,
+        status: { in: from },
+        fromWarehouseId: { not: null },
+        toWarehouseId: { not: null },
+      },
+      data,
+    });
+
+    if (count === 0) {
+      const transfer = await tx.transfer.findUnique({ where: { id } });
+      if (!transfer) {
+        throw new NotFoundException('Phiếu chuyển kho không tồn tại');
+      }
+      if (!transfer.fromWarehouseId || !transfer.toWarehouseId) {
+        throw new BadRequestException(
+          'Phiếu chuyển kho đồng bộ từ KiotViet không thể cập nhật tại đây',
+        );
+      }
+      throw new BadRequestException(
+        `Không thể chuyển phiếu chuyển kho từ trạng thái ${transfer.status} sang ${data.status}`,
+      );
+    }
+
+    return tx.transfer.findUniqueOrThrow({
+      where: { id },
+      include: { details: true },
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { VoucherPartnerType } from '@prisma/client';
+
+export class AssignVouchersDto {
+  @ApiProperty({
+    description: 'Loại đối tác nhận voucher',
+    enum: VoucherPartnerType,
+  })
+  @IsEnum(VoucherPartnerType)
+  partnerType: VoucherPartnerType;
+
+  @ApiProperty({ description: 'ID đối tác' })
+  @IsString()
+  @IsNotEmpty()
+  partnerId: string;
+
+  @ApiProperty({ description: 'Tên đối tác', example: 'Nguyễn Văn A' })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @IsNotEmpty()
+  partnerName: string;
+
+  @ApiPropertyOptional({
+    description: 'Danh sách voucher cụ thể cần gán',
+    type: [String],
+  })
+  @ValidateIf((dto: AssignVouchersDto) => dto.quantity === undefined)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  voucherIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Số lượng voucher chưa phát hành sẽ được gán tự động',
+    example: 5,
+  })
+  @ValidateIf((dto: AssignVouchersDto) => dto.voucherIds === undefined)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  quantity?: number;
+}
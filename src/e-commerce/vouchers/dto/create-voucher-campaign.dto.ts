@@ -0,0 +1,193 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateVoucherCampaignDto {
+  @ApiProperty({
+    description: 'Mã chương trình voucher',
+    example: 'TET2026',
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @IsString()
+  @IsNotEmpty({ message: 'Mã chương trình không được để trống' })
+  @Matches(/^[A-Z0-9_-]+$/, {
+    message: 'Mã chương trình chỉ gồm chữ, số, dấu gạch ngang hoặc gạch dưới',
+  })
+  @MaxLength(32)
+  code: string;
+
+  @ApiProperty({
+    description: 'Tên chương trình',
+    example: 'Khuyến mãi Tết 2026',
+  })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @IsNotEmpty({ message: 'Tên chương trình không được để trống' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả chương trình' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Ngày bắt đầu',
+    example: '2026-01-20T00:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'Ngày kết thúc',
+    example: '2026-02-20T23:59:59.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Số ngày voucher còn hiệu lực kể từ khi phát hành (0 = đến hết chương trình)',
+    example: 30,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  expireTime?: number;
+
+  @ApiProperty({
+    description: 'Số lượt sử dụng tối đa của chương trình',
+    example: 1000,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Số tiền giảm (VND)',
+    example: 50000,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Phần trăm giảm giá (0-100)',
+    example: 10,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  discountRatio?: number;
+
+  @ApiPropertyOptional({
+    description: 'Cho phép dùng chung với voucher khác trên cùng hóa đơn',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  useVoucherCombineInvoice?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Áp dụng cho tất cả kho hàng',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isGlobal?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Áp dụng cho tất cả nhóm khách hàng',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  forAllCusGroup?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Áp dụng cho tất cả người dùng',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  forAllUser?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Danh mục sản phẩm yêu cầu',
+    type: [String],
+    default: [],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  prereqCategoryIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Sản phẩm yêu cầu',
+    type: [String],
+    default: [],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  prereqProductIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Giá trị đơn hàng tối thiểu (VND)',
+    example: 200000,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  prereqPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Kho hàng áp dụng',
+    type: [String],
+    default: [],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  warehouseIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Người dùng được phép sử dụng',
+    type: [String],
+    default: [],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  userIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Nhóm khách hàng áp dụng (bỏ qua khi forAllCusGroup)',
+    type: [String],
+    default: [],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  customerGroupIds?: string[];
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class GenerateVouchersDto {
+  @ApiProperty({
+    description: 'Số lượng mã cần tạo',
+    example: 500,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  count: number;
+
+  @ApiPropertyOptional({
+    description: 'Tiền tố mã voucher (mặc định là mã chương trình)',
+    example: 'TET',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @Matches(/^[A-Z0-9]*$/, {
+    message: 'Tiền tố chỉ gồm chữ và số',
+  })
+  @MaxLength(12)
+  prefix?: string;
+
+  @ApiPropertyOptional({
+    description: 'Độ dài phần ngẫu nhiên của mã',
+    example: 8,
+    default: 8,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(6)
+  @Max(16)
+  length?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Phát hành ngay để khách hàng sử dụng (không cần gán cho đối tác)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  release?: boolean;
+}
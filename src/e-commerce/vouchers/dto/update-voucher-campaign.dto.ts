@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateVoucherCampaignDto } from './create-voucher-campaign.dto';
+
+export class UpdateVoucherCampaignDto extends PartialType(
+  OmitType(CreateVoucherCampaignDto, ['code'] as const),
+) {}
@@ -0,0 +1,246 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  Voucher,
+  VoucherCampaign,
+  VoucherPartnerType,
+  VoucherStatus,
+} from '@prisma/client';
+
+export class VoucherCampaignResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã' })
+  code: string;
+
+  @ApiProperty({ description: 'Tên chương trình' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả' })
+  description?: string | null;
+
+  @ApiProperty({ description: 'Đang hoạt động' })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Ngày bắt đầu' })
+  startDate: Date;
+
+  @ApiProperty({ description: 'Ngày kết thúc' })
+  endDate: Date;
+
+  @ApiProperty({ description: 'Số ngày hiệu lực sau khi phát hành' })
+  expireTime: number;
+
+  @ApiProperty({ description: 'Số lượt sử dụng tối đa' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Số tiền giảm (VND)' })
+  discount: number;
+
+  @ApiProperty({ description: 'Phần trăm giảm giá' })
+  discountRatio: number;
+
+  @ApiProperty({ description: 'Cho phép dùng chung voucher' })
+  useVoucherCombineInvoice: boolean;
+
+  @ApiProperty({ description: 'Áp dụng toàn cục' })
+  isGlobal: boolean;
+
+  @ApiProperty({ description: 'Cho tất cả nhóm khách hàng' })
+  forAllCusGroup: boolean;
+
+  @ApiProperty({ description: 'Cho tất cả người dùng' })
+  forAllUser: boolean;
+
+  @ApiProperty({ type: [String], description: 'Danh mục yêu cầu' })
+  prereqCategoryIds: string[];
+
+  @ApiProperty({ type: [String], description: 'Sản phẩm yêu cầu' })
+  prereqProductIds: string[];
+
+  @ApiProperty({ description: 'Giá trị đơn hàng tối thiểu' })
+  prereqPrice: number;
+
+  @ApiProperty({ type: [String], description: 'Kho hàng áp dụng' })
+  warehouseIds: string[];
+
+  @ApiProperty({ type: [String], description: 'Người dùng được phép sử dụng' })
+  userIds: string[];
+
+  @ApiProperty({ type: [String], description: 'Nhóm khách hàng áp dụng' })
+  customerGroupIds: string[];
+
+  @ApiProperty({ description: 'Số lượt đã sử dụng' })
+  usedCount: number;
+
+  @ApiProperty({ description: 'Số mã đã tạo' })
+  voucherCount: number;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Ngày cập nhật' })
+  updatedAt: Date;
+
+  static fromCampaign(
+    campaign: VoucherCampaign & {
+      warehouses?: { id: string }[];
+      users?: { id: string }[];
+      customerGroups?: { id: string }[];
+      _count?: { vouchers: number };
+    },
+  ): VoucherCampaignResponseDto {
+    return {
+      id: campaign.id,
+      code: campaign.code,
+      name: campaign.name,
+      description: campaign.description,
+      isActive: campaign.isActive,
+      startDate: campaign.startDate,
+      endDate: campaign.endDate,
+      expireTime: campaign.expireTime,
+      quantity: campaign.quantity,
+      discount: Number(campaign.discount),
+      discountRatio: Number(campaign.discountRatio),
+      useVoucherCombineInvoice: campaign.useVoucherCombineInvoice,
+      isGlobal: campaign.isGlobal,
+      forAllCusGroup: campaign.forAllCusGroup,
+      forAllUser: campaign.forAllUser,
+      prereqCategoryIds: campaign.prereqCategoryIds,
+      prereqProductIds: campaign.prereqProductIds,
+      prereqPrice: Number(campaign.prereqPrice),
+      warehouseIds: (campaign.warehouses || []).map((w) => w.id),
+      userIds: (campaign.users || []).map((u) => u.id),
+      customerGroupIds: (campaign.customerGroups || []).map((g) => g.id),
+      usedCount: campaign.usedCount,
+      voucherCount: campaign._count?.vouchers ?? 0,
+      createdAt: campaign.createdAt,
+      updatedAt: campaign.updatedAt,
+    };
+  }
+}
+
+export class PaginatedVoucherCampaignResponseDto {
+  @ApiProperty({ type: [VoucherCampaignResponseDto] })
+  data: VoucherCampaignResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class VoucherResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã' })
+  code: string;
+
+  @ApiProperty({ enum: VoucherStatus, description: 'Trạng thái voucher' })
+  status: VoucherStatus;
+
+  @ApiProperty({ description: 'Ngày phát hành' })
+  releaseDate: Date;
+
+  @ApiProperty({ description: 'Ngày hết hạn' })
+  expireDate: Date;
+
+  @ApiPropertyOptional({ description: 'Ngày sử dụng' })
+  usedDate?: Date | null;
+
+  @ApiPropertyOptional({
+    enum: VoucherPartnerType,
+    description: 'Loại đối tác',
+  })
+  partnerType?: VoucherPartnerType | null;
+
+  @ApiPropertyOptional({ description: 'ID đối tác' })
+  partnerId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Tên đối tác' })
+  partnerName?: string | null;
+
+  @ApiPropertyOptional({ description: 'Đơn hàng đã sử dụng' })
+  orderId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Số tiền đã giảm' })
+  appliedDiscount?: number | null;
+
+  static fromVoucher(voucher: Voucher): VoucherResponseDto {
+    return {
+      id: voucher.id,
+      code: voucher.code,
+      status: voucher.status,
+      releaseDate: voucher.releaseDate,
+      expireDate: voucher.expireDate,
+      usedDate: voucher.usedDate,
+      partnerType: voucher.partnerType,
+      partnerId: voucher.partnerId,
+      partnerName: voucher.partnerName,
+      orderId: voucher.orderId,
+      appliedDiscount:
+        voucher.appliedDiscount === null
+          ? null
+          : Number(voucher.appliedDiscount),
+    };
+  }
+}
+
+export class PaginatedVoucherResponseDto {
+  @ApiProperty({ type: [VoucherResponseDto] })
+  data: VoucherResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class VoucherBatchResultDto {
+  @ApiProperty({ description: 'Số voucher đã xử lý' })
+  count: number;
+
+  @ApiProperty({ type: [String], description: 'Danh sách mã voucher' })
+  codes: string[];
+}
+
+export class VoucherCampaignStatsDto {
+  @ApiProperty({ description: 'ID chương trình' })
+  campaignId: string;
+
+  @ApiProperty({ description: 'Số lượt sử dụng tối đa' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Tổng số mã đã tạo' })
+  total: number;
+
+  @ApiProperty({ description: 'Chưa phát hành' })
+  unused: number;
+
+  @ApiProperty({ description: 'Đã phát hành, còn hiệu lực' })
+  released: number;
+
+  @ApiProperty({ description: 'Đã sử dụng' })
+  used: number;
+
+  @ApiProperty({ description: 'Hết hạn' })
+  expired: number;
+
+  @ApiProperty({ description: 'Đã hủy' })
+  cancelled: number;
+
+  @ApiProperty({ description: 'Số lượt còn lại' })
+  remaining: number;
+
+  @ApiProperty({ description: 'Tổng số tiền đã giảm' })
+  totalDiscount: number;
+}
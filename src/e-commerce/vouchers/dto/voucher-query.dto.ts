@@ -0,0 +1,72 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { VoucherPartnerType, VoucherStatus } from '@prisma/client';
+
+export class VoucherCampaignQueryDto {
+  @ApiPropertyOptional({ description: 'Tìm theo mã hoặc tên chương trình' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo trạng thái hoạt động' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class VoucherQueryDto {
+  @ApiPropertyOptional({ enum: VoucherStatus })
+  @IsOptional()
+  @IsEnum(VoucherStatus)
+  status?: VoucherStatus;
+
+  @ApiPropertyOptional({ enum: VoucherPartnerType })
+  @IsOptional()
+  @IsEnum(VoucherPartnerType)
+  partnerType?: VoucherPartnerType;
+
+  @ApiPropertyOptional({ description: 'ID đối tác' })
+  @IsOptional()
+  @IsString()
+  partnerId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
+}
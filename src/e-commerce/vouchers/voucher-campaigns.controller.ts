@@ -0,0 +1,176 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { VoucherCampaignsService } from './voucher-campaigns.service';
+import { CreateVoucherCampaignDto } from './dto/create-voucher-campaign.dto';
+import { UpdateVoucherCampaignDto } from './dto/update-voucher-campaign.dto';
+import { GenerateVouchersDto } from './dto/generate-vouchers.dto';
+import { AssignVouchersDto } from './dto/assign-vouchers.dto';
+import {
+  VoucherCampaignQueryDto,
+  VoucherQueryDto,
+} from './dto/voucher-query.dto';
+import {
+  PaginatedVoucherCampaignResponseDto,
+  PaginatedVoucherResponseDto,
+  VoucherBatchResultDto,
+  VoucherCampaignResponseDto,
+  VoucherCampaignStatsDto,
+} from './dto/voucher-campaign-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Voucher Campaigns')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('voucher-campaigns')
+export class VoucherCampaignsController {
+  constructor(
+    private readonly voucherCampaignsService: VoucherCampaignsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List voucher campaigns' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: PaginatedVoucherCampaignResponseDto,
+  })
+  findAll(
+    @Query() query: VoucherCampaignQueryDto,
+  ): Promise<PaginatedVoucherCampaignResponseDto> {
+    return this.voucherCampaignsService.findAll(query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a voucher campaign' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    type: VoucherCampaignResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Campaign code already exists',
+  })
+  create(
+    @Body() dto: CreateVoucherCampaignDto,
+  ): Promise<VoucherCampaignResponseDto> {
+    return this.voucherCampaignsService.create(dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a voucher campaign' })
+  @ApiResponse({ status: HttpStatus.OK, type: VoucherCampaignResponseDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Campaign not found',
+  })
+  findOne(@Param('id') id: string): Promise<VoucherCampaignResponseDto> {
+    return this.voucherCampaignsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a voucher campaign' })
+  @ApiResponse({ status: HttpStatus.OK, type: VoucherCampaignResponseDto })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateVoucherCampaignDto,
+  ): Promise<VoucherCampaignResponseDto> {
+    return this.voucherCampaignsService.update(id, dto);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({
+    summary: 'Archive a voucher campaign',
+    description:
+      'Deactivate the campaign and cancel voucher codes that were never issued',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: VoucherCampaignResponseDto })
+  archive(@Param('id') id: string): Promise<VoucherCampaignResponseDto> {
+    return this.voucherCampaignsService.archive(id);
+  }
+
+  @Post(':id/vouchers/generate')
+  @ApiOperation({
+    summary: 'Bulk generate voucher codes',
+    description:
+      'Generate unique codes for the campaign, up to the campaign quantity',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: VoucherBatchResultDto })
+  generateVouchers(
+    @Param('id') id: string,
+    @Body() dto: GenerateVouchersDto,
+  ): Promise<VoucherBatchResultDto> {
+    return this.voucherCampaignsService.generateVouchers(id, dto);
+  }
+
+  @Post(':id/vouchers/assign')
+  @ApiOperation({
+    summary: 'Assign vouchers to a partner',
+    description:
+      'Issue specific vouchers, or the next N unissued ones, to a partner',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: VoucherBatchResultDto })
+  assignVouchers(
+    @Param('id') id: string,
+    @Body() dto: AssignVouchersDto,
+  ): Promise<VoucherBatchResultDto> {
+    return this.voucherCampaignsService.assignVouchers(id, dto);
+  }
+
+  @Get(':id/vouchers')
+  @ApiOperation({ summary: 'List vouchers of a campaign' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedVoucherResponseDto })
+  listVouchers(
+    @Param('id') id: string,
+    @Query() query: VoucherQueryDto,
+  ): Promise<PaginatedVoucherResponseDto> {
+    return this.voucherCampaignsService.listVouchers(id, query);
+  }
+
+  @Get(':id/vouchers/export')
+  @ApiOperation({ summary: 'Export voucher codes as CSV' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: HttpStatus.OK, description: 'CSV file' })
+  async exportVouchers(
+    @Param('id') id: string,
+    @Query() query: VoucherQueryDto,
+  ): Promise<StreamableFile> {
+    const { filename, content } =
+      await this.voucherCampaignsService.exportVouchersCsv(id, query);
+
+    return new StreamableFile(Buffer.from(content, 'utf-8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
+  @Get(':id/stats')
+  @ApiOperation({
+    summary: 'Get redemption statistics of a campaign',
+    description:
+      'Released/used/expired counts and total discount given by the campaign',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: VoucherCampaignStatsDto })
+  getStats(@Param('id') id: string): Promise<VoucherCampaignStatsDto> {
+    return this.voucherCampaignsService.getStats(id);
+  }
+}
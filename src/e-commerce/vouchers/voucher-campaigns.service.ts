@@ -0,0 +1,525 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, VoucherCampaign, VoucherStatus } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreateVoucherCampaignDto } from './dto/create-voucher-campaign.dto';
+import { UpdateVoucherCampaignDto } from './dto/update-voucher-campaign.dto';
+import { GenerateVouchersDto } from './dto/generate-vouchers.dto';
+import { AssignVouchersDto } from './dto/assign-vouchers.dto';
+import {
+  VoucherCampaignQueryDto,
+  VoucherQueryDto,
+} from './dto/voucher-query.dto';
+import {
+  PaginatedVoucherCampaignResponseDto,
+  PaginatedVoucherResponseDto,
+  VoucherBatchResultDto,
+  VoucherCampaignResponseDto,
+  VoucherCampaignStatsDto,
+  VoucherResponseDto,
+} from './dto/voucher-campaign-response.dto';
+import { VoucherCodeHelper } from './voucher-code.helper';
+
+const CAMPAIGN_INCLUDE = {
+  warehouses: { select: { id: true } },
+  users: { select: { id: true } },
+  customerGroups: { select: { id: true } },
+  _count: { select: { vouchers: true } },
+} satisfies Prisma.VoucherCampaignInclude;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_GENERATION_ROUNDS = 5;
+
+@Injectable()
+export class VoucherCampaignsService {
+  private readonly logger = new Logger(VoucherCampaignsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    query: VoucherCampaignQueryDto,
+  ): Promise<PaginatedVoucherCampaignResponseDto> {
+    const { page = 1, limit = 20, q, isActive } = query;
+
+    const where: Prisma.VoucherCampaignWhereInput = {
+      ...(isActive !== undefined && { isActive }),
+      ...(q && {
+        OR: [
+          { code: { contains: q, mode: 'insensitive' } },
+          { name: { contains: q, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [campaigns, total] = await Promise.all([
+      this.prisma.voucherCampaign.findMany({
+        where,
+        include: CAMPAIGN_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.voucherCampaign.count({ where }),
+    ]);
+
+    return {
+      data: campaigns.map((campaign) =>
+        VoucherCampaignResponseDto.fromCampaign(campaign),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<VoucherCampaignResponseDto> {
+    const campaign = await this.prisma.voucherCampaign.findUnique({
+      where: { id },
+      include: CAMPAIGN_INCLUDE,
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Chương trình voucher không tồn tại');
+    }
+
+    return VoucherCampaignResponseDto.fromCampaign(campaign);
+  }
+
+  async create(
+    dto: CreateVoucherCampaignDto,
+  ): Promise<VoucherCampaignResponseDto> {
+    this.validateCampaignRules(dto);
+
+    const existing = await this.prisma.voucherCampaign.findUnique({
+      where: { code: dto.code },
+    });
+    if (existing) {
+      throw new ConflictException(`Mã chương trình ${dto.code} đã tồn tại`);
+    }
+
+    const {
+      warehouseIds = [],
+      userIds = [],
+      customerGroupIds = [],
+      ...data
+    } = dto;
+
+    const campaign = await this.prisma.voucherCampaign.create({
+      data: {
+        code: data.code,
+        name: data.name,
+        description: data.description,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        expireTime: data.expireTime ?? 0,
+        quantity: data.quantity,
+        discount: data.discount ?? 0,
+        discountRatio: data.discountRatio ?? 0,
+        useVoucherCombineInvoice: data.useVoucherCombineInvoice ?? false,
+        isGlobal: data.isGlobal ?? false,
+        forAllCusGroup: data.forAllCusGroup ?? false,
+        forAllUser: data.forAllUser ?? false,
+        prereqCategoryIds: data.prereqCategoryIds ?? [],
+        prereqProductIds: data.prereqProductIds ?? [],
+        prereqPrice: data.prereqPrice ?? 0,
+        warehouses: { connect: warehouseIds.map((id) => ({ id })) },
+        users: { connect: userIds.map((id) => ({ id })) },
+        customerGroups: { connect: customerGroupIds.map((id) => ({ id })) },
+      },
+      include: CAMPAIGN_INCLUDE,
+    });
+
+    this.logger.log(`Voucher campaign ${campaign.code} created`);
+
+    return VoucherCampaignResponseDto.fromCampaign(campaign);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateVoucherCampaignDto,
+  ): Promise<VoucherCampaignResponseDto> {
+    const campaign = await this.getCampaignOrThrow(id);
+
+    this.validateCampaignRules({
+      startDate: dto.startDate ?? campaign.startDate,
+      endDate: dto.endDate ?? campaign.endDate,
+      discount: dto.discount ?? Number(campaign.discount),
+      discountRatio: dto.discountRatio ?? Number(campaign.discountRatio),
+    });
+
+    if (dto.quantity !== undefined) {
+      const generated = await this.prisma.voucher.count({
+        where: { voucherCampaignId: id },
+      });
+      if (dto.quantity < generated) {
+        throw new BadRequestException(
+          `Số lượng không được nhỏ hơn số mã đã tạo (${generated})`,
+        );
+      }
+    }
+
+    const { warehouseIds, userIds, customerGroupIds, ...data } = dto;
+
+    const updated = await this.prisma.voucherCampaign.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(warehouseIds && {
+          warehouses: { set: warehouseIds.map((id) => ({ id })) },
+        }),
+        ...(userIds && {
+          users: { set: userIds.map((id) => ({ id })) },
+        }),
+        ...(customerGroupIds && {
+          customerGroups: { set: customerGroupIds.map((id) => ({ id })) },
+        }),
+      },
+      include: CAMPAIGN_INCLUDE,
+    });
+
+    return VoucherCampaignResponseDto.fromCampaign(updated);
+  }
+
+  /**
+   * Archive a campaign: it stops accepting redemptions and
+   * codes that were never issued are cancelled
+   */
+  async archive(id: string): Promise<VoucherCampaignResponseDto> {
+    await this.getCampaignOrThrow(id);
+
+    const [, cancelled, campaign] = await this.prisma.$transaction([
+      this.prisma.voucherCampaign.update({
+        where: { id },
+        data: { isActive: false },
+      }),
+      this.prisma.voucher.updateMany({
+        where: { voucherCampaignId: id, status: VoucherStatus.unused },
+        data: { status: VoucherStatus.cancelled },
+      }),
+      this.prisma.voucherCampaign.findUniqueOrThrow({
+        where: { id },
+        include: CAMPAIGN_INCLUDE,
+      }),
+    ]);
+
+    this.logger.log(
+      `Voucher campaign ${campaign.code} archived, ${cancelled.count} unissued code(s) cancelled`,
+    );
+
+    return VoucherCampaignResponseDto.fromCampaign(campaign);
+  }
+
+  /**
+   * Bulk generate unique voucher codes for a campaign
+   */
+  async generateVouchers(
+    id: string,
+    dto: GenerateVouchersDto,
+  ): Promise<VoucherBatchResultDto> {
+    const campaign = await this.getCampaignOrThrow(id);
+
+    if (!campaign.isActive) {
+      throw new BadRequestException('Chương trình voucher đã ngừng hoạt động');
+    }
+
+    const generated = await this.prisma.voucher.count({
+      where: { voucherCampaignId: id },
+    });
+    if (generated + dto.count > campaign.quantity) {
+      throw new BadRequestException(
+        `Chương trình chỉ còn có thể tạo thêm ${campaign.quantity - generated} mã`,
+      );
+    }
+
+    const prefix = dto.prefix ?? campaign.code;
+    const status = dto.release ? VoucherStatus.released : VoucherStatus.unused;
+    const window = dto.release
+      ? this.getReleaseWindow(campaign)
+      : { releaseDate: campaign.startDate, expireDate: campaign.endDate };
+
+    const created: string[] = [];
+    for (
+      let round = 0;
+      round < MAX_GENERATION_ROUNDS && created.length < dto.count;
+      round++
+    ) {
+      const candidates = VoucherCodeHelper.generateUniqueCodes(
+        dto.count - created.length,
+        prefix,
+        dto.length,
+        new Set(created),
+      );
+
+      const taken = await this.prisma.voucher.findMany({
+        where: { code: { in: candidates } },
+        select: { code: true },
+      });
+      const takenCodes = new Set(taken.map((voucher) => voucher.code));
+      const codes = candidates.filter((code) => !takenCodes.has(code));
+
+      const result = await this.prisma.voucher.createMany({
+        data: codes.map((code) => ({
+          code,
+          status,
+          discount: 0,
+          discountRatio: 0,
+          voucherCampaignId: id,
+          ...window,
+        })),
+        skipDuplicates: true,
+      });
+
+      if (result.count === codes.length) {
+        created.push(...codes);
+      } else {
+        // A concurrent insert took some codes; keep only the ones we own
+        const owned = await this.prisma.voucher.findMany({
+          where: { code: { in: codes }, voucherCampaignId: id },
+          select: { code: true },
+        });
+        created.push(...owned.map((voucher) => voucher.code));
+      }
+    }
+
+    if (created.length < dto.count) {
+      throw new ConflictException(
+        `Chỉ tạo được ${created.length}/${dto.count} mã voucher, vui lòng thử lại`,
+      );
+    }
+
+    this.logger.log(
+      `Generated ${created.length} voucher(s) for campaign ${campaign.code}`,
+    );
+
+    return { count: created.length, codes: created };
+  }
+
+  /**
+   * Issue vouchers to a partner (customer, collaborator, ...)
+   */
+  async assignVouchers(
+    id: string,
+    dto: AssignVouchersDto,
+  ): Promise<VoucherBatchResultDto> {
+    const campaign = await this.getCampaignOrThrow(id);
+
+    if (!campaign.isActive) {
+      throw new BadRequestException('Chương trình voucher đã ngừng hoạt động');
+    }
+
+    const assignable: Prisma.VoucherWhereInput = {
+      voucherCampaignId: id,
+      OR: [
+        { status: VoucherStatus.unused },
+        { status: VoucherStatus.released, partnerId: null },
+      ],
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const vouchers = await tx.voucher.findMany({
+        where: {
+          ...assignable,
+          ...(dto.voucherIds && { id: { in: dto.voucherIds } }),
+        },
+        orderBy: { createdAt: 'asc' },
+        take: dto.voucherIds ? undefined : dto.quantity,
+        select: { id: true, code: true },
+      });
+
+      const requested = dto.voucherIds?.length ?? dto.quantity ?? 0;
+      if (vouchers.length < requested) {
+        throw new BadRequestException(
+          `Chỉ còn ${vouchers.length} voucher có thể gán trong chương trình`,
+        );
+      }
+
+      const result = await tx.voucher.updateMany({
+        where: { ...assignable, id: { in: vouchers.map((v) => v.id) } },
+        data: {
+          status: VoucherStatus.released,
+          partnerType: dto.partnerType,
+          partnerId: dto.partnerId,
+          partnerName: dto.partnerName,
+          ...this.getReleaseWindow(campaign),
+        },
+      });
+
+      if (result.count !== vouchers.length) {
+        throw new ConflictException(
+          'Một số voucher vừa được gán cho đối tác khác, vui lòng thử lại',
+        );
+      }
+
+      this.logger.log(
+        `Assigned ${result.count} voucher(s) of campaign ${campaign.code} to ${dto.partnerType} ${dto.partnerId}`,
+      );
+
+      return { count: result.count, codes: vouchers.map((v) => v.code) };
+    });
+  }
+
+  async listVouchers(
+    id: string,
+    query: VoucherQueryDto,
+  ): Promise<PaginatedVoucherResponseDto> {
+    await this.getCampaignOrThrow(id);
+
+    const { page = 1, limit = 50 } = query;
+    const where = this.buildVoucherWhere(id, query);
+
+    const [vouchers, total] = await Promise.all([
+      this.prisma.voucher.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.voucher.count({ where }),
+    ]);
+
+    return {
+      data: vouchers.map((voucher) => VoucherResponseDto.fromVoucher(voucher)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Export campaign vouchers as CSV
+   */
+  async exportVouchersCsv(
+    id: string,
+    query: VoucherQueryDto,
+  ): Promise<{ filename: string; content: string }> {
+    const campaign = await this.getCampaignOrThrow(id);
+
+    const vouchers = await this.prisma.voucher.findMany({
+      where: this.buildVoucherWhere(id, query),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      filename: `vouchers-${campaign.code}.csv`,
+      content: VoucherCodeHelper.toCsv(vouchers),
+    };
+  }
+
+  /**
+   * Redemption statistics of a campaign
+   */
+  async getStats(id: string): Promise<VoucherCampaignStatsDto> {
+    const campaign = await this.getCampaignOrThrow(id);
+    const now = new Date();
+
+    const [grouped, lapsed, discount] = await Promise.all([
+      this.prisma.voucher.groupBy({
+        by: ['status'],
+        where: { voucherCampaignId: id },
+        _count: { _all: true },
+      }),
+      // Released codes past their expiry date are reported as expired
+      this.prisma.voucher.count({
+        where: {
+          voucherCampaignId: id,
+          status: VoucherStatus.released,
+          expireDate: { lt: now },
+        },
+      }),
+      this.prisma.voucher.aggregate({
+        where: { voucherCampaignId: id, status: VoucherStatus.used },
+        _sum: { appliedDiscount: true },
+      }),
+    ]);
+
+    const counts = Object.fromEntries(
+      grouped.map((group) => [group.status, group._count._all]),
+    ) as Partial<Record<VoucherStatus, number>>;
+
+    const total = grouped.reduce((sum, group) => sum + group._count._all, 0);
+    const used = counts.used ?? 0;
+
+    return {
+      campaignId: id,
+      quantity: campaign.quantity,
+      total,
+      unused: counts.unused ?? 0,
+      released: (counts.released ?? 0) - lapsed,
+      used,
+      expired: (counts.expired ?? 0) + lapsed,
+      cancelled: counts.cancelled ?? 0,
+      remaining: Math.max(campaign.quantity - used, 0),
+      totalDiscount: Number(discount._sum.appliedDiscount ?? 0),
+    };
+  }
+
+  private async getCampaignOrThrow(id: string): Promise<VoucherCampaign> {
+    const campaign = await this.prisma.voucherCampaign.findUnique({
+      where: { id },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Chương trình voucher không tồn tại');
+    }
+
+    return campaign;
+  }
+
+  private validateCampaignRules(rules: {
+    startDate: Date;
+    endDate: Date;
+    discount?: number;
+    discountRatio?: number;
+  }): void {
+    if (rules.endDate <= rules.startDate) {
+      throw new BadRequestException('Ngày kết thúc phải sau ngày bắt đầu');
+    }
+
+    const hasAmount = (rules.discount ?? 0) > 0;
+    const hasRatio = (rules.discountRatio ?? 0) > 0;
+    if (hasAmount === hasRatio) {
+      throw new BadRequestException(
+        'Chương trình phải có đúng một hình thức giảm giá: số tiền hoặc phần trăm',
+      );
+    }
+  }
+
+  /**
+   * Validity window for a voucher issued now; expireTime is in days
+   */
+  private getReleaseWindow(campaign: VoucherCampaign): {
+    releaseDate: Date;
+    expireDate: Date;
+  } {
+    const now = new Date();
+    const releaseDate = campaign.startDate > now ? campaign.startDate : now;
+    const expireDate =
+      campaign.expireTime > 0
+        ? new Date(
+            Math.min(
+              releaseDate.getTime() + campaign.expireTime * DAY_MS,
+              campaign.endDate.getTime(),
+            ),
+          )
+        : campaign.endDate;
+
+    return { releaseDate, expireDate };
+  }
+
+  private buildVoucherWhere(
+    campaignId: string,
+    query: VoucherQueryDto,
+  ): Prisma.VoucherWhereInput {
+    return {
+      voucherCampaignId: campaignId,
+      ...(query.status && { status: query.status }),
+      ...(query.partnerType && { partnerType: query.partnerType }),
+      ...(query.partnerId && { partnerId: query.partnerId }),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { Voucher, VoucherPartnerType, VoucherStatus } from '@prisma/client';
+import { VoucherCodeHelper } from './voucher-code.helper';
+
+describe('VoucherCodeHelper', () => {
+  describe('generateUniqueCodes', () => {
+    it('should generate the requested number of distinct prefixed codes', () => {
+      const codes = VoucherCodeHelper.generateUniqueCodes(200, 'TET', 8);
+
+      expect(codes).toHaveLength(200);
+      expect(new Set(codes).size).toBe(200);
+      for (const code of codes) {
+        expect(code).toMatch(/^TET-[2-9A-HJKMNP-Z]{8}$/);
+      }
+    });
+
+    it('should skip codes that are already taken', () => {
+      const taken = new Set(VoucherCodeHelper.generateUniqueCodes(50, 'X', 6));
+      const codes = VoucherCodeHelper.generateUniqueCodes(50, 'X', 6, taken);
+
+      expect(codes.some((code) => taken.has(code))).toBe(false);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should export vouchers with escaped values', () => {
+      const voucher = {
+        code: 'TET-ABCDEFGH',
+        status: VoucherStatus.released,
+        releaseDate: new Date('2026-01-20T00:00:00.000Z'),
+        expireDate: new Date('2026-02-20T00:00:00.000Z'),
+        usedDate: null,
+        partnerType: VoucherPartnerType.customer,
+        partnerId: 'customer-1',
+        partnerName: 'Nguyễn "A", HN',
+        orderId: null,
+        appliedDiscount: null,
+      } as unknown as Voucher;
+
+      const csv = VoucherCodeHelper.toCsv([voucher]).split('\r\n');
+
+      expect(csv[0]).toBe(
+        'code,status,release_date,expire_date,used_date,partner_type,partner_id,partner_name,order_id,applied_discount',
+      );
+      expect(csv[1]).toBe(
+        'TET-ABCDEFGH,released,2026-01-20T00:00:00.000Z,2026-02-20T00:00:00.000Z,,customer,customer-1,"Nguyễn ""A"", HN",,',
+      );
+    });
+
+    it('should neutralise spreadsheet formulas', () => {
+      const voucher = {
+        code: 'ABC',
+        status: VoucherStatus.released,
+        partnerName: '=HYPERLINK("x")',
+      } as unknown as Voucher;
+
+      expect(VoucherCodeHelper.toCsv([voucher])).toContain(
+        `"'=HYPERLINK(""x"")"`,
+      );
+    });
+  });
+});
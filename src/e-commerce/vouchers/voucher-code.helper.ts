@@ -0,0 +1,87 @@
+import { randomInt } from 'crypto';
+import { Voucher } from '@prisma/client';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes can be typed from print
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+const CSV_COLUMNS: Array<{ header: string; value: (v: Voucher) => unknown }> = [
+  { header: 'code', value: (v) => v.code },
+  { header: 'status', value: (v) => v.status },
+  { header: 'release_date', value: (v) => v.releaseDate?.toISOString() },
+  { header: 'expire_date', value: (v) => v.expireDate?.toISOString() },
+  { header: 'used_date', value: (v) => v.usedDate?.toISOString() },
+  { header: 'partner_type', value: (v) => v.partnerType },
+  { header: 'partner_id', value: (v) => v.partnerId },
+  { header: 'partner_name', value: (v) => v.partnerName },
+  { header: 'order_id', value: (v) => v.orderId },
+  { header: 'applied_discount', value: (v) => v.appliedDiscount?.toString() },
+];
+
+export class VoucherCodeHelper {
+  /**
+   * Generate a random voucher code, e.g. TET-7KQ2M9XD
+   */
+  static generateCode(prefix: string, length = 8): string {
+    let random = '';
+    for (let i = 0; i < length; i++) {
+      random += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return prefix ? `${prefix}-${random}` : random;
+  }
+
+  /**
+   * Generate a batch of codes unique within the batch and not in `taken`
+   */
+  static generateUniqueCodes(
+    count: number,
+    prefix: string,
+    length = 8,
+    taken: Set<string> = new Set(),
+  ): string[] {
+    const codes = new Set<string>();
+    const maxAttempts = count * 20;
+    let attempts = 0;
+
+    while (codes.size < count) {
+      if (++attempts > maxAttempts) {
+        throw new Error(
+          `Unable to generate ${count} unique voucher codes with length ${length}`,
+        );
+      }
+
+      const code = this.generateCode(prefix, length);
+      if (!taken.has(code)) {
+        codes.add(code);
+      }
+    }
+
+    return [...codes];
+  }
+
+  /**
+   * Build a CSV export of vouchers (RFC 4180 quoting)
+   */
+  static toCsv(vouchers: Voucher[]): string {
+    const lines = [CSV_COLUMNS.map((column) => column.header).join(',')];
+
+    for (const voucher of vouchers) {
+      lines.push(
+        CSV_COLUMNS.map((column) =>
+          this.escapeCsvValue(column.value(voucher)),
+        ).join(','),
+      );
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private static escapeCsvValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    let text = String(value);
+    // Keep spreadsheet apps from evaluating partner names as formulas
+    if (/^[=+\-@]/.test(text)) text = `'${text}`;
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
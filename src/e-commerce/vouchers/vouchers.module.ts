@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { VoucherCampaignsController } from './voucher-campaigns.controller';
+import { VoucherCampaignsService } from './voucher-campaigns.service';
+
+@Module({
+  controllers: [VoucherCampaignsController],
+  providers: [VoucherCampaignsService, PrismaService],
+  exports: [VoucherCampaignsService],
+})
+export class VouchersModule {}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateWalletBankAccountDto {
+  @ApiProperty({ description: 'Tên ngân hàng', example: 'Vietcombank' })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @IsNotEmpty({ message: 'Tên ngân hàng không được để trống' })
+  @MaxLength(100)
+  bankName: string;
+
+  @ApiProperty({ description: 'Số tài khoản', example: '0123456789' })
+  @Transform(({ value }) => value?.replace(/\s+/g, ''))
+  @IsString()
+  @Matches(/^[0-9]{6,20}$/, { message: 'Số tài khoản không hợp lệ' })
+  accountNumber: string;
+
+  @ApiProperty({ description: 'Tên chủ tài khoản', example: 'NGUYEN VAN A' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  @IsString()
+  @IsNotEmpty({ message: 'Tên chủ tài khoản không được để trống' })
+  @MaxLength(100)
+  accountHolder: string;
+}
@@ -0,0 +1,96 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PayoutStatus } from '@prisma/client';
+import { MIN_PAYOUT_AMOUNT } from '../wallets.constants';
+
+export class RequestPayoutDto {
+  @ApiProperty({ description: 'Số tiền rút (VND)', example: 500000 })
+  @IsNumber()
+  @Min(MIN_PAYOUT_AMOUNT, {
+    message: `Số tiền rút tối thiểu là ${MIN_PAYOUT_AMOUNT} VND`,
+  })
+  amount: number;
+
+  @ApiProperty({ description: 'Tài khoản ngân hàng đã xác minh' })
+  @IsString()
+  @IsNotEmpty()
+  bankAccountId: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class RejectPayoutDto {
+  @ApiProperty({ description: 'Lý do' })
+  @IsString()
+  @IsNotEmpty({ message: 'Lý do không được để trống' })
+  reason: string;
+}
+
+export class MarkPayoutPaidDto {
+  @ApiPropertyOptional({ description: 'Mã giao dịch ngân hàng' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+}
+
+export class CreatePayoutBatchDto {
+  @ApiProperty({ type: [String], description: 'Các yêu cầu rút tiền đã duyệt' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  payoutIds: string[];
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class PayoutQueryDto {
+  @ApiPropertyOptional({ enum: PayoutStatus })
+  @IsOptional()
+  @IsEnum(PayoutStatus)
+  status?: PayoutStatus;
+
+  @ApiPropertyOptional({ description: 'Lọc theo lô chi trả' })
+  @IsOptional()
+  @IsString()
+  batchId?: string;
+
+  @ApiPropertyOptional({ description: 'Lọc theo người dùng' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
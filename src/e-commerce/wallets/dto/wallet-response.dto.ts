@@ -0,0 +1,245 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  BankAccount,
+  Payout,
+  PayoutBatch,
+  PayoutStatus,
+  WalletLedger,
+} from '@prisma/client';
+
+export class WalletResponseDto {
+  @ApiPropertyOptional({ description: 'ID ví (null: chưa có giao dịch)' })
+  id: string | null;
+
+  @ApiProperty({ description: 'Số dư khả dụng' })
+  balance: number;
+
+  @ApiProperty({ description: 'Số tiền đang chờ chi trả' })
+  pendingPayoutAmount: number;
+
+  @ApiProperty({ description: 'Tiền tệ', example: 'VND' })
+  currency: string;
+}
+
+export class WalletLedgerEntryDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã giao dịch (chung cho hai bút toán)' })
+  transactionId: string;
+
+  @ApiProperty({ description: 'Số tiền (+ ghi có / - ghi nợ)' })
+  amount: number;
+
+  @ApiProperty({ description: 'Số dư sau giao dịch' })
+  balanceAfter: number;
+
+  @ApiProperty({ description: 'Lý do', example: 'affiliate:F1' })
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Hoa hồng hoặc yêu cầu rút tiền' })
+  refId: string | null;
+
+  @ApiProperty({ description: 'Thời điểm' })
+  createdAt: Date;
+
+  static fromEntry(entry: WalletLedger): WalletLedgerEntryDto {
+    return {
+      id: entry.id,
+      transactionId: entry.transactionId,
+      amount: Number(entry.amount),
+      balanceAfter: Number(entry.balanceAfter),
+      reason: entry.reason,
+      refId: entry.refId,
+      createdAt: entry.createdAt,
+    };
+  }
+}
+
+export class PaginatedWalletLedgerResponseDto {
+  @ApiProperty({ type: [WalletLedgerEntryDto] })
+  data: WalletLedgerEntryDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class WalletBankAccountResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Tên ngân hàng' })
+  bankName: string;
+
+  @ApiProperty({ description: 'Số tài khoản' })
+  accountNumber: string;
+
+  @ApiPropertyOptional({ description: 'Tên chủ tài khoản' })
+  accountHolder: string | null;
+
+  @ApiProperty({ description: 'Đã xác minh' })
+  isVerified: boolean;
+
+  @ApiPropertyOptional({ description: 'Thời điểm xác minh' })
+  verifiedAt: Date | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromBankAccount(account: BankAccount): WalletBankAccountResponseDto {
+    return {
+      id: account.id,
+      bankName: account.bankName,
+      accountNumber: account.accountNumber,
+      accountHolder: account.accountHolder,
+      isVerified: account.isVerified,
+      verifiedAt: account.verifiedAt,
+      createdAt: account.createdAt,
+    };
+  }
+}
+
+export class PayoutResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Người yêu cầu' })
+  userId: string;
+
+  @ApiProperty({ description: 'Số tiền' })
+  amount: number;
+
+  @ApiProperty({ description: 'Tiền tệ' })
+  currency: string;
+
+  @ApiProperty({ enum: PayoutStatus, description: 'Trạng thái' })
+  status: PayoutStatus;
+
+  @ApiPropertyOptional({ type: WalletBankAccountResponseDto })
+  bankAccount: WalletBankAccountResponseDto | null;
+
+  @ApiPropertyOptional({ description: 'Lô chi trả' })
+  batchId: string | null;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  note: string | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm duyệt' })
+  approvedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Thời điểm chuyển khoản xong' })
+  processedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Mã giao dịch ngân hàng' })
+  reference: string | null;
+
+  @ApiPropertyOptional({ description: 'Lý do thất bại/từ chối' })
+  failureReason: string | null;
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromPayout(
+    payout: Payout & { bankAccount?: BankAccount | null },
+  ): PayoutResponseDto {
+    return {
+      id: payout.id,
+      userId: payout.userId,
+      amount: Number(payout.amount),
+      currency: payout.currency,
+      status: payout.status,
+      bankAccount: payout.bankAccount
+        ? WalletBankAccountResponseDto.fromBankAccount(payout.bankAccount)
+        : null,
+      batchId: payout.batchId,
+      note: payout.note,
+      approvedAt: payout.approvedAt,
+      processedAt: payout.processedAt,
+      reference: payout.reference,
+      failureReason: payout.failureReason,
+      createdAt: payout.createdAt,
+    };
+  }
+}
+
+export class PaginatedPayoutResponseDto {
+  @ApiProperty({ type: [PayoutResponseDto] })
+  data: PayoutResponseDto[];
+
+  @ApiProperty({ description: 'Tổng số bản ghi' })
+  total: number;
+
+  @ApiProperty({ description: 'Trang hiện tại' })
+  page: number;
+
+  @ApiProperty({ description: 'Số bản ghi mỗi trang' })
+  limit: number;
+}
+
+export class PayoutBatchResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Mã lô' })
+  code: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú' })
+  note: string | null;
+
+  @ApiProperty({ description: 'Tổng số tiền' })
+  totalAmount: number;
+
+  @ApiProperty({ type: [PayoutResponseDto] })
+  payouts: PayoutResponseDto[];
+
+  @ApiProperty({ description: 'Ngày tạo' })
+  createdAt: Date;
+
+  static fromBatch(
+    batch: PayoutBatch & {
+      payouts: (Payout & { bankAccount?: BankAccount | null })[];
+    },
+  ): PayoutBatchResponseDto {
+    return {
+      id: batch.id,
+      code: batch.code,
+      note: batch.note,
+      totalAmount: batch.payouts.reduce((sum, p) => sum + Number(p.amount), 0),
+      payouts: batch.payouts.map((p) => PayoutResponseDto.fromPayout(p)),
+      createdAt: batch.createdAt,
+    };
+  }
+}
+
+export class WalletReconciliationResponseDto {
+  @ApiProperty({ description: 'Số ví đã kiểm tra' })
+  walletCount: number;
+
+  @ApiProperty({
+    description: 'Ví có số dư khác tổng bút toán',
+    example: [{ walletId: 'w1', balance: 100, ledgerTotal: 90 }],
+  })
+  mismatchedWallets: {
+    walletId: string;
+    balance: number;
+    ledgerTotal: number;
+  }[];
+
+  @ApiProperty({
+    description: 'Giao dịch có tổng bút toán khác 0',
+    example: [{ transactionId: 't1', total: 10 }],
+  })
+  unbalancedTransactions: { transactionId: string; total: number }[];
+
+  @ApiProperty({ description: 'Tổng số dư mọi ví (phải bằng 0)' })
+  totalBalance: number;
+
+  @ApiProperty({ description: 'Sổ cái khớp' })
+  isBalanced: boolean;
+}
@@ -0,0 +1,159 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { PayoutsService } from './payouts.service';
+import { WalletsService } from './wallets.service';
+import {
+  CreatePayoutBatchDto,
+  MarkPayoutPaidDto,
+  PayoutQueryDto,
+  RejectPayoutDto,
+} from './dto/payout.dto';
+import {
+  PaginatedPayoutResponseDto,
+  PayoutBatchResponseDto,
+  PayoutResponseDto,
+  WalletBankAccountResponseDto,
+  WalletReconciliationResponseDto,
+} from './dto/wallet-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Payouts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('payouts')
+export class PayoutsController {
+  constructor(
+    private readonly payoutsService: PayoutsService,
+    private readonly walletsService: WalletsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List withdrawal requests' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedPayoutResponseDto })
+  findAll(@Query() query: PayoutQueryDto): Promise<PaginatedPayoutResponseDto> {
+    return this.payoutsService.findAll(query);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a pending withdrawal request' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutResponseDto })
+  approve(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PayoutResponseDto> {
+    return this.payoutsService.approve(id, user.id);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a withdrawal and return it to the wallet' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutResponseDto })
+  reject(
+    @Param('id') id: string,
+    @Body() dto: RejectPayoutDto,
+  ): Promise<PayoutResponseDto> {
+    return this.payoutsService.reject(id, dto.reason);
+  }
+
+  @Post(':id/mark-paid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a batched withdrawal as transferred' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutResponseDto })
+  markPaid(
+    @Param('id') id: string,
+    @Body() dto: MarkPayoutPaidDto,
+  ): Promise<PayoutResponseDto> {
+    return this.payoutsService.markPaid(id, dto);
+  }
+
+  @Post(':id/mark-failed')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Mark a batched withdrawal as failed and return it to the wallet',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutResponseDto })
+  markFailed(
+    @Param('id') id: string,
+    @Body() dto: RejectPayoutDto,
+  ): Promise<PayoutResponseDto> {
+    return this.payoutsService.markFailed(id, dto.reason);
+  }
+
+  @Post('batches')
+  @ApiOperation({ summary: 'Batch approved withdrawals for transfer' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: PayoutBatchResponseDto })
+  createBatch(
+    @Body() dto: CreatePayoutBatchDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<PayoutBatchResponseDto> {
+    return this.payoutsService.createBatch(dto, user.id);
+  }
+
+  @Get('batches/:id')
+  @ApiOperation({ summary: 'Get a payout batch' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutBatchResponseDto })
+  findBatch(@Param('id') id: string): Promise<PayoutBatchResponseDto> {
+    return this.payoutsService.findBatch(id);
+  }
+
+  @Post('batches/:id/mark-paid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark every withdrawal in a batch as transferred' })
+  @ApiResponse({ status: HttpStatus.OK, type: PayoutBatchResponseDto })
+  markBatchPaid(
+    @Param('id') id: string,
+    @Body() dto: MarkPayoutPaidDto,
+  ): Promise<PayoutBatchResponseDto> {
+    return this.payoutsService.markBatchPaid(id, dto);
+  }
+
+  @Post('bank-accounts/:id/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify a user payout bank account' })
+  @ApiResponse({ status: HttpStatus.OK, type: WalletBankAccountResponseDto })
+  verifyBankAccount(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<WalletBankAccountResponseDto> {
+    return this.walletsService.verifyBankAccount(id, user.id);
+  }
+
+  @Post('credit-commissions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Credit payable commissions to wallets now' })
+  async creditCommissions() {
+    return { credited: await this.walletsService.creditPayableCommissions() };
+  }
+
+  @Get('reconciliation')
+  @ApiOperation({ summary: 'Check wallet balances against the ledger' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: WalletReconciliationResponseDto,
+  })
+  reconcile(): Promise<WalletReconciliationResponseDto> {
+    return this.walletsService.reconcile();
+  }
+}
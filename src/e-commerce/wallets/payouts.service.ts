@@ -0,0 +1,348 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PayoutStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  CreatePayoutBatchDto,
+  MarkPayoutPaidDto,
+  PayoutQueryDto,
+  RequestPayoutDto,
+} from './dto/payout.dto';
+import {
+  PaginatedPayoutResponseDto,
+  PayoutBatchResponseDto,
+  PayoutResponseDto,
+} from './dto/wallet-response.dto';
+import {
+  SYSTEM_WALLETS,
+  WALLET_CURRENCY,
+  WALLET_LEDGER_REASON,
+  WalletLedgerHelper,
+} from './wallet-ledger.helper';
+
+const PAYOUT_INCLUDE = {
+  bankAccount: true,
+} satisfies Prisma.PayoutInclude;
+
+@Injectable()
+export class PayoutsService {
+  private readonly logger = new Logger(PayoutsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Reserve the amount in the payout clearing wallet until an admin pays
+   * or rejects the request
+   */
+  async request(
+    userId: string,
+    dto: RequestPayoutDto,
+  ): Promise<PayoutResponseDto> {
+    const bankAccount = await this.prisma.bankAccount.findFirst({
+      where: { id: dto.bankAccountId, userId },
+    });
+    if (!bankAccount) {
+      throw new NotFoundException('Tài khoản ngân hàng không tồn tại');
+    }
+    if (!bankAccount.isVerified) {
+      throw new BadRequestException('Tài khoản ngân hàng chưa được xác minh');
+    }
+
+    const payout = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payout.create({
+        data: {
+          userId,
+          amount: dto.amount,
+          currency: WALLET_CURRENCY,
+          method: 'bank_transfer',
+          bankAccountId: bankAccount.id,
+          note: dto.note,
+        },
+        include: PAYOUT_INCLUDE,
+      });
+
+      const [userWallet, clearingWallet] = await Promise.all([
+        WalletLedgerHelper.getUserWallet(tx, userId),
+        WalletLedgerHelper.getSystemWallet(tx, SYSTEM_WALLETS.PAYOUT_CLEARING),
+      ]);
+
+      await WalletLedgerHelper.transfer(tx, {
+        fromWalletId: userWallet.id,
+        toWalletId: clearingWallet.id,
+        amount: dto.amount,
+        reason: WALLET_LEDGER_REASON.PAYOUT,
+        refId: created.id,
+        requireFunds: true,
+      });
+
+      return created;
+    });
+
+    this.logger.log(
+      `Payout ${payout.id} of ${dto.amount} requested by ${userId}`,
+    );
+
+    return PayoutResponseDto.fromPayout(payout);
+  }
+
+  async findMine(
+    userId: string,
+    query: PayoutQueryDto,
+  ): Promise<PaginatedPayoutResponseDto> {
+    return this.findAll({ ...query, userId });
+  }
+
+  async findAll(query: PayoutQueryDto): Promise<PaginatedPayoutResponseDto> {
+    const { page = 1, limit = 20, status, batchId, userId } = query;
+
+    const where: Prisma.PayoutWhereInput = {
+      ...(status && { status }),
+      ...(batchId && { batchId }),
+      ...(userId && { userId }),
+    };
+
+    const [payouts, total] = await Promise.all([
+      this.prisma.payout.findMany({
+        where,
+        include: PAYOUT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.payout.count({ where }),
+    ]);
+
+    return {
+      data: payouts.map((payout) => PayoutResponseDto.fromPayout(payout)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async approve(id: string, adminId: string): Promise<PayoutResponseDto> {
+    await this.transition(id, [PayoutStatus.pending], {
+      status: PayoutStatus.approved,
+      approvedBy: adminId,
+      approvedAt: new Date(),
+    });
+
+    return this.findOne(id);
+  }
+
+  async reject(id: string, reason: string): Promise<PayoutResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.transition(
+        id,
+        [PayoutStatus.pending, PayoutStatus.approved],
+        { status: PayoutStatus.rejected, failureReason: reason },
+        tx,
+      );
+      await this.refund(tx, id, reason);
+    });
+
+    return this.findOne(id);
+  }
+
+  async createBatch(
+    dto: CreatePayoutBatchDto,
+    adminId: string,
+  ): Promise<PayoutBatchResponseDto> {
+    const payoutIds = [...new Set(dto.payoutIds)];
+
+    const batch = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payoutBatch.create({
+        data: {
+          code: `PB${Date.now()}`,
+          note: dto.note,
+          createdBy: adminId,
+        },
+      });
+
+      const { count } = await tx.payout.updateMany({
+        where: {
+          id: { in: payoutIds },
+          status: PayoutStatus.approved,
+          batchId: null,
+        },
+        data: { status: PayoutStatus.processing, batchId: created.id },
+      });
+
+      if (count !== payoutIds.length) {
+        throw new BadRequestException(
+          'Chỉ có thể gom lô các yêu cầu đã duyệt và chưa thuộc lô nào',
+        );
+      }
+
+      return tx.payoutBatch.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { payouts: { include: PAYOUT_INCLUDE } },
+      });
+    });
+
+    this.logger.log(
+      `Payout batch ${batch.code} created with ${batch.payouts.length} payouts`,
+    );
+
+    return PayoutBatchResponseDto.fromBatch(batch);
+  }
+
+  async findBatch(id: string): Promise<PayoutBatchResponseDto> {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id },
+      include: { payouts: { include: PAYOUT_INCLUDE } },
+    });
+    if (!batch) {
+      throw new NotFoundException('Lô chi trả không tồn tại');
+    }
+
+    return PayoutBatchResponseDto.fromBatch(batch);
+  }
+
+  async markPaid(
+    id: string,
+    dto: MarkPayoutPaidDto,
+  ): Promise<PayoutResponseDto> {
+    await this.prisma.$transaction((tx) => this.settle(tx, id, dto.reference));
+    return this.findOne(id);
+  }
+
+  /**
+   * Mark every payout of a batch that is still being transferred as paid
+   */
+  async markBatchPaid(
+    batchId: string,
+    dto: MarkPayoutPaidDto,
+  ): Promise<PayoutBatchResponseDto> {
+    const payouts = await this.prisma.payout.findMany({
+      where: { batchId, status: PayoutStatus.processing },
+      select: { id: true },
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const payout of payouts) {
+        await this.settle(tx, payout.id, dto.reference);
+      }
+    });
+
+    return this.findBatch(batchId);
+  }
+
+  async markFailed(id: string, reason: string): Promise<PayoutResponseDto> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.transition(
+        id,
+        [PayoutStatus.processing],
+        {
+          status: PayoutStatus.failed,
+          failureReason: reason,
+          processedAt: new Date(),
+        },
+        tx,
+      );
+      await this.refund(tx, id, reason);
+    });
+
+    return this.findOne(id);
+  }
+
+  private async findOne(id: string): Promise<PayoutResponseDto> {
+    const payout = await this.prisma.payout.findUnique({
+      where: { id },
+      include: PAYOUT_INCLUDE,
+    });
+    if (!payout) {
+      throw new NotFoundException('Yêu cầu rút tiền không tồn tại');
+    }
+
+    return PayoutResponseDto.fromPayout(payout);
+  }
+
+  private async settle(
+    tx: Prisma.TransactionClient,
+    id: string,
+    reference?: string,
+  ) {
+    const payout = await this.transition(
+      id,
+      [PayoutStatus.processing],
+      { status: PayoutStatus.paid, reference, processedAt: new Date() },
+      tx,
+    );
+
+    const [clearingWallet, disbursedWallet] = await Promise.all([
+      WalletLedgerHelper.getSystemWallet(tx, SYSTEM_WALLETS.PAYOUT_CLEARING),
+      WalletLedgerHelper.getSystemWallet(tx, SYSTEM_WALLETS.PAYOUT_DISBURSED),
+    ]);
+
+    await WalletLedgerHelper.transfer(tx, {
+      fromWalletId: clearingWallet.id,
+      toWalletId: disbursedWallet.id,
+      amount: Number(payout.amount),
+      reason: WALLET_LEDGER_REASON.PAYOUT_PAID,
+      refId: payout.id,
+      meta: { reference: reference ?? null },
+    });
+
+    this.logger.log(`Payout ${id} paid`);
+  }
+
+  /**
+   * Return the reserved amount of a rejected or failed payout to the user
+   */
+  private async refund(
+    tx: Prisma.TransactionClient,
+    id: string,
+    reason: string,
+  ) {
+    const payout = await tx.payout.findUniqueOrThrow({ where: { id } });
+
+    const [clearingWallet, userWallet] = await Promise.all([
+      WalletLedgerHelper.getSystemWallet(tx, SYSTEM_WALLETS.PAYOUT_CLEARING),
+      WalletLedgerHelper.getUserWallet(tx, payout.userId),
+    ]);
+
+    await WalletLedgerHelper.transfer(tx, {
+      fromWalletId: clearingWallet.id,
+      toWalletId: userWallet.id,
+      amount: Number(payout.amount),
+      reason: WALLET_LEDGER_REASON.PAYOUT_REVERSAL,
+      refId: payout.id,
+      meta: { reason },
+    });
+
+    this.logger.log(`Payout ${id} returned to wallet: ${reason}`);
+  }
+
+  /**
+   * Move a payout to a new status only from the expected ones, so two admins
+   * acting at once cannot both settle or refund it
+   */
+  private async transition(
+    id: string,
+    from: PayoutStatus[],
+    data: Prisma.PayoutUncheckedUpdateManyInput,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const { count } = await tx.payout.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    if (count === 0) {
+      const payout = await tx.payout.findUnique({ where: { id } });
+      if (!payout) {
+        throw new NotFoundException('Yêu cầu rút tiền không tồn tại');
+      }
+      throw new BadRequestException(
+        `Không thể chuyển yêu cầu rút tiền từ trạng thái ${payout.status} sang ${data.status}`,
+      );
+    }
+
+    return tx.payout.findUniqueOrThrow({ where: { id } });
+  }
+}
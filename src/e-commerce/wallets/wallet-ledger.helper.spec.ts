@@ -0,0 +1,158 @@
+import { BadRequestException } from '@nestjs/common';
+import { CommissionStatus } from '@prisma/client';
+import { SYSTEM_WALLETS, WalletLedgerHelper } from './wallet-ledger.helper';
+
+describe('WalletLedgerHelper', () => {
+  let balances: Record<string, number>;
+  let tx: any;
+
+  beforeEach(() => {
+    balances = { user: 100000, expense: 0, clearing: 0 };
+    const wallet = (id: string) => ({ id, balance: balances[id] });
+
+    tx = {
+      wallet: {
+        upsert: jest.fn(({ where }) =>
+          Promise.resolve(
+            wallet(
+              where.code === SYSTEM_WALLETS.AFFILIATE_EXPENSE
+                ? 'expense'
+                : where.code === SYSTEM_WALLETS.PAYOUT_CLEARING
+                  ? 'clearing'
+                  : 'user',
+            ),
+          ),
+        ),
+        update: jest.fn(({ where, data }) => {
+          balances[where.id] +=
+            data.balance.increment ?? -data.balance.decrement;
+          return Promise.resolve(wallet(where.id));
+        }),
+        updateMany: jest.fn(({ where, data }) => {
+          if (balances[where.id] < where.balance.gte) {
+            return Promise.resolve({ count: 0 });
+          }
+          balances[where.id] -= data.balance.decrement;
+          return Promise.resolve({ count: 1 });
+        }),
+        findUniqueOrThrow: jest.fn(({ where }) =>
+          Promise.resolve(wallet(where.id)),
+        ),
+      },
+      walletLedger: {
+        createMany: jest.fn(),
+      },
+      affiliateCommission: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+  });
+
+  describe('transfer', () => {
+    it('posts a balanced pair of entries', async () => {
+      const transactionId = await WalletLedgerHelper.transfer(tx, {
+        fromWalletId: 'user',
+        toWalletId: 'clearing',
+        amount: 40000,
+        reason: 'payout',
+        refId: 'payout-1',
+      });
+
+      const [{ data }] = tx.walletLedger.createMany.mock.calls[0];
+      expect(data).toEqual([
+        expect.objectContaining({
+          transactionId,
+          walletId: 'user',
+          amount: -40000,
+          balanceAfter: 60000,
+        }),
+        expect.objectContaining({
+          transactionId,
+          walletId: 'clearing',
+          amount: 40000,
+          balanceAfter: 40000,
+        }),
+      ]);
+      expect(data[0].amount + data[1].amount).toBe(0);
+    });
+
+    it('refuses to overdraw when funds are required', async () => {
+      await expect(
+        WalletLedgerHelper.transfer(tx, {
+          fromWalletId: 'user',
+          toWalletId: 'clearing',
+          amount: 150000,
+          reason: 'payout',
+          requireFunds: true,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(tx.walletLedger.createMany).not.toHaveBeenCalled();
+      expect(balances.user).toBe(100000);
+    });
+
+    it('rejects non-positive amounts', async () => {
+      await expect(
+        WalletLedgerHelper.transfer(tx, {
+          fromWalletId: 'user',
+          toWalletId: 'clearing',
+          amount: 0,
+          reason: 'payout',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('creditCommission', () => {
+    const commission = (overrides: Record<string, any> = {}) => ({
+      id: 'commission-1',
+      orderId: 'order-1',
+      beneficiaryId: 'user-1',
+      commissionLevel: 'F1' as any,
+      commissionAmount: 12000 as any,
+      adjustmentOfId: null,
+      ...overrides,
+    });
+
+    it('credits the beneficiary from the affiliate expense account', async () => {
+      await expect(
+        WalletLedgerHelper.creditCommission(tx, commission(), 'admin-1'),
+      ).resolves.toBe(true);
+
+      expect(balances).toMatchObject({ user: 112000, expense: -12000 });
+      expect(tx.walletLedger.createMany.mock.calls[0][0].data[1]).toMatchObject(
+        { walletId: 'user', reason: 'affiliate:F1', refId: 'commission-1' },
+      );
+      expect(tx.affiliateCommission.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'commission-1',
+          status: { not: CommissionStatus.paid },
+        },
+        data: expect.objectContaining({
+          status: CommissionStatus.paid,
+          paidBy: 'admin-1',
+        }),
+      });
+    });
+
+    it('debits the wallet for clawback adjustments', async () => {
+      await WalletLedgerHelper.creditCommission(
+        tx,
+        commission({ commissionAmount: -5000, adjustmentOfId: 'commission-0' }),
+      );
+
+      expect(balances).toMatchObject({ user: 95000, expense: 5000 });
+    });
+
+    it('does not post a commission that is already paid', async () => {
+      tx.affiliateCommission.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        WalletLedgerHelper.creditCommission(tx, commission()),
+      ).resolves.toBe(false);
+
+      expect(tx.walletLedger.createMany).not.toHaveBeenCalled();
+      expect(balances.user).toBe(100000);
+    });
+  });
+});
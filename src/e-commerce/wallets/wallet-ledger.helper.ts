@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { BadRequestException, Logger } from '@nestjs/common';
+import {
+  AffiliateCommission,
+  CommissionStatus,
+  Prisma,
+  Wallet,
+} from '@prisma/client';
+
+export const WALLET_CURRENCY = 'VND';
+
+// Counter accounts of the double-entry ledger
+export const SYSTEM_WALLETS = {
+  // Debited for every commission credited to a user
+  AFFILIATE_EXPENSE: 'system:affiliate_expense',
+  // Holds withdrawals between request and bank transfer
+  PAYOUT_CLEARING: 'system:payout_clearing',
+  // Credited when a bank transfer went out
+  PAYOUT_DISBURSED: 'system:payout_disbursed',
+} as const;
+
+export type SystemWalletCode =
+  (typeof SYSTEM_WALLETS)[keyof typeof SYSTEM_WALLETS];
+
+export const WALLET_LEDGER_REASON = {
+  PAYOUT: 'payout',
+  PAYOUT_PAID: 'payout_paid',
+  PAYOUT_REVERSAL: 'payout_reversal',
+} as const;
+
+export const AFFILIATE_REASON_PREFIX = 'affiliate:';
+
+export interface WalletTransfer {
+  fromWalletId: string;
+  toWalletId: string;
+  amount: number;
+  reason: string;
+  refId?: string;
+  meta?: Prisma.InputJsonValue;
+  // Reject the transfer instead of letting the source go below zero
+  requireFunds?: boolean;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export class WalletLedgerHelper {
+  private static readonly logger = new Logger(WalletLedgerHelper.name);
+
+  static async getUserWallet(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<Wallet> {
+    return tx.wallet.upsert({
+      where: { userId },
+      create: { userId, currency: WALLET_CURRENCY },
+      update: {},
+    });
+  }
+
+  static async getSystemWallet(
+    tx: Prisma.TransactionClient,
+    code: SystemWalletCode,
+  ): Promise<Wallet> {
+    return tx.wallet.upsert({
+      where: { code },
+      create: { code, currency: WALLET_CURRENCY },
+      update: {},
+    });
+  }
+
+  /**
+   * Move money between two wallets as one balanced pair of ledger entries.
+   * Returns the shared transaction id.
+   */
+  static async transfer(
+    tx: Prisma.TransactionClient,
+    transfer: WalletTransfer,
+  ): Promise<string> {
+    const amount = roundAmount(transfer.amount);
+    if (amount <= 0) {
+      throw new BadRequestException('Số tiền giao dịch phải lớn hơn 0');
+    }
+
+    if (transfer.requireFunds) {
+      // Conditional decrement so concurrent withdrawals cannot overdraw
+      const { count } = await tx.wallet.updateMany({
+        where: { id: transfer.fromWalletId, balance: { gte: amount } },
+        data: { balance: { decrement: amount } },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Số dư ví không đủ');
+      }
+    } else {
+      await tx.wallet.update({
+        where: { id: transfer.fromWalletId },
+        data: { balance: { decrement: amount } },
+      });
+    }
+
+    const [from, to] = await Promise.all([
+      tx.wallet.findUniqueOrThrow({ where: { id: transfer.fromWalletId } }),
+      tx.wallet.update({
+        where: { id: transfer.toWalletId },
+        data: { balance: { increment: amount } },
+      }),
+    ]);
+
+    const transactionId = randomUUID();
+    const entry = {
+      transactionId,
+      reason: transfer.reason,
+      refId: transfer.refId,
+      meta: transfer.meta,
+    };
+
+    await tx.walletLedger.createMany({
+      data: [
+        {
+          ...entry,
+          walletId: from.id,
+          amount: -amount,
+          balanceAfter: from.balance,
+        },
+        {
+          ...entry,
+          walletId: to.id,
+          amount,
+          balanceAfter: to.balance,
+        },
+      ],
+    });
+
+    return transactionId;
+  }
+
+  /**
+   * Credit a payable commission to its beneficiary and mark it paid.
+   * Negative clawback adjustments debit the wallet instead. Returns false
+   * when the commission was already paid.
+   */
+  static async creditCommission(
+    tx: Prisma.TransactionClient,
+    commission: Pick<
+      AffiliateCommission,
+      | 'id'
+      | 'orderId'
+      | 'beneficiaryId'
+      | 'commissionLevel'
+      | 'commissionAmount'
+      | 'adjustmentOfId'
+    >,
+    paidBy?: string,
+  ): Promise<boolean> {
+    // Claim the commission first: of two concurrent calls only one flips
+    // the status, so only one of them posts to the wallet
+    const { count } = await tx.affiliateCommission.updateMany({
+      where: { id: commission.id, status: { not: CommissionStatus.paid } },
+      data: { status: CommissionStatus.paid, paidAt: new Date(), paidBy },
+    });
+
+    if (count !== 1) return false;
+
+    const amount = roundAmount(Number(commission.commissionAmount));
+
+    if (amount !== 0) {
+      const [userWallet, expenseWallet] = await Promise.all([
+        this.getUserWallet(tx, commission.beneficiaryId),
+        this.getSystemWallet(tx, SYSTEM_WALLETS.AFFILIATE_EXPENSE),
+      ]);
+
+      await this.transfer(tx, {
+        fromWalletId: amount > 0 ? expenseWallet.id : userWallet.id,
+        toWalletId: amount > 0 ? userWallet.id : expenseWallet.id,
+        amount: Math.abs(amount),
+        reason: `${AFFILIATE_REASON_PREFIX}${commission.commissionLevel}`,
+        refId: commission.id,
+        meta: {
+          orderId: commission.orderId,
+          ...(commission.adjustmentOfId && {
+            adjustmentOfId: commission.adjustmentOfId,
+          }),
+        },
+      });
+    }
+
+    this.logger.log(
+      `Commission ${commission.id} (${amount}) posted to wallet of ${commission.beneficiaryId}`,
+    );
+
+    return true;
+  }
+}
@@ -0,0 +1,5 @@
+// Smallest withdrawal a user can request (VND)
+export const MIN_PAYOUT_AMOUNT = 50000;
+
+// Commissions credited to wallets per run of the crediting job
+export const COMMISSION_CREDIT_BATCH_SIZE = 100;
@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { WalletsService } from './wallets.service';
+import { PayoutsService } from './payouts.service';
+import { CreateWalletBankAccountDto } from './dto/bank-account.dto';
+import { PayoutQueryDto, RequestPayoutDto } from './dto/payout.dto';
+import { WalletLedgerQueryDto } from './dto/wallet-ledger-query.dto';
+import {
+  PaginatedPayoutResponseDto,
+  PaginatedWalletLedgerResponseDto,
+  PayoutResponseDto,
+  WalletBankAccountResponseDto,
+  WalletResponseDto,
+} from './dto/wallet-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Wallets')
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/me')
+export class WalletsController {
+  constructor(
+    private readonly walletsService: WalletsService,
+    private readonly payoutsService: PayoutsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my wallet balance' })
+  @ApiResponse({ status: HttpStatus.OK, type: WalletResponseDto })
+  getWallet(@CurrentUser() user: JwtPayload): Promise<WalletResponseDto> {
+    return this.walletsService.getWallet(user.id);
+  }
+
+  @Get('ledger')
+  @ApiOperation({ summary: 'List my wallet ledger entries' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: PaginatedWalletLedgerResponseDto,
+  })
+  getLedger(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: WalletLedgerQueryDto,
+  ): Promise<PaginatedWalletLedgerResponseDto> {
+    return this.walletsService.getLedger(user.id, query);
+  }
+
+  @Get('bank-accounts')
+  @ApiOperation({ summary: 'List my payout bank accounts' })
+  @ApiResponse({ status: HttpStatus.OK, type: [WalletBankAccountResponseDto] })
+  getBankAccounts(
+    @CurrentUser() user: JwtPayload,
+  ): Promise<WalletBankAccountResponseDto[]> {
+    return this.walletsService.getBankAccounts(user.id);
+  }
+
+  @Post('bank-accounts')
+  @ApiOperation({ summary: 'Add a payout bank account (pending verification)' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    type: WalletBankAccountResponseDto,
+  })
+  addBankAccount(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: CreateWalletBankAccountDto,
+  ): Promise<WalletBankAccountResponseDto> {
+    return this.walletsService.addBankAccount(user.id, dto);
+  }
+
+  @Delete('bank-accounts/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a payout bank account' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT })
+  removeBankAccount(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.walletsService.removeBankAccount(user.id, id);
+  }
+
+  @Get('payouts')
+  @ApiOperation({ summary: 'List my withdrawal requests' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedPayoutResponseDto })
+  getPayouts(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: PayoutQueryDto,
+  ): Promise<PaginatedPayoutResponseDto> {
+    return this.payoutsService.findMine(user.id, query);
+  }
+
+  @Post('payouts')
+  @ApiOperation({ summary: 'Request a withdrawal to a verified bank account' })
+  @ApiResponse({ status: HttpStatus.CREATED, type: PayoutResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Insufficient balance or unverified bank account',
+  })
+  requestPayout(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: RequestPayoutDto,
+  ): Promise<PayoutResponseDto> {
+    return this.payoutsService.request(user.id, dto);
+  }
+}
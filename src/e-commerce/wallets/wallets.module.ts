@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { WalletsController } from './wallets.controller';
+import { PayoutsController } from './payouts.controller';
+import { WalletsService } from './wallets.service';
+import { PayoutsService } from './payouts.service';
+
+@Module({
+  controllers: [WalletsController, PayoutsController],
+  providers: [WalletsService, PayoutsService, PrismaService],
+  exports: [WalletsService, PayoutsService],
+})
+export class WalletsModule {}
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  CommissionStatus,
+  OrderStatus,
+  PayoutStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CreateWalletBankAccountDto } from './dto/bank-account.dto';
+import { WalletLedgerQueryDto } from './dto/wallet-ledger-query.dto';
+import {
+  PaginatedWalletLedgerResponseDto,
+  WalletBankAccountResponseDto,
+  WalletLedgerEntryDto,
+  WalletReconciliationResponseDto,
+  WalletResponseDto,
+} from './dto/wallet-response.dto';
+import { COMMISSION_CREDIT_BATCH_SIZE } from './wallets.constants';
+import { WALLET_CURRENCY, WalletLedgerHelper } from './wallet-ledger.helper';
+
+export const OPEN_PAYOUT_STATUSES: PayoutStatus[] = [
+  PayoutStatus.pending,
+  PayoutStatus.approved,
+  PayoutStatus.processing,
+];
+
+// Commissions are payable once their order is completed; clawback
+// adjustments are payable as soon as they are booked
+const PAYABLE_COMMISSION_WHERE = {
+  status: CommissionStatus.calculated,
+  OR: [
+    { adjustmentOfId: { not: null } },
+    { order: { status: OrderStatus.completed } },
+  ],
+} satisfies Prisma.AffiliateCommissionWhereInput;
+
+@Injectable()
+export class WalletsService {
+  private readonly logger = new Logger(WalletsService.name);
+  private crediting = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getWallet(userId: string): Promise<WalletResponseDto> {
+    const [wallet, pending] = await Promise.all([
+      this.prisma.wallet.findUnique({ where: { userId } }),
+      this.prisma.payout.aggregate({
+        where: { userId, status: { in: OPEN_PAYOUT_STATUSES } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      id: wallet?.id ?? null,
+      balance: Number(wallet?.balance ?? 0),
+      pendingPayoutAmount: Number(pending._sum.amount ?? 0),
+      currency: wallet?.currency ?? WALLET_CURRENCY,
+    };
+  }
+
+  async getLedger(
+    userId: string,
+    query: WalletLedgerQueryDto,
+  ): Promise<PaginatedWalletLedgerResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const where: Prisma.WalletLedgerWhereInput = { wallet: { userId } };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.walletLedger.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.walletLedger.count({ where }),
+    ]);
+
+    return {
+      data: entries.map((entry) => WalletLedgerEntryDto.fromEntry(entry)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getBankAccounts(
+    userId: string,
+  ): Promise<WalletBankAccountResponseDto[]> {
+    const accounts = await this.prisma.bankAccount.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return accounts.map((account) =>
+      WalletBankAccountResponseDto.fromBankAccount(account),
+    );
+  }
+
+  async addBankAccount(
+    userId: string,
+    dto: CreateWalletBankAccountDto,
+  ): Promise<WalletBankAccountResponseDto> {
+    const existing = await this.prisma.bankAccount.findFirst({
+      where: {
+        userId,
+        bankName: dto.bankName,
+        accountNumber: dto.accountNumber,
+      },
+    });
+    if (existing) {
+      throw new ConflictException('Tài khoản ngân hàng đã được thêm');
+    }
+
+    const account = await this.prisma.bankAccount.create({
+      data: {
+        userId,
+        bankName: dto.bankName,
+        accountNumber: dto.accountNumber,
+        accountHolder: dto.accountHolder,
+        description: `Tài khoản nhận tiền của ${dto.accountHolder}`,
+      },
+    });
+
+    return WalletBankAccountResponseDto.fromBankAccount(account);
+  }
+
+  async removeBankAccount(userId: string, id: string): Promise<void> {
+    const account = await this.prisma.bankAccount.findFirst({
+      where: { id, userId },
+      include: {
+        _count: {
+          select: {
+            payouts: { where: { status: { in: OPEN_PAYOUT_STATUSES } } },
+          },
+        },
+      },
+    });
+    if (!account) {
+      throw new NotFoundException('Tài khoản ngân hàng không tồn tại');
+    }
+    if (account._count.payouts > 0) {
+      throw new BadRequestException(
+        'Tài khoản đang có yêu cầu rút tiền chưa hoàn tất',
+      );
+    }
+
+    // Keep accounts referenced by past payouts; just detach them from the user
+    const used = await this.prisma.payout.count({
+      where: { bankAccountId: id },
+    });
+    if (used > 0) {
+      await this.prisma.bankAccount.update({
+        where: { id },
+        data: { userId: null, isVerified: false },
+      });
+    } else {
+      await this.prisma.bankAccount.delete({ where: { id } });
+    }
+  }
+
+  async verifyBankAccount(
+    id: string,
+    verifiedBy: string,
+  ): Promise<WalletBankAccountResponseDto> {
+    const account = await this.prisma.bankAccount.findUnique({
+      where: { id },
+    });
+    if (!account?.userId) {
+      throw new NotFoundException('Tài khoản ngân hàng không tồn tại');
+    }
+
+    const verified = await this.prisma.bankAccount.update({
+      where: { id },
+      data: { isVerified: true, verifiedAt: new Date(), verifiedBy },
+    });
+
+    this.logger.log(`Bank account ${id} verified by ${verifiedBy}`);
+
+    return WalletBankAccountResponseDto.fromBankAccount(verified);
+  }
+
+  /**
+   * Credit payable commissions (and debit clawback adjustments) to wallets
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async creditPayableCommissions(): Promise<number> {
+    if (this.crediting) return 0;
+    this.crediting = true;
+
+    let credited = 0;
+    try {
+      const commissions = await this.prisma.affiliateCommission.findMany({
+        where: PAYABLE_COMMISSION_WHERE,
+        orderBy: { createdAt: 'asc' },
+        take: COMMISSION_CREDIT_BATCH_SIZE,
+      });
+
+      for (const commission of commissions) {
+        try {
+          await this.prisma.$transaction((tx) =>
+            WalletLedgerHelper.creditCommission(tx, commission),
+          );
+          credited++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to credit commission ${commission.id}: ${error.message}`,
+          );
+        }
+      }
+
+      if (credited > 0) {
+        this.logger.log(`Credited ${credited} commissions to wallets`);
+      }
+    } finally {
+      this.crediting = false;
+    }
+
+    return credited;
+  }
+
+  /**
+   * Every wallet balance must equal the sum of its entries and every
+   * transaction must net to zero
+   */
+  async reconcile(): Promise<WalletReconciliationResponseDto> {
+    const [wallets, ledgerTotals, unbalanced] = await Promise.all([
+      this.prisma.wallet.findMany({ select: { id: true, balance: true } }),
+      this.prisma.walletLedger.groupBy({
+        by: ['walletId'],
+        _sum: { amount: true },
+      }),
+      this.prisma.walletLedger.groupBy({
+        by: ['transactionId'],
+        _sum: { amount: true },
+        having: { amount: { _sum: { not: 0 } } },
+      }),
+    ]);
+
+    const totals = new Map(
+      ledgerTotals.map((row) => [row.walletId, Number(row._sum.amount ?? 0)]),
+    );
+
+    const mismatchedWallets = wallets
+      .map((wallet) => ({
+        walletId: wallet.id,
+        balance: Number(wallet.balance),
+        ledgerTotal: totals.get(wallet.id) ?? 0,
+      }))
+      .filter((row) => Math.abs(row.balance - row.ledgerTotal) >= 0.01);
+
+    const totalBalance =
+      Math.round(
+        wallets.reduce((sum, wallet) => sum + Number(wallet.balance), 0) * 100,
+      ) / 100;
+
+    return {
+      walletCount: wallets.length,
+      mismatchedWallets,
+      unbalancedTransactions: unbalanced.map((row) => ({
+        transactionId: row.transactionId,
+        total: Number(row._sum.amount ?? 0),
+      })),
+      totalBalance,
+      isBalanced:
+        mismatchedWallets.length === 0 &&
+        unbalanced.length === 0 &&
+        totalBalance === 0,
+    };
+  }
+}
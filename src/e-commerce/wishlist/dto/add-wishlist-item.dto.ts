@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AddWishlistItemDto {
+  @ApiProperty({ description: 'Sản phẩm yêu thích' })
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @ApiPropertyOptional({
+    description: 'Nhận thông báo khi sản phẩm giảm giá',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyPriceDrop?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Nhận thông báo khi sản phẩm có hàng trở lại',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyBackInStock?: boolean;
+}
+
+export class UpdateWishlistAlertsDto extends PickType(AddWishlistItemDto, [
+  'notifyPriceDrop',
+  'notifyBackInStock',
+] as const) {}
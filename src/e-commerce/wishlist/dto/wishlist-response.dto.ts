@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Product, WishlistItem } from '@prisma/client';
+
+export class WishlistItemResponseDto {
+  @ApiProperty({ description: 'ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Sản phẩm' })
+  productId: string;
+
+  @ApiProperty({ description: 'Tên sản phẩm' })
+  productName: string;
+
+  @ApiProperty({ description: 'Đường dẫn sản phẩm' })
+  productSlug: string;
+
+  @ApiProperty({ description: 'Ảnh đại diện' })
+  thumbnail: string;
+
+  @ApiProperty({ description: 'Giá hiện tại' })
+  price: number;
+
+  @ApiProperty({ description: 'Giá lúc thêm hoặc lúc báo giảm giá gần nhất' })
+  alertPrice: number;
+
+  @ApiProperty({ description: 'Còn hàng (theo lần kiểm tra gần nhất)' })
+  inStock: boolean;
+
+  @ApiProperty({ description: 'Sản phẩm còn được bán' })
+  available: boolean;
+
+  @ApiProperty({ description: 'Nhận thông báo khi giảm giá' })
+  notifyPriceDrop: boolean;
+
+  @ApiProperty({ description: 'Nhận thông báo khi có hàng trở lại' })
+  notifyBackInStock: boolean;
+
+  @ApiProperty({ description: 'Ngày thêm' })
+  createdAt: Date;
+
+  static fromItem(
+    item: WishlistItem & {
+      product: Pick<
+        Product,
+        'name' | 'slug' | 'thumbnail' | 'price' | 'isActive' | 'allowsSale'
+      >;
+    },
+  ): WishlistItemResponseDto {
+    return {
+      id: item.id,
+      productId: item.productId,
+      productName: item.product.name,
+      productSlug: item.product.slug,
+      thumbnail: item.product.thumbnail,
+      price: Number(item.product.price),
+      alertPrice: Number(item.alertPrice),
+      inStock: item.wasInStock,
+      available: item.product.isActive && item.product.allowsSale,
+      notifyPriceDrop: item.notifyPriceDrop,
+      notifyBackInStock: item.notifyBackInStock,
+      createdAt: item.createdAt,
+    };
+  }
+}
+
+export class PaginatedWishlistResponseDto {
+  @ApiProperty({ type: [WishlistItemResponseDto] })
+  data: WishlistItemResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
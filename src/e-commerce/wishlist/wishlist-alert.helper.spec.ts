@@ -0,0 +1,151 @@
+import { RelatedModel } from '@prisma/client';
+import {
+  WISHLIST_ALERT_ACTIONS,
+  WishlistAlertHelper,
+  WishlistAlertState,
+} from './wishlist-alert.helper';
+
+describe('WishlistAlertHelper', () => {
+  const now = new Date('2026-10-18T10:00:00Z');
+  const hoursAgo = (hours: number) =>
+    new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  const item = (overrides: Partial<WishlistAlertState> = {}) => ({
+    alertPrice: 100000,
+    wasInStock: true,
+    notifyPriceDrop: true,
+    notifyBackInStock: true,
+    lastPriceAlertAt: null,
+    lastStockAlertAt: null,
+    ...overrides,
+  });
+
+  describe('isPriceDrop', () => {
+    it('needs a drop of at least five percent', () => {
+      expect(WishlistAlertHelper.isPriceDrop(100000, 95000)).toBe(true);
+      expect(WishlistAlertHelper.isPriceDrop(100000, 96000)).toBe(false);
+    });
+
+    it('ignores price rises and missing prices', () => {
+      expect(WishlistAlertHelper.isPriceDrop(100000, 120000)).toBe(false);
+      expect(WishlistAlertHelper.isPriceDrop(0, 50000)).toBe(false);
+      expect(WishlistAlertHelper.isPriceDrop(100000, 0)).toBe(false);
+    });
+  });
+
+  describe('detect', () => {
+    it('flags a price drop against the stored baseline', () => {
+      expect(
+        WishlistAlertHelper.detect(
+          item(),
+          { price: 80000, inStock: true, sellable: true },
+          now,
+        ),
+      ).toEqual({ priceDrop: true, backInStock: false });
+    });
+
+    it('flags a product coming back in stock', () => {
+      expect(
+        WishlistAlertHelper.detect(
+          item({ wasInStock: false }),
+          { price: 100000, inStock: true, sellable: true },
+          now,
+        ),
+      ).toEqual({ priceDrop: false, backInStock: true });
+    });
+
+    it('holds alerts still in their cooldown window', () => {
+      expect(
+        WishlistAlertHelper.detect(
+          item({
+            wasInStock: false,
+            lastPriceAlertAt: hoursAgo(3),
+            lastStockAlertAt: hoursAgo(23),
+          }),
+          { price: 80000, inStock: true, sellable: true },
+          now,
+        ),
+      ).toEqual({ priceDrop: false, backInStock: false });
+
+      expect(
+        WishlistAlertHelper.detect(
+          item({ lastPriceAlertAt: hoursAgo(25) }),
+          { price: 80000, inStock: true, sellable: true },
+          now,
+        ).priceDrop,
+      ).toBe(true);
+    });
+
+    it('respects the per-item opt-outs', () => {
+      expect(
+        WishlistAlertHelper.detect(
+          item({
+            wasInStock: false,
+            notifyPriceDrop: false,
+            notifyBackInStock: false,
+          }),
+          { price: 80000, inStock: true, sellable: true },
+          now,
+        ),
+      ).toEqual({ priceDrop: false, backInStock: false });
+    });
+
+    it('never alerts on products that cannot be bought', () => {
+      expect(
+        WishlistAlertHelper.detect(
+          item({ wasInStock: false }),
+          { price: 80000, inStock: true, sellable: false },
+          now,
+        ),
+      ).toEqual({ priceDrop: false, backInStock: false });
+    });
+  });
+
+  it('sums onHand across warehouses per product', async () => {
+    const tx = {
+      productInventory: {
+        groupBy: jest.fn().mockResolvedValue([
+          { productId: 'p-1', _sum: { onHand: 7 } },
+          { productId: 'p-2', _sum: { onHand: null } },
+        ]),
+      },
+    };
+
+    const onHand = await WishlistAlertHelper.onHandByProduct(tx as any, [
+      'p-1',
+      'p-2',
+    ]);
+
+    expect(onHand.get('p-1')).toBe(7);
+    expect(onHand.get('p-2')).toBe(0);
+  });
+
+  it('counts only wishlist notifications from the last 24h', async () => {
+    const tx = {
+      notification: {
+        groupBy: jest
+          .fn()
+          .mockResolvedValue([{ userId: 'u-1', _count: { _all: 3 } }]),
+      },
+    };
+
+    const counts = await WishlistAlertHelper.recentAlertCounts(
+      tx as any,
+      ['u-1', 'u-2'],
+      now,
+    );
+
+    expect(tx.notification.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: { in: ['u-1', 'u-2'] },
+          relatedModel: RelatedModel.product,
+          action: { in: WISHLIST_ALERT_ACTIONS },
+          createdAt: { gte: hoursAgo(24) },
+        },
+      }),
+    );
+    expect(counts.get('u-1')).toBe(3);
+    expect(counts.get('u-2')).toBeUndefined();
+  });
+});
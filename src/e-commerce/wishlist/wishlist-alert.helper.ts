@@ -0,0 +1,128 @@
+import { NotificationAction, Prisma, RelatedModel } from '@prisma/client';
+
+type PrismaTx = Prisma.TransactionClient;
+
+// Ignore price moves smaller than this, e.g. rounding after a KiotViet sync
+export const WISHLIST_PRICE_DROP_MIN_PERCENT = 5;
+// Same alert type for the same wishlist item at most once per window
+export const WISHLIST_ALERT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+// Wishlist notifications a user receives per rolling 24h, all products combined
+export const WISHLIST_DAILY_ALERT_LIMIT = 5;
+
+export const WISHLIST_ALERT_ACTIONS = [
+  NotificationAction.price_dropped,
+  NotificationAction.back_in_stock,
+];
+
+export interface WishlistAlertState {
+  alertPrice: Prisma.Decimal | number;
+  wasInStock: boolean;
+  notifyPriceDrop: boolean;
+  notifyBackInStock: boolean;
+  lastPriceAlertAt: Date | null;
+  lastStockAlertAt: Date | null;
+}
+
+export interface WishlistProductSnapshot {
+  price: number;
+  inStock: boolean;
+  // Inactive or unsellable products never trigger alerts
+  sellable: boolean;
+}
+
+export interface WishlistAlertDecision {
+  priceDrop: boolean;
+  backInStock: boolean;
+}
+
+export class WishlistAlertHelper {
+  static isPriceDrop(baseline: number, current: number): boolean {
+    if (baseline <= 0 || current <= 0 || current >= baseline) return false;
+
+    const percent = ((baseline - current) / baseline) * 100;
+    return percent >= WISHLIST_PRICE_DROP_MIN_PERCENT;
+  }
+
+  static isCoolingDown(lastAlertAt: Date | null, now: Date): boolean {
+    if (!lastAlertAt) return false;
+    return now.getTime() - lastAlertAt.getTime() < WISHLIST_ALERT_COOLDOWN_MS;
+  }
+
+  /**
+   * Which alerts a wishlist item is due, before the per-user daily cap.
+   * Back in stock means the summed onHand went from 0 to positive since the
+   * previous sweep; a price drop is measured against the stored baseline.
+   */
+  static detect(
+    item: WishlistAlertState,
+    snapshot: WishlistProductSnapshot,
+    now: Date,
+  ): WishlistAlertDecision {
+    if (!snapshot.sellable) {
+      return { priceDrop: false, backInStock: false };
+    }
+
+    return {
+      priceDrop:
+        item.notifyPriceDrop &&
+        this.isPriceDrop(Number(item.alertPrice), snapshot.price) &&
+        !this.isCoolingDown(item.lastPriceAlertAt, now),
+      backInStock:
+        item.notifyBackInStock &&
+        !item.wasInStock &&
+        snapshot.inStock &&
+        !this.isCoolingDown(item.lastStockAlertAt, now),
+    };
+  }
+
+  /**
+   * Summed onHand across warehouses for each product
+   */
+  static async onHandByProduct(
+    tx: PrismaTx,
+    productIds: string[],
+  ): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    const groups = await tx.productInventory.groupBy({
+      by: ['productId'],
+      where: { productId: { in: productIds } },
+      _sum: { onHand: true },
+    });
+
+    return new Map(
+      groups.map((group) => [group.productId, group._sum.onHand ?? 0]),
+    );
+  }
+
+  static async isInStock(tx: PrismaTx, productId: string): Promise<boolean> {
+    const onHand = await this.onHandByProduct(tx, [productId]);
+    return (onHand.get(productId) ?? 0) > 0;
+  }
+
+  /**
+   * Wishlist notifications each user already received in the last 24h
+   */
+  static async recentAlertCounts(
+    tx: PrismaTx,
+    userIds: string[],
+    now: Date,
+  ): Promise<Map<string, number>> {
+    if (userIds.length === 0) return new Map();
+
+    const groups = await tx.notification.groupBy({
+      by: ['userId'],
+      where: {
+        userId: { in: userIds },
+        relatedModel: RelatedModel.product,
+        action: { in: WISHLIST_ALERT_ACTIONS },
+        createdAt: {
+          gte: new Date(now.getTime() - WISHLIST_ALERT_COOLDOWN_MS),
+        },
+      },
+      _count: { _all: true },
+    });
+
+    return new Map(groups.map((group) => [group.userId, group._count._all]));
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
+import { WishlistService } from './wishlist.service';
+import {
+  AddWishlistItemDto,
+  UpdateWishlistAlertsDto,
+} from './dto/add-wishlist-item.dto';
+import { WishlistQueryDto } from './dto/wishlist-query.dto';
+import {
+  PaginatedWishlistResponseDto,
+  WishlistItemResponseDto,
+} from './dto/wishlist-response.dto';
+
+@ApiBearerAuth()
+@ApiTags('Wishlist')
+@UseGuards(JwtAuthGuard)
+@Controller('e-commerce/wishlist')
+export class WishlistController {
+  constructor(private readonly wishlistService: WishlistService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add a product to my wishlist',
+    description:
+      'The current price and stock are remembered; price-drop and back-in-stock notifications are sent at most once a day per product and alert type.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: WishlistItemResponseDto })
+  add(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: AddWishlistItemDto,
+  ): Promise<WishlistItemResponseDto> {
+    return this.wishlistService.add(user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my wishlist' })
+  @ApiResponse({ status: HttpStatus.OK, type: PaginatedWishlistResponseDto })
+  findAll(
+    @CurrentUser() user: JwtPayload,
+    @Query() query: WishlistQueryDto,
+  ): Promise<PaginatedWishlistResponseDto> {
+    return this.wishlistService.findAll(user.id, query);
+  }
+
+  @Patch(':productId')
+  @ApiOperation({ summary: 'Turn wishlist alerts on or off for a product' })
+  @ApiResponse({ status: HttpStatus.OK, type: WishlistItemResponseDto })
+  updateAlerts(
+    @CurrentUser() user: JwtPayload,
+    @Param('productId') productId: string,
+    @Body() dto: UpdateWishlistAlertsDto,
+  ): Promise<WishlistItemResponseDto> {
+    return this.wishlistService.updateAlerts(user.id, productId, dto);
+  }
+
+  @Delete(':productId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a product from my wishlist' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT })
+  remove(
+    @CurrentUser() user: JwtPayload,
+    @Param('productId') productId: string,
+  ): Promise<void> {
+    return this.wishlistService.remove(user.id, productId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { NotificationModule } from '../../notifications/notification.module';
+import { WishlistController } from './wishlist.controller';
+import { WishlistService } from './wishlist.service';
+
+@Module({
+  imports: [NotificationModule],
+  controllers: [WishlistController],
+  providers: [WishlistService, PrismaService],
+  exports: [WishlistService],
+})
+export class WishlistModule {}
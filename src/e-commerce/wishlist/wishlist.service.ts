@@ -0,0 +1,327 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationAction, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { NotificationHelperService } from '../../notifications/notification-helper.service';
+import {
+  AddWishlistItemDto,
+  UpdateWishlistAlertsDto,
+} from './dto/add-wishlist-item.dto';
+import { WishlistQueryDto } from './dto/wishlist-query.dto';
+import {
+  PaginatedWishlistResponseDto,
+  WishlistItemResponseDto,
+} from './dto/wishlist-response.dto';
+import {
+  WISHLIST_DAILY_ALERT_LIMIT,
+  WishlistAlertDecision,
+  WishlistAlertHelper,
+} from './wishlist-alert.helper';
+
+const ALERT_SWEEP_BATCH_SIZE = 200;
+
+const WISHLIST_INCLUDE = {
+  product: {
+    select: {
+      name: true,
+      slug: true,
+      thumbnail: true,
+      price: true,
+      isActive: true,
+      allowsSale: true,
+    },
+  },
+} satisfies Prisma.WishlistItemInclude;
+
+type WishlistItemWithProduct = Prisma.WishlistItemGetPayload<{
+  include: typeof WISHLIST_INCLUDE;
+}>;
+
+@Injectable()
+export class WishlistService {
+  private readonly logger = new Logger(WishlistService.name);
+  private sweeping = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationHelper: NotificationHelperService,
+  ) {}
+
+  /**
+   * Save a product to the wishlist. The current price and stock become the
+   * baseline that later alerts are measured against.
+   */
+  async add(
+    userId: string,
+    dto: AddWishlistItemDto,
+  ): Promise<WishlistItemResponseDto> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: dto.productId, isActive: true },
+      select: { id: true, price: true },
+    });
+    if (!product) {
+      throw new NotFoundException('Sản phẩm không tồn tại');
+    }
+
+    const inStock = await WishlistAlertHelper.isInStock(
+      this.prisma,
+      product.id,
+    );
+
+    try {
+      const item = await this.prisma.wishlistItem.create({
+        data: {
+          userId,
+          productId: product.id,
+          alertPrice: product.price,
+          wasInStock: inStock,
+          notifyPriceDrop: dto.notifyPriceDrop ?? true,
+          notifyBackInStock: dto.notifyBackInStock ?? true,
+        },
+        include: WISHLIST_INCLUDE,
+      });
+
+      return WishlistItemResponseDto.fromItem(item);
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new BadRequestException(
+          'Sản phẩm đã có trong danh sách yêu thích',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async findAll(
+    userId: string,
+    query: WishlistQueryDto,
+  ): Promise<PaginatedWishlistResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const where: Prisma.WishlistItemWhereInput = { userId };
+
+    const [items, total] = await Promise.all([
+      this.prisma.wishlistItem.findMany({
+        where,
+        include: WISHLIST_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.wishlistItem.count({ where }),
+    ]);
+
+    return {
+      data: items.map((item) => WishlistItemResponseDto.fromItem(item)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async updateAlerts(
+    userId: string,
+    productId: string,
+    dto: UpdateWishlistAlertsDto,
+  ): Promise<WishlistItemResponseDto> {
+    const { count } = await this.prisma.wishlistItem.updateMany({
+      where: { userId, productId },
+      data: dto,
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        'Sản phẩm không có trong danh sách yêu thích',
+      );
+    }
+
+    const item = await this.prisma.wishlistItem.findUniqueOrThrow({
+      where: { userId_productId: { userId, productId } },
+      include: WISHLIST_INCLUDE,
+    });
+
+    return WishlistItemResponseDto.fromItem(item);
+  }
+
+  async remove(userId: string, productId: string): Promise<void> {
+    const { count } = await this.prisma.wishlistItem.deleteMany({
+      where: { userId, productId },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        'Sản phẩm không có trong danh sách yêu thích',
+      );
+    }
+  }
+
+  /**
+   * Which of the given products the user has wishlisted, for flagging
+   * product listings
+   */
+  async wishlistedProductIds(
+    userId: string,
+    productIds: string[],
+  ): Promise<Set<string>> {
+    if (productIds.length === 0) return new Set();
+
+    const items = await this.prisma.wishlistItem.findMany({
+      where: { userId, productId: { in: productIds } },
+      select: { productId: true },
+    });
+
+    return new Set(items.map((item) => item.productId));
+  }
+
+  /**
+   * Compare every wishlist item with the product's current price and stock
+   * and notify owners of price drops and restocks. Stock is read from
+   * ProductInventory, so restocks from KiotViet syncs are picked up on the
+   * next run. Alerts over a user's daily limit are held back and retried.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async sweepAlerts(): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    let sent = 0;
+    try {
+      const now = new Date();
+      const sentToday = new Map<string, number>();
+      let cursor: string | undefined;
+
+      do {
+        const items = await this.prisma.wishlistItem.findMany({
+          include: WISHLIST_INCLUDE,
+          orderBy: { id: 'asc' },
+          take: ALERT_SWEEP_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+        cursor =
+          items.length === ALERT_SWEEP_BATCH_SIZE
+            ? items[items.length - 1].id
+            : undefined;
+
+        const productIds = [
+          ...new Set<string>(items.map((item) => item.productId)),
+        ];
+        const newUserIds = [
+          ...new Set<string>(items.map((item) => item.userId)),
+        ].filter((id) => !sentToday.has(id));
+
+        const [onHand, recentCounts] = await Promise.all([
+          WishlistAlertHelper.onHandByProduct(this.prisma, productIds),
+          WishlistAlertHelper.recentAlertCounts(this.prisma, newUserIds, now),
+        ]);
+        for (const id of newUserIds) {
+          sentToday.set(id, recentCounts.get(id) ?? 0);
+        }
+
+        for (const item of items) {
+          const inStock = (onHand.get(item.productId) ?? 0) > 0;
+          sent += await this.processAlert(item, inStock, sentToday, now);
+        }
+      } while (cursor);
+
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} wishlist alerts`);
+      }
+    } finally {
+      this.sweeping = false;
+    }
+
+    return sent;
+  }
+
+  private async processAlert(
+    item: WishlistItemWithProduct,
+    inStock: boolean,
+    sentToday: Map<string, number>,
+    now: Date,
+  ): Promise<number> {
+    try {
+      const price = Number(item.product.price);
+      const decision = WishlistAlertHelper.detect(
+        item,
+        {
+          price,
+          inStock,
+          sellable: item.product.isActive && item.product.allowsSale,
+        },
+        now,
+      );
+
+      const data: Prisma.WishlistItemUpdateInput = {};
+      let alerted = false;
+
+      if (decision.priceDrop || decision.backInStock) {
+        const count = sentToday.get(item.userId) ?? 0;
+        if (count < WISHLIST_DAILY_ALERT_LIMIT) {
+          const { action, message } = this.alertMessage(item, price, decision);
+          await this.notificationHelper.createProductNotification(
+            item.userId,
+            item.productId,
+            action,
+            message,
+          );
+          sentToday.set(item.userId, count + 1);
+          alerted = true;
+
+          if (decision.priceDrop) {
+            data.alertPrice = price;
+            data.lastPriceAlertAt = now;
+          }
+          if (decision.backInStock) {
+            data.lastStockAlertAt = now;
+          }
+        }
+      }
+
+      // A held-back restock alert keeps wasInStock false so it is retried
+      if (item.wasInStock !== inStock && (!decision.backInStock || alerted)) {
+        data.wasInStock = inStock;
+      }
+
+      if (Object.keys(data).length > 0) {
+        await this.prisma.wishlistItem.update({
+          where: { id: item.id },
+          data,
+        });
+      }
+
+      return alerted ? 1 : 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to process wishlist alert for item ${item.id}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  // A restock that also got cheaper is announced once, as a restock
+  private alertMessage(
+    item: WishlistItemWithProduct,
+    price: number,
+    decision: WishlistAlertDecision,
+  ): { action: NotificationAction; message: string } {
+    const name = item.product.name;
+    const priceText = `${price.toLocaleString('vi-VN')}đ`;
+    const previousText = `${Number(item.alertPrice).toLocaleString('vi-VN')}đ`;
+
+    if (decision.backInStock) {
+      return {
+        action: NotificationAction.back_in_stock,
+        message: decision.priceDrop
+          ? `Sản phẩm "${name}" trong danh sách yêu thích đã có hàng trở lại với giá ${priceText} (trước đây ${previousText})`
+          : `Sản phẩm "${name}" trong danh sách yêu thích đã có hàng trở lại`,
+      };
+    }
+
+    return {
+      action: NotificationAction.price_dropped,
+      message: `Sản phẩm "${name}" trong danh sách yêu thích đã giảm giá từ ${previousText} xuống ${priceText}`,
+    };
+  }
+}
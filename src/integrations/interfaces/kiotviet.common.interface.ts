@@ -52,6 +52,7 @@ export interface KiotVietPaginationOptions {
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
   includeRemoveIds?: boolean;
+  lastModifiedFrom?: string; // ISO date - only items changed since then
 }
 
 /**
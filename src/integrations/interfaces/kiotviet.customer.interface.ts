@@ -1,6 +1,7 @@
 import {
   KiotVietBaseEntity,
   KiotVietLocationInfo,
+  KiotVietPaginationOptions,
 } from './kiotviet.common.interface';
 
 /**
@@ -26,6 +27,25 @@ export interface KiotVietCustomerItem
   totalRevenue?: number;
   rewardPoint?: number;
   psidFacebook?: number;
+  groups?: string; // Group names, returned with includeCustomerGroup
+}
+
+/**
+ * Query options for GET /customers
+ */
+export interface KiotVietCustomerQueryOptions
+  extends KiotVietPaginationOptions {
+  code?: string;
+  contactNumber?: string;
+  includeCustomerGroup?: boolean;
+}
+
+/**
+ * Body for POST /customers and PUT /customers/{id}
+ */
+export interface KiotVietCustomerWriteRequest
+  extends Partial<KiotVietCustomerItem> {
+  groupIds?: number[];
 }
 
 /**
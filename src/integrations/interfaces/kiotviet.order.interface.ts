@@ -122,3 +122,47 @@ export interface KiotVietOrderDetailFullItem extends KiotVietBaseEntity {
   orderDelivery: KiotVietOrderDeliveryItem;
   invoiceOrderSurcharges: KiotVietOrderSurchargeItem[];
 }
+
+/**
+ * Request body for creating an order on KiotViet
+ * Used for endpoint: POST /orders
+ */
+export interface KiotVietCreateOrderRequest {
+  branchId: number;
+  purchaseDate: string;
+  description?: string;
+  discount?: number;
+  totalPayment?: number;
+  method?: 'Cash' | 'Transfer' | 'Card';
+  makeInvoice?: boolean;
+  customer?: {
+    id?: number;
+    code?: string;
+    name: string;
+    contactNumber?: string;
+    email?: string;
+    address?: string;
+  };
+  orderDetails: Array<{
+    productId: number;
+    productCode: string;
+    productName: string;
+    quantity: number;
+    price: number;
+    discount?: number;
+    note?: string;
+  }>;
+  orderDelivery?: {
+    receiver: string;
+    contactNumber: string;
+    address: string;
+    price?: number;
+    weight?: number;
+  };
+  // KiotViet spells this field "surchages"
+  surchages?: Array<{
+    id?: number;
+    code?: string;
+    price: number;
+  }>;
+}
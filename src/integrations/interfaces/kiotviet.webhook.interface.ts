@@ -40,3 +40,55 @@ export interface KiotVietWebhookDetailItem extends KiotVietBaseEntity {
   isActive: boolean;
   description: string;
 }
+
+/**
+ * Body KiotViet POSTs to a registered webhook URL
+ */
+export interface KiotVietWebhookPayload {
+  Id?: string;
+  Attempt?: number;
+  Notifications?: KiotVietWebhookNotification[];
+}
+
+export interface KiotVietWebhookNotification {
+  Action: string; // e.g. "stock.update.{retailerId}"
+  Data: any[];
+}
+
+/**
+ * Item of a stock.update notification (keys normalised to camelCase)
+ */
+export interface KiotVietWebhookStockItem {
+  productId: number;
+  productCode?: string;
+  branchId: number;
+  branchName?: string;
+  cost?: number;
+  onHand?: number;
+  reserved?: number;
+}
+
+/**
+ * Item of an order.update / invoice.update notification
+ */
+export interface KiotVietWebhookStatusItem {
+  id: number;
+  code?: string;
+  status: number;
+  statusValue?: string;
+}
+
+/**
+ * Item of a customer.update notification
+ */
+export interface KiotVietWebhookCustomerItem {
+  id: number;
+  code?: string;
+  name?: string;
+  contactNumber?: string;
+  email?: string;
+  comments?: string;
+  taxCode?: string;
+  rewardPoint?: number;
+  debt?: number;
+}
@@ -5,6 +5,7 @@ export * from './kiot-viet.customer.controller';
 export * from './kiot-viet.order.controller';
 export * from './kiot-viet.pricebook.controller';
 export * from './kiot-viet.webhook.controller';
+export * from './kiot-viet.webhook-receiver.controller';
 export * from './kiot-viet.voucher.controller';
 export * from './kiot-viet.user.controller';
 export * from './kiot-viet.transfer.controller';
@@ -14,4 +15,6 @@ export * from './kiot-viet.invoice.controller';
 export * from './kiot-viet.branch.controller';
 export * from './mapping/kiotviet-product-mapping.controller';
 export * from './syncing/kiotviet-product-syncing.controller';
+export * from './syncing/kiotviet-order-syncing.controller';
+export * from './syncing/kiotviet-customer-syncing.controller';
 export * from './syncing/kiotviet-sync-logs.controller';
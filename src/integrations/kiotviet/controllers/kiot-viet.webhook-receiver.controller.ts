@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from '../../../common/decorators/public.decorator';
+import { KiotVietWebhookPayload } from '../../interfaces';
+import { KiotVietWebhookEventService } from '../services/kiotviet-webhook-event.service';
+
+@ApiTags('KiotViet: Webhooks')
+@Controller('integrations/kiotviet/webhooks')
+export class KiotVietWebhookReceiverController {
+  private readonly logger = new Logger(KiotVietWebhookReceiverController.name);
+
+  constructor(
+    private readonly webhookEventService: KiotVietWebhookEventService,
+  ) {}
+
+  /**
+   * Callback URL to register on KiotViet for product, stock, order, invoice
+   * and customer events
+   * POST /integrations/kiotviet/webhooks/receive
+   */
+  @Public()
+  @Post('receive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive KiotViet webhook',
+    description:
+      'Verify X-Hub-Signature, queue product.update, product.delete, stock.update, order.update, invoice.update and customer.update notifications and apply them asynchronously',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notifications queued (redeliveries are ignored)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid signature',
+  })
+  async receiveWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-hub-signature') signature: string,
+    @Body() payload: KiotVietWebhookPayload,
+  ) {
+    await this.webhookEventService.verifySignature(req.rawBody, signature);
+
+    const result = await this.webhookEventService.enqueue(
+      payload,
+      req.rawBody!,
+    );
+
+    this.logger.debug(
+      `KiotViet webhook received: ${result.queued} queued, ${result.duplicates} duplicates`,
+    );
+
+    return { success: true, ...result };
+  }
+}
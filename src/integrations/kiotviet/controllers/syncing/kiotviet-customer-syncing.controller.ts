@@ -0,0 +1,99 @@
+import {
+  Controller,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../../common/guards/roles.guard';
+import { Roles } from '../../../../common/decorators/roles.decorator';
+import { Role } from '../../../../common/enums/role.enum';
+import { JwtPayload } from '../../../../auth/jwt-payload';
+import { CurrentUser } from '../../../../users/users.decorator';
+import { KiotVietCustomerSyncService } from '../../services/kiotviet-syncing/customers';
+
+@ApiBearerAuth()
+@ApiTags('KiotViet: Customer Syncing')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('integrations/kiotviet/sync')
+export class KiotVietCustomerSyncingController {
+  private readonly logger = new Logger(KiotVietCustomerSyncingController.name);
+
+  constructor(
+    private readonly customerSyncService: KiotVietCustomerSyncService,
+  ) {}
+
+  /**
+   * Pull KiotViet customers and groups, then push new or changed ACTA customers
+   * POST /integrations/kiotviet/sync/customers?fullResync=true
+   */
+  @Post('customers')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Customer Synchronization',
+    description:
+      'Two-way customer sync: KiotViet customers, groups, debt and reward points are pulled (matched by phone, then email), then new or changed ACTA customers are upserted into KiotViet',
+  })
+  @ApiQuery({
+    name: 'fullResync',
+    required: false,
+    type: Boolean,
+    description: 'Bỏ qua mốc đồng bộ trước đó và kéo lại toàn bộ khách hàng',
+  })
+  async syncCustomers(
+    @CurrentUser() user: JwtPayload,
+    @Query('fullResync') fullResync: string = 'false',
+  ) {
+    try {
+      const { pull, push } = await this.customerSyncService.syncCustomers(
+        user,
+        {
+          fullResync: fullResync.toLowerCase() === 'true',
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Đồng bộ khách hàng với KiotViet thành công',
+        data: {
+          pull: {
+            syncLogId: pull.syncLogId,
+            mode: pull.details.mode,
+            cursor: pull.details.cursor,
+            customerGroupStats: pull.details.customerGroupStats,
+            customerStats: pull.details.customerStats,
+            errors: pull.details.errorDetails?.slice(0, 10) ?? [],
+          },
+          push: {
+            syncLogId: push.syncLogId,
+            customerStats: push.details.customerStats,
+            errors: push.details.errorDetails?.slice(0, 10) ?? [],
+          },
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `Customer sync failed for user: ${user.email}`,
+        error.stack,
+      );
+
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Đồng bộ khách hàng với KiotViet thất bại',
+          error: error.message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../../common/guards/roles.guard';
+import { Roles } from '../../../../common/decorators/roles.decorator';
+import { Role } from '../../../../common/enums/role.enum';
+import { KiotVietOrderPushService } from '../../services/kiotviet-syncing/orders';
+
+@ApiBearerAuth()
+@ApiTags('KiotViet: Order Syncing')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('integrations/kiotviet/sync/orders')
+export class KiotVietOrderSyncingController {
+  constructor(private readonly orderPushService: KiotVietOrderPushService) {}
+
+  /**
+   * Queue an ACTA order to be pushed to KiotViet again
+   * POST /integrations/kiotviet/sync/orders/:orderId/push
+   */
+  @Post(':orderId/push')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Đưa đơn hàng vào hàng đợi đẩy sang KiotViet' })
+  async requeueOrder(@Param('orderId') orderId: string) {
+    await this.orderPushService.requeueOrder(orderId);
+
+    return {
+      success: true,
+      message: 'Đơn hàng đã được đưa vào hàng đợi đồng bộ KiotViet',
+    };
+  }
+
+  /**
+   * Push history of an ACTA order
+   * GET /integrations/kiotviet/sync/orders/:orderId/logs
+   */
+  @Get(':orderId/logs')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Lịch sử đẩy đơn hàng sang KiotViet' })
+  async getOrderPushLogs(@Param('orderId') orderId: string) {
+    return {
+      success: true,
+      data: await this.orderPushService.getOrderPushLogs(orderId),
+    };
+  }
+}
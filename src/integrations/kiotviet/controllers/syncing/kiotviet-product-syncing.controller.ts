@@ -14,6 +14,7 @@ import {
   ApiBearerAuth,
   ApiTags,
   ApiOperation,
+  ApiQuery,
   ApiResponse,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../../auth/guards/jwt-auth.guard';
@@ -39,15 +40,22 @@ export class KiotVietProductSyncingController {
   ) {}
 
   /**
-   * Synchronize products from KiotViet with full CREATE, UPDATE, DELETE operations
-   * POST /integrations/kiotviet/sync/products
+   * Synchronize products from KiotViet with full CREATE, UPDATE, DELETE operations.
+   * Only products changed since the last successful sync are fetched unless fullResync=true
+   * POST /integrations/kiotviet/sync/products?fullResync=true
    */
   @Post('products')
   @Roles(Role.ADMIN)
   @ApiOperation({
     summary: 'Product Synchronization',
     description:
-      'Synchronize products with full CREATE, UPDATE, DELETE operations based on KiotViet unique fields',
+      'Synchronize products with full CREATE, UPDATE, DELETE operations based on KiotViet unique fields. Incremental by default (lastModifiedFrom = last successful sync cursor)',
+  })
+  @ApiQuery({
+    name: 'fullResync',
+    required: false,
+    type: Boolean,
+    description: 'Bỏ qua mốc đồng bộ trước đó và đồng bộ lại toàn bộ sản phẩm',
   })
   @ApiResponse({
     status: 200,
@@ -61,6 +69,8 @@ export class KiotVietProductSyncingController {
           type: 'object',
           properties: {
             syncLogId: { type: 'string' },
+            mode: { type: 'string', enum: ['incremental', 'full'] },
+            cursor: { type: 'string' },
             summary: {
               type: 'object',
               properties: {
@@ -86,12 +96,18 @@ export class KiotVietProductSyncingController {
       },
     },
   })
-  async syncProducts(@CurrentUser() user: JwtPayload) {
+  async syncProducts(
+    @CurrentUser() user: JwtPayload,
+    @Query('fullResync') fullResync: string = 'false',
+  ) {
     const startTime = new Date();
     try {
       this.logger.log(`Starting product sync for user: ${user.email}`);
 
-      const result = await this.syncingService.syncKiotVietProductsToActa(user);
+      const result = await this.syncingService.syncKiotVietProductsToActa(
+        user,
+        { fullResync: fullResync.toLowerCase() === 'true' },
+      );
 
       const duration = new Date().getTime() - startTime.getTime();
       this.logger.log(
@@ -103,6 +119,8 @@ export class KiotVietProductSyncingController {
         message: 'Đồng bộ sản phẩm từ KiotViet thành công',
         data: {
           syncLogId: result.syncLogId,
+          mode: result.details.mode,
+          cursor: result.details.cursor,
           summary: {
             totalRecords: result.details.totalRecords,
             successCount: result.details.successCount,
@@ -1,6 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsIn, IsOptional, IsString, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
+import { KiotVietConflictResolution } from '../interfaces/sync.interface';
 
 export class UpdateProductFieldMappingsDto {
   @ApiProperty({
@@ -260,6 +261,16 @@ export class UpdateCustomerFieldMappingsDto {
   @IsOptional()
   @IsString()
   address?: string;
+
+  @ApiProperty({
+    description:
+      'Which side wins when a customer changed in both ACTA and KiotViet since the last sync',
+    enum: ['kiotviet', 'acta', 'latest'],
+    example: 'latest',
+  })
+  @IsOptional()
+  @IsIn(['kiotviet', 'acta', 'latest'])
+  conflictResolution?: KiotVietConflictResolution;
 }
 
 export class UpdateOrderFieldMappingsDto {
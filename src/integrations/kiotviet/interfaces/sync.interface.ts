@@ -11,3 +11,48 @@ export interface ProductSyncResult {
   stats: ProductSyncStats;
   errors: string[];
 }
+
+// Stored in KiotVietConfig.syncSettings
+export interface KiotVietSyncSettings {
+  autoSync: boolean;
+  syncInterval: number; // seconds
+  syncProducts: boolean;
+  syncCustomers: boolean;
+  syncOrders: boolean;
+  syncCategories: boolean;
+  lastSync?: string | null;
+  retryAttempts: number;
+  retryDelay: number; // milliseconds
+}
+
+export type KiotVietSyncToggle =
+  | 'syncProducts'
+  | 'syncCustomers'
+  | 'syncOrders'
+  | 'syncCategories';
+
+export type KiotVietSyncMode = 'incremental' | 'full';
+
+export interface KiotVietProductSyncOptions {
+  // Ignore the stored cursor and page through the whole catalogue
+  fullResync?: boolean;
+}
+
+export interface KiotVietCustomerSyncOptions {
+  // Ignore the stored cursor and pull every KiotViet customer
+  fullResync?: boolean;
+}
+
+// Which side wins when a linked customer changed in both ACTA and KiotViet
+// since the last sync ('latest' compares the modification times)
+export type KiotVietConflictResolution = 'kiotviet' | 'acta' | 'latest';
+
+// Stored in KiotVietConfig.fieldMappings.customer, values are KiotViet field names
+export interface KiotVietCustomerFieldMappings {
+  name: string;
+  code: string;
+  phone: string;
+  email: string;
+  address: string;
+  conflictResolution: KiotVietConflictResolution;
+}
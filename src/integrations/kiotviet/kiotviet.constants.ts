@@ -1,3 +1,5 @@
+import { InvoiceStatus, OrderStatus } from '@prisma/client';
+
 export const API_ENDPOINTS = {
   // Authentication - Xác thực
   TOKEN: '/connect/token', //
@@ -177,3 +179,19 @@ export const API_ENDPOINTS = {
     LIST: '/suppliers',
   },
 };
+
+// Order status codes - Trạng thái đặt hàng KiotViet
+export const KIOTVIET_ORDER_STATUS_MAP: Record<number, OrderStatus> = {
+  1: OrderStatus.draft, // Phiếu tạm
+  2: OrderStatus.delivering, // Đang giao hàng
+  3: OrderStatus.completed, // Hoàn thành
+  4: OrderStatus.cancelled, // Đã hủy
+  5: OrderStatus.confirmed, // Đã xác nhận
+};
+
+// Invoice status codes - Trạng thái hóa đơn KiotViet
+export const KIOTVIET_INVOICE_STATUS_MAP: Record<number, InvoiceStatus> = {
+  1: InvoiceStatus.completed, // Hoàn thành
+  2: InvoiceStatus.cancelled, // Đã hủy
+  3: InvoiceStatus.delivering, // Đang xử lý
+};
@@ -11,6 +11,7 @@ import {
   KiotVietOrderController,
   KiotVietPriceBookController,
   KiotVietWebhookController,
+  KiotVietWebhookReceiverController,
   KiotVietVoucherController,
   KiotVietUserController,
   KiotVietTransferController,
@@ -20,6 +21,8 @@ import {
   KiotVietBranchController,
   KiotVietProductMappingController,
   KiotVietProductSyncingController,
+  KiotVietOrderSyncingController,
+  KiotVietCustomerSyncingController,
   KiotVietSyncLogsController,
 } from './controllers';
 import {
@@ -51,9 +54,14 @@ import {
   KiotVietProductRelationshipsHelper,
   KiotVietWarehouseHelper,
 } from './services/kiotviet-syncing/products';
+import { KiotVietOrderPushService } from './services/kiotviet-syncing/orders';
+import { KiotVietCustomerSyncService } from './services/kiotviet-syncing/customers';
 import { KiotVietSyncingHelpersService } from './services/kiotviet-syncing/kiotviet-syncing-helpers.service';
 import { KiotVietProductCrudService } from './services/kiotviet-syncing/products/kiotviet-product-crud.service';
 import { KiotVietSyncLogService } from './services/kiotviet-sync-log.service';
+import { KiotVietSyncSchedulerService } from './services/kiotviet-sync-scheduler.service';
+import { KiotVietWebhookEventService } from './services/kiotviet-webhook-event.service';
+import { RedisService } from '../../common/services/redis.service';
 import { KiotVietProductUtil } from './utils/kiotviet-product.util';
 
 @Module({
@@ -70,6 +78,7 @@ import { KiotVietProductUtil } from './utils/kiotviet-product.util';
     KiotVietOrderController,
     KiotVietPriceBookController,
     KiotVietWebhookController,
+    KiotVietWebhookReceiverController,
     KiotVietVoucherController,
     KiotVietUserController,
     KiotVietTransferController,
@@ -80,6 +89,8 @@ import { KiotVietProductUtil } from './utils/kiotviet-product.util';
     KiotVietConfigController,
     KiotVietProductMappingController,
     KiotVietProductSyncingController,
+    KiotVietOrderSyncingController,
+    KiotVietCustomerSyncingController,
     KiotVietSyncLogsController,
   ],
   providers: [
@@ -113,6 +124,11 @@ import { KiotVietProductUtil } from './utils/kiotviet-product.util';
     KiotVietProductCrudService,
     KiotVietSyncLogService,
     KiotVietProductUtil,
+    KiotVietSyncSchedulerService,
+    KiotVietWebhookEventService,
+    KiotVietOrderPushService,
+    KiotVietCustomerSyncService,
+    RedisService,
   ],
 })
 export class KiotVietModule {}
@@ -11,7 +11,10 @@ import { firstValueFrom } from 'rxjs';
 import { JwtPayload } from '../../../auth/jwt-payload';
 import {
   KiotVietApiListResponse,
+  KiotVietCustomerGroupItem,
   KiotVietCustomerItem,
+  KiotVietCustomerQueryOptions,
+  KiotVietCustomerWriteRequest,
 } from '../../interfaces';
 import { API_ENDPOINTS } from '../kiotviet.constants';
 import { KiotVietAuthService } from './kiot-viet.auth.service';
@@ -43,8 +46,11 @@ export class KiotVietCustomerService {
    */
   async getCustomers(
     user: JwtPayload,
+    queryOptions?: KiotVietCustomerQueryOptions,
   ): Promise<KiotVietApiListResponse<KiotVietCustomerItem>> {
-    const cacheKey = `kiotviet:customers:${user.id}`;
+    const cacheKey = queryOptions
+      ? `kiotviet:customers:${user.id}:${JSON.stringify(queryOptions)}`
+      : `kiotviet:customers:${user.id}`;
     const cacheTTL = 300; // 5 minutes cache
 
     // Check cache first
@@ -65,7 +71,7 @@ export class KiotVietCustomerService {
       const response = await firstValueFrom(
         this.httpService.get(
           `${config.apiUrl}/${API_ENDPOINTS.CUSTOMERS.LIST}`,
-          { headers },
+          { headers, params: queryOptions },
         ),
       );
 
@@ -126,7 +132,7 @@ export class KiotVietCustomerService {
    */
   async createCustomer(
     user: JwtPayload,
-    customerData: Partial<KiotVietCustomerItem>,
+    customerData: KiotVietCustomerWriteRequest,
   ): Promise<KiotVietCustomerItem> {
     try {
       const headers = await this.authService.createHeaders(user);
@@ -158,7 +164,7 @@ export class KiotVietCustomerService {
   async updateCustomer(
     user: JwtPayload,
     customerId: string,
-    customerData: Partial<KiotVietCustomerItem>,
+    customerData: KiotVietCustomerWriteRequest,
   ): Promise<KiotVietCustomerItem> {
     try {
       const headers = await this.authService.createHeaders(user);
@@ -209,12 +215,17 @@ export class KiotVietCustomerService {
   /**
    * Get customer groups
    */
-  async getCustomerGroups(user: JwtPayload): Promise<any> {
+  async getCustomerGroups(
+    user: JwtPayload,
+  ): Promise<KiotVietApiListResponse<KiotVietCustomerGroupItem>> {
     const cacheKey = `kiotviet:customer-groups:${user.id}`;
     const cacheTTL = 300; // 5 minutes cache
 
     // Check cache first
-    const cachedGroups = await this.cacheManager.get<any>(cacheKey);
+    const cachedGroups =
+      await this.cacheManager.get<
+        KiotVietApiListResponse<KiotVietCustomerGroupItem>
+      >(cacheKey);
 
     if (cachedGroups) {
       this.logger.log(`Returning cached customer groups for user ${user.id}`);
@@ -9,7 +9,11 @@ import { HttpService } from '@nestjs/axios';
 import { Cache } from 'cache-manager';
 import { firstValueFrom } from 'rxjs';
 import { JwtPayload } from '../../../auth/jwt-payload';
-import { KiotVietApiListResponse, KiotVietOrderItem } from '../../interfaces';
+import {
+  KiotVietApiListResponse,
+  KiotVietCreateOrderRequest,
+  KiotVietOrderItem,
+} from '../../interfaces';
 import { API_ENDPOINTS } from '../kiotviet.constants';
 import { KiotVietAuthService } from './kiot-viet.auth.service';
 
@@ -46,9 +50,9 @@ export class KiotVietOrderService {
 
     // Check cache first
     const cachedOrders =
-      await this.cacheManager.get<
-        KiotVietApiListResponse<KiotVietOrderItem>
-      >(cacheKey);
+      await this.cacheManager.get<KiotVietApiListResponse<KiotVietOrderItem>>(
+        cacheKey,
+      );
 
     if (cachedOrders) {
       this.logger.log(`Returning cached orders for user ${user.id}`);
@@ -86,9 +90,8 @@ export class KiotVietOrderService {
     const cacheTTL = 300; // 5 minutes cache
 
     // Check cache first
-    const cachedOrder = await this.cacheManager.get<KiotVietOrderItem>(
-      cacheKey,
-    );
+    const cachedOrder =
+      await this.cacheManager.get<KiotVietOrderItem>(cacheKey);
 
     if (cachedOrder) {
       this.logger.log(
@@ -123,7 +126,7 @@ export class KiotVietOrderService {
    */
   async createOrder(
     user: JwtPayload,
-    orderData: Partial<KiotVietOrderItem>,
+    orderData: Partial<KiotVietOrderItem> | KiotVietCreateOrderRequest,
   ): Promise<KiotVietOrderItem> {
     try {
       const headers = await this.authService.createHeaders(user);
@@ -140,10 +143,15 @@ export class KiotVietOrderService {
       // Clear order cache
       await this.clearOrderCache(user.id);
 
-      this.logger.log(`Created order: ${orderData.code || orderData.id}`);
+      this.logger.log(`Created order: ${response.data?.code}`);
       return response.data;
     } catch (error) {
-      this.handleError(error, 'create order');
+      // Keep KiotViet's reason so failed pushes are logged with it
+      const reason = error.response?.data?.responseStatus?.message;
+      this.handleError(
+        error,
+        reason ? `create order: ${reason}` : 'create order',
+      );
     }
   }
 
@@ -81,6 +81,9 @@ export class KiotVietProductService {
       if (paginationOptions?.includeRemoveIds) {
         params.includeRemoveIds = paginationOptions.includeRemoveIds;
       }
+      if (paginationOptions?.lastModifiedFrom) {
+        params.lastModifiedFrom = paginationOptions.lastModifiedFrom;
+      }
 
       const response = await firstValueFrom(
         this.httpService.get(
@@ -6,9 +6,11 @@ import {
   Logger,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
+import { OriginSource } from '@prisma/client';
 import { Cache } from 'cache-manager';
 import { firstValueFrom } from 'rxjs';
 import { JwtPayload } from '../../../auth/jwt-payload';
+import { PrismaService } from '../../../common/services/prisma.service';
 import {
   KiotVietApiListResponse,
   KiotVietWebhookItem,
@@ -24,6 +26,7 @@ export class KiotVietWebhookService {
   constructor(
     private readonly httpService: HttpService,
     private readonly authService: KiotVietAuthService,
+    private readonly prisma: PrismaService,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
   ) {}
 
@@ -127,7 +130,7 @@ export class KiotVietWebhookService {
    */
   async createWebhook(
     user: JwtPayload,
-    webhookData: Partial<KiotVietWebhookItem>,
+    webhookData: Partial<KiotVietWebhookItem> & { secret?: string },
   ): Promise<KiotVietWebhookItem> {
     try {
       const headers = await this.authService.createHeaders(user);
@@ -144,6 +147,9 @@ export class KiotVietWebhookService {
       // Clear webhook cache
       await this.clearWebhookCache(user.id);
 
+      // Keep the registration and its secret to verify incoming callbacks
+      await this.saveWebhookRegistration(response.data, webhookData);
+
       this.logger.log(
         `Created webhook: ${webhookData.url || webhookData.type}`,
       );
@@ -201,12 +207,49 @@ export class KiotVietWebhookService {
       // Clear webhook cache
       await this.clearWebhookCache(user.id);
 
+      await this.prisma.webHook.deleteMany({
+        where: { kiotVietWebhookId: parseInt(webhookId) },
+      });
+
       this.logger.log(`Deleted webhook ${webhookId}`);
     } catch (error) {
       this.handleError(error, `delete webhook ${webhookId}`);
     }
   }
 
+  /**
+   * Store a webhook registered on KiotViet in the WebHook table
+   */
+  private async saveWebhookRegistration(
+    webhook: KiotVietWebhookItem,
+    webhookData: Partial<KiotVietWebhookItem> & { secret?: string },
+  ): Promise<void> {
+    const secret =
+      webhookData.secret || this.authService.getConfig().webhookSecret;
+
+    if (!webhook?.id || !secret) {
+      this.logger.warn(
+        `Webhook ${webhook?.id ?? webhookData.type} has no secret - callbacks will be verified with KIOTVIET_WEBHOOK_SECRET only`,
+      );
+      return;
+    }
+
+    const data = {
+      type: webhook.type ?? webhookData.type ?? '',
+      url: webhook.url ?? webhookData.url ?? '',
+      isActive: webhook.isActive ?? true,
+      description: webhook.description ?? webhookData.description ?? '',
+      secret,
+      source: OriginSource.kiotviet,
+    };
+
+    await this.prisma.webHook.upsert({
+      where: { kiotVietWebhookId: webhook.id },
+      update: data,
+      create: { kiotVietWebhookId: webhook.id, ...data },
+    });
+  }
+
   /**
    * Clear webhook cache for user
    */
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../common/services/prisma.service';
 import { SyncDirection, SyncEntityType, SyncStatus } from '@prisma/client';
+import { KiotVietSyncMode } from '../interfaces/sync.interface';
 
 export interface SyncStats {
   adds: number;
@@ -16,11 +17,20 @@ export interface SyncLogDetails {
   successCount: number;
   failedCount: number;
   errorDetails?: string[];
+  // Scheduled runs record how they were started and how many attempts they took
+  trigger?: 'manual' | 'scheduled';
+  attempts?: number;
+  // Incremental syncs resume from the cursor: the latest KiotViet modifiedDate
+  // applied, kept in KiotViet's own format so it can be sent back as-is
+  mode?: KiotVietSyncMode;
+  cursor?: string;
   categoryStats?: SyncStats;
   businessStats?: SyncStats;
   warehouseStats?: SyncStats;
   productStats?: SyncStats;
   userStats?: SyncStats;
+  customerStats?: SyncStats;
+  customerGroupStats?: SyncStats;
   // New product relationship statistics
   productImageStats?: SyncStats;
   productInventoryStats?: SyncStats;
@@ -136,6 +146,28 @@ export class KiotVietSyncLogService {
     });
   }
 
+  /**
+   * High-water mark of the last successful sync that recorded one.
+   * Scheduler summary logs carry no cursor, so a few recent logs are checked.
+   */
+  async getLastSyncCursor(
+    entityType: SyncEntityType,
+    direction: SyncDirection,
+  ): Promise<string | null> {
+    const logs = await this.prisma.syncLog.findMany({
+      where: { entityType, direction, status: SyncStatus.SUCCESS },
+      orderBy: { startTime: 'desc' },
+      select: { details: true },
+      take: 20,
+    });
+
+    const cursor = logs
+      .map((log) => (log.details as Partial<SyncLogDetails> | null)?.cursor)
+      .find(Boolean);
+
+    return cursor ?? null;
+  }
+
   /**
    * Calculate sync statistics
    */
@@ -183,6 +215,8 @@ ${buildStatLine('Businesses', details.businessStats)}
 ${buildStatLine('Warehouses', details.warehouseStats)}
 ${buildStatLine('Users', details.userStats)}
 ${buildStatLine('Products', details.productStats)}
+${buildStatLine('Customer Groups', details.customerGroupStats)}
+${buildStatLine('Customers', details.customerStats)}
 
 == Product Relationship Statistics ==
 ${buildStatLine('Product Images', details.productImageStats)}
@@ -231,8 +265,9 @@ ${buildStatLine('Product Order Templates', details.productOrderTemplateStats)}
     logId: string,
     status: SyncStatus,
     details: SyncLogDetails,
+    entityType: SyncEntityType = SyncEntityType.PRODUCT,
   ) {
     await this.updateSyncLog(logId, status, details);
-    this.logSyncSummary(SyncEntityType.PRODUCT, details);
+    this.logSyncSummary(entityType, details);
   }
 }
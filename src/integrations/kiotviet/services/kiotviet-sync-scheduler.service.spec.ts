@@ -0,0 +1,164 @@
+import { SyncDirection, SyncEntityType, SyncStatus } from '@prisma/client';
+import { KiotVietSyncSchedulerService } from './kiotviet-sync-scheduler.service';
+
+describe('KiotVietSyncSchedulerService', () => {
+  const admin = {
+    id: 'admin-1',
+    email: 'admin@acta.vn',
+    phoneNumber: '0900000000',
+    referenceId: 'REF',
+  };
+
+  let prisma: any;
+  let redis: any;
+  let syncLogs: any;
+  let productSync: any;
+  let scheduler: KiotVietSyncSchedulerService;
+
+  const mockConfig = (overrides: Record<string, any> = {}) =>
+    prisma.kiotVietConfig.findFirst.mockResolvedValue({
+      id: 'config-1',
+      isActive: true,
+      syncSettings: {
+        autoSync: true,
+        syncInterval: 3600,
+        syncProducts: true,
+        retryAttempts: 2,
+        retryDelay: 1,
+      },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    prisma = {
+      kiotVietConfig: {
+        findFirst: jest.fn(),
+        findUnique: jest.fn().mockResolvedValue({ syncSettings: {} }),
+        update: jest.fn(),
+      },
+      user: { findFirst: jest.fn().mockResolvedValue(admin) },
+    };
+    redis = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      extendLock: jest.fn().mockResolvedValue(true),
+      releaseLock: jest.fn(),
+    };
+    syncLogs = {
+      getLatestSyncLog: jest.fn().mockResolvedValue(null),
+      createSyncLog: jest.fn(),
+    };
+    productSync = {
+      syncKiotVietProductsToActa: jest.fn(),
+      syncKiotVietCategoriesToActa: jest.fn(),
+    };
+
+    scheduler = new KiotVietSyncSchedulerService(
+      prisma,
+      redis,
+      syncLogs,
+      productSync,
+    );
+  });
+
+  it('should skip when the KiotViet integration is inactive', async () => {
+    mockConfig({ isActive: false });
+
+    await scheduler.handleScheduledSync();
+
+    expect(redis.acquireLock).not.toHaveBeenCalled();
+    expect(productSync.syncKiotVietProductsToActa).not.toHaveBeenCalled();
+  });
+
+  it('should not sync before the interval has elapsed', async () => {
+    mockConfig();
+    syncLogs.getLatestSyncLog.mockResolvedValue({
+      startTime: new Date(Date.now() - 60 * 1000),
+    });
+
+    await scheduler.handleScheduledSync();
+
+    expect(productSync.syncKiotVietProductsToActa).not.toHaveBeenCalled();
+  });
+
+  it('should skip when another instance holds the lock', async () => {
+    mockConfig();
+    redis.acquireLock.mockResolvedValue(null);
+
+    await scheduler.handleScheduledSync();
+
+    expect(productSync.syncKiotVietProductsToActa).not.toHaveBeenCalled();
+  });
+
+  it('should retry failures and record the run', async () => {
+    mockConfig();
+    productSync.syncKiotVietProductsToActa
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce({ success: true });
+
+    await scheduler.handleScheduledSync();
+
+    expect(productSync.syncKiotVietProductsToActa).toHaveBeenCalledTimes(2);
+    expect(productSync.syncKiotVietProductsToActa).toHaveBeenCalledWith(admin);
+    expect(syncLogs.createSyncLog).toHaveBeenCalledWith(
+      SyncDirection.KIOTVIET_TO_ACTA,
+      SyncEntityType.PRODUCT,
+      SyncStatus.SUCCESS,
+      expect.objectContaining({ trigger: 'scheduled', attempts: 2 }),
+      undefined,
+      expect.any(Date),
+      expect.any(Date),
+    );
+    expect(redis.releaseLock).toHaveBeenCalledWith(
+      'kiotviet:sync:lock',
+      'token',
+    );
+  });
+
+  it('should give up after retryAttempts and log the failure', async () => {
+    mockConfig();
+    productSync.syncKiotVietProductsToActa.mockRejectedValue(
+      new Error('quota exceeded'),
+    );
+
+    await scheduler.handleScheduledSync();
+
+    expect(productSync.syncKiotVietProductsToActa).toHaveBeenCalledTimes(3);
+    expect(syncLogs.createSyncLog).toHaveBeenCalledWith(
+      SyncDirection.KIOTVIET_TO_ACTA,
+      SyncEntityType.PRODUCT,
+      SyncStatus.FAILED,
+      expect.objectContaining({ attempts: 3 }),
+      undefined,
+      expect.any(Date),
+      expect.any(Date),
+    );
+  });
+
+  it('should run the category sync when syncCategories is enabled', async () => {
+    mockConfig({
+      syncSettings: {
+        autoSync: true,
+        syncInterval: 3600,
+        syncCategories: true,
+        retryAttempts: 0,
+        retryDelay: 1,
+      },
+    });
+
+    await scheduler.handleScheduledSync();
+
+    expect(productSync.syncKiotVietCategoriesToActa).toHaveBeenCalledWith(
+      admin,
+    );
+    expect(productSync.syncKiotVietProductsToActa).not.toHaveBeenCalled();
+    expect(syncLogs.createSyncLog).toHaveBeenCalledWith(
+      SyncDirection.KIOTVIET_TO_ACTA,
+      SyncEntityType.CATEGORY,
+      SyncStatus.SUCCESS,
+      expect.objectContaining({ trigger: 'scheduled' }),
+      undefined,
+      expect.any(Date),
+      expect.any(Date),
+    );
+  });
+});
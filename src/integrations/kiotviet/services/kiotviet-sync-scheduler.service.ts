@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Role,
+  SyncDirection,
+  SyncEntityType,
+  SyncStatus,
+} from '@prisma/client';
+import { JwtPayload } from '../../../auth/jwt-payload';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { RedisService } from '../../../common/services/redis.service';
+import {
+  KiotVietSyncSettings,
+  KiotVietSyncToggle,
+} from '../interfaces/sync.interface';
+import { KiotVietSyncLogService } from './kiotviet-sync-log.service';
+import { KiotVietProductSyncService } from './kiotviet-syncing/products';
+
+export interface KiotVietScheduledSync {
+  toggle: KiotVietSyncToggle;
+  entityType: SyncEntityType;
+  direction: SyncDirection;
+  run: (user: JwtPayload) => Promise<unknown>;
+}
+
+const SYNC_LOCK_KEY = 'kiotviet:sync:lock';
+const SYNC_LOCK_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_SYNC_SETTINGS: KiotVietSyncSettings = {
+  autoSync: false,
+  syncInterval: 3600,
+  syncProducts: false,
+  syncCustomers: false,
+  syncOrders: false,
+  syncCategories: false,
+  lastSync: null,
+  retryAttempts: 3,
+  retryDelay: 5000,
+};
+
+/**
+ * Runs the enabled KiotViet syncs on the interval from KiotVietConfig.syncSettings.
+ * A Redis lock makes sure only one API instance syncs at a time.
+ */
+@Injectable()
+export class KiotVietSyncSchedulerService {
+  private readonly logger = new Logger(KiotVietSyncSchedulerService.name);
+  private readonly syncs = new Map<KiotVietSyncToggle, KiotVietScheduledSync>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly syncLogService: KiotVietSyncLogService,
+    productSyncService: KiotVietProductSyncService,
+  ) {
+    this.register({
+      toggle: 'syncProducts',
+      entityType: SyncEntityType.PRODUCT,
+      direction: SyncDirection.KIOTVIET_TO_ACTA,
+      run: (user) => productSyncService.syncKiotVietProductsToActa(user),
+    });
+    this.register({
+      toggle: 'syncCategories',
+      entityType: SyncEntityType.CATEGORY,
+      direction: SyncDirection.KIOTVIET_TO_ACTA,
+      run: (user) => productSyncService.syncKiotVietCategoriesToActa(user),
+    });
+    // syncCustomers is registered by KiotVietCustomerSyncService. syncOrders
+    // is not interval based: KiotVietOrderPushService drains its queue every
+    // minute while the toggle is on.
+  }
+
+  /**
+   * Add a sync to the schedule (other KiotViet sync services call this)
+   */
+  register(sync: KiotVietScheduledSync): void {
+    this.syncs.set(sync.toggle, sync);
+  }
+
+  /**
+   * Checks every minute which syncs are due
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleScheduledSync(): Promise<void> {
+    const config = await this.prisma.kiotVietConfig.findFirst({
+      select: { id: true, isActive: true, syncSettings: true },
+    });
+
+    if (!config?.isActive) return;
+
+    const settings: KiotVietSyncSettings = {
+      ...DEFAULT_SYNC_SETTINGS,
+      ...((config.syncSettings as Partial<KiotVietSyncSettings>) ?? {}),
+    };
+
+    if (!settings.autoSync) return;
+
+    const due: KiotVietScheduledSync[] = [];
+    for (const [toggle, sync] of this.syncs) {
+      if (settings[toggle] && (await this.isDue(sync, settings))) {
+        due.push(sync);
+      }
+    }
+
+    if (due.length === 0) return;
+
+    const lockToken = await this.redisService.acquireLock(
+      SYNC_LOCK_KEY,
+      SYNC_LOCK_TTL_MS,
+    );
+    if (!lockToken) {
+      this.logger.debug('KiotViet sync is running on another instance');
+      return;
+    }
+
+    try {
+      const user = await this.resolveSystemUser();
+      if (!user) {
+        this.logger.warn('No admin user found to run scheduled KiotViet sync');
+        return;
+      }
+
+      for (const sync of due) {
+        await this.runWithRetries(sync, user, settings);
+        await this.redisService.extendLock(
+          SYNC_LOCK_KEY,
+          lockToken,
+          SYNC_LOCK_TTL_MS,
+        );
+      }
+
+      // Re-read so settings changed by an admin during the run are kept
+      const latest = await this.prisma.kiotVietConfig.findUnique({
+        where: { id: config.id },
+        select: { syncSettings: true },
+      });
+      await this.prisma.kiotVietConfig.update({
+        where: { id: config.id },
+        data: {
+          syncSettings: {
+            ...((latest?.syncSettings as object) ?? settings),
+            lastSync: new Date().toISOString(),
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Scheduled KiotViet sync failed: ${error.message}`);
+    } finally {
+      await this.redisService.releaseLock(SYNC_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * A sync is due when its last run (manual or scheduled) started
+   * at least syncInterval seconds ago
+   */
+  private async isDue(
+    sync: KiotVietScheduledSync,
+    settings: KiotVietSyncSettings,
+  ): Promise<boolean> {
+    const lastLog = await this.syncLogService.getLatestSyncLog(
+      sync.entityType,
+      sync.direction,
+    );
+
+    if (!lastLog) return true;
+
+    return (
+      Date.now() - lastLog.startTime.getTime() >= settings.syncInterval * 1000
+    );
+  }
+
+  /**
+   * Run a sync, retrying up to retryAttempts times, and record the run in SyncLog
+   */
+  private async runWithRetries(
+    sync: KiotVietScheduledSync,
+    user: JwtPayload,
+    settings: KiotVietSyncSettings,
+  ): Promise<void> {
+    const startTime = new Date();
+    const maxAttempts = settings.retryAttempts + 1;
+    const errors: string[] = [];
+    let attempts = 0;
+    let succeeded = false;
+
+    while (attempts < maxAttempts && !succeeded) {
+      attempts++;
+
+      try {
+        this.logger.log(
+          `Scheduled ${sync.entityType} sync started (attempt ${attempts}/${maxAttempts})`,
+        );
+        await sync.run(user);
+        succeeded = true;
+      } catch (error) {
+        errors.push(`Attempt ${attempts}: ${error.message}`);
+        this.logger.warn(
+          `Scheduled ${sync.entityType} sync attempt ${attempts} failed: ${error.message}`,
+        );
+
+        if (attempts < maxAttempts) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, settings.retryDelay * attempts),
+          );
+        }
+      }
+    }
+
+    await this.syncLogService.createSyncLog(
+      sync.direction,
+      sync.entityType,
+      succeeded ? SyncStatus.SUCCESS : SyncStatus.FAILED,
+      {
+        totalRecords: 1,
+        successCount: succeeded ? 1 : 0,
+        failedCount: succeeded ? 0 : 1,
+        errorDetails: errors,
+        trigger: 'scheduled',
+        attempts,
+      },
+      undefined,
+      startTime,
+      new Date(),
+    );
+  }
+
+  /**
+   * KiotViet calls are authorised as an admin; scheduled runs use the oldest active admin
+   */
+  async resolveSystemUser(): Promise<JwtPayload | null> {
+    const admin = await this.prisma.user.findFirst({
+      where: { role: Role.admin, isActive: true },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        email: true,
+        phoneNumber: true,
+        referenceId: true,
+      },
+    });
+
+    return admin;
+  }
+}
@@ -0,0 +1,2 @@
+export { KiotVietCustomerSyncService } from './kiotviet-customer-sync.service';
+export { KiotVietCustomerMappingHelper } from './kiotviet-customer-mapping.helper';
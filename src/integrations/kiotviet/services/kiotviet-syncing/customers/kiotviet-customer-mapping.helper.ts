@@ -0,0 +1,228 @@
+import { Prisma } from '@prisma/client';
+import {
+  KiotVietCustomerItem,
+  KiotVietCustomerWriteRequest,
+} from '../../../../interfaces';
+import {
+  KiotVietConflictResolution,
+  KiotVietCustomerFieldMappings,
+} from '../../../interfaces/sync.interface';
+
+export const DEFAULT_CUSTOMER_FIELD_MAPPINGS: KiotVietCustomerFieldMappings = {
+  name: 'name',
+  code: 'code',
+  phone: 'contactNumber',
+  email: 'email',
+  address: 'address',
+  conflictResolution: 'latest',
+};
+
+export const KIOTVIET_CUSTOMER_SYNC_INCLUDE = {
+  user: {
+    select: {
+      fullName: true,
+      email: true,
+      phoneNumber: true,
+      updatedAt: true,
+    },
+  },
+  customerGroup: { select: { kiotVietCustomerGroupId: true } },
+} satisfies Prisma.CustomerInclude;
+
+export type KiotVietSyncCustomer = Prisma.CustomerGetPayload<{
+  include: typeof KIOTVIET_CUSTOMER_SYNC_INCLUDE;
+}>;
+
+// Full customers from GET /customers or partial ones from webhooks
+export type KiotVietCustomerPayload = Partial<KiotVietCustomerItem> & {
+  id: number;
+};
+
+// A KiotViet customer read through the configured field mappings.
+// Fields missing from the payload (e.g. partial webhook data) stay undefined.
+export interface KiotVietCustomerValues {
+  id: number;
+  code?: string;
+  name?: string;
+  contactNumber?: string;
+  email?: string;
+  address?: string;
+  taxCode?: string;
+  comments?: string;
+  debt?: number;
+  rewardPoint?: number;
+  totalPoint?: number;
+  totalRevenue?: number;
+  groupNames?: string[];
+  modifiedAt?: Date;
+}
+
+export class KiotVietCustomerMappingHelper {
+  static resolveFieldMappings(
+    fieldMappings: unknown,
+  ): KiotVietCustomerFieldMappings {
+    const customer = (fieldMappings as { customer?: object } | null)?.customer;
+
+    return {
+      ...DEFAULT_CUSTOMER_FIELD_MAPPINGS,
+      ...(customer ?? {}),
+    };
+  }
+
+  /**
+   * Vietnamese phone numbers are stored in the local 0xxx form so
+   * +84 / 84 prefixed numbers from KiotViet still match
+   */
+  static normalizePhone(phone?: string | null): string | undefined {
+    if (!phone) return undefined;
+
+    const digits = phone.replace(/[^\d+]/g, '');
+    if (digits.startsWith('+84')) return `0${digits.slice(3)}`;
+    if (digits.startsWith('84') && digits.length === 11) {
+      return `0${digits.slice(2)}`;
+    }
+
+    return digits || undefined;
+  }
+
+  static normalizeEmail(email?: string | null): string | undefined {
+    return email?.trim().toLowerCase() || undefined;
+  }
+
+  static fromKiotVietCustomer(
+    item: KiotVietCustomerPayload,
+    mappings: KiotVietCustomerFieldMappings,
+  ): KiotVietCustomerValues {
+    const source = item as unknown as Record<string, unknown>;
+    const text = (field: string) =>
+      typeof source[field] === 'string' ? (source[field] as string) : undefined;
+    const modifiedDate = item.modifiedDate ?? item.createdDate;
+
+    return {
+      id: item.id,
+      code: text(mappings.code),
+      name: text(mappings.name),
+      contactNumber:
+        source[mappings.phone] !== undefined
+          ? (this.normalizePhone(text(mappings.phone)) ?? '')
+          : undefined,
+      email:
+        source[mappings.email] !== undefined
+          ? (this.normalizeEmail(text(mappings.email)) ?? '')
+          : undefined,
+      address: text(mappings.address),
+      taxCode: item.taxCode,
+      comments: item.comments,
+      debt: item.debt,
+      rewardPoint: item.rewardPoint,
+      totalPoint: item.totalPoint,
+      totalRevenue: item.totalRevenue,
+      groupNames: item.groups
+        ?.split(/[|,]/)
+        .map((name) => name.trim())
+        .filter(Boolean),
+      modifiedAt: modifiedDate ? new Date(modifiedDate) : undefined,
+    };
+  }
+
+  /**
+   * Contact fields KiotViet owns when it wins a conflict. Only fields present
+   * in the payload are written.
+   */
+  static toContactData(values: KiotVietCustomerValues) {
+    return {
+      ...(values.name !== undefined && { name: values.name }),
+      ...(values.contactNumber !== undefined && {
+        contactNumber: values.contactNumber || null,
+      }),
+      ...(values.email !== undefined && { email: values.email || null }),
+      ...(values.address !== undefined && { address: values.address }),
+      ...(values.taxCode !== undefined && { taxCode: values.taxCode }),
+      ...(values.comments !== undefined && { comments: values.comments }),
+    };
+  }
+
+  /**
+   * Debt and points are kept by KiotViet, so they are always pulled
+   */
+  static toMetricsData(values: KiotVietCustomerValues) {
+    return {
+      ...(values.debt !== undefined && { debt: values.debt }),
+      ...(values.rewardPoint !== undefined && {
+        rewardPoint: Math.trunc(values.rewardPoint),
+      }),
+      ...(values.totalPoint !== undefined && {
+        totalPoint: Math.trunc(values.totalPoint),
+      }),
+      ...(values.totalRevenue !== undefined && {
+        totalRevenue: values.totalRevenue,
+      }),
+      ...(values.modifiedAt && { kiotVietModifiedAt: values.modifiedAt }),
+    };
+  }
+
+  /**
+   * Last time the ACTA side of a customer changed (its own row or its account)
+   */
+  static actaModifiedAt(customer: KiotVietSyncCustomer): Date {
+    const userUpdatedAt = customer.user?.updatedAt;
+
+    return userUpdatedAt && userUpdatedAt > customer.updatedAt
+      ? userUpdatedAt
+      : customer.updatedAt;
+  }
+
+  static hasActaChanges(customer: KiotVietSyncCustomer): boolean {
+    return (
+      !customer.kiotVietSyncedAt ||
+      this.actaModifiedAt(customer) > customer.kiotVietSyncedAt
+    );
+  }
+
+  /**
+   * Whether KiotViet's contact details should overwrite the ACTA customer
+   */
+  static kiotVietWins(
+    customer: KiotVietSyncCustomer,
+    values: KiotVietCustomerValues,
+    rule: KiotVietConflictResolution,
+  ): boolean {
+    if (!this.hasActaChanges(customer)) return true;
+    if (rule === 'kiotviet') return true;
+    if (rule === 'acta') return false;
+
+    return (
+      !!values.modifiedAt && values.modifiedAt >= this.actaModifiedAt(customer)
+    );
+  }
+
+  /**
+   * POST/PUT /customers body for an ACTA customer. Account details take
+   * precedence over the contact fields stored on the customer.
+   */
+  static toKiotVietRequest(
+    customer: KiotVietSyncCustomer,
+    mappings: KiotVietCustomerFieldMappings,
+  ): KiotVietCustomerWriteRequest {
+    const body: Record<string, unknown> = {
+      [mappings.code]: customer.kiotVietCustomerCode ?? undefined,
+      [mappings.name]:
+        customer.user?.fullName ??
+        customer.name ??
+        customer.kiotVietCustomerCode,
+      [mappings.phone]:
+        this.normalizePhone(
+          customer.user?.phoneNumber ?? customer.contactNumber,
+        ) ?? undefined,
+      [mappings.email]: customer.user?.email ?? customer.email ?? undefined,
+      [mappings.address]: customer.address ?? undefined,
+      taxCode: customer.taxCode ?? undefined,
+      comments: customer.comments ?? undefined,
+    };
+
+    const groupId = customer.customerGroup?.kiotVietCustomerGroupId;
+    if (groupId) body.groupIds = [groupId];
+
+    return body as KiotVietCustomerWriteRequest;
+  }
+}
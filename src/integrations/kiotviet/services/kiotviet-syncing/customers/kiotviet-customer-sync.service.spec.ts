@@ -0,0 +1,245 @@
+import { SyncDirection } from '@prisma/client';
+import { KiotVietCustomerSyncService } from './kiotviet-customer-sync.service';
+
+describe('KiotVietCustomerSyncService', () => {
+  const user = {
+    id: 'admin-1',
+    email: 'admin@acta.vn',
+    phoneNumber: '0900000000',
+    referenceId: 'REF',
+  };
+
+  const lastSyncedAt = new Date('2026-03-01T00:00:00.000Z');
+
+  const kiotVietCustomer = (overrides: Record<string, unknown> = {}) => ({
+    id: 501,
+    code: 'KH000501',
+    name: 'Trần Thị B',
+    contactNumber: '+84911111111',
+    email: 'B@acta.vn',
+    address: '2 Hàng Bài',
+    debt: 150000,
+    rewardPoint: 12.5,
+    groups: 'Khách sỉ',
+    createdDate: '2026-01-01T00:00:00',
+    modifiedDate: '2026-03-05T09:00:00',
+    ...overrides,
+  });
+
+  const actaCustomer = (overrides: Record<string, unknown> = {}) => ({
+    id: 'customer-1',
+    kiotVietCustomerId: null,
+    kiotVietCustomerCode: 'KH-ACTA-1',
+    name: null,
+    contactNumber: null,
+    email: null,
+    address: null,
+    taxCode: null,
+    comments: null,
+    source: 'acta',
+    kiotVietSyncedAt: lastSyncedAt,
+    updatedAt: lastSyncedAt,
+    user: {
+      fullName: 'Trần Thị B',
+      email: 'b@acta.vn',
+      phoneNumber: '0911111111',
+      updatedAt: lastSyncedAt,
+    },
+    customerGroup: null,
+    ...overrides,
+  });
+
+  let prisma: any;
+  let customerService: any;
+  let syncLogService: any;
+  let service: KiotVietCustomerSyncService;
+
+  beforeEach(() => {
+    prisma = {
+      kiotVietConfig: { findFirst: jest.fn().mockResolvedValue(null) },
+      customer: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      customerGroup: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: 'group-1', name: 'Khách sỉ' }]),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+    customerService = {
+      getCustomers: jest.fn().mockResolvedValue({ data: [] }),
+      getCustomerGroups: jest.fn().mockResolvedValue({ data: [] }),
+      createCustomer: jest.fn(),
+      updateCustomer: jest.fn(),
+    };
+    syncLogService = {
+      getLastSyncCursor: jest.fn().mockResolvedValue(null),
+      startSyncLog: jest.fn().mockResolvedValue('log-1'),
+      completeSyncLog: jest.fn(),
+    };
+
+    service = new KiotVietCustomerSyncService(
+      prisma,
+      customerService,
+      syncLogService,
+      { register: jest.fn() } as any,
+    );
+  });
+
+  describe('pullKiotVietCustomers', () => {
+    it('should link an ACTA customer with the same phone and pull debt and points', async () => {
+      customerService.getCustomers.mockResolvedValue({
+        data: [kiotVietCustomer()],
+      });
+      prisma.customer.findFirst.mockResolvedValue(actaCustomer());
+
+      const { details } = await service.pullKiotVietCustomers(user);
+
+      expect(prisma.customer.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            kiotVietCustomerId: null,
+            OR: [
+              { contactNumber: '0911111111' },
+              { user: { phoneNumber: '0911111111' } },
+            ],
+          },
+        }),
+      );
+      expect(prisma.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: expect.objectContaining({
+          kiotVietCustomerId: 501,
+          kiotVietCustomerCode: 'KH000501',
+          email: 'b@acta.vn',
+          debt: 150000,
+          rewardPoint: 12,
+          customerGroupId: 'group-1',
+        }),
+      });
+      expect(details.customerStats).toMatchObject({ updates: 1 });
+      expect(details.cursor).toBe('2026-03-05T09:00:00');
+    });
+
+    it('should keep ACTA changes when fieldMappings says ACTA wins', async () => {
+      prisma.kiotVietConfig.findFirst.mockResolvedValue({
+        fieldMappings: { customer: { conflictResolution: 'acta' } },
+      });
+      customerService.getCustomers.mockResolvedValue({
+        data: [kiotVietCustomer()],
+      });
+      const changedAt = new Date('2026-03-06T00:00:00.000Z');
+      prisma.customer.findUnique.mockResolvedValue(
+        actaCustomer({ kiotVietCustomerId: 501, updatedAt: changedAt }),
+      );
+
+      const { details } = await service.pullKiotVietCustomers(user);
+
+      const { data } = prisma.customer.update.mock.calls[0][0];
+      expect(data).toMatchObject({ debt: 150000, updatedAt: changedAt });
+      expect(data).not.toHaveProperty('name');
+      expect(data).not.toHaveProperty('kiotVietSyncedAt');
+      expect(details.customerStats).toMatchObject({ conflicts: 1 });
+    });
+
+    it('should create customers that only exist in KiotViet', async () => {
+      customerService.getCustomers.mockResolvedValue({
+        data: [kiotVietCustomer({ contactNumber: '', email: '' })],
+      });
+
+      await service.pullKiotVietCustomers(user);
+
+      expect(prisma.customer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          kiotVietCustomerId: 501,
+          source: 'kiotviet',
+          name: 'Trần Thị B',
+          contactNumber: null,
+        }),
+      });
+    });
+
+    it('should resume from the last cursor', async () => {
+      syncLogService.getLastSyncCursor.mockResolvedValue('2026-03-01T08:00:00');
+
+      const { details } = await service.pullKiotVietCustomers(user);
+
+      expect(syncLogService.getLastSyncCursor).toHaveBeenCalledWith(
+        'CUSTOMER',
+        SyncDirection.KIOTVIET_TO_ACTA,
+      );
+      expect(customerService.getCustomers).toHaveBeenCalledWith(
+        user,
+        expect.objectContaining({ lastModifiedFrom: '2026-03-01T08:00:00' }),
+      );
+      expect(details.mode).toBe('incremental');
+    });
+  });
+
+  describe('pushActaCustomers', () => {
+    it('should create unlinked ACTA customers in KiotViet', async () => {
+      prisma.customer.findMany.mockResolvedValue([actaCustomer()]);
+      customerService.createCustomer.mockResolvedValue({
+        id: 777,
+        code: 'KH-ACTA-1',
+      });
+
+      const { details } = await service.pushActaCustomers(user);
+
+      expect(customerService.getCustomers).toHaveBeenCalledWith(user, {
+        contactNumber: '0911111111',
+        pageSize: 1,
+      });
+      expect(customerService.createCustomer).toHaveBeenCalledWith(
+        user,
+        expect.objectContaining({
+          code: 'KH-ACTA-1',
+          name: 'Trần Thị B',
+          contactNumber: '0911111111',
+          email: 'b@acta.vn',
+        }),
+      );
+      expect(prisma.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: expect.objectContaining({ kiotVietCustomerId: 777 }),
+      });
+      expect(details.customerStats).toMatchObject({ adds: 1 });
+    });
+
+    it('should link instead of creating when KiotViet has the phone number', async () => {
+      prisma.customer.findMany.mockResolvedValue([actaCustomer()]);
+      prisma.customer.findFirst.mockResolvedValue(actaCustomer());
+      customerService.getCustomers.mockResolvedValue({
+        data: [kiotVietCustomer()],
+      });
+
+      await service.pushActaCustomers(user);
+
+      expect(customerService.createCustomer).not.toHaveBeenCalled();
+      expect(prisma.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: expect.objectContaining({ kiotVietCustomerId: 501 }),
+      });
+    });
+
+    it('should skip linked customers without ACTA changes', async () => {
+      prisma.customer.findMany.mockResolvedValue([
+        actaCustomer({ kiotVietCustomerId: 501 }),
+      ]);
+
+      const { details } = await service.pushActaCustomers(user);
+
+      expect(customerService.updateCustomer).not.toHaveBeenCalled();
+      expect(details.totalRecords).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,616 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  OriginSource,
+  SyncDirection,
+  SyncEntityType,
+  SyncStatus,
+} from '@prisma/client';
+import { JwtPayload } from '../../../../../auth/jwt-payload';
+import { PrismaService } from '../../../../../common/services/prisma.service';
+import {
+  KiotVietCustomerItem,
+  KiotVietCustomerQueryOptions,
+} from '../../../../interfaces';
+import {
+  KiotVietCustomerFieldMappings,
+  KiotVietCustomerSyncOptions,
+  KiotVietSyncMode,
+} from '../../../interfaces/sync.interface';
+import { KiotVietCustomerService } from '../../kiot-viet.customer.service';
+import {
+  KiotVietSyncLogService,
+  SyncLogDetails,
+  SyncStats,
+} from '../../kiotviet-sync-log.service';
+import { KiotVietSyncSchedulerService } from '../../kiotviet-sync-scheduler.service';
+import {
+  KIOTVIET_CUSTOMER_SYNC_INCLUDE,
+  KiotVietCustomerMappingHelper,
+  KiotVietCustomerPayload,
+  KiotVietCustomerValues,
+  KiotVietSyncCustomer,
+} from './kiotviet-customer-mapping.helper';
+
+export interface KiotVietCustomerSyncRun {
+  syncLogId: string;
+  details: SyncLogDetails;
+}
+
+/**
+ * Two-way customer sync. KiotViet customers and groups are pulled first
+ * (matched to ACTA customers by phone, then email), then ACTA customers
+ * that are new or changed are upserted into KiotViet. Conflicts follow
+ * fieldMappings.customer.conflictResolution; debt and points always come
+ * from KiotViet.
+ */
+@Injectable()
+export class KiotVietCustomerSyncService {
+  private readonly logger = new Logger(KiotVietCustomerSyncService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly kiotVietCustomerService: KiotVietCustomerService,
+    private readonly syncLogService: KiotVietSyncLogService,
+    schedulerService: KiotVietSyncSchedulerService,
+  ) {
+    schedulerService.register({
+      toggle: 'syncCustomers',
+      entityType: SyncEntityType.CUSTOMER,
+      direction: SyncDirection.KIOTVIET_TO_ACTA,
+      run: (user) => this.syncCustomers(user),
+    });
+  }
+
+  async syncCustomers(
+    user: JwtPayload,
+    options: KiotVietCustomerSyncOptions = {},
+  ) {
+    const pull = await this.pullKiotVietCustomers(user, options);
+    const push = await this.pushActaCustomers(user);
+
+    return { success: true, pull, push };
+  }
+
+  /**
+   * KIOTVIET_TO_ACTA: customer groups, then customers changed since the cursor
+   */
+  async pullKiotVietCustomers(
+    user: JwtPayload,
+    options: KiotVietCustomerSyncOptions = {},
+  ): Promise<KiotVietCustomerSyncRun> {
+    const previousCursor = options.fullResync
+      ? null
+      : await this.syncLogService.getLastSyncCursor(
+          SyncEntityType.CUSTOMER,
+          SyncDirection.KIOTVIET_TO_ACTA,
+        );
+    const mode: KiotVietSyncMode = previousCursor ? 'incremental' : 'full';
+    const syncLogId = await this.syncLogService.startSyncLog(
+      SyncDirection.KIOTVIET_TO_ACTA,
+      SyncEntityType.CUSTOMER,
+      0,
+    );
+
+    try {
+      const mappings = await this.loadFieldMappings();
+      const customerGroupStats = await this.syncCustomerGroups(user);
+      const { customers, removeIds } = await this.fetchAllKiotVietCustomers(
+        user,
+        previousCursor,
+      );
+
+      this.logger.log(
+        `Pulling ${customers.length} KiotViet customers (${mode}), ${removeIds.length} removals`,
+      );
+
+      const { details, failedIds } = await this.applyCustomers(
+        customers,
+        mappings,
+      );
+      details.mode = mode;
+      details.customerGroupStats = customerGroupStats;
+      details.customerStats!.deletes +=
+        await this.unlinkKiotVietCustomers(removeIds);
+      details.cursor =
+        this.getNextCursor(customers, failedIds) ?? previousCursor ?? undefined;
+
+      await this.syncLogService.completeSyncLog(
+        syncLogId,
+        SyncStatus.SUCCESS,
+        details,
+        SyncEntityType.CUSTOMER,
+      );
+
+      return { syncLogId, details };
+    } catch (error) {
+      await this.failSyncLog(syncLogId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ACTA_TO_KIOTVIET: create unlinked ACTA customers (reusing a KiotViet
+   * customer with the same phone) and update linked ones changed in ACTA
+   */
+  async pushActaCustomers(user: JwtPayload): Promise<KiotVietCustomerSyncRun> {
+    const startTime = new Date();
+    const previousCursor = await this.syncLogService.getLastSyncCursor(
+      SyncEntityType.CUSTOMER,
+      SyncDirection.ACTA_TO_KIOTVIET,
+    );
+    const since = previousCursor ? new Date(previousCursor) : null;
+    const syncLogId = await this.syncLogService.startSyncLog(
+      SyncDirection.ACTA_TO_KIOTVIET,
+      SyncEntityType.CUSTOMER,
+      0,
+    );
+
+    try {
+      const mappings = await this.loadFieldMappings();
+      const candidates = await this.prisma.customer.findMany({
+        where: {
+          OR: [
+            { kiotVietCustomerId: null, source: OriginSource.acta },
+            { kiotVietCustomerId: { not: null }, kiotVietSyncedAt: null },
+            ...(since
+              ? [
+                  { updatedAt: { gt: since } },
+                  { user: { updatedAt: { gt: since } } },
+                ]
+              : []),
+          ],
+        },
+        include: KIOTVIET_CUSTOMER_SYNC_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+      });
+      const customers = candidates.filter(
+        (customer) =>
+          !customer.kiotVietCustomerId ||
+          KiotVietCustomerMappingHelper.hasActaChanges(customer),
+      );
+
+      const details = this.initializeSyncDetails(customers.length);
+      const stats = details.customerStats!;
+
+      for (const customer of customers) {
+        try {
+          await this.pushCustomer(user, customer, mappings, stats);
+          details.successCount++;
+        } catch (error) {
+          stats.errors++;
+          details.failedCount++;
+          details.errorDetails!.push(
+            `Customer ${customer.kiotVietCustomerCode ?? customer.id}: ${error.message}`,
+          );
+        }
+      }
+
+      // Failed customers must stay candidates, so the cursor only moves on a clean run
+      details.cursor =
+        details.failedCount === 0
+          ? startTime.toISOString()
+          : (previousCursor ?? undefined);
+
+      await this.syncLogService.completeSyncLog(
+        syncLogId,
+        SyncStatus.SUCCESS,
+        details,
+        SyncEntityType.CUSTOMER,
+      );
+
+      return { syncLogId, details };
+    } catch (error) {
+      await this.failSyncLog(syncLogId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply KiotViet customers without calling the KiotViet API (webhooks)
+   */
+  async applyKiotVietCustomers(
+    customers: KiotVietCustomerPayload[],
+  ): Promise<SyncLogDetails> {
+    const mappings = await this.loadFieldMappings();
+    const { details } = await this.applyCustomers(customers, mappings);
+
+    return details;
+  }
+
+  private async applyCustomers(
+    customers: KiotVietCustomerPayload[],
+    mappings: KiotVietCustomerFieldMappings,
+  ): Promise<{ details: SyncLogDetails; failedIds: number[] }> {
+    const details = this.initializeSyncDetails(customers.length);
+    const groupIds = await this.loadGroupIdsByName();
+    const failedIds: number[] = [];
+
+    for (const customer of customers) {
+      try {
+        await this.applyCustomer(
+          KiotVietCustomerMappingHelper.fromKiotVietCustomer(
+            customer,
+            mappings,
+          ),
+          mappings,
+          groupIds,
+          details.customerStats!,
+        );
+        details.successCount++;
+      } catch (error) {
+        failedIds.push(customer.id);
+        details.failedCount++;
+        details.customerStats!.errors++;
+        details.errorDetails!.push(
+          `KiotViet customer ${customer.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return { details, failedIds };
+  }
+
+  private async applyCustomer(
+    values: KiotVietCustomerValues,
+    mappings: KiotVietCustomerFieldMappings,
+    groupIds: Map<string, string>,
+    stats: SyncStats,
+  ): Promise<void> {
+    const customer =
+      (await this.prisma.customer.findUnique({
+        where: { kiotVietCustomerId: values.id },
+        include: KIOTVIET_CUSTOMER_SYNC_INCLUDE,
+      })) ?? (await this.findMatchingCustomer(values));
+
+    const customerGroupId = values.groupNames
+      ?.map((name) => groupIds.get(name.toLowerCase()))
+      .find(Boolean);
+    const now = new Date();
+
+    if (!customer) {
+      // Partial webhook payloads are not enough to create a customer
+      if (values.name === undefined) {
+        stats.skips++;
+        return;
+      }
+
+      await this.prisma.customer.create({
+        data: {
+          kiotVietCustomerId: values.id,
+          kiotVietCustomerCode: values.code,
+          source: OriginSource.kiotviet,
+          ...KiotVietCustomerMappingHelper.toContactData(values),
+          ...KiotVietCustomerMappingHelper.toMetricsData(values),
+          customerGroupId,
+          kiotVietSyncedAt: now,
+        },
+      });
+      stats.adds++;
+      return;
+    }
+
+    // Linked customers take KiotViet's code so later pushes don't rename them
+    const link = {
+      kiotVietCustomerId: values.id,
+      ...(values.code && { kiotVietCustomerCode: values.code }),
+    };
+    const metrics = KiotVietCustomerMappingHelper.toMetricsData(values);
+
+    if (
+      KiotVietCustomerMappingHelper.kiotVietWins(
+        customer,
+        values,
+        mappings.conflictResolution,
+      )
+    ) {
+      await this.prisma.customer.update({
+        where: { id: customer.id },
+        data: {
+          ...link,
+          ...KiotVietCustomerMappingHelper.toContactData(values),
+          ...metrics,
+          ...(customerGroupId && { customerGroupId }),
+          kiotVietSyncedAt: now,
+          updatedAt: now,
+        },
+      });
+      stats.updates++;
+      return;
+    }
+
+    // ACTA keeps its changes (pushed back after the pull); updatedAt is kept
+    // so the customer still counts as changed in ACTA
+    await this.prisma.customer.update({
+      where: { id: customer.id },
+      data: { ...link, ...metrics, updatedAt: customer.updatedAt },
+    });
+    stats.conflicts++;
+  }
+
+  /**
+   * Unlinked ACTA customer with the same phone, or else the same email
+   */
+  private async findMatchingCustomer(
+    values: KiotVietCustomerValues,
+  ): Promise<KiotVietSyncCustomer | null> {
+    const { contactNumber, email } = values;
+
+    if (contactNumber) {
+      const byPhone = await this.prisma.customer.findFirst({
+        where: {
+          kiotVietCustomerId: null,
+          OR: [{ contactNumber }, { user: { phoneNumber: contactNumber } }],
+        },
+        include: KIOTVIET_CUSTOMER_SYNC_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+      });
+      if (byPhone) return byPhone;
+    }
+
+    if (email) {
+      return this.prisma.customer.findFirst({
+        where: {
+          kiotVietCustomerId: null,
+          OR: [
+            { email: { equals: email, mode: 'insensitive' } },
+            { user: { email: { equals: email, mode: 'insensitive' } } },
+          ],
+        },
+        include: KIOTVIET_CUSTOMER_SYNC_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+      });
+    }
+
+    return null;
+  }
+
+  private async pushCustomer(
+    user: JwtPayload,
+    customer: KiotVietSyncCustomer,
+    mappings: KiotVietCustomerFieldMappings,
+    stats: SyncStats,
+  ): Promise<void> {
+    const body = KiotVietCustomerMappingHelper.toKiotVietRequest(
+      customer,
+      mappings,
+    );
+    const now = new Date();
+
+    if (customer.kiotVietCustomerId) {
+      await this.kiotVietCustomerService.updateCustomer(
+        user,
+        String(customer.kiotVietCustomerId),
+        body,
+      );
+      await this.prisma.customer.update({
+        where: { id: customer.id },
+        data: { kiotVietSyncedAt: now, updatedAt: now },
+      });
+      stats.updates++;
+      return;
+    }
+
+    // The customer may already exist in KiotViet (e.g. created at the POS)
+    const phone = KiotVietCustomerMappingHelper.normalizePhone(
+      customer.user?.phoneNumber ?? customer.contactNumber,
+    );
+    const existing = phone
+      ? (
+          await this.kiotVietCustomerService.getCustomers(user, {
+            contactNumber: phone,
+            pageSize: 1,
+          })
+        ).data?.[0]
+      : undefined;
+
+    if (existing) {
+      // Link it like a pulled customer; the conflict rule decides which side wins
+      await this.applyCustomer(
+        KiotVietCustomerMappingHelper.fromKiotVietCustomer(existing, mappings),
+        mappings,
+        await this.loadGroupIdsByName(),
+        stats,
+      );
+      return;
+    }
+
+    const created = await this.kiotVietCustomerService.createCustomer(
+      user,
+      body,
+    );
+    await this.prisma.customer.update({
+      where: { id: customer.id },
+      data: {
+        kiotVietCustomerId: created.id,
+        kiotVietCustomerCode: created.code,
+        kiotVietSyncedAt: now,
+        updatedAt: now,
+      },
+    });
+    stats.adds++;
+  }
+
+  /**
+   * Groups are matched by KiotViet id, then linked by name
+   */
+  private async syncCustomerGroups(user: JwtPayload): Promise<SyncStats> {
+    const stats = this.initializeStats();
+    const response = await this.kiotVietCustomerService.getCustomerGroups(user);
+
+    for (const group of response?.data ?? []) {
+      const linked = await this.prisma.customerGroup.findUnique({
+        where: { kiotVietCustomerGroupId: group.id },
+      });
+
+      if (linked) {
+        if (linked.name === group.name) {
+          stats.skips++;
+          continue;
+        }
+
+        await this.prisma.customerGroup.update({
+          where: { id: linked.id },
+          data: { name: group.name },
+        });
+        stats.updates++;
+        continue;
+      }
+
+      const sameName = await this.prisma.customerGroup.findFirst({
+        where: { name: group.name, kiotVietCustomerGroupId: null },
+      });
+
+      if (sameName) {
+        await this.prisma.customerGroup.update({
+          where: { id: sameName.id },
+          data: { kiotVietCustomerGroupId: group.id },
+        });
+        stats.updates++;
+      } else {
+        await this.prisma.customerGroup.create({
+          data: { name: group.name, kiotVietCustomerGroupId: group.id },
+        });
+        stats.adds++;
+      }
+    }
+
+    return stats;
+  }
+
+  private async fetchAllKiotVietCustomers(
+    user: JwtPayload,
+    lastModifiedFrom?: string | null,
+  ) {
+    const customers: KiotVietCustomerItem[] = [];
+    const removeIds = new Set<number>();
+    const pageSize = 100;
+    let currentItem = 0;
+    let hasMoreData = true;
+
+    while (hasMoreData) {
+      const queryOptions: KiotVietCustomerQueryOptions = {
+        currentItem,
+        pageSize,
+        orderBy: 'id',
+        orderDirection: 'asc',
+        includeRemoveIds: true,
+        includeCustomerGroup: true,
+        ...(lastModifiedFrom && { lastModifiedFrom }),
+      };
+
+      const response = await this.kiotVietCustomerService.getCustomers(
+        user,
+        queryOptions,
+      );
+
+      response.removeIds?.forEach((id) => removeIds.add(id));
+
+      const page = response.data ?? [];
+      customers.push(...page);
+      currentItem += page.length;
+      hasMoreData = page.length === pageSize;
+    }
+
+    return { customers, removeIds: Array.from(removeIds) };
+  }
+
+  /**
+   * Customers deleted in KiotViet keep their ACTA history but lose the link
+   */
+  private async unlinkKiotVietCustomers(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { count } = await this.prisma.customer.updateMany({
+      where: { kiotVietCustomerId: { in: ids } },
+      data: { kiotVietCustomerId: null, kiotVietSyncedAt: null },
+    });
+
+    return count;
+  }
+
+  /**
+   * Newest modifiedDate applied, or the oldest failed one so it is retried
+   */
+  private getNextCursor(
+    customers: KiotVietCustomerItem[],
+    failedIds: number[],
+  ): string | undefined {
+    const failed = new Set(failedIds);
+    const candidates =
+      failed.size > 0
+        ? customers.filter((customer) => failed.has(customer.id))
+        : customers;
+    const pickOldest = failed.size > 0;
+
+    let cursor: string | undefined;
+    let cursorTime = pickOldest ? Infinity : -Infinity;
+
+    for (const customer of candidates) {
+      const modifiedDate = String(
+        customer.modifiedDate ?? customer.createdDate,
+      );
+      const time = new Date(modifiedDate).getTime();
+      if (isNaN(time)) continue;
+
+      if (pickOldest ? time < cursorTime : time > cursorTime) {
+        cursor = modifiedDate;
+        cursorTime = time;
+      }
+    }
+
+    return cursor;
+  }
+
+  private async loadFieldMappings(): Promise<KiotVietCustomerFieldMappings> {
+    const config = await this.prisma.kiotVietConfig.findFirst({
+      select: { fieldMappings: true },
+    });
+
+    return KiotVietCustomerMappingHelper.resolveFieldMappings(
+      config?.fieldMappings,
+    );
+  }
+
+  private async loadGroupIdsByName(): Promise<Map<string, string>> {
+    const groups = await this.prisma.customerGroup.findMany({
+      where: { kiotVietCustomerGroupId: { not: null } },
+      select: { id: true, name: true },
+    });
+
+    return new Map(groups.map((group) => [group.name.toLowerCase(), group.id]));
+  }
+
+  private async failSyncLog(syncLogId: string, error: Error): Promise<void> {
+    this.logger.error(`KiotViet customer sync failed: ${error.message}`);
+
+    const details = this.initializeSyncDetails(0);
+    details.errorDetails = [error.message];
+    await this.syncLogService.completeSyncLog(
+      syncLogId,
+      SyncStatus.FAILED,
+      details,
+      SyncEntityType.CUSTOMER,
+    );
+  }
+
+  private initializeStats(): SyncStats {
+    return {
+      adds: 0,
+      updates: 0,
+      skips: 0,
+      conflicts: 0,
+      deletes: 0,
+      errors: 0,
+    };
+  }
+
+  private initializeSyncDetails(totalRecords: number): SyncLogDetails {
+    return {
+      totalRecords,
+      successCount: 0,
+      failedCount: 0,
+      errorDetails: [],
+      customerStats: this.initializeStats(),
+    };
+  }
+}
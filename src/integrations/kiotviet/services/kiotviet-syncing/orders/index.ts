@@ -0,0 +1,2 @@
+export { KiotVietOrderPushService } from './kiotviet-order-push.service';
+export { KiotVietOrderSyncHelper } from './kiotviet-order-sync.helper';
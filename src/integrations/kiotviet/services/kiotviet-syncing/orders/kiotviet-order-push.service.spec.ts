@@ -0,0 +1,206 @@
+import { ConflictException } from '@nestjs/common';
+import { SyncStatus } from '@prisma/client';
+import { KiotVietOrderPushService } from './kiotviet-order-push.service';
+
+describe('KiotVietOrderPushService', () => {
+  const user = {
+    id: 'admin-1',
+    email: 'admin@acta.vn',
+    phoneNumber: '0900000000',
+    referenceId: 'REF',
+  };
+
+  const order = (overrides: Record<string, unknown> = {}) => ({
+    id: 'order-1',
+    code: 'DH001',
+    source: 'acta',
+    kiotVietOrderId: null,
+    kiotVietOrderCode: null,
+    purchaseDate: new Date('2026-03-01T08:00:00.000Z'),
+    paidAt: new Date('2026-03-01T08:05:00.000Z'),
+    paymentStatus: 'processing',
+    customerNote: 'Giao giờ hành chính',
+    discount: 10000,
+    shippingFee: 30000,
+    total: 220000,
+    warehouse: { name: 'Kho HN', kiotVietWarehouseId: 3 },
+    customer: {
+      kiotVietCustomerId: null,
+      kiotVietCustomerCode: null,
+      user: {
+        fullName: 'Nguyễn Văn A',
+        email: 'a@acta.vn',
+        phoneNumber: '0911111111',
+      },
+    },
+    orderDetails: [
+      {
+        kiotVietProductId: null,
+        quantity: 2,
+        price: 100000,
+        discount: 0,
+        note: null,
+        product: { code: 'SP1', name: 'Sản phẩm 1', kiotVietProductId: 11 },
+      },
+    ],
+    orderDelivery: {
+      receiver: 'Nguyễn Văn A',
+      contactNumber: '0911111111',
+      address: '1 Tràng Tiền',
+      weight: 500,
+    },
+    invoiceOrderSurcharges: [],
+    ...overrides,
+  });
+
+  const pendingLog = (attempts = 0) => ({
+    id: 'log-1',
+    entityId: 'order-1',
+    startTime: new Date(),
+    details: { totalRecords: 1, successCount: 0, failedCount: 0, attempts },
+  });
+
+  let prisma: any;
+  let redis: any;
+  let syncLogService: any;
+  let orderService: any;
+  let service: KiotVietOrderPushService;
+
+  const lastLogUpdate = () => syncLogService.updateSyncLog.mock.calls.at(-1);
+
+  beforeEach(() => {
+    prisma = {
+      kiotVietConfig: {
+        findFirst: jest.fn().mockResolvedValue({
+          isActive: true,
+          syncSettings: {
+            syncOrders: true,
+            retryAttempts: 2,
+            retryDelay: 1000,
+          },
+        }),
+      },
+      syncLog: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([pendingLog()]),
+        create: jest.fn(),
+      },
+      order: {
+        findUnique: jest.fn().mockResolvedValue(order()),
+        update: jest.fn(),
+      },
+    };
+    redis = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      releaseLock: jest.fn(),
+    };
+    syncLogService = { updateSyncLog: jest.fn() };
+    orderService = {
+      createOrder: jest
+        .fn()
+        .mockResolvedValue({ id: 900, code: 'DH900', customerId: 77 }),
+    };
+
+    service = new KiotVietOrderPushService(
+      prisma,
+      redis,
+      syncLogService,
+      orderService,
+      { resolveSystemUser: jest.fn().mockResolvedValue(user) } as any,
+    );
+  });
+
+  it('should push queued orders with mapped branch, customer and products', async () => {
+    await service.processQueuedOrders();
+
+    expect(orderService.createOrder).toHaveBeenCalledWith(
+      user,
+      expect.objectContaining({
+        branchId: 3,
+        description: 'ACTA DH001 - Giao giờ hành chính',
+        totalPayment: 220000,
+        customer: expect.objectContaining({
+          name: 'Nguyễn Văn A',
+          contactNumber: '0911111111',
+        }),
+        orderDetails: [
+          expect.objectContaining({
+            productId: 11,
+            quantity: 2,
+            price: 100000,
+          }),
+        ],
+        orderDelivery: expect.objectContaining({ price: 30000, weight: 500 }),
+      }),
+    );
+    expect(prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: {
+        kiotVietOrderId: 900,
+        kiotVietOrderCode: 'DH900',
+        kiotVietWarehouseId: 3,
+        kiotVietCustomerId: 77,
+      },
+    });
+    expect(lastLogUpdate()[1]).toBe(SyncStatus.SUCCESS);
+    expect(redis.releaseLock).toHaveBeenCalledWith(
+      'kiotviet:order-push:lock',
+      'token',
+    );
+  });
+
+  it('should back off failed pushes and fail after the last retry', async () => {
+    prisma.order.findUnique.mockResolvedValue(
+      order({ warehouse: { name: 'Kho HN', kiotVietWarehouseId: null } }),
+    );
+
+    await service.processQueuedOrders();
+    expect(lastLogUpdate()[1]).toBe(SyncStatus.PENDING);
+    expect(lastLogUpdate()[2]).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: expect.any(String),
+      errorDetails: ['Warehouse Kho HN is not linked to a KiotViet branch'],
+    });
+
+    prisma.syncLog.findMany.mockResolvedValue([pendingLog(2)]);
+    await service.processQueuedOrders();
+    expect(lastLogUpdate()[1]).toBe(SyncStatus.FAILED);
+    expect(orderService.createOrder).not.toHaveBeenCalled();
+  });
+
+  it('should skip logs that are not due yet', async () => {
+    prisma.syncLog.findMany.mockResolvedValue([
+      {
+        ...pendingLog(1),
+        details: {
+          ...pendingLog(1).details,
+          nextAttemptAt: new Date(Date.now() + 60000).toISOString(),
+        },
+      },
+    ]);
+
+    await service.processQueuedOrders();
+
+    expect(orderService.createOrder).not.toHaveBeenCalled();
+  });
+
+  it('should not push when order sync is disabled', async () => {
+    prisma.kiotVietConfig.findFirst.mockResolvedValue({
+      isActive: true,
+      syncSettings: { syncOrders: false },
+    });
+
+    await service.processQueuedOrders();
+
+    expect(redis.acquireLock).not.toHaveBeenCalled();
+  });
+
+  it('should not requeue an order that is already queued', async () => {
+    prisma.syncLog.findFirst.mockResolvedValue({ id: 'log-1' });
+
+    await expect(service.requeueOrder('order-1')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(prisma.syncLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  OriginSource,
+  SyncDirection,
+  SyncEntityType,
+  SyncLog,
+  SyncStatus,
+} from '@prisma/client';
+import { JwtPayload } from '../../../../../auth/jwt-payload';
+import { PrismaService } from '../../../../../common/services/prisma.service';
+import { RedisService } from '../../../../../common/services/redis.service';
+import { KiotVietOrderItem } from '../../../../interfaces';
+import { KiotVietSyncSettings } from '../../../interfaces/sync.interface';
+import { KiotVietOrderService } from '../../kiot-viet.order.service';
+import {
+  KiotVietSyncLogService,
+  SyncLogDetails,
+} from '../../kiotviet-sync-log.service';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  KiotVietSyncSchedulerService,
+} from '../../kiotviet-sync-scheduler.service';
+import {
+  KIOTVIET_ORDER_PUSH_INCLUDE,
+  KiotVietOrderSyncHelper,
+} from './kiotviet-order-sync.helper';
+
+type OrderPushDetails = SyncLogDetails & {
+  nextAttemptAt?: string;
+  kiotVietOrderId?: number;
+  kiotVietOrderCode?: string;
+};
+
+const PUSH_LOCK_KEY = 'kiotviet:order-push:lock';
+const PUSH_LOCK_TTL_MS = 10 * 60 * 1000;
+const PUSH_BATCH_SIZE = 20;
+
+/**
+ * Pushes queued ACTA orders to KiotViet (ACTA_TO_KIOTVIET order SyncLogs).
+ * Failed pushes stay PENDING with a backoff until syncSettings.retryAttempts
+ * is used up.
+ */
+@Injectable()
+export class KiotVietOrderPushService {
+  private readonly logger = new Logger(KiotVietOrderPushService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly syncLogService: KiotVietSyncLogService,
+    private readonly kiotVietOrderService: KiotVietOrderService,
+    private readonly schedulerService: KiotVietSyncSchedulerService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processQueuedOrders(): Promise<void> {
+    const config = await this.prisma.kiotVietConfig.findFirst({
+      select: { isActive: true, syncSettings: true },
+    });
+
+    if (!config?.isActive) return;
+
+    const settings: KiotVietSyncSettings = {
+      ...DEFAULT_SYNC_SETTINGS,
+      ...((config.syncSettings as Partial<KiotVietSyncSettings>) ?? {}),
+    };
+
+    if (!settings.syncOrders) return;
+
+    const lockToken = await this.redisService.acquireLock(
+      PUSH_LOCK_KEY,
+      PUSH_LOCK_TTL_MS,
+    );
+    if (!lockToken) return;
+
+    try {
+      const now = Date.now();
+      const queued = await this.prisma.syncLog.findMany({
+        where: {
+          direction: SyncDirection.ACTA_TO_KIOTVIET,
+          entityType: SyncEntityType.ORDER,
+          status: SyncStatus.PENDING,
+        },
+        orderBy: { startTime: 'asc' },
+        take: PUSH_BATCH_SIZE,
+      });
+
+      const due = queued.filter((log) => {
+        const nextAttemptAt = (log.details as unknown as OrderPushDetails)
+          ?.nextAttemptAt;
+        return !nextAttemptAt || new Date(nextAttemptAt).getTime() <= now;
+      });
+
+      if (due.length === 0) return;
+
+      const user = await this.schedulerService.resolveSystemUser();
+      if (!user) {
+        this.logger.warn('No admin user found to push orders to KiotViet');
+        return;
+      }
+
+      for (const log of due) {
+        await this.pushQueuedOrder(log, user, settings);
+      }
+    } catch (error) {
+      this.logger.error(`KiotViet order push failed: ${error.message}`);
+    } finally {
+      await this.redisService.releaseLock(PUSH_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Create the KiotViet order for an ACTA order and link the two.
+   * Orders that are already linked are returned as-is.
+   */
+  async pushOrder(
+    user: JwtPayload,
+    orderId: string,
+  ): Promise<{ kiotVietOrderId: number; kiotVietOrderCode: string | null }> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: KIOTVIET_ORDER_PUSH_INCLUDE,
+    });
+
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    if (order.kiotVietOrderId) {
+      return {
+        kiotVietOrderId: order.kiotVietOrderId,
+        kiotVietOrderCode: order.kiotVietOrderCode,
+      };
+    }
+
+    if (order.source !== OriginSource.acta) {
+      throw new Error(`Order ${order.code} did not originate in ACTA`);
+    }
+
+    const request = KiotVietOrderSyncHelper.buildCreateOrderRequest(order);
+    const created: KiotVietOrderItem =
+      await this.kiotVietOrderService.createOrder(user, request);
+
+    await this.prisma.order.update({
+      where: { id: order.id },
+      data: {
+        kiotVietOrderId: created.id,
+        kiotVietOrderCode: created.code,
+        kiotVietWarehouseId: request.branchId,
+        kiotVietCustomerId:
+          created.customerId ?? order.customer.kiotVietCustomerId,
+      },
+    });
+
+    this.logger.log(
+      `Pushed order ${order.code} to KiotViet as ${created.code}`,
+    );
+
+    return { kiotVietOrderId: created.id, kiotVietOrderCode: created.code };
+  }
+
+  /**
+   * Queue an order again, e.g. after its failed pushes were fixed
+   */
+  async requeueOrder(orderId: string): Promise<void> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, kiotVietOrderId: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Không tìm thấy đơn hàng');
+    }
+
+    const queued =
+      !order.kiotVietOrderId &&
+      (await KiotVietOrderSyncHelper.queueOrderPush(order.id, this.prisma));
+
+    if (!queued) {
+      throw new ConflictException(
+        'Đơn hàng đã được đẩy hoặc đang chờ đẩy sang KiotViet',
+      );
+    }
+  }
+
+  /**
+   * Push history of an order, newest first
+   */
+  async getOrderPushLogs(orderId: string) {
+    return this.prisma.syncLog.findMany({
+      where: {
+        direction: SyncDirection.ACTA_TO_KIOTVIET,
+        entityType: SyncEntityType.ORDER,
+        entityId: orderId,
+      },
+      orderBy: { startTime: 'desc' },
+    });
+  }
+
+  private async pushQueuedOrder(
+    log: SyncLog,
+    user: JwtPayload,
+    settings: KiotVietSyncSettings,
+  ): Promise<void> {
+    const details = (log.details as unknown as OrderPushDetails) ?? {
+      totalRecords: 1,
+      successCount: 0,
+      failedCount: 0,
+    };
+    const attempts = (details.attempts ?? 0) + 1;
+
+    try {
+      const result = await this.pushOrder(user, log.entityId!);
+
+      await this.syncLogService.updateSyncLog(log.id, SyncStatus.SUCCESS, {
+        ...details,
+        successCount: 1,
+        failedCount: 0,
+        attempts,
+        nextAttemptAt: undefined,
+        ...result,
+      } as OrderPushDetails);
+    } catch (error) {
+      // retryAttempts counts retries, so the first push is not one of them
+      const exhausted = attempts > settings.retryAttempts;
+      const delayMs = settings.retryDelay * 2 ** (attempts - 1);
+
+      await this.syncLogService.updateSyncLog(
+        log.id,
+        exhausted ? SyncStatus.FAILED : SyncStatus.PENDING,
+        {
+          ...details,
+          failedCount: 1,
+          attempts,
+          errorDetails: [...(details.errorDetails ?? []), error.message],
+          nextAttemptAt: exhausted
+            ? undefined
+            : new Date(Date.now() + delayMs).toISOString(),
+        } as OrderPushDetails,
+      );
+
+      this.logger.warn(
+        `Pushing order ${log.entityId} to KiotViet failed (attempt ${attempts}): ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  OrderStatus,
+  PaymentStatus,
+  Prisma,
+  SyncDirection,
+  SyncEntityType,
+  SyncStatus,
+} from '@prisma/client';
+import { KiotVietCreateOrderRequest } from '../../../../interfaces';
+import { KIOTVIET_ORDER_STATUS_MAP } from '../../../kiotviet.constants';
+import { SyncLogDetails } from '../../kiotviet-sync-log.service';
+
+export const KIOTVIET_ORDER_PUSH_INCLUDE = {
+  customer: {
+    include: {
+      user: { select: { fullName: true, email: true, phoneNumber: true } },
+    },
+  },
+  warehouse: { select: { name: true, kiotVietWarehouseId: true } },
+  orderDetails: {
+    include: {
+      product: { select: { code: true, name: true, kiotVietProductId: true } },
+    },
+  },
+  orderDelivery: true,
+  invoiceOrderSurcharges: {
+    include: {
+      surcharge: {
+        select: { kiotVietSurchargeId: true, kiotVietSurchargeCode: true },
+      },
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type KiotVietPushOrder = Prisma.OrderGetPayload<{
+  include: typeof KIOTVIET_ORDER_PUSH_INCLUDE;
+}>;
+
+// ACTA statuses in the order an order moves through them
+const ORDER_STATUS_PROGRESS: OrderStatus[] = [
+  OrderStatus.draft,
+  OrderStatus.confirmed,
+  OrderStatus.delivering,
+  OrderStatus.shipped,
+  OrderStatus.completed,
+];
+
+export class KiotVietOrderSyncHelper {
+  /**
+   * Queue an ACTA order for KiotViet: the push service picks up PENDING
+   * ACTA_TO_KIOTVIET order logs. Returns false when the order is already
+   * queued or pushed.
+   */
+  static async queueOrderPush(
+    orderId: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const existing = await tx.syncLog.findFirst({
+      where: {
+        direction: SyncDirection.ACTA_TO_KIOTVIET,
+        entityType: SyncEntityType.ORDER,
+        entityId: orderId,
+        status: { in: [SyncStatus.PENDING, SyncStatus.SUCCESS] },
+      },
+      select: { id: true },
+    });
+
+    if (existing) return false;
+
+    const details: SyncLogDetails = {
+      totalRecords: 1,
+      successCount: 0,
+      failedCount: 0,
+      errorDetails: [],
+      attempts: 0,
+    };
+
+    await tx.syncLog.create({
+      data: {
+        direction: SyncDirection.ACTA_TO_KIOTVIET,
+        entityType: SyncEntityType.ORDER,
+        entityId: orderId,
+        status: SyncStatus.PENDING,
+        details: details as any,
+        startTime: new Date(),
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * ACTA status to apply for a KiotViet order status, or null to keep the
+   * current one. Orders only move forward; cancellation applies until the
+   * order is cancelled or refunded.
+   */
+  static resolveBackflowStatus(
+    current: OrderStatus,
+    kiotVietStatus: number,
+  ): OrderStatus | null {
+    const next = KIOTVIET_ORDER_STATUS_MAP[kiotVietStatus];
+
+    if (!next || next === current) return null;
+    if (current === OrderStatus.cancelled || current === OrderStatus.refunded) {
+      return null;
+    }
+    if (next === OrderStatus.cancelled) return next;
+
+    return ORDER_STATUS_PROGRESS.indexOf(next) >
+      ORDER_STATUS_PROGRESS.indexOf(current)
+      ? next
+      : null;
+  }
+
+  /**
+   * Map an ACTA order to a KiotViet POST /orders body
+   */
+  static buildCreateOrderRequest(
+    order: KiotVietPushOrder,
+  ): KiotVietCreateOrderRequest {
+    const branchId = order.warehouse.kiotVietWarehouseId;
+    if (!branchId) {
+      throw new Error(
+        `Warehouse ${order.warehouse.name} is not linked to a KiotViet branch`,
+      );
+    }
+
+    const orderDetails = order.orderDetails.map((detail) => {
+      const productId =
+        detail.product.kiotVietProductId ?? detail.kiotVietProductId;
+      if (!productId) {
+        throw new Error(
+          `Product ${detail.product.code} is not linked to KiotViet`,
+        );
+      }
+
+      return {
+        productId,
+        productCode: detail.product.code,
+        productName: detail.product.name,
+        quantity: detail.quantity,
+        price: Number(detail.price),
+        discount: Number(detail.discount) || undefined,
+        note: detail.note ?? undefined,
+      };
+    });
+
+    const isPaid = !!order.paidAt || order.paymentStatus === PaymentStatus.paid;
+    const user = order.customer.user;
+    const delivery = order.orderDelivery;
+
+    // Surcharges without a KiotViet counterpart cannot be sent
+    const surchages = order.invoiceOrderSurcharges
+      .map((item) => ({
+        id: item.surcharge?.kiotVietSurchargeId ?? item.kiotVietSurchargeId,
+        code: item.surcharge?.kiotVietSurchargeCode ?? undefined,
+        price: Number(item.price ?? item.surValue ?? 0),
+      }))
+      .filter((item) => item.id || item.code)
+      .map((item) => ({ ...item, id: item.id ?? undefined }));
+
+    return {
+      branchId,
+      purchaseDate: order.purchaseDate.toISOString(),
+      description: [`ACTA ${order.code}`, order.customerNote]
+        .filter(Boolean)
+        .join(' - '),
+      discount: Number(order.discount) || undefined,
+      totalPayment: isPaid ? Number(order.total) : 0,
+      method: isPaid ? 'Transfer' : undefined,
+      makeInvoice: false,
+      customer: {
+        id: order.customer.kiotVietCustomerId ?? undefined,
+        code: order.customer.kiotVietCustomerCode ?? undefined,
+        name:
+          user?.fullName ?? delivery?.receiver ?? `Khách hàng ${order.code}`,
+        contactNumber: user?.phoneNumber ?? delivery?.contactNumber,
+        email: user?.email,
+        address: delivery?.address,
+      },
+      orderDetails,
+      orderDelivery: delivery
+        ? {
+            receiver: delivery.receiver,
+            contactNumber: delivery.contactNumber,
+            address: delivery.address,
+            price: Number(order.shippingFee) || undefined,
+            weight: delivery.weight ?? undefined,
+          }
+        : undefined,
+      surchages: surchages.length > 0 ? surchages : undefined,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { SyncStatus } from '@prisma/client';
+import { KiotVietProductSyncService } from './kiotviet-product-sync.service';
+
+describe('KiotVietProductSyncService', () => {
+  const user = {
+    id: 'admin-1',
+    email: 'admin@acta.vn',
+    phoneNumber: '0900000000',
+    referenceId: 'REF',
+  };
+
+  const product = (id: number, modifiedDate: string) => ({
+    id,
+    code: `SP${id}`,
+    name: `Sản phẩm ${id}`,
+    categoryId: 1,
+    categoryName: 'Thực phẩm',
+    tradeMarkId: 2,
+    tradeMarkName: 'ACTA',
+    inventories: [],
+    createdDate: '2026-01-01T00:00:00.000',
+    modifiedDate,
+  });
+
+  let prisma: any;
+  let kiotVietProductService: any;
+  let syncLogService: any;
+  let mappingService: any;
+  let helpersService: any;
+  let kiotVietCategoryService: any;
+  let service: KiotVietProductSyncService;
+
+  const completedDetails = () =>
+    syncLogService.completeSyncLog.mock.calls[0][2];
+
+  beforeEach(() => {
+    prisma = {
+      product: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      $transaction: jest.fn((fn) => fn({})),
+    };
+    kiotVietProductService = {
+      getProducts: jest.fn().mockResolvedValue({ data: [], removeIds: [] }),
+      getProductById: jest.fn(),
+    };
+    syncLogService = {
+      getLastSyncCursor: jest.fn().mockResolvedValue('2026-03-01T08:00:00'),
+      startSyncLog: jest.fn().mockResolvedValue('log-1'),
+      completeSyncLog: jest.fn(),
+    };
+    mappingService = { getMappedKiotVietProducts: jest.fn() };
+    helpersService = {
+      createCategories: jest.fn().mockResolvedValue(new Map([[1, 'cat-1']])),
+      createUsersForBusinesses: jest.fn().mockResolvedValue(new Map()),
+      createBusinesses: jest.fn().mockResolvedValue(new Map([[2, 'biz-1']])),
+      createWarehouses: jest.fn().mockResolvedValue(new Map()),
+    };
+    kiotVietCategoryService = { getCategories: jest.fn() };
+
+    service = new KiotVietProductSyncService(
+      prisma,
+      kiotVietProductService,
+      syncLogService,
+      mappingService,
+      helpersService,
+      {
+        extractUniqueCategories: jest.fn(() => [{ id: 1, name: 'Thực phẩm' }]),
+        extractUniqueTradeMarks: jest.fn(() => [{ id: 2, name: 'ACTA' }]),
+        extractUniqueBranches: jest.fn(() => []),
+      } as any,
+      {} as any,
+      {} as any,
+      kiotVietCategoryService,
+    );
+  });
+
+  it('should only request products modified since the last cursor', async () => {
+    await service.syncKiotVietProductsToActa(user);
+
+    expect(kiotVietProductService.getProducts).toHaveBeenCalledWith(
+      user,
+      expect.objectContaining({
+        lastModifiedFrom: '2026-03-01T08:00:00',
+        includeRemoveIds: true,
+      }),
+    );
+    expect(mappingService.getMappedKiotVietProducts).not.toHaveBeenCalled();
+    expect(completedDetails()).toMatchObject({
+      mode: 'incremental',
+      cursor: '2026-03-01T08:00:00',
+    });
+  });
+
+  it('should deactivate products removed in KiotViet', async () => {
+    kiotVietProductService.getProducts.mockResolvedValue({
+      data: [],
+      removeIds: [11, 12],
+    });
+    prisma.product.updateMany.mockResolvedValue({ count: 2 });
+
+    await service.syncKiotVietProductsToActa(user);
+
+    expect(prisma.product.updateMany).toHaveBeenCalledWith({
+      where: {
+        kiotVietProductId: { in: [11, 12] },
+        source: 'kiotviet',
+        isActive: true,
+      },
+      data: { isActive: false },
+    });
+    expect(completedDetails().productStats.deletes).toBe(2);
+  });
+
+  it('should keep the cursor at the oldest failed product', async () => {
+    kiotVietProductService.getProducts.mockResolvedValue({
+      data: [
+        product(1, '2026-03-02T09:00:00'),
+        product(2, '2026-03-03T10:00:00'),
+      ],
+    });
+    kiotVietProductService.getProductById.mockRejectedValue(
+      new Error('rate limited'),
+    );
+
+    await service.syncKiotVietProductsToActa(user);
+
+    expect(syncLogService.completeSyncLog).toHaveBeenCalledWith(
+      'log-1',
+      SyncStatus.SUCCESS,
+      expect.objectContaining({ cursor: '2026-03-02T09:00:00' }),
+    );
+  });
+
+  it('should ignore the stored cursor on a full resync', async () => {
+    mappingService.getMappedKiotVietProducts.mockResolvedValue({ data: [] });
+
+    await service.syncKiotVietProductsToActa(user, { fullResync: true });
+
+    expect(syncLogService.getLastSyncCursor).not.toHaveBeenCalled();
+    expect(kiotVietProductService.getProducts).toHaveBeenCalledWith(
+      user,
+      expect.not.objectContaining({ lastModifiedFrom: expect.anything() }),
+    );
+    expect(completedDetails().mode).toBe('full');
+  });
+
+  it('should create categories from the whole KiotViet category tree', async () => {
+    kiotVietCategoryService.getCategories.mockResolvedValue({
+      data: [
+        {
+          categoryId: 1,
+          categoryName: 'Thực phẩm',
+          children: [{ categoryId: 3, categoryName: 'Đồ khô', children: [] }],
+        },
+      ],
+    });
+
+    await service.syncKiotVietCategoriesToActa(user);
+
+    expect(helpersService.createCategories).toHaveBeenCalledWith(
+      {},
+      [
+        { id: 1, name: 'Thực phẩm' },
+        { id: 3, name: 'Đồ khô' },
+      ],
+      expect.objectContaining({ adds: 0, errors: 0 }),
+    );
+  });
+});
@@ -1,14 +1,27 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { SyncDirection, SyncEntityType, SyncStatus } from '@prisma/client';
+import {
+  OriginSource,
+  SyncDirection,
+  SyncEntityType,
+  SyncStatus,
+} from '@prisma/client';
 import { JwtPayload } from '../../../../../auth/jwt-payload';
 import { PrismaService } from '../../../../../common/services/prisma.service';
+import { KiotVietCategoryItem } from '../../../../interfaces/kiotviet.category.interface';
 import { KiotVietProductItem } from '../../../../interfaces/kiotviet.product.interface';
 import { KiotVietPaginationOptions } from '../../../../interfaces/kiotviet.common.interface';
+import { KiotVietProductMapping } from '../../../dto/mapping/kiotviet-product-mapping.dto';
+import {
+  KiotVietProductSyncOptions,
+  KiotVietSyncMode,
+} from '../../../interfaces/sync.interface';
+import { KiotVietCategoryService } from '../../kiot-viet.category.service';
 import { KiotVietProductService } from '../../kiot-viet.product.service';
 import { KiotVietMappingService } from '../../kiotviet-mapping/kiotviet-mapping.product.service';
 import {
   KiotVietSyncLogService,
   SyncLogDetails,
+  SyncStats,
 } from '../../kiotviet-sync-log.service';
 import { KiotVietSyncingHelpersService } from '../kiotviet-syncing-helpers.service';
 import { KiotVietProductMappingHelper } from './kiotviet-product-mapping.helper';
@@ -28,36 +41,58 @@ export class KiotVietProductSyncService {
     private readonly mappingHelper: KiotVietProductMappingHelper,
     private readonly relationshipsHelper: KiotVietProductRelationshipsHelper,
     private readonly warehouseHelper: KiotVietWarehouseHelper,
+    private readonly kiotVietCategoryService: KiotVietCategoryService,
   ) {}
 
   /**
-   * Main method to sync KiotViet products to ACTA
+   * Main method to sync KiotViet products to ACTA.
+   * Resumes from the cursor of the last successful sync unless fullResync is set.
    */
-  async syncKiotVietProductsToActa(user: JwtPayload) {
+  async syncKiotVietProductsToActa(
+    user: JwtPayload,
+    options: KiotVietProductSyncOptions = {},
+  ) {
     const startTime = new Date();
     let syncLogId: string | undefined;
 
     try {
-      this.logger.log('Starting KiotViet products sync to ACTA');
+      const previousCursor = options.fullResync
+        ? null
+        : await this.syncLogService.getLastSyncCursor(
+            SyncEntityType.PRODUCT,
+            SyncDirection.KIOTVIET_TO_ACTA,
+          );
+      const mode: KiotVietSyncMode = previousCursor ? 'incremental' : 'full';
+
+      this.logger.log(
+        previousCursor
+          ? `Starting incremental KiotViet products sync (modified from ${previousCursor})`
+          : 'Starting full KiotViet products sync to ACTA',
+      );
 
       // Step 1: First get raw products to extract entities for dependencies
       this.logger.debug(
         'Fetching raw KiotViet products for entity extraction...',
       );
-      const rawProducts = await this.fetchAllKiotVietProducts(user);
+      const { products: rawProducts, removeIds } =
+        await this.fetchAllKiotVietProducts(user, previousCursor);
 
       // Extract unique entities from raw products (they have complete data)
       const { uniqueCategories, uniqueTradeMarks, uniqueBranches } =
         this.extractUniqueEntitiesFromRaw(rawProducts);
 
       this.logger.log(
-        `Found ${uniqueCategories.length} categories, ${uniqueTradeMarks.length} trademarks, ${uniqueBranches.length} branches`,
+        `Found ${rawProducts.length} products, ${removeIds.length} removals, ${uniqueCategories.length} categories, ${uniqueTradeMarks.length} trademarks, ${uniqueBranches.length} branches`,
       );
 
-      // Step 2: Get mapped products for actual syncing
-      const mappingResult =
-        await this.mappingService.getMappedKiotVietProducts(user);
-      const { data: mappedProducts } = mappingResult;
+      // Step 2: Get mapped products for actual syncing. A full sync compares the
+      // whole catalogue; a delta only needs the changed products mapped
+      const mappedProducts =
+        mode === 'full'
+          ? (await this.mappingService.getMappedKiotVietProducts(user)).data
+          : rawProducts.map((product) =>
+              KiotVietProductMapping.fromKiotVietProduct(product),
+            );
 
       // Start sync log
       syncLogId = await this.syncLogService.startSyncLog(
@@ -67,19 +102,34 @@ export class KiotVietProductSyncService {
       );
 
       const syncDetails = this.initializeSyncDetails(mappedProducts.length);
-
-      // Validate that we have required data
-      this.validateRequiredData(uniqueCategories, uniqueTradeMarks);
+      syncDetails.mode = mode;
 
       // Step 3: Process sync in a transaction
-      await this.processSyncTransaction(
-        user,
-        mappedProducts,
-        uniqueCategories,
-        uniqueTradeMarks,
-        uniqueBranches,
-        syncDetails,
-      );
+      let failedProductIds: number[] = [];
+      if (mappedProducts.length > 0) {
+        // Validate that we have required data
+        this.validateRequiredData(uniqueCategories, uniqueTradeMarks);
+
+        failedProductIds = await this.processSyncTransaction(
+          user,
+          mappedProducts,
+          uniqueCategories,
+          uniqueTradeMarks,
+          uniqueBranches,
+          syncDetails,
+        );
+      } else {
+        this.logger.log('No KiotViet products to sync');
+      }
+
+      // Step 4: Deactivate products deleted in KiotViet
+      syncDetails.productStats!.deletes +=
+        await this.deactivateKiotVietProducts(removeIds);
+
+      syncDetails.cursor =
+        this.getNextCursor(rawProducts, failedProductIds) ??
+        previousCursor ??
+        undefined;
 
       // Complete sync log
       await this.syncLogService.completeSyncLog(
@@ -90,7 +140,7 @@ export class KiotVietProductSyncService {
 
       const endTime = new Date();
       this.logger.log(
-        `KiotViet products sync completed successfully in ${endTime.getTime() - startTime.getTime()}ms`,
+        `KiotViet products ${mode} sync completed successfully in ${endTime.getTime() - startTime.getTime()}ms`,
       );
 
       return {
@@ -115,6 +165,155 @@ export class KiotVietProductSyncService {
     }
   }
 
+  /**
+   * Create the ACTA categories for every KiotViet category, including ones
+   * no product uses yet. Existing categories are left as they are.
+   */
+  async syncKiotVietCategoriesToActa(user: JwtPayload) {
+    const startTime = new Date();
+    const response = await this.kiotVietCategoryService.getCategories(user);
+
+    const categories: Array<{ id: number; name: string }> = [];
+    const collect = (items: KiotVietCategoryItem[] = []) => {
+      for (const item of items) {
+        categories.push({ id: item.categoryId, name: item.categoryName });
+        collect(item.children);
+      }
+    };
+    collect(response.data);
+
+    const stats: SyncStats = {
+      adds: 0,
+      updates: 0,
+      skips: 0,
+      conflicts: 0,
+      deletes: 0,
+      errors: 0,
+    };
+
+    await this.prisma.$transaction(
+      (tx) => this.helpersService.createCategories(tx, categories, stats),
+      { timeout: 60000 },
+    );
+
+    this.logger.log(
+      `KiotViet categories sync completed in ${Date.now() - startTime.getTime()}ms: ${stats.adds} created, ${stats.skips} existing`,
+    );
+
+    return { success: true, stats };
+  }
+
+  /**
+   * Next cursor: the newest modifiedDate synced. When products failed, the
+   * cursor stays at the oldest failure so the next delta picks them up again
+   * (lastModifiedFrom is inclusive).
+   */
+  private getNextCursor(
+    rawProducts: KiotVietProductItem[],
+    failedProductIds: number[],
+  ): string | undefined {
+    const failedIds = new Set(failedProductIds);
+    const failed = rawProducts.filter((product) => failedIds.has(product.id));
+    const candidates = failed.length > 0 ? failed : rawProducts;
+
+    let cursor: string | undefined;
+    let cursorTime = failed.length > 0 ? Infinity : -Infinity;
+
+    for (const product of candidates) {
+      const modifiedDate = String(product.modifiedDate ?? product.createdDate);
+      const time = new Date(modifiedDate).getTime();
+      if (isNaN(time)) continue;
+
+      if (failed.length > 0 ? time < cursorTime : time > cursorTime) {
+        cursor = modifiedDate;
+        cursorTime = time;
+      }
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Apply products pushed by a KiotViet webhook. The payload already carries
+   * the product details, so no KiotViet API call is made.
+   */
+  async applyKiotVietProducts(
+    products: KiotVietProductItem[],
+  ): Promise<SyncLogDetails> {
+    const syncDetails = this.initializeSyncDetails(products.length);
+    const { uniqueCategories, uniqueTradeMarks, uniqueBranches } =
+      this.extractUniqueEntitiesFromRaw(products);
+
+    const { categoryMap, businessMap, warehouseMap } =
+      await this.prisma.$transaction(
+        (tx) =>
+          this.createDependencies(
+            tx,
+            uniqueCategories,
+            uniqueTradeMarks,
+            uniqueBranches,
+            syncDetails,
+          ),
+        { timeout: 60000 },
+      );
+
+    for (const product of products) {
+      try {
+        await this.prisma.$transaction(
+          async (tx) => {
+            await this.warehouseHelper.syncWarehousesFromInventories(
+              tx,
+              product.inventories,
+              warehouseMap,
+              syncDetails.warehouseStats!,
+            );
+            await this.createProductWithRelationships(
+              tx,
+              product,
+              categoryMap,
+              businessMap,
+              warehouseMap,
+              syncDetails,
+            );
+          },
+          { timeout: 30000 },
+        );
+      } catch (error) {
+        syncDetails.productStats!.errors++;
+        syncDetails.errorDetails!.push(
+          `Product ${product.id}: ${error.message}`,
+        );
+      }
+    }
+
+    this.calculateFinalStatistics(syncDetails);
+    return syncDetails;
+  }
+
+  /**
+   * Soft delete KiotViet products, like the CRUD sync does; returns how many
+   * active products were deactivated
+   */
+  async deactivateKiotVietProducts(
+    kiotVietProductIds: number[],
+  ): Promise<number> {
+    if (kiotVietProductIds.length === 0) return 0;
+
+    const { count } = await this.prisma.product.updateMany({
+      where: {
+        kiotVietProductId: { in: kiotVietProductIds },
+        source: OriginSource.kiotviet,
+        isActive: true,
+      },
+      data: { isActive: false },
+    });
+
+    this.logger.log(
+      `Deactivated ${count} products removed from KiotViet (${kiotVietProductIds.length} removal IDs)`,
+    );
+    return count;
+  }
+
   /**
    * Initialize sync details with default statistics
    */
@@ -193,7 +392,7 @@ export class KiotVietProductSyncService {
     uniqueTradeMarks: any[],
     uniqueBranches: any[],
     syncDetails: SyncLogDetails,
-  ): Promise<void> {
+  ): Promise<number[]> {
     // First, create dependencies in a separate transaction
     const { categoryMap, businessMap, warehouseMap } =
       await this.prisma.$transaction(
@@ -223,7 +422,7 @@ export class KiotVietProductSyncService {
       );
 
     // Then, sync products individually to avoid transaction rollback on individual failures
-    await this.syncProductsIndividually(
+    const failedProductIds = await this.syncProductsIndividually(
       user,
       mappedProducts,
       categoryMap,
@@ -234,6 +433,8 @@ export class KiotVietProductSyncService {
 
     // Calculate final statistics
     this.calculateFinalStatistics(syncDetails);
+
+    return failedProductIds;
   }
 
   /**
@@ -304,7 +505,8 @@ export class KiotVietProductSyncService {
   }
 
   /**
-   * Sync products individually to avoid transaction rollback on individual failures
+   * Sync products individually to avoid transaction rollback on individual failures.
+   * Returns the KiotViet IDs of the products that failed.
    */
   private async syncProductsIndividually(
     user: JwtPayload,
@@ -313,10 +515,11 @@ export class KiotVietProductSyncService {
     businessMap: Map<number, string>,
     warehouseMap: Map<number, string>,
     syncDetails: SyncLogDetails,
-  ): Promise<void> {
+  ): Promise<number[]> {
     this.logger.log(
       `Starting individual sync for ${mappedProducts.length} products`,
     );
+    const failedProductIds: number[] = [];
 
     for (const mappedProduct of mappedProducts) {
       try {
@@ -450,12 +653,15 @@ export class KiotVietProductSyncService {
         syncDetails.errorDetails!.push(
           `Product ${mappedProduct.kiotVietProductId}: ${error.message}`,
         );
+        failedProductIds.push(mappedProduct.kiotVietProductId);
       }
     }
 
     this.logger.log(
       `Completed individual product sync: ${syncDetails.productStats!.adds} successful, ${syncDetails.productStats!.errors} failed`,
     );
+
+    return failedProductIds;
   }
 
   /**
@@ -657,10 +863,15 @@ export class KiotVietProductSyncService {
   }
 
   /**
-   * Fetch all products from KiotViet
+   * Fetch products from KiotViet - all of them, or only those modified since
+   * lastModifiedFrom - together with the IDs of removed products
    */
-  private async fetchAllKiotVietProducts(user: JwtPayload) {
+  private async fetchAllKiotVietProducts(
+    user: JwtPayload,
+    lastModifiedFrom?: string | null,
+  ) {
     const allProducts: KiotVietProductItem[] = [];
+    const removeIds = new Set<number>();
     let currentItem = 0;
     const pageSize = 100;
     let hasMoreData = true;
@@ -675,6 +886,8 @@ export class KiotVietProductSyncService {
         pageSize,
         orderBy: 'id',
         orderDirection: 'asc' as const,
+        includeRemoveIds: true,
+        ...(lastModifiedFrom && { lastModifiedFrom }),
       };
 
       try {
@@ -683,6 +896,8 @@ export class KiotVietProductSyncService {
           paginationOptions,
         );
 
+        response.removeIds?.forEach((id) => removeIds.add(id));
+
         if (response.data && response.data.length > 0) {
           allProducts.push(...response.data);
           currentItem += response.data.length;
@@ -702,7 +917,7 @@ export class KiotVietProductSyncService {
       await new Promise((resolve) => setTimeout(resolve, 100));
     }
 
-    return allProducts;
+    return { products: allProducts, removeIds: Array.from(removeIds) };
   }
 
   /**
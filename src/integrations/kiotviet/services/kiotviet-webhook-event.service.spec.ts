@@ -0,0 +1,253 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { WebHookEventStatus } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { KiotVietWebhookEventService } from './kiotviet-webhook-event.service';
+
+describe('KiotVietWebhookEventService', () => {
+  const secret = 'kiotviet-secret';
+  const sign = (body: string, key = secret) =>
+    createHmac('sha256', key).update(body).digest('hex');
+
+  let prisma: any;
+  let redis: any;
+  let productSync: any;
+  let customerSync: any;
+  let warehouseHelper: any;
+  let service: KiotVietWebhookEventService;
+
+  const pendingEvent = (type: string, payload: unknown, attempts = 0) => ({
+    id: 'event-1',
+    type,
+    payload,
+    attempts,
+    status: WebHookEventStatus.pending,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      webHook: { findMany: jest.fn().mockResolvedValue([]) },
+      webHookEvent: {
+        createMany: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      product: { findUnique: jest.fn() },
+      productInventory: { upsert: jest.fn() },
+      order: { findUnique: jest.fn(), update: jest.fn() },
+      $transaction: jest.fn((fn) => fn(prisma)),
+    };
+    redis = {
+      acquireLock: jest.fn().mockResolvedValue('token'),
+      extendLock: jest.fn(),
+      releaseLock: jest.fn(),
+    };
+    productSync = {
+      applyKiotVietProducts: jest.fn(),
+      deactivateKiotVietProducts: jest.fn(),
+    };
+    customerSync = {
+      applyKiotVietCustomers: jest
+        .fn()
+        .mockResolvedValue({ customerStats: { errors: 0 } }),
+    };
+    warehouseHelper = {
+      syncWarehousesFromInventories: jest.fn(
+        async (_tx, inventories, warehouseMap: Map<number, string>) =>
+          inventories.forEach((inventory) =>
+            warehouseMap.set(inventory.branchId, `wh-${inventory.branchId}`),
+          ),
+      ),
+    };
+
+    service = new KiotVietWebhookEventService(
+      prisma,
+      redis,
+      { getConfig: () => ({ webhookSecret: secret }) } as any,
+      productSync,
+      customerSync,
+      warehouseHelper,
+    );
+  });
+
+  describe('verifySignature', () => {
+    const body = '{"Id":"abc"}';
+
+    it('should accept a body signed with the configured secret', async () => {
+      await expect(
+        service.verifySignature(Buffer.from(body), `sha256=${sign(body)}`),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should accept a body signed with a registered webhook secret', async () => {
+      prisma.webHook.findMany.mockResolvedValue([{ secret: 'per-hook' }]);
+
+      await expect(
+        service.verifySignature(body, sign(body, 'per-hook')),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject missing or forged signatures', async () => {
+      await expect(service.verifySignature(body, undefined)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(
+        service.verifySignature(body, sign(body, 'wrong')),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should queue supported notifications keyed by delivery id', async () => {
+      prisma.webHookEvent.createMany.mockResolvedValue({ count: 1 });
+      jest.spyOn(service, 'processPendingEvents').mockResolvedValue();
+
+      const result = await service.enqueue(
+        {
+          Id: 'delivery-1',
+          Notifications: [
+            { Action: 'stock.update.500175866', Data: [{ ProductId: 1 }] },
+            { Action: 'pricebook.update.500175866', Data: [] },
+            { Action: 'order.update.500175866', Data: [{ Id: 9 }] },
+          ],
+        },
+        '{}',
+      );
+
+      expect(prisma.webHookEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            eventKey: 'delivery-1:0',
+            type: 'stock.update',
+          }),
+          expect.objectContaining({
+            eventKey: 'delivery-1:2',
+            type: 'order.update',
+          }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(result).toEqual({ queued: 1, duplicates: 1, ignored: 1 });
+    });
+  });
+
+  describe('processPendingEvents', () => {
+    it('should apply stock updates to the product inventory', async () => {
+      prisma.webHookEvent.findMany.mockResolvedValueOnce([
+        pendingEvent('stock.update', [
+          { ProductId: 11, BranchId: 3, BranchName: 'Kho HN', OnHand: 7 },
+        ]),
+      ]);
+      prisma.product.findUnique.mockResolvedValue({ id: 'product-11' });
+
+      await service.processPendingEvents();
+
+      expect(prisma.productInventory.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            warehouseId_productId: {
+              warehouseId: 'wh-3',
+              productId: 'product-11',
+            },
+          },
+          update: { onHand: 7 },
+        }),
+      );
+      expect(prisma.webHookEvent.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: WebHookEventStatus.processed,
+          }),
+        }),
+      );
+      expect(redis.releaseLock).toHaveBeenCalledWith(
+        'kiotviet:webhook:lock',
+        'token',
+      );
+    });
+
+    it('should map KiotViet order statuses', async () => {
+      prisma.webHookEvent.findMany.mockResolvedValueOnce([
+        pendingEvent('order.update', [{ Id: 9, Status: 4 }]),
+      ]);
+      prisma.order.findUnique.mockResolvedValue({
+        id: 'order-9',
+        status: 'confirmed',
+      });
+
+      await service.processPendingEvents();
+
+      expect(prisma.order.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { kiotVietOrderId: 9 } }),
+      );
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-9' },
+        data: { status: 'cancelled', cancelledAt: expect.any(Date) },
+      });
+    });
+
+    it('should not move orders back to an earlier status', async () => {
+      prisma.webHookEvent.findMany.mockResolvedValueOnce([
+        pendingEvent('order.update', [{ Id: 9, Status: 5 }]),
+      ]);
+      prisma.order.findUnique.mockResolvedValue({
+        id: 'order-9',
+        status: 'delivering',
+      });
+
+      await service.processPendingEvents();
+
+      expect(prisma.order.update).not.toHaveBeenCalled();
+    });
+
+    it('should hand customer updates to the customer sync', async () => {
+      prisma.webHookEvent.findMany.mockResolvedValueOnce([
+        pendingEvent('customer.update', [
+          { Id: 5, ContactNumber: '0911111111', Debt: 150000 },
+        ]),
+      ]);
+
+      await service.processPendingEvents();
+
+      expect(customerSync.applyKiotVietCustomers).toHaveBeenCalledWith([
+        { id: 5, contactNumber: '0911111111', debt: 150000 },
+      ]);
+    });
+
+    it('should retry failed events and give up after the last attempt', async () => {
+      productSync.applyKiotVietProducts.mockRejectedValue(new Error('boom'));
+      prisma.webHookEvent.findMany
+        .mockResolvedValueOnce([pendingEvent('product.update', [{ Id: 1 }])])
+        .mockResolvedValueOnce([
+          pendingEvent('product.update', [{ Id: 1 }], 4),
+        ]);
+
+      await service.processPendingEvents();
+      expect(prisma.webHookEvent.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: WebHookEventStatus.pending,
+            lastError: 'boom',
+          }),
+        }),
+      );
+
+      await service.processPendingEvents();
+      expect(prisma.webHookEvent.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: WebHookEventStatus.failed,
+          }),
+        }),
+      );
+    });
+
+    it('should not process when another worker holds the lock', async () => {
+      redis.acquireLock.mockResolvedValue(null);
+
+      await service.processPendingEvents();
+
+      expect(prisma.webHookEvent.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  OrderStatus,
+  OriginSource,
+  Prisma,
+  WebHookEvent,
+  WebHookEventStatus,
+} from '@prisma/client';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../../common/services/prisma.service';
+import { RedisService } from '../../../common/services/redis.service';
+import {
+  KiotVietProductItem,
+  KiotVietWebhookCustomerItem,
+  KiotVietWebhookPayload,
+  KiotVietWebhookStatusItem,
+  KiotVietWebhookStockItem,
+} from '../../interfaces';
+import { KIOTVIET_INVOICE_STATUS_MAP } from '../kiotviet.constants';
+import { KiotVietAuthService } from './kiot-viet.auth.service';
+import {
+  KiotVietProductSyncService,
+  KiotVietWarehouseHelper,
+} from './kiotviet-syncing/products';
+import { KiotVietOrderSyncHelper } from './kiotviet-syncing/orders/kiotviet-order-sync.helper';
+import { KiotVietCustomerSyncService } from './kiotviet-syncing/customers';
+
+export const KIOTVIET_WEBHOOK_EVENT_TYPES = [
+  'product.update',
+  'product.delete',
+  'stock.update',
+  'order.update',
+  'invoice.update',
+  'customer.update',
+] as const;
+
+export type KiotVietWebhookEventType =
+  (typeof KIOTVIET_WEBHOOK_EVENT_TYPES)[number];
+
+const WEBHOOK_LOCK_KEY = 'kiotviet:webhook:lock';
+const WEBHOOK_LOCK_TTL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+
+/**
+ * Receives KiotViet webhook callbacks: verifies the signature, stores each
+ * notification in the WebHookEvent queue (deduplicated by KiotViet's
+ * notification Id) and applies it to ACTA data in order of arrival.
+ */
+@Injectable()
+export class KiotVietWebhookEventService {
+  private readonly logger = new Logger(KiotVietWebhookEventService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly authService: KiotVietAuthService,
+    private readonly productSyncService: KiotVietProductSyncService,
+    private readonly customerSyncService: KiotVietCustomerSyncService,
+    private readonly warehouseHelper: KiotVietWarehouseHelper,
+  ) {}
+
+  /**
+   * Check X-Hub-Signature (HMAC-SHA256 of the raw body, hex, optional
+   * "sha256=" prefix) against KIOTVIET_WEBHOOK_SECRET and the secrets of
+   * the registered webhooks
+   */
+  async verifySignature(
+    rawBody: Buffer | string | undefined,
+    signature: string | undefined,
+  ): Promise<void> {
+    if (!rawBody || !signature) {
+      throw new UnauthorizedException('Thiếu chữ ký webhook KiotViet');
+    }
+
+    const registrations = await this.prisma.webHook.findMany({
+      where: { isActive: true, source: OriginSource.kiotviet },
+      select: { secret: true },
+    });
+    const secrets = [
+      this.authService.getConfig().webhookSecret,
+      ...registrations.map((webhook) => webhook.secret),
+    ].filter((secret): secret is string => !!secret);
+
+    const provided = Buffer.from(signature.replace(/^sha256=/i, ''));
+    const isValid = secrets.some((secret) => {
+      const expected = Buffer.from(
+        createHmac('sha256', secret).update(rawBody).digest('hex'),
+      );
+      return (
+        expected.length === provided.length &&
+        timingSafeEqual(expected, provided)
+      );
+    });
+
+    if (!isValid) {
+      throw new UnauthorizedException('Chữ ký webhook KiotViet không hợp lệ');
+    }
+  }
+
+  /**
+   * Queue the notifications of a callback; redeliveries of the same
+   * notification are ignored
+   */
+  async enqueue(
+    payload: KiotVietWebhookPayload,
+    rawBody: Buffer | string,
+  ): Promise<{ queued: number; duplicates: number; ignored: number }> {
+    // KiotViet retries a delivery with the same Id
+    const deliveryId =
+      payload.Id || createHash('sha256').update(rawBody).digest('hex');
+    const notifications = payload.Notifications ?? [];
+
+    const events: Prisma.WebHookEventCreateManyInput[] = [];
+    let ignored = 0;
+
+    notifications.forEach((notification, index) => {
+      const type = this.parseEventType(notification.Action);
+      if (!type) {
+        this.logger.debug(
+          `Ignoring unsupported KiotViet webhook ${notification.Action}`,
+        );
+        ignored++;
+        return;
+      }
+
+      events.push({
+        eventKey: `${deliveryId}:${index}`,
+        type,
+        action: notification.Action,
+        payload: (notification.Data ?? []) as Prisma.InputJsonValue,
+        source: OriginSource.kiotviet,
+      });
+    });
+
+    const { count } = events.length
+      ? await this.prisma.webHookEvent.createMany({
+          data: events,
+          skipDuplicates: true,
+        })
+      : { count: 0 };
+
+    this.logger.log(
+      `KiotViet webhook ${deliveryId}: ${count} queued, ${events.length - count} duplicates, ${ignored} ignored`,
+    );
+
+    if (count > 0) {
+      // Apply right away instead of waiting for the next poll
+      setImmediate(() => {
+        this.processPendingEvents().catch((error) =>
+          this.logger.error(
+            `Failed to process KiotViet webhook events: ${error.message}`,
+          ),
+        );
+      });
+    }
+
+    return { queued: count, duplicates: events.length - count, ignored };
+  }
+
+  /**
+   * Drain due events oldest first; the lock keeps one worker across instances
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processPendingEvents(): Promise<void> {
+    const lockToken = await this.redisService.acquireLock(
+      WEBHOOK_LOCK_KEY,
+      WEBHOOK_LOCK_TTL_MS,
+    );
+    if (!lockToken) return;
+
+    try {
+      // Only the lock holder processes, so rows still marked processing were
+      // left behind by a worker that crashed
+      await this.prisma.webHookEvent.updateMany({
+        where: { status: WebHookEventStatus.processing },
+        data: { status: WebHookEventStatus.pending },
+      });
+
+      let events: WebHookEvent[];
+      do {
+        events = await this.prisma.webHookEvent.findMany({
+          where: {
+            status: WebHookEventStatus.pending,
+            nextAttemptAt: { lte: new Date() },
+          },
+          orderBy: { createdAt: 'asc' },
+          take: BATCH_SIZE,
+        });
+
+        for (const event of events) {
+          await this.processEvent(event);
+        }
+
+        await this.redisService.extendLock(
+          WEBHOOK_LOCK_KEY,
+          lockToken,
+          WEBHOOK_LOCK_TTL_MS,
+        );
+      } while (events.length === BATCH_SIZE);
+    } finally {
+      await this.redisService.releaseLock(WEBHOOK_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Apply one event; failures are retried with exponential backoff
+   */
+  private async processEvent(event: WebHookEvent): Promise<void> {
+    const attempts = event.attempts + 1;
+
+    await this.prisma.webHookEvent.update({
+      where: { id: event.id },
+      data: { status: WebHookEventStatus.processing, attempts },
+    });
+
+    try {
+      await this.applyEvent(
+        event.type as KiotVietWebhookEventType,
+        this.normalizeKeys(event.payload) as any[],
+      );
+
+      await this.prisma.webHookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: WebHookEventStatus.processed,
+          processedAt: new Date(),
+          lastError: null,
+        },
+      });
+    } catch (error) {
+      const gaveUp = attempts >= MAX_ATTEMPTS;
+      this.logger.warn(
+        `KiotViet webhook event ${event.id} (${event.type}) attempt ${attempts} failed: ${error.message}`,
+      );
+
+      await this.prisma.webHookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: gaveUp
+            ? WebHookEventStatus.failed
+            : WebHookEventStatus.pending,
+          lastError: error.message,
+          nextAttemptAt: new Date(
+            Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+          ),
+        },
+      });
+    }
+  }
+
+  private async applyEvent(
+    type: KiotVietWebhookEventType,
+    data: any[],
+  ): Promise<void> {
+    switch (type) {
+      case 'product.update':
+        return this.applyProductUpdate(data as KiotVietProductItem[]);
+      case 'product.delete':
+        await this.productSyncService.deactivateKiotVietProducts(
+          data.map((item) => (typeof item === 'number' ? item : item.id)),
+        );
+        return;
+      case 'stock.update':
+        return this.applyStockUpdate(data as KiotVietWebhookStockItem[]);
+      case 'order.update':
+        return this.applyOrderUpdate(data as KiotVietWebhookStatusItem[]);
+      case 'invoice.update':
+        return this.applyInvoiceUpdate(data as KiotVietWebhookStatusItem[]);
+      case 'customer.update':
+        return this.applyCustomerUpdate(data as KiotVietWebhookCustomerItem[]);
+    }
+  }
+
+  private async applyProductUpdate(
+    products: KiotVietProductItem[],
+  ): Promise<void> {
+    const details = await this.productSyncService.applyKiotVietProducts(
+      products.map((product) => ({
+        ...product,
+        inventories: product.inventories ?? [],
+      })),
+    );
+
+    if (details.productStats!.errors > 0) {
+      throw new Error(details.errorDetails!.join('; '));
+    }
+  }
+
+  /**
+   * Stock changes only touch cost, onHand and reserved of the inventory row
+   */
+  private async applyStockUpdate(
+    items: KiotVietWebhookStockItem[],
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const warehouseMap = new Map<number, string>();
+      await this.warehouseHelper.syncWarehousesFromInventories(
+        tx,
+        items,
+        warehouseMap,
+        { adds: 0, skips: 0, errors: 0 },
+      );
+
+      for (const item of items) {
+        const product = await tx.product.findUnique({
+          where: { kiotVietProductId: item.productId },
+          select: { id: true },
+        });
+        const warehouseId = warehouseMap.get(item.branchId);
+
+        if (!product || !warehouseId) {
+          this.logger.debug(
+            `Skipping stock update for KiotViet product ${item.productId} at branch ${item.branchId}: not synced yet`,
+          );
+          continue;
+        }
+
+        const stock = {
+          ...(item.cost !== undefined && { cost: item.cost }),
+          ...(item.onHand !== undefined && { onHand: item.onHand }),
+          ...(item.reserved !== undefined && { reserved: item.reserved }),
+        };
+
+        await tx.productInventory.upsert({
+          where: {
+            warehouseId_productId: { warehouseId, productId: product.id },
+          },
+          update: stock,
+          create: {
+            kiotVietWarehouseId: item.branchId,
+            productId: product.id,
+            warehouseId,
+            cost: 0,
+            ...stock,
+            source: OriginSource.kiotviet,
+          },
+        });
+      }
+    });
+  }
+
+  /**
+   * KiotViet status changes only move linked orders forward
+   */
+  private async applyOrderUpdate(
+    items: KiotVietWebhookStatusItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      const order = await this.prisma.order.findUnique({
+        where: { kiotVietOrderId: item.id },
+        select: { id: true, status: true },
+      });
+      if (!order) continue;
+
+      const status = KiotVietOrderSyncHelper.resolveBackflowStatus(
+        order.status,
+        item.status,
+      );
+      if (!status) continue;
+
+      await this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          status,
+          ...(status === OrderStatus.completed && { completedAt: new Date() }),
+          ...(status === OrderStatus.cancelled && { cancelledAt: new Date() }),
+        },
+      });
+    }
+  }
+
+  private async applyInvoiceUpdate(
+    items: KiotVietWebhookStatusItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      const status = KIOTVIET_INVOICE_STATUS_MAP[item.status];
+      if (!status) continue;
+
+      await this.prisma.invoice.updateMany({
+        where: { kiotVietInvoiceId: item.id },
+        data: { status },
+      });
+    }
+  }
+
+  /**
+   * Only customers already linked to KiotViet are updated
+   */
+  private async applyCustomerUpdate(
+    items: KiotVietWebhookCustomerItem[],
+  ): Promise<void> {
+    const details =
+      await this.customerSyncService.applyKiotVietCustomers(items);
+
+    if (details.customerStats!.errors > 0) {
+      throw new Error(details.errorDetails!.join('; '));
+    }
+  }
+
+  /**
+   * "stock.update.500175866" -> "stock.update"
+   */
+  private parseEventType(
+    action: string | undefined,
+  ): KiotVietWebhookEventType | null {
+    const type = action?.split('.').slice(0, 2).join('.').toLowerCase();
+    return KIOTVIET_WEBHOOK_EVENT_TYPES.find((t) => t === type) ?? null;
+  }
+
+  /**
+   * Webhook data uses PascalCase keys while the API (and our mappers) use camelCase
+   */
+  private normalizeKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalizeKeys(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [
+          key.charAt(0).toLowerCase() + key.slice(1),
+          this.normalizeKeys(nested),
+        ]),
+      );
+    }
+    return value;
+  }
+}
@@ -22,7 +22,8 @@ import { PrismaService } from './common/services/prisma.service';
 // Prisma shutdown handling
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody is needed to verify signed payment webhooks (Stripe)
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Make class-validator use Nest DI (so custom validators can inject services)
   useContainer(app.select(AppModule), { fallbackOnErrors: true });
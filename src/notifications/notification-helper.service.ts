@@ -83,6 +83,51 @@ export class NotificationHelperService {
     });
   }
 
+  async createReturnOrderNotification(
+    userId: string,
+    returnOrderId: string,
+    action: NotificationAction,
+    message: string,
+  ) {
+    return this.notificationService.createNotification({
+      userId,
+      relatedModel: RelatedModel.return_order,
+      relatedModelId: returnOrderId,
+      action,
+      message,
+    });
+  }
+
+  async createOrderNotification(
+    userId: string,
+    orderId: string,
+    action: NotificationAction,
+    message: string,
+  ) {
+    return this.notificationService.createNotification({
+      userId,
+      relatedModel: RelatedModel.order,
+      relatedModelId: orderId,
+      action,
+      message,
+    });
+  }
+
+  async createProductNotification(
+    userId: string,
+    productId: string,
+    action: NotificationAction,
+    message: string,
+  ) {
+    return this.notificationService.createNotification({
+      userId,
+      relatedModel: RelatedModel.product,
+      relatedModelId: productId,
+      action,
+      message,
+    });
+  }
+
   async createSystemNotification(
     userId: string,
     action: NotificationAction,
@@ -66,6 +66,12 @@ export class NotificationService {
         return `/comments/${relatedModelId}`;
       case RelatedModel.system:
         return `/admin/system`;
+      case RelatedModel.return_order:
+        return `/orders/returns/${relatedModelId}`;
+      case RelatedModel.product:
+        return `/products/${relatedModelId}`;
+      case RelatedModel.order:
+        return `/orders/${relatedModelId}`;
       default:
         return '/';
     }
@@ -33,10 +33,11 @@ export class CartItemResponseDto {
 
 export class CartResponseDto {
   id: string;
-  userId: string;
+  userId: string | null; // null for an anonymous cart
   items: CartItemResponseDto[];
   totalQuantity: number;
   totalPrice: number;
+  cartToken?: string; // Signed token of an anonymous cart, sent back as x-cart-token
 
   static fromCart(cart: any): CartResponseDto {
     const items = cart.items.map((i: any) =>
@@ -55,7 +56,7 @@ export class CartResponseDto {
 /** Paginated cart (items are paginated; cart totals still reflect the WHOLE cart) */
 export class PaginatedCartResponseDto {
   cartId: string;
-  userId: string;
+  userId: string | null;
 
   // Page slice
   items: CartItemResponseDto[];
@@ -68,7 +69,7 @@ export class PaginatedCartResponseDto {
   totalPrice: number;
 
   static fromPaginatedCart(result: {
-    cart: { id: string; userId: string };
+    cart: { id: string; userId: string | null };
     // items in the CURRENT PAGE (array of CartItem with product populated)
     items: any[];
     // total numbers computed for the WHOLE cart (not only current page)
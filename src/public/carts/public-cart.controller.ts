@@ -9,8 +9,14 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  Headers,
+  BadRequestException,
 } from '@nestjs/common';
-import { PublicCartService } from './public-cart.service';
+import {
+  PUBLIC_CART_CONSTANTS,
+  PublicCartService,
+} from './public-cart.service';
+import { CartOwner } from './public-cart.helper';
 import { CartItemQueryDto } from './dto/public-cart-query.dto';
 import {
   AddToCartDto,
@@ -22,29 +28,50 @@ import {
   PaginatedCartResponseDto,
 } from './dto/public-cart-response.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { Public } from '../../common/decorators/public.decorator';
 import { CurrentUser } from '../../users/users.decorator';
 import { JwtPayload } from '../../auth/jwt-payload';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiHeader, ApiTags } from '@nestjs/swagger';
+
+const GUEST_TOKEN_HEADER = PUBLIC_CART_CONSTANTS.GUEST_TOKEN_HEADER;
 
+/**
+ * Signed-in users are identified by their access token. Anonymous visitors
+ * get a signed cart token from their first add and send it back in the
+ * x-cart-token header; the cart is merged into theirs on login or register.
+ */
 @ApiBearerAuth()
+@ApiHeader({
+  name: GUEST_TOKEN_HEADER,
+  required: false,
+  description: 'Cart token of an anonymous visitor',
+})
 @ApiTags('Public Cart')
 @Controller('public/cart')
+@Public()
 @UseGuards(JwtAuthGuard)
 export class PublicCartController {
   constructor(private readonly publicCartService: PublicCartService) {}
 
   /**
-   * Add item to cart
+   * Add item to cart, starting an anonymous cart when there is none
    * POST /public/cart/add
    */
   @Post('add')
   @HttpCode(HttpStatus.OK)
   async addToCart(
-    @CurrentUser() user: JwtPayload,
+    @CurrentUser() user: JwtPayload | undefined,
+    @Headers(GUEST_TOKEN_HEADER) cartToken: string | undefined,
     @Body() addToCartDto: AddToCartDto,
   ): Promise<CartResponseDto> {
-    const userId = user.id;
-    return this.publicCartService.addToCart(userId, addToCartDto);
+    let owner = this.publicCartService.resolveOwner(user, cartToken);
+    if (!owner) {
+      ({ owner, cartToken } = this.publicCartService.issueGuestCart());
+    }
+
+    const cart = await this.publicCartService.addToCart(owner, addToCartDto);
+
+    return 'guestToken' in owner ? { ...cart, cartToken } : cart;
   }
 
   /**
@@ -54,11 +81,14 @@ export class PublicCartController {
   @Put('update')
   @HttpCode(HttpStatus.OK)
   async updateCartItem(
-    @CurrentUser() user: JwtPayload,
+    @CurrentUser() user: JwtPayload | undefined,
+    @Headers(GUEST_TOKEN_HEADER) cartToken: string | undefined,
     @Body() updateCartItemDto: UpdateCartItemDto,
   ): Promise<CartResponseDto> {
-    const userId = user.id;
-    return this.publicCartService.updateCartItem(userId, updateCartItemDto);
+    return this.publicCartService.updateCartItem(
+      this.requireOwner(user, cartToken),
+      updateCartItemDto,
+    );
   }
 
   /**
@@ -68,35 +98,55 @@ export class PublicCartController {
   @Delete('remove')
   @HttpCode(HttpStatus.OK)
   async removeFromCart(
-    @CurrentUser() user: JwtPayload,
+    @CurrentUser() user: JwtPayload | undefined,
+    @Headers(GUEST_TOKEN_HEADER) cartToken: string | undefined,
     @Body() removeFromCartDto: RemoveFromCartDto,
   ): Promise<CartResponseDto> {
-    const userId = user.id;
-    return this.publicCartService.removeFromCart(userId, removeFromCartDto);
+    return this.publicCartService.removeFromCart(
+      this.requireOwner(user, cartToken),
+      removeFromCartDto,
+    );
   }
 
   /**
-   * Get user's cart with pagination and filtering
+   * Get the cart with pagination and filtering
    * GET /public/cart
    */
   @Get()
   async getCart(
-    @CurrentUser() user: JwtPayload,
+    @CurrentUser() user: JwtPayload | undefined,
+    @Headers(GUEST_TOKEN_HEADER) cartToken: string | undefined,
     @Query() query: CartItemQueryDto,
   ): Promise<PaginatedCartResponseDto> {
-    const userId = user.id;
-    return this.publicCartService.getCart(userId, query);
+    return this.publicCartService.getCart(
+      this.publicCartService.resolveOwner(user, cartToken),
+      query,
+    );
   }
 
   /**
-   * Get total count of items in user's cart
+   * Get total count of items in the cart
    * GET /public/cart/count
    */
   @Get('count')
   async getCartCount(
-    @CurrentUser() user: JwtPayload,
+    @CurrentUser() user: JwtPayload | undefined,
+    @Headers(GUEST_TOKEN_HEADER) cartToken: string | undefined,
   ): Promise<{ totalItems: number; totalQuantity: number }> {
-    const userId = user.id;
-    return this.publicCartService.getCartCount(userId);
+    return this.publicCartService.getCartCount(
+      this.publicCartService.resolveOwner(user, cartToken),
+    );
+  }
+
+  private requireOwner(
+    user: JwtPayload | undefined,
+    cartToken: string | undefined,
+  ): CartOwner {
+    const owner = this.publicCartService.resolveOwner(user, cartToken);
+    if (!owner) {
+      throw new BadRequestException('Giỏ hàng không tồn tại hoặc đã hết hạn');
+    }
+
+    return owner;
   }
 }
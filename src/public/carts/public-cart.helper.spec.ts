@@ -0,0 +1,98 @@
+import {
+  GUEST_CART_TTL_DAYS,
+  MAX_CART_ITEM_QUANTITY,
+  PublicCartHelper,
+} from './public-cart.helper';
+
+describe('PublicCartHelper', () => {
+  const SECRET = 'cart-secret';
+
+  describe('guest cart tokens', () => {
+    it('verifies the tokens it issues', () => {
+      const { guestToken, cartToken } =
+        PublicCartHelper.issueGuestToken(SECRET);
+
+      expect(cartToken.startsWith(`${guestToken}.`)).toBe(true);
+      expect(PublicCartHelper.verifyGuestToken(cartToken, SECRET)).toBe(
+        guestToken,
+      );
+    });
+
+    it('rejects forged, re-signed or malformed tokens', () => {
+      const { cartToken } = PublicCartHelper.issueGuestToken(SECRET);
+      const [, signature] = cartToken.split('.');
+
+      expect(
+        PublicCartHelper.verifyGuestToken(`someone-else.${signature}`, SECRET),
+      ).toBeNull();
+      expect(
+        PublicCartHelper.verifyGuestToken(cartToken, 'other-secret'),
+      ).toBeNull();
+      expect(PublicCartHelper.verifyGuestToken('no-signature', SECRET)).toBe(
+        null,
+      );
+      expect(PublicCartHelper.verifyGuestToken(undefined, SECRET)).toBeNull();
+    });
+
+    it('expires guest carts after the TTL', () => {
+      const now = new Date('2026-10-18T00:00:00Z');
+
+      expect(PublicCartHelper.guestCartExpiry(now).getTime()).toBe(
+        now.getTime() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('cartWhere', () => {
+    it('finds user carts by user and guest carts only while unexpired', () => {
+      expect(PublicCartHelper.cartWhere({ userId: 'user-1' })).toEqual({
+        userId: 'user-1',
+      });
+      expect(PublicCartHelper.cartWhere({ guestToken: 'g-1' })).toEqual({
+        guestToken: 'g-1',
+        expiresAt: { gt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('reconcileQuantity', () => {
+    const product = (overrides: Record<string, any> = {}) => ({
+      isActive: true,
+      allowsSale: true,
+      businessId: 'biz-1',
+      minQuantity: 1,
+      maxQuantity: null,
+      inventories: [{ onHand: 5 }],
+      ...overrides,
+    });
+
+    it('keeps quantities the stock covers', () => {
+      expect(PublicCartHelper.reconcileQuantity(product(), 3)).toBe(3);
+    });
+
+    it('lowers quantities to stock, the product maximum and the cart cap', () => {
+      expect(PublicCartHelper.reconcileQuantity(product(), 8)).toBe(5);
+      expect(
+        PublicCartHelper.reconcileQuantity(product({ maxQuantity: 2 }), 4),
+      ).toBe(2);
+      expect(
+        PublicCartHelper.reconcileQuantity(
+          product({ inventories: [{ onHand: 5000 }] }),
+          1500,
+        ),
+      ).toBe(MAX_CART_ITEM_QUANTITY);
+    });
+
+    it('drops products that cannot be sold in the needed quantity', () => {
+      expect(
+        PublicCartHelper.reconcileQuantity(product({ allowsSale: false }), 1),
+      ).toBe(0);
+      expect(
+        PublicCartHelper.reconcileQuantity(product({ inventories: [] }), 1),
+      ).toBe(0);
+      expect(
+        PublicCartHelper.reconcileQuantity(product({ minQuantity: 6 }), 8),
+      ).toBe(0);
+    });
+  });
+});
@@ -1,20 +1,132 @@
 import { BadRequestException, Logger } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { Prisma, Product, ProductInventory } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { CartItemQueryDto } from './dto/public-cart-query.dto';
 import { PublicProductHelper } from '../products/public-product.helper';
 
+// A cart belongs to a signed-in user or to an anonymous visitor's cart token
+export type CartOwner = { userId: string } | { guestToken: string };
+
+// Anonymous carts live this long after their last change
+export const GUEST_CART_TTL_DAYS = 30;
+// Same ceiling as AddToCartDto
+export const MAX_CART_ITEM_QUANTITY = 999;
+
+// Product fields reconcileQuantity reads, with the stock rows loaded for it
+export type ReconcilableProduct = Pick<
+  Product,
+  'isActive' | 'allowsSale' | 'businessId' | 'minQuantity' | 'maxQuantity'
+> & {
+  inventories?: Pick<ProductInventory, 'onHand'>[];
+};
+
 export class PublicCartHelper {
   private static readonly logger = new Logger(PublicCartHelper.name);
 
+  /**
+   * New anonymous cart id with its signed token: "<id>.<hmac>"
+   */
+  static issueGuestToken(secret: string): {
+    guestToken: string;
+    cartToken: string;
+  } {
+    const guestToken = randomBytes(18).toString('base64url');
+
+    return { guestToken, cartToken: this.signGuestToken(guestToken, secret) };
+  }
+
+  static signGuestToken(guestToken: string, secret: string): string {
+    const signature = createHmac('sha256', secret)
+      .update(`guest-cart:${guestToken}`)
+      .digest('base64url');
+
+    return `${guestToken}.${signature}`;
+  }
+
+  /**
+   * Cart id from a signed cart token, or null when it was tampered with
+   */
+  static verifyGuestToken(
+    cartToken: string | undefined,
+    secret: string,
+  ): string | null {
+    const [guestToken, signature] = cartToken?.split('.') ?? [];
+    if (!guestToken || !signature) return null;
+
+    const expected = Buffer.from(
+      this.signGuestToken(guestToken, secret).split('.')[1],
+    );
+    const actual = Buffer.from(signature);
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return null;
+    }
+
+    return guestToken;
+  }
+
+  static guestCartExpiry(now: Date = new Date()): Date {
+    return new Date(now.getTime() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Unique lookup for the owner's cart; expired guest carts are not found
+   */
+  static cartWhere(owner: CartOwner): Prisma.CartWhereUniqueInput {
+    if ('userId' in owner) {
+      return { userId: owner.userId };
+    }
+
+    return { guestToken: owner.guestToken, expiresAt: { gt: new Date() } };
+  }
+
+  /**
+   * Key the cart caches are stored under
+   */
+  static ownerKey(owner: CartOwner): string {
+    return 'userId' in owner ? owner.userId : `guest:${owner.guestToken}`;
+  }
+
+  /**
+   * Largest quantity of a product the cart may hold, given the same stock and
+   * min/max rules as checkStockAvailability. 0 means the product cannot be
+   * kept in the cart at all.
+   */
+  static reconcileQuantity(
+    product: ReconcilableProduct,
+    requestedQuantity: number,
+  ): number {
+    if (!product.isActive || !product.allowsSale || !product.businessId) {
+      return 0;
+    }
+
+    const inventory = product.inventories?.[0];
+    if (!inventory || inventory.onHand <= 0) return 0;
+
+    let quantity = Math.min(
+      requestedQuantity,
+      inventory.onHand,
+      MAX_CART_ITEM_QUANTITY,
+    );
+    if (product.maxQuantity) {
+      quantity = Math.min(quantity, product.maxQuantity);
+    }
+    if (product.minQuantity && quantity < product.minQuantity) return 0;
+
+    return Math.max(quantity, 0);
+  }
+
   /**
    * Generate cache key for public cart with query parameters
    */
   static generatePublicCartCacheKey(
-    userId: string,
+    ownerKey: string,
     query?: CartItemQueryDto,
   ): string {
-    if (!query) return `public-cart:${userId}:default`;
-    return `public-cart:${userId}:${JSON.stringify(query)}`;
+    if (!query) return `public-cart:${ownerKey}:default`;
+    return `public-cart:${ownerKey}:${JSON.stringify(query)}`;
   }
 
   /**
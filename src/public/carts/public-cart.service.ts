@@ -1,7 +1,11 @@
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
 import { Cache } from 'cache-manager';
+import { AllConfigType } from '../../common/configs/types/index.type';
 import { PrismaService } from '../../common/services/prisma.service';
+import { JwtPayload } from '../../auth/jwt-payload';
 import {
   AddToCartDto,
   RemoveFromCartDto,
@@ -12,14 +16,21 @@ import {
   CartResponseDto,
   PaginatedCartResponseDto,
 } from './dto/public-cart-response.dto';
-import { PublicCartHelper } from './public-cart.helper';
+import { CartOwner, PublicCartHelper } from './public-cart.helper';
 
 export const PUBLIC_CART_CONSTANTS = {
   CACHE_TTL: 10 * 1000, // 10 seconds in milliseconds
   DEFAULT_PAGE: 1,
   DEFAULT_LIMIT: 20,
+  GUEST_TOKEN_HEADER: 'x-cart-token',
 } as const;
 
+export interface GuestCartMergeResult {
+  mergedItems: number;
+  adjustedItems: number; // Quantity lowered to what stock and limits allow
+  droppedItems: number; // Product can no longer be sold
+}
+
 @Injectable()
 export class PublicCartService {
   private readonly logger = new Logger(PublicCartService.name);
@@ -27,18 +38,50 @@ export class PublicCartService {
   constructor(
     private readonly prisma: PrismaService,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly configService: ConfigService<AllConfigType>,
   ) {}
 
+  /**
+   * Signed-in users own their cart; anonymous visitors own the cart their
+   * cart token names. Returns null for a visitor without a valid token.
+   */
+  resolveOwner(
+    user: JwtPayload | undefined,
+    cartToken?: string,
+  ): CartOwner | null {
+    if (user?.id) {
+      return { userId: user.id };
+    }
+
+    const guestToken = PublicCartHelper.verifyGuestToken(
+      cartToken,
+      this.cartTokenSecret,
+    );
+
+    return guestToken ? { guestToken } : null;
+  }
+
+  /**
+   * Start an anonymous cart, returning the token the client must send back
+   */
+  issueGuestCart(): { owner: CartOwner; cartToken: string } {
+    const { guestToken, cartToken } = PublicCartHelper.issueGuestToken(
+      this.cartTokenSecret,
+    );
+
+    return { owner: { guestToken }, cartToken };
+  }
+
   /**
    * Add item to cart
    * Follows the same pattern as public product service methods
    */
   async addToCart(
-    userId: string,
+    owner: CartOwner,
     addToCartDto: AddToCartDto,
   ): Promise<CartResponseDto> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
+      const cart = await this.prisma.$transaction(async (tx) => {
         // Validate product exists and is available
         const product = await tx.product.findFirst({
           where: {
@@ -66,9 +109,9 @@ export class PublicCartService {
 
         PublicCartHelper.checkStockAvailability(product, addToCartDto.quantity);
 
-        // Get or create cart for user
+        // Get or create cart for the owner
         let cart = await tx.cart.findUnique({
-          where: { userId },
+          where: PublicCartHelper.cartWhere(owner),
           include: {
             items: {
               include: PublicCartHelper.getCartItemIncludeClause(),
@@ -77,10 +120,21 @@ export class PublicCartService {
         });
 
         if (!cart) {
+          if ('guestToken' in owner) {
+            // An expired cart under the same token starts over empty
+            await tx.cart.deleteMany({
+              where: { guestToken: owner.guestToken },
+            });
+          }
+
           cart = await tx.cart.create({
-            data: {
-              userId,
-            },
+            data:
+              'userId' in owner
+                ? { userId: owner.userId }
+                : {
+                    guestToken: owner.guestToken,
+                    expiresAt: PublicCartHelper.guestCartExpiry(),
+                  },
             include: {
               items: {
                 include: PublicCartHelper.getCartItemIncludeClause(),
@@ -94,6 +148,12 @@ export class PublicCartService {
           (item) => item.productId === addToCartDto.productId,
         );
 
+        // Every change keeps an anonymous cart alive for another TTL
+        const expiresAt =
+          'guestToken' in owner
+            ? PublicCartHelper.guestCartExpiry()
+            : undefined;
+
         let updatedCart;
         if (existingCartItem) {
           // Update existing cart item quantity
@@ -105,6 +165,7 @@ export class PublicCartService {
           updatedCart = await tx.cart.update({
             where: { id: cart.id },
             data: {
+              expiresAt,
               items: {
                 update: {
                   where: { id: existingCartItem.id },
@@ -123,6 +184,7 @@ export class PublicCartService {
           updatedCart = await tx.cart.update({
             where: { id: cart.id },
             data: {
+              expiresAt,
               items: {
                 create: {
                   productId: addToCartDto.productId,
@@ -140,6 +202,10 @@ export class PublicCartService {
 
         return CartResponseDto.fromCart(updatedCart);
       });
+
+      await this.clearCartCache(PublicCartHelper.ownerKey(owner));
+
+      return cart;
     } catch (error) {
       PublicCartHelper.handleError(error, 'addToCart method', this.logger);
     }
@@ -149,16 +215,16 @@ export class PublicCartService {
    * Update cart item quantity
    */
   async updateCartItem(
-    userId: string,
+    owner: CartOwner,
     updateCartItemDto: UpdateCartItemDto,
   ): Promise<CartResponseDto> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        // Verify cart item belongs to user
+      const cart = await this.prisma.$transaction(async (tx) => {
+        // Verify cart item belongs to the owner
         const cartItem = await tx.cartItem.findFirst({
           where: {
             id: updateCartItemDto.cartItemId,
-            cart: { userId },
+            cart: PublicCartHelper.cartWhere(owner),
           },
           include: {
             product: {
@@ -185,8 +251,12 @@ export class PublicCartService {
 
         // Update cart item
         const updatedCart = await tx.cart.update({
-          where: { userId },
+          where: PublicCartHelper.cartWhere(owner),
           data: {
+            expiresAt:
+              'guestToken' in owner
+                ? PublicCartHelper.guestCartExpiry()
+                : undefined,
             items: {
               update: {
                 where: { id: updateCartItemDto.cartItemId },
@@ -204,8 +274,10 @@ export class PublicCartService {
         return CartResponseDto.fromCart(updatedCart);
       });
 
-      // Clear cache for this user's cart (outside transaction)
-      await this.clearCartCache(userId);
+      // Clear cache for this cart (outside transaction)
+      await this.clearCartCache(PublicCartHelper.ownerKey(owner));
+
+      return cart;
     } catch (error) {
       PublicCartHelper.handleError(error, 'updateCartItem method', this.logger);
     }
@@ -215,16 +287,16 @@ export class PublicCartService {
    * Remove item from cart
    */
   async removeFromCart(
-    userId: string,
+    owner: CartOwner,
     removeFromCartDto: RemoveFromCartDto,
   ): Promise<CartResponseDto> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        // Verify cart item belongs to user and delete it
+      const cart = await this.prisma.$transaction(async (tx) => {
+        // Verify cart item belongs to the owner and delete it
         const deletedItem = await tx.cartItem.deleteMany({
           where: {
             id: removeFromCartDto.cartItemId,
-            cart: { userId },
+            cart: PublicCartHelper.cartWhere(owner),
           },
         });
 
@@ -234,7 +306,7 @@ export class PublicCartService {
 
         // Get updated cart
         const updatedCart = await tx.cart.findUnique({
-          where: { userId },
+          where: PublicCartHelper.cartWhere(owner),
           include: {
             items: {
               include: PublicCartHelper.getCartItemIncludeClause(),
@@ -245,36 +317,51 @@ export class PublicCartService {
         return CartResponseDto.fromCart(updatedCart);
       });
 
-      // Clear cache for this user's cart (outside transaction)
-      await this.clearCartCache(userId);
+      // Clear cache for this cart (outside transaction)
+      await this.clearCartCache(PublicCartHelper.ownerKey(owner));
+
+      return cart;
     } catch (error) {
       PublicCartHelper.handleError(error, 'removeFromCart method', this.logger);
     }
   }
 
   /**
-   * Get user's cart with pagination and filtering
+   * Get the owner's cart with pagination and filtering. A visitor without a
+   * cart token simply has an empty cart.
    */
   async getCart(
-    userId: string,
+    owner: CartOwner | null,
     query?: CartItemQueryDto,
   ): Promise<PaginatedCartResponseDto> {
     try {
+      const page = query?.page || PUBLIC_CART_CONSTANTS.DEFAULT_PAGE;
+      const limit = query?.pageSize || PUBLIC_CART_CONSTANTS.DEFAULT_LIMIT;
+      const skip = (page - 1) * limit;
+
+      const emptyResponse = PaginatedCartResponseDto.fromPaginatedCart({
+        cart: {
+          id: '',
+          userId: owner && 'userId' in owner ? owner.userId : null,
+        },
+        items: [],
+        wholeCartTotals: { totalQuantity: 0, totalPrice: 0, totalItems: 0 },
+        page,
+        totalPages: 0,
+      });
+      if (!owner) return emptyResponse;
+
       const cacheKey = PublicCartHelper.generatePublicCartCacheKey(
-        userId,
+        PublicCartHelper.ownerKey(owner),
         query,
       );
       const cachedData =
         await this.cacheManager.get<PaginatedCartResponseDto>(cacheKey);
       if (cachedData) return cachedData;
 
-      const page = query?.page || PUBLIC_CART_CONSTANTS.DEFAULT_PAGE;
-      const limit = query?.pageSize || PUBLIC_CART_CONSTANTS.DEFAULT_LIMIT;
-      const skip = (page - 1) * limit;
-
       // Get cart
       const cart = await this.prisma.cart.findUnique({
-        where: { userId },
+        where: PublicCartHelper.cartWhere(owner),
         include: {
           items: {
             orderBy: PublicCartHelper.buildCartItemOrderBy(query),
@@ -286,15 +373,6 @@ export class PublicCartService {
       });
 
       if (!cart) {
-        // Return empty cart response
-        const emptyResponse = PaginatedCartResponseDto.fromPaginatedCart({
-          cart: { id: '', userId },
-          items: [],
-          wholeCartTotals: { totalQuantity: 0, totalPrice: 0, totalItems: 0 },
-          page,
-          totalPages: 0,
-        });
-
         await this.cacheManager.set(
           cacheKey,
           emptyResponse,
@@ -341,13 +419,15 @@ export class PublicCartService {
   }
 
   /**
-   * Get total count of items in user's cart
+   * Get total count of items in the owner's cart
    */
   async getCartCount(
-    userId: string,
+    owner: CartOwner | null,
   ): Promise<{ totalItems: number; totalQuantity: number }> {
     try {
-      const cacheKey = `public-cart-count:${userId}`;
+      if (!owner) return { totalItems: 0, totalQuantity: 0 };
+
+      const cacheKey = `public-cart-count:${PublicCartHelper.ownerKey(owner)}`;
       const cachedData = await this.cacheManager.get<{
         totalItems: number;
         totalQuantity: number;
@@ -357,7 +437,7 @@ export class PublicCartService {
 
       // Get cart
       const cart = await this.prisma.cart.findUnique({
-        where: { userId },
+        where: PublicCartHelper.cartWhere(owner),
         include: {
           items: {
             include: PublicCartHelper.getCartItemIncludeClause(),
@@ -689,7 +769,7 @@ export class PublicCartService {
   ): Promise<PaginatedCartResponseDto> {
     try {
       // First, get the cart
-      const cart = await this.getCart(userId, query);
+      const cart = await this.getCart({ userId }, query);
 
       // If auto-cleanup is enabled and cart has items, validate and clean up
       if (autoCleanup && cart.items && cart.items.length > 0) {
@@ -697,7 +777,7 @@ export class PublicCartService {
 
         if (cleanupResult.removedCount > 0) {
           // Re-fetch the cart after cleanup
-          return await this.getCart(userId, query);
+          return await this.getCart({ userId }, query);
         }
       }
 
@@ -712,19 +792,129 @@ export class PublicCartService {
   }
 
   /**
-   * Clear cart cache for user
+   * Move an anonymous cart into the user's cart after login or register.
+   * Quantities of products in both carts are added up, then lowered to what
+   * stock and the product's limits allow; the guest cart is removed.
+   */
+  async mergeGuestCart(
+    userId: string,
+    cartToken: string,
+  ): Promise<GuestCartMergeResult> {
+    const result: GuestCartMergeResult = {
+      mergedItems: 0,
+      adjustedItems: 0,
+      droppedItems: 0,
+    };
+
+    const owner = this.resolveOwner(undefined, cartToken);
+    if (!owner || !('guestToken' in owner)) return result;
+
+    await this.prisma.$transaction(async (tx) => {
+      const guestCart = await tx.cart.findUnique({
+        where: PublicCartHelper.cartWhere(owner),
+        include: {
+          items: {
+            include: {
+              product: {
+                include: {
+                  inventories: {
+                    where: {
+                      onHand: { gt: 0 }, // Same stock source as addToCart
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+      if (!guestCart) return;
+
+      const userCart = await tx.cart.upsert({
+        where: { userId },
+        create: { userId },
+        update: {},
+        include: { items: true },
+      });
+
+      for (const item of guestCart.items) {
+        const existing = userCart.items.find(
+          (cartItem) => cartItem.productId === item.productId,
+        );
+        const requested = (existing?.quantity ?? 0) + item.quantity;
+        const quantity = PublicCartHelper.reconcileQuantity(
+          item.product,
+          requested,
+        );
+
+        if (quantity <= 0) {
+          result.droppedItems++;
+          continue;
+        }
+        if (quantity < requested) {
+          result.adjustedItems++;
+        }
+
+        if (existing) {
+          await tx.cartItem.update({
+            where: { id: existing.id },
+            data: { quantity },
+          });
+        } else {
+          await tx.cartItem.create({
+            data: { cartId: userCart.id, productId: item.productId, quantity },
+          });
+        }
+        result.mergedItems++;
+      }
+
+      await tx.cart.delete({ where: { id: guestCart.id } });
+    });
+
+    await this.clearCartCache(userId);
+    await this.clearCartCache(PublicCartHelper.ownerKey(owner));
+
+    this.logger.log(
+      `Merged guest cart into user ${userId}: ${result.mergedItems} merged, ${result.adjustedItems} adjusted, ${result.droppedItems} dropped`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Drop anonymous carts nobody touched within the TTL
+   */
+  @Cron('0 3 * * *')
+  async purgeExpiredGuestCarts(): Promise<number> {
+    const { count } = await this.prisma.cart.deleteMany({
+      where: { userId: null, expiresAt: { lt: new Date() } },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired guest carts`);
+    }
+
+    return count;
+  }
+
+  private get cartTokenSecret(): string {
+    return this.configService.getOrThrow('app.jwtSecretKey', { infer: true });
+  }
+
+  /**
+   * Clear cart cache for a cart owner key
    */
-  private async clearCartCache(userId: string): Promise<void> {
+  private async clearCartCache(ownerKey: string): Promise<void> {
     try {
-      const cachePattern = `public-cart:${userId}:*`;
-      const countCacheKey = `public-cart-count:${userId}`;
+      const cachePattern = `public-cart:${ownerKey}:*`;
+      const countCacheKey = `public-cart-count:${ownerKey}`;
 
       // Clear both paginated cart cache and count cache
       await this.cacheManager.del(cachePattern);
       await this.cacheManager.del(countCacheKey);
     } catch (error) {
       this.logger.warn(
-        `Failed to clear cart cache for user ${userId}: ${error.message}`,
+        `Failed to clear cart cache for ${ownerKey}: ${error.message}`,
       );
     }
   }
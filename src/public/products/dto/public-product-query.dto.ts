@@ -11,7 +11,7 @@ import {
 export class PublicProductQueryDto {
   @IsOptional()
   @IsString()
-  q?: string; // Search query for name or description
+  q?: string; // Search query, diacritic-insensitive over name, code and description
 
   @IsOptional()
   @IsString()
@@ -86,8 +86,8 @@ export class PublicProductQueryDto {
   pageSize?: number;
 
   @IsOptional()
-  @IsEnum(['name', 'price', 'createdAt', 'rating'])
-  sortBy?: 'name' | 'price' | 'createdAt' | 'rating';
+  @IsEnum(['relevance', 'name', 'price', 'createdAt', 'rating'])
+  sortBy?: 'relevance' | 'name' | 'price' | 'createdAt' | 'rating'; // relevance is the default when searching
 
   @IsOptional()
   @IsEnum(['asc', 'desc'])
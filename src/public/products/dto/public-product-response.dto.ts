@@ -41,6 +41,9 @@ export class PublicProductItemResponseDto {
 
   shortDescription?: string;
 
+  // Chỉ có khi gọi kèm token đăng nhập
+  isWishlisted?: boolean;
+
   createdAt: Date;
 
   constructor(partial: Partial<PublicProductItemResponseDto>) {
@@ -86,6 +89,37 @@ export class PublicProductItemResponseDto {
   }
 }
 
+export class PublicProductFacetBucketDto {
+  id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export class PublicProductPriceRangeFacetDto {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number; // Không bao gồm
+  count: number;
+}
+
+export class PublicProductStockFacetDto {
+  status: 'in_stock' | 'low_stock' | 'out_of_stock';
+  count: number;
+}
+
+/**
+ * Số sản phẩm theo từng giá trị lọc. Mỗi nhóm bỏ qua bộ lọc của chính nó,
+ * nên các lựa chọn khác trong nhóm vẫn hiện số lượng.
+ */
+export class PublicProductFacetsDto {
+  categories: PublicProductFacetBucketDto[];
+  businesses: PublicProductFacetBucketDto[];
+  priceRanges: PublicProductPriceRangeFacetDto[];
+  stockStatus: PublicProductStockFacetDto[];
+}
+
 export class PaginatedPublicProductResponseDto {
   data: PublicProductItemResponseDto[];
 
@@ -95,12 +129,33 @@ export class PaginatedPublicProductResponseDto {
 
   totalPages: number;
 
+  facets: PublicProductFacetsDto;
+
   static fromPaginatedProducts(result: any): PaginatedPublicProductResponseDto {
     return {
       data: result.data,
       total: result.total,
       page: result.page,
       totalPages: result.totalPages,
+      facets: result.facets,
+    };
+  }
+}
+
+export class PublicProductSuggestionDto {
+  id: string;
+  name: string;
+  slug: string;
+  thumbnail: string;
+  price: number;
+
+  static fromProduct(product: any): PublicProductSuggestionDto {
+    return {
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      thumbnail: product.thumbnail,
+      price: Number(product.price),
     };
   }
 }
@@ -201,8 +256,12 @@ export class PublicProductDetailDto {
   specifications?: Record<string, string | number | boolean>;
   attributes?: Array<{ name: string; value: string }>;
 
-  // Đánh giá
-  rating: { average: number; count: number };
+  // Đánh giá (chỉ tính đánh giá đã duyệt)
+  rating: {
+    average: number;
+    count: number;
+    distribution: Record<1 | 2 | 3 | 4 | 5, number>; // số đánh giá theo số sao
+  };
 
   // Review tóm tắt (chi tiết review qua endpoint riêng)
   topReviews?: Array<PublicReviewDto>;
@@ -227,6 +286,9 @@ export class PublicProductDetailDto {
   // Nhãn/flag marketing
   badges?: string[]; // ['new','best_seller','low_stock','free_ship',...]
 
+  // Người dùng hiện tại đã thêm vào wishlist (chỉ có khi gọi kèm token)
+  isWishlisted?: boolean;
+
   updatedAt: string; // ISO (hỗ trợ cache/ISR)
 }
 
@@ -244,6 +306,22 @@ export class PublicReviewDto {
   user: { displayName: string; avatarUrl?: string }; // ví dụ "Nguyễn A***"
 }
 
+export class PublicProductReviewsResponseDto {
+  summary: {
+    average: number;
+    count: number;
+    distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  };
+
+  data: PublicReviewDto[];
+
+  total: number;
+
+  page: number;
+
+  totalPages: number;
+}
+
 export class PublicBrandDetailDto {
   id: string;
   name: string;
@@ -0,0 +1,60 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class PublicReviewQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return parseInt(value, 10);
+    }
+    return value;
+  })
+  rating?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  withImages?: boolean;
+
+  @IsOptional()
+  @IsEnum(['newest', 'helpful', 'rating_high', 'rating_low'])
+  sortBy?: 'newest' | 'helpful' | 'rating_high' | 'rating_low';
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return parseInt(value, 10);
+    }
+    return value;
+  })
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return parseInt(value, 10);
+    }
+    return value;
+  })
+  pageSize?: number;
+}
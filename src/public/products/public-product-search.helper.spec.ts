@@ -0,0 +1,85 @@
+import {
+  PRODUCT_PRICE_RANGES,
+  PublicProductSearchHelper,
+} from './public-product-search.helper';
+
+describe('PublicProductSearchHelper', () => {
+  describe('foldText', () => {
+    it('folds Vietnamese diacritics, đ and case', () => {
+      expect(PublicProductSearchHelper.foldText('Cà Phê Sữa Đá')).toBe(
+        'ca phe sua da',
+      );
+      expect(PublicProductSearchHelper.foldText('ca phe')).toBe('ca phe');
+    });
+
+    it('collapses punctuation and whitespace', () => {
+      expect(PublicProductSearchHelper.foldText('  Trà-xanh, 500ml!! ')).toBe(
+        'tra xanh 500ml',
+      );
+      expect(PublicProductSearchHelper.foldText('?!')).toBe('');
+      expect(PublicProductSearchHelper.foldText(undefined)).toBe('');
+    });
+  });
+
+  describe('buildTsQuery', () => {
+    it('requires every term, each as a prefix', () => {
+      expect(PublicProductSearchHelper.buildTsQuery('ca ph')).toBe(
+        'ca:* & ph:*',
+      );
+    });
+  });
+
+  describe('sortByRank', () => {
+    const hits = [
+      { id: 'b', rank: 0.9 },
+      { id: 'a', rank: 0.5 },
+      { id: 'c', rank: 0.1 },
+    ];
+
+    it('orders items by the hits and drops filtered-out hits', () => {
+      const items = [{ id: 'a' }, { id: 'c' }];
+
+      expect(PublicProductSearchHelper.sortByRank(items, hits)).toEqual([
+        { id: 'a' },
+        { id: 'c' },
+      ]);
+      expect(
+        PublicProductSearchHelper.sortByRank(
+          [{ id: 'c' }, { id: 'b' }, { id: 'x' }],
+          hits,
+        ).map((item) => item.id),
+      ).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('priceRangeWhere', () => {
+    it('bounds prices from the minimum up to the exclusive maximum', () => {
+      const [first, second] = PRODUCT_PRICE_RANGES;
+      const last = PRODUCT_PRICE_RANGES[PRODUCT_PRICE_RANGES.length - 1];
+
+      expect(PublicProductSearchHelper.priceRangeWhere(first)).toEqual({
+        price: { lt: 100_000 },
+      });
+      expect(PublicProductSearchHelper.priceRangeWhere(second)).toEqual({
+        price: { gte: 100_000, lt: 500_000 },
+      });
+      expect(PublicProductSearchHelper.priceRangeWhere(last)).toEqual({
+        price: { gte: 5_000_000 },
+      });
+    });
+  });
+
+  describe('toFacetBuckets', () => {
+    it('labels groups with their entity and skips missing ones', () => {
+      expect(
+        PublicProductSearchHelper.toFacetBuckets(
+          [
+            { id: 'cat-1', count: 4 },
+            { id: 'gone', count: 2 },
+          ],
+          [{ id: 'cat-1', name: 'Cà phê', slug: 'ca-phe' }],
+        ),
+      ).toEqual([{ id: 'cat-1', name: 'Cà phê', slug: 'ca-phe', count: 4 }]);
+    });
+  });
+});
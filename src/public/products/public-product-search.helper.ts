@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+
+/** A product matched by the search index with its relevance score */
+export interface ProductSearchHit {
+  id: string;
+  rank: number;
+}
+
+export interface PriceRange {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export const PRODUCT_PRICE_RANGES: PriceRange[] = [
+  { key: 'under_100k', label: 'Dưới 100.000đ', max: 100_000 },
+  {
+    key: '100k_500k',
+    label: '100.000đ - 500.000đ',
+    min: 100_000,
+    max: 500_000,
+  },
+  {
+    key: '500k_1m',
+    label: '500.000đ - 1.000.000đ',
+    min: 500_000,
+    max: 1_000_000,
+  },
+  {
+    key: '1m_5m',
+    label: '1.000.000đ - 5.000.000đ',
+    min: 1_000_000,
+    max: 5_000_000,
+  },
+  { key: 'over_5m', label: 'Trên 5.000.000đ', min: 5_000_000 },
+];
+
+export class PublicProductSearchHelper {
+  /**
+   * Fold text the same way products."searchDocument" is built: no Vietnamese
+   * diacritics, lower case, punctuation collapsed to single spaces
+   */
+  static foldText(value?: string | null): string {
+    if (!value) return '';
+
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/gi, 'd')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Prefix tsquery over the folded terms, so "ca ph" already matches
+   * "cà phê" while typing. Terms only hold [a-z0-9] after folding.
+   */
+  static buildTsQuery(folded: string): string {
+    return folded
+      .split(' ')
+      .filter(Boolean)
+      .map((term) => `${term}:*`)
+      .join(' & ');
+  }
+
+  /**
+   * Keep the relevance order of the search hits; items that are not a hit
+   * (filtered out since) are dropped
+   */
+  static sortByRank<T extends { id: string }>(
+    items: T[],
+    hits: ProductSearchHit[],
+  ): T[] {
+    return hits
+      .map((hit) => items.find((item) => item.id === hit.id))
+      .filter((item): item is T => !!item);
+  }
+
+  static priceRangeWhere(range: PriceRange): Prisma.ProductWhereInput {
+    return {
+      price: {
+        ...(range.min !== undefined && { gte: range.min }),
+        ...(range.max !== undefined && { lt: range.max }),
+      },
+    };
+  }
+
+  /**
+   * Facet buckets from a groupBy, labelled with the grouped entity; groups
+   * whose entity is gone are skipped
+   */
+  static toFacetBuckets(
+    groups: Array<{ id: string; count: number }>,
+    entities: Array<{ id: string; name: string; slug: string }>,
+  ) {
+    return groups.flatMap((group) => {
+      const entity = entities.find((item) => item.id === group.id);
+      return entity
+        ? [
+            {
+              id: entity.id,
+              name: entity.name,
+              slug: entity.slug,
+              count: group.count,
+            },
+          ]
+        : [];
+    });
+  }
+}
@@ -4,8 +4,11 @@ import {
   PaginatedPublicProductResponseDto,
   PublicProductItemResponseDto,
   PublicProductDetailDto,
+  PublicProductReviewsResponseDto,
+  PublicProductSuggestionDto,
 } from './dto/public-product-response.dto';
 import { PublicProductQueryDto } from './dto/public-product-query.dto';
+import { PublicReviewQueryDto } from './dto/public-review-query.dto';
 import {
   ApiOperation,
   ApiResponse,
@@ -14,6 +17,8 @@ import {
   ApiParam,
 } from '@nestjs/swagger';
 import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../users/users.decorator';
+import { JwtPayload } from '../../auth/jwt-payload';
 
 @ApiTags('Public Products')
 @Public() // This decorator makes endpoints publicly accessible
@@ -25,7 +30,7 @@ export class PublicProductController {
   @ApiOperation({
     summary: 'Lấy danh sách sản phẩm công khai',
     description:
-      'Lấy danh sách sản phẩm công khai với khả năng lọc, sắp xếp và phân trang',
+      'Lấy danh sách sản phẩm công khai với khả năng tìm kiếm không dấu, lọc, sắp xếp, phân trang và số lượng theo bộ lọc (facets)',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -35,7 +40,8 @@ export class PublicProductController {
   @ApiQuery({
     name: 'q',
     required: false,
-    description: 'Từ khóa tìm kiếm cho tên, mô tả hoặc mã sản phẩm',
+    description:
+      'Từ khóa tìm kiếm cho tên, mô tả hoặc mã sản phẩm (không phân biệt dấu, chấp nhận lỗi chính tả nhẹ)',
   })
   @ApiQuery({
     name: 'categoryId',
@@ -85,7 +91,8 @@ export class PublicProductController {
   @ApiQuery({
     name: 'sortBy',
     required: false,
-    description: 'Trường sắp xếp (name, price, createdAt, rating)',
+    description:
+      'Trường sắp xếp (relevance, name, price, createdAt, rating). Mặc định theo độ liên quan khi có từ khóa',
   })
   @ApiQuery({
     name: 'sortDir',
@@ -94,8 +101,9 @@ export class PublicProductController {
   })
   async findAll(
     @Query() query: PublicProductQueryDto,
+    @CurrentUser() user?: JwtPayload,
   ): Promise<PaginatedPublicProductResponseDto> {
-    return this.publicProductService.findAll(query);
+    return this.publicProductService.findAll(query, user?.id);
   }
 
   @Get('featured')
@@ -115,8 +123,37 @@ export class PublicProductController {
   })
   async getFeatured(
     @Query('limit') limit?: number,
+    @CurrentUser() user?: JwtPayload,
   ): Promise<PublicProductItemResponseDto[]> {
-    return this.publicProductService.getFeatured(limit);
+    return this.publicProductService.getFeatured(limit, user?.id);
+  }
+
+  @Get('suggestions')
+  @ApiOperation({
+    summary: 'Lấy gợi ý sản phẩm',
+    description:
+      'Gợi ý sản phẩm khi đang gõ từ khóa, dùng chung chỉ mục với tìm kiếm sản phẩm',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lấy gợi ý sản phẩm thành công',
+    type: [PublicProductSuggestionDto],
+  })
+  @ApiQuery({
+    name: 'q',
+    required: false,
+    description: 'Từ khóa tìm kiếm (tối thiểu 2 ký tự)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Số lượng gợi ý (mặc định: 8, tối đa: 20)',
+  })
+  async getSuggestions(
+    @Query('q') q?: string,
+    @Query('limit') limit?: number,
+  ): Promise<PublicProductSuggestionDto[]> {
+    return this.publicProductService.getSuggestions(q, limit);
   }
 
   @Get(':id')
@@ -137,8 +174,58 @@ export class PublicProductController {
     name: 'id',
     description: 'ID của sản phẩm',
   })
-  async findById(@Param('id') id: string): Promise<PublicProductDetailDto> {
-    return this.publicProductService.findById(id);
+  async findById(
+    @Param('id') id: string,
+    @CurrentUser() user?: JwtPayload,
+  ): Promise<PublicProductDetailDto> {
+    return this.publicProductService.findById(id, user?.id);
+  }
+
+  @Get(':id/reviews')
+  @ApiOperation({
+    summary: 'Lấy đánh giá của sản phẩm',
+    description:
+      'Lấy đánh giá đã duyệt kèm điểm trung bình và phân bố số sao của sản phẩm',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lấy đánh giá thành công',
+    type: PublicProductReviewsResponseDto,
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID của sản phẩm',
+  })
+  @ApiQuery({
+    name: 'rating',
+    required: false,
+    description: 'Lọc theo số sao (1-5)',
+  })
+  @ApiQuery({
+    name: 'withImages',
+    required: false,
+    description: 'Chỉ lấy đánh giá có ảnh',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    description: 'Sắp xếp (newest, helpful, rating_high, rating_low)',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Số trang (mặc định: 1)',
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    required: false,
+    description: 'Kích thước trang (mặc định: 12)',
+  })
+  async findReviews(
+    @Param('id') id: string,
+    @Query() query: PublicReviewQueryDto,
+  ): Promise<PublicProductReviewsResponseDto> {
+    return this.publicProductService.findReviews(id, query);
   }
 
   @Get('slug/:slug')
@@ -161,7 +248,8 @@ export class PublicProductController {
   })
   async findBySlug(
     @Param('slug') slug: string,
+    @CurrentUser() user?: JwtPayload,
   ): Promise<PublicProductDetailDto> {
-    return this.publicProductService.findBySlug(slug);
+    return this.publicProductService.findBySlug(slug, user?.id);
   }
 }
@@ -1,6 +1,8 @@
 import { BadRequestException, Logger } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { Prisma, ReviewStatus } from '@prisma/client';
 import { PublicProductQueryDto } from './dto/public-product-query.dto';
+import { PublicReviewQueryDto } from './dto/public-review-query.dto';
+import { RatingSummary } from '../../e-commerce/reviews/review.helper';
 
 export class PublicProductHelper {
   private static readonly logger = new Logger(PublicProductHelper.name);
@@ -13,8 +15,13 @@ export class PublicProductHelper {
     return `public-products:${JSON.stringify(query)}`;
   }
 
+  /**
+   * @param matchedIds products the search index matched for `q`; replaces
+   * the text search so the other filters narrow the search hits
+   */
   static buildPublicProductWhereClause(
     query?: PublicProductQueryDto,
+    matchedIds?: string[],
   ): Prisma.ProductWhereInput {
     const where: Prisma.ProductWhereInput = {
       // Only show active products that allow sale for public API
@@ -26,13 +33,9 @@ export class PublicProductHelper {
       return where;
     }
 
-    // Search query (name or description)
-    if (query.q) {
-      where.OR = [
-        { name: { contains: query.q, mode: 'insensitive' } },
-        { description: { contains: query.q, mode: 'insensitive' } },
-        { code: { contains: query.q, mode: 'insensitive' } },
-      ];
+    // Search query, resolved against the search index
+    if (query.q && matchedIds) {
+      where.id = { in: matchedIds };
     }
 
     // Category filtering
@@ -63,30 +66,7 @@ export class PublicProductHelper {
 
     // Stock status filtering
     if (query.stockStatus) {
-      // Filter based on inventory stock levels
-      switch (query.stockStatus) {
-        case 'in_stock':
-          where.inventories = {
-            some: {
-              onHand: { gt: 10 },
-            },
-          };
-          break;
-        case 'low_stock':
-          where.inventories = {
-            some: {
-              onHand: { gte: 1, lte: 10 },
-            },
-          };
-          break;
-        case 'out_of_stock':
-          where.inventories = {
-            every: {
-              onHand: { lte: 0 },
-            },
-          };
-          break;
-      }
+      Object.assign(where, this.stockStatusWhere(query.stockStatus));
     }
 
     // Category group filtering
@@ -99,6 +79,24 @@ export class PublicProductHelper {
     return where;
   }
 
+  /**
+   * Filter on inventory stock levels
+   */
+  static stockStatusWhere(
+    status: 'in_stock' | 'low_stock' | 'out_of_stock',
+  ): Prisma.ProductWhereInput {
+    switch (status) {
+      case 'in_stock':
+        return { inventories: { some: { onHand: { gt: 10 } } } };
+      case 'low_stock':
+        return { inventories: { some: { onHand: { gte: 1, lte: 10 } } } };
+      case 'out_of_stock':
+        return { inventories: { every: { onHand: { lte: 0 } } } };
+      default:
+        return {};
+    }
+  }
+
   static buildPublicProductOrderBy(
     query?: PublicProductQueryDto,
   ): Prisma.ProductOrderByWithRelationInput[] {
@@ -121,9 +119,8 @@ export class PublicProductHelper {
         orderBy.push({ createdAt: direction });
         break;
       case 'rating':
-        // For rating, we might need to handle this differently
-        // For now, use createdAt as fallback
-        orderBy.push({ createdAt: direction });
+        // Denormalised from approved reviews; ties go to the most reviewed
+        orderBy.push({ ratingAverage: direction }, { ratingCount: 'desc' });
         break;
       default:
         orderBy.push({ createdAt: 'desc' });
@@ -179,7 +176,6 @@ export class PublicProductHelper {
       },
       _count: {
         select: {
-          ratings: true,
           variants: true,
         },
       },
@@ -260,42 +256,18 @@ export class PublicProductHelper {
           description: true,
         },
       },
-      ratings: {
-        select: {
-          rating: true,
-        },
-      },
       reviews: {
-        select: {
-          id: true,
-          rating: true,
-          title: true,
-          content: true,
-          images: true,
-          isVerified: true,
-          isHelpful: true,
-          createdAt: true,
-          user: {
-            select: {
-              fullName: true,
-              avatar: {
-                select: {
-                  fileUrl: true,
-                },
-              },
-            },
-          },
-        },
-        orderBy: {
-          createdAt: 'desc' as const,
-        },
+        where: { status: ReviewStatus.approved },
+        select: this.getPublicReviewSelectClause(),
+        orderBy: [
+          { isHelpful: 'desc' as const },
+          { createdAt: 'desc' as const },
+        ],
         take: 5,
       },
       _count: {
         select: {
-          ratings: true,
           variants: true,
-          reviews: true,
         },
       },
     };
@@ -311,10 +283,9 @@ export class PublicProductHelper {
     // Calculate stock status
     const stockStatus = this.calculateStockStatus(available);
 
-    // Calculate rating average (mock implementation)
     const rating = {
-      average: 0, // You would calculate this from actual ratings
-      count: product._count?.ratings || 0,
+      average: product.ratingAverage || 0,
+      count: product.ratingCount || 0,
     };
 
     // Get the main thumbnail
@@ -391,13 +362,13 @@ export class PublicProductHelper {
   /**
    * Transform product data for detailed public API response
    */
-  static transformProductForDetailedResponse(product: any) {
+  static transformProductForDetailedResponse(
+    product: any,
+    rating: RatingSummary,
+  ) {
     // Calculate available stock from inventories
     const available = this.calculateAvailableStock(product.inventories);
 
-    // Calculate rating average
-    const rating = this.calculateRatingAverage(product.ratings);
-
     // Get the main thumbnail
     const thumbnail =
       product.thumbnail ||
@@ -543,21 +514,6 @@ export class PublicProductHelper {
     }));
   }
 
-  private static calculateRatingAverage(ratings: any[]): {
-    average: number;
-    count: number;
-  } {
-    if (!ratings || ratings.length === 0) {
-      return { average: 0, count: 0 };
-    }
-
-    const sum = ratings.reduce((acc, rating) => acc + (rating.rating || 0), 0);
-    return {
-      average: Math.round((sum / ratings.length) * 10) / 10,
-      count: ratings.length,
-    };
-  }
-
   private static calculateTaxRate(
     taxType: any,
     taxRateDirect?: number,
@@ -593,7 +549,60 @@ export class PublicProductHelper {
     return `Bảo hành ${mainWarranty.duration} ${timeText}`;
   }
 
-  private static transformReviews(reviews: any[]) {
+  /**
+   * Approved reviews of a product, filtered by stars or photos
+   */
+  static buildPublicReviewWhereClause(
+    productId: string,
+    query?: PublicReviewQueryDto,
+  ): Prisma.ReviewWhereInput {
+    return {
+      productId,
+      status: ReviewStatus.approved,
+      ...(query?.rating && { rating: query.rating }),
+      ...(query?.withImages && { images: { isEmpty: false } }),
+    };
+  }
+
+  static buildPublicReviewOrderBy(
+    query?: PublicReviewQueryDto,
+  ): Prisma.ReviewOrderByWithRelationInput[] {
+    switch (query?.sortBy) {
+      case 'helpful':
+        return [{ isHelpful: 'desc' }, { createdAt: 'desc' }];
+      case 'rating_high':
+        return [{ rating: 'desc' }, { createdAt: 'desc' }];
+      case 'rating_low':
+        return [{ rating: 'asc' }, { createdAt: 'desc' }];
+      default:
+        return [{ createdAt: 'desc' }];
+    }
+  }
+
+  static getPublicReviewSelectClause() {
+    return {
+      id: true,
+      rating: true,
+      title: true,
+      content: true,
+      images: true,
+      isVerified: true,
+      isHelpful: true,
+      createdAt: true,
+      user: {
+        select: {
+          fullName: true,
+          avatar: {
+            select: {
+              fileUrl: true,
+            },
+          },
+        },
+      },
+    };
+  }
+
+  static transformReviews(reviews: any[]) {
     return reviews.map((review) => ({
       id: review.id,
       rating: review.rating,
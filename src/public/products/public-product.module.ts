@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { PrismaService } from '../../common/services/prisma.service';
 import { PublicProductController } from './public-product.controller';
 import { PublicProductService } from './public-product.service';
+import { WishlistModule } from '../../e-commerce/wishlist/wishlist.module';
 
 @Module({
+  imports: [WishlistModule],
   providers: [PrismaService, PublicProductService],
   exports: [PublicProductService],
   controllers: [PublicProductController],
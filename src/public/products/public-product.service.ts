@@ -4,18 +4,36 @@ import {
   PaginatedPublicProductResponseDto,
   PublicProductItemResponseDto,
   PublicProductDetailDto,
+  PublicProductReviewsResponseDto,
+  PublicProductFacetsDto,
+  PublicProductSuggestionDto,
 } from './dto/public-product-response.dto';
 import { PublicProductQueryDto } from './dto/public-product-query.dto';
+import { PublicReviewQueryDto } from './dto/public-review-query.dto';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
+import { Prisma } from '@prisma/client';
 import { PublicProductHelper } from './public-product.helper';
+import {
+  PRODUCT_PRICE_RANGES,
+  ProductSearchHit,
+  PublicProductSearchHelper,
+} from './public-product-search.helper';
+import { ReviewHelper } from '../../e-commerce/reviews/review.helper';
+import { WishlistService } from '../../e-commerce/wishlist/wishlist.service';
 
 export const PUBLIC_PRODUCT_CONSTANTS = {
   CACHE_TTL: 10 * 1000, // 10 seconds in milliseconds
   DEFAULT_PAGE: 1,
   DEFAULT_LIMIT: 12, // Default to 12 for better grid layouts
+  SEARCH_CANDIDATE_LIMIT: 500, // Best search hits that filters and pages apply to
+  FACET_LIMIT: 20,
+  DEFAULT_SUGGESTIONS_LIMIT: 8,
+  MAX_SUGGESTIONS_LIMIT: 20,
 } as const;
 
+const STOCK_STATUSES = ['in_stock', 'low_stock', 'out_of_stock'] as const;
+
 @Injectable()
 export class PublicProductService {
   private readonly logger = new Logger(PublicProductService.name);
@@ -23,10 +41,12 @@ export class PublicProductService {
   constructor(
     private readonly prisma: PrismaService,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly wishlistService: WishlistService,
   ) {}
 
   async findAll(
     query?: PublicProductQueryDto,
+    userId?: string,
   ): Promise<PaginatedPublicProductResponseDto> {
     try {
       const cacheKey =
@@ -35,26 +55,44 @@ export class PublicProductService {
         await this.cacheManager.get<PaginatedPublicProductResponseDto>(
           cacheKey,
         );
-      if (cachedData) return cachedData;
+      if (cachedData) {
+        return {
+          ...cachedData,
+          data: await this.flagWishlisted(cachedData.data, userId),
+        };
+      }
 
       const page = query?.page || PUBLIC_PRODUCT_CONSTANTS.DEFAULT_PAGE;
       const limit = query?.pageSize || PUBLIC_PRODUCT_CONSTANTS.DEFAULT_LIMIT;
       const skip = (page - 1) * limit;
 
-      const where = PublicProductHelper.buildPublicProductWhereClause(query);
-      const orderBy = PublicProductHelper.buildPublicProductOrderBy(query);
+      const hits = query?.q
+        ? await this.searchIndex(
+            query.q,
+            PUBLIC_PRODUCT_CONSTANTS.SEARCH_CANDIDATE_LIMIT,
+          )
+        : null;
+      const matchedIds = hits?.map((hit) => hit.id);
 
-      const prismaQuery = {
-        where,
-        orderBy,
-        skip,
-        take: limit,
-        include: PublicProductHelper.getPublicProductIncludeClause(),
-      };
+      const where = PublicProductHelper.buildPublicProductWhereClause(
+        query,
+        matchedIds,
+      );
+      const byRelevance =
+        !!hits && (!query?.sortBy || query.sortBy === 'relevance');
 
-      const [total, products] = await Promise.all([
+      const [total, products, facets] = await Promise.all([
         this.prisma.product.count({ where }),
-        this.prisma.product.findMany(prismaQuery),
+        byRelevance
+          ? this.findPageByRelevance(where, hits, skip, limit)
+          : this.prisma.product.findMany({
+              where,
+              orderBy: PublicProductHelper.buildPublicProductOrderBy(query),
+              skip,
+              take: limit,
+              include: PublicProductHelper.getPublicProductIncludeClause(),
+            }),
+        this.buildFacets(query, matchedIds),
       ]);
 
       // Transform products for public response
@@ -70,6 +108,7 @@ export class PublicProductService {
           total,
           page,
           totalPages: Math.ceil(total / limit),
+          facets,
         });
 
       // Cache the paginated response
@@ -79,18 +118,24 @@ export class PublicProductService {
         PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
       );
 
-      return paginatedResponse;
+      return {
+        ...paginatedResponse,
+        data: await this.flagWishlisted(paginatedResponse.data, userId),
+      };
     } catch (error) {
       PublicProductHelper.handleError(error, 'findAll method', this.logger);
     }
   }
 
-  async findById(id: string): Promise<PublicProductDetailDto> {
+  async findById(id: string, userId?: string): Promise<PublicProductDetailDto> {
     try {
       const cacheKey = `public-product-detail:${id}`;
       const cachedData =
         await this.cacheManager.get<PublicProductDetailDto>(cacheKey);
-      if (cachedData) return cachedData;
+      if (cachedData) {
+        const [flagged] = await this.flagWishlisted([cachedData], userId);
+        return flagged;
+      }
 
       const product = await this.prisma.product.findFirst({
         where: {
@@ -105,8 +150,11 @@ export class PublicProductService {
         throw new Error('Product not found');
       }
 
-      const result =
-        PublicProductHelper.transformProductForDetailedResponse(product);
+      const rating = await ReviewHelper.ratingSummary(this.prisma, product.id);
+      const result = PublicProductHelper.transformProductForDetailedResponse(
+        product,
+        rating,
+      );
 
       // Cache the detailed product response
       await this.cacheManager.set(
@@ -115,18 +163,25 @@ export class PublicProductService {
         PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
       );
 
-      return result;
+      const [flagged] = await this.flagWishlisted([result], userId);
+      return flagged;
     } catch (error) {
       PublicProductHelper.handleError(error, 'findById method', this.logger);
     }
   }
 
-  async findBySlug(slug: string): Promise<PublicProductDetailDto> {
+  async findBySlug(
+    slug: string,
+    userId?: string,
+  ): Promise<PublicProductDetailDto> {
     try {
       const cacheKey = `public-product-detail:slug:${slug}`;
       const cachedData =
         await this.cacheManager.get<PublicProductDetailDto>(cacheKey);
-      if (cachedData) return cachedData;
+      if (cachedData) {
+        const [flagged] = await this.flagWishlisted([cachedData], userId);
+        return flagged;
+      }
 
       const product = await this.prisma.product.findFirst({
         where: {
@@ -141,8 +196,11 @@ export class PublicProductService {
         throw new Error('Product not found');
       }
 
-      const result =
-        PublicProductHelper.transformProductForDetailedResponse(product);
+      const rating = await ReviewHelper.ratingSummary(this.prisma, product.id);
+      const result = PublicProductHelper.transformProductForDetailedResponse(
+        product,
+        rating,
+      );
 
       // Cache the detailed product response
       await this.cacheManager.set(
@@ -151,20 +209,82 @@ export class PublicProductService {
         PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
       );
 
-      return result;
+      const [flagged] = await this.flagWishlisted([result], userId);
+      return flagged;
     } catch (error) {
       PublicProductHelper.handleError(error, 'findBySlug method', this.logger);
     }
   }
 
+  /**
+   * Approved reviews of a product with its average and star distribution
+   */
+  async findReviews(
+    productId: string,
+    query?: PublicReviewQueryDto,
+  ): Promise<PublicProductReviewsResponseDto> {
+    try {
+      const cacheKey = `public-product-reviews:${productId}:${JSON.stringify(query ?? {})}`;
+      const cachedData =
+        await this.cacheManager.get<PublicProductReviewsResponseDto>(cacheKey);
+      if (cachedData) return cachedData;
+
+      const product = await this.prisma.product.findFirst({
+        where: { id: productId, isActive: true, allowsSale: true },
+        select: { id: true },
+      });
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const page = query?.page || PUBLIC_PRODUCT_CONSTANTS.DEFAULT_PAGE;
+      const limit = query?.pageSize || PUBLIC_PRODUCT_CONSTANTS.DEFAULT_LIMIT;
+      const where = PublicProductHelper.buildPublicReviewWhereClause(
+        productId,
+        query,
+      );
+
+      const [summary, total, reviews] = await Promise.all([
+        ReviewHelper.ratingSummary(this.prisma, productId),
+        this.prisma.review.count({ where }),
+        this.prisma.review.findMany({
+          where,
+          select: PublicProductHelper.getPublicReviewSelectClause(),
+          orderBy: PublicProductHelper.buildPublicReviewOrderBy(query),
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      const result = {
+        summary,
+        data: PublicProductHelper.transformReviews(reviews),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
+      );
+
+      return result;
+    } catch (error) {
+      PublicProductHelper.handleError(error, 'findReviews method', this.logger);
+    }
+  }
+
   async getFeatured(
     limit: number = 8,
+    userId?: string,
   ): Promise<PublicProductItemResponseDto[]> {
     try {
       const cacheKey = `public-products:featured:${limit}`;
       const cachedData =
         await this.cacheManager.get<PublicProductItemResponseDto[]>(cacheKey);
-      if (cachedData) return cachedData;
+      if (cachedData) return this.flagWishlisted(cachedData, userId);
 
       const products = await this.prisma.product.findMany({
         where: {
@@ -191,9 +311,241 @@ export class PublicProductService {
         PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
       );
 
-      return transformedProducts;
+      return this.flagWishlisted(transformedProducts, userId);
     } catch (error) {
       PublicProductHelper.handleError(error, 'getFeatured method', this.logger);
     }
   }
+
+  /**
+   * Typeahead suggestions from the same index as the product search
+   */
+  async getSuggestions(
+    q?: string,
+    limit: number = PUBLIC_PRODUCT_CONSTANTS.DEFAULT_SUGGESTIONS_LIMIT,
+  ): Promise<PublicProductSuggestionDto[]> {
+    try {
+      const take = Math.min(
+        Math.max(Number(limit) || 1, 1),
+        PUBLIC_PRODUCT_CONSTANTS.MAX_SUGGESTIONS_LIMIT,
+      );
+      const folded = PublicProductSearchHelper.foldText(q);
+      if (folded.length < 2) return [];
+
+      const cacheKey = `public-products:suggestions:${folded}:${take}`;
+      const cachedData =
+        await this.cacheManager.get<PublicProductSuggestionDto[]>(cacheKey);
+      if (cachedData) return cachedData;
+
+      const hits = (await this.searchIndex(folded, take)) ?? [];
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: hits.map((hit) => hit.id) } },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          thumbnail: true,
+          price: true,
+        },
+      });
+
+      const result = PublicProductSearchHelper.sortByRank(products, hits).map(
+        (product) => PublicProductSuggestionDto.fromProduct(product),
+      );
+
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        PUBLIC_PRODUCT_CONSTANTS.CACHE_TTL,
+      );
+
+      return result;
+    } catch (error) {
+      PublicProductHelper.handleError(
+        error,
+        'getSuggestions method',
+        this.logger,
+      );
+    }
+  }
+
+  /**
+   * Sellable products matching `q`, best first. Terms match by prefix on the
+   * weighted tsvector (name > code > description); the trigram word
+   * similarity on the folded document tolerates typos. Both columns are
+   * generated by scripts/setup-product-search.ts.
+   *
+   * @returns null when `q` holds nothing searchable
+   */
+  private async searchIndex(
+    q: string,
+    limit: number,
+  ): Promise<ProductSearchHit[] | null> {
+    const folded = PublicProductSearchHelper.foldText(q);
+    if (!folded) return null;
+
+    const tsQuery = PublicProductSearchHelper.buildTsQuery(folded);
+
+    const hits = await this.prisma.$queryRaw<ProductSearchHit[]>`
+      SELECT p."id",
+        (ts_rank(p."searchVector", to_tsquery('simple', ${tsQuery})) * 2
+          + word_similarity(${folded}, p."searchDocument"))::float8 AS "rank"
+      FROM "products" p
+      WHERE p."isActive" = true
+        AND p."allowsSale" = true
+        AND (
+          p."searchVector" @@ to_tsquery('simple', ${tsQuery})
+          OR ${folded} <% p."searchDocument"
+        )
+      ORDER BY "rank" DESC, p."ratingCount" DESC
+      LIMIT ${limit}`;
+
+    return hits;
+  }
+
+  /**
+   * One page of filtered search hits in relevance order; Prisma cannot order
+   * by the search rank, so the page is cut from the ranked ids
+   */
+  private async findPageByRelevance(
+    where: Prisma.ProductWhereInput,
+    hits: ProductSearchHit[],
+    skip: number,
+    take: number,
+  ) {
+    const matched = await this.prisma.product.findMany({
+      where,
+      select: { id: true },
+    });
+    const pageIds = PublicProductSearchHelper.sortByRank(matched, hits)
+      .slice(skip, skip + take)
+      .map((product) => product.id);
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: pageIds } },
+      include: PublicProductHelper.getPublicProductIncludeClause(),
+    });
+
+    return PublicProductSearchHelper.sortByRank(products, hits);
+  }
+
+  /**
+   * Counts per category, business, price range and stock status. Each facet
+   * leaves out its own filter so sibling values keep their counts.
+   */
+  private async buildFacets(
+    query: PublicProductQueryDto | undefined,
+    matchedIds?: string[],
+  ): Promise<PublicProductFacetsDto> {
+    const whereWithout = (omit: Partial<PublicProductQueryDto>) =>
+      PublicProductHelper.buildPublicProductWhereClause(
+        { ...query, ...omit },
+        matchedIds,
+      );
+
+    const priceWhere = whereWithout({
+      minPrice: undefined,
+      maxPrice: undefined,
+    });
+    const stockWhere = whereWithout({ stockStatus: undefined });
+
+    const [categoryGroups, businessGroups, priceCounts, stockCounts] =
+      await Promise.all([
+        this.prisma.product.groupBy({
+          by: ['categoryId'],
+          where: whereWithout({ categoryId: undefined }),
+          _count: { _all: true },
+          orderBy: { _count: { categoryId: 'desc' } },
+          take: PUBLIC_PRODUCT_CONSTANTS.FACET_LIMIT,
+        }),
+        this.prisma.product.groupBy({
+          by: ['businessId'],
+          where: whereWithout({ businessId: undefined }),
+          _count: { _all: true },
+          orderBy: { _count: { businessId: 'desc' } },
+          take: PUBLIC_PRODUCT_CONSTANTS.FACET_LIMIT,
+        }),
+        Promise.all(
+          PRODUCT_PRICE_RANGES.map((range) =>
+            this.prisma.product.count({
+              where: {
+                AND: [
+                  priceWhere,
+                  PublicProductSearchHelper.priceRangeWhere(range),
+                ],
+              },
+            }),
+          ),
+        ),
+        Promise.all(
+          STOCK_STATUSES.map((status) =>
+            this.prisma.product.count({
+              where: {
+                AND: [stockWhere, PublicProductHelper.stockStatusWhere(status)],
+              },
+            }),
+          ),
+        ),
+      ]);
+
+    const [categories, businesses] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { id: { in: categoryGroups.map((group) => group.categoryId) } },
+        select: { id: true, name: true, slug: true },
+      }),
+      this.prisma.business.findMany({
+        where: { id: { in: businessGroups.map((group) => group.businessId) } },
+        select: { id: true, name: true, slug: true },
+      }),
+    ]);
+
+    return {
+      categories: PublicProductSearchHelper.toFacetBuckets(
+        categoryGroups.map((group) => ({
+          id: group.categoryId,
+          count: group._count._all,
+        })),
+        categories,
+      ),
+      businesses: PublicProductSearchHelper.toFacetBuckets(
+        businessGroups.map((group) => ({
+          id: group.businessId,
+          count: group._count._all,
+        })),
+        businesses,
+      ),
+      priceRanges: PRODUCT_PRICE_RANGES.map((range, index) => ({
+        key: range.key,
+        label: range.label,
+        min: range.min,
+        max: range.max,
+        count: priceCounts[index],
+      })),
+      stockStatus: STOCK_STATUSES.map((status, index) => ({
+        status,
+        count: stockCounts[index],
+      })),
+    };
+  }
+
+  /**
+   * Mark products the signed-in caller has wishlisted. The flag is per user,
+   * so it is added on top of the shared cached response, never cached itself.
+   */
+  private async flagWishlisted<T extends { id: string }>(
+    products: T[],
+    userId?: string,
+  ): Promise<T[]> {
+    if (!userId || products.length === 0) return products;
+
+    const wishlisted = await this.wishlistService.wishlistedProductIds(
+      userId,
+      products.map((product) => product.id),
+    );
+
+    return products.map((product) => ({
+      ...product,
+      isWishlisted: wishlisted.has(product.id),
+    }));
+  }
 }